@@ -1,5 +1,5 @@
 import Link from "next/link";
-import { getAllSupportArticles } from "@/lib/content/support";
+import { getAllRuleArticles, getAllSupportArticles } from "@/lib/content/support";
 import { BookOpen, Layers, Calculator, ArrowLeft } from "lucide-react";
 
 const iconMap: Record<string, React.ReactNode> = {
@@ -16,6 +16,7 @@ export const metadata = {
 
 export default function SupportPage() {
   const articles = getAllSupportArticles();
+  const ruleArticles = getAllRuleArticles();
 
   return (
     <div className="min-h-screen bg-white dark:bg-gray-950">
@@ -94,6 +95,42 @@ export default function SupportPage() {
           ))}
         </div>
 
+        {/* Validation rule reference */}
+        {ruleArticles.length > 0 && (
+          <section id="rules" className="mt-12 scroll-mt-24">
+            <h2 className="text-2xl font-semibold text-gray-900 dark:text-white">
+              Validation Rule Reference
+            </h2>
+            <p className="mt-2 text-gray-600 dark:text-gray-400">
+              Why each validation code is reported, with the clauses of the
+              standard behind it and example frames.
+            </p>
+            <ul className="mt-6 divide-y divide-gray-200 rounded-xl border border-gray-200 dark:divide-gray-800 dark:border-gray-800">
+              {ruleArticles.map((rule) => (
+                <li key={rule.slug}>
+                  <Link
+                    href={`/support/rules/${rule.slug}`}
+                    className="flex items-center gap-3 px-4 py-3 text-sm hover:bg-gray-50 dark:hover:bg-gray-900"
+                  >
+                    <span
+                      className={
+                        rule.severity === "error"
+                          ? "font-mono text-xs font-medium text-red-600 dark:text-red-400"
+                          : "font-mono text-xs font-medium text-amber-600 dark:text-amber-400"
+                      }
+                    >
+                      {rule.code}
+                    </span>
+                    <span className="text-gray-700 dark:text-gray-300">
+                      {rule.title.replace(`${rule.code}: `, "")}
+                    </span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
         {/* Contact Section */}
         <div className="mt-12 rounded-xl border border-gray-200 bg-gray-50 p-6 text-center dark:border-gray-800 dark:bg-gray-900">
           <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
@@ -0,0 +1,98 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { MDXRemote } from "next-mdx-remote/rsc";
+import remarkGfm from "remark-gfm";
+import rehypeSlug from "rehype-slug";
+import { getRuleArticle, getRuleArticleSlugs } from "@/lib/content/support";
+import { mdxComponents } from "@/components/mdx";
+import { TableOfContents } from "@/components/mdx/TableOfContents";
+import { ChevronLeft, ArrowLeft } from "lucide-react";
+
+interface PageProps {
+  params: Promise<{ code: string }>;
+}
+
+export async function generateStaticParams() {
+  const slugs = getRuleArticleSlugs();
+  return slugs.map((code) => ({ code }));
+}
+
+export async function generateMetadata({ params }: PageProps) {
+  const { code } = await params;
+  const article = getRuleArticle(code);
+
+  if (!article) {
+    return {
+      title: "Not Found | DatumPilot Support",
+    };
+  }
+
+  return {
+    title: `${article.title} | DatumPilot Support`,
+    description: article.description,
+  };
+}
+
+export default async function RuleArticlePage({ params }: PageProps) {
+  const { code } = await params;
+  const article = getRuleArticle(code);
+
+  if (!article) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-950">
+      {/* Top navigation bar */}
+      <header className="sticky top-0 z-40 border-b border-gray-200 bg-white/80 backdrop-blur-sm dark:border-gray-800 dark:bg-gray-950/80">
+        <div className="mx-auto flex max-w-6xl items-center justify-between px-4 py-3 sm:px-6 lg:px-8">
+          <Link
+            href="/support#rules"
+            className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            <ChevronLeft className="h-4 w-4" />
+            Validation Rules
+          </Link>
+          <Link
+            href="/app"
+            className="inline-flex items-center gap-2 rounded-md bg-primary-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-primary-700 transition-colors"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to App
+          </Link>
+        </div>
+      </header>
+
+      <div className="mx-auto max-w-6xl px-4 py-8 sm:px-6 lg:px-8">
+        {/* Mobile TOC - shown above content on small screens */}
+        <div className="mb-8 lg:hidden">
+          <TableOfContents content={article.content} />
+        </div>
+
+        {/* Main content with sidebar TOC */}
+        <div className="lg:grid lg:grid-cols-[1fr_280px] lg:gap-8">
+          {/* Article Content (the generated MDX carries its own heading) */}
+          <article className="prose prose-gray prose-headings:text-gray-900 prose-headings:scroll-mt-24 prose-p:text-gray-700 prose-strong:text-gray-900 prose-a:text-blue-600 hover:prose-a:text-blue-800 dark:prose-invert dark:prose-headings:text-white dark:prose-p:text-gray-300 dark:prose-strong:text-white dark:prose-a:text-blue-400 max-w-none">
+            <MDXRemote
+              source={article.content}
+              components={mdxComponents}
+              options={{
+                mdxOptions: {
+                  remarkPlugins: [remarkGfm],
+                  rehypePlugins: [rehypeSlug],
+                },
+              }}
+            />
+          </article>
+
+          {/* Sidebar TOC - sticky on desktop */}
+          <aside className="hidden lg:block">
+            <div className="sticky top-24">
+              <TableOfContents content={article.content} />
+            </div>
+          </aside>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,7 +5,9 @@ import { fcfJsonSchema, FcfJson } from "@/lib/fcf/schema";
 import type { ExportFormat, ExportResult } from "@/lib/export/types";
 import { generateFcfSvg } from "@/lib/export/svg-generator";
 import { generateFcfPdf } from "@/lib/export/pdf-generator";
+import { getUserSettings } from "@/lib/settings/actions";
 import { checkFeatureAccess, getSubscriptionStatus } from "@/lib/stripe/subscription";
+import { displayDecimals } from "@/lib/util/units";
 
 // Request schema - JSON kept for future API integrations
 const exportRequestSchema = z.object({
@@ -16,6 +18,8 @@ const exportRequestSchema = z.object({
       scale: z.number().min(0.5).max(4).optional(),
       includeMetadata: z.boolean().optional(),
       backgroundColor: z.string().optional(),
+      decimals: z.number().int().min(1).max(4).optional(),
+      dualDisplay: z.boolean().optional(),
     })
     .optional(),
 });
@@ -100,6 +104,8 @@ interface ExportOptions {
   scale?: number;
   includeMetadata?: boolean;
   backgroundColor?: string;
+  decimals?: number;
+  dualDisplay?: boolean;
 }
 
 /**
@@ -189,11 +195,16 @@ async function generatePdfExport(
   fcf: FcfJson,
   options?: ExportOptions
 ): Promise<ExportResult> {
+  // Dimensions follow the user's display settings unless overridden
+  const settings = await getUserSettings();
+
   // Generate PDF buffer
   const pdfBuffer = await generateFcfPdf(fcf, {
     includeMetadata: options?.includeMetadata ?? true,
     pageSize: "a4",
     orientation: "portrait",
+    decimals: options?.decimals ?? displayDecimals(fcf.sourceUnit, settings),
+    dualDisplay: options?.dualDisplay ?? settings.dualDisplay,
   });
 
   // Generate filename
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { designGauge } from "@/lib/calc/gauge";
+import type { GaugeDesignInput } from "@/lib/calc/types";
+import type { ExportResult } from "@/lib/export/types";
+import { generateGaugeSpecPdf } from "@/lib/export/gauge-pdf-generator";
+import { getUserSettings } from "@/lib/settings/actions";
+import { checkFeatureAccess, getSubscriptionStatus } from "@/lib/stripe/subscription";
+
+const sizeDimensionSchema = z.object({
+  nominal: z.number(),
+  tolerancePlus: z.number(),
+  toleranceMinus: z.number(),
+  featureType: z.enum(["hole", "slot", "pin", "boss", "surface", "plane", "edge"]),
+});
+
+const gaugeAllowanceSchema = z.object({
+  type: z.enum(["absolute", "percentage"]),
+  value: z.number(),
+});
+
+// Ranges and feature classes are checked by the calculator
+const gaugeDesignInputSchema: z.ZodType<GaugeDesignInput> = z.object({
+  unit: z.enum(["mm", "inch"]),
+  precision: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4), z.literal(5), z.literal(6)]).optional(),
+  geometricTolerance: z.number(),
+  materialCondition: z.enum(["MMC", "LMC", "RFS"]),
+  featureType: sizeDimensionSchema.shape.featureType,
+  sizeDimension: sizeDimensionSchema,
+  featureCount: z.number().optional(),
+  datumFeatures: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        materialCondition: z.enum(["MMC", "LMC", "RFS"]),
+        sizeDimension: sizeDimensionSchema,
+        materialBoundary: z.number().optional(),
+      })
+    )
+    .optional(),
+  gaugeTolerance: gaugeAllowanceSchema,
+  wearAllowance: gaugeAllowanceSchema.optional(),
+  name: z.string().optional(),
+});
+
+const gaugeRequestSchema = z.object({
+  input: gaugeDesignInputSchema,
+  options: z
+    .object({
+      includeMetadata: z.boolean().optional(),
+      pageSize: z.enum(["a4", "letter"]).optional(),
+      decimals: z.number().int().min(1).max(6).optional(),
+      dualDisplay: z.boolean().optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Design a functional gauge and return its spec sheet as a PDF export.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { input, options } = gaugeRequestSchema.parse(body);
+
+    const hasAccess = await checkFeatureAccess("exportPdf");
+    if (!hasAccess) {
+      const status = await getSubscriptionStatus();
+      return NextResponse.json(
+        {
+          error: "Upgrade required",
+          message: "PDF export is available on Pro and Team plans.",
+          currentTier: status?.tier || "free",
+          requiredTier: "pro",
+        },
+        { status: 403 }
+      );
+    }
+
+    const response = designGauge(input);
+    if (!response.success) {
+      return NextResponse.json({ error: "Invalid gauge input", details: response.errors }, { status: 400 });
+    }
+
+    const settings = await getUserSettings();
+    const pdfBuffer = await generateGaugeSpecPdf(response.result, {
+      includeMetadata: options?.includeMetadata ?? true,
+      pageSize: options?.pageSize ?? "a4",
+      orientation: "portrait",
+      decimals: options?.decimals,
+      dualDisplay: options?.dualDisplay ?? settings.dualDisplay,
+    });
+
+    const filename = `gauge-${sanitizeFilename(response.result.name || "spec")}-${Date.now()}.pdf`;
+    const result: ExportResult = {
+      url: `data:application/pdf;base64,${pdfBuffer.toString("base64")}`,
+      format: "pdf",
+      filename,
+      size: pdfBuffer.length,
+      expiresAt: new Date(Date.now() + 15 * 60 * 1000).toISOString(),
+    };
+
+    return NextResponse.json({ design: response.result, export: result });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Gauge export error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Gauge export failed" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Sanitize filename to remove special characters
+ */
+function sanitizeFilename(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9-_]/g, "-")
+    .replace(/-+/g, "-")
+    .slice(0, 50);
+}
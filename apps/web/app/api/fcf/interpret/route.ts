@@ -4,10 +4,25 @@ import { z } from "zod";
 import { orchestrateFcfInterpretation } from "@/lib/ai/orchestrator.server";
 import { InterpretFcfRequest } from "@/lib/ai/types";
 import { fcfJsonSchema } from "@/lib/fcf/schema";
+import { datumCatalogSchema } from "@/lib/fcf/datums";
+import { getEffectiveRuleProfile } from "@/lib/rules/profileActions";
 
 const calculationInputSchema = z
   .object({
-    characteristic: z.enum(["position", "flatness", "perpendicularity", "profile"]),
+    characteristic: z.enum([
+      "position",
+      "pattern",
+      "flatness",
+      "straightness",
+      "circularity",
+      "cylindricity",
+      "perpendicularity",
+      "parallelism",
+      "angularity",
+      "runout",
+      "totalRunout",
+      "profile"
+    ]),
     input: z.unknown()
   })
   .optional();
@@ -16,6 +31,9 @@ const calculationInputSchema = z
 const interpretRequestSchema = z.object({
   fcf: fcfJsonSchema,
   calculationInput: calculationInputSchema,
+  datumCatalog: datumCatalogSchema.optional(),
+  // Validate with this project's rule profile rather than the account default
+  projectId: z.string().optional(),
   correlationId: z.string().optional()
 });
 
@@ -30,6 +48,8 @@ export async function POST(req: Request) {
     const request: InterpretFcfRequest = {
       fcf: parsed.data.fcf,
       calculationInput: parsed.data.calculationInput as InterpretFcfRequest["calculationInput"],
+      datumCatalog: parsed.data.datumCatalog,
+      ruleProfile: await getEffectiveRuleProfile(parsed.data.projectId),
       correlationId: parsed.data.correlationId
     };
 
@@ -13,6 +13,7 @@ import {
 } from "@/lib/database/validation";
 import { createClient } from "@/lib/supabase/server";
 import { validateFcf } from "@/lib/rules/validateFcf";
+import { getProjectRuleProfile } from "@/lib/rules/profileActions";
 import type { FcfRecord, ApiResult, PaginatedResponse } from "@/lib/database/types";
 
 // ============================================================================
@@ -175,7 +176,7 @@ export async function POST(request: NextRequest) {
   // Verify user owns the project
   const { data: project } = await supabase
     .from("projects")
-    .select("id")
+    .select("id, datum_features")
     .eq("id", input.project_id)
     .eq("user_id", user.id)
     .is("deleted_at", null)
@@ -185,8 +186,9 @@ export async function POST(request: NextRequest) {
     return createApiError("NOT_FOUND", "Project not found", 404);
   }
 
-  // Run deterministic validation on the FCF JSON
-  const validationResult = validateFcf(input.fcf_json);
+  // Run deterministic validation on the FCF JSON under the project's rule profile and datum catalog
+  const ruleProfile = await getProjectRuleProfile(input.project_id);
+  const validationResult = validateFcf(input.fcf_json, ruleProfile ?? undefined, project.datum_features ?? []);
 
   // Store validation errors in the record
   const validationErrors = validationResult.issues.map((issue) => ({
@@ -16,12 +16,18 @@ import {
   Loader2,
 } from "lucide-react";
 import { cn } from "@/lib/utils/cn";
-import type { FcfJson } from "@/lib/fcf/schema";
-import type { ValidationResult } from "@/lib/rules/validateFcf";
+import type { FcfJson, GeometricStandard } from "@/lib/fcf/schema";
+import { STANDARD_LABELS, translateStandard, type StandardTranslation } from "@/lib/fcf/standards";
+import { applyFixes, validateFcf } from "@/lib/rules/validateFcf";
+import type { ValidationIssue, ValidationResult } from "@/lib/rules/validateFcf";
+import { useRuleProfile } from "@/lib/hooks/useRuleProfile";
+import FastenerCalculatorPanel from "@/components/fcf/FastenerCalculatorPanel";
 import FcfBuilderPanel from "@/components/fcf/FcfBuilderPanel";
 import FcfPreview from "@/components/fcf/FcfPreview";
+import GaugeDesignerPanel from "@/components/fcf/GaugeDesignerPanel";
 import InterpretationPanel from "@/components/fcf/InterpretationPanel";
 import SaveFcfModal from "@/components/fcf/SaveFcfModal";
+import StandardTranslationReport from "@/components/fcf/StandardTranslationReport";
 
 type ViewMode = "split" | "builder" | "preview";
 
@@ -67,9 +73,12 @@ export default function BuilderPage() {
   });
 
   const [validationResult, setValidationResult] = useState<ValidationResult | null>(null);
+  const { profile: ruleProfile } = useRuleProfile();
   const [viewMode, setViewMode] = useState<ViewMode>("split");
   const [showSaveModal, setShowSaveModal] = useState(false);
   const [exportingFormat, setExportingFormat] = useState<"png" | "svg" | "pdf" | null>(null);
+  const [translation, setTranslation] = useState<StandardTranslation<Partial<FcfJson>> | null>(null);
+  const standardLabel = STANDARD_LABELS[fcf.standard ?? "ASME_Y14_5_2018"];
 
   // Export handler
   const handleExport = useCallback(async (format: "png" | "svg" | "pdf") => {
@@ -119,97 +128,55 @@ export default function BuilderPage() {
     }
   }, [fcf]);
 
-  // Mock validation
+  // Live validation against the rule catalog
   const handleValidate = useCallback(async (fcfData: Partial<FcfJson>) => {
-    await new Promise((resolve) => setTimeout(resolve, 300));
-
-    const issues: ValidationResult["issues"] = [];
-
     // Guidance message when characteristic not selected (warning, not error)
     if (!fcfData.characteristic) {
-      issues.push({
+      const guidance: ValidationIssue = {
         code: "E000" as any,
         message: "Input required: Select a geometric characteristic to begin",
         path: "characteristic",
         severity: "warning",
-      });
+      };
+      const result: ValidationResult = {
+        valid: true,
+        issues: [guidance],
+        errors: [],
+        warnings: [guidance],
+        summary: { errorCount: 0, warningCount: 1 },
+      };
+      setValidationResult(result);
+      return result;
     }
 
-    // Reject negative tolerance values (zero is valid for bonus tolerance)
-    if (fcfData.tolerance?.value !== undefined && fcfData.tolerance.value < 0) {
-      issues.push({
-        code: "E031" as any,
-        message: "Tolerance value cannot be negative",
-        path: "tolerance.value",
-        severity: "error",
-      });
-    }
+    const result = validateFcf({
+      ...fcfData,
+      characteristic: fcfData.characteristic,
+      sourceUnit: fcfData.sourceUnit || "mm",
+      source: fcfData.source || { inputType: "builder" },
+      tolerance: fcfData.tolerance || { value: 0 },
+    }, ruleProfile);
 
-    if (
-      fcfData.characteristic === "position" &&
-      (!fcfData.datums || fcfData.datums.length === 0)
-    ) {
-      issues.push({
-        code: "E006" as any,
-        message: "Position tolerance requires at least one datum reference",
-        path: "datums",
-        severity: "error",
-        context: {
-          characteristic: "position",
-          suggestion: "Add a primary datum reference (typically A)",
-        },
-      });
-    }
-
-    if (
-      fcfData.characteristic === "perpendicularity" &&
-      (!fcfData.datums || fcfData.datums.length === 0)
-    ) {
-      issues.push({
-        code: "E006" as any,
-        message: "Perpendicularity requires at least one datum reference",
-        path: "datums",
-        severity: "error",
-        context: {
-          characteristic: "perpendicularity",
-          suggestion: "Add a datum to reference the perpendicularity",
-        },
-      });
-    }
-
-    if (
-      fcfData.characteristic === "flatness" &&
-      fcfData.datums &&
-      fcfData.datums.length > 0
-    ) {
-      issues.push({
-        code: "E002" as any,
-        message: "Form tolerances (flatness) cannot reference datums",
-        path: "datums",
-        severity: "error",
-        context: {
-          characteristic: "flatness",
-          suggestion: "Remove datum references for form tolerances",
-        },
-      });
-    }
+    setValidationResult(result);
+    return result;
+  }, [ruleProfile]);
 
-    const errors = issues.filter((i) => i.severity === "error");
-    const warnings = issues.filter((i) => i.severity === "warning");
+  // Apply machine fixes; the effect below re-validates the updated frame
+  const handleApplyFixes = useCallback((issues: ValidationIssue[]) => {
+    setFcf((current) => applyFixes(current, issues));
+  }, []);
 
-    const result: ValidationResult = {
-      valid: errors.length === 0,
-      issues,
-      errors,
-      warnings,
-      summary: {
-        errorCount: errors.length,
-        warningCount: warnings.length,
-      },
-    };
+  // Switch standards and keep the report of what changed meaning
+  const handleStandardChange = useCallback((standard: GeometricStandard) => {
+    const result = translateStandard(fcf, standard);
+    setFcf(result.fcf);
+    setTranslation(result);
+  }, [fcf]);
 
-    setValidationResult(result);
-    return result;
+  // Load a frame generated by a calculator into the builder
+  const handleOpenFcf = useCallback((generated: FcfJson) => {
+    setFcf(generated);
+    setTranslation(null);
   }, []);
 
   useEffect(() => {
@@ -224,6 +191,7 @@ export default function BuilderPage() {
       datums: [],
     });
     setValidationResult(null);
+    setTranslation(null);
   }, []);
 
   return (
@@ -239,7 +207,7 @@ export default function BuilderPage() {
             FCF BUILDER
           </h1>
           <p className="text-[#374151] dark:text-slate-500 mt-1 font-mono text-sm">
-            Build feature control frames with live ASME Y14.5 validation
+            Build feature control frames with live ASME Y14.5 / ISO 1101 validation
           </p>
         </div>
 
@@ -325,7 +293,11 @@ export default function BuilderPage() {
         </div>
         <div className="h-4 w-px bg-[#E5E7EB] dark:bg-slate-700" />
         <span className="font-mono text-xs text-[#6B7280] dark:text-slate-500">
-          REF: ASME Y14.5-2018
+          REF: {standardLabel.toUpperCase()}
+        </span>
+        <div className="h-4 w-px bg-[#E5E7EB] dark:bg-slate-700" />
+        <span className="font-mono text-xs text-[#6B7280] dark:text-slate-500">
+          PROFILE: {ruleProfile.name.toUpperCase()}
         </span>
         {fcf.characteristic && (
           <>
@@ -349,7 +321,7 @@ export default function BuilderPage() {
         >
           {/* Builder Panel */}
           {(viewMode === "split" || viewMode === "builder") && (
-            <div className="overflow-auto scrollbar-hide">
+            <div className="flex flex-col gap-6 overflow-auto scrollbar-hide">
               <TechnicalPanel label="INPUT.PARAMS">
                 <div className="p-4">
                   <FcfBuilderPanel
@@ -357,9 +329,36 @@ export default function BuilderPage() {
                     onChange={setFcf}
                     onValidate={handleValidate}
                     validationResult={validationResult}
+                    onApplyFixes={handleApplyFixes}
+                    onStandardChange={handleStandardChange}
+                  />
+                  {translation && (
+                    <StandardTranslationReport
+                      translation={translation}
+                      onDismiss={() => setTranslation(null)}
+                      className="mt-3"
+                    />
+                  )}
+                </div>
+              </TechnicalPanel>
+
+              {/* Fastener Calculator */}
+              <TechnicalPanel label="CALC.FASTENER">
+                <div className="p-4">
+                  <FastenerCalculatorPanel
+                    unit={fcf.sourceUnit}
+                    ruleProfile={ruleProfile}
+                    onOpenFcf={handleOpenFcf}
                   />
                 </div>
               </TechnicalPanel>
+
+              {/* Functional Gauge */}
+              <TechnicalPanel label="CALC.GAUGE">
+                <div className="p-4">
+                  <GaugeDesignerPanel fcf={fcf} />
+                </div>
+              </TechnicalPanel>
             </div>
           )}
 
@@ -431,7 +430,7 @@ export default function BuilderPage() {
                     <div className="h-4 w-px bg-[#E5E7EB] dark:bg-slate-700" />
                     <div className="flex items-center gap-2">
                       <Sparkles className="w-3.5 h-3.5 text-accent-500" />
-                      <span className="font-mono text-[10px] text-[#6B7280] dark:text-slate-500">ASME Y14.5-2018</span>
+                      <span className="font-mono text-[10px] text-[#6B7280] dark:text-slate-500">{standardLabel}</span>
                     </div>
                   </div>
                 }
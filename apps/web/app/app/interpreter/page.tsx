@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import {
   BookOpen,
   Lightbulb,
@@ -11,9 +11,20 @@ import {
   ChevronRight,
   ExternalLink,
   Sparkles,
+  ScanText,
 } from "lucide-react";
 import { cn } from "@/lib/utils/cn";
 import { CharacteristicIcon } from "@/components/gdt/CharacteristicIcon";
+import { ValidationPanel } from "@/components/gdt/ValidationMessage";
+import FcfPreview from "@/components/fcf/FcfPreview";
+import InterpreterForm from "@/components/fcf/InterpreterForm";
+import InterpretationPanel from "@/components/fcf/InterpretationPanel";
+import DatumFramePanel from "@/components/fcf/DatumFramePanel";
+import DatumCatalogEditor from "@/components/fcf/DatumCatalogEditor";
+import type { FcfJson } from "@/lib/fcf/schema";
+import { datumReferenceLetters, type DatumFeature } from "@/lib/fcf/datums";
+import { applyFixes, validateFcf } from "@/lib/rules/validateFcf";
+import { useRuleProfile } from "@/lib/hooks/useRuleProfile";
 
 // Technical panel wrapper
 function TechnicalPanel({
@@ -48,7 +59,7 @@ function TechnicalPanel({
   );
 }
 
-type TabId = "overview" | "characteristics" | "modifiers" | "datums" | "workflow";
+type TabId = "interpret" | "overview" | "characteristics" | "modifiers" | "datums" | "workflow";
 
 interface Tab {
   id: TabId;
@@ -57,6 +68,7 @@ interface Tab {
 }
 
 const tabs: Tab[] = [
+  { id: "interpret", label: "INTERPRET", icon: ScanText },
   { id: "overview", label: "OVERVIEW", icon: BookOpen },
   { id: "characteristics", label: "CHARACTERISTICS", icon: Target },
   { id: "modifiers", label: "MODIFIERS", icon: Ruler },
@@ -85,6 +97,36 @@ const characteristics = [
     requiresDatums: false,
     color: "text-success-400",
   },
+  {
+    type: "straightness",
+    name: "Straightness",
+    symbol: "⎯",
+    category: "Form",
+    description: "Controls how straight a line element or axis is. Each line element must lie between two parallel lines.",
+    usage: "Use for shafts, guide rails, and edges where bow or warp must be limited.",
+    requiresDatums: false,
+    color: "text-success-400",
+  },
+  {
+    type: "circularity",
+    name: "Circularity",
+    symbol: "○",
+    category: "Form",
+    description: "Controls roundness of each cross-section. The section must lie between two concentric circles.",
+    usage: "Use for bearing journals, seals, and bores where lobing or ovality matters.",
+    requiresDatums: false,
+    color: "text-success-400",
+  },
+  {
+    type: "cylindricity",
+    name: "Cylindricity",
+    symbol: "⌭",
+    category: "Form",
+    description: "Controls roundness, straightness, and taper together. The surface must lie between two coaxial cylinders.",
+    usage: "Use for precision shafts and bores that must be round along their whole length.",
+    requiresDatums: false,
+    color: "text-success-400",
+  },
   {
     type: "perpendicularity",
     name: "Perpendicularity",
@@ -132,7 +174,34 @@ const modifiers = [
 ];
 
 export default function DocumentationPage() {
-  const [activeTab, setActiveTab] = useState<TabId>("overview");
+  const [activeTab, setActiveTab] = useState<TabId>("interpret");
+  const [fcf, setFcf] = useState<Partial<FcfJson>>({
+    sourceUnit: "mm",
+    source: { inputType: "text" },
+    tolerance: { value: 0 },
+    datums: [],
+  });
+  const [datumCatalog, setDatumCatalog] = useState<DatumFeature[]>([]);
+
+  const { profile: ruleProfile } = useRuleProfile();
+  const validationResult = useMemo(
+    () =>
+      fcf.characteristic
+        ? validateFcf(
+            {
+              ...fcf,
+              characteristic: fcf.characteristic,
+              sourceUnit: fcf.sourceUnit || "mm",
+              source: fcf.source || { inputType: "text" },
+              tolerance: fcf.tolerance || { value: 0 },
+            },
+            ruleProfile,
+            datumCatalog
+          )
+        : null,
+    [fcf, datumCatalog, ruleProfile]
+  );
+  const referencedLetters = (fcf.datums ?? []).flatMap((datum) => datumReferenceLetters(datum.id));
 
   return (
     <div className="h-full flex flex-col">
@@ -177,6 +246,60 @@ export default function DocumentationPage() {
 
       {/* Main Content */}
       <div className="flex-1 overflow-auto pt-6 scrollbar-hide">
+        {/* Interpret Tab */}
+        {activeTab === "interpret" && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <TechnicalPanel label="INPUT">
+              <div className="p-6">
+                <InterpreterForm fcf={fcf} onChange={setFcf} />
+              </div>
+            </TechnicalPanel>
+
+            <div className="space-y-6">
+              <TechnicalPanel label="PREVIEW">
+                <div className="p-6 flex items-center justify-center min-h-[120px]">
+                  {fcf.characteristic ? (
+                    <FcfPreview fcf={fcf} scale={2} />
+                  ) : (
+                    <p className="font-mono text-xs text-slate-500">Enter a frame to preview it</p>
+                  )}
+                </div>
+              </TechnicalPanel>
+
+              {validationResult && (
+                <ValidationPanel
+                  issues={[...validationResult.errors, ...validationResult.warnings]}
+                  title="Validation"
+                  collapsible
+                  onFix={(issue) => setFcf((current) => applyFixes(current, [issue]))}
+                  onFixAll={(issues) => setFcf((current) => applyFixes(current, issues))}
+                  profile={validationResult.profile}
+                />
+              )}
+
+              {referencedLetters.length > 0 && (
+                <TechnicalPanel label="DATUM.REFERENCE.FRAME">
+                  <div className="p-4 space-y-4">
+                    <DatumFramePanel datums={fcf.datums} catalog={datumCatalog} />
+                    <DatumCatalogEditor
+                      catalog={datumCatalog}
+                      onChange={setDatumCatalog}
+                      referencedLetters={referencedLetters}
+                      unit={fcf.sourceUnit}
+                    />
+                  </div>
+                </TechnicalPanel>
+              )}
+
+              <InterpretationPanel
+                fcf={fcf}
+                datumCatalog={datumCatalog}
+                isValid={(validationResult?.valid ?? false) && !!fcf.characteristic}
+              />
+            </div>
+          </div>
+        )}
+
         {/* Overview Tab */}
         {activeTab === "overview" && (
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
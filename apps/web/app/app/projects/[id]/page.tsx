@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import Link from "next/link";
 import {
   ArrowLeft,
@@ -19,12 +19,22 @@ import {
   Play,
   Eye,
   Upload,
+  ShieldCheck,
+  Box,
+  Layers,
 } from "lucide-react";
 import { cn } from "@/lib/utils/cn";
 import type { FcfJson } from "@/lib/fcf/schema";
+import { datumReferenceLetters, type DatumFeature } from "@/lib/fcf/datums";
 import FcfPreview from "@/components/fcf/FcfPreview";
 import { CharacteristicIcon } from "@/components/gdt/CharacteristicIcon";
 import { ValidationStatus } from "@/components/gdt/ValidationMessage";
+import DrawingHealthReport from "@/components/projects/DrawingHealthReport";
+import DatumCatalogEditor from "@/components/fcf/DatumCatalogEditor";
+import DatumFramePanel from "@/components/fcf/DatumFramePanel";
+import { validateProject } from "@/lib/rules/validateProject";
+import ProjectRuleProfileSelect from "@/components/projects/ProjectRuleProfileSelect";
+import { useRuleProfile } from "@/lib/hooks/useRuleProfile";
 
 interface ProjectDetailPageProps {
   params: { id: string };
@@ -44,10 +54,7 @@ const mockProject = {
 const mockFcfRecords: Array<{
   id: string;
   name: string;
-  fcf: Partial<FcfJson>;
-  valid: boolean;
-  errorCount: number;
-  warningCount: number;
+  fcf: FcfJson;
   measurementCount: number;
   lastMeasured: string | null;
 }> = [
@@ -57,13 +64,12 @@ const mockFcfRecords: Array<{
     fcf: {
       characteristic: "position",
       featureType: "hole",
+      featureId: "MOUNTING-HOLES",
       tolerance: { value: 0.25, diameter: true, materialCondition: "MMC" },
       datums: [{ id: "A" }, { id: "B" }, { id: "C" }],
       sourceUnit: "mm",
+      source: { inputType: "builder" },
     },
-    valid: true,
-    errorCount: 0,
-    warningCount: 1,
     measurementCount: 12,
     lastMeasured: "2024-01-20",
   },
@@ -73,13 +79,13 @@ const mockFcfRecords: Array<{
     fcf: {
       characteristic: "flatness",
       featureType: "surface",
+      featureId: "TOP-FACE",
+      datumFeature: "A",
       tolerance: { value: 0.05 },
       datums: [],
       sourceUnit: "mm",
+      source: { inputType: "builder" },
     },
-    valid: true,
-    errorCount: 0,
-    warningCount: 0,
     measurementCount: 8,
     lastMeasured: "2024-01-19",
   },
@@ -89,13 +95,13 @@ const mockFcfRecords: Array<{
     fcf: {
       characteristic: "perpendicularity",
       featureType: "plane",
+      featureId: "SIDE-FACE",
+      datumFeature: "B",
       tolerance: { value: 0.1 },
       datums: [{ id: "A" }],
       sourceUnit: "mm",
+      source: { inputType: "builder" },
     },
-    valid: true,
-    errorCount: 0,
-    warningCount: 0,
     measurementCount: 6,
     lastMeasured: "2024-01-18",
   },
@@ -105,18 +111,24 @@ const mockFcfRecords: Array<{
     fcf: {
       characteristic: "position",
       featureType: "slot",
+      featureId: "SLOT",
       tolerance: { value: 0.5, materialCondition: "MMC" },
       datums: [{ id: "A" }, { id: "B" }],
       sourceUnit: "mm",
+      source: { inputType: "builder" },
     },
-    valid: false,
-    errorCount: 1,
-    warningCount: 0,
     measurementCount: 0,
     lastMeasured: null,
   },
 ];
 
+// Mock datum feature catalog
+const mockDatumCatalog: DatumFeature[] = [
+  { id: "A", type: "planar", featureId: "TOP-FACE", description: "Top mounting face" },
+  { id: "B", type: "planar", featureId: "SIDE-FACE", description: "Long side face" },
+  { id: "C", type: "planar", description: "End face" },
+];
+
 // Mock measurements
 const mockMeasurements = [
   { id: "m-001", fcfId: "fcf-001", value: 0.18, status: "pass", date: "2024-01-20" },
@@ -125,23 +137,50 @@ const mockMeasurements = [
   { id: "m-004", fcfId: "fcf-003", value: 0.08, status: "pass", date: "2024-01-18" },
 ];
 
-type Tab = "fcfs" | "measurements" | "activity";
+type Tab = "fcfs" | "health" | "datums" | "measurements" | "activity";
 
 export default function ProjectDetailPage({ params }: ProjectDetailPageProps) {
   const [activeTab, setActiveTab] = useState<Tab>("fcfs");
   const [selectedFcf, setSelectedFcf] = useState<string | null>(null);
   const [showDropdown, setShowDropdown] = useState<string | null>(null);
+  const [datumCatalog, setDatumCatalog] = useState<DatumFeature[]>(mockDatumCatalog);
+
+  // Drawing-level validation across all frames
+  const { profile: ruleProfile, reload: reloadRuleProfile } = useRuleProfile(params.id);
+  const projectValidation = useMemo(
+    () =>
+      validateProject(
+        mockFcfRecords.map((record) => record.fcf),
+        {
+          profile: ruleProfile,
+          datumCatalog,
+        }
+      ),
+    [datumCatalog, ruleProfile]
+  );
+  const referencedLetters = mockFcfRecords.flatMap((record) =>
+    (record.fcf.datums ?? []).flatMap((datum) => datumReferenceLetters(datum.id))
+  );
+  const records = mockFcfRecords.map((record, index) => {
+    const result = projectValidation.frameResults[index];
+    return {
+      ...record,
+      valid: result.valid,
+      errorCount: result.summary.errorCount,
+      warningCount: result.summary.warningCount,
+    };
+  });
 
   // Stats
-  const totalFcfs = mockFcfRecords.length;
-  const validFcfs = mockFcfRecords.filter((f) => f.valid).length;
+  const totalFcfs = records.length;
+  const validFcfs = records.filter((f) => f.valid).length;
   const totalMeasurements = mockMeasurements.length;
   const passRate = totalMeasurements > 0
     ? Math.round((mockMeasurements.filter((m) => m.status === "pass").length / totalMeasurements) * 100)
     : 0;
 
   const selectedFcfData = selectedFcf
-    ? mockFcfRecords.find((f) => f.id === selectedFcf)
+    ? records.find((f) => f.id === selectedFcf)
     : null;
 
   return (
@@ -183,6 +222,10 @@ export default function ProjectDetailPage({ params }: ProjectDetailPageProps) {
           <button className="btn-secondary text-sm">
             <Settings className="w-4 h-4" />
           </button>
+          <Link href={`/app/stackup/new?project=${params.id}`} className="btn-secondary text-sm">
+            <Layers className="w-4 h-4" />
+            New Stack-up
+          </Link>
           <button className="btn-primary text-sm">
             <Plus className="w-4 h-4" />
             Add FCF
@@ -245,6 +288,8 @@ export default function ProjectDetailPage({ params }: ProjectDetailPageProps) {
         {(
           [
             { id: "fcfs", label: "FCF Records", icon: Target },
+            { id: "health", label: "Drawing Health", icon: ShieldCheck },
+            { id: "datums", label: "Datums", icon: Box },
             { id: "measurements", label: "Measurements", icon: Activity },
             { id: "activity", label: "Activity", icon: Clock },
           ] as const
@@ -272,7 +317,7 @@ export default function ProjectDetailPage({ params }: ProjectDetailPageProps) {
           <div className="lg:col-span-2 overflow-auto">
             {activeTab === "fcfs" && (
               <div className="space-y-3">
-                {mockFcfRecords.map((record) => (
+                {records.map((record) => (
                   <div
                     key={record.id}
                     onClick={() => setSelectedFcf(record.id)}
@@ -371,6 +416,33 @@ export default function ProjectDetailPage({ params }: ProjectDetailPageProps) {
               </div>
             )}
 
+            {activeTab === "health" && (
+              <div className="space-y-4">
+                <ProjectRuleProfileSelect projectId={params.id} onChange={reloadRuleProfile} />
+                <DrawingHealthReport
+                  result={projectValidation}
+                  frameNames={records.map((record) => record.name)}
+                  onSelectFrame={(index) => setSelectedFcf(records[index].id)}
+                />
+              </div>
+            )}
+
+            {activeTab === "datums" && (
+              <div className="space-y-2">
+                <h3 className="font-mono font-semibold text-slate-200">Datum Feature Catalog</h3>
+                <p className="text-sm text-slate-500 mb-4">
+                  What each datum letter on this drawing refers to. Validation uses the catalog to
+                  check material boundary references, and interpretations explain the degrees of
+                  freedom each datum constrains.
+                </p>
+                <DatumCatalogEditor
+                  catalog={datumCatalog}
+                  onChange={setDatumCatalog}
+                  referencedLetters={referencedLetters}
+                />
+              </div>
+            )}
+
             {activeTab === "measurements" && (
               <div className="space-y-2">
                 <div className="flex items-center justify-between mb-4">
@@ -483,6 +555,14 @@ export default function ProjectDetailPage({ params }: ProjectDetailPageProps) {
                   </div>
                 </div>
 
+                {/* Datum reference frame */}
+                {(selectedFcfData.fcf.datums ?? []).length > 0 && (
+                  <div className="mt-6 pt-4 border-t border-slate-800">
+                    <h4 className="text-sm text-slate-500 mb-3">Datum Reference Frame</h4>
+                    <DatumFramePanel datums={selectedFcfData.fcf.datums} catalog={datumCatalog} />
+                  </div>
+                )}
+
                 {/* Actions */}
                 <div className="flex items-center gap-2 mt-6 pt-4 border-t border-slate-800">
                   <button className="btn-primary text-sm flex-1">
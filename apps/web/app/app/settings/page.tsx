@@ -19,6 +19,7 @@ import { createClient } from "@/lib/supabase/client";
 import { TIERS, type Tier } from "@/lib/stripe/config";
 import { useSettings } from "@/lib/settings/context";
 import type { UserSettings } from "@/lib/settings/actions";
+import RuleProfileEditor from "@/components/settings/RuleProfileEditor";
 
 type Tab = "display" | "validation" | "notifications" | "account";
 
@@ -551,6 +552,17 @@ export default function SettingsPage() {
                         </div>
                       </div>
                     </TechnicalPanel>
+
+                    <TechnicalPanel
+                      label="RULE.PROFILES"
+                      headerRight={
+                        <span className="font-mono text-[10px] text-[#6B7280] dark:text-slate-600">
+                          PROJECT PROFILE → ACCOUNT DEFAULT → SETTINGS ABOVE
+                        </span>
+                      }
+                    >
+                      <RuleProfileEditor />
+                    </TechnicalPanel>
                   </div>
                 )}
 
@@ -1,16 +1,21 @@
 "use client";
 
 import { useState, useMemo } from "react";
-import { Edit, Save, X, Copy, Trash2, BarChart3 } from "lucide-react";
+import { Edit, Save, X, Copy, Trash2, BarChart3, Link2 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { cn } from "@/lib/utils/cn";
 import { TechnicalPanel } from "@/components/ui/TechnicalPanel";
+import { useDisplaySettings } from "@/lib/settings/context";
+import { displayDecimals } from "@/lib/util/units";
 import {
   StackupDimensionTable,
   StackupResultsPanel,
   StackupContributionChart,
+  StackupLoopDiagram,
+  StackupAllocationPanel,
 } from "@/components/stackup";
 import {
+  createStackupVersion,
   updateStackupAnalysis,
   deleteStackupAnalysis,
   duplicateStackupAnalysis,
@@ -18,26 +23,40 @@ import {
 import {
   calculateStackup,
   compareAllMethods,
+  resolveVectorLoop,
+  DEFAULT_MONTE_CARLO_SAMPLES,
+  DEFAULT_MONTE_CARLO_SEED,
   type StackupAnalysis,
   type StackupResult,
   type StackupDimension,
   type AnalysisMethod,
+  type MonteCarloSettings,
+  type VectorLoop,
+  type FcfLinkSource,
 } from "@/lib/stackup";
 
 interface StackupDetailViewProps {
   analysis: StackupAnalysis;
   result: StackupResult;
+  /** FCF records the dimensions can link to */
+  fcfSource?: FcfLinkSource;
+  /** Linked dimensions re-derived on load, and links that no longer resolve */
+  fcfRefresh?: { updated: string[]; missing: string[] };
 }
 
 export function StackupDetailView({
   analysis: initialAnalysis,
   result: initialResult,
+  fcfSource,
+  fcfRefresh,
 }: StackupDetailViewProps) {
   const router = useRouter();
   const [analysis, setAnalysis] = useState(initialAnalysis);
   const [isEditing, setIsEditing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [isAccepting, setIsAccepting] = useState(false);
   const [showMethodComparison, setShowMethodComparison] = useState(false);
+  const decimals = displayDecimals(analysis.unit, useDisplaySettings());
 
   // Recalculate result when dimensions change
   const result = useMemo(() => {
@@ -51,6 +70,15 @@ export function StackupDetailView({
     return compareAllMethods(analysis);
   }, [analysis, showMethodComparison]);
 
+  // Signs as derived from the vector loop, for the contribution chart
+  const chartDimensions = useMemo(
+    () =>
+      analysis.vectorLoop
+        ? resolveVectorLoop(analysis.dimensions, analysis.vectorLoop)
+        : analysis.dimensions,
+    [analysis.dimensions, analysis.vectorLoop]
+  );
+
   // Update dimensions
   const handleDimensionsChange = (dimensions: StackupDimension[]) => {
     setAnalysis((prev) => ({ ...prev, dimensions }));
@@ -63,6 +91,8 @@ export function StackupDetailView({
       await updateStackupAnalysis(analysis.id, {
         dimensions: analysis.dimensions,
         analysisMethod: analysis.analysisMethod,
+        monteCarlo: analysis.monteCarlo,
+        vectorLoop: analysis.vectorLoop,
         acceptanceCriteria: analysis.acceptanceCriteria,
       });
       setIsEditing(false);
@@ -91,6 +121,21 @@ export function StackupDetailView({
     }
   };
 
+  // Save an accepted tolerance allocation as a new version
+  const handleAcceptAllocation = async (dimensions: StackupDimension[]) => {
+    setIsAccepting(true);
+    try {
+      const version = await createStackupVersion(analysis.id, dimensions);
+      if (version) {
+        router.push(`/app/stackup/${version.id}`);
+      }
+    } catch (error) {
+      console.error("Failed to create version:", error);
+    } finally {
+      setIsAccepting(false);
+    }
+  };
+
   // Delete
   const handleDelete = async () => {
     if (!confirm("Are you sure you want to delete this analysis?")) return;
@@ -107,6 +152,16 @@ export function StackupDetailView({
     setAnalysis((prev) => ({ ...prev, analysisMethod: method }));
   };
 
+  // Monte Carlo sampler settings
+  const handleMonteCarloChange = (settings: MonteCarloSettings) => {
+    setAnalysis((prev) => ({ ...prev, monteCarlo: { ...prev.monteCarlo, ...settings } }));
+  };
+
+  // Switch between a 1D chain and a 2D vector loop
+  const handleVectorLoopChange = (vectorLoop: VectorLoop | undefined) => {
+    setAnalysis((prev) => ({ ...prev, vectorLoop }));
+  };
+
   return (
     <div className="flex-1 overflow-auto py-6">
       {/* Toolbar */}
@@ -114,7 +169,7 @@ export function StackupDetailView({
         <div className="flex items-center gap-2">
           {/* Method selector */}
           <div className="flex items-center gap-1 border border-slate-800 rounded">
-            {(["worst-case", "rss", "six-sigma"] as AnalysisMethod[]).map(
+            {(["worst-case", "rss", "six-sigma", "monte-carlo"] as AnalysisMethod[]).map(
               (method) => (
                 <button
                   key={method}
@@ -136,6 +191,100 @@ export function StackupDetailView({
             )}
           </div>
 
+          {/* Monte Carlo sampler */}
+          {analysis.analysisMethod === "monte-carlo" && (
+            <div className="flex items-center gap-1">
+              <input
+                type="number"
+                min={1000}
+                max={1000000}
+                step={1000}
+                value={analysis.monteCarlo?.sampleCount ?? ""}
+                placeholder={String(DEFAULT_MONTE_CARLO_SAMPLES)}
+                onChange={(e) =>
+                  handleMonteCarloChange({
+                    sampleCount: e.target.value ? parseInt(e.target.value, 10) : undefined,
+                  })
+                }
+                disabled={!isEditing}
+                title="Samples"
+                className="w-24 bg-slate-900 border border-slate-800 rounded px-2 py-1.5 font-mono text-[10px] text-slate-300 focus:border-accent-500 outline-none disabled:text-slate-600"
+              />
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={analysis.monteCarlo?.seed ?? ""}
+                placeholder={String(DEFAULT_MONTE_CARLO_SEED)}
+                onChange={(e) =>
+                  handleMonteCarloChange({
+                    seed: e.target.value ? parseInt(e.target.value, 10) : undefined,
+                  })
+                }
+                disabled={!isEditing}
+                title="Seed"
+                className="w-16 bg-slate-900 border border-slate-800 rounded px-2 py-1.5 font-mono text-[10px] text-slate-300 focus:border-accent-500 outline-none disabled:text-slate-600"
+              />
+            </div>
+          )}
+
+          {/* 2D vector loop */}
+          <button
+            type="button"
+            onClick={() =>
+              handleVectorLoopChange(
+                analysis.vectorLoop ? undefined : { closure: "projection", closureAngle: 0 }
+              )
+            }
+            disabled={!isEditing}
+            className={cn(
+              "px-3 py-1.5 border rounded font-mono text-[10px] uppercase transition-colors",
+              analysis.vectorLoop
+                ? "border-accent-500/50 bg-accent-500/20 text-accent-400"
+                : isEditing
+                  ? "border-slate-800 text-slate-500 hover:text-slate-300"
+                  : "border-slate-800 text-slate-600 cursor-not-allowed"
+            )}
+            title="Define contributors by direction angle and derive sensitivities"
+          >
+            2D Loop
+          </button>
+          {analysis.vectorLoop && (
+            <div className="flex items-center gap-1">
+              <select
+                value={analysis.vectorLoop.closure}
+                onChange={(e) =>
+                  handleVectorLoopChange({
+                    ...analysis.vectorLoop,
+                    closure: e.target.value as VectorLoop["closure"],
+                  })
+                }
+                disabled={!isEditing}
+                title="Closing dimension"
+                className="bg-slate-900 border border-slate-800 rounded px-2 py-1.5 font-mono text-[10px] text-slate-300 focus:border-accent-500 outline-none disabled:text-slate-600"
+              >
+                <option value="projection">Projection</option>
+                <option value="distance">Distance</option>
+              </select>
+              {analysis.vectorLoop.closure === "projection" && (
+                <input
+                  type="number"
+                  step={1}
+                  value={analysis.vectorLoop.closureAngle ?? 0}
+                  onChange={(e) =>
+                    handleVectorLoopChange({
+                      closure: "projection",
+                      closureAngle: parseFloat(e.target.value) || 0,
+                    })
+                  }
+                  disabled={!isEditing}
+                  title="Measurement direction, degrees counterclockwise from +X"
+                  className="w-16 bg-slate-900 border border-slate-800 rounded px-2 py-1.5 font-mono text-[10px] text-slate-300 focus:border-accent-500 outline-none disabled:text-slate-600"
+                />
+              )}
+            </div>
+          )}
+
           {/* Compare toggle */}
           <button
             type="button"
@@ -212,6 +361,17 @@ export function StackupDetailView({
         </div>
       </div>
 
+      {/* Linked FCF changes */}
+      {fcfRefresh && (fcfRefresh.updated.length > 0 || fcfRefresh.missing.length > 0) && (
+        <div className="flex items-center gap-2 mb-6 px-3 py-2 border border-warning-500/50 bg-warning-500/10 font-mono text-xs text-warning-400">
+          <Link2 className="w-3.5 h-3.5" />
+          {fcfRefresh.updated.length > 0 &&
+            `${fcfRefresh.updated.length} linked dimension(s) re-derived from updated FCFs. `}
+          {fcfRefresh.missing.length > 0 &&
+            `${fcfRefresh.missing.length} linked dimension(s) no longer match their FCF and keep their last values.`}
+        </div>
+      )}
+
       {/* Main content grid */}
       <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
         {/* Left: Dimensions */}
@@ -223,16 +383,28 @@ export function StackupDetailView({
               unit={analysis.unit}
               contributions={result.contributions}
               readOnly={!isEditing}
+              fcfSource={fcfSource}
+              vectorLoop={analysis.vectorLoop}
             />
           </TechnicalPanel>
 
-          {/* Contribution Chart */}
-          {result.contributions.length > 0 && (
-            <StackupContributionChart
-              dimensions={analysis.dimensions}
-              contributions={result.contributions}
-            />
-          )}
+          {/* Contribution Chart, with the loop diagram alongside for 2D loops */}
+          <div className={cn("grid grid-cols-1 gap-6", analysis.vectorLoop && "lg:grid-cols-2")}>
+            {result.contributions.length > 0 && (
+              <StackupContributionChart
+                dimensions={chartDimensions}
+                contributions={result.contributions}
+              />
+            )}
+            {analysis.vectorLoop && (
+              <StackupLoopDiagram
+                dimensions={analysis.dimensions}
+                vectorLoop={analysis.vectorLoop}
+                unit={analysis.unit}
+                decimals={decimals}
+              />
+            )}
+          </div>
         </div>
 
         {/* Right: Results */}
@@ -245,6 +417,14 @@ export function StackupDetailView({
             allMethodResults={allMethodResults}
           />
 
+          {/* Tolerance allocation */}
+          <StackupAllocationPanel
+            analysis={analysis}
+            decimals={decimals}
+            onAccept={isEditing ? undefined : handleAcceptAllocation}
+            isAccepting={isAccepting}
+          />
+
           {/* Analysis Info */}
           <TechnicalPanel label="INFO" className="p-4">
             <div className="space-y-3 text-sm">
@@ -255,7 +435,13 @@ export function StackupDetailView({
               <div className="flex justify-between">
                 <span className="text-slate-500">Direction</span>
                 <span className="font-mono text-slate-300 text-xs">
-                  {analysis.positiveDirection}
+                  {analysis.vectorLoop ? "2D vector loop" : analysis.positiveDirection}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-slate-500">Version</span>
+                <span className="font-mono text-slate-300 text-xs">
+                  {analysis.version ?? 1}
                 </span>
               </div>
               <div className="flex justify-between">
@@ -30,7 +30,7 @@ export default async function StackupDetailPage({ params }: PageProps) {
     notFound();
   }
 
-  const { analysis, result } = data;
+  const { analysis, result, fcfSource, fcfRefresh } = data;
 
   return (
     <div className="h-full flex flex-col">
@@ -51,6 +51,9 @@ export default async function StackupDetailPage({ params }: PageProps) {
         </div>
         <h1 className="font-mono text-2xl font-bold text-slate-900 dark:text-slate-50 tracking-tight uppercase">
           {analysis.name}
+          {analysis.version && analysis.version > 1 && (
+            <span className="ml-3 text-base text-slate-500">V{analysis.version}</span>
+          )}
         </h1>
         <p className="text-slate-500 mt-1 font-mono text-sm">
           {analysis.measurementObjective}
@@ -58,7 +61,12 @@ export default async function StackupDetailPage({ params }: PageProps) {
       </div>
 
       {/* Detail View */}
-      <StackupDetailView analysis={analysis} result={result} />
+      <StackupDetailView
+        analysis={analysis}
+        result={result}
+        fcfSource={fcfSource}
+        fcfRefresh={fcfRefresh}
+      />
     </div>
   );
 }
@@ -3,10 +3,12 @@
 import { revalidatePath } from "next/cache";
 import {
   calculateStackup,
+  refreshFcfContributors,
   type CreateStackupInput,
   type UpdateStackupInput,
   type StackupAnalysis,
   type StackupResult,
+  type FcfLinkSource,
 } from "@/lib/stackup";
 
 // Note: When Supabase client is implemented, replace mock data with real database calls
@@ -118,8 +120,122 @@ let mockAnalyses: StackupAnalysis[] = [
     createdAt: new Date(Date.now() - 172800000).toISOString(),
     updatedAt: new Date(Date.now() - 86400000).toISOString(),
   },
+  {
+    id: "mock-003",
+    projectId: "proj-001",
+    name: "Latch Arm Clearance",
+    description: "Horizontal clearance between the angled latch arm tip and the stop",
+    measurementObjective: "Gap between latch arm tip and stop face",
+    acceptanceCriteria: { minimum: 2.5, maximum: 3.5 },
+    positiveDirection: "left-to-right",
+    dimensions: [
+      {
+        id: "dim-008",
+        name: "Hinge to Base Edge",
+        nominal: 40.0,
+        tolerancePlus: 0.05,
+        toleranceMinus: 0.05,
+        sign: "positive",
+        sensitivityCoefficient: 1,
+        angle: 0,
+      },
+      {
+        id: "dim-009",
+        name: "Latch Arm Length",
+        nominal: 30.0,
+        tolerancePlus: 0.1,
+        toleranceMinus: 0.1,
+        sign: "positive",
+        sensitivityCoefficient: 1,
+        angle: 120,
+      },
+      {
+        id: "dim-010",
+        name: "Stop Face Position",
+        nominal: 22.0,
+        tolerancePlus: 0.08,
+        toleranceMinus: 0.08,
+        sign: "positive",
+        sensitivityCoefficient: 1,
+        angle: 180,
+      },
+    ],
+    vectorLoop: { closure: "projection", closureAngle: 0 },
+    analysisMethod: "rss",
+    unit: "mm",
+    createdBy: "user-001",
+    createdAt: new Date(Date.now() - 259200000).toISOString(),
+    updatedAt: new Date(Date.now() - 172800000).toISOString(),
+  },
 ];
 
+// Mock FCF records and datum catalogs per project (replace with fcf_records
+// and projects.datum_features when Supabase is available)
+const mockFcfLinkSources: Record<string, FcfLinkSource> = {
+  "proj-001": {
+    records: [
+      {
+        id: "fcf-101",
+        name: "Housing Bore Position",
+        updatedAt: "2024-01-20T00:00:00.000Z",
+        fcf: {
+          characteristic: "position",
+          featureType: "hole",
+          sourceUnit: "mm",
+          source: { inputType: "builder" },
+          tolerance: { value: 0.05, diameter: true, materialCondition: "MMC" },
+          datums: [{ id: "A" }, { id: "B", materialCondition: "MMC" }],
+          sizeDimension: { nominal: 50, tolerancePlus: 0.025, toleranceMinus: 0 },
+        },
+      },
+      {
+        id: "fcf-102",
+        name: "Bearing Seat Profile",
+        updatedAt: "2024-01-18T00:00:00.000Z",
+        fcf: {
+          characteristic: "profile",
+          featureType: "surface",
+          sourceUnit: "mm",
+          source: { inputType: "builder" },
+          tolerance: { value: 0.1 },
+          datums: [{ id: "A" }],
+        },
+      },
+    ],
+    datumCatalog: [
+      { id: "A", type: "planar", description: "Mounting face" },
+      {
+        id: "B",
+        type: "cylindrical",
+        description: "Pilot bore",
+        size: { nominal: 20, tolerancePlus: 0.021, toleranceMinus: 0 },
+      },
+    ],
+  },
+};
+
+/**
+ * Get the FCF records a project's stack-ups can link to
+ */
+export async function getFcfLinkSource(projectId: string): Promise<FcfLinkSource> {
+  return mockFcfLinkSources[projectId] ?? { records: [] };
+}
+
+/**
+ * Re-derive FCF-linked dimensions from the project's current FCF records
+ * and store the refreshed values.
+ */
+async function refreshLinkedDimensions(analysis: StackupAnalysis) {
+  const source = await getFcfLinkSource(analysis.projectId);
+  const refresh = refreshFcfContributors(analysis.dimensions, source, analysis.unit);
+  const refreshed = { ...analysis, dimensions: refresh.dimensions };
+
+  const index = mockAnalyses.findIndex((a) => a.id === analysis.id);
+  if (index !== -1) mockAnalyses[index] = refreshed;
+
+  return { analysis: refreshed, source, refresh };
+}
+
 /**
  * Get all stack-up analyses, optionally filtered by project
  */
@@ -135,27 +251,45 @@ export async function getStackupAnalyses(
     analyses = analyses.filter((a) => a.projectId === projectId);
   }
 
-  // Calculate results for each analysis
-  return analyses.map((analysis) => {
-    const result =
-      analysis.dimensions.length >= 2 ? calculateStackup(analysis) : undefined;
-    return { ...analysis, result };
-  });
+  // Follow linked FCFs, then calculate results for each analysis
+  return Promise.all(
+    analyses.map(async (original) => {
+      const { analysis } = await refreshLinkedDimensions(original);
+      const result =
+        analysis.dimensions.length >= 2 ? calculateStackup(analysis) : undefined;
+      return { ...analysis, result };
+    })
+  );
+}
+
+/**
+ * Single analysis with its result and the FCFs it can link to
+ */
+export interface StackupDetail {
+  analysis: StackupAnalysis;
+  result: StackupResult;
+  fcfSource: FcfLinkSource;
+  /** Linked dimensions re-derived on load, and links that no longer resolve */
+  fcfRefresh: { updated: string[]; missing: string[] };
 }
 
 /**
  * Get a single stack-up analysis by ID
  */
-export async function getStackupAnalysis(
-  id: string
-): Promise<{ analysis: StackupAnalysis; result: StackupResult } | null> {
+export async function getStackupAnalysis(id: string): Promise<StackupDetail | null> {
   await new Promise((resolve) => setTimeout(resolve, 100));
 
-  const analysis = mockAnalyses.find((a) => a.id === id);
-  if (!analysis) return null;
+  const original = mockAnalyses.find((a) => a.id === id);
+  if (!original) return null;
 
+  const { analysis, source, refresh } = await refreshLinkedDimensions(original);
   const result = calculateStackup(analysis);
-  return { analysis, result };
+  return {
+    analysis,
+    result,
+    fcfSource: source,
+    fcfRefresh: { updated: refresh.updated, missing: refresh.missing },
+  };
 }
 
 /**
@@ -237,6 +371,9 @@ export async function duplicateStackupAnalysis(
     ...original,
     id: `mock-${Date.now()}`,
     name: `${original.name} (Copy)`,
+    // A copy starts its own version history
+    version: undefined,
+    previousVersionId: undefined,
     dimensions: original.dimensions.map((d) => ({
       ...d,
       id: crypto.randomUUID(),
@@ -250,3 +387,44 @@ export async function duplicateStackupAnalysis(
 
   return duplicate;
 }
+
+/**
+ * Save changed dimensions (e.g. an accepted tolerance allocation) as the
+ * next version of an analysis, leaving the original untouched
+ */
+export async function createStackupVersion(
+  id: string,
+  dimensions: StackupAnalysis["dimensions"]
+): Promise<StackupAnalysis | null> {
+  await new Promise((resolve) => setTimeout(resolve, 100));
+
+  const original = mockAnalyses.find((a) => a.id === id);
+  if (!original) return null;
+
+  // Versions share the name within a project
+  const latestVersion = Math.max(
+    ...mockAnalyses
+      .filter(
+        (a) =>
+          a.projectId === original.projectId &&
+          a.name.toLowerCase() === original.name.toLowerCase()
+      )
+      .map((a) => a.version ?? 1)
+  );
+
+  const now = new Date().toISOString();
+  const version: StackupAnalysis = {
+    ...original,
+    id: `mock-${Date.now()}`,
+    dimensions,
+    version: latestVersion + 1,
+    previousVersionId: original.id,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  mockAnalyses = [version, ...mockAnalyses];
+  revalidatePath("/app/stackup");
+
+  return version;
+}
@@ -1,10 +1,11 @@
 "use client";
 
-import { useState, useCallback } from "react";
-import { useRouter } from "next/navigation";
+import { useState, useCallback, useEffect } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import {
   ArrowLeft,
+  AlertCircle,
   ArrowRight,
   Calculator,
   Check,
@@ -15,14 +16,22 @@ import {
 import { cn } from "@/lib/utils/cn";
 import { TechnicalPanel } from "@/components/ui/TechnicalPanel";
 import { StackupDimensionTable } from "@/components/stackup";
-import { createStackupAnalysis } from "../actions";
-import type {
-  StackupDimension,
-  AnalysisMethod,
-  StackupUnit,
-  PositiveDirection,
-  AcceptanceCriteria,
-  CreateStackupInput,
+import type { Project } from "@/lib/database/types";
+import { useDisplaySettings } from "@/lib/settings/context";
+import { convertStackupAnalysis, displayDecimals, formatConversionNotes } from "@/lib/util/units";
+import { createStackupAnalysis, getFcfLinkSource } from "../actions";
+import {
+  DEFAULT_MONTE_CARLO_SAMPLES,
+  DEFAULT_MONTE_CARLO_SEED,
+  type StackupDimension,
+  type AnalysisMethod,
+  type StackupUnit,
+  type PositiveDirection,
+  type AcceptanceCriteria,
+  type CreateStackupInput,
+  type MonteCarloSettings,
+  type VectorLoop,
+  type FcfLinkSource,
 } from "@/lib/stackup";
 
 type WizardStep = "basics" | "dimensions" | "criteria" | "review";
@@ -50,6 +59,11 @@ const METHOD_OPTIONS: { value: AnalysisMethod; label: string; description: strin
     label: "Six Sigma",
     description: "Statistical with process capability weighting",
   },
+  {
+    value: "monte-carlo",
+    label: "Monte Carlo",
+    description: "Simulated assemblies with histogram and PPM estimate",
+  },
 ];
 
 const DIRECTION_OPTIONS: { value: PositiveDirection; label: string }[] = [
@@ -61,6 +75,13 @@ const DIRECTION_OPTIONS: { value: PositiveDirection; label: string }[] = [
 
 export default function NewStackupPage() {
   const router = useRouter();
+  // Stack-ups belong to a project; the project page links here with ?project=<id>,
+  // otherwise one is picked in the basics step
+  const routeProjectId = useSearchParams().get("project");
+  const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
+  const projectId = routeProjectId ?? selectedProjectId;
+  const [projects, setProjects] = useState<Project[]>();
+  const [projectsError, setProjectsError] = useState<string | null>(null);
   const [currentStep, setCurrentStep] = useState<WizardStep>("basics");
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -69,9 +90,12 @@ export default function NewStackupPage() {
   const [description, setDescription] = useState("");
   const [measurementObjective, setMeasurementObjective] = useState("");
   const [analysisMethod, setAnalysisMethod] = useState<AnalysisMethod>("worst-case");
+  const [monteCarlo, setMonteCarlo] = useState<MonteCarloSettings>({});
   const [unit, setUnit] = useState<StackupUnit>("mm");
+  const [conversionNote, setConversionNote] = useState("");
   const [positiveDirection, setPositiveDirection] =
     useState<PositiveDirection>("left-to-right");
+  const [vectorLoop, setVectorLoop] = useState<VectorLoop>();
   const [dimensions, setDimensions] = useState<StackupDimension[]>([
     {
       id: crypto.randomUUID(),
@@ -95,6 +119,66 @@ export default function NewStackupPage() {
   const [acceptanceCriteria, setAcceptanceCriteria] = useState<AcceptanceCriteria>({
     minimum: 0,
   });
+  const [fcfSource, setFcfSource] = useState<FcfLinkSource>();
+  const [fcfSourceError, setFcfSourceError] = useState<string | null>(null);
+
+  // Projects to pick from when the route does not name one
+  useEffect(() => {
+    if (routeProjectId) return;
+    let cancelled = false;
+
+    setProjectsError(null);
+    fetch("/api/projects")
+      .then((response) => response.json())
+      .then((data) => {
+        if (cancelled) return;
+        if (!data.success) throw new Error(data.error?.message ?? "Failed to load projects");
+        const list: Project[] = data.data?.data ?? [];
+        setProjects(list);
+        setSelectedProjectId((current) => current ?? list[0]?.id ?? null);
+      })
+      .catch((error) => {
+        console.error("Failed to load projects:", error);
+        if (!cancelled) setProjectsError("Could not load your projects.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [routeProjectId]);
+
+  // FCF records the dimensions can be derived from
+  useEffect(() => {
+    if (!projectId) return;
+    let cancelled = false;
+
+    setFcfSourceError(null);
+    getFcfLinkSource(projectId)
+      .then((source) => {
+        if (!cancelled) setFcfSource(source);
+      })
+      .catch((error) => {
+        console.error("Failed to load FCF records:", error);
+        if (!cancelled) {
+          setFcfSource(undefined);
+          setFcfSourceError("Could not load the project's FCF records. Dimensions can still be entered by hand.");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  // Values already entered are converted, not relabelled
+  const handleUnitChange = (next: StackupUnit) => {
+    if (next === unit) return;
+    const conversion = convertStackupAnalysis({ unit, acceptanceCriteria, dimensions }, next);
+    setDimensions(conversion.value.dimensions);
+    setAcceptanceCriteria(conversion.value.acceptanceCriteria);
+    setUnit(next);
+    setConversionNote(formatConversionNotes(conversion));
+  };
 
   // Step navigation
   const currentStepIndex = STEPS.findIndex((s) => s.id === currentStep);
@@ -109,7 +193,7 @@ export default function NewStackupPage() {
   const isStepValid = (step: WizardStep): boolean => {
     switch (step) {
       case "basics":
-        return name.trim().length > 0 && measurementObjective.trim().length > 0;
+        return !!projectId && name.trim().length > 0 && measurementObjective.trim().length > 0;
       case "dimensions":
         return dimensions.length >= 2;
       case "criteria":
@@ -126,12 +210,12 @@ export default function NewStackupPage() {
 
   // Submit handler
   const handleSubmit = useCallback(async () => {
-    if (!isStepValid("review")) return;
+    if (!projectId || !isStepValid("review")) return;
 
     setIsSubmitting(true);
     try {
       const input: CreateStackupInput = {
-        projectId: "proj-001", // TODO: Get from context/params
+        projectId,
         name,
         description: description || undefined,
         measurementObjective,
@@ -139,6 +223,8 @@ export default function NewStackupPage() {
         positiveDirection,
         dimensions,
         analysisMethod,
+        ...(analysisMethod === "monte-carlo" && { monteCarlo }),
+        ...(vectorLoop && { vectorLoop }),
         unit,
       };
 
@@ -150,6 +236,7 @@ export default function NewStackupPage() {
       setIsSubmitting(false);
     }
   }, [
+    projectId,
     name,
     description,
     measurementObjective,
@@ -157,11 +244,13 @@ export default function NewStackupPage() {
     positiveDirection,
     dimensions,
     analysisMethod,
+    monteCarlo,
+    vectorLoop,
     unit,
     router,
   ]);
 
-  const decimals = unit === "mm" ? 3 : 4;
+  const decimals = displayDecimals(unit, useDisplaySettings());
 
   return (
     <div className="h-full flex flex-col">
@@ -246,6 +335,39 @@ export default function NewStackupPage() {
         {currentStep === "basics" && (
           <TechnicalPanel label="BASICS" className="max-w-2xl mx-auto p-6">
             <div className="space-y-6">
+              {/* Project */}
+              {!routeProjectId && (
+                <div className="space-y-2">
+                  <label className="text-[10px] font-mono text-slate-500 uppercase tracking-wider">
+                    Project <span className="text-error-400">*</span>
+                  </label>
+                  <select
+                    value={selectedProjectId ?? ""}
+                    onChange={(e) => setSelectedProjectId(e.target.value || null)}
+                    disabled={!projects?.length}
+                    className="w-full bg-slate-800 border border-slate-700 rounded px-3 py-2 font-mono text-sm text-slate-300 focus:border-accent-500 outline-none disabled:opacity-50"
+                  >
+                    {!projects?.length && <option value="">{projects ? "No projects" : "Loading..."}</option>}
+                    {projects?.map((project) => (
+                      <option key={project.id} value={project.id}>
+                        {project.name}
+                      </option>
+                    ))}
+                  </select>
+                  {(projectsError || projects?.length === 0) && (
+                    <p className="flex items-start gap-2 p-3 border border-warning-500/30 bg-warning-500/10 text-sm text-warning-500">
+                      <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                      <span>
+                        {projectsError ?? "Stack-ups belong to a project."}{" "}
+                        <Link href="/app/projects" className="underline hover:text-warning-400">
+                          Go to projects
+                        </Link>
+                      </span>
+                    </p>
+                  )}
+                </div>
+              )}
+
               {/* Name */}
               <div className="space-y-2">
                 <label className="text-[10px] font-mono text-slate-500 uppercase tracking-wider">
@@ -329,7 +451,7 @@ export default function NewStackupPage() {
                         <button
                           key={u}
                           type="button"
-                          onClick={() => setUnit(u)}
+                          onClick={() => handleUnitChange(u)}
                           className={cn(
                             "flex-1 px-3 py-2 rounded border font-mono text-sm transition-colors",
                             unit === u
@@ -341,27 +463,119 @@ export default function NewStackupPage() {
                         </button>
                       ))}
                     </div>
+                    {conversionNote && (
+                      <p className="text-xs font-mono text-slate-500">{conversionNote}</p>
+                    )}
                   </div>
 
-                  {/* Direction */}
+                  {/* Loop geometry */}
                   <div className="space-y-2">
                     <label className="text-[10px] font-mono text-slate-500 uppercase tracking-wider">
-                      Positive Direction
+                      Loop Geometry
                     </label>
-                    <select
-                      value={positiveDirection}
-                      onChange={(e) =>
-                        setPositiveDirection(e.target.value as PositiveDirection)
-                      }
-                      className="w-full bg-slate-800 border border-slate-700 rounded px-3 py-2 font-mono text-sm text-slate-300 focus:border-accent-500 outline-none"
-                    >
-                      {DIRECTION_OPTIONS.map((opt) => (
-                        <option key={opt.value} value={opt.value}>
-                          {opt.label}
-                        </option>
-                      ))}
-                    </select>
+                    <div className="flex gap-2">
+                      <select
+                        value={vectorLoop?.closure ?? "chain"}
+                        onChange={(e) =>
+                          setVectorLoop(
+                            e.target.value === "chain"
+                              ? undefined
+                              : {
+                                  closure: e.target.value as VectorLoop["closure"],
+                                  closureAngle: vectorLoop?.closureAngle ?? 0,
+                                }
+                          )
+                        }
+                        className="flex-1 bg-slate-800 border border-slate-700 rounded px-3 py-2 font-mono text-sm text-slate-300 focus:border-accent-500 outline-none"
+                      >
+                        <option value="chain">1D chain</option>
+                        <option value="projection">2D loop, projected gap</option>
+                        <option value="distance">2D loop, distance</option>
+                      </select>
+                      {vectorLoop?.closure === "projection" && (
+                        <input
+                          type="number"
+                          step={1}
+                          value={vectorLoop.closureAngle ?? 0}
+                          onChange={(e) =>
+                            setVectorLoop({
+                              closure: "projection",
+                              closureAngle: parseFloat(e.target.value) || 0,
+                            })
+                          }
+                          title="Measurement direction, degrees counterclockwise from +X"
+                          className="w-20 bg-slate-800 border border-slate-700 rounded px-3 py-2 font-mono text-sm text-slate-300 focus:border-accent-500 outline-none"
+                        />
+                      )}
+                    </div>
                   </div>
+
+                  {/* Direction (1D chains only; vector loops derive signs) */}
+                  {!vectorLoop && (
+                    <div className="space-y-2">
+                      <label className="text-[10px] font-mono text-slate-500 uppercase tracking-wider">
+                        Positive Direction
+                      </label>
+                      <select
+                        value={positiveDirection}
+                        onChange={(e) =>
+                          setPositiveDirection(e.target.value as PositiveDirection)
+                        }
+                        className="w-full bg-slate-800 border border-slate-700 rounded px-3 py-2 font-mono text-sm text-slate-300 focus:border-accent-500 outline-none"
+                      >
+                        {DIRECTION_OPTIONS.map((opt) => (
+                          <option key={opt.value} value={opt.value}>
+                            {opt.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+
+                  {/* Monte Carlo sampler */}
+                  {analysisMethod === "monte-carlo" && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="space-y-2">
+                        <label className="text-[10px] font-mono text-slate-500 uppercase tracking-wider">
+                          Samples
+                        </label>
+                        <input
+                          type="number"
+                          min={1000}
+                          max={1000000}
+                          step={1000}
+                          value={monteCarlo.sampleCount ?? ""}
+                          placeholder={String(DEFAULT_MONTE_CARLO_SAMPLES)}
+                          onChange={(e) =>
+                            setMonteCarlo((prev) => ({
+                              ...prev,
+                              sampleCount: e.target.value ? parseInt(e.target.value, 10) : undefined,
+                            }))
+                          }
+                          className="w-full bg-slate-800 border border-slate-700 rounded px-3 py-2 font-mono text-sm text-slate-300 focus:border-accent-500 outline-none"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <label className="text-[10px] font-mono text-slate-500 uppercase tracking-wider">
+                          Seed
+                        </label>
+                        <input
+                          type="number"
+                          min={0}
+                          step={1}
+                          value={monteCarlo.seed ?? ""}
+                          placeholder={String(DEFAULT_MONTE_CARLO_SEED)}
+                          onChange={(e) =>
+                            setMonteCarlo((prev) => ({
+                              ...prev,
+                              seed: e.target.value ? parseInt(e.target.value, 10) : undefined,
+                            }))
+                          }
+                          className="w-full bg-slate-800 border border-slate-700 rounded px-3 py-2 font-mono text-sm text-slate-300 focus:border-accent-500 outline-none"
+                        />
+                      </div>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -371,17 +585,33 @@ export default function NewStackupPage() {
         {currentStep === "dimensions" && (
           <TechnicalPanel label="DIMENSIONS" className="max-w-4xl mx-auto p-6">
             <div className="space-y-4">
-              <p className="text-sm text-slate-500">
-                Add dimensions to your stack-up. Use{" "}
-                <span className="text-accent-400 font-mono">+</span> for dimensions that
-                increase the closing gap and{" "}
-                <span className="text-error-400 font-mono">−</span> for dimensions that
-                decrease it.
-              </p>
+              {vectorLoop ? (
+                <p className="text-sm text-slate-500">
+                  Add dimensions head to tail around the loop. Give each one its direction
+                  in degrees counterclockwise from +X; signs and sensitivities are derived
+                  from the closure.
+                </p>
+              ) : (
+                <p className="text-sm text-slate-500">
+                  Add dimensions to your stack-up. Use{" "}
+                  <span className="text-accent-400 font-mono">+</span> for dimensions that
+                  increase the closing gap and{" "}
+                  <span className="text-error-400 font-mono">−</span> for dimensions that
+                  decrease it.
+                </p>
+              )}
+              {fcfSourceError && (
+                <p className="flex items-center gap-2 text-xs font-mono text-warning-500" role="alert">
+                  <AlertCircle className="w-3.5 h-3.5" />
+                  {fcfSourceError}
+                </p>
+              )}
               <StackupDimensionTable
                 dimensions={dimensions}
                 onChange={setDimensions}
                 unit={unit}
+                fcfSource={fcfSource}
+                vectorLoop={vectorLoop}
               />
             </div>
           </TechnicalPanel>
@@ -410,7 +640,7 @@ export default function NewStackupPage() {
                         minimum: e.target.value ? parseFloat(e.target.value) : undefined,
                       }))
                     }
-                    step={unit === "mm" ? 0.001 : 0.0001}
+                    step={Math.pow(10, -decimals)}
                     className="w-full bg-slate-800 border border-slate-700 rounded px-3 py-2 font-mono text-sm text-slate-300 focus:border-accent-500 outline-none"
                     placeholder="e.g., 0"
                   />
@@ -433,7 +663,7 @@ export default function NewStackupPage() {
                         maximum: e.target.value ? parseFloat(e.target.value) : undefined,
                       }))
                     }
-                    step={unit === "mm" ? 0.001 : 0.0001}
+                    step={Math.pow(10, -decimals)}
                     className="w-full bg-slate-800 border border-slate-700 rounded px-3 py-2 font-mono text-sm text-slate-300 focus:border-accent-500 outline-none"
                     placeholder="e.g., 0.05"
                   />
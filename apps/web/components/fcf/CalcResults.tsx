@@ -1,8 +1,186 @@
-export default function CalcResults() {
+import { cn } from "@/lib/utils/cn";
+import type { CalcResult } from "@/lib/ai/types";
+import type { FlatnessFitMethod, FlatnessResult, PatternPositionResult, PositionResult } from "@/lib/calc/types";
+import { formatDimension, type DisplayPrecision } from "@/lib/util/units";
+
+interface CalcResultsProps {
+  calcResult: CalcResult;
+  /** Display unit, decimals and dual display from the user's settings */
+  display?: DisplayPrecision;
+  className?: string;
+}
+
+interface CalcRow {
+  label: string;
+  value: number;
+  note?: string;
+}
+
+const boundaryLabel = (materialCondition: string) => (materialCondition === "LMC" ? "LMB" : "MMB");
+
+/**
+ * Breakdown of a position result: stated tolerance, bonus from the feature's
+ * size and datum shift from datum features of size, kept as separate lines.
+ */
+function positionRows(result: PositionResult): CalcRow[] {
+  const rows: CalcRow[] = [{ label: "Stated tolerance", value: result.statedTolerance }];
+
+  if (result.materialCondition !== "RFS") {
+    rows.push({
+      label: `Bonus (${result.materialCondition})`,
+      value: result.bonusTolerance,
+      note: `Feature size ${result.actualSize} departs from ${
+        result.materialCondition === "MMC" ? result.sizeLimits.mmc : result.sizeLimits.lmc
+      }`,
+    });
+  }
+
+  result.datumShift.forEach((datum) => {
+    rows.push({
+      label: `Datum shift ${datum.id} (${boundaryLabel(datum.materialCondition)})`,
+      value: datum.shift,
+      note: datum.appliedToZone
+        ? `Datum feature ${datum.actualSize} in a ${datum.materialBoundary} simulator`
+        : `Rotational only about the preceding datums; not added`,
+    });
+  });
+
+  rows.push({ label: "Allowable", value: result.allowableWithDatumShift });
+  rows.push({
+    label: "Actual position",
+    value: result.actualPositionTolerance,
+    note: result.governingEnd
+      ? `At the ${result.governingEnd} of the ${result.projectedZoneHeight !== undefined ? "projected zone" : "feature axis"}`
+      : undefined,
+  });
+  return rows;
+}
+
+/**
+ * Stated tolerance of each pattern segment with the largest consumption
+ * across the pattern after that segment's best fit.
+ */
+function patternRows(result: PatternPositionResult): CalcRow[] {
+  return result.segments.map((segment) => {
+    const failing = segment.features.filter((feature) => !feature.positionConformance).map((feature) => feature.id);
+    return {
+      label: `${segment.label} (${segment.bestFit === "none" ? "fixed to datums" : `best fit ${segment.bestFit}`})`,
+      value: segment.statedTolerance,
+      note:
+        `${segment.maxToleranceConsumed}% max consumed` +
+        (failing.length ? `; out of tolerance: ${failing.join(", ")}` : ""),
+    };
+  });
+}
+
+const fitMethodLabels: Record<FlatnessFitMethod, string> = {
+  "minimum-zone": "Minimum zone",
+  "least-squares": "Least squares",
+  "three-point": "Three-point plane",
+};
+
+/**
+ * Flatness zone width under each fitting method, so a least-squares or
+ * three-point report can be compared with the Y14.5 minimum zone.
+ */
+function flatnessRows(result: FlatnessResult): CalcRow[] {
+  const rows: CalcRow[] = [{ label: "Stated tolerance", value: result.statedTolerance }];
+
+  if (result.methodComparison.length === 0) {
+    rows.push({ label: "Indicator reading", value: result.measuredFlatness });
+    return rows;
+  }
+
+  result.methodComparison.forEach((comparison) => {
+    rows.push({
+      label: `Zone (${fitMethodLabels[comparison.method]})`,
+      value: comparison.zoneWidth,
+      note:
+        comparison.method === result.fitMethod
+          ? "Used for acceptance"
+          : comparison.excessOverMinimumZone > 0
+          ? `${comparison.excessOverMinimumZone.toFixed(4)} wider than minimum zone`
+          : undefined,
+    });
+  });
+  return rows;
+}
+
+/**
+ * Measured points touching each bounding plane, numbered from 1.
+ */
+function contactSummary(result: FlatnessResult): string | null {
+  if (result.contactPoints.length === 0) return null;
+  const side = (which: "upper" | "lower") =>
+    result.contactPoints
+      .filter((contact) => contact.side === which)
+      .map((contact) => `P${contact.index + 1}`)
+      .join(", ");
+  return `Zone defined by ${side("upper")} (upper) and ${side("lower")} (lower)`;
+}
+
+/**
+ * Deterministic calculator output with a pass/fail badge and summary.
+ */
+export default function CalcResults({ calcResult, display = { decimals: 4 }, className }: CalcResultsProps) {
+  const { result } = calcResult;
+  const rows =
+    calcResult.characteristic === "position"
+      ? positionRows(calcResult.result)
+      : calcResult.characteristic === "pattern"
+      ? patternRows(calcResult.result)
+      : calcResult.characteristic === "flatness"
+      ? flatnessRows(calcResult.result)
+      : [];
+  const appliedShift = calcResult.characteristic === "position" ? calcResult.result.datumShiftTolerance : 0;
+  const contacts = calcResult.characteristic === "flatness" ? contactSummary(calcResult.result) : null;
+
   return (
-    <section>
-      <h3>Calculator Results</h3>
-      <p>Deterministic calculation outputs.</p>
+    <section className={cn("space-y-3", className)}>
+      <div className="flex items-center justify-between">
+        <h3 className="font-mono text-xs text-slate-500 tracking-widest">CALCULATOR RESULTS</h3>
+        <span
+          className={cn(
+            "font-mono text-xs px-2 py-0.5 border",
+            result.status === "pass"
+              ? "text-accent-500 border-accent-500/30 bg-accent-500/10"
+              : result.status === "warning"
+              ? "text-warning-500 border-warning-500/30 bg-warning-500/10"
+              : "text-error-500 border-error-500/30 bg-error-500/10"
+          )}
+        >
+          {result.status.toUpperCase()}
+        </span>
+      </div>
+
+      {rows.length > 0 && (
+        <table className="w-full font-mono text-xs">
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.label} className="border-t border-slate-200/50 dark:border-slate-800/50">
+                <td className="py-1.5 text-slate-600 dark:text-slate-300">
+                  {row.label}
+                  {row.note && <div className="text-[10px] text-slate-500">{row.note}</div>}
+                </td>
+                <td className="py-1.5 text-right text-accent-500">
+                  {formatDimension(row.value, result.unit, display)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {appliedShift > 0 && (
+        <p className="font-mono text-[10px] text-slate-500">
+          Datum shift lets the datum reference frame move relative to the datum feature. For a pattern the whole pattern
+          shifts together, so it cannot be spent on each feature independently.
+        </p>
+      )}
+
+      {contacts && <p className="font-mono text-[10px] text-slate-500">{contacts}</p>}
+
+      <p className="font-mono text-xs text-slate-600 dark:text-slate-300">{result.summary}</p>
     </section>
   );
 }
@@ -0,0 +1,239 @@
+"use client";
+
+import { Plus, Trash2, X } from "lucide-react";
+import { cn } from "@/lib/utils/cn";
+import type { Unit } from "@/lib/fcf/schema";
+import {
+  DATUM_FEATURE_TYPE_LABELS,
+  isDatumFeatureOfSize,
+  type DatumFeature,
+  type DatumFeatureType,
+  type DatumTargetKind,
+} from "@/lib/fcf/datums";
+
+interface DatumCatalogEditorProps {
+  catalog: DatumFeature[];
+  onChange: (catalog: DatumFeature[]) => void;
+  /** Datum letters referenced by the frames; missing ones are offered for quick add */
+  referencedLetters?: string[];
+  unit?: Unit;
+  className?: string;
+}
+
+const inputClass =
+  "bg-white dark:bg-slate-900/50 border border-slate-200 dark:border-slate-800 px-2 py-1 font-mono text-xs text-slate-700 dark:text-slate-300 focus:outline-none focus:border-accent-500";
+
+const TARGET_KINDS: DatumTargetKind[] = ["point", "line", "area"];
+
+/** Next unused datum letter, skipping I, O and Q */
+function nextLetter(catalog: DatumFeature[]): string {
+  const used = new Set(catalog.map((feature) => feature.id));
+  return "ABCDEFGHJKLMNPRSTUVWXYZ".split("").find((letter) => !used.has(letter)) ?? "";
+}
+
+/**
+ * Edit a project's datum feature catalog: what each datum letter is, its size,
+ * datum targets and simulator.
+ */
+export default function DatumCatalogEditor({
+  catalog,
+  onChange,
+  referencedLetters = [],
+  unit = "mm",
+  className,
+}: DatumCatalogEditorProps) {
+  const uncatalogued = [...new Set(referencedLetters)].filter((letter) => !catalog.some((f) => f.id === letter));
+
+  const update = (index: number, patch: Partial<DatumFeature>) => {
+    onChange(catalog.map((feature, i) => (i === index ? { ...feature, ...patch } : feature)));
+  };
+
+  const add = (id: string) => onChange([...catalog, { id, type: "planar" }]);
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      {catalog.map((feature, index) => {
+        const targets = feature.targets ?? [];
+        return (
+          <div key={index} className="p-3 space-y-2 border border-slate-200 dark:border-slate-800">
+            <div className="flex items-center gap-2">
+              <input
+                value={feature.id}
+                onChange={(e) => update(index, { id: e.target.value.toUpperCase().slice(0, 2) })}
+                className={cn(inputClass, "w-10 text-center text-accent-500")}
+                aria-label="Datum letter"
+              />
+              <select
+                value={feature.type}
+                onChange={(e) => {
+                  const type = e.target.value as DatumFeatureType;
+                  // Only features of size carry a size dimension
+                  update(index, { type, ...(!isDatumFeatureOfSize({ ...feature, type }) && { size: undefined }) });
+                }}
+                className={inputClass}
+                aria-label="Datum feature type"
+              >
+                {(Object.keys(DATUM_FEATURE_TYPE_LABELS) as DatumFeatureType[]).map((type) => (
+                  <option key={type} value={type}>
+                    {DATUM_FEATURE_TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+              <input
+                value={feature.description ?? ""}
+                onChange={(e) => update(index, { description: e.target.value || undefined })}
+                placeholder="Description"
+                className={cn(inputClass, "flex-1 min-w-0")}
+              />
+              <button
+                type="button"
+                onClick={() => onChange(catalog.filter((_, i) => i !== index))}
+                className="p-1 text-slate-500 hover:text-error-500"
+                aria-label={`Remove datum ${feature.id}`}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+
+            {isDatumFeatureOfSize(feature) && (
+              <div className="flex items-center gap-2 font-mono text-[10px] text-slate-500">
+                SIZE
+                <input
+                  type="number"
+                  step="any"
+                  value={feature.size?.nominal ?? ""}
+                  onChange={(e) =>
+                    update(index, {
+                      size: e.target.value ? { ...feature.size, nominal: Number(e.target.value) } : undefined,
+                    })
+                  }
+                  placeholder="nominal"
+                  className={cn(inputClass, "w-20")}
+                />
+                +
+                <input
+                  type="number"
+                  step="any"
+                  min={0}
+                  value={feature.size?.tolerancePlus ?? ""}
+                  disabled={!feature.size}
+                  onChange={(e) =>
+                    feature.size &&
+                    update(index, {
+                      size: { ...feature.size, tolerancePlus: e.target.value ? Number(e.target.value) : undefined },
+                    })
+                  }
+                  className={cn(inputClass, "w-16")}
+                />
+                −
+                <input
+                  type="number"
+                  step="any"
+                  min={0}
+                  value={feature.size?.toleranceMinus ?? ""}
+                  disabled={!feature.size}
+                  onChange={(e) =>
+                    feature.size &&
+                    update(index, {
+                      size: { ...feature.size, toleranceMinus: e.target.value ? Number(e.target.value) : undefined },
+                    })
+                  }
+                  className={cn(inputClass, "w-16")}
+                />
+                {unit}
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2 font-mono text-[10px] text-slate-500">
+              TARGETS
+              {targets.map((target, t) => (
+                <span key={t} className="flex items-center gap-1 px-1.5 py-0.5 border border-slate-200 dark:border-slate-800">
+                  <span className="text-slate-700 dark:text-slate-300">{target.id}</span>
+                  <select
+                    value={target.kind}
+                    onChange={(e) =>
+                      update(index, {
+                        targets: targets.map((item, i) =>
+                          i === t ? { ...item, kind: e.target.value as DatumTargetKind } : item
+                        ),
+                      })
+                    }
+                    className="bg-transparent text-[10px] focus:outline-none"
+                    aria-label={`Target ${target.id} kind`}
+                  >
+                    {TARGET_KINDS.map((kind) => (
+                      <option key={kind} value={kind}>
+                        {kind}
+                      </option>
+                    ))}
+                  </select>
+                  <label className="flex items-center gap-0.5">
+                    <input
+                      type="checkbox"
+                      checked={target.movable ?? false}
+                      onChange={(e) =>
+                        update(index, {
+                          targets: targets.map((item, i) =>
+                            i === t ? { ...item, movable: e.target.checked || undefined } : item
+                          ),
+                        })
+                      }
+                    />
+                    movable
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => update(index, { targets: targets.filter((_, i) => i !== t) })}
+                    className="hover:text-error-500"
+                    aria-label={`Remove target ${target.id}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+              <button
+                type="button"
+                onClick={() =>
+                  update(index, { targets: [...targets, { id: `${feature.id}${targets.length + 1}`, kind: "point" }] })
+                }
+                className="flex items-center gap-0.5 hover:text-accent-500"
+              >
+                <Plus className="w-3 h-3" />
+                ADD
+              </button>
+            </div>
+
+            <input
+              value={feature.simulator ?? ""}
+              onChange={(e) => update(index, { simulator: e.target.value || undefined })}
+              placeholder="Simulator (optional, e.g. surface plate)"
+              className={cn(inputClass, "w-full")}
+            />
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {uncatalogued.map((letter) => (
+          <button
+            key={letter}
+            type="button"
+            onClick={() => add(letter)}
+            className="flex items-center gap-1 px-2 py-1 font-mono text-xs border border-warning-500/40 text-warning-500 hover:bg-warning-500/10"
+          >
+            <Plus className="w-3 h-3" />
+            DATUM {letter}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => add(nextLetter(catalog))}
+          className="flex items-center gap-1 px-2 py-1 font-mono text-xs border border-slate-200 dark:border-slate-800 text-slate-500 hover:text-accent-500"
+        >
+          <Plus className="w-3 h-3" />
+          ADD DATUM
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import { useMemo } from "react";
+import { AlertTriangle } from "lucide-react";
+import { cn } from "@/lib/utils/cn";
+import type { DatumReference } from "@/lib/fcf/schema";
+import {
+  DEGREES_OF_FREEDOM,
+  DATUM_FEATURE_TYPE_LABELS,
+  analyzeDatumReferenceFrame,
+  explainDatumReferenceFrame,
+  type DatumFeature,
+} from "@/lib/fcf/datums";
+
+interface DatumFramePanelProps {
+  datums: DatumReference[] | undefined;
+  catalog: DatumFeature[];
+  className?: string;
+}
+
+/**
+ * Degrees of freedom each datum reference constrains, as a datum × DOF grid
+ * plus a plain-language explanation.
+ */
+export default function DatumFramePanel({ datums, catalog, className }: DatumFramePanelProps) {
+  const analysis = useMemo(() => analyzeDatumReferenceFrame(datums, catalog), [datums, catalog]);
+  const explanation = useMemo(() => explainDatumReferenceFrame(analysis), [analysis]);
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      {analysis.datums.length > 0 && (
+        <table className="w-full font-mono text-xs">
+          <thead>
+            <tr className="text-[10px] text-slate-500">
+              <th className="text-left font-normal py-1">DATUM</th>
+              <th className="text-left font-normal py-1">FEATURE</th>
+              {DEGREES_OF_FREEDOM.map((dof) => (
+                <th key={dof} className="w-7 text-center font-normal py-1">
+                  {dof}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {analysis.datums.map((datum, index) => (
+              <tr key={`${datum.id}-${index}`} className="border-t border-slate-200/50 dark:border-slate-800/50">
+                <td className="py-1.5 text-accent-500">
+                  {datum.id}
+                  {datum.precedence && (
+                    <span className="ml-1 text-[10px] text-slate-500">{datum.precedence.slice(0, 3).toUpperCase()}</span>
+                  )}
+                </td>
+                <td className="py-1.5 text-slate-600 dark:text-slate-300" title={datum.simulator}>
+                  {datum.feature ? DATUM_FEATURE_TYPE_LABELS[datum.feature.type] : "—"}
+                </td>
+                {DEGREES_OF_FREEDOM.map((dof) => (
+                  <td key={dof} className="py-1.5 text-center">
+                    <span
+                      className={cn(
+                        "inline-block w-4 h-4 border",
+                        datum.constrains.includes(dof)
+                          ? "bg-accent-500 border-accent-500"
+                          : "border-slate-300 dark:border-slate-700"
+                      )}
+                      aria-label={datum.constrains.includes(dof) ? `${dof} constrained` : undefined}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <ul className="space-y-1">
+        {explanation.map((line, index) => (
+          <li key={index} className="font-mono text-xs text-slate-600 dark:text-slate-300">
+            {line}
+          </li>
+        ))}
+      </ul>
+
+      {analysis.missing.length > 0 && (
+        <p className="flex items-center gap-2 font-mono text-xs text-warning-500">
+          <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+          Add {analysis.missing.join(", ")} to the datum catalog to see what {analysis.missing.length === 1 ? "it constrains" : "they constrain"}.
+        </p>
+      )}
+    </div>
+  );
+}
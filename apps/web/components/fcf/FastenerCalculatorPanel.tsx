@@ -0,0 +1,205 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { AlertCircle, ArrowRight, CheckCircle2, Wrench } from "lucide-react";
+import { cn } from "@/lib/utils/cn";
+import type { FcfJson, Unit } from "@/lib/fcf/schema";
+import type { FastenerInput } from "@/lib/calc/types";
+import { calculateFastener, createFastenerFcfs } from "@/lib/calc/fastener";
+import { validateFcf } from "@/lib/rules/validateFcf";
+import type { RuleProfile } from "@/lib/rules/ruleProfiles";
+
+interface FastenerCalculatorPanelProps {
+  unit?: Unit;
+  /** Rule profile the generated frames are validated against */
+  ruleProfile?: RuleProfile;
+  /** Load a generated frame into the builder */
+  onOpenFcf: (fcf: FcfJson) => void;
+  className?: string;
+}
+
+const inputClass =
+  "bg-white dark:bg-slate-900/50 border border-slate-200 dark:border-slate-800 px-2 py-1 font-mono text-xs text-slate-700 dark:text-slate-300 focus:outline-none focus:border-accent-500";
+
+const labelClass = "font-mono text-[10px] text-[#6B7280] dark:text-slate-500 tracking-widest";
+
+/** Parse a numeric field, keeping blanks undefined */
+function parseField(value: string): number | undefined {
+  return value === "" ? undefined : parseFloat(value);
+}
+
+/**
+ * Work out position tolerances for floating or fixed fasteners and create
+ * validated feature control frames for both mating parts.
+ */
+export default function FastenerCalculatorPanel({
+  unit = "mm",
+  ruleProfile,
+  onOpenFcf,
+  className,
+}: FastenerCalculatorPanelProps) {
+  const [input, setInput] = useState<FastenerInput>({
+    unit,
+    fastenerCase: "floating",
+    fastenerDiameter: 10,
+    holeDiameter: 11,
+    clearanceShare: 0.5,
+    projectedZone: true,
+    fastenerCount: 4,
+  });
+  const [frames, setFrames] = useState<FcfJson[] | null>(null);
+
+  const response = useMemo(() => calculateFastener({ ...input, unit }), [input, unit]);
+  const fixed = input.fastenerCase === "fixed";
+
+  // Fields shown without a default: frames are only offered once all are filled in
+  const requiredFields: (keyof FastenerInput)[] = fixed
+    ? ["fastenerDiameter", "holeDiameter", "clearanceShare", "matingThickness"]
+    : ["fastenerDiameter", "holeDiameter"];
+  const blank = requiredFields.some((key) => !Number.isFinite(input[key]));
+  const validations = useMemo(
+    () => frames?.map((frame) => validateFcf(frame, ruleProfile)) ?? [],
+    [frames, ruleProfile]
+  );
+
+  const update = (patch: Partial<FastenerInput>) => {
+    setInput((current) => ({ ...current, ...patch }));
+    setFrames(null);
+  };
+
+  const numberField = (label: string, key: keyof FastenerInput, title?: string) => (
+    <label className="flex flex-col gap-1" title={title}>
+      <span className={labelClass}>{label}</span>
+      <input
+        type="number"
+        min={0}
+        step={unit === "inch" ? 0.001 : 0.01}
+        value={(input[key] as number | undefined) ?? ""}
+        onChange={(e) => update({ [key]: parseField(e.target.value) })}
+        className={cn(inputClass, "w-full tabular-nums")}
+      />
+    </label>
+  );
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      {/* Case selector */}
+      <div className="flex items-center gap-1">
+        {(["floating", "fixed"] as const).map((fastenerCase) => (
+          <button
+            key={fastenerCase}
+            type="button"
+            onClick={() => update({ fastenerCase })}
+            className={cn(
+              "px-3 py-1 font-mono text-[10px] tracking-widest border transition-colors",
+              input.fastenerCase === fastenerCase
+                ? "border-accent-500 text-accent-500"
+                : "border-[#E5E7EB] dark:border-slate-700 text-[#6B7280] dark:text-slate-400 hover:border-accent-500"
+            )}
+          >
+            {fastenerCase.toUpperCase()}
+          </button>
+        ))}
+      </div>
+
+      {/* Inputs */}
+      <div className="grid grid-cols-3 gap-3">
+        {numberField("FASTENER F", "fastenerDiameter", "Fastener maximum diameter")}
+        {numberField("HOLE H", "holeDiameter", "Clearance hole MMC diameter")}
+        {fixed
+          ? numberField("CLEARANCE SHARE", "clearanceShare", "Share of H - F given to the clearance part (0-1)")
+          : numberField("HOLE H2", "secondHoleDiameter", "Second part clearance hole MMC (default H)")}
+        {numberField("HOLE SIZE TOL +", "holeSizeTolerance")}
+        {numberField("COUNT", "fastenerCount")}
+        {fixed && numberField("THICKNESS P", "matingThickness", "Maximum thickness of the clearance part")}
+        {fixed && !input.projectedZone && numberField("ENGAGEMENT D", "engagementLength", "Minimum thread engagement")}
+      </div>
+
+      {fixed && (
+        <label className="flex items-center gap-2 font-mono text-xs text-slate-600 dark:text-slate-400">
+          <input
+            type="checkbox"
+            checked={input.projectedZone ?? true}
+            onChange={(e) => update({ projectedZone: e.target.checked })}
+          />
+          Projected tolerance zone on the fixed part
+        </label>
+      )}
+
+      {/* Results */}
+      {blank ? (
+        <p className="font-mono text-xs text-[#6B7280] dark:text-slate-500">
+          Fill in every dimension to calculate the tolerances.
+        </p>
+      ) : response.success ? (
+        <div className="space-y-2">
+          {response.result.parts.map((part) => (
+            <div
+              key={part.label}
+              className="flex items-center justify-between px-3 py-2 border border-slate-200 dark:border-slate-800"
+            >
+              <span className="font-mono text-xs text-slate-600 dark:text-slate-400">
+                {part.label} · {part.role === "fixed" ? "fixed" : "clearance"}
+              </span>
+              <span className="font-mono text-sm text-slate-900 dark:text-white tabular-nums">
+                ⌖ Ø{part.positionTolerance.toFixed(4)} Ⓜ
+                {part.projectedZoneHeight !== undefined && ` Ⓟ ${part.projectedZoneHeight}`}
+              </span>
+            </div>
+          ))}
+          {response.result.projectionCorrection !== undefined && (
+            <p className="font-mono text-[10px] text-warning-500">
+              Part 2 reduced by 1 + 2P/D = {response.result.projectionCorrection} for fastener tilt
+            </p>
+          )}
+          <button
+            type="button"
+            onClick={() => setFrames(createFastenerFcfs({ ...input, unit }, response.result))}
+            className="flex items-center gap-1.5 px-3 py-1.5 font-mono text-[10px] tracking-widest border border-accent-500 text-accent-500 hover:bg-accent-500/10 transition-colors"
+          >
+            <Wrench className="w-3 h-3" />
+            CREATE FCFS
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-1">
+          {response.errors.map((error) => (
+            <p key={error.field ?? error.code} className="flex items-center gap-1.5 font-mono text-xs text-error-500">
+              <AlertCircle className="w-3 h-3" />
+              {error.message}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {/* Generated frames */}
+      {frames && (
+        <div className="space-y-2">
+          {frames.map((frame, i) => (
+            <div
+              key={frame.name}
+              className="flex items-center justify-between px-3 py-2 border border-slate-200 dark:border-slate-800"
+            >
+              <span className="flex items-center gap-1.5 font-mono text-xs text-slate-600 dark:text-slate-400">
+                {validations[i]?.valid ? (
+                  <CheckCircle2 className="w-3 h-3 text-success-500" />
+                ) : (
+                  <AlertCircle className="w-3 h-3 text-error-500" />
+                )}
+                {frame.name}
+              </span>
+              <button
+                type="button"
+                onClick={() => onOpenFcf(frame)}
+                className="flex items-center gap-1 font-mono text-[10px] text-[#6B7280] dark:text-slate-400 hover:text-accent-500"
+              >
+                OPEN IN BUILDER
+                <ArrowRight className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
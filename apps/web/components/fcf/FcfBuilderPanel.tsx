@@ -3,7 +3,17 @@
 import { useState, useCallback, useEffect } from "react";
 import { Info, FileText, X } from "lucide-react";
 import { cn } from "@/lib/utils/cn";
-import type { FcfJson, Characteristic, FeatureType, Unit, DatumReference, ToleranceZone, FrameModifier } from "@/lib/fcf/schema";
+import type {
+  FcfJson,
+  Characteristic,
+  FeatureType,
+  Unit,
+  DatumReference,
+  ToleranceZone,
+  FrameModifier,
+  GeometricStandard,
+  IsoModifier,
+} from "@/lib/fcf/schema";
 import { CharacteristicPicker } from "@/components/gdt/CharacteristicIcon";
 import { DatumSelector, DatumList } from "@/components/gdt/DatumBadge";
 import { ToleranceInput } from "@/components/gdt/ToleranceDisplay";
@@ -11,18 +21,24 @@ import { MaterialConditionSelector } from "@/components/gdt/MaterialConditionBad
 import { ValidationPanel } from "@/components/gdt/ValidationMessage";
 import SizeDimensionInput from "@/components/gdt/SizeDimensionInput";
 import type { SizeDimensionInput as SizeDimensionType } from "@/lib/calc/types";
-import type { ValidationResult } from "@/lib/rules/validateFcf";
+import type { ValidationIssue, ValidationResult } from "@/lib/rules/validateFcf";
 import {
   CHARACTERISTIC_DESCRIPTIONS,
   FEATURE_TYPE_LABELS,
   FRAME_MODIFIER_LABELS,
+  ISO_MODIFIER_LABELS,
 } from "@/lib/constants/gdt-symbols";
+import { STANDARD_LABELS } from "@/lib/fcf/standards";
+import { convertFcf, formatConversionNotes } from "@/lib/util/units";
 
 interface FcfBuilderPanelProps {
   initialFcf?: Partial<FcfJson>;
   onChange?: (fcf: Partial<FcfJson>) => void;
   onValidate?: (fcf: Partial<FcfJson>) => Promise<ValidationResult>;
   validationResult?: ValidationResult | null;
+  onApplyFixes?: (issues: ValidationIssue[]) => void;
+  /** Called instead of a plain field update so the parent can translate the frame */
+  onStandardChange?: (standard: GeometricStandard) => void;
   className?: string;
 }
 
@@ -39,11 +55,16 @@ const CYLINDRICAL_FEATURES: FeatureType[] = ["hole", "pin"];
 // Features of Size that can have MMC/LMC and require size dimension
 const FEATURES_OF_SIZE: FeatureType[] = ["hole", "pin", "boss", "slot"];
 
+// Modifiers with no ISO 1101 meaning (ISO uses UZ instead of Ⓤ)
+const ASME_ONLY_MODIFIERS: FrameModifier[] = ["UNEQUALLY_DISPOSED"];
+
 export default function FcfBuilderPanel({
   initialFcf,
   onChange,
   onValidate,
   validationResult,
+  onApplyFixes,
+  onStandardChange,
   className,
 }: FcfBuilderPanelProps) {
   const [fcf, setFcf] = useState<Partial<FcfJson>>({
@@ -51,6 +72,13 @@ export default function FcfBuilderPanel({
     ...initialFcf,
   });
 
+  // Sync when the parent replaces the FCF (e.g., after applying fixes)
+  useEffect(() => {
+    if (initialFcf && initialFcf !== fcf) {
+      setFcf({ ...defaultFcf, ...initialFcf });
+    }
+  }, [initialFcf]);
+
   // Update parent and trigger validation
   const updateFcf = useCallback(
     (updates: Partial<FcfJson>) => {
@@ -61,6 +89,23 @@ export default function FcfBuilderPanel({
     [fcf, onChange]
   );
 
+  // Switching units converts every dimension of the frame, not just the label
+  const [conversionNotice, setConversionNotice] = useState<string | null>(null);
+  const changeUnit = useCallback(
+    (unit: Unit) => {
+      if (!fcf.sourceUnit || !fcf.tolerance) {
+        updateFcf({ sourceUnit: unit });
+        return;
+      }
+      const conversion = convertFcf({ ...fcf, sourceUnit: fcf.sourceUnit, tolerance: fcf.tolerance }, unit);
+      setConversionNotice(
+        conversion.notes.some((note) => note.precisionLost) ? formatConversionNotes(conversion) : null
+      );
+      updateFcf(conversion.value);
+    },
+    [fcf, updateFcf]
+  );
+
   // Update tolerance
   const updateTolerance = useCallback(
     (updates: Partial<ToleranceZone>) => {
@@ -155,6 +200,18 @@ export default function FcfBuilderPanel({
     }
   }, [fcf.featureType, fcf.characteristic, fcf.tolerance?.diameter, isCylindricalFeature, updateTolerance]);
 
+  const isIso = fcf.standard === "ISO_1101";
+
+  // Toggle an ISO tolerance-section indication
+  const toggleIsoModifier = useCallback(
+    (mod: IsoModifier) => {
+      const current = fcf.isoModifiers || [];
+      const next = current.includes(mod) ? current.filter((m) => m !== mod) : [...current, mod];
+      updateFcf({ isoModifiers: next.length > 0 ? next : undefined });
+    },
+    [fcf.isoModifiers, updateFcf]
+  );
+
   // Notes popover state
   const [showNotesPopover, setShowNotesPopover] = useState(false);
 
@@ -226,12 +283,13 @@ export default function FcfBuilderPanel({
           value={fcf.tolerance || {}}
           onChange={updateTolerance}
           unit={fcf.sourceUnit || "mm"}
-          onUnitChange={(unit) => updateFcf({ sourceUnit: unit })}
+          onUnitChange={changeUnit}
           showDiameter={fcf.characteristic === "position" || fcf.characteristic === "perpendicularity" || fcf.characteristic === "straightness"}
           showMaterialCondition={!fcf.characteristic || !formCharacteristics.includes(fcf.characteristic)}
           showUnitSelector
           compact
         />
+        {conversionNotice && <p className="font-mono text-[10px] text-warning-500">{conversionNotice}</p>}
       </section>
 
       {/* Divider */}
@@ -329,31 +387,28 @@ export default function FcfBuilderPanel({
           label="Options"
         />
         <div className="flex items-center gap-3 flex-wrap">
-          {/* Frame Modifiers */}
+          {/* Standard */}
           <div className="flex items-center gap-1">
-            {(Object.keys(FRAME_MODIFIER_LABELS) as FrameModifier[]).map((mod) => {
-              const isSelected = (fcf.modifiers || []).includes(mod);
+            {(Object.keys(STANDARD_LABELS) as GeometricStandard[]).map((standard) => {
+              const isSelected = (fcf.standard ?? "ASME_Y14_5_2018") === standard;
               return (
                 <button
-                  key={mod}
+                  key={standard}
                   type="button"
                   onClick={() => {
-                    const current = fcf.modifiers || [];
-                    updateFcf({
-                      modifiers: isSelected
-                        ? current.filter((m) => m !== mod)
-                        : [...current, mod],
-                    });
+                    if (isSelected) return;
+                    if (onStandardChange) onStandardChange(standard);
+                    else updateFcf({ standard });
                   }}
                   className={cn(
-                    "px-2.5 py-1.5 text-xs border transition-colors",
+                    "px-2.5 py-1.5 text-xs font-mono border transition-colors",
                     isSelected
-                      ? "bg-accent-500/20 border-accent-500 text-accent-500"
+                      ? "bg-primary-500/20 border-primary-500 text-primary-500"
                       : "bg-white dark:bg-slate-800 border-[#E5E7EB] dark:border-slate-700 text-[#6B7280] dark:text-slate-500 hover:border-[#D1D5DB] dark:hover:border-slate-600"
                   )}
-                  title={FRAME_MODIFIER_LABELS[mod]}
+                  title={STANDARD_LABELS[standard]}
                 >
-                  {FRAME_MODIFIER_LABELS[mod].split(' ')[0]}
+                  {STANDARD_LABELS[standard].split(" ")[0]}
                 </button>
               );
             })}
@@ -362,6 +417,101 @@ export default function FcfBuilderPanel({
           {/* Separator */}
           <div className="h-6 w-px bg-[#E5E7EB] dark:bg-slate-700" />
 
+          {/* Frame Modifiers */}
+          <div className="flex items-center gap-1">
+            {(Object.keys(FRAME_MODIFIER_LABELS) as FrameModifier[])
+              .filter((mod) => !isIso || !ASME_ONLY_MODIFIERS.includes(mod))
+              .map((mod) => {
+                const isSelected = (fcf.modifiers || []).includes(mod);
+                return (
+                  <button
+                    key={mod}
+                    type="button"
+                    onClick={() => {
+                      const current = fcf.modifiers || [];
+                      updateFcf({
+                        modifiers: isSelected
+                          ? current.filter((m) => m !== mod)
+                          : [...current, mod],
+                      });
+                    }}
+                    className={cn(
+                      "px-2.5 py-1.5 text-xs border transition-colors",
+                      isSelected
+                        ? "bg-accent-500/20 border-accent-500 text-accent-500"
+                        : "bg-white dark:bg-slate-800 border-[#E5E7EB] dark:border-slate-700 text-[#6B7280] dark:text-slate-500 hover:border-[#D1D5DB] dark:hover:border-slate-600"
+                    )}
+                    title={FRAME_MODIFIER_LABELS[mod]}
+                  >
+                    {FRAME_MODIFIER_LABELS[mod].split(' ')[0]}
+                  </button>
+                );
+              })}
+          </div>
+
+          {/* ISO GPS indications */}
+          {isIso && (
+            <div className="flex items-center gap-1">
+              {(Object.keys(ISO_MODIFIER_LABELS) as IsoModifier[]).map((mod) => {
+                const isSelected = (fcf.isoModifiers || []).includes(mod);
+                return (
+                  <button
+                    key={mod}
+                    type="button"
+                    onClick={() => toggleIsoModifier(mod)}
+                    className={cn(
+                      "px-2.5 py-1.5 text-xs font-mono border transition-colors",
+                      isSelected
+                        ? "bg-accent-500/20 border-accent-500 text-accent-500"
+                        : "bg-white dark:bg-slate-800 border-[#E5E7EB] dark:border-slate-700 text-[#6B7280] dark:text-slate-500 hover:border-[#D1D5DB] dark:hover:border-slate-600"
+                    )}
+                    title={ISO_MODIFIER_LABELS[mod]}
+                  >
+                    {mod}
+                  </button>
+                );
+              })}
+              {(fcf.isoModifiers || []).includes("UZ") && (
+                <input
+                  type="number"
+                  step="any"
+                  value={fcf.tolerance?.zoneOffset ?? ""}
+                  onChange={(e) =>
+                    updateTolerance({ zoneOffset: e.target.value === "" ? undefined : Number(e.target.value) })
+                  }
+                  className="w-20 bg-white dark:bg-slate-900/50 border border-[#E5E7EB] dark:border-slate-800 px-2 py-1.5 font-mono text-xs text-[#374151] dark:text-slate-300 focus:outline-none focus:ring-1 focus:ring-accent-500/50"
+                  placeholder="UZ ±"
+                  aria-label="UZ offset"
+                />
+              )}
+              {isFeatureOfSize && (
+                <button
+                  type="button"
+                  onClick={() =>
+                    updateFcf({
+                      sizeDimension: fcf.sizeDimension
+                        ? { ...fcf.sizeDimension, envelope: fcf.sizeDimension.envelope ? undefined : true }
+                        : undefined,
+                    })
+                  }
+                  disabled={!fcf.sizeDimension}
+                  className={cn(
+                    "px-2.5 py-1.5 text-xs border transition-colors disabled:opacity-50",
+                    fcf.sizeDimension?.envelope
+                      ? "bg-accent-500/20 border-accent-500 text-accent-500"
+                      : "bg-white dark:bg-slate-800 border-[#E5E7EB] dark:border-slate-700 text-[#6B7280] dark:text-slate-500 hover:border-[#D1D5DB] dark:hover:border-slate-600"
+                  )}
+                  title="Envelope requirement (ISO 8015 independency applies otherwise)"
+                >
+                  Ⓔ
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Separator */}
+          <div className="h-6 w-px bg-[#E5E7EB] dark:bg-slate-700" />
+
           {/* Name input */}
           <div className="flex items-center gap-2 flex-1 min-w-[150px]">
             <label className="text-sm text-[#374151] dark:text-slate-400 whitespace-nowrap">Name:</label>
@@ -431,6 +581,9 @@ export default function FcfBuilderPanel({
           title="Validation"
           collapsible
           defaultExpanded={!validationResult.valid}
+          onFix={onApplyFixes ? (issue) => onApplyFixes([issue]) : undefined}
+          onFixAll={onApplyFixes}
+          profile={validationResult.profile}
         />
       )}
     </div>
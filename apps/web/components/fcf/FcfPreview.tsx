@@ -8,6 +8,7 @@ import {
   GDT_SYMBOLS,
   MATERIAL_CONDITION_SYMBOLS,
 } from "@/lib/constants/gdt-symbols";
+import { getIsoZoneModifiers } from "@/lib/export/svg-generator";
 
 interface FcfPreviewProps {
   fcf: Partial<FcfJson>;
@@ -70,7 +71,8 @@ function getToleranceWidth(fcf: Partial<FcfJson>): number {
   const valueStr = fcf.tolerance.value.toFixed(3);
   const hasDiameter = fcf.tolerance.diameter;
   const hasMC = fcf.tolerance.materialCondition && fcf.tolerance.materialCondition !== "RFS";
-  const charCount = valueStr.length + (hasDiameter ? 1 : 0) + (hasMC ? 1 : 0);
+  const modifierChars = getIsoZoneModifiers(fcf).reduce((sum, m) => sum + m.length + 1, 0);
+  const charCount = valueStr.length + (hasDiameter ? 1 : 0) + (hasMC ? 1 : 0) + modifierChars;
   return Math.max(FCF.toleranceMinWidth, charCount * 10 + FCF.padding * 2);
 }
 
@@ -277,6 +279,9 @@ function renderCells(fcf: Partial<FcfJson>, charColor: string): React.ReactNode
             <tspan fill="#00D4AA">{GDT_SYMBOLS.diameter}</tspan>
           )}
           <tspan>{valueStr}</tspan>
+          {getIsoZoneModifiers(fcf).map((modifier) => (
+            <tspan key={modifier} fill="#00D4AA" fontSize={FCF.fontSize - 2}> {modifier}</tspan>
+          ))}
           {mcSymbol && (
             <tspan fill="#F59E0B" fontSize={FCF.fontSize - 2}> {mcSymbol}</tspan>
           )}
@@ -0,0 +1,274 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { AlertCircle, CheckCircle2, FileText, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils/cn";
+import type { FcfJson } from "@/lib/fcf/schema";
+import type { GaugeDatumInput, GaugeDesignInput } from "@/lib/calc/types";
+import { designGauge } from "@/lib/calc/gauge";
+
+interface GaugeDesignerPanelProps {
+  /** Frame being built; a position tolerance at MMC on a feature of size */
+  fcf: Partial<FcfJson>;
+  className?: string;
+}
+
+/** Size of a datum feature referenced at MMB, entered alongside the frame */
+interface DatumSize {
+  featureType: "hole" | "pin";
+  nominal?: number;
+  tolerancePlus?: number;
+  toleranceMinus?: number;
+}
+
+const inputClass =
+  "bg-white dark:bg-slate-900/50 border border-slate-200 dark:border-slate-800 px-2 py-1 font-mono text-xs text-slate-700 dark:text-slate-300 focus:outline-none focus:border-accent-500";
+
+const labelClass = "font-mono text-[10px] text-[#6B7280] dark:text-slate-500 tracking-widest";
+
+/** Parse a numeric field, keeping blanks undefined */
+function parseField(value: string): number | undefined {
+  return value === "" ? undefined : parseFloat(value);
+}
+
+/**
+ * Design a functional gauge for the frame in the builder and download its
+ * spec sheet. Datum features referenced at MMB need their size entered here.
+ */
+export default function GaugeDesignerPanel({ fcf, className }: GaugeDesignerPanelProps) {
+  const [gaugeShare, setGaugeShare] = useState<number | undefined>(5);
+  const [wearShare, setWearShare] = useState<number | undefined>(5);
+  const [datumSizes, setDatumSizes] = useState<Record<string, DatumSize>>({});
+  const [exporting, setExporting] = useState(false);
+
+  const mmbDatums = useMemo(
+    () => (fcf.datums ?? []).filter((datum) => datum.materialCondition === "MMC"),
+    [fcf.datums]
+  );
+  const gaugeable =
+    fcf.characteristic === "position" &&
+    fcf.tolerance?.materialCondition === "MMC" &&
+    fcf.featureType !== undefined &&
+    fcf.sizeDimension !== undefined;
+
+  // Blank fields leave the design incomplete rather than NaN
+  const input = useMemo((): GaugeDesignInput | undefined => {
+    if (!gaugeable || !fcf.tolerance || !fcf.sizeDimension || !fcf.featureType) return undefined;
+
+    const datumFeatures: GaugeDatumInput[] = [];
+    for (const datum of mmbDatums) {
+      const size = datumSizes[datum.id];
+      if (!size || ![size.nominal, size.tolerancePlus, size.toleranceMinus].every(Number.isFinite)) {
+        return undefined;
+      }
+      datumFeatures.push({
+        id: datum.id,
+        materialCondition: "MMC",
+        sizeDimension: {
+          nominal: size.nominal!,
+          tolerancePlus: size.tolerancePlus!,
+          toleranceMinus: size.toleranceMinus!,
+          featureType: size.featureType,
+        },
+      });
+    }
+
+    const values = [fcf.tolerance.value, fcf.sizeDimension.nominal, gaugeShare, wearShare];
+    if (!values.every(Number.isFinite)) return undefined;
+
+    return {
+      unit: fcf.sourceUnit ?? "mm",
+      name: fcf.name,
+      geometricTolerance: fcf.tolerance.value,
+      materialCondition: "MMC",
+      featureType: fcf.featureType,
+      featureCount: fcf.pattern?.count,
+      sizeDimension: {
+        nominal: fcf.sizeDimension.nominal,
+        tolerancePlus: fcf.sizeDimension.tolerancePlus ?? 0,
+        toleranceMinus: fcf.sizeDimension.toleranceMinus ?? 0,
+        featureType: fcf.featureType,
+      },
+      datumFeatures,
+      gaugeTolerance: { type: "percentage", value: gaugeShare! },
+      wearAllowance: { type: "percentage", value: wearShare! },
+    };
+  }, [fcf, gaugeable, mmbDatums, datumSizes, gaugeShare, wearShare]);
+
+  const response = useMemo(() => (input ? designGauge(input) : undefined), [input]);
+
+  const updateDatum = (id: string, patch: Partial<DatumSize>) => {
+    setDatumSizes((current) => ({
+      ...current,
+      [id]: { ...(current[id] ?? { featureType: "hole" }), ...patch },
+    }));
+  };
+
+  const handleExport = async () => {
+    if (!input || exporting) return;
+    setExporting(true);
+    try {
+      const res = await fetch("/api/fcf/gauge", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ input }),
+      });
+      const data = await res.json();
+
+      if (res.status === 403) {
+        toast.error(data.message, {
+          description: "Upgrade to Pro for gauge spec sheets",
+          action: {
+            label: "Upgrade",
+            onClick: () => (window.location.href = "/app/settings/billing"),
+          },
+        });
+        return;
+      }
+      if (!res.ok) {
+        throw new Error(data.error || "Gauge export failed");
+      }
+
+      const link = document.createElement("a");
+      link.href = data.export.url;
+      link.download = data.export.filename;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      toast.success("Gauge spec sheet exported");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Gauge export failed";
+      console.error("Gauge export error:", message);
+      toast.error("Gauge export failed", { description: message });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (!gaugeable) {
+    return (
+      <p className={cn("font-mono text-xs text-[#6B7280] dark:text-slate-500", className)}>
+        Build a position tolerance at MMC on a feature of size to design its functional gauge.
+      </p>
+    );
+  }
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      {/* Allowances */}
+      <div className="grid grid-cols-2 gap-3">
+        <label className="flex flex-col gap-1" title="Gauge-maker tolerance as a share of the part tolerance">
+          <span className={labelClass}>GAUGE TOL %</span>
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={gaugeShare ?? ""}
+            onChange={(e) => setGaugeShare(parseField(e.target.value))}
+            className={cn(inputClass, "w-full tabular-nums")}
+          />
+        </label>
+        <label className="flex flex-col gap-1" title="Wear allowance as a share of the part tolerance">
+          <span className={labelClass}>WEAR %</span>
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={wearShare ?? ""}
+            onChange={(e) => setWearShare(parseField(e.target.value))}
+            className={cn(inputClass, "w-full tabular-nums")}
+          />
+        </label>
+      </div>
+
+      {/* Datum features at MMB */}
+      {mmbDatums.map((datum) => {
+        const size = datumSizes[datum.id];
+        return (
+          <div key={datum.id} className="grid grid-cols-4 gap-3">
+            <label className="flex flex-col gap-1">
+              <span className={labelClass}>DATUM {datum.id}</span>
+              <select
+                value={size?.featureType ?? "hole"}
+                onChange={(e) => updateDatum(datum.id, { featureType: e.target.value as DatumSize["featureType"] })}
+                className={inputClass}
+              >
+                <option value="hole">Hole</option>
+                <option value="pin">Pin</option>
+              </select>
+            </label>
+            {(["nominal", "tolerancePlus", "toleranceMinus"] as const).map((key) => (
+              <label key={key} className="flex flex-col gap-1">
+                <span className={labelClass}>{key === "nominal" ? "SIZE" : key === "tolerancePlus" ? "+" : "-"}</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={fcf.sourceUnit === "inch" ? 0.001 : 0.01}
+                  value={size?.[key] ?? ""}
+                  onChange={(e) => updateDatum(datum.id, { [key]: parseField(e.target.value) })}
+                  className={cn(inputClass, "w-full tabular-nums")}
+                />
+              </label>
+            ))}
+          </div>
+        );
+      })}
+
+      {/* Design */}
+      {!response ? (
+        <p className="font-mono text-xs text-[#6B7280] dark:text-slate-500">
+          Enter the allowances{mmbDatums.length > 0 && " and datum feature sizes"} to size the gauge.
+        </p>
+      ) : response.success ? (
+        <div className="space-y-2">
+          <p
+            className={cn(
+              "flex items-center gap-1.5 font-mono text-xs",
+              response.result.status === "pass" ? "text-success-500" : "text-warning-500"
+            )}
+          >
+            {response.result.status === "pass" ? (
+              <CheckCircle2 className="w-3 h-3" />
+            ) : (
+              <AlertCircle className="w-3 h-3" />
+            )}
+            Gauge takes {response.result.maxToleranceShare.toFixed(1)}% of the part tolerance
+          </p>
+          {response.result.elements.map((element) => (
+            <div
+              key={element.label}
+              className="flex items-center justify-between px-3 py-2 border border-slate-200 dark:border-slate-800"
+            >
+              <span className="font-mono text-xs text-slate-600 dark:text-slate-400">
+                {element.label} · {element.quantity > 1 && `${element.quantity}X `}
+                {element.elementType}
+              </span>
+              <span className="font-mono text-sm text-slate-900 dark:text-white tabular-nums">
+                Ø{element.minSize.toFixed(4)}-{element.maxSize.toFixed(4)}
+              </span>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={exporting}
+            className="flex items-center gap-1.5 px-3 py-1.5 font-mono text-[10px] tracking-widest border border-accent-500 text-accent-500 hover:bg-accent-500/10 disabled:opacity-50 transition-colors"
+          >
+            {exporting ? <Loader2 className="w-3 h-3 animate-spin" /> : <FileText className="w-3 h-3" />}
+            EXPORT SPEC SHEET
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-1">
+          {response.errors.map((error) => (
+            <p key={error.field ?? error.code} className="flex items-center gap-1.5 font-mono text-xs text-error-500">
+              <AlertCircle className="w-3 h-3" />
+              {error.message}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
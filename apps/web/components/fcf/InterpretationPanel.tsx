@@ -17,13 +17,17 @@ import {
 } from "lucide-react";
 import { cn } from "@/lib/utils/cn";
 import type { FcfJson } from "@/lib/fcf/schema";
-import type { InterpretFcfResponse, InterpretFcfSuccess } from "@/lib/ai/types";
+import { explainDatumReferenceFrame, type DatumFeature } from "@/lib/fcf/datums";
+import type { CalcResult, InterpretFcfResponse, InterpretFcfSuccess } from "@/lib/ai/types";
+import type { DatumShiftResult, FlatnessResult, RoundnessFitMethod } from "@/lib/calc/types";
 import { ValidationPanel } from "@/components/gdt/ValidationMessage";
 
 const MAX_INTERPRETATIONS_PER_FCF = 3;
 
 interface InterpretationPanelProps {
   fcf: Partial<FcfJson>;
+  /** Datum feature catalog sent with the request so the explanation can name constrained DOF */
+  datumCatalog?: DatumFeature[];
   isValid?: boolean;
   onClose?: () => void;
   className?: string;
@@ -117,6 +121,16 @@ function renderInlineFormatting(text: string): React.ReactNode[] {
   );
 }
 
+/**
+ * Explain where a datum feature's shift comes from and whether it was added.
+ */
+function datumShiftDescription(datum: DatumShiftResult): string {
+  const boundary = datum.materialCondition === "LMC" ? "LMB" : "MMB";
+  return datum.appliedToZone
+    ? `Datum ${datum.id} at ${datum.actualSize} departs from its ${boundary} of ${datum.materialBoundary}`
+    : `Rotation about the preceding datums only; not added to the zone`;
+}
+
 interface CalculationDisplay {
   name: string;
   value: number;
@@ -125,6 +139,62 @@ interface CalculationDisplay {
   formula?: string;
 }
 
+const roundnessReferences: Record<RoundnessFitMethod, string> = {
+  "minimum-zone": "minimum-zone",
+  "least-squares": "least-squares",
+  "maximum-inscribed": "maximum inscribed",
+  "minimum-circumscribed": "minimum circumscribed",
+};
+
+/**
+ * Zone width and reference geometry for the form calculators that evaluate
+ * raw points (straightness, circularity, cylindricity).
+ */
+function formCalculations(calcResult: CalcResult, unit: string): CalculationDisplay[] {
+  switch (calcResult.characteristic) {
+    case "straightness": {
+      const { result } = calcResult;
+      return [
+        { name: "Tolerance Zone", value: result.statedTolerance, unit, description: "Distance between parallel lines" },
+        {
+          name: "Measured Straightness",
+          value: result.measuredStraightness,
+          unit,
+          description: `Parallel to the ${result.fitMethod} line`,
+        },
+      ];
+    }
+    case "circularity": {
+      const { result } = calcResult;
+      return [
+        { name: "Tolerance Zone", value: result.statedTolerance, unit, description: "Radial distance between concentric circles" },
+        {
+          name: "Measured Circularity",
+          value: result.measuredCircularity,
+          unit,
+          description: `About the ${roundnessReferences[result.fitMethod]} center (${result.center.x}, ${result.center.y})`,
+        },
+        { name: "Reference Radius", value: result.radius, unit },
+      ];
+    }
+    case "cylindricity": {
+      const { result } = calcResult;
+      return [
+        { name: "Tolerance Zone", value: result.statedTolerance, unit, description: "Radial distance between coaxial cylinders" },
+        {
+          name: "Measured Cylindricity",
+          value: result.measuredCylindricity,
+          unit,
+          description: `About the ${roundnessReferences[result.fitMethod]} axis over ${result.sectionCount} sections`,
+        },
+        { name: "Reference Radius", value: result.radius, unit },
+      ];
+    }
+    default:
+      return [];
+  }
+}
+
 // Technical sub-panel
 function SubPanel({
   children,
@@ -168,6 +238,7 @@ function SubPanel({
 
 export default function InterpretationPanel({
   fcf,
+  datumCatalog,
   isValid = false,
   onClose,
   className,
@@ -206,7 +277,7 @@ export default function InterpretationPanel({
       const response = await fetch("/api/fcf/interpret", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ fcf }),
+        body: JSON.stringify({ fcf, ...(datumCatalog?.length && { datumCatalog }) }),
       });
 
       const data: InterpretFcfResponse = await response.json();
@@ -223,7 +294,7 @@ export default function InterpretationPanel({
     } finally {
       setIsLoading(false);
     }
-  }, [fcf, canInterpret]);
+  }, [fcf, datumCatalog, canInterpret]);
 
   /**
    * Copy interpretation as plain text to clipboard
@@ -306,7 +377,7 @@ export default function InterpretationPanel({
     const unit = fcf.sourceUnit || "mm";
 
     if (characteristic === "position") {
-      const posResult = calcRes as { statedTolerance: number; bonusTolerance?: number; virtualCondition?: number; totalAllowableTolerance?: number };
+      const posResult = calcRes as { statedTolerance: number; bonusTolerance?: number; virtualCondition?: number; totalAllowableTolerance?: number; datumShift?: DatumShiftResult[]; allowableWithDatumShift?: number };
       calculations.push({ name: "Stated Tolerance", value: posResult.statedTolerance, unit });
       if (posResult.bonusTolerance && posResult.bonusTolerance > 0) {
         calculations.push({ name: "Bonus Tolerance", value: posResult.bonusTolerance, unit });
@@ -314,6 +385,14 @@ export default function InterpretationPanel({
       if (posResult.totalAllowableTolerance) {
         calculations.push({ name: "Total Allowable", value: posResult.totalAllowableTolerance, unit });
       }
+      posResult.datumShift?.forEach((datum) => {
+        if (datum.shift > 0) {
+          calculations.push({ name: `Datum Shift ${datum.id}`, value: datum.shift, unit, description: datumShiftDescription(datum) });
+        }
+      });
+      if (posResult.allowableWithDatumShift && posResult.allowableWithDatumShift !== posResult.totalAllowableTolerance) {
+        calculations.push({ name: "Allowable With Datum Shift", value: posResult.allowableWithDatumShift, unit });
+      }
       if (posResult.virtualCondition) {
         calculations.push({ name: "Virtual Condition", value: posResult.virtualCondition, unit });
       }
@@ -326,6 +405,8 @@ export default function InterpretationPanel({
       if (perpResult.bonusTolerance && perpResult.bonusTolerance > 0) {
         calculations.push({ name: "Bonus Tolerance", value: perpResult.bonusTolerance, unit });
       }
+    } else {
+      calculations.push(...formCalculations(result.calcResult, unit));
     }
 
     return calculations;
@@ -340,7 +421,7 @@ export default function InterpretationPanel({
     const unit = fcf.sourceUnit || "mm";
 
     if (characteristic === "position") {
-      const posResult = calcRes as { statedTolerance: number; bonusTolerance?: number; virtualCondition?: number; totalAllowableTolerance?: number };
+      const posResult = calcRes as { statedTolerance: number; bonusTolerance?: number; virtualCondition?: number; totalAllowableTolerance?: number; datumShift?: DatumShiftResult[]; allowableWithDatumShift?: number };
       calculations.push({
         name: "Stated Tolerance",
         value: posResult.statedTolerance,
@@ -363,6 +444,25 @@ export default function InterpretationPanel({
           description: "Stated + bonus tolerance",
         });
       }
+      // Datum shift is reported apart from bonus: it moves the frame, not the zone size
+      posResult.datumShift?.forEach((datum) => {
+        if (datum.shift > 0) {
+          calculations.push({
+            name: `Datum Shift ${datum.id}`,
+            value: datum.shift,
+            unit,
+            description: datumShiftDescription(datum),
+          });
+        }
+      });
+      if (posResult.allowableWithDatumShift && posResult.allowableWithDatumShift !== posResult.totalAllowableTolerance) {
+        calculations.push({
+          name: "Allowable With Datum Shift",
+          value: posResult.allowableWithDatumShift,
+          unit,
+          description: "Pattern shifts as a group relative to the datum",
+        });
+      }
       if (posResult.virtualCondition) {
         calculations.push({
           name: "Virtual Condition",
@@ -372,13 +472,26 @@ export default function InterpretationPanel({
         });
       }
     } else if (characteristic === "flatness") {
-      const flatResult = calcRes as { statedTolerance: number; measuredFlatness?: number };
+      const flatResult = calcRes as Partial<FlatnessResult> & { statedTolerance: number };
       calculations.push({
         name: "Tolerance Zone",
         value: flatResult.statedTolerance,
         unit,
         description: "Distance between parallel planes",
       });
+      if (flatResult.measuredFlatness !== undefined) {
+        calculations.push({
+          name: "Measured Flatness",
+          value: flatResult.measuredFlatness,
+          unit,
+          description:
+            flatResult.fitMethod === "minimum-zone"
+              ? "Closest pair of parallel planes (minimum zone)"
+              : flatResult.fitMethod
+              ? `Planes parallel to the ${flatResult.fitMethod.replace("-", " ")} plane`
+              : "Total indicator reading",
+        });
+      }
     } else if (characteristic === "perpendicularity") {
       const perpResult = calcRes as { statedTolerance: number; bonusTolerance?: number; totalAllowableTolerance?: number };
       calculations.push({
@@ -395,6 +508,8 @@ export default function InterpretationPanel({
           description: "Additional tolerance from MMC departure",
         });
       }
+    } else {
+      calculations.push(...formCalculations(result.calcResult, unit));
     }
 
     return calculations;
@@ -586,6 +701,19 @@ export default function InterpretationPanel({
               </div>
             </SubPanel>
 
+            {/* Datum reference frame */}
+            {result.datumFrame && (
+              <SubPanel label="DATUM REFERENCE FRAME">
+                <ul className="p-3 space-y-1">
+                  {explainDatumReferenceFrame(result.datumFrame).map((line, index) => (
+                    <li key={index} className="font-mono text-sm text-[#374151] dark:text-slate-300">
+                      {line}
+                    </li>
+                  ))}
+                </ul>
+              </SubPanel>
+            )}
+
             {/* Calculations */}
             {calculations.length > 0 && (
               <SubPanel
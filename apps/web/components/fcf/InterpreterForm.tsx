@@ -1,8 +1,193 @@
-export default function InterpreterForm() {
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, Braces, Type, Wrench } from "lucide-react";
+import { cn } from "@/lib/utils/cn";
+import { fcfJsonSchema, type FcfJson } from "@/lib/fcf/schema";
+import { serializeNotation, tryParseNotation, type NotationParseError } from "@/lib/fcf/notation";
+import FcfBuilderPanel from "@/components/fcf/FcfBuilderPanel";
+
+export type InterpreterInputMode = "builder" | "json" | "text";
+
+interface InterpreterFormProps {
+  fcf: Partial<FcfJson>;
+  onChange: (fcf: Partial<FcfJson>) => void;
+  className?: string;
+}
+
+const MODES: { id: InterpreterInputMode; label: string; icon: React.ElementType }[] = [
+  { id: "builder", label: "BUILDER", icon: Wrench },
+  { id: "json", label: "JSON", icon: Braces },
+  { id: "text", label: "TEXT", icon: Type },
+];
+
+const TEXT_PLACEHOLDER = "4X ⊕|⌀0.2Ⓜ|A|B|C\n\nor ASCII: POS DIA .008 (M) A B C";
+
+/** A frame complete enough to serialize back to text */
+function isCompleteFcf(fcf: Partial<FcfJson>): fcf is FcfJson {
+  return fcfJsonSchema.safeParse(fcf).success;
+}
+
+function formatZodPath(path: (string | number)[]): string {
+  return path.reduce<string>(
+    (acc, key) => (typeof key === "number" ? `${acc}[${key}]` : acc ? `${acc}.${key}` : key),
+    ""
+  );
+}
+
+/**
+ * Input for the interpreter: build a frame, paste canonical JSON, or type
+ * compact text notation. Each mode emits the same FCF JSON.
+ */
+export default function InterpreterForm({ fcf, onChange, className }: InterpreterFormProps) {
+  const [mode, setMode] = useState<InterpreterInputMode>("text");
+  const [text, setText] = useState("");
+  const [json, setJson] = useState("");
+  const [textError, setTextError] = useState<NotationParseError | null>(null);
+  const [jsonErrors, setJsonErrors] = useState<string[]>([]);
+
+  // Carry the current frame across when switching modes
+  const handleModeChange = (next: InterpreterInputMode) => {
+    if (next === mode) return;
+    if (next === "text" && isCompleteFcf(fcf)) {
+      setText(serializeNotation(fcf));
+      setTextError(null);
+    }
+    if (next === "json" && fcf.characteristic) {
+      setJson(JSON.stringify(fcf, null, 2));
+      setJsonErrors([]);
+    }
+    setMode(next);
+  };
+
+  const handleTextChange = (value: string) => {
+    setText(value);
+    if (!value.trim()) {
+      setTextError(null);
+      return;
+    }
+    const result = tryParseNotation(value, { featureType: fcf.featureType });
+    if (result.ok) {
+      setTextError(null);
+      onChange({ ...result.fcf, source: { inputType: "text", notes: value } });
+    } else {
+      setTextError(result.error);
+    }
+  };
+
+  const handleJsonChange = (value: string) => {
+    setJson(value);
+    if (!value.trim()) {
+      setJsonErrors([]);
+      return;
+    }
+    let raw: unknown;
+    try {
+      raw = JSON.parse(value);
+    } catch (error) {
+      setJsonErrors([error instanceof Error ? error.message : "Invalid JSON"]);
+      return;
+    }
+    const parsed = fcfJsonSchema.safeParse(raw);
+    if (parsed.success) {
+      setJsonErrors([]);
+      onChange({ ...parsed.data, source: { ...parsed.data.source, inputType: "json" } });
+    } else {
+      setJsonErrors(parsed.error.issues.map((issue) => `${formatZodPath(issue.path) || "(root)"}: ${issue.message}`));
+    }
+  };
+
+  const errorLine = textError ? text.split("\n")[textError.line - 1] ?? "" : "";
+  const normalized = mode === "text" && !textError && text.trim() && isCompleteFcf(fcf) ? serializeNotation(fcf) : null;
+
   return (
-    <section>
-      <h3>Interpreter Form</h3>
-      <p>Paste or load FCF data for interpretation.</p>
-    </section>
+    <div className={cn("space-y-4", className)}>
+      {/* Mode toggle */}
+      <div className="flex items-center gap-1 border-b border-slate-200/50 dark:border-slate-800/50">
+        {MODES.map((item) => {
+          const Icon = item.icon;
+          return (
+            <button
+              key={item.id}
+              type="button"
+              onClick={() => handleModeChange(item.id)}
+              className={cn(
+                "flex items-center gap-2 px-3 py-2 font-mono text-xs transition-all",
+                mode === item.id
+                  ? "bg-accent-500/10 text-accent-500 border-b-2 border-accent-500"
+                  : "text-slate-500 hover:text-slate-700 dark:hover:text-slate-300"
+              )}
+            >
+              <Icon className="w-3.5 h-3.5" />
+              {item.label}
+            </button>
+          );
+        })}
+      </div>
+
+      {mode === "builder" && (
+        <FcfBuilderPanel
+          initialFcf={fcf}
+          onChange={(next) => onChange({ ...next, source: { inputType: "builder" } })}
+        />
+      )}
+
+      {mode === "json" && (
+        <div className="space-y-2">
+          <textarea
+            value={json}
+            onChange={(e) => handleJsonChange(e.target.value)}
+            spellCheck={false}
+            rows={14}
+            placeholder='{ "characteristic": "position", ... }'
+            className="w-full p-3 font-mono text-xs bg-slate-50 dark:bg-slate-950/50 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-slate-200 focus:outline-none focus:border-accent-500"
+          />
+          {jsonErrors.length > 0 && (
+            <div className="p-3 bg-error-500/10 border border-error-500/20 space-y-1" role="alert">
+              {jsonErrors.map((message, i) => (
+                <p key={i} className="flex items-start gap-2 font-mono text-xs text-error-500">
+                  <AlertCircle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+                  {message}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {mode === "text" && (
+        <div className="space-y-2">
+          <textarea
+            value={text}
+            onChange={(e) => handleTextChange(e.target.value)}
+            spellCheck={false}
+            rows={4}
+            placeholder={TEXT_PLACEHOLDER}
+            className="w-full p-3 font-mono text-sm bg-slate-50 dark:bg-slate-950/50 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-slate-200 focus:outline-none focus:border-accent-500"
+          />
+          <p className="font-mono text-[10px] text-slate-500">
+            One row per line. Lower rows without a symbol form a composite frame.
+          </p>
+          {textError && (
+            <div className="p-3 bg-error-500/10 border border-error-500/20" role="alert">
+              <p className="flex items-center gap-2 font-mono text-xs text-error-500">
+                <AlertCircle className="w-3.5 h-3.5 flex-shrink-0" />
+                Line {textError.line}, column {textError.column}: {textError.message}
+              </p>
+              <pre className="mt-2 font-mono text-xs text-slate-600 dark:text-slate-300 whitespace-pre overflow-x-auto">
+                {errorLine}
+                {"\n"}
+                <span className="text-error-500">{" ".repeat(textError.column - 1)}^</span>
+              </pre>
+            </div>
+          )}
+          {normalized && (
+            <p className="font-mono text-xs text-slate-500">
+              Reads as: <span className="text-slate-700 dark:text-slate-200">{normalized}</span>
+            </p>
+          )}
+        </div>
+      )}
+    </div>
   );
 }
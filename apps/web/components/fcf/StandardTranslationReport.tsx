@@ -0,0 +1,82 @@
+"use client";
+
+import { ArrowRightLeft, CheckCircle2, AlertTriangle, HelpCircle, X } from "lucide-react";
+import { cn } from "@/lib/utils/cn";
+import type { FcfJson } from "@/lib/fcf/schema";
+import { STANDARD_LABELS, type StandardTranslation, type TranslationNote } from "@/lib/fcf/standards";
+
+interface StandardTranslationReportProps {
+  translation: StandardTranslation<Partial<FcfJson>>;
+  onDismiss?: () => void;
+  className?: string;
+}
+
+const NOTE_STYLES: Record<TranslationNote["kind"], { icon: typeof CheckCircle2; label: string; className: string }> = {
+  meaningChange: { icon: AlertTriangle, label: "Meaning changes", className: "text-warning-500" },
+  review: { icon: HelpCircle, label: "Needs review", className: "text-primary-500" },
+  converted: { icon: CheckCircle2, label: "Converted", className: "text-success-500" },
+};
+
+const NOTE_ORDER: TranslationNote["kind"][] = ["meaningChange", "review", "converted"];
+
+/**
+ * Report shown after switching a frame between ASME Y14.5 and ISO 1101.
+ */
+export default function StandardTranslationReport({
+  translation,
+  onDismiss,
+  className,
+}: StandardTranslationReportProps) {
+  const notes = [...translation.notes].sort((a, b) => NOTE_ORDER.indexOf(a.kind) - NOTE_ORDER.indexOf(b.kind));
+
+  return (
+    <div className={cn("border border-[#E5E7EB] dark:border-slate-800 bg-white dark:bg-slate-900/40", className)}>
+      <div className="flex items-center justify-between px-4 py-3 border-b border-[#E5E7EB] dark:border-slate-800/50">
+        <div className="flex items-center gap-2">
+          <ArrowRightLeft className="w-4 h-4 text-accent-500" />
+          <span className="font-mono text-xs text-[#374151] dark:text-slate-300">
+            {STANDARD_LABELS[translation.from]} → {STANDARD_LABELS[translation.to]}
+          </span>
+        </div>
+        {onDismiss && (
+          <button
+            type="button"
+            onClick={onDismiss}
+            className="text-[#6B7280] dark:text-slate-500 hover:text-[#111827] dark:hover:text-slate-300"
+            aria-label="Dismiss translation report"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      <div className="p-4 space-y-3">
+        {notes.length === 0 ? (
+          <p className="text-sm text-[#6B7280] dark:text-slate-500">
+            No notation changes; the frame reads the same under both standards.
+          </p>
+        ) : (
+          notes.map((note, index) => {
+            const style = NOTE_STYLES[note.kind];
+            const Icon = style.icon;
+            return (
+              <div key={`${note.topic}-${index}`} className="flex items-start gap-3">
+                <Icon className={cn("w-4 h-4 flex-shrink-0 mt-0.5", style.className)} />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className={cn("text-xs font-mono", style.className)}>{style.label}</span>
+                    <span className="text-sm font-medium text-[#111827] dark:text-slate-200">{note.topic}</span>
+                    {note.path && (
+                      <span className="text-xs font-mono text-[#9CA3AF] dark:text-slate-600">{note.path}</span>
+                    )}
+                  </div>
+                  <p className="text-sm text-[#374151] dark:text-slate-400 mt-1">{note.detail}</p>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
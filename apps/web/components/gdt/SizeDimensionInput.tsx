@@ -5,7 +5,7 @@ import { Info } from "lucide-react";
 import { cn } from "@/lib/utils/cn";
 import type { Unit, FeatureType } from "@/lib/fcf/schema";
 import type { SizeDimensionInput as SizeDimensionType } from "@/lib/calc/types";
-import { calculateSizeLimits } from "@/lib/calc/position";
+import { calculateSizeLimits } from "@/lib/calc/size";
 
 type ToleranceNotation = "symmetric" | "asymmetric" | "limits";
 
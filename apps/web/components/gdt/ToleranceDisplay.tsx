@@ -3,6 +3,7 @@
 import { cn } from "@/lib/utils/cn";
 import type { ToleranceZone, Unit } from "@/lib/fcf/schema";
 import { GDT_SYMBOLS } from "@/lib/constants/gdt-symbols";
+import { convertValue, displayDecimals, UNIT_LABELS } from "@/lib/util/units";
 import MaterialConditionBadge from "./MaterialConditionBadge";
 
 interface ToleranceDisplayProps {
@@ -27,23 +28,6 @@ const valueSizeClasses = {
   lg: "text-2xl",
 };
 
-/**
- * Convert value between units
- */
-function convertUnit(value: number, from: Unit, to: Unit): number {
-  if (from === to) return value;
-  if (from === "mm" && to === "inch") return value / 25.4;
-  if (from === "inch" && to === "mm") return value * 25.4;
-  return value;
-}
-
-/**
- * Format a numeric value with specified decimals
- */
-function formatValue(value: number, decimals: number): string {
-  return value.toFixed(decimals);
-}
-
 export default function ToleranceDisplay({
   tolerance,
   sourceUnit = "mm",
@@ -56,12 +40,10 @@ export default function ToleranceDisplay({
   const unit = tolerance.unit ?? sourceUnit;
   const targetUnit = displayUnit ?? unit;
 
-  const primaryValue = displayUnit
-    ? convertUnit(tolerance.value, unit, targetUnit)
-    : tolerance.value;
-
-  const secondaryValue = dualDisplay
-    ? convertUnit(tolerance.value, unit, targetUnit === "mm" ? "inch" : "mm")
+  const otherUnit: Unit = targetUnit === "mm" ? "inch" : "mm";
+  const primary = convertValue(tolerance.value, unit, targetUnit, decimals);
+  const secondary = dualDisplay
+    ? convertValue(tolerance.value, unit, otherUnit, displayDecimals(otherUnit, { unit: targetUnit, decimals }))
     : null;
 
   return (
@@ -80,13 +62,17 @@ export default function ToleranceDisplay({
       )}
 
       {/* Primary value */}
-      <span className={cn("font-bold text-[#111827] dark:text-slate-50", valueSizeClasses[size])}>
-        {formatValue(primaryValue, decimals)}
+      <span
+        className={cn("font-bold text-[#111827] dark:text-slate-50", valueSizeClasses[size])}
+        title={primary.precisionLost ? `Precision lost converting from ${UNIT_LABELS[unit]}` : undefined}
+      >
+        {primary.value.toFixed(primary.decimals)}
+        {primary.precisionLost && <span className="text-warning-500">*</span>}
       </span>
 
       {/* Unit */}
       <span className="text-[#6B7280] dark:text-slate-400 text-sm">
-        {targetUnit}
+        {UNIT_LABELS[targetUnit]}
       </span>
 
       {/* Material condition */}
@@ -98,10 +84,9 @@ export default function ToleranceDisplay({
       )}
 
       {/* Dual display (secondary unit) */}
-      {dualDisplay && secondaryValue !== null && (
+      {secondary && (
         <span className="text-[#9CA3AF] dark:text-slate-500 text-sm">
-          ({formatValue(secondaryValue, decimals)}{" "}
-          {targetUnit === "mm" ? "in" : "mm"})
+          ({secondary.value.toFixed(secondary.decimals)} {UNIT_LABELS[otherUnit]})
         </span>
       )}
     </div>
@@ -1,14 +1,29 @@
 "use client";
 
-import { AlertCircle, AlertTriangle, CheckCircle2, Info, X, ChevronDown, ChevronUp } from "lucide-react";
+import {
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle2,
+  Info,
+  X,
+  ChevronDown,
+  ChevronUp,
+  Wrench,
+  HelpCircle,
+  ExternalLink,
+} from "lucide-react";
+import Link from "next/link";
 import { useState } from "react";
 import { cn } from "@/lib/utils/cn";
+import { formatStandardReference, ruleArticleHref } from "@/lib/content/ruleArticles";
 import type { ValidationIssue, Severity } from "@/lib/rules/validateFcf";
+import type { AppliedRuleProfile } from "@/lib/rules/ruleProfiles";
 
 interface ValidationMessageProps {
   issue: ValidationIssue;
   dismissable?: boolean;
   onDismiss?: () => void;
+  onFix?: (issue: ValidationIssue) => void;
   expanded?: boolean;
   className?: string;
 }
@@ -34,10 +49,12 @@ export default function ValidationMessage({
   issue,
   dismissable = false,
   onDismiss,
+  onFix,
   expanded: initialExpanded = false,
   className,
 }: ValidationMessageProps) {
   const [expanded, setExpanded] = useState(initialExpanded);
+  const [showWhy, setShowWhy] = useState(false);
   const config = severityConfig[issue.severity];
   const Icon = config.icon;
 
@@ -102,8 +119,80 @@ export default function ValidationMessage({
             )}
           </div>
         )}
+
+        {/* Why? - rule rationale and standard references */}
+        {issue.context?.rationale && (
+          <div className="mt-2">
+            <button
+              onClick={() => setShowWhy(!showWhy)}
+              className="flex items-center gap-1 text-xs text-[#6B7280] dark:text-slate-400 hover:text-[#374151] dark:hover:text-slate-300 transition-colors"
+              aria-expanded={showWhy}
+            >
+              <HelpCircle className="w-3 h-3" />
+              Why?
+            </button>
+            {showWhy && (
+              <div className="mt-2 p-2 space-y-2 bg-[#F9FAFB] dark:bg-slate-800/50 border border-[#E5E7EB] dark:border-slate-700">
+                <p className="text-sm text-[#374151] dark:text-slate-300">{issue.context.rationale}</p>
+
+                {issue.context.references && issue.context.references.length > 0 && (
+                  <ul className="space-y-0.5">
+                    {issue.context.references.map((reference) => (
+                      <li
+                        key={formatStandardReference(reference)}
+                        className="font-mono text-[10px] text-[#6B7280] dark:text-slate-500"
+                      >
+                        {formatStandardReference(reference)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {issue.context.examples && (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {(
+                      [
+                        ["OK", issue.context.examples.good, "text-success-500"],
+                        ["REPORTED", issue.context.examples.bad, "text-error-500"],
+                      ] as const
+                    ).map(([label, example, labelClass]) => (
+                      <div key={label} className="p-2 border border-[#E5E7EB] dark:border-slate-700">
+                        <span className={cn("font-mono text-[10px]", labelClass)}>{label}</span>
+                        <pre className="mt-1 font-mono text-xs text-[#111827] dark:text-slate-200 whitespace-pre">
+                          {example.frame}
+                        </pre>
+                        <p className="mt-1 text-xs text-[#6B7280] dark:text-slate-400">{example.note}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <Link
+                  href={ruleArticleHref(issue.code)}
+                  target="_blank"
+                  className="inline-flex items-center gap-1 text-xs text-accent-500 hover:text-accent-400"
+                >
+                  Read more about {issue.code}
+                  <ExternalLink className="w-3 h-3" />
+                </Link>
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
+      {/* Fix button */}
+      {issue.fix && onFix && (
+        <button
+          onClick={() => onFix(issue)}
+          className="flex items-center gap-1 px-2 py-1 text-xs font-medium border border-[#E5E7EB] dark:border-slate-700 text-[#374151] dark:text-slate-300 hover:border-accent-500 hover:text-accent-500 transition-colors"
+          title={issue.fix.description}
+        >
+          <Wrench className="w-3 h-3" />
+          Fix
+        </button>
+      )}
+
       {/* Dismiss button */}
       {dismissable && onDismiss && (
         <button
@@ -126,18 +215,26 @@ export function ValidationPanel({
   title = "Validation Results",
   collapsible = true,
   defaultExpanded = true,
+  onFix,
+  onFixAll,
+  profile,
   className,
 }: {
   issues: ValidationIssue[];
   title?: string;
   collapsible?: boolean;
   defaultExpanded?: boolean;
+  onFix?: (issue: ValidationIssue) => void;
+  onFixAll?: (issues: ValidationIssue[]) => void;
+  /** Rule profile the issues were produced under */
+  profile?: AppliedRuleProfile;
   className?: string;
 }) {
   const [expanded, setExpanded] = useState(defaultExpanded);
 
   const errors = issues.filter((i) => i.severity === "error");
   const warnings = issues.filter((i) => i.severity === "warning");
+  const fixable = issues.filter((i) => i.fix);
   const isValid = errors.length === 0;
 
   return (
@@ -162,6 +259,15 @@ export function ValidationPanel({
             <AlertCircle className="w-5 h-5 text-error-500" />
           )}
           <span className="font-medium text-[#111827] dark:text-slate-200">{title}</span>
+          {profile && (
+            <span
+              className="px-1.5 py-0.5 text-xs font-mono border border-[#E5E7EB] dark:border-slate-700 text-[#6B7280] dark:text-slate-400"
+              title={`${profile.overrideCount} rule override${profile.overrideCount !== 1 ? "s" : ""}${profile.strict ? ", warnings reported as errors" : ""}`}
+            >
+              {profile.name}
+              {profile.strict && " · strict"}
+            </span>
+          )}
         </div>
 
         <div className="flex items-center gap-3">
@@ -195,11 +301,22 @@ export function ValidationPanel({
       {/* Issues list */}
       {expanded && issues.length > 0 && (
         <div className="p-4 space-y-3 bg-[#F9FAFB] dark:bg-slate-900/50">
+          {onFixAll && fixable.length > 0 && (
+            <div className="flex justify-end">
+              <button
+                onClick={() => onFixAll(fixable)}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium border border-accent-500/30 text-accent-500 hover:bg-accent-500/10 transition-colors"
+              >
+                <Wrench className="w-3.5 h-3.5" />
+                Fix all ({fixable.length})
+              </button>
+            </div>
+          )}
           {errors.map((issue, index) => (
-            <ValidationMessage key={`error-${index}`} issue={issue} />
+            <ValidationMessage key={`error-${index}`} issue={issue} onFix={onFix} />
           ))}
           {warnings.map((issue, index) => (
-            <ValidationMessage key={`warning-${index}`} issue={issue} />
+            <ValidationMessage key={`warning-${index}`} issue={issue} onFix={onFix} />
           ))}
         </div>
       )}
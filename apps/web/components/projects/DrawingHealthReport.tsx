@@ -0,0 +1,141 @@
+"use client";
+
+import { AlertCircle, AlertTriangle, CheckCircle2, Info } from "lucide-react";
+import { cn } from "@/lib/utils/cn";
+import type { ProjectValidationResult } from "@/lib/rules/validateProject";
+import { ValidationStatus } from "@/components/gdt/ValidationMessage";
+
+interface DrawingHealthReportProps {
+  result: ProjectValidationResult;
+  /** Display names for the validated frames, in the same order */
+  frameNames: string[];
+  onSelectFrame?: (index: number) => void;
+  className?: string;
+}
+
+/**
+ * Drawing-level health report: cross-FCF issues plus a per-frame status summary.
+ */
+export default function DrawingHealthReport({
+  result,
+  frameNames,
+  onSelectFrame,
+  className,
+}: DrawingHealthReportProps) {
+  const { summary } = result;
+  const healthy = result.valid && result.warnings.length === 0;
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      {/* Summary */}
+      <div
+        className={cn(
+          "flex items-center justify-between rounded-lg border p-4",
+          result.valid
+            ? "bg-success-500/10 border-success-500/20"
+            : "bg-error-500/10 border-error-500/20"
+        )}
+      >
+        <div className="flex items-center gap-3">
+          {result.valid ? (
+            <CheckCircle2 className="w-5 h-5 text-success-500" />
+          ) : (
+            <AlertCircle className="w-5 h-5 text-error-500" />
+          )}
+          <div>
+            <p className="font-mono font-semibold text-slate-200">
+              {healthy ? "Drawing is consistent" : result.valid ? "Drawing has warnings" : "Drawing has errors"}
+            </p>
+            <p className="text-xs text-slate-500">
+              {summary.frameCount} frame{summary.frameCount !== 1 ? "s" : ""} checked ·{" "}
+              {summary.framesWithErrors} with frame-level errors
+              {result.profile && <> · rule profile: {result.profile.name}{result.profile.strict && " (strict)"}</>}
+            </p>
+          </div>
+        </div>
+        <ValidationStatus
+          valid={result.errors.length === 0}
+          errorCount={summary.errorCount}
+          warningCount={summary.warningCount}
+        />
+      </div>
+
+      {/* Cross-FCF issues */}
+      <div className="space-y-3">
+        <h3 className="font-mono font-semibold text-slate-200">Cross-frame checks</h3>
+        {result.issues.length === 0 ? (
+          <p className="text-sm text-slate-500">No cross-frame issues found</p>
+        ) : (
+          [...result.errors, ...result.warnings].map((issue, index) => {
+            const isError = issue.severity === "error";
+            const Icon = isError ? AlertCircle : AlertTriangle;
+            return (
+              <div
+                key={`${issue.code}-${index}`}
+                className={cn(
+                  "flex items-start gap-3 p-3 rounded-lg border",
+                  isError ? "bg-error-500/10 border-error-500/20" : "bg-warning-500/10 border-warning-500/20"
+                )}
+                role="alert"
+              >
+                <Icon className={cn("w-5 h-5 flex-shrink-0 mt-0.5", isError ? "text-error-500" : "text-warning-500")} />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span
+                      className={cn(
+                        "px-1.5 py-0.5 rounded text-xs font-mono font-medium",
+                        isError ? "bg-error-500/20 text-error-500" : "bg-warning-500/20 text-warning-500"
+                      )}
+                    >
+                      {issue.code}
+                    </span>
+                    <span className={cn("text-sm", isError ? "text-error-500" : "text-warning-500")}>
+                      {issue.message}
+                    </span>
+                  </div>
+                  {issue.context?.suggestion && (
+                    <p className="text-sm text-slate-300 mt-2">
+                      <Info className="w-3.5 h-3.5 inline mr-1 text-primary-500" />
+                      {issue.context.suggestion}
+                    </p>
+                  )}
+                  <div className="flex items-center gap-2 flex-wrap mt-2">
+                    {issue.fcfIndices.map((frameIndex) => (
+                      <button
+                        key={frameIndex}
+                        onClick={() => onSelectFrame?.(frameIndex)}
+                        className="px-2 py-0.5 text-xs font-mono bg-slate-800 text-slate-300 rounded hover:bg-slate-700 transition-colors"
+                      >
+                        {frameNames[frameIndex] ?? `Frame ${frameIndex + 1}`}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {/* Per-frame summary */}
+      <div className="space-y-2">
+        <h3 className="font-mono font-semibold text-slate-200">Frames</h3>
+        {result.frameResults.map((frameResult, index) => (
+          <button
+            key={index}
+            onClick={() => onSelectFrame?.(index)}
+            className="w-full flex items-center justify-between bg-slate-900/50 border border-slate-800 rounded-lg px-4 py-2 hover:border-slate-700 transition-colors"
+          >
+            <span className="text-sm text-slate-300">{frameNames[index] ?? `Frame ${index + 1}`}</span>
+            <ValidationStatus
+              valid={frameResult.valid}
+              errorCount={frameResult.summary.errorCount}
+              warningCount={frameResult.summary.warningCount}
+              size="sm"
+            />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2, SlidersHorizontal } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils/cn";
+import type { RuleProfile } from "@/lib/rules/ruleProfiles";
+import { getProjectRuleProfileId, getRuleProfiles, setProjectRuleProfile } from "@/lib/rules/profileActions";
+
+interface ProjectRuleProfileSelectProps {
+  projectId: string;
+  /** Called after the project's profile changed, to re-resolve it */
+  onChange?: () => void;
+  className?: string;
+}
+
+/**
+ * Attach one of the user's rule profiles to a project, or leave the project
+ * on the account default.
+ */
+export default function ProjectRuleProfileSelect({ projectId, onChange, className }: ProjectRuleProfileSelectProps) {
+  const [profiles, setProfiles] = useState<RuleProfile[]>([]);
+  const [defaultProfileId, setDefaultProfileId] = useState<string | null>(null);
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([getRuleProfiles(), getProjectRuleProfileId(projectId)])
+      .then(([result, attachedId]) => {
+        if (cancelled) return;
+        setProfiles(result.profiles);
+        setDefaultProfileId(result.defaultProfileId);
+        setProfileId(attachedId);
+      })
+      .catch((error) => {
+        console.error("Failed to load rule profiles:", error);
+        if (!cancelled) toast.error("Failed to load rule profiles");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const handleChange = async (value: string) => {
+    const next = value === "" ? null : value;
+    const previous = profileId;
+    setProfileId(next);
+    setIsSaving(true);
+    try {
+      const result = await setProjectRuleProfile(projectId, next);
+      if (!result.success) {
+        setProfileId(previous);
+        toast.error(result.error ?? "Failed to change rule profile");
+        return;
+      }
+      onChange?.();
+    } catch (error) {
+      console.error("Failed to change rule profile:", error);
+      setProfileId(previous);
+      toast.error("Failed to change rule profile");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const defaultName = profiles.find((profile) => profile.id === defaultProfileId)?.name ?? "my settings";
+
+  return (
+    <div className={cn("flex items-center gap-3", className)}>
+      <SlidersHorizontal className="w-4 h-4 text-slate-400" />
+      <span className="text-sm text-slate-400">Rule profile</span>
+      <select
+        value={profileId ?? ""}
+        onChange={(e) => handleChange(e.target.value)}
+        disabled={isLoading || isSaving}
+        className="bg-slate-900/50 border border-slate-800 rounded px-2 py-1 text-sm text-slate-200 disabled:opacity-50"
+      >
+        <option value="">Account default ({defaultName})</option>
+        {profiles.map((profile) => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}
+          </option>
+        ))}
+      </select>
+      {(isLoading || isSaving) && <Loader2 className="w-4 h-4 animate-spin text-slate-500" />}
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Loader2, Plus, Save, Star } from "lucide-react";
+import { cn } from "@/lib/utils/cn";
+import type { ErrorCode } from "@/lib/rules/errorCodes";
+import { getRules, type Severity } from "@/lib/rules/validateFcf";
+import {
+  DEFAULT_RULE_THRESHOLDS,
+  type RuleOverride,
+  type RuleProfile,
+} from "@/lib/rules/ruleProfiles";
+import { getRuleProfiles, saveRuleProfile, setDefaultRuleProfile } from "@/lib/rules/profileActions";
+
+const inputClass =
+  "bg-white dark:bg-slate-900/50 border border-[#E5E7EB] dark:border-slate-800 px-3 py-2 font-mono text-xs text-[#374151] dark:text-slate-300 focus:outline-none focus:ring-1 focus:ring-accent-500/50";
+
+const emptyProfile = (): RuleProfile => ({ name: "", overrides: {}, thresholds: {}, strict: false });
+
+/**
+ * Create and edit named rule profiles: per-code enable/severity overrides,
+ * rule thresholds and the account default.
+ */
+export default function RuleProfileEditor() {
+  const [profiles, setProfiles] = useState<RuleProfile[]>([]);
+  const [defaultProfileId, setDefaultProfileId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<RuleProfile>(emptyProfile);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // One row per code; several rules can share a code
+  const catalog = useMemo(() => {
+    const seen = new Map<ErrorCode, { description: string; severity: Severity }>();
+    getRules().forEach((rule) => {
+      if (!seen.has(rule.code)) seen.set(rule.code, { description: rule.description, severity: rule.severity });
+    });
+    return [...seen.entries()].sort(([a], [b]) => a.localeCompare(b));
+  }, []);
+
+  useEffect(() => {
+    getRuleProfiles().then((result) => {
+      setProfiles(result.profiles);
+      setDefaultProfileId(result.defaultProfileId);
+      if (result.profiles.length > 0) setDraft(result.profiles[0]);
+      setIsLoading(false);
+    });
+  }, []);
+
+  const updateOverride = (code: ErrorCode, override: RuleOverride) => {
+    setDraft((current) => {
+      const next = { ...current.overrides[code], ...override };
+      const overrides = { ...current.overrides };
+      if (next.enabled !== false && next.severity === undefined) {
+        delete overrides[code];
+      } else {
+        overrides[code] = next;
+      }
+      return { ...current, overrides };
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    const result = await saveRuleProfile(draft);
+    setIsSaving(false);
+    if (!result.success || !result.profile) {
+      setError(result.error ?? "Failed to save profile");
+      return;
+    }
+    const saved = result.profile;
+    setProfiles((current) => [...current.filter((p) => p.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+    setDraft(saved);
+  };
+
+  const handleSetDefault = async () => {
+    if (!draft.id) return;
+    const nextDefault = defaultProfileId === draft.id ? null : draft.id;
+    const result = await setDefaultRuleProfile(nextDefault);
+    if (result.success) {
+      setDefaultProfileId(nextDefault);
+    } else {
+      setError(result.error ?? "Failed to set default profile");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 p-4 font-mono text-xs text-[#6B7280] dark:text-slate-500">
+        <Loader2 className="w-3.5 h-3.5 animate-spin" />
+        Loading profiles...
+      </div>
+    );
+  }
+
+  const largeTolerance = draft.thresholds.largeTolerance ?? DEFAULT_RULE_THRESHOLDS.largeTolerance;
+
+  return (
+    <div className="p-4 space-y-6">
+      {/* Profile picker */}
+      <div className="flex items-center gap-2">
+        <select
+          value={draft.id ?? ""}
+          onChange={(e) => setDraft(profiles.find((p) => p.id === e.target.value) ?? emptyProfile())}
+          className={cn(inputClass, "flex-1")}
+        >
+          <option value="">New profile</option>
+          {profiles.map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}
+              {profile.id === defaultProfileId ? " (default)" : ""}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => setDraft(emptyProfile())}
+          className="p-2 border border-[#E5E7EB] dark:border-slate-800 text-[#6B7280] dark:text-slate-400 hover:text-accent-500"
+          aria-label="New profile"
+        >
+          <Plus className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {/* Name and strictness */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="space-y-1">
+          <span className="font-mono text-xs text-[#111827] dark:text-slate-200">NAME</span>
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="e.g. Aerospace supplier"
+            className={cn(inputClass, "w-full")}
+          />
+        </label>
+        <label className="flex items-center gap-2 pt-5">
+          <input
+            type="checkbox"
+            checked={draft.strict}
+            onChange={(e) => setDraft({ ...draft, strict: e.target.checked })}
+          />
+          <span className="font-mono text-xs text-[#111827] dark:text-slate-200">Report warnings as errors</span>
+        </label>
+      </div>
+
+      {/* Thresholds */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <label className="space-y-1">
+          <span className="font-mono text-[10px] text-[#6B7280] dark:text-slate-500">W005 LIMIT (MM)</span>
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={largeTolerance.mm}
+            onChange={(e) =>
+              setDraft({
+                ...draft,
+                thresholds: { ...draft.thresholds, largeTolerance: { ...largeTolerance, mm: Number(e.target.value) } },
+              })
+            }
+            className={cn(inputClass, "w-full")}
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="font-mono text-[10px] text-[#6B7280] dark:text-slate-500">W005 LIMIT (INCH)</span>
+          <input
+            type="number"
+            min={0}
+            step={0.01}
+            value={largeTolerance.inch}
+            onChange={(e) =>
+              setDraft({
+                ...draft,
+                thresholds: { ...draft.thresholds, largeTolerance: { ...largeTolerance, inch: Number(e.target.value) } },
+              })
+            }
+            className={cn(inputClass, "w-full")}
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="font-mono text-[10px] text-[#6B7280] dark:text-slate-500">E019 MAX DATUMS</span>
+          <select
+            value={draft.thresholds.maxDatumReferences ?? DEFAULT_RULE_THRESHOLDS.maxDatumReferences}
+            onChange={(e) =>
+              setDraft({ ...draft, thresholds: { ...draft.thresholds, maxDatumReferences: parseInt(e.target.value) } })
+            }
+            className={cn(inputClass, "w-full")}
+          >
+            {[1, 2, 3, 4, 5, 6].map((n) => (
+              <option key={n} value={n}>
+                {n}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Per-code overrides */}
+      <div className="border border-[#E5E7EB] dark:border-slate-800 max-h-80 overflow-y-auto">
+        {catalog.map(([code, rule]) => {
+          const override = draft.overrides[code];
+          const enabled = override?.enabled !== false;
+          return (
+            <div
+              key={code}
+              className="flex items-center gap-3 px-3 py-2 border-b border-[#E5E7EB] dark:border-slate-800/50 last:border-b-0"
+            >
+              <input
+                type="checkbox"
+                checked={enabled}
+                onChange={(e) => updateOverride(code, { enabled: e.target.checked ? undefined : false })}
+                aria-label={`Enable ${code}`}
+              />
+              <span className="w-10 font-mono text-xs text-accent-500">{code}</span>
+              <span className={cn("flex-1 text-xs text-[#374151] dark:text-slate-400", !enabled && "line-through opacity-50")}>
+                {rule.description}
+              </span>
+              <select
+                value={override?.severity ?? ""}
+                disabled={!enabled}
+                onChange={(e) =>
+                  updateOverride(code, { severity: (e.target.value || undefined) as Severity | undefined })
+                }
+                className={cn(inputClass, "py-1")}
+              >
+                <option value="">Default ({rule.severity})</option>
+                <option value="error">Error</option>
+                <option value="warning">Warning</option>
+              </select>
+            </div>
+          );
+        })}
+      </div>
+
+      {error && <p className="font-mono text-xs text-error-500">{error}</p>}
+
+      <div className="flex items-center justify-end gap-2">
+        {draft.id && (
+          <button
+            type="button"
+            onClick={handleSetDefault}
+            className={cn(
+              "flex items-center gap-1.5 px-3 py-2 font-mono text-xs border transition-colors",
+              defaultProfileId === draft.id
+                ? "border-warning-500/50 text-warning-500"
+                : "border-[#E5E7EB] dark:border-slate-800 text-[#6B7280] dark:text-slate-400 hover:text-warning-500"
+            )}
+          >
+            <Star className="w-3.5 h-3.5" />
+            {defaultProfileId === draft.id ? "ACCOUNT DEFAULT" : "SET AS DEFAULT"}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaving || !draft.name.trim()}
+          className="flex items-center gap-1.5 px-3 py-2 font-mono text-xs bg-accent-500 text-white hover:bg-accent-400 disabled:opacity-50 transition-colors"
+        >
+          {isSaving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />}
+          SAVE PROFILE
+        </button>
+      </div>
+    </div>
+  );
+}
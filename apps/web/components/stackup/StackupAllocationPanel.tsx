@@ -0,0 +1,177 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { GitBranch, Scale } from "lucide-react";
+import { cn } from "@/lib/utils/cn";
+import { TechnicalPanel } from "@/components/ui/TechnicalPanel";
+import {
+  allocateTolerances,
+  type AllocationChange,
+  type AllocationStrategy,
+  type StackupAnalysis,
+  type StackupDimension,
+} from "@/lib/stackup";
+
+interface StackupAllocationPanelProps {
+  analysis: StackupAnalysis;
+  decimals: number;
+  /** Save the proposed dimensions as a new version; omitted while editing */
+  onAccept?: (dimensions: StackupDimension[]) => void;
+  isAccepting?: boolean;
+  className?: string;
+}
+
+const STRATEGY_OPTIONS: { value: AllocationStrategy; label: string; description: string }[] = [
+  {
+    value: "proportional",
+    label: "Proportional",
+    description: "Scale all tolerances by the same factor",
+  },
+  {
+    value: "equal-precision",
+    label: "Equal Precision",
+    description: "Same tolerance grade, larger sizes get more",
+  },
+  {
+    value: "cost-minimization",
+    label: "Min Cost",
+    description: "Tighten where it is cheap, by cost weight",
+  },
+];
+
+const LIMIT_LABELS: Record<NonNullable<AllocationChange["limitedBy"]>, string> = {
+  minimum: "MIN",
+  maximum: "MAX",
+  fixed: "FIXED",
+};
+
+/**
+ * Tolerance allocation: proposes tolerances that use the acceptance
+ * criteria fully under the chosen strategy, shows which dimensions open up
+ * or tighten and by how much, and saves the proposal as a new version.
+ */
+export function StackupAllocationPanel({
+  analysis,
+  decimals,
+  onAccept,
+  isAccepting = false,
+  className,
+}: StackupAllocationPanelProps) {
+  const [strategy, setStrategy] = useState<AllocationStrategy>("proportional");
+  const [requested, setRequested] = useState<AllocationStrategy>();
+
+  const allocation = useMemo(
+    () => (requested ? allocateTolerances(analysis, requested, { decimals }) : undefined),
+    [analysis, requested, decimals]
+  );
+
+  return (
+    <TechnicalPanel label="ALLOCATION" className={cn("p-4", className)}>
+      <div className="space-y-4">
+        {/* Strategy */}
+        <div className="grid grid-cols-3 gap-2">
+          {STRATEGY_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setStrategy(option.value)}
+              title={option.description}
+              className={cn(
+                "px-2 py-1.5 rounded border font-mono text-[10px] uppercase transition-colors",
+                strategy === option.value
+                  ? "bg-accent-500/20 border-accent-500 text-accent-400"
+                  : "bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-600"
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <button
+          type="button"
+          onClick={() => setRequested(strategy)}
+          disabled={analysis.dimensions.length < 2}
+          className="w-full flex items-center justify-center gap-2 py-1.5 border border-slate-700 rounded text-slate-400 hover:border-primary-500/50 hover:text-primary-400 disabled:opacity-30 disabled:cursor-not-allowed transition-colors text-xs font-mono"
+        >
+          <Scale className="w-3.5 h-3.5" />
+          PROPOSE TOLERANCES
+        </button>
+
+        {allocation && (
+          <>
+            {/* Status */}
+            <div
+              className={cn(
+                "px-3 py-2 border font-mono text-xs",
+                allocation.feasible
+                  ? "border-accent-500/50 bg-accent-500/10 text-accent-400"
+                  : "border-error-500/50 bg-error-500/10 text-error-400"
+              )}
+            >
+              {allocation.feasible
+                ? `Meets criteria: ${allocation.result.minimumValue.toFixed(decimals)} to ${allocation.result.maximumValue.toFixed(decimals)}`
+                : "Cannot meet the criteria even at the minimum tolerances"}
+            </div>
+
+            {/* Changes */}
+            <div className="space-y-1">
+              {allocation.changes.map((change) => {
+                const dim = analysis.dimensions.find((d) => d.id === change.dimensionId);
+                const relative = change.relativeChange;
+                return (
+                  <div
+                    key={change.dimensionId}
+                    className="grid grid-cols-[1fr_auto_auto] gap-2 items-center text-xs font-mono"
+                  >
+                    <span className="text-slate-400 truncate">
+                      {dim?.name ?? "Unknown"}
+                      {change.limitedBy && (
+                        <span className="ml-1.5 text-[10px] text-slate-600">
+                          {LIMIT_LABELS[change.limitedBy]}
+                        </span>
+                      )}
+                    </span>
+                    <span className="text-slate-500">
+                      ±{change.currentTolerance.toFixed(decimals)} → ±
+                      <span className="text-slate-300">
+                        {change.proposedTolerance.toFixed(decimals)}
+                      </span>
+                    </span>
+                    <span
+                      className={cn(
+                        "w-14 text-right",
+                        relative === undefined || Math.abs(relative) < 0.005
+                          ? "text-slate-600"
+                          : relative > 0
+                            ? "text-accent-400"
+                            : "text-error-400"
+                      )}
+                    >
+                      {relative === undefined
+                        ? "—"
+                        : `${relative > 0 ? "+" : ""}${(relative * 100).toFixed(0)}%`}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Accept */}
+            {onAccept && (
+              <button
+                type="button"
+                onClick={() => onAccept(allocation.dimensions)}
+                disabled={!allocation.feasible || isAccepting}
+                className="w-full flex items-center justify-center gap-2 py-1.5 bg-accent-500 text-slate-950 font-mono text-xs font-semibold hover:bg-accent-400 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+              >
+                <GitBranch className="w-3.5 h-3.5" />
+                {isAccepting ? "SAVING..." : "ACCEPT AS NEW VERSION"}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </TechnicalPanel>
+  );
+}
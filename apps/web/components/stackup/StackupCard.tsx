@@ -1,6 +1,7 @@
 import Link from "next/link";
 import { CheckCircle, XCircle, Layers, Clock } from "lucide-react";
 import { cn } from "@/lib/utils/cn";
+import { displayDecimals } from "@/lib/util/units";
 import type { StackupAnalysis, StackupResult } from "@/lib/stackup";
 
 interface StackupCardProps {
@@ -14,7 +15,7 @@ interface StackupCardProps {
 export function StackupCard({ analysis, index = 0 }: StackupCardProps) {
   const result = analysis.result;
   const passes = result?.passesAcceptanceCriteria;
-  const decimals = analysis.unit === "mm" ? 3 : 4;
+  const decimals = displayDecimals(analysis.unit);
 
   return (
     <Link
@@ -38,6 +39,9 @@ export function StackupCard({ analysis, index = 0 }: StackupCardProps) {
           <div className="flex-1 min-w-0">
             <h3 className="font-mono text-xs font-semibold text-slate-900 dark:text-slate-100 truncate uppercase">
               {analysis.name}
+              {analysis.version && analysis.version > 1 && (
+                <span className="ml-2 text-slate-500">V{analysis.version}</span>
+              )}
             </h3>
             <p className="font-mono text-[10px] text-slate-500 line-clamp-2 mt-1">
               {analysis.measurementObjective}
@@ -71,7 +75,9 @@ export function StackupCard({ analysis, index = 0 }: StackupCardProps) {
               analysis.analysisMethod === "rss" &&
                 "border-primary-500/50 text-primary-500",
               analysis.analysisMethod === "six-sigma" &&
-                "border-accent-500/50 text-accent-500"
+                "border-accent-500/50 text-accent-500",
+              analysis.analysisMethod === "monte-carlo" &&
+                "border-slate-500/50 text-slate-400"
             )}
           >
             {analysis.analysisMethod}
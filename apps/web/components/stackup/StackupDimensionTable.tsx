@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useMemo } from "react";
 import {
   Plus,
   Trash2,
@@ -9,12 +9,25 @@ import {
   GripVertical,
   ArrowUp,
   ArrowDown,
+  Link2,
+  Unlink,
 } from "lucide-react";
 import { cn } from "@/lib/utils/cn";
-import type {
-  StackupDimension,
-  DimensionContribution,
-  StackupUnit,
+import { useDisplaySettings } from "@/lib/settings/context";
+import { displayDecimals } from "@/lib/util/units";
+import {
+  deriveFcfContributors,
+  deriveLoopSensitivities,
+  getBilateralTolerance,
+  getStandardDeviation,
+  type FcfLinkSource,
+  type FcfContributor,
+  type StackupDimension,
+  type DimensionContribution,
+  type DimensionDistribution,
+  type StackupUnit,
+  type VectorLoop,
+  type AllocationConstraint,
 } from "@/lib/stackup";
 
 interface StackupDimensionTableProps {
@@ -23,12 +36,42 @@ interface StackupDimensionTableProps {
   unit: StackupUnit;
   contributions?: DimensionContribution[];
   readOnly?: boolean;
+  /** FCF records dimensions can be derived from */
+  fcfSource?: FcfLinkSource;
+  /** 2D vector loop: dimensions take an angle instead of a sign */
+  vectorLoop?: VectorLoop;
   className?: string;
 }
 
+const CONTRIBUTOR_LABELS: Record<FcfContributor, string> = {
+  geometric: "Geometric tolerance (±T/2 radial)",
+  bonus: "Bonus tolerance",
+  datumShift: "Datum shift",
+};
+
+const DISTRIBUTION_LABELS: Record<DimensionDistribution, string> = {
+  normal: "Normal",
+  uniform: "Uniform",
+  triangular: "Triangular",
+  lognormal: "Lognormal (skewed)",
+};
+
+/**
+ * Cpk of a single dimension implied by its σ and mean offset.
+ */
+function getDimensionCpk(dim: StackupDimension): number | undefined {
+  const sigma = getStandardDeviation(dim);
+  if (sigma <= 0) return undefined;
+  return (getBilateralTolerance(dim) - Math.abs(dim.meanOffset ?? 0)) / (3 * sigma);
+}
+
 /**
  * Editable dimension table for stack-up analysis.
- * Supports add/edit/remove/reorder with expandable rows for advanced options.
+ * Supports add/edit/remove/reorder with expandable rows for advanced options,
+ * including each dimension's distribution, mean offset and Cpk. Dimensions
+ * added from an FCF record take their tolerances from the FCF. In a 2D
+ * vector loop each dimension has an angle and its sensitivity is derived.
+ * Min/max tolerance and cost weight constrain tolerance allocation.
  */
 export function StackupDimensionTable({
   dimensions,
@@ -36,10 +79,19 @@ export function StackupDimensionTable({
   unit,
   contributions,
   readOnly = false,
+  fcfSource,
+  vectorLoop,
   className,
 }: StackupDimensionTableProps) {
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
-  const decimals = unit === "mm" ? 3 : 4;
+  const [selectedFcfId, setSelectedFcfId] = useState("");
+  const decimals = displayDecimals(unit, useDisplaySettings());
+
+  // Signed sensitivities derived from the loop geometry
+  const loopSensitivities = useMemo(
+    () => (vectorLoop ? deriveLoopSensitivities(dimensions, vectorLoop) : undefined),
+    [dimensions, vectorLoop]
+  );
 
   // Toggle row expansion
   const toggleExpand = (id: string) => {
@@ -64,6 +116,16 @@ export function StackupDimensionTable({
     [dimensions, onChange]
   );
 
+  // Update allocation constraints, dropping them once all are cleared
+  const updateAllocation = useCallback(
+    (dim: StackupDimension, updates: Partial<AllocationConstraint>) => {
+      const allocation = { ...dim.allocation, ...updates };
+      const isEmpty = Object.values(allocation).every((value) => value === undefined);
+      updateDimension(dim.id, { allocation: isEmpty ? undefined : allocation });
+    },
+    [updateDimension]
+  );
+
   // Add new dimension
   const addDimension = useCallback(() => {
     const newDim: StackupDimension = {
@@ -78,6 +140,17 @@ export function StackupDimensionTable({
     onChange([...dimensions, newDim]);
   }, [dimensions, onChange]);
 
+  // Add the geometric, bonus and datum shift contributors of an FCF
+  const addFcfContributors = useCallback(() => {
+    const record = fcfSource?.records.find((r) => r.id === selectedFcfId);
+    if (!record) return;
+    onChange([
+      ...dimensions,
+      ...deriveFcfContributors(record, { unit, datumCatalog: fcfSource?.datumCatalog }),
+    ]);
+    setSelectedFcfId("");
+  }, [dimensions, onChange, fcfSource, selectedFcfId, unit]);
+
   // Remove dimension
   const removeDimension = useCallback(
     (id: string) => {
@@ -119,7 +192,7 @@ export function StackupDimensionTable({
         <div className="w-24 text-right">Nominal</div>
         <div className="w-20 text-right">+Tol</div>
         <div className="w-20 text-right">-Tol</div>
-        <div className="w-16 text-center">Sign</div>
+        <div className="w-16 text-center">{vectorLoop ? "Angle" : "Sign"}</div>
         {contributions && <div className="w-16 text-right">%</div>}
         {!readOnly && <div className="w-20" />} {/* Actions */}
       </div>
@@ -129,6 +202,11 @@ export function StackupDimensionTable({
         {dimensions.map((dim, index) => {
           const isExpanded = expandedRows.has(dim.id);
           const contribution = getContribution(dim.id);
+          const linkedFcf = dim.fcfLink
+            ? fcfSource?.records.find((r) => r.id === dim.fcfLink?.fcfRecordId)
+            : undefined;
+          // Linked tolerances follow the FCF
+          const toleranceReadOnly = readOnly || !!dim.fcfLink;
 
           return (
             <div
@@ -151,21 +229,28 @@ export function StackupDimensionTable({
                 </button>
 
                 {/* Name */}
-                {readOnly ? (
-                  <span className="font-mono text-sm text-slate-300 truncate">
-                    {dim.name}
-                  </span>
-                ) : (
-                  <input
-                    type="text"
-                    value={dim.name}
-                    onChange={(e) =>
-                      updateDimension(dim.id, { name: e.target.value })
-                    }
-                    className="bg-transparent border-b border-transparent hover:border-slate-700 focus:border-accent-500 outline-none font-mono text-sm text-slate-300 truncate"
-                    placeholder="Dimension name"
-                  />
-                )}
+                <div className="flex items-center gap-1.5 min-w-0">
+                  {dim.fcfLink && (
+                    <span title={`Derived from ${linkedFcf?.name ?? "a linked FCF"}`}>
+                      <Link2 className="w-3.5 h-3.5 shrink-0 text-primary-400" />
+                    </span>
+                  )}
+                  {readOnly ? (
+                    <span className="font-mono text-sm text-slate-300 truncate">
+                      {dim.name}
+                    </span>
+                  ) : (
+                    <input
+                      type="text"
+                      value={dim.name}
+                      onChange={(e) =>
+                        updateDimension(dim.id, { name: e.target.value })
+                      }
+                      className="min-w-0 flex-1 bg-transparent border-b border-transparent hover:border-slate-700 focus:border-accent-500 outline-none font-mono text-sm text-slate-300 truncate"
+                      placeholder="Dimension name"
+                    />
+                  )}
+                </div>
 
                 {/* Nominal */}
                 {readOnly ? (
@@ -187,7 +272,7 @@ export function StackupDimensionTable({
                 )}
 
                 {/* +Tolerance */}
-                {readOnly ? (
+                {toleranceReadOnly ? (
                   <span className="w-20 text-right font-mono text-sm text-accent-400">
                     +{dim.tolerancePlus.toFixed(decimals)}
                   </span>
@@ -213,7 +298,7 @@ export function StackupDimensionTable({
                 )}
 
                 {/* -Tolerance */}
-                {readOnly ? (
+                {toleranceReadOnly ? (
                   <span className="w-20 text-right font-mono text-sm text-error-400">
                     -{dim.toleranceMinus.toFixed(decimals)}
                   </span>
@@ -238,8 +323,27 @@ export function StackupDimensionTable({
                   </div>
                 )}
 
-                {/* Sign toggle */}
-                {readOnly ? (
+                {/* Angle (vector loop) or sign toggle */}
+                {vectorLoop ? (
+                  readOnly ? (
+                    <span className="w-16 text-center font-mono text-sm text-slate-300">
+                      {dim.angle ?? 0}°
+                    </span>
+                  ) : (
+                    <input
+                      type="number"
+                      value={dim.angle ?? 0}
+                      onChange={(e) =>
+                        updateDimension(dim.id, {
+                          angle: parseFloat(e.target.value) || 0,
+                        })
+                      }
+                      step={1}
+                      title="Direction, degrees counterclockwise from +X"
+                      className="w-16 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-right font-mono text-sm text-slate-300 focus:border-accent-500 outline-none"
+                    />
+                  )
+                ) : readOnly ? (
                   <span
                     className={cn(
                       "w-16 text-center font-mono text-xs font-semibold px-2 py-1 rounded",
@@ -315,6 +419,30 @@ export function StackupDimensionTable({
               {/* Expanded details */}
               {isExpanded && (
                 <div className="px-8 py-3 border-t border-slate-800 bg-slate-900/20 space-y-3">
+                  {/* Linked FCF */}
+                  {dim.fcfLink && (
+                    <div className="flex items-center justify-between text-xs font-mono">
+                      <span className="text-slate-400">
+                        <span className="text-primary-400">
+                          {linkedFcf?.name ?? dim.fcfLink.fcfRecordId}
+                        </span>{" "}
+                        · {CONTRIBUTOR_LABELS[dim.fcfLink.contributor]}
+                        {dim.fcfLink.datumId && ` ${dim.fcfLink.datumId}`}
+                      </span>
+                      {!readOnly && (
+                        <button
+                          type="button"
+                          onClick={() => updateDimension(dim.id, { fcfLink: undefined })}
+                          className="flex items-center gap-1 text-slate-500 hover:text-slate-300"
+                          title="Keep the current values and edit them by hand"
+                        >
+                          <Unlink className="w-3.5 h-3.5" />
+                          Unlink
+                        </button>
+                      )}
+                    </div>
+                  )}
+
                   <div className="grid grid-cols-2 gap-4">
                     {/* Description */}
                     <div className="space-y-1">
@@ -345,7 +473,14 @@ export function StackupDimensionTable({
                       <label className="text-[10px] font-mono text-slate-500 uppercase tracking-wider">
                         Sensitivity Coefficient
                       </label>
-                      {readOnly ? (
+                      {loopSensitivities ? (
+                        <p
+                          className="text-sm font-mono text-slate-400"
+                          title="Derived from the vector loop"
+                        >
+                          {loopSensitivities[index].toFixed(4)} (derived)
+                        </p>
+                      ) : readOnly ? (
                         <p className="text-sm font-mono text-slate-400">
                           {dim.sensitivityCoefficient}
                         </p>
@@ -443,6 +578,217 @@ export function StackupDimensionTable({
                       )}
                     </div>
                   </div>
+
+                  <div className="grid grid-cols-4 gap-4">
+                    {/* Distribution */}
+                    <div className="space-y-1">
+                      <label className="text-[10px] font-mono text-slate-500 uppercase tracking-wider">
+                        Distribution
+                      </label>
+                      {readOnly ? (
+                        <p className="text-sm font-mono text-slate-400">
+                          {DISTRIBUTION_LABELS[dim.distribution ?? "normal"]}
+                        </p>
+                      ) : (
+                        <select
+                          value={dim.distribution ?? "normal"}
+                          onChange={(e) => {
+                            const distribution = e.target.value as DimensionDistribution;
+                            updateDimension(dim.id, {
+                              distribution: distribution === "normal" ? undefined : distribution,
+                              ...(distribution !== "lognormal" && { skewness: undefined }),
+                            });
+                          }}
+                          className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 font-mono text-sm text-slate-300 focus:border-accent-500 outline-none"
+                        >
+                          {(Object.keys(DISTRIBUTION_LABELS) as DimensionDistribution[]).map(
+                            (distribution) => (
+                              <option key={distribution} value={distribution}>
+                                {DISTRIBUTION_LABELS[distribution]}
+                              </option>
+                            )
+                          )}
+                        </select>
+                      )}
+                    </div>
+
+                    {/* Mean Offset */}
+                    <div className="space-y-1">
+                      <label className="text-[10px] font-mono text-slate-500 uppercase tracking-wider">
+                        Mean Offset
+                      </label>
+                      {readOnly ? (
+                        <p className="text-sm font-mono text-slate-400">
+                          {dim.meanOffset !== undefined
+                            ? `${dim.meanOffset >= 0 ? "+" : ""}${dim.meanOffset.toFixed(decimals)}`
+                            : "Centered"}
+                        </p>
+                      ) : (
+                        <input
+                          type="number"
+                          value={dim.meanOffset ?? ""}
+                          onChange={(e) =>
+                            updateDimension(dim.id, {
+                              meanOffset: e.target.value
+                                ? parseFloat(e.target.value)
+                                : undefined,
+                            })
+                          }
+                          step={unit === "mm" ? 0.001 : 0.0001}
+                          placeholder="0"
+                          title="Process mean relative to the tolerance zone center"
+                          className="w-32 bg-slate-800 border border-slate-700 rounded px-2 py-1 font-mono text-sm text-slate-300 focus:border-accent-500 outline-none placeholder:text-slate-600"
+                        />
+                      )}
+                    </div>
+
+                    {/* Cpk */}
+                    <div className="space-y-1">
+                      <label className="text-[10px] font-mono text-slate-500 uppercase tracking-wider">
+                        Cpk
+                      </label>
+                      {readOnly ? (
+                        <p className="text-sm font-mono text-slate-400">
+                          {dim.processCapabilityK ?? getDimensionCpk(dim)?.toFixed(2) ?? "—"}
+                        </p>
+                      ) : (
+                        <input
+                          type="number"
+                          value={dim.processCapabilityK ?? ""}
+                          onChange={(e) =>
+                            updateDimension(dim.id, {
+                              processCapabilityK: e.target.value
+                                ? parseFloat(e.target.value)
+                                : undefined,
+                            })
+                          }
+                          step={0.01}
+                          min={0}
+                          placeholder={getDimensionCpk(dim)?.toFixed(2) ?? ""}
+                          title="Overrides Cp; leave blank to derive from Cp and the mean offset"
+                          className="w-32 bg-slate-800 border border-slate-700 rounded px-2 py-1 font-mono text-sm text-slate-300 focus:border-accent-500 outline-none placeholder:text-slate-600"
+                        />
+                      )}
+                    </div>
+
+                    {/* Skewness (lognormal only) */}
+                    {dim.distribution === "lognormal" && (
+                      <div className="space-y-1">
+                        <label className="text-[10px] font-mono text-slate-500 uppercase tracking-wider">
+                          Skewness
+                        </label>
+                        {readOnly ? (
+                          <p className="text-sm font-mono text-slate-400">
+                            {dim.skewness ?? "Default (1)"}
+                          </p>
+                        ) : (
+                          <input
+                            type="number"
+                            value={dim.skewness ?? ""}
+                            onChange={(e) =>
+                              updateDimension(dim.id, {
+                                skewness: e.target.value
+                                  ? parseFloat(e.target.value)
+                                  : undefined,
+                              })
+                            }
+                            step={0.1}
+                            placeholder="1"
+                            title="Negative values skew toward the minus limit"
+                            className="w-32 bg-slate-800 border border-slate-700 rounded px-2 py-1 font-mono text-sm text-slate-300 focus:border-accent-500 outline-none placeholder:text-slate-600"
+                          />
+                        )}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-4">
+                    {/* Allocation: Min Tolerance */}
+                    <div className="space-y-1">
+                      <label className="text-[10px] font-mono text-slate-500 uppercase tracking-wider">
+                        Min Tol (±)
+                      </label>
+                      {readOnly ? (
+                        <p className="text-sm font-mono text-slate-400">
+                          {dim.allocation?.minTolerance?.toFixed(decimals) ?? "—"}
+                        </p>
+                      ) : (
+                        <input
+                          type="number"
+                          value={dim.allocation?.minTolerance ?? ""}
+                          onChange={(e) =>
+                            updateAllocation(dim, {
+                              minTolerance: e.target.value
+                                ? Math.abs(parseFloat(e.target.value))
+                                : undefined,
+                            })
+                          }
+                          min={0}
+                          step={unit === "mm" ? 0.001 : 0.0001}
+                          title="Tightest tolerance the process can hold"
+                          className="w-32 bg-slate-800 border border-slate-700 rounded px-2 py-1 font-mono text-sm text-slate-300 focus:border-accent-500 outline-none"
+                        />
+                      )}
+                    </div>
+
+                    {/* Allocation: Max Tolerance */}
+                    <div className="space-y-1">
+                      <label className="text-[10px] font-mono text-slate-500 uppercase tracking-wider">
+                        Max Tol (±)
+                      </label>
+                      {readOnly ? (
+                        <p className="text-sm font-mono text-slate-400">
+                          {dim.allocation?.maxTolerance?.toFixed(decimals) ?? "—"}
+                        </p>
+                      ) : (
+                        <input
+                          type="number"
+                          value={dim.allocation?.maxTolerance ?? ""}
+                          onChange={(e) =>
+                            updateAllocation(dim, {
+                              maxTolerance: e.target.value
+                                ? Math.abs(parseFloat(e.target.value))
+                                : undefined,
+                            })
+                          }
+                          min={0}
+                          step={unit === "mm" ? 0.001 : 0.0001}
+                          title="Loosest tolerance the design allows"
+                          className="w-32 bg-slate-800 border border-slate-700 rounded px-2 py-1 font-mono text-sm text-slate-300 focus:border-accent-500 outline-none"
+                        />
+                      )}
+                    </div>
+
+                    {/* Allocation: Cost Weight */}
+                    <div className="space-y-1">
+                      <label className="text-[10px] font-mono text-slate-500 uppercase tracking-wider">
+                        Cost Weight
+                      </label>
+                      {readOnly ? (
+                        <p className="text-sm font-mono text-slate-400">
+                          {dim.allocation?.costWeight ?? "Default (1)"}
+                        </p>
+                      ) : (
+                        <input
+                          type="number"
+                          value={dim.allocation?.costWeight ?? ""}
+                          onChange={(e) =>
+                            updateAllocation(dim, {
+                              costWeight:
+                                parseFloat(e.target.value) > 0
+                                  ? parseFloat(e.target.value)
+                                  : undefined,
+                            })
+                          }
+                          min={0}
+                          step={0.1}
+                          placeholder="1"
+                          title="Relative cost of tightening this tolerance"
+                          className="w-32 bg-slate-800 border border-slate-700 rounded px-2 py-1 font-mono text-sm text-slate-300 focus:border-accent-500 outline-none placeholder:text-slate-600"
+                        />
+                      )}
+                    </div>
+                  </div>
                 </div>
               )}
             </div>
@@ -450,6 +796,33 @@ export function StackupDimensionTable({
         })}
       </div>
 
+      {/* Add contributors from an FCF */}
+      {!readOnly && fcfSource && fcfSource.records.length > 0 && (
+        <div className="flex items-center gap-2">
+          <select
+            value={selectedFcfId}
+            onChange={(e) => setSelectedFcfId(e.target.value)}
+            className="flex-1 bg-slate-800 border border-slate-700 rounded px-2 py-1.5 font-mono text-sm text-slate-300 focus:border-accent-500 outline-none"
+          >
+            <option value="">Select an FCF record...</option>
+            {fcfSource.records.map((record) => (
+              <option key={record.id} value={record.id}>
+                {record.name} ({record.fcf.characteristic})
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={addFcfContributors}
+            disabled={!selectedFcfId}
+            className="flex items-center gap-2 px-3 py-1.5 border border-slate-700 rounded text-slate-500 hover:border-primary-500/50 hover:text-primary-400 disabled:opacity-30 disabled:cursor-not-allowed transition-colors text-sm font-mono"
+          >
+            <Link2 className="w-4 h-4" />
+            Add from FCF
+          </button>
+        </div>
+      )}
+
       {/* Add dimension button */}
       {!readOnly && (
         <button
@@ -466,10 +839,14 @@ export function StackupDimensionTable({
       {dimensions.length >= 2 && (
         <div className="flex items-center justify-between px-2 py-2 border-t border-slate-800 text-xs font-mono text-slate-500">
           <span>{dimensions.length} dimensions</span>
-          <span>
-            {dimensions.filter((d) => d.sign === "positive").length} positive,{" "}
-            {dimensions.filter((d) => d.sign === "negative").length} negative
-          </span>
+          {loopSensitivities ? (
+            <span>2D vector loop, {vectorLoop?.closure} closure</span>
+          ) : (
+            <span>
+              {dimensions.filter((d) => d.sign === "positive").length} positive,{" "}
+              {dimensions.filter((d) => d.sign === "negative").length} negative
+            </span>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,155 @@
+"use client";
+
+import { cn } from "@/lib/utils/cn";
+import { TechnicalPanel } from "@/components/ui/TechnicalPanel";
+import { UNIT_LABELS } from "@/lib/util/units";
+import type {
+  MonteCarloResult,
+  AcceptanceCriteria,
+  StackupUnit,
+} from "@/lib/stackup";
+
+interface StackupHistogramProps {
+  monteCarlo: MonteCarloResult;
+  acceptanceCriteria: AcceptanceCriteria;
+  unit: StackupUnit;
+  decimals: number;
+  className?: string;
+}
+
+/**
+ * Histogram of simulated Monte Carlo results with the acceptance limits
+ * overlaid, followed by percentiles and estimated PPM out of limits.
+ */
+export function StackupHistogram({
+  monteCarlo,
+  acceptanceCriteria,
+  unit,
+  decimals,
+  className,
+}: StackupHistogramProps) {
+  const { histogram } = monteCarlo;
+  const { minimum, maximum } = acceptanceCriteria;
+
+  // Display range covers the simulated results and both acceptance limits
+  const first = histogram[0]?.start ?? 0;
+  const last = histogram[histogram.length - 1]?.end ?? 0;
+  const displayMin = Math.min(first, minimum ?? first);
+  const displayMax = Math.max(last, maximum ?? last);
+  const range = displayMax - displayMin || 1;
+  const toPercent = (value: number) => ((value - displayMin) / range) * 100;
+
+  const maxCount = Math.max(...histogram.map((bin) => bin.count), 1);
+
+  const isOutside = (start: number, end: number) =>
+    (minimum !== undefined && end <= minimum) ||
+    (maximum !== undefined && start >= maximum);
+
+  return (
+    <TechnicalPanel label="SIMULATION" className={cn("p-4", className)}>
+      <div className="space-y-4">
+        {/* Histogram */}
+        <div className="relative h-32 border-b border-slate-700">
+          {histogram.map((bin, index) => (
+            <div
+              key={index}
+              className={cn(
+                "absolute bottom-0",
+                isOutside(bin.start, bin.end) ? "bg-error-500/70" : "bg-primary-500/70"
+              )}
+              style={{
+                left: `${toPercent(bin.start)}%`,
+                // Single-bin histograms (zero tolerance) still get a visible bar
+                width: `${Math.max(toPercent(bin.end) - toPercent(bin.start), 0.5)}%`,
+                height: `${(bin.count / maxCount) * 100}%`,
+              }}
+              title={`${bin.start.toFixed(decimals)} to ${bin.end.toFixed(decimals)}: ${bin.count}`}
+            />
+          ))}
+
+          {/* Acceptance limits */}
+          {minimum !== undefined && (
+            <div
+              className="absolute top-0 bottom-0 w-0.5 bg-warning-500"
+              style={{ left: `${toPercent(minimum)}%` }}
+              title={`Min limit ${minimum.toFixed(decimals)}`}
+            />
+          )}
+          {maximum !== undefined && (
+            <div
+              className="absolute top-0 bottom-0 w-0.5 bg-warning-500"
+              style={{ left: `${toPercent(maximum)}%` }}
+              title={`Max limit ${maximum.toFixed(decimals)}`}
+            />
+          )}
+        </div>
+
+        {/* Axis */}
+        <div className="flex items-center justify-between text-[10px] font-mono text-slate-500">
+          <span>{displayMin.toFixed(decimals)}</span>
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-0.5 bg-warning-500" />
+            Acceptance limits ({UNIT_LABELS[unit]})
+          </span>
+          <span>{displayMax.toFixed(decimals)}</span>
+        </div>
+
+        {/* Percentiles */}
+        <div className="pt-3 border-t border-slate-800">
+          <label className="text-[10px] font-mono text-slate-500 uppercase tracking-wider block mb-2">
+            Percentiles
+          </label>
+          <div className="grid grid-cols-4 gap-2">
+            {monteCarlo.percentiles.map(({ percentile, value }) => (
+              <div key={percentile} className="space-y-0.5">
+                <span className="text-[10px] font-mono text-slate-500">P{percentile}</span>
+                <p className="font-mono text-sm text-slate-300">{value.toFixed(decimals)}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* PPM & sampler */}
+        <div className="grid grid-cols-3 gap-4 pt-3 border-t border-slate-800">
+          <div className="space-y-1">
+            <span className="text-[10px] font-mono text-slate-500 uppercase tracking-wider">
+              Est. PPM Out
+            </span>
+            <p
+              className={cn(
+                "font-mono text-lg",
+                monteCarlo.ppmOutside > 0 ? "text-error-400" : "text-accent-400"
+              )}
+            >
+              {Math.round(monteCarlo.ppmOutside).toLocaleString()}
+            </p>
+            <p className="text-[10px] font-mono text-slate-600">
+              {Math.round(monteCarlo.ppmBelowMinimum).toLocaleString()} low ·{" "}
+              {Math.round(monteCarlo.ppmAboveMaximum).toLocaleString()} high
+            </p>
+          </div>
+          <div className="space-y-1">
+            <span className="text-[10px] font-mono text-slate-500 uppercase tracking-wider">
+              Mean / σ
+            </span>
+            <p className="font-mono text-sm text-slate-300">
+              {monteCarlo.mean.toFixed(decimals)}
+            </p>
+            <p className="font-mono text-sm text-slate-400">
+              {monteCarlo.standardDeviation.toFixed(decimals)}
+            </p>
+          </div>
+          <div className="space-y-1">
+            <span className="text-[10px] font-mono text-slate-500 uppercase tracking-wider">
+              Samples / Seed
+            </span>
+            <p className="font-mono text-sm text-slate-300">
+              {monteCarlo.sampleCount.toLocaleString()}
+            </p>
+            <p className="font-mono text-sm text-slate-400">{monteCarlo.seed}</p>
+          </div>
+        </div>
+      </div>
+    </TechnicalPanel>
+  );
+}
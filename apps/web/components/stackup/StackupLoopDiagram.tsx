@@ -0,0 +1,225 @@
+"use client";
+
+import { useMemo } from "react";
+import { cn } from "@/lib/utils/cn";
+import { TechnicalPanel } from "@/components/ui/TechnicalPanel";
+import { UNIT_LABELS } from "@/lib/util/units";
+import {
+  calculateLoopClosure,
+  deriveLoopSensitivities,
+  type StackupDimension,
+  type StackupUnit,
+  type VectorLoop,
+} from "@/lib/stackup";
+
+interface StackupLoopDiagramProps {
+  dimensions: StackupDimension[];
+  vectorLoop: VectorLoop;
+  unit: StackupUnit;
+  decimals: number;
+  className?: string;
+}
+
+// Drawing area in SVG units
+const WIDTH = 240;
+const HEIGHT = 160;
+const PADDING = 16;
+
+/**
+ * 2D vector-loop diagram: contributors drawn head to tail at their nominal
+ * lengths and angles, colored by derived sign, with the closing dimension
+ * dashed. Listed below with each contributor's derived sensitivity.
+ */
+export function StackupLoopDiagram({
+  dimensions,
+  vectorLoop,
+  unit,
+  decimals,
+  className,
+}: StackupLoopDiagramProps) {
+  const sensitivities = useMemo(
+    () => deriveLoopSensitivities(dimensions, vectorLoop),
+    [dimensions, vectorLoop]
+  );
+
+  const closure = calculateLoopClosure(
+    dimensions.map((d) => d.nominal),
+    dimensions.map((d) => d.angle ?? 0),
+    vectorLoop
+  );
+
+  // Loop vertices in model coordinates, starting at the origin
+  const points = useMemo(() => {
+    const vertices = [{ x: 0, y: 0 }];
+    dimensions.forEach((dim) => {
+      const radians = ((dim.angle ?? 0) * Math.PI) / 180;
+      const last = vertices[vertices.length - 1];
+      vertices.push({
+        x: last.x + dim.nominal * Math.cos(radians),
+        y: last.y + dim.nominal * Math.sin(radians),
+      });
+    });
+    return vertices;
+  }, [dimensions]);
+
+  const end = points[points.length - 1];
+  const closureRadians = ((vectorLoop.closureAngle ?? 0) * Math.PI) / 180;
+  // Foot of the projection closure on its measurement axis
+  const foot =
+    vectorLoop.closure === "projection"
+      ? { x: closure * Math.cos(closureRadians), y: closure * Math.sin(closureRadians) }
+      : undefined;
+
+  // Fit the loop into the drawing area with a uniform scale (SVG y is down)
+  const all = foot ? [...points, foot] : points;
+  const minX = Math.min(...all.map((p) => p.x));
+  const maxX = Math.max(...all.map((p) => p.x));
+  const minY = Math.min(...all.map((p) => p.y));
+  const maxY = Math.max(...all.map((p) => p.y));
+  const scale = Math.min(
+    (WIDTH - 2 * PADDING) / (maxX - minX || 1),
+    (HEIGHT - 2 * PADDING) / (maxY - minY || 1)
+  );
+  const offsetX = (WIDTH - (maxX - minX) * scale) / 2;
+  const offsetY = (HEIGHT - (maxY - minY) * scale) / 2;
+  const toSvg = (p: { x: number; y: number }) => ({
+    x: offsetX + (p.x - minX) * scale,
+    y: HEIGHT - offsetY - (p.y - minY) * scale,
+  });
+
+  const strokeClass = (sensitivity: number) =>
+    sensitivity > 0
+      ? "stroke-accent-400"
+      : sensitivity < 0
+        ? "stroke-error-400"
+        : "stroke-slate-600";
+
+  const origin = toSvg(points[0]);
+  const endSvg = toSvg(end);
+  const footSvg = foot ? toSvg(foot) : undefined;
+
+  return (
+    <TechnicalPanel label="VECTOR LOOP" className={cn("p-4", className)}>
+      <div className="space-y-4">
+        {/* Diagram */}
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto bg-slate-900/40 border border-slate-800 rounded"
+        >
+          <defs>
+            <marker
+              id="loop-arrow"
+              viewBox="0 0 6 6"
+              refX="5"
+              refY="3"
+              markerWidth="5"
+              markerHeight="5"
+              orient="auto-start-reverse"
+            >
+              <path d="M0,0 L6,3 L0,6 z" className="fill-slate-400" />
+            </marker>
+          </defs>
+
+          {/* Closing dimension */}
+          {footSvg ? (
+            <>
+              <line
+                x1={origin.x}
+                y1={origin.y}
+                x2={footSvg.x}
+                y2={footSvg.y}
+                strokeDasharray="4 3"
+                className="stroke-warning-500"
+                strokeWidth={1.5}
+              />
+              <line
+                x1={endSvg.x}
+                y1={endSvg.y}
+                x2={footSvg.x}
+                y2={footSvg.y}
+                strokeDasharray="1 2"
+                className="stroke-slate-600"
+                strokeWidth={1}
+              />
+            </>
+          ) : (
+            <line
+              x1={origin.x}
+              y1={origin.y}
+              x2={endSvg.x}
+              y2={endSvg.y}
+              strokeDasharray="4 3"
+              className="stroke-warning-500"
+              strokeWidth={1.5}
+            />
+          )}
+
+          {/* Contributors */}
+          {dimensions.map((dim, index) => {
+            const from = toSvg(points[index]);
+            const to = toSvg(points[index + 1]);
+            return (
+              <g key={dim.id}>
+                <line
+                  x1={from.x}
+                  y1={from.y}
+                  x2={to.x}
+                  y2={to.y}
+                  markerEnd="url(#loop-arrow)"
+                  className={strokeClass(sensitivities[index])}
+                  strokeWidth={2}
+                />
+                <text
+                  x={(from.x + to.x) / 2 + 4}
+                  y={(from.y + to.y) / 2 - 4}
+                  className="fill-slate-400 font-mono text-[8px]"
+                >
+                  {index + 1}
+                </text>
+              </g>
+            );
+          })}
+
+          <circle cx={origin.x} cy={origin.y} r={2.5} className="fill-slate-300" />
+        </svg>
+
+        {/* Closure */}
+        <div className="flex items-center justify-between text-xs font-mono">
+          <span className="flex items-center gap-1 text-slate-500">
+            <span className="w-3 h-0.5 bg-warning-500" />
+            {vectorLoop.closure === "projection"
+              ? `Projection at ${vectorLoop.closureAngle ?? 0}°`
+              : "Distance"}
+          </span>
+          <span className="text-slate-300">
+            {closure.toFixed(decimals)} {UNIT_LABELS[unit]}
+          </span>
+        </div>
+
+        {/* Derived sensitivities */}
+        <div className="pt-3 border-t border-slate-800 space-y-1">
+          {dimensions.map((dim, index) => (
+            <div key={dim.id} className="flex items-center justify-between text-xs font-mono">
+              <span className="text-slate-400 truncate">
+                {index + 1}. {dim.name}{" "}
+                <span className="text-slate-600">@ {dim.angle ?? 0}°</span>
+              </span>
+              <span
+                className={cn(
+                  sensitivities[index] > 0
+                    ? "text-accent-400"
+                    : sensitivities[index] < 0
+                      ? "text-error-400"
+                      : "text-slate-600"
+                )}
+              >
+                {sensitivities[index] >= 0 ? "+" : ""}
+                {sensitivities[index].toFixed(4)}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </TechnicalPanel>
+  );
+}
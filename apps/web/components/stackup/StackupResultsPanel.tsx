@@ -3,6 +3,9 @@
 import { cn } from "@/lib/utils/cn";
 import { CheckCircle, XCircle, AlertTriangle, Info } from "lucide-react";
 import { TechnicalPanel } from "@/components/ui/TechnicalPanel";
+import { StackupHistogram } from "./StackupHistogram";
+import { useDisplaySettings } from "@/lib/settings/context";
+import { displayDecimals, formatDimension, UNIT_LABELS } from "@/lib/util/units";
 import type {
   StackupResult,
   StackupUnit,
@@ -23,17 +26,22 @@ const METHOD_LABELS: Record<AnalysisMethod, string> = {
   "worst-case": "Worst Case",
   rss: "RSS",
   "six-sigma": "Six Sigma",
+  "monte-carlo": "Monte Carlo",
 };
 
 const METHOD_DESCRIPTIONS: Record<AnalysisMethod, string> = {
   "worst-case": "All tolerances at maximum limits simultaneously",
   rss: "Root Sum Square (statistical, assumes normal distribution)",
   "six-sigma": "Statistical with process capability weighting",
+  "monte-carlo": "Simulated assemblies from a seeded random sampler",
 };
 
+const ALL_METHODS: AnalysisMethod[] = ["worst-case", "rss", "six-sigma", "monte-carlo"];
+
 /**
  * Results panel displaying stack-up calculation output with pass/fail status.
- * Optionally shows comparison across all three analysis methods.
+ * Monte Carlo results add a histogram with the acceptance limits overlaid.
+ * Optionally shows comparison across all analysis methods.
  */
 export function StackupResultsPanel({
   result,
@@ -43,7 +51,9 @@ export function StackupResultsPanel({
   allMethodResults,
   className,
 }: StackupResultsPanelProps) {
-  const decimals = unit === "mm" ? 3 : 4;
+  const settings = useDisplaySettings();
+  const decimals = displayDecimals(unit, settings);
+  const otherUnit: StackupUnit = unit === "mm" ? "inch" : "mm";
   const passes = result.passesAcceptanceCriteria;
 
   return (
@@ -82,8 +92,13 @@ export function StackupResultsPanel({
               </label>
               <p className="font-mono text-xl text-slate-200">
                 {result.nominalResult.toFixed(decimals)}{" "}
-                <span className="text-sm text-slate-500">{unit}</span>
+                <span className="text-sm text-slate-500">{UNIT_LABELS[unit]}</span>
               </p>
+              {settings.dualDisplay && (
+                <p className="font-mono text-xs text-slate-500">
+                  {formatDimension(result.nominalResult, unit, { displayUnit: otherUnit })}
+                </p>
+              )}
             </div>
 
             {/* Total Tolerance */}
@@ -93,8 +108,13 @@ export function StackupResultsPanel({
               </label>
               <p className="font-mono text-xl text-slate-200">
                 ±{result.totalTolerance.toFixed(decimals)}{" "}
-                <span className="text-sm text-slate-500">{unit}</span>
+                <span className="text-sm text-slate-500">{UNIT_LABELS[unit]}</span>
               </p>
+              {settings.dualDisplay && (
+                <p className="font-mono text-xs text-slate-500">
+                  ±{formatDimension(result.totalTolerance, unit, { displayUnit: otherUnit })}
+                </p>
+              )}
             </div>
           </div>
 
@@ -124,6 +144,35 @@ export function StackupResultsPanel({
             </p>
           </div>
 
+          {/* Closing dimension capability */}
+          {result.standardDeviation !== undefined && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-slate-500">Std Deviation (σ)</span>
+                <span className="font-mono text-sm text-slate-300">
+                  {result.standardDeviation.toFixed(decimals)} {unit}
+                </span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-slate-500">Predicted Cpk</span>
+                <span
+                  className={cn(
+                    "font-mono text-sm",
+                    result.predictedCpk === undefined
+                      ? "text-slate-500"
+                      : result.predictedCpk >= 1.33
+                        ? "text-accent-400"
+                        : result.predictedCpk >= 1
+                          ? "text-warning-400"
+                          : "text-error-400"
+                  )}
+                >
+                  {result.predictedCpk?.toFixed(2) ?? "—"}
+                </span>
+              </div>
+            </div>
+          )}
+
           {/* Acceptance Criteria & Margins */}
           <div className="pt-3 border-t border-slate-800">
             <label className="text-[10px] font-mono text-slate-500 uppercase tracking-wider block mb-2">
@@ -185,11 +234,21 @@ export function StackupResultsPanel({
         </div>
       </TechnicalPanel>
 
+      {/* Monte Carlo distribution */}
+      {result.monteCarlo && (
+        <StackupHistogram
+          monteCarlo={result.monteCarlo}
+          acceptanceCriteria={acceptanceCriteria}
+          unit={unit}
+          decimals={decimals}
+        />
+      )}
+
       {/* Method Comparison */}
       {showMethodComparison && allMethodResults && (
         <TechnicalPanel label="METHOD COMPARISON" className="p-4">
           <div className="space-y-3">
-            {(["worst-case", "rss", "six-sigma"] as AnalysisMethod[]).map(
+            {ALL_METHODS.map(
               (method) => {
                 const methodResult = allMethodResults[method];
                 if (!methodResult) return null;
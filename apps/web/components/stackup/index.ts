@@ -2,3 +2,6 @@ export { StackupCard } from "./StackupCard";
 export { StackupDimensionTable } from "./StackupDimensionTable";
 export { StackupResultsPanel } from "./StackupResultsPanel";
 export { StackupContributionChart } from "./StackupContributionChart";
+export { StackupHistogram } from "./StackupHistogram";
+export { StackupLoopDiagram } from "./StackupLoopDiagram";
+export { StackupAllocationPanel } from "./StackupAllocationPanel";
@@ -11,12 +11,13 @@ import { ExplanationAgentRequest, ExplanationAgentResponse } from "./types";
 export async function runExplanationAgent(
   request: ExplanationAgentRequest
 ): Promise<ExplanationAgentResponse> {
-  const { fcf, calcResult, validation, format } = request;
+  const { fcf, calcResult, validation, datumFrame, format } = request;
 
   const result: ExplanationOutput = await generateExplanation({
     fcf,
     validation,
     calculation: calcResult,
+    datumFrame,
     format,
   });
 
@@ -1,11 +1,21 @@
 import { randomUUID } from "crypto";
 
-import { FcfJson } from "@/lib/fcf/schema";
+import { FcfJson, Unit } from "@/lib/fcf/schema";
+import { analyzeDatumReferenceFrame, DatumFeature } from "@/lib/fcf/datums";
 import { validateFcf, ValidationResult } from "@/lib/rules/validateFcf";
+import { calculateAngularity } from "@/lib/calc/angularity";
+import { calculateCircularity } from "@/lib/calc/circularity";
+import { calculateCylindricity } from "@/lib/calc/cylindricity";
 import { calculateFlatness } from "@/lib/calc/flatness";
+import { calculateParallelism } from "@/lib/calc/parallelism";
+import { calculatePatternPosition, patternSegmentsFromFcf } from "@/lib/calc/pattern";
 import { calculatePerpendicularity } from "@/lib/calc/perpendicularity";
 import { calculatePosition } from "@/lib/calc/position";
 import { calculateProfile } from "@/lib/calc/profile";
+import { calculateRunout, calculateTotalRunout } from "@/lib/calc/runout";
+import { calculateStraightness } from "@/lib/calc/straightness";
+import { PatternPositionInput } from "@/lib/calc/types";
+import { convertPositionInput, formatConversionNotes } from "@/lib/util/units";
 
 import { runExplanationAgent } from "./explanationAgent";
 import {
@@ -13,7 +23,8 @@ import {
   CalculationInput,
   ConfidenceLevel,
   InterpretFcfRequest,
-  InterpretFcfResponse
+  InterpretFcfResponse,
+  PatternCalculationInput
 } from "./types";
 
 /**
@@ -28,7 +39,51 @@ function deriveConfidence(validation: ValidationResult): ConfidenceLevel {
 
 type CalcOutcome = { ok: true; calcResult: CalcResult } | { ok: false; message: string };
 
-function runDeterministicCalculation(input: CalculationInput): CalcOutcome {
+type UnitAlignment = { ok: true; input: CalculationInput; note?: string } | { ok: false; message: string };
+
+/**
+ * Bring calculation input into the frame's unit so the result and the
+ * explanation quote the same numbers.
+ */
+function alignCalculationUnit(input: CalculationInput, unit: Unit): UnitAlignment {
+  if (input.input.unit === unit) {
+    return { ok: true, input };
+  }
+  if (input.characteristic === "position") {
+    const conversion = convertPositionInput(input.input, unit);
+    return {
+      ok: true,
+      input: { characteristic: "position", input: conversion.value },
+      note: formatConversionNotes(conversion)
+    };
+  }
+  return {
+    ok: false,
+    message: `Calculation input is in ${input.input.unit} but the feature control frame is in ${unit}`
+  };
+}
+
+/**
+ * Complete pattern input from the frame: its segments (composite or multiple
+ * single segments) and the pattern count from its pattern spec.
+ */
+function resolvePatternInput(
+  input: PatternCalculationInput,
+  fcf: FcfJson,
+  datumCatalog?: DatumFeature[]
+): PatternPositionInput {
+  return {
+    ...input,
+    segments: input.segments ?? patternSegmentsFromFcf(fcf, datumCatalog),
+    count: input.count ?? fcf.pattern?.count
+  };
+}
+
+function runDeterministicCalculation(
+  input: CalculationInput,
+  fcf: FcfJson,
+  datumCatalog?: DatumFeature[]
+): CalcOutcome {
   switch (input.characteristic) {
     case "position": {
       const response = calculatePosition(input.input);
@@ -37,6 +92,16 @@ function runDeterministicCalculation(input: CalculationInput): CalcOutcome {
       }
       return { ok: true, calcResult: { characteristic: "position", result: response.result } };
     }
+    case "pattern": {
+      if (fcf.characteristic !== "position") {
+        return { ok: false, message: "Pattern evaluation requires a position feature control frame" };
+      }
+      const response = calculatePatternPosition(resolvePatternInput(input.input, fcf, datumCatalog));
+      if (!response.success) {
+        return { ok: false, message: response.errors.map((err) => err.message).join("; ") };
+      }
+      return { ok: true, calcResult: { characteristic: "pattern", result: response.result } };
+    }
     case "flatness": {
       const response = calculateFlatness(input.input);
       if (!response.success) {
@@ -44,6 +109,27 @@ function runDeterministicCalculation(input: CalculationInput): CalcOutcome {
       }
       return { ok: true, calcResult: { characteristic: "flatness", result: response.result } };
     }
+    case "straightness": {
+      const response = calculateStraightness(input.input);
+      if (!response.success) {
+        return { ok: false, message: response.errors.map((err) => err.message).join("; ") };
+      }
+      return { ok: true, calcResult: { characteristic: "straightness", result: response.result } };
+    }
+    case "circularity": {
+      const response = calculateCircularity(input.input);
+      if (!response.success) {
+        return { ok: false, message: response.errors.map((err) => err.message).join("; ") };
+      }
+      return { ok: true, calcResult: { characteristic: "circularity", result: response.result } };
+    }
+    case "cylindricity": {
+      const response = calculateCylindricity(input.input);
+      if (!response.success) {
+        return { ok: false, message: response.errors.map((err) => err.message).join("; ") };
+      }
+      return { ok: true, calcResult: { characteristic: "cylindricity", result: response.result } };
+    }
     case "perpendicularity": {
       const response = calculatePerpendicularity(input.input);
       if (!response.success) {
@@ -51,6 +137,34 @@ function runDeterministicCalculation(input: CalculationInput): CalcOutcome {
       }
       return { ok: true, calcResult: { characteristic: "perpendicularity", result: response.result } };
     }
+    case "parallelism": {
+      const response = calculateParallelism(input.input);
+      if (!response.success) {
+        return { ok: false, message: response.errors.map((err) => err.message).join("; ") };
+      }
+      return { ok: true, calcResult: { characteristic: "parallelism", result: response.result } };
+    }
+    case "angularity": {
+      const response = calculateAngularity(input.input);
+      if (!response.success) {
+        return { ok: false, message: response.errors.map((err) => err.message).join("; ") };
+      }
+      return { ok: true, calcResult: { characteristic: "angularity", result: response.result } };
+    }
+    case "runout": {
+      const response = calculateRunout(input.input);
+      if (!response.success) {
+        return { ok: false, message: response.errors.map((err) => err.message).join("; ") };
+      }
+      return { ok: true, calcResult: { characteristic: "runout", result: response.result } };
+    }
+    case "totalRunout": {
+      const response = calculateTotalRunout(input.input);
+      if (!response.success) {
+        return { ok: false, message: response.errors.map((err) => err.message).join("; ") };
+      }
+      return { ok: true, calcResult: { characteristic: "totalRunout", result: response.result } };
+    }
     case "profile": {
       const response = calculateProfile(input.input);
       if (!response.success) {
@@ -85,7 +199,7 @@ export async function orchestrateFcfInterpretation(
   }
 
   const fcf = request.fcf;
-  const validation = validateFcf(fcf);
+  const validation = validateFcf(fcf, request.ruleProfile, request.datumCatalog);
 
   if (!validation.valid) {
     return {
@@ -98,8 +212,21 @@ export async function orchestrateFcfInterpretation(
   }
 
   let calcResult: CalcResult | undefined;
+  let conversionNote: string | undefined;
   if (request.calculationInput) {
-    const calcOutcome = runDeterministicCalculation(request.calculationInput);
+    const alignment = alignCalculationUnit(request.calculationInput, fcf.sourceUnit);
+    if (!alignment.ok) {
+      return {
+        status: "error",
+        stage: "calculation",
+        message: alignment.message,
+        validation,
+        correlationId
+      };
+    }
+    conversionNote = alignment.note;
+
+    const calcOutcome = runDeterministicCalculation(alignment.input, fcf, request.datumCatalog);
     if (!calcOutcome.ok) {
       return {
         status: "error",
@@ -113,13 +240,18 @@ export async function orchestrateFcfInterpretation(
   }
 
   const warnings = validation.warnings.map((issue) => `${issue.code}: ${issue.message}`);
+  if (conversionNote) {
+    warnings.push(conversionNote);
+  }
   const confidence = deriveConfidence(validation);
+  const datumFrame = fcf.datums?.length ? analyzeDatumReferenceFrame(fcf.datums, request.datumCatalog) : undefined;
 
   try {
     const explanation = await runExplanationAgent({
       fcf,
       calcResult,
-      validation
+      validation,
+      datumFrame
     });
 
     return {
@@ -127,6 +259,7 @@ export async function orchestrateFcfInterpretation(
       fcf,
       validation,
       calcResult,
+      datumFrame,
       explanation,
       confidence,
       warnings: warnings.length ? warnings : undefined,
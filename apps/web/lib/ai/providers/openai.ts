@@ -55,6 +55,9 @@ export class OpenAIProvider implements AIProvider {
       calcResult: input.calculation
         ? JSON.stringify(input.calculation, null, 2)
         : undefined,
+      datumFrame: input.datumFrame
+        ? JSON.stringify(input.datumFrame, null, 2)
+        : undefined,
       format: input.format,
     });
 
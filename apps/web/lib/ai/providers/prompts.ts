@@ -5,7 +5,7 @@
  * GDT_REFERENCE_CONTENT is optimized for Anthropic's prompt caching (>1024 tokens).
  */
 
-export const PROMPT_VERSION = "v1.2.0";
+export const PROMPT_VERSION = "v1.3.0";
 
 // ---------------------------------------------------------------------------
 // GD&T Reference Content (Cacheable)
@@ -157,11 +157,12 @@ export interface ExplanationPromptInput {
   fcfJson: string;
   validationResult: string;
   calcResult?: string;
+  datumFrame?: string;
   format?: "markdown" | "plain";
 }
 
 export function buildExplanationUserPrompt(input: ExplanationPromptInput): string {
-  const { fcfJson, calcResult, validationResult, format } = input;
+  const { fcfJson, calcResult, validationResult, datumFrame, format } = input;
 
   const hasCalcResult = calcResult && calcResult !== "null" && calcResult !== "undefined";
 
@@ -196,7 +197,15 @@ ${fcfJson}
 
 ValidationResult (authoritative):
 ${validationResult}
-
+${
+  datumFrame
+    ? `
+DatumFrame (authoritative; degrees of freedom x/y/z translations and u/v/w rotations each datum constrains, from the project's datum catalog):
+${datumFrame}
+In "Datums & precedence", state exactly these degrees of freedom per datum and name any left free.
+`
+    : ""
+}
 ${calcSection}
 
 Response rules:
@@ -213,6 +222,7 @@ Response rules:
 
 export const PROMPT_VERSION_NOTES = `
 Changelog:
+- v1.3.0: Added optional DatumFrame (degrees of freedom per datum from the datum catalog)
 - v1.2.0: Added GDT_REFERENCE_CONTENT for Anthropic prompt caching; provider abstraction
 - v1.1.0: Removed extraction prompts (image extraction removed for v1 launch)
 - v1.0.1: Initial 2-agent stack prompts
@@ -7,6 +7,7 @@
 
 import type { FcfJson } from "@/lib/fcf/schema";
 import type { ValidationResult } from "@/lib/rules/validateFcf";
+import type { DatumFrameAnalysis } from "@/lib/fcf/datums";
 
 // ---------------------------------------------------------------------------
 // Provider Identification
@@ -29,6 +30,8 @@ export interface ExplanationInput {
   validation: ValidationResult;
   /** Calculation result - passed through to AI as JSON */
   calculation?: Record<string, unknown>;
+  /** Degrees of freedom per datum, from the project's datum catalog */
+  datumFrame?: DatumFrameAnalysis;
   format?: "markdown" | "plain";
 }
 
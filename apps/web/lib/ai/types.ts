@@ -1,14 +1,33 @@
 import { FcfJson } from "@/lib/fcf/schema";
+import { DatumFeature, DatumFrameAnalysis } from "@/lib/fcf/datums";
 import { ValidationResult } from "@/lib/rules/validateFcf";
+import type { RuleProfile } from "@/lib/rules/ruleProfiles";
 import {
+  AngularityInput,
+  AngularityResult,
+  CircularityInput,
+  CircularityResult,
+  CylindricityInput,
+  CylindricityResult,
   FlatnessInput,
   FlatnessResult,
+  ParallelismInput,
+  ParallelismResult,
+  PatternPositionInput,
+  PatternPositionResult,
+  PatternSegmentInput,
   PerpendicularityInput,
   PerpendicularityResult,
   PositionInput,
   PositionResult,
   ProfileInput,
-  ProfileResult
+  ProfileResult,
+  RunoutInput,
+  RunoutResult,
+  StraightnessInput,
+  StraightnessResult,
+  TotalRunoutInput,
+  TotalRunoutResult
 } from "@/lib/calc/types";
 import type { ProviderType } from "./providers/types";
 
@@ -29,22 +48,47 @@ export interface AIMetadata {
   };
 }
 
+/**
+ * Measurements of a pattern of features for the interpreter. Segments and
+ * count default to the frame's segments and pattern spec (e.g. 4X).
+ */
+export type PatternCalculationInput = Omit<PatternPositionInput, "segments"> & {
+  segments?: PatternSegmentInput[];
+};
+
 export type CalculationInput =
   | { characteristic: "position"; input: PositionInput }
+  | { characteristic: "pattern"; input: PatternCalculationInput }
   | { characteristic: "flatness"; input: FlatnessInput }
+  | { characteristic: "straightness"; input: StraightnessInput }
+  | { characteristic: "circularity"; input: CircularityInput }
+  | { characteristic: "cylindricity"; input: CylindricityInput }
   | { characteristic: "perpendicularity"; input: PerpendicularityInput }
+  | { characteristic: "parallelism"; input: ParallelismInput }
+  | { characteristic: "angularity"; input: AngularityInput }
+  | { characteristic: "runout"; input: RunoutInput }
+  | { characteristic: "totalRunout"; input: TotalRunoutInput }
   | { characteristic: "profile"; input: ProfileInput };
 
 export type CalcResult =
   | { characteristic: "position"; result: PositionResult }
+  | { characteristic: "pattern"; result: PatternPositionResult }
   | { characteristic: "flatness"; result: FlatnessResult }
+  | { characteristic: "straightness"; result: StraightnessResult }
+  | { characteristic: "circularity"; result: CircularityResult }
+  | { characteristic: "cylindricity"; result: CylindricityResult }
   | { characteristic: "perpendicularity"; result: PerpendicularityResult }
+  | { characteristic: "parallelism"; result: ParallelismResult }
+  | { characteristic: "angularity"; result: AngularityResult }
+  | { characteristic: "runout"; result: RunoutResult }
+  | { characteristic: "totalRunout"; result: TotalRunoutResult }
   | { characteristic: "profile"; result: ProfileResult };
 
 export interface ExplanationAgentRequest {
   fcf: FcfJson;
   calcResult?: CalcResult;
   validation: ValidationResult;
+  datumFrame?: DatumFrameAnalysis;
   format?: "markdown" | "plain";
 }
 
@@ -61,6 +105,10 @@ export interface ExplanationAgentResponse {
 export interface InterpretFcfRequest {
   fcf: FcfJson;
   calculationInput?: CalculationInput;
+  /** Project datum feature catalog the frame's datum letters refer to */
+  datumCatalog?: DatumFeature[];
+  /** Rule profile the frame is validated with (default profile when omitted) */
+  ruleProfile?: RuleProfile;
   correlationId?: string;
 }
 
@@ -69,6 +117,8 @@ export interface InterpretFcfSuccess {
   fcf: FcfJson;
   validation: ValidationResult;
   calcResult?: CalcResult;
+  /** Degrees of freedom constrained by each datum reference */
+  datumFrame?: DatumFrameAnalysis;
   explanation?: ExplanationAgentResponse;
   confidence: ConfidenceLevel;
   warnings?: string[];
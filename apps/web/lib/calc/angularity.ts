@@ -0,0 +1,74 @@
+/**
+ * Angularity Tolerance Calculator
+ *
+ * Implements ASME Y14.5-2018 angularity tolerance calculations.
+ *
+ * Angularity is an orientation tolerance that controls a surface or axis at
+ * a basic angle to a datum plane or axis.
+ *
+ * Key concepts:
+ * - Always requires at least one datum reference
+ * - The angle is basic; the tolerance is a linear zone width, not degrees
+ * - For surfaces: tolerance zone is two parallel planes at the basic angle
+ * - For axes (FOS): tolerance zone can be cylindrical with MMC/LMC bonus
+ * - A measured angle is converted to a linear deviation over the
+ *   measurement length
+ */
+
+import { evaluateOrientation, validateOrientationInput } from "./orientation";
+import { AngularityInput, AngularityResult, CalculatorError, CalculatorResponse } from "./types";
+
+// ============================================================================
+// INPUT VALIDATION
+// ============================================================================
+
+/**
+ * Validate angularity calculator inputs.
+ */
+function validateAngularityInput(input: AngularityInput): CalculatorError[] {
+  const errors = validateOrientationInput(input, "Angularity");
+
+  if (!Number.isFinite(input.basicAngle) || input.basicAngle < 0 || input.basicAngle > 180) {
+    errors.push({
+      code: "INVALID_BASIC_ANGLE",
+      message: "Basic angle must be between 0° and 180°",
+      field: "basicAngle"
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Departure of the measured angle from the basic angle (degrees).
+ */
+function measuredAngleDeviation(input: AngularityInput): number | undefined {
+  return input.measuredAngle === undefined ? undefined : input.measuredAngle - input.basicAngle;
+}
+
+// ============================================================================
+// MAIN CALCULATOR FUNCTION
+// ============================================================================
+
+/**
+ * Calculate angularity tolerance conformance.
+ *
+ * @param input - Angularity calculation inputs
+ * @returns Detailed angularity calculation results or validation errors
+ */
+export function calculateAngularity(input: AngularityInput): CalculatorResponse<AngularityResult> {
+  // A measured angle is evaluated as its departure from the basic angle
+  const oriented: AngularityInput = {
+    ...input,
+    angularDeviation: input.angularDeviation ?? measuredAngleDeviation(input)
+  };
+
+  const errors = validateAngularityInput(oriented);
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  const result = evaluateOrientation(oriented, { name: "Angularity", basicAngle: input.basicAngle });
+
+  return { success: true, result: { ...result, basicAngle: input.basicAngle } };
+}
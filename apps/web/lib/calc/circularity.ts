@@ -0,0 +1,159 @@
+/**
+ * Circularity Tolerance Calculator
+ *
+ * Implements ASME Y14.5-2018 circularity (roundness) calculations.
+ *
+ * Circularity is a form tolerance applied to each cross-section of a round
+ * feature: all points of the section must lie between two concentric circles
+ * whose radii differ by the tolerance value.
+ *
+ * Key concepts:
+ * - No datum reference allowed (it's a form tolerance)
+ * - The zone is radial; the tolerance is the difference in radii
+ * - Y14.5 defines the zone by the minimum-zone circles (MZC). Least-squares
+ *   (LSC), maximum inscribed (MIC) and minimum circumscribed (MCC) centers are
+ *   offered to match roundness-instrument reports and never give a narrower
+ *   zone than MZC.
+ */
+
+import { fitRadial, RadialModel, ROUNDNESS_FIT_LABELS } from "./roundness";
+import {
+  CircularityInput,
+  CircularityResult,
+  CirclePoint,
+  RoundnessFitMethod,
+  CalculatorError,
+  CalculatorResponse,
+  Precision
+} from "./types";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_PRECISION: Precision = 4;
+
+const DEFAULT_FIT_METHOD: RoundnessFitMethod = "minimum-zone";
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Round a number to specified decimal places.
+ */
+function round(value: number, precision: Precision): number {
+  const factor = Math.pow(10, precision);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Radii of the section points about a candidate center [cx, cy].
+ */
+function circleModel(points: CirclePoint[]): RadialModel {
+  return {
+    radii: ([cx, cy]) => points.map((p) => Math.hypot(p.x - cx, p.y - cy)),
+    gradient: ([cx, cy]) =>
+      points.map((p) => {
+        const r = Math.hypot(p.x - cx, p.y - cy) || 1;
+        return [-(p.x - cx) / r, -(p.y - cy) / r];
+      })
+  };
+}
+
+// ============================================================================
+// INPUT VALIDATION
+// ============================================================================
+
+/**
+ * Validate circularity calculator inputs.
+ */
+function validateCircularityInput(input: CircularityInput): CalculatorError[] {
+  const errors: CalculatorError[] = [];
+
+  if (input.tolerance <= 0) {
+    errors.push({
+      code: "INVALID_TOLERANCE",
+      message: "Circularity tolerance must be greater than zero",
+      field: "tolerance"
+    });
+  }
+
+  if (input.measuredPoints.length < 4) {
+    errors.push({
+      code: "INSUFFICIENT_POINTS",
+      message: "At least four measured points are required to evaluate a circular section",
+      field: "measuredPoints"
+    });
+  }
+
+  return errors;
+}
+
+// ============================================================================
+// MAIN CALCULATOR FUNCTION
+// ============================================================================
+
+/**
+ * Calculate circularity conformance of one cross-section.
+ *
+ * @param input - Circularity calculation inputs
+ * @returns Detailed circularity calculation results or validation errors
+ */
+export function calculateCircularity(input: CircularityInput): CalculatorResponse<CircularityResult> {
+  const precision = input.precision ?? DEFAULT_PRECISION;
+
+  const errors = validateCircularityInput(input);
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  const points = input.measuredPoints;
+  const fitMethod = input.fitMethod ?? DEFAULT_FIT_METHOD;
+  const centroid = [
+    points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    points.reduce((sum, p) => sum + p.y, 0) / points.length
+  ];
+  const scale = Math.max(...points.map((p) => Math.hypot(p.x - centroid[0], p.y - centroid[1])), 1e-9);
+  const fit = fitRadial(circleModel(points), centroid, fitMethod, scale);
+
+  const measuredCircularity = round(fit.outerRadius - fit.innerRadius, precision);
+  const pass = measuredCircularity <= input.tolerance;
+  const toleranceConsumed = round((measuredCircularity / input.tolerance) * 100, 1);
+
+  const result: CircularityResult = {
+    status: pass ? "pass" : "fail",
+    summary: generateCircularitySummary(pass, measuredCircularity, input.tolerance, toleranceConsumed, fitMethod),
+    timestamp: new Date().toISOString(),
+    unit: input.unit,
+    statedTolerance: input.tolerance,
+    measuredCircularity,
+    fitMethod,
+    center: { x: round(fit.params[0], precision), y: round(fit.params[1], precision) },
+    radius: round(fit.radius, precision),
+    innerRadius: round(fit.innerRadius, precision),
+    outerRadius: round(fit.outerRadius, precision),
+    toleranceConsumed,
+    pointCount: points.length
+  };
+
+  return { success: true, result };
+}
+
+/**
+ * Generate human-readable summary for circularity result.
+ */
+function generateCircularitySummary(
+  pass: boolean,
+  measured: number,
+  tolerance: number,
+  consumed: number,
+  method: RoundnessFitMethod
+): string {
+  const basis = ROUNDNESS_FIT_LABELS[method];
+  if (pass) {
+    return `PASS: Circularity ${measured.toFixed(4)} is within tolerance ${tolerance.toFixed(4)} (${consumed.toFixed(1)}% consumed, ${basis})`;
+  } else {
+    return `FAIL: Circularity ${measured.toFixed(4)} exceeds tolerance ${tolerance.toFixed(4)} (${consumed.toFixed(1)}% consumed, ${basis})`;
+  }
+}
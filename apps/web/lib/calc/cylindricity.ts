@@ -0,0 +1,211 @@
+/**
+ * Cylindricity Tolerance Calculator
+ *
+ * Implements ASME Y14.5-2018 cylindricity calculations.
+ *
+ * Cylindricity is a form tolerance: all points of the surface must lie
+ * between two coaxial cylinders whose radii differ by the tolerance value.
+ * It controls circularity, straightness of line elements and taper together.
+ *
+ * Key concepts:
+ * - No datum reference allowed (it's a form tolerance)
+ * - Measured as several circular sections along the axis; the axis is
+ *   expected to run roughly along Z
+ * - Y14.5 defines the zone by the minimum-zone cylinders. Least-squares,
+ *   maximum inscribed and minimum circumscribed axes are offered for
+ *   comparison with inspection reports.
+ */
+
+import { fitRadial, RadialModel, ROUNDNESS_FIT_LABELS } from "./roundness";
+import {
+  CylindricityInput,
+  CylindricityResult,
+  RoundnessFitMethod,
+  SurfacePoint,
+  CalculatorError,
+  CalculatorResponse,
+  Precision
+} from "./types";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_PRECISION: Precision = 4;
+
+const DEFAULT_FIT_METHOD: RoundnessFitMethod = "minimum-zone";
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Round a number to specified decimal places.
+ */
+function round(value: number, precision: Precision): number {
+  const factor = Math.pow(10, precision);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Distinct section heights along Z.
+ */
+function sectionHeights(points: SurfacePoint[]): number[] {
+  const span = Math.max(...points.map((p) => Math.abs(p.z)), 1);
+  const heights: number[] = [];
+  for (const p of points) {
+    if (!heights.some((z) => Math.abs(z - p.z) <= 1e-9 * span)) heights.push(p.z);
+  }
+  return heights.sort((a, b) => a - b);
+}
+
+/**
+ * Radii of the surface points about a candidate axis.
+ *
+ * The axis is located by its XY position at the lowest and highest sections,
+ * [xLow, yLow, xHigh, yHigh], so tilt is expressed as a length like the
+ * offset. Radii are true perpendicular distances; the gradient treats them as
+ * horizontal distances, which is exact to first order for a near-vertical
+ * axis.
+ */
+function cylinderModel(points: SurfacePoint[], zLow: number, zHigh: number): RadialModel {
+  const length = zHigh - zLow;
+  const along = (z: number) => (z - zLow) / length;
+
+  return {
+    radii: ([xLow, yLow, xHigh, yHigh]) => {
+      const d = [xHigh - xLow, yHigh - yLow, length];
+      const norm = Math.hypot(d[0], d[1], d[2]);
+      return points.map((p) => {
+        const r = [p.x - xLow, p.y - yLow, p.z - zLow];
+        return (
+          Math.hypot(r[1] * d[2] - r[2] * d[1], r[2] * d[0] - r[0] * d[2], r[0] * d[1] - r[1] * d[0]) / norm
+        );
+      });
+    },
+    gradient: ([xLow, yLow, xHigh, yHigh]) =>
+      points.map((p) => {
+        const t = along(p.z);
+        const dx = p.x - (xLow + t * (xHigh - xLow));
+        const dy = p.y - (yLow + t * (yHigh - yLow));
+        const r = Math.hypot(dx, dy) || 1;
+        return [(-(1 - t) * dx) / r, (-(1 - t) * dy) / r, (-t * dx) / r, (-t * dy) / r];
+      })
+  };
+}
+
+// ============================================================================
+// INPUT VALIDATION
+// ============================================================================
+
+/**
+ * Validate cylindricity calculator inputs.
+ */
+function validateCylindricityInput(input: CylindricityInput): CalculatorError[] {
+  const errors: CalculatorError[] = [];
+
+  if (input.tolerance <= 0) {
+    errors.push({
+      code: "INVALID_TOLERANCE",
+      message: "Cylindricity tolerance must be greater than zero",
+      field: "tolerance"
+    });
+  }
+
+  if (input.measuredPoints.length < 6) {
+    errors.push({
+      code: "INSUFFICIENT_POINTS",
+      message: "At least six measured points are required to evaluate a cylinder",
+      field: "measuredPoints"
+    });
+  } else if (sectionHeights(input.measuredPoints).length < 2) {
+    errors.push({
+      code: "INSUFFICIENT_SECTIONS",
+      message: "Points must be taken on at least two sections along the axis",
+      field: "measuredPoints"
+    });
+  }
+
+  return errors;
+}
+
+// ============================================================================
+// MAIN CALCULATOR FUNCTION
+// ============================================================================
+
+/**
+ * Calculate cylindricity conformance from multi-section surface points.
+ *
+ * @param input - Cylindricity calculation inputs
+ * @returns Detailed cylindricity calculation results or validation errors
+ */
+export function calculateCylindricity(input: CylindricityInput): CalculatorResponse<CylindricityResult> {
+  const precision = input.precision ?? DEFAULT_PRECISION;
+
+  const errors = validateCylindricityInput(input);
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  const points = input.measuredPoints;
+  const fitMethod = input.fitMethod ?? DEFAULT_FIT_METHOD;
+  const heights = sectionHeights(points);
+  const zLow = heights[0];
+  const zHigh = heights[heights.length - 1];
+
+  // Start from the vertical axis through the centroid
+  const cx = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const cy = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const scale = Math.max(...points.map((p) => Math.hypot(p.x - cx, p.y - cy)), 1e-9);
+  const fit = fitRadial(cylinderModel(points, zLow, zHigh), [cx, cy, cx, cy], fitMethod, scale);
+
+  const [xLow, yLow, xHigh, yHigh] = fit.params;
+  const direction = [xHigh - xLow, yHigh - yLow, zHigh - zLow];
+  const norm = Math.hypot(direction[0], direction[1], direction[2]);
+
+  const measuredCylindricity = round(fit.outerRadius - fit.innerRadius, precision);
+  const pass = measuredCylindricity <= input.tolerance;
+  const toleranceConsumed = round((measuredCylindricity / input.tolerance) * 100, 1);
+
+  const result: CylindricityResult = {
+    status: pass ? "pass" : "fail",
+    summary: generateCylindricitySummary(pass, measuredCylindricity, input.tolerance, toleranceConsumed, fitMethod),
+    timestamp: new Date().toISOString(),
+    unit: input.unit,
+    statedTolerance: input.tolerance,
+    measuredCylindricity,
+    fitMethod,
+    axisPoint: { x: round(xLow, precision), y: round(yLow, precision), z: zLow },
+    axisDirection: {
+      x: round(direction[0] / norm, 6),
+      y: round(direction[1] / norm, 6),
+      z: round(direction[2] / norm, 6)
+    },
+    radius: round(fit.radius, precision),
+    innerRadius: round(fit.innerRadius, precision),
+    outerRadius: round(fit.outerRadius, precision),
+    toleranceConsumed,
+    pointCount: points.length,
+    sectionCount: heights.length
+  };
+
+  return { success: true, result };
+}
+
+/**
+ * Generate human-readable summary for cylindricity result.
+ */
+function generateCylindricitySummary(
+  pass: boolean,
+  measured: number,
+  tolerance: number,
+  consumed: number,
+  method: RoundnessFitMethod
+): string {
+  const basis = ROUNDNESS_FIT_LABELS[method];
+  if (pass) {
+    return `PASS: Cylindricity ${measured.toFixed(4)} is within tolerance ${tolerance.toFixed(4)} (${consumed.toFixed(1)}% consumed, ${basis})`;
+  } else {
+    return `FAIL: Cylindricity ${measured.toFixed(4)} exceeds tolerance ${tolerance.toFixed(4)} (${consumed.toFixed(1)}% consumed, ${basis})`;
+  }
+}
@@ -0,0 +1,306 @@
+/**
+ * Fastener Position Tolerance Calculator
+ *
+ * Derives position tolerances at MMC for mating parts assembled with bolts,
+ * screws or pins (ASME Y14.5-2018 Appendix B), and builds the corresponding
+ * feature control frames for both parts.
+ *
+ * Key concepts:
+ * - Floating fastener: both parts have clearance holes, T = H - F for each
+ *   part (H = clearance hole MMC, F = fastener MMC)
+ * - Fixed fastener: one part holds the fastener (threaded or press-fit hole),
+ *   H = F + T1 + T2, so the two parts share T1 + T2 = H - F (equal split:
+ *   T = (H - F) / 2)
+ * - A projected tolerance zone of height P (maximum mating part thickness)
+ *   on the fixed part keeps the formula valid when the fastener tilts
+ * - Without a projected zone the fixed part's tolerance is divided by
+ *   1 + 2P/D, where D is the minimum engagement depth:
+ *   H = F + T1 + T2(1 + 2P/D)
+ */
+
+import type { FcfJson } from "@/lib/fcf/schema";
+import {
+  FastenerInput,
+  FastenerPartResult,
+  FastenerResult,
+  CalculatorError,
+  CalculatorResponse,
+  Precision
+} from "./types";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_PRECISION: Precision = 4;
+
+/** Inputs that must be numbers, and those that may be omitted but not blank */
+const REQUIRED_FIELDS = ["fastenerDiameter", "holeDiameter"] as const;
+const OPTIONAL_FIELDS = [
+  "secondHoleDiameter",
+  "clearanceShare",
+  "matingThickness",
+  "engagementLength",
+  "holeSizeTolerance",
+  "fastenerCount"
+] as const;
+
+/** Share of H - F given to the clearance part in the fixed case */
+const DEFAULT_CLEARANCE_SHARE = 0.5;
+
+const DEFAULT_DATUMS = ["A", "B", "C"];
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Round a number to specified decimal places.
+ */
+function round(value: number, precision: Precision): number {
+  const factor = Math.pow(10, precision);
+  return Math.round(value * factor) / factor;
+}
+
+// ============================================================================
+// INPUT VALIDATION
+// ============================================================================
+
+/**
+ * Validate fastener inputs.
+ */
+function validateFastenerInput(input: FastenerInput): CalculatorError[] {
+  const errors: CalculatorError[] = [];
+
+  // Blank form fields arrive as undefined or NaN, which every comparison below lets through
+  REQUIRED_FIELDS.forEach((field) => {
+    if (!Number.isFinite(input[field])) {
+      errors.push({ code: "MISSING_INPUT", message: `${field} is required`, field });
+    }
+  });
+  OPTIONAL_FIELDS.forEach((field) => {
+    const value = input[field];
+    if (value !== undefined && !Number.isFinite(value)) {
+      errors.push({ code: "INVALID_INPUT", message: `${field} must be a number`, field });
+    }
+  });
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  if (input.fastenerDiameter <= 0) {
+    errors.push({
+      code: "INVALID_FASTENER_DIAMETER",
+      message: "Fastener diameter must be greater than zero",
+      field: "fastenerDiameter"
+    });
+  }
+
+  if (input.holeDiameter <= input.fastenerDiameter) {
+    errors.push({
+      code: "HOLE_NOT_CLEAR",
+      message: "Clearance hole MMC must be larger than the fastener diameter",
+      field: "holeDiameter"
+    });
+  }
+
+  if (input.fastenerCase === "floating") {
+    if (input.secondHoleDiameter !== undefined && input.secondHoleDiameter <= input.fastenerDiameter) {
+      errors.push({
+        code: "HOLE_NOT_CLEAR",
+        message: "Second clearance hole MMC must be larger than the fastener diameter",
+        field: "secondHoleDiameter"
+      });
+    }
+  } else {
+    const share = input.clearanceShare ?? DEFAULT_CLEARANCE_SHARE;
+    if (!(share >= 0 && share <= 1)) {
+      errors.push({
+        code: "INVALID_SPLIT",
+        message: "Clearance share must be between 0 and 1",
+        field: "clearanceShare"
+      });
+    }
+
+    if (input.matingThickness === undefined || input.matingThickness <= 0) {
+      errors.push({
+        code: "MISSING_MATING_THICKNESS",
+        message: "Fixed fasteners need the maximum thickness of the clearance part",
+        field: "matingThickness"
+      });
+    }
+
+    if (input.projectedZone === false && (input.engagementLength === undefined || input.engagementLength <= 0)) {
+      errors.push({
+        code: "MISSING_ENGAGEMENT_LENGTH",
+        message: "Fixed fasteners without a projected zone need the minimum engagement depth",
+        field: "engagementLength"
+      });
+    }
+  }
+
+  if (input.holeSizeTolerance !== undefined && input.holeSizeTolerance < 0) {
+    errors.push({
+      code: "INVALID_SIZE_TOLERANCE",
+      message: "Hole size tolerance cannot be negative",
+      field: "holeSizeTolerance"
+    });
+  }
+
+  if (input.fastenerCount !== undefined && (!Number.isInteger(input.fastenerCount) || input.fastenerCount < 1)) {
+    errors.push({
+      code: "INVALID_FEATURE_COUNT",
+      message: "Fastener count must be a positive whole number",
+      field: "fastenerCount"
+    });
+  }
+
+  return errors;
+}
+
+// ============================================================================
+// MAIN CALCULATOR FUNCTION
+// ============================================================================
+
+/**
+ * Calculate position tolerances for a floating or fixed fastener assembly.
+ *
+ * @param input - Fastener and hole sizes, case and split
+ * @returns Position tolerance at MMC for each part or validation errors
+ */
+export function calculateFastener(input: FastenerInput): CalculatorResponse<FastenerResult> {
+  const precision = input.precision ?? DEFAULT_PRECISION;
+
+  const errors = validateFastenerInput(input);
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  const F = input.fastenerDiameter;
+  const H = input.holeDiameter;
+  const available = H - F;
+  let parts: [FastenerPartResult, FastenerPartResult];
+  let projectionCorrection: number | undefined;
+
+  if (input.fastenerCase === "floating") {
+    const H2 = input.secondHoleDiameter ?? H;
+    parts = [
+      {
+        label: "Part 1",
+        role: "clearance",
+        holeDiameter: H,
+        positionTolerance: round(available, precision)
+      },
+      {
+        label: "Part 2",
+        role: "clearance",
+        holeDiameter: H2,
+        positionTolerance: round(H2 - F, precision)
+      }
+    ];
+  } else {
+    const share = input.clearanceShare ?? DEFAULT_CLEARANCE_SHARE;
+    const projected = input.projectedZone ?? true;
+    const P = input.matingThickness ?? 0;
+    const correction = projected ? 1 : 1 + (2 * P) / (input.engagementLength ?? 1);
+
+    if (!projected) {
+      projectionCorrection = round(correction, precision);
+    }
+
+    parts = [
+      {
+        label: "Part 1",
+        role: "clearance",
+        holeDiameter: H,
+        positionTolerance: round(share * available, precision)
+      },
+      {
+        label: "Part 2",
+        role: "fixed",
+        holeDiameter: F,
+        positionTolerance: round(((1 - share) * available) / correction, precision),
+        ...(projected && { projectedZoneHeight: round(P, precision) })
+      }
+    ];
+  }
+
+  const result: FastenerResult = {
+    status: "pass",
+    summary: generateFastenerSummary(input.fastenerCase, parts, projectionCorrection),
+    timestamp: new Date().toISOString(),
+    unit: input.unit,
+    fastenerCase: input.fastenerCase,
+    fastenerDiameter: F,
+    availableTolerance: round(available, precision),
+    parts,
+    ...(projectionCorrection !== undefined && { projectionCorrection })
+  };
+
+  return { success: true, result };
+}
+
+/**
+ * Generate human-readable summary for a fastener calculation.
+ */
+function generateFastenerSummary(
+  fastenerCase: FastenerInput["fastenerCase"],
+  parts: FastenerPartResult[],
+  projectionCorrection?: number
+): string {
+  const lines: string[] = [
+    fastenerCase === "floating"
+      ? "PASS: Floating fastener, T = H - F for each part."
+      : "PASS: Fixed fastener, T1 + T2 = H - F shared between the parts."
+  ];
+
+  parts.forEach((part) => {
+    const projected = part.projectedZoneHeight !== undefined ? ` with ${part.projectedZoneHeight} projected zone` : "";
+    lines.push(`${part.label}: position Ø${part.positionTolerance.toFixed(4)} at MMC${projected}`);
+  });
+
+  if (projectionCorrection !== undefined) {
+    lines.push(`Part 2 tolerance reduced by 1 + 2P/D = ${projectionCorrection} for fastener tilt.`);
+  }
+
+  return lines.join(" ");
+}
+
+// ============================================================================
+// FEATURE CONTROL FRAMES
+// ============================================================================
+
+/**
+ * Build position feature control frames for both parts from a fastener
+ * calculation, ready to open in the builder.
+ */
+export function createFastenerFcfs(input: FastenerInput, result: FastenerResult): [FcfJson, FcfJson] {
+  const count = input.fastenerCount ?? 1;
+  const datums = (input.datums ?? DEFAULT_DATUMS).map((id) => ({ id }));
+
+  const frames = result.parts.map((part): FcfJson => {
+    const fixed = part.role === "fixed";
+    const frame: FcfJson = {
+      characteristic: "position",
+      featureType: "hole",
+      name: `${part.label} ${fixed ? "fastener" : "clearance"} holes`,
+      sourceUnit: result.unit,
+      source: { inputType: "builder", notes: `${result.fastenerCase} fastener calculation` },
+      tolerance: { value: part.positionTolerance, diameter: true, materialCondition: "MMC" },
+      datums,
+      sizeDimension: fixed
+        ? { nominal: part.holeDiameter, note: "THREAD/PRESS-FIT MAJOR DIA" }
+        : { nominal: part.holeDiameter, tolerancePlus: input.holeSizeTolerance ?? 0, toleranceMinus: 0 },
+      ...(count > 1 && { pattern: { count, note: `${count}X Ø${part.holeDiameter}` } })
+    };
+
+    if (part.projectedZoneHeight !== undefined) {
+      frame.modifiers = ["PROJECTED_TOLERANCE_ZONE"];
+      frame.projectedZone = { height: part.projectedZoneHeight };
+    }
+
+    return frame;
+  });
+
+  return [frames[0], frames[1]];
+}
@@ -12,11 +12,21 @@
  * - No datum reference allowed (it's a form tolerance)
  * - Zone is defined by two parallel planes separated by the tolerance value
  * - Measurement: Total Indicator Reading (TIR) or point cloud analysis
+ *
+ * Point clouds are evaluated against a reference plane chosen by fitting
+ * method. Y14.5 defines the zone as the two closest parallel planes that
+ * contain the surface, so minimum zone is the default; least squares and the
+ * three-point (datum-plane) setup are offered for comparison with inspection
+ * reports and always give a zone at least as wide.
  */
 
+import { minimaxFit } from "./optimize";
 import {
   FlatnessInput,
   FlatnessResult,
+  FlatnessFitMethod,
+  FlatnessContactPoint,
+  FlatnessMethodComparison,
   SurfacePoint,
   CalculatorError,
   CalculatorResponse,
@@ -29,6 +39,38 @@ import {
 
 const DEFAULT_PRECISION: Precision = 4;
 
+const DEFAULT_FIT_METHOD: FlatnessFitMethod = "minimum-zone";
+
+/** Realignment passes of the minimum-zone solver */
+const MAX_ZONE_REFINEMENTS = 10;
+
+const FIT_METHOD_LABELS: Record<FlatnessFitMethod, string> = {
+  "minimum-zone": "minimum zone",
+  "least-squares": "least squares",
+  "three-point": "three-point plane"
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Plane ax + by + cz + d = 0 with (a, b, c) a unit normal */
+interface Plane {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+}
+
+/** Zone bounded by two planes parallel to a reference plane */
+interface FlatnessZone {
+  plane: Plane;
+  deviations: number[];
+  maxDeviation: number;
+  minDeviation: number;
+  width: number;
+}
+
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
@@ -47,7 +89,7 @@ function round(value: number, precision: Precision): number {
  *
  * For flatness, we fit a plane and measure deviations from it.
  */
-function fitPlane(points: SurfacePoint[]): { a: number; b: number; c: number; d: number } {
+function fitPlane(points: SurfacePoint[]): Plane {
   const n = points.length;
 
   if (n < 3) {
@@ -123,23 +165,171 @@ function fitPlane(points: SurfacePoint[]): { a: number; b: number; c: number; d:
  * Calculate the signed distance from a point to a plane.
  * Positive = above plane (in direction of normal), Negative = below plane.
  */
-function pointToPlaneDistance(
-  point: SurfacePoint,
-  plane: { a: number; b: number; c: number; d: number }
-): number {
+function pointToPlaneDistance(point: SurfacePoint, plane: Plane): number {
   return plane.a * point.x + plane.b * point.y + plane.c * point.z + plane.d;
 }
 
 /**
  * Calculate deviations of all points from a reference plane.
  */
-function calculateDeviations(
-  points: SurfacePoint[],
-  plane: { a: number; b: number; c: number; d: number }
-): number[] {
+function calculateDeviations(points: SurfacePoint[], plane: Plane): number[] {
   return points.map(p => pointToPlaneDistance(p, plane));
 }
 
+/**
+ * Plane through three points, or null when they are collinear.
+ */
+function planeThroughPoints(p1: SurfacePoint, p2: SurfacePoint, p3: SurfacePoint): Plane | null {
+  const ux = p2.x - p1.x, uy = p2.y - p1.y, uz = p2.z - p1.z;
+  const vx = p3.x - p1.x, vy = p3.y - p1.y, vz = p3.z - p1.z;
+  let a = uy * vz - uz * vy;
+  let b = uz * vx - ux * vz;
+  let c = ux * vy - uy * vx;
+
+  const length = Math.sqrt(a * a + b * b + c * c);
+  const span = Math.sqrt(ux * ux + uy * uy + uz * uz) * Math.sqrt(vx * vx + vy * vy + vz * vz);
+  if (length <= 1e-12 * span) return null;
+
+  // Keep the normal on the +Z side so upper/lower match the other methods
+  const sign = c < 0 ? -1 : 1;
+  a = (sign * a) / length;
+  b = (sign * b) / length;
+  c = (sign * c) / length;
+  return { a, b, c, d: -(a * p1.x + b * p1.y + c * p1.z) };
+}
+
+/**
+ * Fit the minimum-zone (Chebyshev) plane: the orientation for which the two
+ * parallel planes enclosing every point are closest together.
+ *
+ * Heights are measured along a working normal, starting from the
+ * least-squares plane, and fitted exactly with a minimax linear program. That
+ * fit minimizes the zone along the working normal rather than perpendicular to
+ * the fitted plane, so the normal is realigned to the fitted plane and the fit
+ * repeated until the tilt vanishes; the error is second order in the tilt, so
+ * a couple of passes suffice. The narrowest zone found is kept, which is never
+ * wider than the least-squares zone it started from.
+ */
+function fitMinimumZonePlane(points: SurfacePoint[]): Plane {
+  const start = fitPlane(points);
+  if (points.length < 4) return start;
+
+  const n = points.length;
+  const centroid = points.reduce(
+    (sum, p) => ({ x: sum.x + p.x / n, y: sum.y + p.y / n, z: sum.z + p.z / n }),
+    { x: 0, y: 0, z: 0 }
+  );
+
+  let best = start;
+  let bestWidth = zoneFromPlane(points, start).width;
+  let normal = [start.a, start.b, start.c];
+
+  for (let pass = 0; pass < MAX_ZONE_REFINEMENTS; pass++) {
+    // In-plane axes u, v completing the working normal to an orthonormal frame
+    const helper = Math.abs(normal[0]) < 0.9 ? [1, 0, 0] : [0, 1, 0];
+    const u = normalize(cross(normal, helper));
+    const v = cross(normal, u);
+
+    const local = points.map(p => {
+      const r = [p.x - centroid.x, p.y - centroid.y, p.z - centroid.z];
+      return { s: dot(r, u), t: dot(r, v), h: dot(r, normal) };
+    });
+    const fit = minimaxFit(local.map(p => [p.s, p.t, 1]), local.map(p => p.h));
+    if (!fit.converged) break;
+
+    // h = αs + βt + γ is the plane with normal n - αu - βv
+    const [alpha, beta] = fit.coefficients;
+    normal = normalize(normal.map((value, i) => value - alpha * u[i] - beta * v[i]));
+    const plane: Plane = {
+      a: normal[0],
+      b: normal[1],
+      c: normal[2],
+      d: -(normal[0] * centroid.x + normal[1] * centroid.y + normal[2] * centroid.z)
+    };
+
+    const width = zoneFromPlane(points, plane).width;
+    if (width < bestWidth) {
+      best = plane;
+      bestWidth = width;
+    }
+    if (Math.abs(alpha) + Math.abs(beta) < 1e-12) break;
+  }
+
+  return best;
+}
+
+/**
+ * Zone of planes parallel to the reference plane enclosing every point.
+ */
+function zoneFromPlane(points: SurfacePoint[], plane: Plane): FlatnessZone {
+  const deviations = calculateDeviations(points, plane);
+  const maxDeviation = Math.max(...deviations);
+  const minDeviation = Math.min(...deviations);
+  return { plane, deviations, maxDeviation, minDeviation, width: maxDeviation - minDeviation };
+}
+
+/**
+ * Zone for the requested fitting method. Three-point planes require valid
+ * reference points (checked during input validation).
+ */
+function fitZone(input: FlatnessInput, method: FlatnessFitMethod): FlatnessZone {
+  const points = input.measuredPoints;
+  switch (method) {
+    case "least-squares":
+      return zoneFromPlane(points, fitPlane(points));
+    case "three-point": {
+      const [i, j, k] = input.referencePoints!;
+      return zoneFromPlane(points, planeThroughPoints(points[i], points[j], points[k])!);
+    }
+    case "minimum-zone":
+      return zoneFromPlane(points, fitMinimumZonePlane(points));
+  }
+}
+
+/**
+ * Points lying on the upper or lower bounding plane of the zone.
+ */
+function findContactPoints(zone: FlatnessZone, precision: Precision): FlatnessContactPoint[] {
+  const tolerance = 1e-9 * Math.max(1, zone.width);
+  const contacts: FlatnessContactPoint[] = [];
+  zone.deviations.forEach((deviation, index) => {
+    if (zone.maxDeviation - deviation <= tolerance) {
+      contacts.push({ index, side: "upper", deviation: round(deviation, precision) });
+    } else if (deviation - zone.minDeviation <= tolerance) {
+      contacts.push({ index, side: "lower", deviation: round(deviation, precision) });
+    }
+  });
+  return contacts;
+}
+
+/**
+ * Zone width with each applicable method, relative to minimum zone.
+ */
+function compareMethods(input: FlatnessInput, precision: Precision): FlatnessMethodComparison[] {
+  const methods: FlatnessFitMethod[] = ["minimum-zone", "least-squares"];
+  if (input.referencePoints) methods.push("three-point");
+
+  const widths = methods.map(method => fitZone(input, method).width);
+  return methods.map((method, i) => ({
+    method,
+    zoneWidth: round(widths[i], precision),
+    excessOverMinimumZone: round(Math.max(0, widths[i] - widths[0]), precision)
+  }));
+}
+
+function dot(u: number[], v: number[]): number {
+  return u[0] * v[0] + u[1] * v[1] + u[2] * v[2];
+}
+
+function cross(u: number[], v: number[]): number[] {
+  return [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+}
+
+function normalize(v: number[]): number[] {
+  const length = Math.sqrt(dot(v, v));
+  return v.map(value => value / length);
+}
+
 // ============================================================================
 // INPUT VALIDATION
 // ============================================================================
@@ -174,6 +364,34 @@ function validateFlatnessInput(input: FlatnessInput): CalculatorError[] {
     });
   }
 
+  const referencePoints = input.referencePoints;
+  if (input.fitMethod === "three-point" && input.totalIndicatorReading === undefined && !referencePoints) {
+    errors.push({
+      code: "MISSING_REFERENCE_POINTS",
+      message: "Three-point fitting requires the indices of the three reference points",
+      field: "referencePoints"
+    });
+  }
+
+  if (referencePoints) {
+    const points = input.measuredPoints;
+    const inRange = referencePoints.every(i => Number.isInteger(i) && i >= 0 && i < points.length);
+    const distinct = new Set(referencePoints).size === 3;
+    if (!inRange || !distinct) {
+      errors.push({
+        code: "INVALID_REFERENCE_POINTS",
+        message: "Reference points must be three distinct indices into the measured points",
+        field: "referencePoints"
+      });
+    } else if (!planeThroughPoints(points[referencePoints[0]], points[referencePoints[1]], points[referencePoints[2]])) {
+      errors.push({
+        code: "COLLINEAR_REFERENCE_POINTS",
+        message: "Reference points are collinear and do not define a plane",
+        field: "referencePoints"
+      });
+    }
+  }
+
   return errors;
 }
 
@@ -202,6 +420,10 @@ export function calculateFlatness(input: FlatnessInput): CalculatorResponse<Flat
   let measuredFlatness: number;
   let maxDeviation: number;
   let minDeviation: number;
+  let fitMethod: FlatnessFitMethod | undefined;
+  let planeNormal: SurfacePoint | undefined;
+  let contactPoints: FlatnessContactPoint[] = [];
+  let methodComparison: FlatnessMethodComparison[] = [];
 
   if (input.totalIndicatorReading !== undefined) {
     // Use pre-calculated TIR
@@ -210,12 +432,19 @@ export function calculateFlatness(input: FlatnessInput): CalculatorResponse<Flat
     minDeviation = -input.totalIndicatorReading / 2;
   } else {
     // Calculate from point cloud
-    const plane = fitPlane(input.measuredPoints);
-    const deviations = calculateDeviations(input.measuredPoints, plane);
-
-    maxDeviation = Math.max(...deviations);
-    minDeviation = Math.min(...deviations);
-    measuredFlatness = maxDeviation - minDeviation;
+    fitMethod = input.fitMethod ?? DEFAULT_FIT_METHOD;
+    const zone = fitZone(input, fitMethod);
+
+    maxDeviation = zone.maxDeviation;
+    minDeviation = zone.minDeviation;
+    measuredFlatness = zone.width;
+    planeNormal = {
+      x: round(zone.plane.a, 6),
+      y: round(zone.plane.b, 6),
+      z: round(zone.plane.c, 6)
+    };
+    contactPoints = findContactPoints(zone, precision);
+    methodComparison = compareMethods(input, precision);
   }
 
   // Round values
@@ -236,7 +465,8 @@ export function calculateFlatness(input: FlatnessInput): CalculatorResponse<Flat
     pass,
     measuredFlatness,
     input.tolerance,
-    toleranceConsumed
+    toleranceConsumed,
+    fitMethod
   );
 
   const result: FlatnessResult = {
@@ -250,7 +480,11 @@ export function calculateFlatness(input: FlatnessInput): CalculatorResponse<Flat
     minDeviation,
     totalZoneWidth,
     toleranceConsumed,
-    pointCount: input.measuredPoints.length
+    pointCount: input.measuredPoints.length,
+    fitMethod,
+    planeNormal,
+    contactPoints,
+    methodComparison
   };
 
   return { success: true, result };
@@ -263,12 +497,14 @@ function generateFlatnessSummary(
   pass: boolean,
   measured: number,
   tolerance: number,
-  consumed: number
+  consumed: number,
+  method?: FlatnessFitMethod
 ): string {
+  const basis = method ? `, ${FIT_METHOD_LABELS[method]}` : "";
   if (pass) {
-    return `PASS: Flatness ${measured.toFixed(4)} is within tolerance ${tolerance.toFixed(4)} (${consumed.toFixed(1)}% consumed)`;
+    return `PASS: Flatness ${measured.toFixed(4)} is within tolerance ${tolerance.toFixed(4)} (${consumed.toFixed(1)}% consumed${basis})`;
   } else {
-    return `FAIL: Flatness ${measured.toFixed(4)} exceeds tolerance ${tolerance.toFixed(4)} (${consumed.toFixed(1)}% consumed)`;
+    return `FAIL: Flatness ${measured.toFixed(4)} exceeds tolerance ${tolerance.toFixed(4)} (${consumed.toFixed(1)}% consumed${basis})`;
   }
 }
 
@@ -0,0 +1,324 @@
+/**
+ * Functional Gauge Designer
+ *
+ * Designs fixed-pin functional gauges for position tolerances at MMC
+ * (ASME Y14.5-2018, gauge tolerancing after ASME Y14.43).
+ *
+ * A functional gauge is a physical virtual condition boundary: it accepts a
+ * part when every feature clears a gauge element sized at the feature's
+ * virtual condition, located at true position relative to datum simulators
+ * sized at the datum features' maximum material boundaries.
+ *
+ * Key concepts:
+ * - Internal features (holes, slots) are checked with gauge pins, external
+ *   features (pins, bosses) with gauge holes
+ * - Feature element boundary: virtual condition (MMC ∓ stated tolerance)
+ * - Datum element boundary: MMB (default MMC size of the datum feature)
+ * - Gauge-maker and wear tolerances are given as an absolute amount or a
+ *   percentage of the part tolerance, and are applied inside the part
+ *   tolerance so the gauge never accepts a bad part
+ * - Part tolerance for a feature element is its size tolerance plus the
+ *   stated position tolerance; for a datum element, its size tolerance.
+ *   Elements without part tolerance are rejected, as no gauge tolerance fits
+ * - More than 10% of the part tolerance taken by the gauge is flagged
+ */
+
+import { calculateSizeLimits, calculateVirtualCondition, getFeatureClass } from "./size";
+import {
+  FeatureClass,
+  GaugeAllowance,
+  GaugeDesignInput,
+  GaugeDesignResult,
+  GaugeElement,
+  CalculatorError,
+  CalculatorResponse,
+  Precision
+} from "./types";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_PRECISION: Precision = 4;
+
+/** Largest share of the part tolerance (%) the gauge may take without a warning */
+const MAX_TOLERANCE_SHARE = 10;
+
+const NO_ALLOWANCE: GaugeAllowance = { type: "absolute", value: 0 };
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Round a number to specified decimal places.
+ */
+function round(value: number, precision: Precision): number {
+  const factor = Math.pow(10, precision);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Resolve an allowance against the part tolerance it is taken from.
+ */
+export function resolveAllowance(allowance: GaugeAllowance, partTolerance: number): number {
+  return allowance.type === "percentage" ? (allowance.value / 100) * partTolerance : allowance.value;
+}
+
+/**
+ * Size a gauge element for a boundary.
+ *
+ * A gauge pin (internal part feature) is made between boundary + wear and
+ * boundary + wear + gauge tolerance and wears down to the boundary; a gauge
+ * hole (external part feature) mirrors this below the boundary.
+ */
+function sizeElement(
+  label: string,
+  featureClass: FeatureClass,
+  boundaryType: GaugeElement["boundaryType"],
+  boundary: number,
+  partTolerance: number,
+  input: GaugeDesignInput,
+  quantity: number,
+  precision: Precision
+): GaugeElement {
+  const gaugeTolerance = resolveAllowance(input.gaugeTolerance, partTolerance);
+  const wearAllowance = resolveAllowance(input.wearAllowance ?? NO_ALLOWANCE, partTolerance);
+  const direction = featureClass === "internal" ? 1 : -1;
+  const made = [boundary + direction * wearAllowance, boundary + direction * (wearAllowance + gaugeTolerance)];
+
+  return {
+    label,
+    elementType: featureClass === "internal" ? "pin" : "hole",
+    boundaryType,
+    boundary: round(boundary, precision),
+    gaugeTolerance: round(gaugeTolerance, precision),
+    wearAllowance: round(wearAllowance, precision),
+    minSize: round(Math.min(...made), precision),
+    maxSize: round(Math.max(...made), precision),
+    wearLimit: round(boundary, precision),
+    partTolerance: round(partTolerance, precision),
+    toleranceShare: round(((gaugeTolerance + wearAllowance) / partTolerance) * 100, 1),
+    quantity
+  };
+}
+
+// ============================================================================
+// INPUT VALIDATION
+// ============================================================================
+
+/**
+ * Validate a gauge allowance.
+ */
+function validateAllowance(allowance: GaugeAllowance, field: string, name: string): CalculatorError[] {
+  if (allowance.value < 0) {
+    return [{ code: "INVALID_GAUGE_ALLOWANCE", message: `${name} cannot be negative`, field }];
+  }
+  if (allowance.type === "percentage" && allowance.value >= 100) {
+    return [{ code: "INVALID_GAUGE_ALLOWANCE", message: `${name} must be less than 100% of the part tolerance`, field }];
+  }
+  return [];
+}
+
+/**
+ * Validate gauge design inputs.
+ */
+function validateGaugeInput(input: GaugeDesignInput): CalculatorError[] {
+  const errors: CalculatorError[] = [];
+
+  if (input.materialCondition !== "MMC") {
+    errors.push({
+      code: "INVALID_MATERIAL_CONDITION",
+      message: "Fixed functional gauges check position at MMC only",
+      field: "materialCondition"
+    });
+  }
+
+  if (input.geometricTolerance < 0) {
+    errors.push({
+      code: "INVALID_TOLERANCE",
+      message: "Geometric tolerance cannot be negative",
+      field: "geometricTolerance"
+    });
+  }
+
+  if (!getFeatureClass(input.featureType)) {
+    errors.push({
+      code: "INVALID_FEATURE_TYPE",
+      message: `Feature type '${input.featureType}' is not a feature of size and cannot be gauged`,
+      field: "featureType"
+    });
+  }
+
+  if (input.sizeDimension.nominal <= 0) {
+    errors.push({
+      code: "INVALID_SIZE",
+      message: "Nominal size must be greater than zero",
+      field: "sizeDimension.nominal"
+    });
+  }
+
+  const { tolerancePlus, toleranceMinus } = input.sizeDimension;
+  if (tolerancePlus < 0 || toleranceMinus < 0) {
+    errors.push({
+      code: "INVALID_SIZE_TOLERANCE",
+      message: "Size tolerances cannot be negative",
+      field: "sizeDimension"
+    });
+  } else if (tolerancePlus + toleranceMinus + input.geometricTolerance <= 0) {
+    errors.push({
+      code: "INVALID_PART_TOLERANCE",
+      message: "Feature has no size or position tolerance for the gauge tolerances to be taken from",
+      field: "sizeDimension"
+    });
+  }
+
+  if (input.featureCount !== undefined && (!Number.isInteger(input.featureCount) || input.featureCount < 1)) {
+    errors.push({
+      code: "INVALID_FEATURE_COUNT",
+      message: "Feature count must be a positive whole number",
+      field: "featureCount"
+    });
+  }
+
+  (input.datumFeatures ?? []).forEach((datum, i) => {
+    if (datum.materialCondition !== "MMC") {
+      errors.push({
+        code: "UNSUPPORTED_DATUM_MODIFIER",
+        message: `Datum ${datum.id} must be referenced at MMB to be simulated by a fixed gauge element`,
+        field: `datumFeatures[${i}].materialCondition`
+      });
+    }
+    if (!getFeatureClass(datum.sizeDimension.featureType)) {
+      errors.push({
+        code: "INVALID_DATUM_FEATURE_TYPE",
+        message: `Datum ${datum.id} must be a feature of size to be simulated at MMB`,
+        field: `datumFeatures[${i}].sizeDimension.featureType`
+      });
+    }
+    if (datum.sizeDimension.tolerancePlus + datum.sizeDimension.toleranceMinus <= 0) {
+      errors.push({
+        code: "INVALID_PART_TOLERANCE",
+        message: `Datum ${datum.id} has no size tolerance for the gauge tolerances to be taken from`,
+        field: `datumFeatures[${i}].sizeDimension`
+      });
+    }
+    if (datum.materialBoundary !== undefined && datum.materialBoundary <= 0) {
+      errors.push({
+        code: "INVALID_DATUM_SIZE",
+        message: `Material boundary of datum ${datum.id} must be greater than zero`,
+        field: `datumFeatures[${i}].materialBoundary`
+      });
+    }
+  });
+
+  errors.push(...validateAllowance(input.gaugeTolerance, "gaugeTolerance", "Gauge tolerance"));
+  if (input.wearAllowance) {
+    errors.push(...validateAllowance(input.wearAllowance, "wearAllowance", "Wear allowance"));
+  }
+
+  return errors;
+}
+
+// ============================================================================
+// MAIN CALCULATOR FUNCTION
+// ============================================================================
+
+/**
+ * Design a fixed-pin functional gauge for a position tolerance at MMC.
+ *
+ * @param input - Gauge design inputs
+ * @returns Gauge element sizes and tolerances or validation errors
+ */
+export function designGauge(input: GaugeDesignInput): CalculatorResponse<GaugeDesignResult> {
+  const precision = input.precision ?? DEFAULT_PRECISION;
+
+  const errors = validateGaugeInput(input);
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  const featureClass = getFeatureClass(input.featureType) ?? "internal";
+  const sizeLimits = calculateSizeLimits(input.sizeDimension, precision);
+  const virtualCondition = calculateVirtualCondition(
+    sizeLimits,
+    input.geometricTolerance,
+    "MMC",
+    featureClass,
+    precision
+  );
+
+  const featurePartTolerance = sizeLimits.upperLimit - sizeLimits.lowerLimit + input.geometricTolerance;
+  const elements: GaugeElement[] = [
+    sizeElement(
+      "Feature",
+      featureClass,
+      "virtual-condition",
+      virtualCondition,
+      featurePartTolerance,
+      input,
+      input.featureCount ?? 1,
+      precision
+    )
+  ];
+
+  (input.datumFeatures ?? []).forEach((datum) => {
+    const datumLimits = calculateSizeLimits(datum.sizeDimension, precision);
+    elements.push(
+      sizeElement(
+        `Datum ${datum.id}`,
+        getFeatureClass(datum.sizeDimension.featureType) ?? "internal",
+        "MMB",
+        datum.materialBoundary ?? datumLimits.mmc,
+        datumLimits.upperLimit - datumLimits.lowerLimit,
+        input,
+        1,
+        precision
+      )
+    );
+  });
+
+  const locationTolerance = round(resolveAllowance(input.gaugeTolerance, input.geometricTolerance), precision);
+  const maxToleranceShare = Math.max(...elements.map((element) => element.toleranceShare));
+  const withinShare = maxToleranceShare <= MAX_TOLERANCE_SHARE;
+
+  const result: GaugeDesignResult = {
+    status: withinShare ? "pass" : "warning",
+    summary: generateGaugeSummary(elements, maxToleranceShare, withinShare),
+    timestamp: new Date().toISOString(),
+    unit: input.unit,
+    name: input.name,
+    statedTolerance: input.geometricTolerance,
+    sizeLimits,
+    virtualCondition,
+    elements,
+    locationTolerance,
+    maxToleranceShare
+  };
+
+  return { success: true, result };
+}
+
+/**
+ * Generate human-readable summary for a gauge design.
+ */
+function generateGaugeSummary(elements: GaugeElement[], maxShare: number, withinShare: boolean): string {
+  const lines: string[] = [];
+
+  if (withinShare) {
+    lines.push(`PASS: Gauge tolerances take ${maxShare.toFixed(1)}% of the part tolerance at most.`);
+  } else {
+    lines.push(
+      `WARNING: Gauge tolerances take ${maxShare.toFixed(1)}% of the part tolerance (more than ${MAX_TOLERANCE_SHARE}%).`
+    );
+  }
+
+  elements.forEach((element) => {
+    const quantity = element.quantity > 1 ? `${element.quantity}X ` : "";
+    lines.push(
+      `${element.label}: ${quantity}gauge ${element.elementType} Ø${element.minSize.toFixed(4)}-${element.maxSize.toFixed(4)} (wear limit Ø${element.wearLimit.toFixed(4)})`
+    );
+  });
+
+  return lines.join(" ");
+}
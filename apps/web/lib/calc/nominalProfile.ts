@@ -0,0 +1,349 @@
+/**
+ * Nominal profile geometry for the profile calculator.
+ *
+ * Raw measured coordinates are compared with a nominal (true) profile: each
+ * point is projected onto the nearest element of the nominal and its signed
+ * normal distance becomes the profile deviation (+ = outside the material,
+ * - = inside), with the position reported as distance along the nominal.
+ *
+ * Key concepts:
+ * - Polylines and line/arc segments are 2D (profile of a line); Z is ignored
+ * - Sampled curves or surfaces are matched to the nearest sample and measured
+ *   along its normal, so they must be sampled densely relative to curvature
+ * - Form-only profiles (no datums) may float: the points are rotated about
+ *   their centroid and translated to minimize the largest zone violation
+ */
+
+import { minimize } from "./optimize";
+import {
+  NominalProfile,
+  ProfileAlignment,
+  ProfileCoordinate,
+  ProfilePoint,
+  CalculatorError
+} from "./types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type Vec3 = [number, number, number];
+
+/**
+ * Nearest point of one nominal element to a measured point.
+ */
+interface Projection {
+  /** Distance to the nearest point of the element */
+  distance: number;
+  /** Signed normal deviation (+ = outside the material) */
+  deviation: number;
+  /** Distance along the element to the nearest point */
+  along: number;
+}
+
+interface NominalElement {
+  length: number;
+  project(p: Vec3): Projection;
+}
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+function toVec(p: ProfileCoordinate): Vec3 {
+  return [p.x, p.y, p.z ?? 0];
+}
+
+/** Angle normalized into [0, 2π) */
+function wrap(angle: number): number {
+  const turn = 2 * Math.PI;
+  return ((angle % turn) + turn) % turn;
+}
+
+/**
+ * Straight element from a to b in the XY plane. The + side is to the right of
+ * the direction of travel (material on the left) unless flipped.
+ */
+function lineElement(a: ProfileCoordinate, b: ProfileCoordinate, sign: number): NominalElement {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const length = Math.hypot(dx, dy);
+
+  return {
+    length,
+    project: ([px, py]) => {
+      const t = Math.min(1, Math.max(0, ((px - a.x) * dx + (py - a.y) * dy) / (length * length)));
+      const distance = Math.hypot(px - (a.x + t * dx), py - (a.y + t * dy));
+      // Side from the offset normal to the line, so points beyond an end keep their side
+      const side = ((px - a.x) * dy - (py - a.y) * dx) / length;
+      return { distance, deviation: sign * (side < 0 ? -distance : distance), along: t * length };
+    }
+  };
+}
+
+/**
+ * Circular arc in the XY plane. Travelling counter-clockwise the + side is
+ * radially outward.
+ */
+function arcElement(
+  center: ProfileCoordinate,
+  radius: number,
+  startAngle: number,
+  endAngle: number,
+  clockwise: boolean,
+  sign: number
+): NominalElement {
+  const start = (startAngle * Math.PI) / 180;
+  const end = (endAngle * Math.PI) / 180;
+  const sweep = wrap(clockwise ? start - end : end - start) || 2 * Math.PI;
+  const radial = clockwise ? -sign : sign;
+  const pointAt = (angle: number) => [center.x + radius * Math.cos(angle), center.y + radius * Math.sin(angle)];
+  const [sx, sy] = pointAt(start);
+  const [ex, ey] = pointAt(end);
+
+  return {
+    length: radius * sweep,
+    project: ([px, py]) => {
+      const r = Math.hypot(px - center.x, py - center.y);
+      const angle = Math.atan2(py - center.y, px - center.x);
+      const u = wrap(clockwise ? start - angle : angle - start);
+      if (u <= sweep) {
+        return { distance: Math.abs(r - radius), deviation: radial * (r - radius), along: radius * u };
+      }
+
+      // Beyond the arc: nearest end point, keeping the radial side
+      const toStart = Math.hypot(px - sx, py - sy);
+      const toEnd = Math.hypot(px - ex, py - ey);
+      const distance = Math.min(toStart, toEnd);
+      return {
+        distance,
+        deviation: radial * (r < radius ? -distance : distance),
+        along: toStart <= toEnd ? 0 : radius * sweep
+      };
+    }
+  };
+}
+
+/**
+ * Sample of a CAD curve or surface: deviation along its outward normal.
+ */
+function sampleElement(point: ProfileCoordinate, normal: ProfileCoordinate, length: number): NominalElement {
+  const s = toVec(point);
+  const n = toVec(normal);
+  const norm = Math.hypot(n[0], n[1], n[2]);
+
+  return {
+    length,
+    project: (p) => {
+      const d = [p[0] - s[0], p[1] - s[1], p[2] - s[2]];
+      return {
+        distance: Math.hypot(d[0], d[1], d[2]),
+        deviation: (d[0] * n[0] + d[1] * n[1] + d[2] * n[2]) / norm,
+        along: 0
+      };
+    }
+  };
+}
+
+/**
+ * Break a nominal profile into elements in order of travel.
+ */
+function nominalElements(nominal: NominalProfile): NominalElement[] {
+  switch (nominal.type) {
+    case "polyline": {
+      const sign = nominal.materialSide === "right" ? -1 : 1;
+      const vertices = nominal.closed ? [...nominal.vertices, nominal.vertices[0]] : nominal.vertices;
+      return vertices.slice(1).map((vertex, i) => lineElement(vertices[i], vertex, sign));
+    }
+    case "segments": {
+      const sign = nominal.materialSide === "right" ? -1 : 1;
+      return nominal.segments.map((segment) =>
+        segment.type === "line"
+          ? lineElement(segment.start, segment.end, sign)
+          : arcElement(
+              segment.center,
+              segment.radius,
+              segment.startAngle,
+              segment.endAngle,
+              segment.clockwise ?? false,
+              sign
+            )
+      );
+    }
+    case "sampled":
+      return nominal.samples.map((sample, i) => {
+        const next = nominal.samples[i + 1];
+        const length = next
+          ? Math.hypot(
+              next.point.x - sample.point.x,
+              next.point.y - sample.point.y,
+              (next.point.z ?? 0) - (sample.point.z ?? 0)
+            )
+          : 0;
+        return sampleElement(sample.point, sample.normal, length);
+      });
+  }
+}
+
+/**
+ * Whether the nominal needs a spatial (6 degree of freedom) best fit rather
+ * than a planar one: only sampled surfaces with out-of-plane normals do.
+ */
+function isSpatial(nominal: NominalProfile): boolean {
+  return nominal.type === "sampled" && nominal.samples.some((sample) => Math.abs(sample.normal.z ?? 0) > 1e-9);
+}
+
+function centroidOf(points: Vec3[]): Vec3 {
+  return [0, 1, 2].map((k) => points.reduce((sum, p) => sum + p[k], 0) / points.length) as Vec3;
+}
+
+/**
+ * Rotate points about the centroid (X, then Y, then Z) and translate.
+ */
+function alignPoints(points: Vec3[], centroid: Vec3, alignment: ProfileAlignment): Vec3[] {
+  const [ax, ay, az] = [alignment.rx, alignment.ry, alignment.rz].map((deg) => (deg * Math.PI) / 180);
+  const [cx, sx, cy, sy, cz, sz] = [Math.cos(ax), Math.sin(ax), Math.cos(ay), Math.sin(ay), Math.cos(az), Math.sin(az)];
+
+  return points.map((p) => {
+    let x = p[0] - centroid[0];
+    let y = p[1] - centroid[1];
+    let z = p[2] - centroid[2];
+    [y, z] = [y * cx - z * sx, y * sx + z * cx];
+    [x, z] = [x * cy + z * sy, -x * sy + z * cy];
+    [x, y] = [x * cz - y * sz, x * sz + y * cz];
+    return [x + centroid[0] + alignment.dx, y + centroid[1] + alignment.dy, z + centroid[2] + alignment.dz];
+  });
+}
+
+function deviationsOf(points: Vec3[], elements: NominalElement[]): ProfilePoint[] {
+  const offsets: number[] = [];
+  elements.reduce((offset, element) => {
+    offsets.push(offset);
+    return offset + element.length;
+  }, 0);
+
+  return points.map((p) => {
+    let best: ProfilePoint = { position: 0, deviation: 0 };
+    let bestDistance = Infinity;
+    elements.forEach((element, i) => {
+      const projection = element.project(p);
+      if (projection.distance < bestDistance) {
+        bestDistance = projection.distance;
+        best = { position: offsets[i] + projection.along, deviation: projection.deviation };
+      }
+    });
+    return best;
+  });
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate the geometry of a nominal profile.
+ */
+export function validateNominalProfile(nominal: NominalProfile): CalculatorError[] {
+  const invalid = (message: string): CalculatorError[] => [
+    { code: "INVALID_NOMINAL_PROFILE", message, field: "nominalProfile" }
+  ];
+
+  switch (nominal.type) {
+    case "polyline": {
+      if (nominal.vertices.length < 2) {
+        return invalid("A nominal polyline needs at least two vertices");
+      }
+      const vertices = nominal.closed ? [...nominal.vertices, nominal.vertices[0]] : nominal.vertices;
+      if (vertices.slice(1).some((v, i) => Math.hypot(v.x - vertices[i].x, v.y - vertices[i].y) === 0)) {
+        return invalid("Consecutive polyline vertices must not coincide");
+      }
+      return [];
+    }
+    case "segments": {
+      if (nominal.segments.length === 0) {
+        return invalid("A nominal profile needs at least one line or arc");
+      }
+      const degenerate = nominal.segments.some((segment) =>
+        segment.type === "line"
+          ? Math.hypot(segment.end.x - segment.start.x, segment.end.y - segment.start.y) === 0
+          : !(segment.radius > 0)
+      );
+      return degenerate ? invalid("Lines must have length and arcs a positive radius") : [];
+    }
+    case "sampled": {
+      if (nominal.samples.length < 2) {
+        return invalid("A sampled nominal needs at least two samples");
+      }
+      if (nominal.samples.some(({ normal }) => Math.hypot(normal.x, normal.y, normal.z ?? 0) === 0)) {
+        return invalid("Every nominal sample needs a non-zero normal");
+      }
+      return [];
+    }
+  }
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Signed normal deviations of raw points from the nominal profile, after an
+ * optional best-fit alignment.
+ */
+export function nominalDeviations(
+  points: ProfileCoordinate[],
+  nominal: NominalProfile,
+  alignment?: ProfileAlignment
+): ProfilePoint[] {
+  const vectors = points.map(toVec);
+  const aligned = alignment ? alignPoints(vectors, centroidOf(vectors), alignment) : vectors;
+  return deviationsOf(aligned, nominalElements(nominal));
+}
+
+/**
+ * Best-fit alignment of a form-only profile: the rotation and translation
+ * minimizing the largest violation of the zone boundaries, so the points are
+ * centered in the zone as far as its disposition allows.
+ */
+export function fitProfileAlignment(
+  points: ProfileCoordinate[],
+  nominal: NominalProfile,
+  allowableOutside: number,
+  allowableInside: number
+): ProfileAlignment {
+  const vectors = points.map(toVec);
+  const centroid = centroidOf(vectors);
+  const elements = nominalElements(nominal);
+  const spatial = isSpatial(nominal);
+
+  // Rotations are parameterized as arc length at the point cloud radius so
+  // all parameters share a length scale
+  const radius = Math.max(
+    ...vectors.map((p) => Math.hypot(p[0] - centroid[0], p[1] - centroid[1], p[2] - centroid[2])),
+    1e-9
+  );
+  const toDegrees = (arc: number) => ((arc / radius) * 180) / Math.PI;
+  const toAlignment = (params: number[]): ProfileAlignment =>
+    spatial
+      ? {
+          dx: params[0],
+          dy: params[1],
+          dz: params[2],
+          rx: toDegrees(params[3]),
+          ry: toDegrees(params[4]),
+          rz: toDegrees(params[5])
+        }
+      : { dx: params[0], dy: params[1], dz: 0, rx: 0, ry: 0, rz: toDegrees(params[2]) };
+
+  const violation = (params: number[]): number =>
+    Math.max(
+      ...deviationsOf(alignPoints(vectors, centroid, toAlignment(params)), elements).map(({ deviation }) =>
+        Math.max(deviation - allowableOutside, -deviation - allowableInside)
+      )
+    );
+
+  const start = new Array(spatial ? 6 : 3).fill(0);
+  const initial = deviationsOf(vectors, elements).map(({ deviation }) => Math.abs(deviation));
+  const step = Math.max(allowableOutside + allowableInside, ...initial, 1e-6);
+  return toAlignment(minimize(violation, start, { step, tolerance: 1e-12 }).point);
+}
@@ -0,0 +1,305 @@
+/**
+ * Numerical optimization shared by the best-fit calculators.
+ *
+ * Best-fit GD&T evaluations minimize a worst-case (minimax) objective such as
+ * the largest tolerance consumption across a pattern or the width of a form
+ * zone. Two solvers are provided:
+ * - minimize: derivative-free Nelder-Mead simplex, restarted from its own
+ *   optimum until it stops improving, for general non-smooth objectives
+ * - minimaxFit: exact Chebyshev (minimum-zone) fit of a linear model, solved
+ *   as a linear program, for flatness, straightness and linearized roundness
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MinimizeOptions {
+  /** Initial simplex step per parameter (scalar applies to all). Default 1 */
+  step?: number | number[];
+  /** Stop when the simplex values differ by less than this. Default 1e-10 */
+  tolerance?: number;
+  /** Iteration limit per restart. Default 200 × parameter count */
+  maxIterations?: number;
+  /** Restart limit. Default 10 */
+  maxRestarts?: number;
+}
+
+export interface MinimaxFitResult {
+  /** Model coefficients minimizing the largest absolute residual */
+  coefficients: number[];
+  /** Largest absolute residual (half the zone width) */
+  deviation: number;
+  /** Residuals value - model for each observation */
+  residuals: number[];
+  /** Whether the solver reached the optimum within its iteration limit */
+  converged: boolean;
+}
+
+export interface MinimizeResult {
+  /** Parameters at the minimum found */
+  point: number[];
+  /** Objective value at the minimum */
+  value: number;
+  /** Total iterations across restarts */
+  iterations: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const REFLECTION = 1;
+const EXPANSION = 2;
+const CONTRACTION = 0.5;
+const SHRINK = 0.5;
+
+// ============================================================================
+// NELDER-MEAD
+// ============================================================================
+
+interface Vertex {
+  point: number[];
+  value: number;
+}
+
+function combine(a: number[], b: number[], weight: number): number[] {
+  // a + weight × (b - a)
+  return a.map((ai, i) => ai + weight * (b[i] - ai));
+}
+
+/**
+ * Run one Nelder-Mead descent from `start`.
+ */
+function descend(
+  objective: (point: number[]) => number,
+  start: number[],
+  steps: number[],
+  tolerance: number,
+  maxIterations: number
+): { best: Vertex; iterations: number } {
+  const n = start.length;
+  const simplex: Vertex[] = [{ point: start, value: objective(start) }];
+  for (let i = 0; i < n; i++) {
+    const point = [...start];
+    point[i] += steps[i];
+    simplex.push({ point, value: objective(point) });
+  }
+
+  let iterations = 0;
+  while (iterations < maxIterations) {
+    simplex.sort((a, b) => a.value - b.value);
+    const best = simplex[0];
+    const worst = simplex[n];
+    if (Math.abs(worst.value - best.value) <= tolerance) break;
+    iterations++;
+
+    // Centroid of all vertices except the worst
+    const centroid = new Array(n).fill(0);
+    for (let v = 0; v < n; v++) {
+      for (let i = 0; i < n; i++) centroid[i] += simplex[v].point[i] / n;
+    }
+
+    const reflected = combine(centroid, worst.point, -REFLECTION);
+    const reflectedValue = objective(reflected);
+
+    if (reflectedValue < best.value) {
+      const expanded = combine(centroid, worst.point, -EXPANSION);
+      const expandedValue = objective(expanded);
+      simplex[n] =
+        expandedValue < reflectedValue
+          ? { point: expanded, value: expandedValue }
+          : { point: reflected, value: reflectedValue };
+      continue;
+    }
+
+    if (reflectedValue < simplex[n - 1].value) {
+      simplex[n] = { point: reflected, value: reflectedValue };
+      continue;
+    }
+
+    // Contract toward the better of the worst and reflected vertices
+    const outside = reflectedValue < worst.value;
+    const contracted = combine(centroid, outside ? reflected : worst.point, CONTRACTION);
+    const contractedValue = objective(contracted);
+    if (contractedValue < Math.min(reflectedValue, worst.value)) {
+      simplex[n] = { point: contracted, value: contractedValue };
+      continue;
+    }
+
+    // Shrink everything toward the best vertex
+    for (let v = 1; v <= n; v++) {
+      const point = combine(best.point, simplex[v].point, SHRINK);
+      simplex[v] = { point, value: objective(point) };
+    }
+  }
+
+  simplex.sort((a, b) => a.value - b.value);
+  return { best: simplex[0], iterations };
+}
+
+/**
+ * Minimize `objective` starting from `start` with a restarted Nelder-Mead
+ * simplex. Each restart rebuilds the simplex around the best point with the
+ * initial step, which escapes the premature collapse plain Nelder-Mead is
+ * prone to on minimax objectives.
+ */
+export function minimize(
+  objective: (point: number[]) => number,
+  start: number[],
+  options: MinimizeOptions = {}
+): MinimizeResult {
+  if (start.length === 0) {
+    return { point: [], value: objective([]), iterations: 0 };
+  }
+
+  const steps = Array.isArray(options.step)
+    ? options.step
+    : new Array(start.length).fill(options.step ?? 1);
+  const tolerance = options.tolerance ?? 1e-10;
+  const maxIterations = options.maxIterations ?? 200 * start.length;
+  const maxRestarts = options.maxRestarts ?? 10;
+
+  let best: Vertex = { point: start, value: objective(start) };
+  let iterations = 0;
+
+  for (let restart = 0; restart <= maxRestarts; restart++) {
+    // Later restarts search a progressively finer neighbourhood
+    const scale = Math.pow(0.5, restart);
+    const run = descend(objective, best.point, steps.map((s) => s * scale), tolerance, maxIterations);
+    iterations += run.iterations;
+
+    const improvement = best.value - run.best.value;
+    if (run.best.value < best.value) best = run.best;
+    if (restart > 0 && improvement <= tolerance) break;
+  }
+
+  return { point: best.point, value: best.value, iterations };
+}
+
+// ============================================================================
+// MINIMAX (CHEBYSHEV) LINEAR FIT
+// ============================================================================
+
+/**
+ * Solve the square system A x = b by Gaussian elimination with partial
+ * pivoting. Returns null when A is singular.
+ */
+export function solveLinearSystem(matrix: number[][], rhs: number[]): number[] | null {
+  const n = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-14) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+/**
+ * Fit `values[i] ≈ basis[i] · coefficients` minimizing the largest absolute
+ * residual.
+ *
+ * The primal problem (minimize h subject to |values[i] - basis[i] · β| ≤ h)
+ * has only k + 1 unknowns but 2n constraints, so its dual is solved instead:
+ * k + 1 rows and 2n + 1 columns, with each iteration a (k + 1)-square solve
+ * and one pass over the observations. Bland's rule prevents cycling on the
+ * degenerate starting basis. The simplex multipliers of the optimal dual
+ * basis are the primal solution (β, h).
+ */
+export function minimaxFit(basis: number[][], values: number[], maxIterations?: number): MinimaxFitResult {
+  const n = values.length;
+  const k = basis[0]?.length ?? 0;
+  const m = k + 1;
+  const scale = Math.max(1, ...values.map(Math.abs), ...basis.flat().map(Math.abs));
+  const eps = 1e-12 * scale;
+
+  // Column j: 0..n-1 = upper contact u_i, n..2n-1 = lower contact w_i, 2n = slack,
+  // 2n+1..2n+k = artificials (fixed at zero, never re-enter)
+  const slack = 2 * n;
+  const column = (j: number): number[] => {
+    if (j < n) return [...basis[j], 1];
+    if (j < 2 * n) return [...basis[j - n].map((b) => -b), 1];
+    if (j === slack) return [...new Array(k).fill(0), 1];
+    const unit = new Array(m).fill(0);
+    unit[j - slack - 1] = 1;
+    return unit;
+  };
+  const cost = (j: number): number => (j < n ? values[j] : j < 2 * n ? -values[j - n] : 0);
+  const isArtificial = (j: number) => j > slack;
+
+  let basic = [...Array.from({ length: k }, (_, i) => slack + 1 + i), slack];
+  let level = [...new Array(k).fill(0), 1];
+  let multipliers = new Array(m).fill(0);
+  let converged = false;
+  const limit = maxIterations ?? 50 * (2 * n + m);
+
+  for (let iteration = 0; iteration < limit; iteration++) {
+    // Simplex multipliers: B^T π = c_B (row j of B^T is basic column j)
+    const columns = basic.map(column);
+    multipliers = solveLinearSystem(columns, basic.map(cost)) ?? multipliers;
+
+    // Bland's rule: lowest-index column with a positive reduced cost enters
+    let entering = -1;
+    for (let j = 0; j <= slack; j++) {
+      if (basic.includes(j)) continue;
+      const col = column(j);
+      const reduced = cost(j) - col.reduce((sum, c, r) => sum + c * multipliers[r], 0);
+      if (reduced > eps) {
+        entering = j;
+        break;
+      }
+    }
+    if (entering === -1) {
+      converged = true;
+      break;
+    }
+
+    const basisMatrix = Array.from({ length: m }, (_, r) => columns.map((c) => c[r]));
+    const direction = solveLinearSystem(basisMatrix, column(entering));
+    if (!direction) break;
+
+    // Ratio test; artificials block at zero in either direction
+    let leaving = -1;
+    let bestRatio = Infinity;
+    direction.forEach((d, r) => {
+      const blocks = isArtificial(basic[r]) ? Math.abs(d) > eps : d > eps;
+      if (!blocks) return;
+      const ratio = isArtificial(basic[r]) ? 0 : level[r] / d;
+      if (ratio < bestRatio - eps || (Math.abs(ratio - bestRatio) <= eps && basic[r] < basic[leaving])) {
+        bestRatio = ratio;
+        leaving = r;
+      }
+    });
+    // The dual is bounded (Σ u + w ≤ 1), so a blocking row always exists
+    if (leaving === -1) break;
+
+    level = level.map((value, r) => (r === leaving ? bestRatio : value - bestRatio * direction[r]));
+    basic = basic.map((j, r) => (r === leaving ? entering : j));
+  }
+
+  const coefficients = multipliers.slice(0, k);
+  const residuals = values.map((value, i) => value - basis[i].reduce((sum, b, j) => sum + b * coefficients[j], 0));
+  return {
+    coefficients,
+    deviation: Math.max(...residuals.map(Math.abs)),
+    residuals,
+    converged
+  };
+}
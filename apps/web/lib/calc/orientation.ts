@@ -0,0 +1,299 @@
+/**
+ * Orientation Evaluation
+ *
+ * Shared core of the parallelism and angularity calculators (ASME
+ * Y14.5-2018). Both controls orient a zone to the datum at a basic angle,
+ * 0° for parallelism, and leave the zone free to translate: only the spread
+ * of the feature across the zone direction counts, not its location.
+ *
+ * Key concepts:
+ * - Always requires at least one datum reference
+ * - Surfaces: zone is two parallel planes at the basic angle to the datum
+ * - Axes (FOS): zone is two parallel planes or, with ⌀, a cylinder, and may
+ *   apply MMC/LMC with bonus tolerance
+ * - Measured points are given in the datum frame (x along the datum, y normal
+ *   to it); indicator readings give the full indicator movement directly
+ */
+
+import { angularToLinear } from "./perpendicularity";
+import { minimize } from "./optimize";
+import { calculateBonusTolerance, calculateSizeLimits, calculateVirtualCondition, getFeatureClass } from "./size";
+import {
+  OrientationInput,
+  OrientationMeasurement,
+  OrientationPoint,
+  OrientationResult,
+  SizeLimits,
+  CalculatorError,
+  Precision
+} from "./types";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_PRECISION: Precision = 4;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Characteristic-specific settings for an orientation evaluation.
+ */
+export interface OrientationOptions {
+  /** Characteristic name used in messages and the summary */
+  name: "Parallelism" | "Angularity";
+  /** Basic angle from the datum (degrees) */
+  basicAngle: number;
+}
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Round a number to specified decimal places.
+ */
+function round(value: number, precision: Precision): number {
+  const factor = Math.pow(10, precision);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Width of the zone at the basic angle needed to contain the points.
+ *
+ * Each point's distance across the zone direction is d = y·cos θ - x·sin θ.
+ * A planar zone spans max(d) - min(d); a cylindrical zone must contain the
+ * (d, z) offsets, so its diameter is that of their smallest enclosing circle.
+ */
+export function orientationZoneWidth(
+  points: OrientationPoint[],
+  basicAngle: number,
+  diametral: boolean
+): number {
+  const angle = (basicAngle * Math.PI) / 180;
+  const across = points.map((p) => ({ d: p.y * Math.cos(angle) - p.x * Math.sin(angle), z: p.z ?? 0 }));
+  const spread = Math.max(...across.map((p) => p.d)) - Math.min(...across.map((p) => p.d));
+  if (!diametral) return spread;
+
+  const center = [
+    across.reduce((sum, p) => sum + p.d, 0) / across.length,
+    across.reduce((sum, p) => sum + p.z, 0) / across.length
+  ];
+  const radius = ([cd, cz]: number[]) => Math.max(...across.map((p) => Math.hypot(p.d - cd, p.z - cz)));
+  const step = Math.max(spread, ...across.map((p) => Math.abs(p.z - center[1])), 1e-9);
+  return 2 * minimize(radius, center, { step, tolerance: 1e-14 }).value;
+}
+
+/**
+ * Measured deviation and how it was obtained, in order of preference:
+ * points, indicator readings, linear deviation, angular deviation.
+ */
+function measureDeviation(
+  input: OrientationInput,
+  basicAngle: number
+): { deviation: number; method: OrientationMeasurement } {
+  if (input.measuredPoints && input.measuredPoints.length > 0) {
+    return {
+      deviation: orientationZoneWidth(input.measuredPoints, basicAngle, input.diametralZone ?? false),
+      method: "points"
+    };
+  }
+  if (input.indicatorReadings && input.indicatorReadings.length > 0) {
+    return {
+      deviation: Math.max(...input.indicatorReadings) - Math.min(...input.indicatorReadings),
+      method: "indicator"
+    };
+  }
+  if (input.linearDeviation !== undefined) {
+    return { deviation: Math.abs(input.linearDeviation), method: "linear" };
+  }
+  return {
+    deviation: Math.abs(angularToLinear(input.angularDeviation ?? 0, input.measurementLength ?? 0)),
+    method: "angular"
+  };
+}
+
+// ============================================================================
+// INPUT VALIDATION
+// ============================================================================
+
+/**
+ * Validate inputs shared by the orientation calculators.
+ */
+export function validateOrientationInput(input: OrientationInput, name: string): CalculatorError[] {
+  const errors: CalculatorError[] = [];
+  const isFeatureOfSize = getFeatureClass(input.featureType) !== null;
+
+  if (input.tolerance <= 0) {
+    errors.push({
+      code: "INVALID_TOLERANCE",
+      message: `${name} tolerance must be greater than zero`,
+      field: "tolerance"
+    });
+  }
+
+  const materialCondition = input.materialCondition ?? "RFS";
+  if (materialCondition !== "RFS") {
+    if (!input.sizeDimension) {
+      errors.push({
+        code: "MISSING_SIZE_DIMENSION",
+        message: "Size dimension is required for MMC/LMC calculations",
+        field: "sizeDimension"
+      });
+    }
+    if (input.actualSize === undefined) {
+      errors.push({
+        code: "MISSING_ACTUAL_SIZE",
+        message: "Actual size is required for MMC/LMC calculations",
+        field: "actualSize"
+      });
+    }
+    if (!isFeatureOfSize) {
+      errors.push({
+        code: "INVALID_MATERIAL_CONDITION",
+        message: `Feature type '${input.featureType}' does not support ${materialCondition}`,
+        field: "materialCondition"
+      });
+    }
+  }
+
+  if (input.diametralZone && !isFeatureOfSize) {
+    errors.push({
+      code: "INVALID_ZONE",
+      message: "A cylindrical zone only applies to the axis of a feature of size",
+      field: "diametralZone"
+    });
+  }
+
+  const hasPoints = input.measuredPoints !== undefined && input.measuredPoints.length > 0;
+  const hasReadings = input.indicatorReadings !== undefined && input.indicatorReadings.length > 0;
+
+  if (!hasPoints && !hasReadings && input.linearDeviation === undefined && input.angularDeviation === undefined) {
+    errors.push({
+      code: "NO_MEASUREMENTS",
+      message: "Measured points, indicator readings, or a linear or angular deviation must be provided",
+      field: "measuredPoints"
+    });
+  }
+
+  if (hasPoints && input.measuredPoints!.length < 2) {
+    errors.push({
+      code: "INSUFFICIENT_POINTS",
+      message: "At least two measured points are required",
+      field: "measuredPoints"
+    });
+  }
+
+  if (hasReadings && input.indicatorReadings!.length < 2) {
+    errors.push({
+      code: "INSUFFICIENT_READINGS",
+      message: "At least two indicator readings are required",
+      field: "indicatorReadings"
+    });
+  }
+
+  if (
+    !hasPoints &&
+    !hasReadings &&
+    input.linearDeviation === undefined &&
+    input.angularDeviation !== undefined &&
+    input.measurementLength === undefined
+  ) {
+    errors.push({
+      code: "MISSING_MEASUREMENT_LENGTH",
+      message: "Measurement length is required when using angular deviation",
+      field: "measurementLength"
+    });
+  }
+
+  return errors;
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Evaluate an orientation tolerance at a basic angle to the datum.
+ * Inputs must already have passed validateOrientationInput.
+ */
+export function evaluateOrientation(
+  input: OrientationInput,
+  options: OrientationOptions
+): OrientationResult {
+  const precision = input.precision ?? DEFAULT_PRECISION;
+  const materialCondition = input.materialCondition ?? "RFS";
+  const featureClass = getFeatureClass(input.featureType);
+
+  let sizeLimits: SizeLimits | undefined;
+  let bonusTolerance = 0;
+  let virtualCondition: number | undefined;
+
+  if (featureClass && input.sizeDimension && input.actualSize !== undefined) {
+    sizeLimits = calculateSizeLimits(input.sizeDimension, precision);
+    bonusTolerance = calculateBonusTolerance(input.actualSize, sizeLimits, materialCondition, featureClass, precision);
+    virtualCondition =
+      materialCondition === "RFS"
+        ? undefined
+        : calculateVirtualCondition(sizeLimits, input.tolerance, materialCondition, featureClass, precision);
+  }
+
+  const totalAllowableTolerance = round(input.tolerance + bonusTolerance, precision);
+  const { deviation, method } = measureDeviation(input, options.basicAngle);
+  const measuredDeviation = round(deviation, precision);
+
+  const pass = measuredDeviation <= totalAllowableTolerance;
+  const toleranceConsumed = round((measuredDeviation / totalAllowableTolerance) * 100, 1);
+
+  return {
+    status: pass ? "pass" : "fail",
+    summary: generateOrientationSummary(
+      options.name,
+      pass,
+      measuredDeviation,
+      totalAllowableTolerance,
+      bonusTolerance,
+      materialCondition
+    ),
+    timestamp: new Date().toISOString(),
+    unit: input.unit,
+    statedTolerance: input.tolerance,
+    materialCondition,
+    controlledElement: featureClass ? "axis" : "surface",
+    measurementMethod: method,
+    bonusTolerance,
+    totalAllowableTolerance,
+    measuredDeviation,
+    virtualCondition,
+    sizeLimits,
+    toleranceConsumed
+  };
+}
+
+/**
+ * Generate human-readable summary for an orientation result.
+ */
+function generateOrientationSummary(
+  name: string,
+  pass: boolean,
+  measured: number,
+  totalAllowable: number,
+  bonus: number,
+  materialCondition: string
+): string {
+  const lines: string[] = [];
+
+  if (pass) {
+    lines.push(`PASS: ${name} ${measured.toFixed(4)} is within tolerance ${totalAllowable.toFixed(4)}`);
+  } else {
+    lines.push(`FAIL: ${name} ${measured.toFixed(4)} exceeds tolerance ${totalAllowable.toFixed(4)}`);
+  }
+
+  if (materialCondition !== "RFS" && bonus > 0) {
+    lines.push(`(includes ${bonus.toFixed(4)} bonus from ${materialCondition})`);
+  }
+
+  return lines.join(" ");
+}
@@ -0,0 +1,38 @@
+/**
+ * Parallelism Tolerance Calculator
+ *
+ * Implements ASME Y14.5-2018 parallelism tolerance calculations.
+ *
+ * Parallelism is an orientation tolerance that controls a surface or axis
+ * at exactly 0 degrees to a datum plane or axis.
+ *
+ * Key concepts:
+ * - Always requires at least one datum reference
+ * - For surfaces: tolerance zone is two planes parallel to the datum; the
+ *   full indicator movement of an indicator traversed along the datum is the
+ *   measured deviation
+ * - For axes (FOS): tolerance zone can be cylindrical with MMC/LMC bonus
+ * - Parallelism of a surface also limits its flatness
+ */
+
+import { evaluateOrientation, validateOrientationInput } from "./orientation";
+import { ParallelismInput, ParallelismResult, CalculatorResponse } from "./types";
+
+// ============================================================================
+// MAIN CALCULATOR FUNCTION
+// ============================================================================
+
+/**
+ * Calculate parallelism tolerance conformance.
+ *
+ * @param input - Parallelism calculation inputs
+ * @returns Detailed parallelism calculation results or validation errors
+ */
+export function calculateParallelism(input: ParallelismInput): CalculatorResponse<ParallelismResult> {
+  const errors = validateOrientationInput(input, "Parallelism");
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  return { success: true, result: evaluateOrientation(input, { name: "Parallelism", basicAngle: 0 }) };
+}
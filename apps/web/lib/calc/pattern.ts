@@ -0,0 +1,483 @@
+/**
+ * Pattern Position Calculator
+ *
+ * Evaluates position of a pattern of features (e.g. 4X holes) per ASME
+ * Y14.5-2018, segment by segment:
+ * - PLTZF (pattern-locating tolerance zone framework): zones are fixed to the
+ *   full datum reference frame, so each feature is checked at its true position
+ * - FRTZF (feature-relating tolerance zone framework): the lower segment of a
+ *   composite frame only orients the pattern to its datums, so the pattern may
+ *   translate (and rotate, when no datum fixes rotation) to best fit the zones
+ *
+ * Best fit minimizes the largest tolerance consumption across the pattern,
+ * taking each feature's own bonus tolerance into account. A pattern conforms
+ * to a segment when that minimum is 100% or less.
+ */
+
+import { FcfJson } from "@/lib/fcf/schema";
+import { analyzeDatumReferenceFrame, DatumFeature } from "@/lib/fcf/datums";
+import { convertUnit } from "@/lib/util/units";
+import { minimize } from "./optimize";
+import { calculatePositionDeviation } from "./position";
+import { calculateBonusTolerance, calculateSizeLimits, getFeatureClass } from "./size";
+import {
+  PatternBestFit,
+  PatternFeatureMeasurement,
+  PatternFeatureResult,
+  PatternPositionInput,
+  PatternPositionResult,
+  PatternSegmentInput,
+  PatternSegmentResult,
+  PatternTransform,
+  SizeLimits,
+  CalculatorError,
+  CalculatorResponse,
+  Precision
+} from "./types";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_PRECISION: Precision = 4;
+
+// Allowable tolerance floor so zero-tolerance-at-MMC features stay comparable
+const MIN_ALLOWABLE = 1e-9;
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Round a number to specified decimal places.
+ */
+function round(value: number, precision: Precision): number {
+  const factor = Math.pow(10, precision);
+  return Math.round(value * factor) / factor;
+}
+
+interface Point2 {
+  x: number;
+  y: number;
+}
+
+/**
+ * Apply a best-fit transform to a measured center: rotate about the pattern
+ * centroid, then translate.
+ */
+function transformPoint(point: Point2, centroid: Point2, transform: PatternTransform): Point2 {
+  const angle = (transform.rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const rx = point.x - centroid.x;
+  const ry = point.y - centroid.y;
+  return {
+    x: centroid.x + rx * cos - ry * sin + transform.dx,
+    y: centroid.y + rx * sin + ry * cos + transform.dy
+  };
+}
+
+/**
+ * Least-squares starting transform: centroid alignment plus the Procrustes
+ * rotation of measured onto true centers.
+ */
+function leastSquaresTransform(
+  features: PatternFeatureMeasurement[],
+  centroid: Point2,
+  bestFit: PatternBestFit
+): PatternTransform {
+  const n = features.length;
+  const measuredCentroid = {
+    x: features.reduce((sum, f) => sum + f.measured.actualX, 0) / n,
+    y: features.reduce((sum, f) => sum + f.measured.actualY, 0) / n
+  };
+
+  let rotation = 0;
+  if (bestFit === "translation-rotation") {
+    let cross = 0;
+    let dot = 0;
+    features.forEach((f) => {
+      const mx = f.measured.actualX - measuredCentroid.x;
+      const my = f.measured.actualY - measuredCentroid.y;
+      const tx = f.truePosition.basicX - centroid.x;
+      const ty = f.truePosition.basicY - centroid.y;
+      cross += mx * ty - my * tx;
+      dot += mx * tx + my * ty;
+    });
+    rotation = (Math.atan2(cross, dot) * 180) / Math.PI;
+  }
+
+  // Translation that maps the rotated measured centroid onto the true centroid
+  const rotatedCentroid = transformPoint(measuredCentroid, centroid, { dx: 0, dy: 0, rotation });
+  return { dx: centroid.x - rotatedCentroid.x, dy: centroid.y - rotatedCentroid.y, rotation };
+}
+
+// ============================================================================
+// SEGMENT EVALUATION
+// ============================================================================
+
+/**
+ * Evaluate every feature of the pattern against one segment after applying
+ * the given transform.
+ */
+function evaluateFeatures(
+  input: PatternPositionInput,
+  segment: PatternSegmentInput,
+  sizeLimits: SizeLimits,
+  centroid: Point2,
+  transform: PatternTransform,
+  precision: Precision
+): PatternFeatureResult[] {
+  const featureClass = getFeatureClass(input.featureType) ?? "internal";
+
+  return input.features.map((feature, index) => {
+    const actualSize = feature.measured.actualSize;
+    const bonusTolerance = calculateBonusTolerance(
+      actualSize,
+      sizeLimits,
+      segment.materialCondition,
+      featureClass,
+      precision
+    );
+    const totalAllowableTolerance = round(segment.tolerance + bonusTolerance, precision);
+
+    const fitted = transformPoint({ x: feature.measured.actualX, y: feature.measured.actualY }, centroid, transform);
+    const deviation = calculatePositionDeviation(
+      fitted.x,
+      fitted.y,
+      feature.truePosition.basicX,
+      feature.truePosition.basicY,
+      feature.measured.actualZ,
+      feature.truePosition.basicZ,
+      input.diametralZone,
+      precision
+    );
+
+    const actualPositionTolerance = deviation.diametral;
+    return {
+      id: feature.id ?? String(index + 1),
+      actualSize: round(actualSize, precision),
+      bonusTolerance,
+      totalAllowableTolerance,
+      deviationX: deviation.dx,
+      deviationY: deviation.dy,
+      actualPositionTolerance,
+      toleranceConsumed: round(
+        (actualPositionTolerance / Math.max(totalAllowableTolerance, MIN_ALLOWABLE)) * 100,
+        1
+      ),
+      sizeConformance: actualSize >= sizeLimits.lowerLimit && actualSize <= sizeLimits.upperLimit,
+      positionConformance: actualPositionTolerance <= totalAllowableTolerance
+    };
+  });
+}
+
+/**
+ * Find the transform within the segment's best-fit freedom that minimizes the
+ * largest tolerance consumption across the pattern.
+ */
+function bestFitTransform(
+  input: PatternPositionInput,
+  segment: PatternSegmentInput,
+  sizeLimits: SizeLimits,
+  centroid: Point2
+): PatternTransform {
+  const identity: PatternTransform = { dx: 0, dy: 0, rotation: 0 };
+  if (segment.bestFit === "none") return identity;
+
+  const featureClass = getFeatureClass(input.featureType) ?? "internal";
+  const allowable = input.features.map((feature) =>
+    Math.max(
+      segment.tolerance +
+        calculateBonusTolerance(feature.measured.actualSize, sizeLimits, segment.materialCondition, featureClass, 6),
+      MIN_ALLOWABLE
+    )
+  );
+
+  // Rotation is parameterized as arc length at the pattern radius so all
+  // parameters share a length scale
+  const radius = Math.max(
+    ...input.features.map((f) => Math.hypot(f.truePosition.basicX - centroid.x, f.truePosition.basicY - centroid.y))
+  );
+  const rotates = segment.bestFit === "translation-rotation" && radius > 0;
+  const toTransform = ([dx, dy, arc = 0]: number[]): PatternTransform => ({
+    dx,
+    dy,
+    rotation: rotates ? ((arc / radius) * 180) / Math.PI : 0
+  });
+
+  const maxConsumption = (params: number[]): number => {
+    const transform = toTransform(params);
+    return Math.max(
+      ...input.features.map((feature, i) => {
+        const fitted = transformPoint({ x: feature.measured.actualX, y: feature.measured.actualY }, centroid, transform);
+        const dz =
+          feature.measured.actualZ !== undefined && feature.truePosition.basicZ !== undefined
+            ? feature.measured.actualZ - feature.truePosition.basicZ
+            : 0;
+        const radial = Math.hypot(fitted.x - feature.truePosition.basicX, fitted.y - feature.truePosition.basicY, dz);
+        return ((input.diametralZone ? 2 : 1) * radial) / allowable[i];
+      })
+    );
+  };
+
+  const start = leastSquaresTransform(input.features, centroid, segment.bestFit);
+  const startParams = rotates
+    ? [start.dx, start.dy, ((start.rotation * Math.PI) / 180) * radius]
+    : [start.dx, start.dy];
+  const step = Math.max(...allowable, 1e-6);
+  const { point } = minimize(maxConsumption, startParams, { step, tolerance: 1e-12 });
+  return toTransform(point);
+}
+
+/**
+ * Evaluate one segment of the pattern frame.
+ */
+function evaluateSegment(
+  input: PatternPositionInput,
+  segment: PatternSegmentInput,
+  index: number,
+  sizeLimits: SizeLimits,
+  centroid: Point2,
+  precision: Precision
+): PatternSegmentResult {
+  const fit = bestFitTransform(input, segment, sizeLimits, centroid);
+  const features = evaluateFeatures(input, segment, sizeLimits, centroid, fit, precision);
+
+  return {
+    label: segment.label ?? (index === 0 ? "PLTZF" : "FRTZF"),
+    statedTolerance: segment.tolerance,
+    materialCondition: segment.materialCondition,
+    bestFit: segment.bestFit,
+    transform: {
+      dx: round(fit.dx, precision),
+      dy: round(fit.dy, precision),
+      rotation: round(fit.rotation, precision)
+    },
+    features,
+    maxToleranceConsumed: Math.max(...features.map((f) => f.toleranceConsumed)),
+    conformance: features.every((f) => f.positionConformance)
+  };
+}
+
+// ============================================================================
+// INPUT VALIDATION
+// ============================================================================
+
+/**
+ * Validate pattern position calculator inputs.
+ */
+function validatePatternInput(input: PatternPositionInput): CalculatorError[] {
+  const errors: CalculatorError[] = [];
+
+  if (input.features.length < 2) {
+    errors.push({
+      code: "INVALID_PATTERN",
+      message: "A pattern requires at least two measured features",
+      field: "features"
+    });
+  }
+
+  if (input.count !== undefined && input.count !== input.features.length) {
+    errors.push({
+      code: "PATTERN_COUNT_MISMATCH",
+      message: `Pattern is ${input.count}X but ${input.features.length} features were measured`,
+      field: "features"
+    });
+  }
+
+  if (input.segments.length === 0) {
+    errors.push({
+      code: "INVALID_SEGMENTS",
+      message: "At least one frame segment is required",
+      field: "segments"
+    });
+  }
+
+  input.segments.forEach((segment, i) => {
+    if (segment.tolerance < 0) {
+      errors.push({
+        code: "INVALID_TOLERANCE",
+        message: "Geometric tolerance cannot be negative",
+        field: `segments[${i}].tolerance`
+      });
+    } else if (segment.tolerance === 0 && segment.materialCondition === "RFS") {
+      errors.push({
+        code: "INVALID_TOLERANCE",
+        message: "Zero tolerance requires MMC or LMC for bonus tolerance",
+        field: `segments[${i}].tolerance`
+      });
+    }
+    if (segment.materialCondition !== "RFS" && !getFeatureClass(input.featureType)) {
+      errors.push({
+        code: "INVALID_FEATURE_TYPE",
+        message: `Feature type '${input.featureType}' is not valid for ${segment.materialCondition} calculations`,
+        field: "featureType"
+      });
+    }
+  });
+
+  if (input.sizeDimension.nominal <= 0) {
+    errors.push({
+      code: "INVALID_SIZE",
+      message: "Nominal size must be greater than zero",
+      field: "sizeDimension.nominal"
+    });
+  }
+
+  input.features.forEach((feature, i) => {
+    if (feature.measured.actualSize <= 0) {
+      errors.push({
+        code: "INVALID_ACTUAL_SIZE",
+        message: "Actual measured size must be greater than zero",
+        field: `features[${i}].measured.actualSize`
+      });
+    }
+  });
+
+  return errors;
+}
+
+// ============================================================================
+// MAIN CALCULATOR FUNCTION
+// ============================================================================
+
+/**
+ * Calculate pattern position conformance for every frame segment.
+ *
+ * @param input - Pattern position calculation inputs
+ * @returns Per-segment, per-feature results or validation errors
+ */
+export function calculatePatternPosition(
+  input: PatternPositionInput
+): CalculatorResponse<PatternPositionResult> {
+  const precision = input.precision ?? DEFAULT_PRECISION;
+
+  const errors = validatePatternInput(input);
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  const sizeLimits = calculateSizeLimits(input.sizeDimension, precision);
+  const centroid = {
+    x: input.features.reduce((sum, f) => sum + f.truePosition.basicX, 0) / input.features.length,
+    y: input.features.reduce((sum, f) => sum + f.truePosition.basicY, 0) / input.features.length
+  };
+
+  const segments = input.segments.map((segment, index) =>
+    evaluateSegment(input, segment, index, sizeLimits, centroid, precision)
+  );
+
+  const sizeConformance = input.features.every(
+    (f) => f.measured.actualSize >= sizeLimits.lowerLimit && f.measured.actualSize <= sizeLimits.upperLimit
+  );
+  const status = sizeConformance && segments.every((s) => s.conformance) ? "pass" : "fail";
+
+  const result: PatternPositionResult = {
+    status,
+    summary: generatePatternSummary(status, input.features.length, segments, sizeConformance),
+    timestamp: new Date().toISOString(),
+    unit: input.unit,
+    featureCount: input.features.length,
+    sizeLimits,
+    segments,
+    sizeConformance
+  };
+
+  return { success: true, result };
+}
+
+/**
+ * Generate human-readable summary for pattern result.
+ */
+function generatePatternSummary(
+  status: "pass" | "fail" | "warning",
+  featureCount: number,
+  segments: PatternSegmentResult[],
+  sizeOk: boolean
+): string {
+  const lines: string[] = [];
+
+  if (status === "pass") {
+    lines.push(`PASS: ${featureCount}X pattern conforms to all segments.`);
+  } else {
+    lines.push(`FAIL: ${featureCount}X pattern does not conform.`);
+  }
+
+  segments.forEach((segment) => {
+    const fit = segment.bestFit === "none" ? "fixed to datums" : `best fit ${segment.bestFit}`;
+    const failing = segment.features.filter((f) => !f.positionConformance).map((f) => f.id);
+    lines.push(
+      `${segment.label} (${fit}): ${segment.maxToleranceConsumed}% max consumed` +
+        (failing.length ? `, out of tolerance: ${failing.join(", ")}.` : ".")
+    );
+  });
+
+  if (!sizeOk) {
+    lines.push(`WARNING: One or more feature sizes are outside size limits.`);
+  }
+
+  return lines.join(" ");
+}
+
+// ============================================================================
+// FCF HELPERS
+// ============================================================================
+
+/**
+ * Whether a set of datum references fixes the pattern's in-plane location and
+ * rotation. Uses the datum catalog when every letter is catalogued, otherwise
+ * treats a lone primary datum as leaving both free and anything more as fixing them.
+ */
+function datumFreedom(
+  datums: FcfJson["datums"],
+  datumCatalog: DatumFeature[] | undefined
+): { translation: boolean; rotation: boolean } {
+  const analysis = analyzeDatumReferenceFrame(datums, datumCatalog);
+  if (analysis.missing.length === 0) {
+    return {
+      // Partial translation freedom is treated as fixed (the stricter check)
+      translation: !analysis.constrained.includes("x") && !analysis.constrained.includes("y"),
+      rotation: !analysis.constrained.includes("w")
+    };
+  }
+  const count = datums?.length ?? 0;
+  return { translation: count < 2, rotation: count < 2 };
+}
+
+/**
+ * Derive pattern segments from a position FCF.
+ *
+ * Composite frames: the upper segment (PLTZF) is fixed to its datums; lower
+ * segments (FRTZF) only orient, so the pattern always translates and also
+ * rotates unless their datums fix rotation. Multiple single segments: each
+ * segment locates as well, so only freedoms its datums leave open are used.
+ */
+export function patternSegmentsFromFcf(fcf: FcfJson, datumCatalog?: DatumFeature[]): PatternSegmentInput[] {
+  const mc = (materialCondition: FcfJson["tolerance"]["materialCondition"]) =>
+    materialCondition ?? fcf.tolerance.materialCondition ?? "RFS";
+  // Zones stated in their own unit are taken into the frame's unit
+  const zone = (tolerance: FcfJson["tolerance"]) =>
+    convertUnit(tolerance.value, tolerance.unit ?? fcf.sourceUnit, fcf.sourceUnit);
+
+  if (!fcf.composite) {
+    return [{ tolerance: zone(fcf.tolerance), materialCondition: mc(undefined), bestFit: "none", label: "PLTZF" }];
+  }
+
+  const composite = fcf.composite.type === "composite";
+  return fcf.composite.segments.map((segment, index) => {
+    const freedom = datumFreedom(segment.datums, datumCatalog);
+    let bestFit: PatternBestFit;
+    if (composite) {
+      bestFit = index === 0 ? "none" : freedom.rotation ? "translation-rotation" : "translation";
+    } else {
+      bestFit = !freedom.translation ? "none" : freedom.rotation ? "translation-rotation" : "translation";
+    }
+    return {
+      tolerance: zone(segment.tolerance),
+      materialCondition: mc(segment.tolerance.materialCondition),
+      bestFit,
+      label: composite ? (index === 0 ? "PLTZF" : index === 1 ? "FRTZF" : `FRTZF ${index}`) : `SEGMENT ${index + 1}`
+    };
+  });
+}
@@ -15,11 +15,11 @@
  */
 
 import { FeatureType } from "@/lib/fcf/schema";
+import { calculateBonusTolerance, calculateSizeLimits, calculateVirtualCondition, getFeatureClass } from "./size";
 import {
   PerpendicularityInput,
   PerpendicularityResult,
   SizeLimits,
-  SizeDimensionInput,
   CalculatorError,
   CalculatorResponse,
   Precision
@@ -31,15 +31,6 @@ import {
 
 const DEFAULT_PRECISION: Precision = 4;
 
-// Features where MMC = smallest size (internal features)
-const INTERNAL_FEATURES: FeatureType[] = ["hole", "slot"];
-
-// Features where MMC = largest size (external features)
-const EXTERNAL_FEATURES: FeatureType[] = ["pin", "boss"];
-
-// Features that are surfaces (no bonus tolerance)
-const SURFACE_FEATURES: FeatureType[] = ["surface", "plane", "edge"];
-
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
@@ -52,126 +43,11 @@ function round(value: number, precision: Precision): number {
   return Math.round(value * factor) / factor;
 }
 
-/**
- * Determine if feature is internal or external.
- */
-function getFeatureClass(featureType: FeatureType): "internal" | "external" | "surface" {
-  if (INTERNAL_FEATURES.includes(featureType)) return "internal";
-  if (EXTERNAL_FEATURES.includes(featureType)) return "external";
-  return "surface";
-}
-
 /**
  * Check if feature type supports material condition modifiers.
  */
 function supportsMaterialCondition(featureType: FeatureType): boolean {
-  return !SURFACE_FEATURES.includes(featureType);
-}
-
-/**
- * Calculate size limits from size dimension input.
- */
-function calculateSizeLimits(
-  input: SizeDimensionInput,
-  precision: Precision = DEFAULT_PRECISION
-): SizeLimits {
-  const { nominal, tolerancePlus, toleranceMinus, featureType } = input;
-
-  const upperLimit = round(nominal + tolerancePlus, precision);
-  const lowerLimit = round(nominal - toleranceMinus, precision);
-
-  const featureClass = getFeatureClass(featureType);
-
-  let mmc: number;
-  let lmc: number;
-
-  if (featureClass === "internal") {
-    mmc = lowerLimit;
-    lmc = upperLimit;
-  } else if (featureClass === "external") {
-    mmc = upperLimit;
-    lmc = lowerLimit;
-  } else {
-    // Surface - no MMC/LMC concept
-    mmc = nominal;
-    lmc = nominal;
-  }
-
-  return {
-    nominal: round(nominal, precision),
-    mmc: round(mmc, precision),
-    lmc: round(lmc, precision),
-    upperLimit,
-    lowerLimit
-  };
-}
-
-/**
- * Calculate bonus tolerance for perpendicularity.
- */
-function calculateBonusTolerance(
-  actualSize: number,
-  sizeLimits: SizeLimits,
-  materialCondition: "MMC" | "LMC" | "RFS",
-  featureClass: "internal" | "external" | "surface",
-  precision: Precision = DEFAULT_PRECISION
-): number {
-  if (materialCondition === "RFS" || featureClass === "surface") {
-    return 0;
-  }
-
-  let bonus: number;
-
-  if (materialCondition === "MMC") {
-    if (featureClass === "internal") {
-      bonus = actualSize - sizeLimits.mmc;
-    } else {
-      bonus = sizeLimits.mmc - actualSize;
-    }
-  } else {
-    // LMC
-    if (featureClass === "internal") {
-      bonus = sizeLimits.lmc - actualSize;
-    } else {
-      bonus = actualSize - sizeLimits.lmc;
-    }
-  }
-
-  return round(Math.max(0, bonus), precision);
-}
-
-/**
- * Calculate Virtual Condition for perpendicularity.
- */
-function calculateVirtualCondition(
-  sizeLimits: SizeLimits,
-  tolerance: number,
-  materialCondition: "MMC" | "LMC" | "RFS",
-  featureClass: "internal" | "external" | "surface",
-  precision: Precision = DEFAULT_PRECISION
-): number | undefined {
-  if (materialCondition === "RFS" || featureClass === "surface") {
-    return undefined;
-  }
-
-  let vc: number;
-
-  if (materialCondition === "MMC") {
-    if (featureClass === "internal") {
-      vc = sizeLimits.mmc - tolerance;
-    } else {
-      vc = sizeLimits.mmc + tolerance;
-    }
-  } else {
-    // LMC
-    if (featureClass === "internal") {
-      vc = sizeLimits.lmc + tolerance;
-    } else {
-      vc = sizeLimits.lmc - tolerance;
-    }
-  }
-
-  return round(vc, precision);
+  return getFeatureClass(featureType) !== null;
 }
 
 /**
@@ -288,20 +164,20 @@ export function calculatePerpendicularity(
 
   if (input.sizeDimension && input.actualSize !== undefined) {
     sizeLimits = calculateSizeLimits(input.sizeDimension, precision);
-    bonusTolerance = calculateBonusTolerance(
-      input.actualSize,
-      sizeLimits,
-      materialCondition,
-      featureClass,
-      precision
-    );
-    virtualCondition = calculateVirtualCondition(
-      sizeLimits,
-      input.tolerance,
-      materialCondition,
-      featureClass,
-      precision
-    );
+    // Surfaces have no size, so no bonus or virtual condition
+    if (featureClass) {
+      bonusTolerance = calculateBonusTolerance(
+        input.actualSize,
+        sizeLimits,
+        materialCondition,
+        featureClass,
+        precision
+      );
+      virtualCondition =
+        materialCondition === "RFS"
+          ? undefined
+          : calculateVirtualCondition(sizeLimits, input.tolerance, materialCondition, featureClass, precision);
+    }
   }
 
   // Calculate total allowable tolerance
@@ -7,6 +7,9 @@
  * - RFS (Regardless of Feature Size) - no bonus
  * - Virtual Condition and Resultant Condition boundaries
  * - Cylindrical (diametral) and planar tolerance zones
+ * - Datum shift from datum features of size referenced at MMB/LMB
+ * - Axis evaluation from measured axis points, over the feature length or a
+ *   projected tolerance zone, checked at both ends of the zone
  *
  * Key formulas:
  * - Bonus (MMC, internal): Actual Size - MMC Size
@@ -17,15 +20,27 @@
  * - Radial Deviation = 2 * sqrt(dx² + dy²) for cylindrical zone
  * - Virtual Condition (MMC, internal) = MMC - Tolerance
  * - Virtual Condition (MMC, external) = MMC + Tolerance
+ * - Datum Shift (MMB, internal): Actual Mating Size - MMB
+ * - Datum Shift (MMB, external): MMB - Actual Mating Size
+ * - Allowable with Datum Shift = Total Allowable + Datum Shift
  */
 
-import { FeatureType } from "@/lib/fcf/schema";
+import { convertUnit } from "@/lib/util/units";
 import {
+  calculateBonusTolerance,
+  calculateResultantCondition,
+  calculateSizeLimits,
+  calculateVirtualCondition,
+  getFeatureClass
+} from "./size";
+import {
+  AxisPoint,
+  DatumFeatureOfSizeInput,
+  DatumShiftResult,
+  FeatureClass,
+  PositionAxisEnd,
   PositionInput,
   PositionResult,
-  SizeLimits,
-  SizeDimensionInput,
-  FeatureClass,
   CalculatorError,
   CalculatorResponse,
   Precision
@@ -37,12 +52,6 @@ import {
 
 const DEFAULT_PRECISION: Precision = 4;
 
-// Features where MMC = smallest size (internal features)
-const INTERNAL_FEATURES: FeatureType[] = ["hole", "slot"];
-
-// Features where MMC = largest size (external features)
-const EXTERNAL_FEATURES: FeatureType[] = ["pin", "boss"];
-
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
@@ -56,178 +65,64 @@ function round(value: number, precision: Precision): number {
 }
 
 /**
- * Determine feature class (internal/external) from feature type.
- */
-function getFeatureClass(featureType: FeatureType): FeatureClass | null {
-  if (INTERNAL_FEATURES.includes(featureType)) return "internal";
-  if (EXTERNAL_FEATURES.includes(featureType)) return "external";
-  return null;
-}
-
-/**
- * Calculate size limits (MMC, LMC, upper, lower) from size dimension.
- */
-export function calculateSizeLimits(
-  input: SizeDimensionInput,
-  precision: Precision = DEFAULT_PRECISION
-): SizeLimits {
-  const { nominal, tolerancePlus, toleranceMinus, featureType } = input;
-
-  const upperLimit = round(nominal + tolerancePlus, precision);
-  const lowerLimit = round(nominal - toleranceMinus, precision);
-
-  const featureClass = getFeatureClass(featureType);
-
-  let mmc: number;
-  let lmc: number;
-
-  if (featureClass === "internal") {
-    // Internal features (holes, slots): MMC = smallest, LMC = largest
-    mmc = lowerLimit;
-    lmc = upperLimit;
-  } else if (featureClass === "external") {
-    // External features (pins, bosses): MMC = largest, LMC = smallest
-    mmc = upperLimit;
-    lmc = lowerLimit;
-  } else {
-    // Default: treat as internal
-    mmc = lowerLimit;
-    lmc = upperLimit;
-  }
-
-  return {
-    nominal: round(nominal, precision),
-    mmc: round(mmc, precision),
-    lmc: round(lmc, precision),
-    upperLimit,
-    lowerLimit
-  };
-}
-
-/**
- * Calculate bonus tolerance based on material condition and actual size.
- *
- * MMC Bonus (internal): actualSize - mmcSize (larger hole = more bonus)
- * MMC Bonus (external): mmcSize - actualSize (smaller pin = more bonus)
- * LMC Bonus (internal): lmcSize - actualSize (smaller hole = more bonus)
- * LMC Bonus (external): actualSize - lmcSize (larger pin = more bonus)
+ * Projected zone height in the input's unit; the zone may state its own unit.
  */
-export function calculateBonusTolerance(
-  actualSize: number,
-  sizeLimits: SizeLimits,
-  materialCondition: "MMC" | "LMC" | "RFS",
-  featureClass: FeatureClass,
-  precision: Precision = DEFAULT_PRECISION
-): number {
-  if (materialCondition === "RFS") {
-    return 0;
-  }
-
-  let bonus: number;
-
-  if (materialCondition === "MMC") {
-    if (featureClass === "internal") {
-      // Internal at MMC: bonus = actual - MMC (actual is larger than MMC)
-      bonus = actualSize - sizeLimits.mmc;
-    } else {
-      // External at MMC: bonus = MMC - actual (actual is smaller than MMC)
-      bonus = sizeLimits.mmc - actualSize;
-    }
-  } else {
-    // LMC
-    if (featureClass === "internal") {
-      // Internal at LMC: bonus = LMC - actual (actual is smaller than LMC)
-      bonus = sizeLimits.lmc - actualSize;
-    } else {
-      // External at LMC: bonus = actual - LMC (actual is larger than LMC)
-      bonus = actualSize - sizeLimits.lmc;
-    }
-  }
-
-  // Bonus cannot be negative (would mean actual size violates size limits)
-  return round(Math.max(0, bonus), precision);
+function projectedZoneHeight(input: PositionInput): number | undefined {
+  const zone = input.projectedZone;
+  return zone && convertUnit(zone.height, zone.unit ?? input.unit, input.unit);
 }
 
-/**
- * Calculate Virtual Condition boundary.
- *
- * Virtual Condition is the worst-case boundary for assembly clearance.
- * MMC, internal: VC = MMC - Tolerance (smallest hole with max position error)
- * MMC, external: VC = MMC + Tolerance (largest pin with max position error)
- * LMC, internal: VC = LMC + Tolerance
- * LMC, external: VC = LMC - Tolerance
- */
-export function calculateVirtualCondition(
-  sizeLimits: SizeLimits,
-  tolerance: number,
-  materialCondition: "MMC" | "LMC" | "RFS",
-  featureClass: FeatureClass,
-  precision: Precision = DEFAULT_PRECISION
-): number {
-  if (materialCondition === "RFS") {
-    // RFS has no fixed virtual condition (it varies with actual size)
-    // Return MMC as reference
-    return round(sizeLimits.mmc, precision);
-  }
-
-  let vc: number;
-
-  if (materialCondition === "MMC") {
-    if (featureClass === "internal") {
-      vc = sizeLimits.mmc - tolerance;
-    } else {
-      vc = sizeLimits.mmc + tolerance;
-    }
-  } else {
-    // LMC
-    if (featureClass === "internal") {
-      vc = sizeLimits.lmc + tolerance;
-    } else {
-      vc = sizeLimits.lmc - tolerance;
-    }
-  }
-
-  return round(vc, precision);
-}
+// Size helpers live in ./size; re-exported for existing callers
+export {
+  calculateBonusTolerance,
+  calculateResultantCondition,
+  calculateSizeLimits,
+  calculateVirtualCondition,
+  getFeatureClass
+};
 
 /**
- * Calculate Resultant Condition boundary.
+ * Calculate the datum shift available from a datum feature of size.
  *
- * Resultant Condition is the opposite extreme from Virtual Condition.
- * MMC, internal: RC = LMC + Tolerance
- * MMC, external: RC = LMC - Tolerance
- * LMC, internal: RC = MMC - Tolerance
- * LMC, external: RC = MMC + Tolerance
+ * The datum feature simulator is fixed at the material boundary, so the
+ * datum feature can move within it by its departure from that boundary:
+ * MMB, internal: actual - MMB (larger datum hole = more shift)
+ * MMB, external: MMB - actual (smaller datum pin = more shift)
+ * LMB, internal: LMB - actual
+ * LMB, external: actual - LMB
+ * A datum referenced RMB is simulated at its actual size and cannot shift.
  */
-export function calculateResultantCondition(
-  sizeLimits: SizeLimits,
-  tolerance: number,
-  materialCondition: "MMC" | "LMC" | "RFS",
-  featureClass: FeatureClass,
+export function calculateDatumShift(
+  datum: DatumFeatureOfSizeInput,
+  appliedToZone: boolean,
   precision: Precision = DEFAULT_PRECISION
-): number {
-  if (materialCondition === "RFS") {
-    return round(sizeLimits.lmc, precision);
-  }
+): DatumShiftResult {
+  const sizeLimits = calculateSizeLimits(datum.sizeDimension, precision);
+  const featureClass = getFeatureClass(datum.sizeDimension.featureType) ?? "internal";
+  const { materialCondition, actualSize } = datum;
 
-  let rc: number;
+  const materialBoundary = round(
+    datum.materialBoundary ?? (materialCondition === "LMC" ? sizeLimits.lmc : sizeLimits.mmc),
+    precision
+  );
 
+  let shift = 0;
   if (materialCondition === "MMC") {
-    if (featureClass === "internal") {
-      rc = sizeLimits.lmc + tolerance;
-    } else {
-      rc = sizeLimits.lmc - tolerance;
-    }
-  } else {
-    // LMC
-    if (featureClass === "internal") {
-      rc = sizeLimits.mmc - tolerance;
-    } else {
-      rc = sizeLimits.mmc + tolerance;
-    }
+    shift = featureClass === "internal" ? actualSize - materialBoundary : materialBoundary - actualSize;
+  } else if (materialCondition === "LMC") {
+    shift = featureClass === "internal" ? materialBoundary - actualSize : actualSize - materialBoundary;
   }
 
-  return round(rc, precision);
+  return {
+    id: datum.id,
+    materialCondition,
+    materialBoundary,
+    actualSize: round(actualSize, precision),
+    // Negative departure means the datum feature violates its boundary
+    shift: round(Math.max(0, shift), precision),
+    appliedToZone: appliedToZone && materialCondition !== "RFS",
+    sizeConformance: actualSize >= sizeLimits.lowerLimit && actualSize <= sizeLimits.upperLimit
+  };
 }
 
 /**
@@ -271,6 +166,75 @@ export function calculatePositionDeviation(
   };
 }
 
+/**
+ * Least-squares line through the measured axis points: x = x0 + mx·z,
+ * y = y0 + my·z.
+ */
+function fitAxisLine(points: AxisPoint[]): { x0: number; mx: number; y0: number; my: number } {
+  const n = points.length;
+  const zMean = points.reduce((sum, p) => sum + p.z, 0) / n;
+  const xMean = points.reduce((sum, p) => sum + p.x, 0) / n;
+  const yMean = points.reduce((sum, p) => sum + p.y, 0) / n;
+  const szz = points.reduce((sum, p) => sum + (p.z - zMean) ** 2, 0);
+  const mx = points.reduce((sum, p) => sum + (p.z - zMean) * (p.x - xMean), 0) / szz;
+  const my = points.reduce((sum, p) => sum + (p.z - zMean) * (p.y - yMean), 0) / szz;
+  return { x0: xMean - mx * zMean, mx, y0: yMean - my * zMean, my };
+}
+
+/**
+ * Extrapolate the measured axis to both ends of the tolerance zone and
+ * evaluate its position there.
+ *
+ * The zone spans the projected height above the entry surface (z = 0 to
+ * +height) when projected, otherwise the feature length below it (z = 0 to
+ * -featureLength), or the measured span when no length is given. A straight
+ * axis deviates most at one of the ends, so the worse end governs.
+ */
+export function evaluateAxisEnds(
+  input: PositionInput,
+  precision: Precision = DEFAULT_PRECISION
+): PositionAxisEnd[] {
+  const points = input.measured.axisPoints ?? [];
+  const axis = fitAxisLine(points);
+
+  const projectedHeight = projectedZoneHeight(input);
+  let top: number;
+  let bottom: number;
+  if (projectedHeight !== undefined) {
+    top = projectedHeight;
+    bottom = 0;
+  } else if (input.featureLength !== undefined) {
+    top = 0;
+    bottom = -input.featureLength;
+  } else {
+    top = Math.max(...points.map((p) => p.z));
+    bottom = Math.min(...points.map((p) => p.z));
+  }
+
+  return [
+    { end: "top" as const, z: top },
+    { end: "bottom" as const, z: bottom }
+  ].map(({ end, z }) => {
+    const deviation = calculatePositionDeviation(
+      axis.x0 + axis.mx * z,
+      axis.y0 + axis.my * z,
+      input.truePosition.basicX,
+      input.truePosition.basicY,
+      undefined,
+      undefined,
+      input.diametralZone,
+      precision
+    );
+    return {
+      end,
+      z: round(z, precision),
+      deviationX: deviation.dx,
+      deviationY: deviation.dy,
+      actualPositionTolerance: deviation.diametral
+    };
+  });
+}
+
 // ============================================================================
 // INPUT VALIDATION
 // ============================================================================
@@ -330,6 +294,70 @@ function validatePositionInput(input: PositionInput): CalculatorError[] {
     });
   }
 
+  const axisPoints = input.measured.axisPoints ?? [];
+  if (axisPoints.length === 1) {
+    errors.push({
+      code: "INSUFFICIENT_AXIS_POINTS",
+      message: "At least two measured axis points are required to establish the axis",
+      field: "measured.axisPoints"
+    });
+  } else if (axisPoints.length > 1 && axisPoints.every((p) => p.z === axisPoints[0].z)) {
+    errors.push({
+      code: "INVALID_AXIS_POINTS",
+      message: "Axis points must be measured at two or more depths along the feature",
+      field: "measured.axisPoints"
+    });
+  }
+
+  if (input.projectedZone) {
+    if (input.projectedZone.height <= 0) {
+      errors.push({
+        code: "INVALID_PROJECTED_ZONE",
+        message: "Projected zone height must be greater than zero",
+        field: "projectedZone.height"
+      });
+    }
+    if (axisPoints.length === 0) {
+      errors.push({
+        code: "MISSING_AXIS_POINTS",
+        message: "A projected tolerance zone requires measured axis points to extrapolate the axis",
+        field: "measured.axisPoints"
+      });
+    }
+  }
+
+  if (input.featureLength !== undefined && input.featureLength <= 0) {
+    errors.push({
+      code: "INVALID_FEATURE_LENGTH",
+      message: "Feature length must be greater than zero",
+      field: "featureLength"
+    });
+  }
+
+  (input.datumFeatures ?? []).forEach((datum, i) => {
+    if (datum.actualSize <= 0) {
+      errors.push({
+        code: "INVALID_DATUM_SIZE",
+        message: `Actual size of datum ${datum.id} must be greater than zero`,
+        field: `datumFeatures[${i}].actualSize`
+      });
+    }
+    if (datum.materialBoundary !== undefined && datum.materialBoundary <= 0) {
+      errors.push({
+        code: "INVALID_DATUM_SIZE",
+        message: `Material boundary of datum ${datum.id} must be greater than zero`,
+        field: `datumFeatures[${i}].materialBoundary`
+      });
+    }
+    if (datum.materialCondition !== "RFS" && !getFeatureClass(datum.sizeDimension.featureType)) {
+      errors.push({
+        code: "INVALID_DATUM_FEATURE_TYPE",
+        message: `Datum ${datum.id} must be a feature of size to be referenced at ${datum.materialCondition === "LMC" ? "LMB" : "MMB"}`,
+        field: `datumFeatures[${i}].sizeDimension.featureType`
+      });
+    }
+  });
+
   return errors;
 }
 
@@ -381,6 +409,18 @@ export function calculatePosition(input: PositionInput): CalculatorResponse<Posi
     precision
   );
 
+  // Datum shift: only the first datum feature of size at MMB/LMB translates
+  // the frame; later ones add rotational freedom, which is reported but not added
+  const locatingIndex = (input.datumFeatures ?? []).findIndex((d) => d.materialCondition !== "RFS");
+  const datumShift = (input.datumFeatures ?? []).map((datum, i) =>
+    calculateDatumShift(datum, i === locatingIndex, precision)
+  );
+  const datumShiftTolerance = round(
+    datumShift.filter((d) => d.appliedToZone).reduce((sum, d) => sum + d.shift, 0),
+    precision
+  );
+  const allowableWithDatumShift = round(totalAllowableTolerance + datumShiftTolerance, precision);
+
   // Calculate virtual and resultant conditions
   const virtualCondition = calculateVirtualCondition(
     sizeLimits,
@@ -410,11 +450,15 @@ export function calculatePosition(input: PositionInput): CalculatorResponse<Posi
     precision
   );
 
+  // Measured axis: evaluate both ends of the zone, the worse end governs
+  const axisEnds = input.measured.axisPoints?.length ? evaluateAxisEnds(input, precision) : undefined;
+  const governing = axisEnds?.reduce((a, b) => (b.actualPositionTolerance > a.actualPositionTolerance ? b : a));
+
   // Actual position tolerance consumed (diametral for cylindrical zone)
-  const actualPositionTolerance = deviation.diametral;
+  const actualPositionTolerance = governing ? governing.actualPositionTolerance : deviation.diametral;
 
-  // Position conformance: actual position tolerance <= total allowable
-  const positionConformance = actualPositionTolerance <= totalAllowableTolerance;
+  // Position conformance: actual position tolerance <= total allowable (+ datum shift)
+  const positionConformance = actualPositionTolerance <= allowableWithDatumShift;
 
   // Overall status
   const overallPass = sizeConformance && positionConformance;
@@ -422,7 +466,7 @@ export function calculatePosition(input: PositionInput): CalculatorResponse<Posi
 
   // Calculate percentage of tolerance consumed
   const toleranceConsumed = round(
-    (actualPositionTolerance / totalAllowableTolerance) * 100,
+    (actualPositionTolerance / allowableWithDatumShift) * 100,
     1
   );
 
@@ -430,11 +474,14 @@ export function calculatePosition(input: PositionInput): CalculatorResponse<Posi
   const summary = generatePositionSummary(
     status,
     actualPositionTolerance,
-    totalAllowableTolerance,
+    allowableWithDatumShift,
     bonusTolerance,
     input.materialCondition,
+    datumShift,
     sizeConformance,
-    positionConformance
+    positionConformance,
+    governing,
+    projectedZoneHeight(input)
   );
 
   const result: PositionResult = {
@@ -448,16 +495,24 @@ export function calculatePosition(input: PositionInput): CalculatorResponse<Posi
     actualSize: round(actualSize, precision),
     bonusTolerance,
     totalAllowableTolerance,
+    datumShift,
+    datumShiftTolerance,
+    allowableWithDatumShift,
     virtualCondition,
     resultantCondition,
-    deviationX: deviation.dx,
-    deviationY: deviation.dy,
-    deviationZ: deviation.dz,
-    radialDeviation: deviation.radial,
+    deviationX: governing ? governing.deviationX : deviation.dx,
+    deviationY: governing ? governing.deviationY : deviation.dy,
+    deviationZ: governing ? undefined : deviation.dz,
+    radialDeviation: governing
+      ? round(Math.hypot(governing.deviationX, governing.deviationY), precision)
+      : deviation.radial,
     actualPositionTolerance,
     toleranceConsumed,
     sizeConformance,
-    positionConformance
+    positionConformance,
+    axisEnds,
+    governingEnd: governing?.end,
+    projectedZoneHeight: projectedZoneHeight(input)
   };
 
   return { success: true, result };
@@ -472,8 +527,11 @@ function generatePositionSummary(
   totalAllowable: number,
   bonus: number,
   materialCondition: string,
+  datumShift: DatumShiftResult[],
   sizeOk: boolean,
-  positionOk: boolean
+  positionOk: boolean,
+  governing?: PositionAxisEnd,
+  projectedHeight?: number
 ): string {
   const lines: string[] = [];
 
@@ -487,10 +545,35 @@ function generatePositionSummary(
     `Actual position: Ø${actualTolerance.toFixed(4)} vs Allowable: Ø${totalAllowable.toFixed(4)}`
   );
 
+  if (governing) {
+    lines.push(
+      projectedHeight !== undefined
+        ? `Governing end: ${governing.end} of ${projectedHeight.toFixed(4)} projected zone (z = ${governing.z.toFixed(4)})`
+        : `Governing end: ${governing.end} of feature axis (z = ${governing.z.toFixed(4)})`
+    );
+  }
+
   if (materialCondition !== "RFS" && bonus > 0) {
     lines.push(`Bonus tolerance: ${bonus.toFixed(4)} (${materialCondition})`);
   }
 
+  datumShift.forEach((datum) => {
+    if (datum.shift > 0) {
+      lines.push(
+        datum.appliedToZone
+          ? `Datum shift: ${datum.shift.toFixed(4)} (datum ${datum.id})`
+          : `Rotational datum shift: ${datum.shift.toFixed(4)} (datum ${datum.id}, not added)`
+      );
+    }
+    if (!datum.sizeConformance) {
+      lines.push(`WARNING: Datum ${datum.id} size is outside size limits.`);
+    }
+  });
+
+  if (datumShift.some((d) => d.appliedToZone && d.shift > 0)) {
+    lines.push(`Datum shift moves a pattern as a group, not each feature independently.`);
+  }
+
   if (!sizeOk) {
     lines.push(`WARNING: Actual size is outside size limits.`);
   }
@@ -19,11 +19,15 @@
  * - Profile of a line: 2D cross-section control
  * - True profile defined by basic dimensions
  * - Deviations measured normal to true profile
+ * - Deviations may be reported directly or computed from raw coordinates
+ *   against a nominal profile; form-only profiles may then be best fit
  */
 
+import { fitProfileAlignment, nominalDeviations, validateNominalProfile } from "./nominalProfile";
 import {
   ProfileInput,
   ProfileResult,
+  ProfileAlignment,
   ProfilePoint,
   ProfileZoneType,
   CalculatorError,
@@ -177,7 +181,10 @@ function validateProfileInput(input: ProfileInput): CalculatorError[] {
     });
   }
 
-  if (input.measuredPoints.length === 0) {
+  const hasDeviations = input.measuredPoints !== undefined && input.measuredPoints.length > 0;
+  const hasRawPoints = input.rawPoints !== undefined && input.rawPoints.length > 0;
+
+  if (!hasDeviations && !hasRawPoints) {
     errors.push({
       code: "NO_MEASUREMENTS",
       message: "At least one measured point is required",
@@ -185,6 +192,34 @@ function validateProfileInput(input: ProfileInput): CalculatorError[] {
     });
   }
 
+  if (hasDeviations && hasRawPoints) {
+    errors.push({
+      code: "CONFLICTING_MEASUREMENTS",
+      message: "Provide either measured deviations or raw points, not both",
+      field: "rawPoints"
+    });
+  }
+
+  if (hasRawPoints) {
+    if (!input.nominalProfile) {
+      errors.push({
+        code: "MISSING_NOMINAL_PROFILE",
+        message: "A nominal profile is required to evaluate raw points",
+        field: "nominalProfile"
+      });
+    } else {
+      errors.push(...validateNominalProfile(input.nominalProfile));
+    }
+  }
+
+  if (input.bestFit && !input.formOnly) {
+    errors.push({
+      code: "INVALID_BEST_FIT",
+      message: "Best-fit alignment only applies to form-only profiles; a profile with datums is located by them",
+      field: "bestFit"
+    });
+  }
+
   if (input.zoneType === "unequally-disposed") {
     if (input.outsideAmount === undefined) {
       errors.push({
@@ -233,9 +268,23 @@ export function calculateProfile(input: ProfileInput): CalculatorResponse<Profil
     input.outsideAmount
   );
 
+  // Deviations from raw points, floating form-only profiles to the nominal
+  let alignment: ProfileAlignment | undefined;
+  let evaluatedPoints: ProfilePoint[] | undefined;
+  if (input.rawPoints && input.rawPoints.length > 0 && input.nominalProfile) {
+    if (input.bestFit ?? input.formOnly) {
+      alignment = fitProfileAlignment(input.rawPoints, input.nominalProfile, allowableOutside, allowableInside);
+    }
+    evaluatedPoints = nominalDeviations(input.rawPoints, input.nominalProfile, alignment).map((point) => ({
+      position: round(point.position, precision),
+      deviation: round(point.deviation, precision)
+    }));
+  }
+  const points = evaluatedPoints ?? input.measuredPoints ?? [];
+
   // Analyze all points
   const analysis = analyzeProfilePoints(
-    input.measuredPoints,
+    points,
     allowableOutside,
     allowableInside
   );
@@ -264,7 +313,8 @@ export function calculateProfile(input: ProfileInput): CalculatorResponse<Profil
     allowableOutside,
     allowableInside,
     input.zoneType,
-    analysis.nonConformingIndices.length
+    analysis.nonConformingIndices.length,
+    alignment !== undefined
   );
 
   const result: ProfileResult = {
@@ -280,8 +330,17 @@ export function calculateProfile(input: ProfileInput): CalculatorResponse<Profil
     maxDeviationInside,
     totalMeasuredZone,
     toleranceConsumed,
-    pointCount: input.measuredPoints.length,
-    nonConformingPoints: analysis.nonConformingIndices
+    pointCount: points.length,
+    nonConformingPoints: analysis.nonConformingIndices,
+    evaluatedPoints,
+    alignment: alignment && {
+      dx: round(alignment.dx, precision),
+      dy: round(alignment.dy, precision),
+      dz: round(alignment.dz, precision),
+      rx: round(alignment.rx, precision),
+      ry: round(alignment.ry, precision),
+      rz: round(alignment.rz, precision)
+    }
   };
 
   return { success: true, result };
@@ -297,7 +356,8 @@ function generateProfileSummary(
   allowOutside: number,
   allowInside: number,
   zoneType: ProfileZoneType,
-  nonConformingCount: number
+  nonConformingCount: number,
+  bestFit: boolean
 ): string {
   const lines: string[] = [];
 
@@ -317,6 +377,10 @@ function generateProfileSummary(
     `Max inside: ${maxInside.toFixed(4)} (allowed: ${allowInside.toFixed(4)})`
   );
 
+  if (bestFit) {
+    lines.push(`(after best fit to the nominal profile)`);
+  }
+
   return lines.join(" ");
 }
 
@@ -0,0 +1,182 @@
+/**
+ * Reference fits shared by the circularity and cylindricity calculators.
+ *
+ * A round feature is judged by the radial distance of each measured point
+ * from a reference center (circle) or axis (cylinder). The calculators supply
+ * a RadialModel giving those radii for a parameter vector locating the
+ * reference, and this module finds the parameters for each fitting method:
+ * - least-squares: Gauss-Newton on the radial residuals
+ * - minimum-zone: repeated minimax linear fits of the linearized radii
+ * - maximum-inscribed / minimum-circumscribed: Nelder-Mead on the smallest
+ *   or largest radius
+ *
+ * Parameters are lengths (positions of the center or axis) so one step size
+ * suits all of them.
+ */
+
+import { minimaxFit, minimize, solveLinearSystem } from "./optimize";
+import { RoundnessFitMethod } from "./types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Radial distances of the measured points from a parameterized reference.
+ */
+export interface RadialModel {
+  /** Radius of every point for the given reference parameters */
+  radii(params: number[]): number[];
+  /** Partial derivatives of each radius with respect to the parameters */
+  gradient(params: number[]): number[][];
+}
+
+/**
+ * Reference found by a radial fit.
+ */
+export interface RadialFit {
+  /** Reference parameters */
+  params: number[];
+  /** Radius of every point about the reference */
+  radii: number[];
+  /** Radius of the reference circle or cylinder */
+  radius: number;
+  /** Smallest point radius */
+  innerRadius: number;
+  /** Largest point radius */
+  outerRadius: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Iteration limit of the Gauss-Newton and minimum-zone loops */
+const MAX_PASSES = 30;
+
+/**
+ * Report labels for the fitting methods.
+ */
+export const ROUNDNESS_FIT_LABELS: Record<RoundnessFitMethod, string> = {
+  "minimum-zone": "minimum zone",
+  "least-squares": "least squares",
+  "maximum-inscribed": "maximum inscribed",
+  "minimum-circumscribed": "minimum circumscribed"
+};
+
+// ============================================================================
+// FITTING
+// ============================================================================
+
+function spread(radii: number[]): number {
+  return Math.max(...radii) - Math.min(...radii);
+}
+
+/**
+ * Least-squares reference: minimizes Σ(rᵢ - R)² over the parameters and R.
+ */
+function fitLeastSquares(model: RadialModel, start: number[], scale: number): number[] {
+  let params = [...start];
+  const k = params.length;
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    const radii = model.radii(params);
+    const gradient = model.gradient(params);
+    const radius = radii.reduce((sum, r) => sum + r, 0) / radii.length;
+
+    // Normal equations for the step in (params, R)
+    const rows = gradient.map((g) => [...g, -1]);
+    const normal = Array.from({ length: k + 1 }, (_, i) =>
+      Array.from({ length: k + 1 }, (_, j) => rows.reduce((sum, row) => sum + row[i] * row[j], 0))
+    );
+    const rhs = Array.from({ length: k + 1 }, (_, i) =>
+      rows.reduce((sum, row, n) => sum - row[i] * (radii[n] - radius), 0)
+    );
+    const step = solveLinearSystem(normal, rhs);
+    if (!step) break;
+
+    params = params.map((value, i) => value + step[i]);
+    if (Math.max(...step.slice(0, k).map(Math.abs)) < 1e-12 * scale) break;
+  }
+
+  return params;
+}
+
+/**
+ * Minimum-zone reference: the radii are linearized about the current
+ * parameters, rᵢ + gᵢ · δ, and the step δ minimizing their spread is found
+ * exactly as a minimax fit. The radii are then recomputed at the new
+ * reference and the fit repeated; the narrowest zone seen is kept.
+ */
+function fitMinimumZone(model: RadialModel, start: number[], scale: number): number[] {
+  let params = [...start];
+  let best = params;
+  let bestWidth = spread(model.radii(params));
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    const radii = model.radii(params);
+    const basis = model.gradient(params).map((g) => [...g.map((value) => -value), 1]);
+    const fit = minimaxFit(basis, radii);
+    if (!fit.converged) break;
+
+    const step = fit.coefficients.slice(0, params.length);
+    params = params.map((value, i) => value + step[i]);
+
+    const width = spread(model.radii(params));
+    if (width < bestWidth) {
+      best = params;
+      bestWidth = width;
+    }
+    if (Math.max(...step.map(Math.abs)) < 1e-12 * scale) break;
+  }
+
+  return best;
+}
+
+/**
+ * Fit the reference for a fitting method.
+ *
+ * @param model - Radii of the measured points for given reference parameters
+ * @param start - Starting parameters (e.g. the centroid)
+ * @param method - Fitting method
+ * @param scale - Characteristic length (nominal radius) for convergence tests
+ */
+export function fitRadial(
+  model: RadialModel,
+  start: number[],
+  method: RoundnessFitMethod,
+  scale: number
+): RadialFit {
+  const leastSquares = fitLeastSquares(model, start, scale);
+  const step = Math.max(spread(model.radii(leastSquares)), 1e-9 * scale);
+
+  let params: number[];
+  switch (method) {
+    case "least-squares":
+      params = leastSquares;
+      break;
+    case "minimum-zone":
+      params = fitMinimumZone(model, leastSquares, scale);
+      break;
+    case "maximum-inscribed":
+      params = minimize((p) => -Math.min(...model.radii(p)), leastSquares, { step, tolerance: 1e-13 * scale }).point;
+      break;
+    case "minimum-circumscribed":
+      params = minimize((p) => Math.max(...model.radii(p)), leastSquares, { step, tolerance: 1e-13 * scale }).point;
+      break;
+  }
+
+  const radii = model.radii(params);
+  const innerRadius = Math.min(...radii);
+  const outerRadius = Math.max(...radii);
+  const radius =
+    method === "least-squares"
+      ? radii.reduce((sum, r) => sum + r, 0) / radii.length
+      : method === "maximum-inscribed"
+      ? innerRadius
+      : method === "minimum-circumscribed"
+      ? outerRadius
+      : (innerRadius + outerRadius) / 2;
+
+  return { params, radii, radius, innerRadius, outerRadius };
+}
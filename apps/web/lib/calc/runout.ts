@@ -0,0 +1,262 @@
+/**
+ * Runout Tolerance Calculator
+ *
+ * Implements ASME Y14.5-2018 circular runout and total runout calculations.
+ *
+ * Runout is a composite control of a surface of revolution relative to a
+ * datum axis. The part is rotated about the datum axis and an indicator
+ * reads the surface; the full indicator reading (FIR) must not exceed the
+ * tolerance.
+ *
+ * Key concepts:
+ * - The datum axis is established by one datum feature (A) or by two
+ *   coaxial datum features forming a common axis (A-B)
+ * - Always RFS; MMC/LMC are not allowed on runout
+ * - Circular runout: each section is judged on its own, the indicator may be
+ *   re-zeroed between sections (controls circularity and coaxiality)
+ * - Total runout: the indicator sweeps the whole surface without being
+ *   re-zeroed, so readings from all sections share one FIR (also controls
+ *   cylindricity, taper and straightness)
+ */
+
+import {
+  RunoutInput,
+  RunoutResult,
+  RunoutSection,
+  RunoutSectionResult,
+  TotalRunoutInput,
+  TotalRunoutResult,
+  CalculatorError,
+  CalculatorResponse,
+  Precision
+} from "./types";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_PRECISION: Precision = 4;
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Round a number to specified decimal places.
+ */
+function round(value: number, precision: Precision): number {
+  const factor = Math.pow(10, precision);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Datum axis label: A for a single datum, A-B for a common axis.
+ */
+function datumAxisLabel(datumAxis: string[]): string {
+  return datumAxis.join("-");
+}
+
+/**
+ * FIR and conformance of each section.
+ */
+function evaluateSections(
+  sections: RunoutSection[],
+  tolerance: number,
+  precision: Precision
+): RunoutSectionResult[] {
+  return sections.map((section, i) => {
+    const maxReading = round(Math.max(...section.readings), precision);
+    const minReading = round(Math.min(...section.readings), precision);
+    const fir = round(Math.max(...section.readings) - Math.min(...section.readings), precision);
+    return {
+      id: section.id ?? `S${i + 1}`,
+      position: section.position,
+      maxReading,
+      minReading,
+      fir,
+      conformance: fir <= tolerance
+    };
+  });
+}
+
+// ============================================================================
+// INPUT VALIDATION
+// ============================================================================
+
+/**
+ * Validate inputs shared by circular and total runout.
+ */
+function validateRunoutInput(input: RunoutInput | TotalRunoutInput, name: string): CalculatorError[] {
+  const errors: CalculatorError[] = [];
+
+  if (input.tolerance <= 0) {
+    errors.push({
+      code: "INVALID_TOLERANCE",
+      message: `${name} tolerance must be greater than zero`,
+      field: "tolerance"
+    });
+  }
+
+  const datums = input.datumAxis.map((id) => id.trim()).filter(Boolean);
+  if (datums.length < 1 || datums.length > 2 || datums.length !== input.datumAxis.length) {
+    errors.push({
+      code: "INVALID_DATUM_AXIS",
+      message: "The datum axis must be established by one datum feature or two coaxial datum features (A-B)",
+      field: "datumAxis"
+    });
+  } else if (new Set(datums).size !== datums.length) {
+    errors.push({
+      code: "INVALID_DATUM_AXIS",
+      message: "A common datum axis requires two different datum features",
+      field: "datumAxis"
+    });
+  }
+
+  if (input.sections.length === 0) {
+    errors.push({
+      code: "NO_MEASUREMENTS",
+      message: "At least one section of indicator readings must be provided",
+      field: "sections"
+    });
+  }
+
+  input.sections.forEach((section, i) => {
+    if (section.readings.length < 2) {
+      errors.push({
+        code: "INSUFFICIENT_READINGS",
+        message: `Section ${section.id ?? `S${i + 1}`} needs at least two readings over a revolution`,
+        field: "sections"
+      });
+    }
+  });
+
+  return errors;
+}
+
+// ============================================================================
+// MAIN CALCULATOR FUNCTIONS
+// ============================================================================
+
+/**
+ * Calculate circular runout conformance.
+ *
+ * Each section's FIR is compared with the tolerance independently.
+ *
+ * @param input - Circular runout calculation inputs
+ * @returns Detailed runout results or validation errors
+ */
+export function calculateRunout(input: RunoutInput): CalculatorResponse<RunoutResult> {
+  const precision = input.precision ?? DEFAULT_PRECISION;
+
+  const errors = validateRunoutInput(input, "Runout");
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  const sections = evaluateSections(input.sections, input.tolerance, precision);
+  const worst = sections.reduce((a, b) => (b.fir > a.fir ? b : a));
+  const pass = sections.every((section) => section.conformance);
+  const toleranceConsumed = round((worst.fir / input.tolerance) * 100, 1);
+  const datumAxis = datumAxisLabel(input.datumAxis);
+
+  const result: RunoutResult = {
+    status: pass ? "pass" : "fail",
+    summary: generateRunoutSummary(pass, worst, sections, input.tolerance, datumAxis),
+    timestamp: new Date().toISOString(),
+    unit: input.unit,
+    statedTolerance: input.tolerance,
+    datumAxis,
+    sections,
+    maxFir: worst.fir,
+    worstSection: worst.id,
+    toleranceConsumed
+  };
+
+  return { success: true, result };
+}
+
+/**
+ * Calculate total runout conformance.
+ *
+ * All readings share one indicator zero, so the FIR is taken over the whole
+ * surface; per-section FIRs are reported to locate the error.
+ *
+ * @param input - Total runout calculation inputs
+ * @returns Detailed total runout results or validation errors
+ */
+export function calculateTotalRunout(input: TotalRunoutInput): CalculatorResponse<TotalRunoutResult> {
+  const precision = input.precision ?? DEFAULT_PRECISION;
+
+  const errors = validateRunoutInput(input, "Total runout");
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  const sections = evaluateSections(input.sections, input.tolerance, precision);
+  const readings = input.sections.flatMap((section) => section.readings);
+  const totalFir = round(Math.max(...readings) - Math.min(...readings), precision);
+  const maxSectionFir = Math.max(...sections.map((section) => section.fir));
+  const pass = totalFir <= input.tolerance;
+  const toleranceConsumed = round((totalFir / input.tolerance) * 100, 1);
+  const datumAxis = datumAxisLabel(input.datumAxis);
+
+  const result: TotalRunoutResult = {
+    status: pass ? "pass" : "fail",
+    summary: generateTotalRunoutSummary(pass, totalFir, maxSectionFir, input.tolerance, datumAxis),
+    timestamp: new Date().toISOString(),
+    unit: input.unit,
+    statedTolerance: input.tolerance,
+    datumAxis,
+    sections,
+    maxSectionFir,
+    totalFir,
+    toleranceConsumed,
+    readingCount: readings.length
+  };
+
+  return { success: true, result };
+}
+
+/**
+ * Generate human-readable summary for circular runout result.
+ */
+function generateRunoutSummary(
+  pass: boolean,
+  worst: RunoutSectionResult,
+  sections: RunoutSectionResult[],
+  tolerance: number,
+  datumAxis: string
+): string {
+  if (pass) {
+    return `PASS: Circular runout ${worst.fir.toFixed(4)} FIR (section ${worst.id}) is within tolerance ${tolerance.toFixed(4)} to datum axis ${datumAxis}`;
+  }
+
+  const failing = sections.filter((section) => !section.conformance).map((section) => section.id);
+  return `FAIL: Circular runout ${worst.fir.toFixed(4)} FIR exceeds tolerance ${tolerance.toFixed(4)} to datum axis ${datumAxis} (sections out of tolerance: ${failing.join(", ")})`;
+}
+
+/**
+ * Generate human-readable summary for total runout result.
+ */
+function generateTotalRunoutSummary(
+  pass: boolean,
+  totalFir: number,
+  maxSectionFir: number,
+  tolerance: number,
+  datumAxis: string
+): string {
+  const lines: string[] = [];
+
+  if (pass) {
+    lines.push(`PASS: Total runout ${totalFir.toFixed(4)} FIR is within tolerance ${tolerance.toFixed(4)} to datum axis ${datumAxis}`);
+  } else {
+    lines.push(`FAIL: Total runout ${totalFir.toFixed(4)} FIR exceeds tolerance ${tolerance.toFixed(4)} to datum axis ${datumAxis}`);
+  }
+
+  // Section-to-section variation (taper, bow) beyond the worst single section
+  if (totalFir > maxSectionFir) {
+    lines.push(`(largest single-section FIR ${maxSectionFir.toFixed(4)})`);
+  }
+
+  return lines.join(" ");
+}
@@ -0,0 +1,221 @@
+/**
+ * Feature of Size Helpers
+ *
+ * Size limits, bonus tolerance and virtual/resultant condition boundaries
+ * shared by every calculator that applies MMC/LMC to a feature of size
+ * (position, perpendicularity, parallelism, angularity).
+ *
+ * Key formulas:
+ * - Bonus (MMC, internal): Actual Size - MMC Size
+ * - Bonus (MMC, external): MMC Size - Actual Size
+ * - Bonus (LMC, internal): LMC Size - Actual Size
+ * - Bonus (LMC, external): Actual Size - LMC Size
+ * - Virtual Condition (MMC, internal) = MMC - Tolerance
+ * - Virtual Condition (MMC, external) = MMC + Tolerance
+ */
+
+import { FeatureType } from "@/lib/fcf/schema";
+import { SizeLimits, SizeDimensionInput, FeatureClass, Precision } from "./types";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_PRECISION: Precision = 4;
+
+// Features where MMC = smallest size (internal features)
+const INTERNAL_FEATURES: FeatureType[] = ["hole", "slot"];
+
+// Features where MMC = largest size (external features)
+const EXTERNAL_FEATURES: FeatureType[] = ["pin", "boss"];
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Round a number to specified decimal places.
+ */
+function round(value: number, precision: Precision): number {
+  const factor = Math.pow(10, precision);
+  return Math.round(value * factor) / factor;
+}
+
+// ============================================================================
+// SIZE LIMITS AND BOUNDARIES
+// ============================================================================
+
+/**
+ * Determine feature class (internal/external) from feature type.
+ */
+export function getFeatureClass(featureType: FeatureType): FeatureClass | null {
+  if (INTERNAL_FEATURES.includes(featureType)) return "internal";
+  if (EXTERNAL_FEATURES.includes(featureType)) return "external";
+  return null;
+}
+
+/**
+ * Calculate size limits (MMC, LMC, upper, lower) from size dimension.
+ */
+export function calculateSizeLimits(
+  input: SizeDimensionInput,
+  precision: Precision = DEFAULT_PRECISION
+): SizeLimits {
+  const { nominal, tolerancePlus, toleranceMinus, featureType } = input;
+
+  const upperLimit = round(nominal + tolerancePlus, precision);
+  const lowerLimit = round(nominal - toleranceMinus, precision);
+
+  const featureClass = getFeatureClass(featureType);
+
+  let mmc: number;
+  let lmc: number;
+
+  if (featureClass === "internal") {
+    // Internal features (holes, slots): MMC = smallest, LMC = largest
+    mmc = lowerLimit;
+    lmc = upperLimit;
+  } else if (featureClass === "external") {
+    // External features (pins, bosses): MMC = largest, LMC = smallest
+    mmc = upperLimit;
+    lmc = lowerLimit;
+  } else {
+    // Default: treat as internal
+    mmc = lowerLimit;
+    lmc = upperLimit;
+  }
+
+  return {
+    nominal: round(nominal, precision),
+    mmc: round(mmc, precision),
+    lmc: round(lmc, precision),
+    upperLimit,
+    lowerLimit
+  };
+}
+
+/**
+ * Calculate bonus tolerance based on material condition and actual size.
+ *
+ * MMC Bonus (internal): actualSize - mmcSize (larger hole = more bonus)
+ * MMC Bonus (external): mmcSize - actualSize (smaller pin = more bonus)
+ * LMC Bonus (internal): lmcSize - actualSize (smaller hole = more bonus)
+ * LMC Bonus (external): actualSize - lmcSize (larger pin = more bonus)
+ */
+export function calculateBonusTolerance(
+  actualSize: number,
+  sizeLimits: SizeLimits,
+  materialCondition: "MMC" | "LMC" | "RFS",
+  featureClass: FeatureClass,
+  precision: Precision = DEFAULT_PRECISION
+): number {
+  if (materialCondition === "RFS") {
+    return 0;
+  }
+
+  let bonus: number;
+
+  if (materialCondition === "MMC") {
+    if (featureClass === "internal") {
+      // Internal at MMC: bonus = actual - MMC (actual is larger than MMC)
+      bonus = actualSize - sizeLimits.mmc;
+    } else {
+      // External at MMC: bonus = MMC - actual (actual is smaller than MMC)
+      bonus = sizeLimits.mmc - actualSize;
+    }
+  } else {
+    // LMC
+    if (featureClass === "internal") {
+      // Internal at LMC: bonus = LMC - actual (actual is smaller than LMC)
+      bonus = sizeLimits.lmc - actualSize;
+    } else {
+      // External at LMC: bonus = actual - LMC (actual is larger than LMC)
+      bonus = actualSize - sizeLimits.lmc;
+    }
+  }
+
+  // Bonus cannot be negative (would mean actual size violates size limits)
+  return round(Math.max(0, bonus), precision);
+}
+
+/**
+ * Calculate Virtual Condition boundary.
+ *
+ * Virtual Condition is the worst-case boundary for assembly clearance.
+ * MMC, internal: VC = MMC - Tolerance (smallest hole with max position error)
+ * MMC, external: VC = MMC + Tolerance (largest pin with max position error)
+ * LMC, internal: VC = LMC + Tolerance
+ * LMC, external: VC = LMC - Tolerance
+ */
+export function calculateVirtualCondition(
+  sizeLimits: SizeLimits,
+  tolerance: number,
+  materialCondition: "MMC" | "LMC" | "RFS",
+  featureClass: FeatureClass,
+  precision: Precision = DEFAULT_PRECISION
+): number {
+  if (materialCondition === "RFS") {
+    // RFS has no fixed virtual condition (it varies with actual size)
+    // Return MMC as reference
+    return round(sizeLimits.mmc, precision);
+  }
+
+  let vc: number;
+
+  if (materialCondition === "MMC") {
+    if (featureClass === "internal") {
+      vc = sizeLimits.mmc - tolerance;
+    } else {
+      vc = sizeLimits.mmc + tolerance;
+    }
+  } else {
+    // LMC
+    if (featureClass === "internal") {
+      vc = sizeLimits.lmc + tolerance;
+    } else {
+      vc = sizeLimits.lmc - tolerance;
+    }
+  }
+
+  return round(vc, precision);
+}
+
+/**
+ * Calculate Resultant Condition boundary.
+ *
+ * Resultant Condition is the opposite extreme from Virtual Condition.
+ * MMC, internal: RC = LMC + Tolerance
+ * MMC, external: RC = LMC - Tolerance
+ * LMC, internal: RC = MMC - Tolerance
+ * LMC, external: RC = MMC + Tolerance
+ */
+export function calculateResultantCondition(
+  sizeLimits: SizeLimits,
+  tolerance: number,
+  materialCondition: "MMC" | "LMC" | "RFS",
+  featureClass: FeatureClass,
+  precision: Precision = DEFAULT_PRECISION
+): number {
+  if (materialCondition === "RFS") {
+    return round(sizeLimits.lmc, precision);
+  }
+
+  let rc: number;
+
+  if (materialCondition === "MMC") {
+    if (featureClass === "internal") {
+      rc = sizeLimits.lmc + tolerance;
+    } else {
+      rc = sizeLimits.lmc - tolerance;
+    }
+  } else {
+    // LMC
+    if (featureClass === "internal") {
+      rc = sizeLimits.mmc - tolerance;
+    } else {
+      rc = sizeLimits.mmc + tolerance;
+    }
+  }
+
+  return round(rc, precision);
+}
@@ -0,0 +1,238 @@
+/**
+ * Straightness Tolerance Calculator
+ *
+ * Implements ASME Y14.5-2018 straightness calculations for line elements.
+ *
+ * Straightness of a line element is a form tolerance: each line element of
+ * the surface must lie between two parallel lines, in the plane of
+ * measurement, separated by the tolerance value.
+ *
+ * Key concepts:
+ * - No datum reference allowed (it's a form tolerance)
+ * - Surface line elements are RFS; MMC only applies to a derived median line
+ * - The zone is the minimum zone: the two closest parallel lines containing
+ *   every point. A least-squares line is offered for comparison and always
+ *   gives a zone at least as wide.
+ */
+
+import { minimaxFit } from "./optimize";
+import {
+  StraightnessInput,
+  StraightnessResult,
+  LineFitMethod,
+  LinePoint,
+  CalculatorError,
+  CalculatorResponse,
+  Precision
+} from "./types";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_PRECISION: Precision = 4;
+
+const DEFAULT_FIT_METHOD: LineFitMethod = "minimum-zone";
+
+/** Realignment passes of the minimum-zone solver */
+const MAX_ZONE_REFINEMENTS = 10;
+
+const FIT_METHOD_LABELS: Record<LineFitMethod, string> = {
+  "minimum-zone": "minimum zone",
+  "least-squares": "least squares"
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Line through `origin` with unit direction `(cos, sin)` */
+interface Line {
+  origin: LinePoint;
+  cos: number;
+  sin: number;
+}
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Round a number to specified decimal places.
+ */
+function round(value: number, precision: Precision): number {
+  const factor = Math.pow(10, precision);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Signed perpendicular distances of the points from a line (+ = left of the
+ * direction, i.e. +Y for a line running along +X).
+ */
+function calculateDeviations(points: LinePoint[], line: Line): number[] {
+  return points.map((p) => -(p.x - line.origin.x) * line.sin + (p.y - line.origin.y) * line.cos);
+}
+
+function zoneWidth(points: LinePoint[], line: Line): number {
+  const deviations = calculateDeviations(points, line);
+  return Math.max(...deviations) - Math.min(...deviations);
+}
+
+/**
+ * Least-squares (orthogonal regression) line through the centroid.
+ */
+function fitLeastSquaresLine(points: LinePoint[]): Line {
+  const n = points.length;
+  const origin = {
+    x: points.reduce((sum, p) => sum + p.x, 0) / n,
+    y: points.reduce((sum, p) => sum + p.y, 0) / n
+  };
+
+  let xx = 0, xy = 0, yy = 0;
+  for (const p of points) {
+    const dx = p.x - origin.x;
+    const dy = p.y - origin.y;
+    xx += dx * dx;
+    xy += dx * dy;
+    yy += dy * dy;
+  }
+
+  // Principal direction of the scatter
+  const angle = 0.5 * Math.atan2(2 * xy, xx - yy);
+  return { origin, cos: Math.cos(angle), sin: Math.sin(angle) };
+}
+
+/**
+ * Minimum-zone line. Heights across the working direction are fitted exactly
+ * with a minimax linear fit; the direction is then realigned to the fitted
+ * line and the fit repeated until the tilt vanishes, keeping the narrowest
+ * zone found.
+ */
+function fitMinimumZoneLine(points: LinePoint[]): Line {
+  let line = fitLeastSquaresLine(points);
+  if (points.length < 3) return line;
+
+  let best = line;
+  let bestWidth = zoneWidth(points, line);
+
+  for (let pass = 0; pass < MAX_ZONE_REFINEMENTS; pass++) {
+    const along = points.map((p) => (p.x - line.origin.x) * line.cos + (p.y - line.origin.y) * line.sin);
+    const fit = minimaxFit(along.map((s) => [s, 1]), calculateDeviations(points, line));
+    if (!fit.converged) break;
+
+    // h = αs + γ: rotate by atan(α) and move the origin by γ across the line
+    const [alpha, gamma] = fit.coefficients;
+    const origin = { x: line.origin.x - gamma * line.sin, y: line.origin.y + gamma * line.cos };
+    const angle = Math.atan2(line.sin, line.cos) + Math.atan(alpha);
+    line = { origin, cos: Math.cos(angle), sin: Math.sin(angle) };
+
+    const width = zoneWidth(points, line);
+    if (width < bestWidth) {
+      best = line;
+      bestWidth = width;
+    }
+    if (Math.abs(alpha) < 1e-12) break;
+  }
+
+  return best;
+}
+
+// ============================================================================
+// INPUT VALIDATION
+// ============================================================================
+
+/**
+ * Validate straightness calculator inputs.
+ */
+function validateStraightnessInput(input: StraightnessInput): CalculatorError[] {
+  const errors: CalculatorError[] = [];
+
+  if (input.tolerance <= 0) {
+    errors.push({
+      code: "INVALID_TOLERANCE",
+      message: "Straightness tolerance must be greater than zero",
+      field: "tolerance"
+    });
+  }
+
+  if (input.measuredPoints.length < 2) {
+    errors.push({
+      code: "INSUFFICIENT_POINTS",
+      message: "At least two measured points are required to evaluate a line element",
+      field: "measuredPoints"
+    });
+  }
+
+  return errors;
+}
+
+// ============================================================================
+// MAIN CALCULATOR FUNCTION
+// ============================================================================
+
+/**
+ * Calculate straightness conformance of a line element.
+ *
+ * @param input - Straightness calculation inputs
+ * @returns Detailed straightness calculation results or validation errors
+ */
+export function calculateStraightness(input: StraightnessInput): CalculatorResponse<StraightnessResult> {
+  const precision = input.precision ?? DEFAULT_PRECISION;
+
+  const errors = validateStraightnessInput(input);
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  const fitMethod = input.fitMethod ?? DEFAULT_FIT_METHOD;
+  const line =
+    fitMethod === "minimum-zone" ? fitMinimumZoneLine(input.measuredPoints) : fitLeastSquaresLine(input.measuredPoints);
+  const deviations = calculateDeviations(input.measuredPoints, line);
+
+  const maxDeviation = round(Math.max(...deviations), precision);
+  const minDeviation = round(Math.min(...deviations), precision);
+  const measuredStraightness = round(Math.max(...deviations) - Math.min(...deviations), precision);
+
+  // Reference line as y = slope · x + intercept (through the zone center)
+  const slope = line.sin / line.cos;
+  const center = (Math.max(...deviations) + Math.min(...deviations)) / 2;
+  const intercept = line.origin.y + center / line.cos - slope * line.origin.x;
+
+  const pass = measuredStraightness <= input.tolerance;
+  const toleranceConsumed = round((measuredStraightness / input.tolerance) * 100, 1);
+
+  const result: StraightnessResult = {
+    status: pass ? "pass" : "fail",
+    summary: generateStraightnessSummary(pass, measuredStraightness, input.tolerance, toleranceConsumed, fitMethod),
+    timestamp: new Date().toISOString(),
+    unit: input.unit,
+    statedTolerance: input.tolerance,
+    measuredStraightness,
+    fitMethod,
+    line: { slope: round(slope, 6), intercept: round(intercept, precision) },
+    maxDeviation,
+    minDeviation,
+    toleranceConsumed,
+    pointCount: input.measuredPoints.length
+  };
+
+  return { success: true, result };
+}
+
+/**
+ * Generate human-readable summary for straightness result.
+ */
+function generateStraightnessSummary(
+  pass: boolean,
+  measured: number,
+  tolerance: number,
+  consumed: number,
+  method: LineFitMethod
+): string {
+  const basis = FIT_METHOD_LABELS[method];
+  if (pass) {
+    return `PASS: Straightness ${measured.toFixed(4)} is within tolerance ${tolerance.toFixed(4)} (${consumed.toFixed(1)}% consumed, ${basis})`;
+  } else {
+    return `FAIL: Straightness ${measured.toFixed(4)} exceeds tolerance ${tolerance.toFixed(4)} (${consumed.toFixed(1)}% consumed, ${basis})`;
+  }
+}
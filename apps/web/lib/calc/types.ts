@@ -1,10 +1,12 @@
 /**
  * Shared types for GD&T calculators.
- * These types support deterministic calculations for position, flatness,
- * perpendicularity, and profile tolerances per ASME Y14.5-2018.
+ * These types support deterministic calculations for position, form
+ * (flatness, straightness, circularity, cylindricity), orientation
+ * (perpendicularity, parallelism, angularity), runout, and profile
+ * tolerances per ASME Y14.5-2018.
  */
 
-import { Unit, MaterialConditionSymbol, FeatureType} from "@/lib/fcf/schema";
+import { Unit, MaterialConditionSymbol, FeatureType, ProjectedZone } from "@/lib/fcf/schema";
 
 // ============================================================================
 // COMMON TYPES
@@ -89,6 +91,18 @@ export interface SizeDimensionInput {
  */
 export type FeatureClass = "internal" | "external";
 
+/**
+ * Point on a measured feature axis.
+ * Z runs along the nominal axis, measured from the surface the feature
+ * enters (z = 0) and positive out of the material, so the feature occupies
+ * negative Z and a projected zone positive Z.
+ */
+export interface AxisPoint {
+  x: number;
+  y: number;
+  z: number;
+}
+
 /**
  * Measured position data from CMM or inspection.
  */
@@ -101,6 +115,11 @@ export interface MeasuredPosition {
   actualZ?: number;
   /** Actual measured size (diameter for holes/pins) */
   actualSize: number;
+  /**
+   * Two or more points on the measured axis. When given, the axis is
+   * evaluated at both ends of the zone and actualX/actualY are not used.
+   */
+  axisPoints?: AxisPoint[];
 }
 
 /**
@@ -115,6 +134,28 @@ export interface TruePosition {
   basicZ?: number;
 }
 
+/**
+ * Datum feature of size referenced at MMB or LMB.
+ * Its departure from the boundary lets the datum reference frame shift
+ * relative to the datum feature (datum feature mobility).
+ */
+export interface DatumFeatureOfSizeInput {
+  /** Datum letter as referenced in the frame */
+  id: string;
+  /** Material boundary modifier on the datum reference */
+  materialCondition: MaterialConditionSymbol;
+  /** Datum feature size dimension (featureType determines internal/external) */
+  sizeDimension: SizeDimensionInput;
+  /**
+   * Maximum (or least) material boundary of the datum feature simulator.
+   * Defaults to the MMC (or LMC) size, which is correct for a primary datum
+   * feature; secondary and tertiary features use their virtual condition.
+   */
+  materialBoundary?: number;
+  /** Actual mating size (MMB) or actual minimum material size (LMB) */
+  actualSize: number;
+}
+
 /**
  * Input for position tolerance calculations.
  */
@@ -133,6 +174,55 @@ export interface PositionInput extends BaseCalculatorInput {
   measured: MeasuredPosition;
   /** Whether tolerance zone is diametral (cylindrical) */
   diametralZone: boolean;
+  /** Datum features of size referenced at MMB/LMB, in datum precedence order */
+  datumFeatures?: DatumFeatureOfSizeInput[];
+  /**
+   * Length of the feature below its entry surface; the zone covers z = 0 to
+   * -featureLength unless projected (default: span of the axis points)
+   */
+  featureLength?: number;
+  /** Projected tolerance zone: covers z = 0 to +height above the surface */
+  projectedZone?: ProjectedZone;
+}
+
+/**
+ * Axis location at one end of the tolerance zone.
+ */
+export interface PositionAxisEnd {
+  /** Top (higher Z) or bottom end of the zone */
+  end: "top" | "bottom";
+  /** Axial coordinate of the zone end */
+  z: number;
+  /** Deviation in X of the extrapolated axis */
+  deviationX: number;
+  /** Deviation in Y of the extrapolated axis */
+  deviationY: number;
+  /** Position tolerance consumed at this end (diametral for cylindrical zone) */
+  actualPositionTolerance: number;
+}
+
+/**
+ * Datum shift available from one datum feature of size.
+ */
+export interface DatumShiftResult {
+  /** Datum letter */
+  id: string;
+  /** Material boundary modifier on the datum reference */
+  materialCondition: MaterialConditionSymbol;
+  /** Datum feature simulator boundary */
+  materialBoundary: number;
+  /** Actual datum feature size */
+  actualSize: number;
+  /** Departure of the datum feature from its boundary (diametral shift) */
+  shift: number;
+  /**
+   * Whether the shift is added to the feature's allowable tolerance.
+   * Only the first datum feature of size translates the frame; later ones
+   * only let it rotate (clock) about the earlier datums.
+   */
+  appliedToZone: boolean;
+  /** Whether the datum feature size is within its size limits */
+  sizeConformance: boolean;
 }
 
 /**
@@ -151,6 +241,12 @@ export interface PositionResult extends BaseCalculatorResult {
   bonusTolerance: number;
   /** Total allowable tolerance (stated + bonus) */
   totalAllowableTolerance: number;
+  /** Datum shift available from each datum feature of size at MMB/LMB */
+  datumShift: DatumShiftResult[];
+  /** Datum shift added to the allowable tolerance */
+  datumShiftTolerance: number;
+  /** Allowable tolerance including datum shift (stated + bonus + datum shift) */
+  allowableWithDatumShift: number;
   /** Virtual condition boundary */
   virtualCondition: number;
   /** Resultant condition boundary */
@@ -169,10 +265,319 @@ export interface PositionResult extends BaseCalculatorResult {
   toleranceConsumed: number;
   /** Whether actual size is within size limits */
   sizeConformance: boolean;
+  /** Whether position is within the allowable tolerance including datum shift */
+  positionConformance: boolean;
+  /** Axis evaluated at both ends of the zone (when axis points were measured) */
+  axisEnds?: PositionAxisEnd[];
+  /** Zone end with the larger deviation, which the reported deviations describe */
+  governingEnd?: "top" | "bottom";
+  /** Projected zone height applied */
+  projectedZoneHeight?: number;
+}
+
+// ============================================================================
+// FUNCTIONAL GAUGE TYPES
+// ============================================================================
+
+/**
+ * Gauge-maker or wear tolerance: an absolute amount, or a percentage of the
+ * part tolerance the gauge element checks.
+ */
+export type GaugeAllowance =
+  | { type: "absolute"; value: number }
+  | { type: "percentage"; value: number };
+
+/**
+ * Datum feature of size simulated by the gauge.
+ */
+export type GaugeDatumInput = Omit<DatumFeatureOfSizeInput, "actualSize">;
+
+/**
+ * Input for designing a fixed-pin functional gauge for position at MMC.
+ */
+export interface GaugeDesignInput extends BaseCalculatorInput {
+  /** Stated position tolerance at MMC */
+  geometricTolerance: number;
+  /** Material condition modifier on tolerance (must be MMC) */
+  materialCondition: MaterialConditionSymbol;
+  /** Feature type (hole/slot get gauge pins, pin/boss get gauge holes) */
+  featureType: FeatureType;
+  /** Size dimension of the gauged feature */
+  sizeDimension: SizeDimensionInput;
+  /** Number of features checked by the gauge (e.g. 4 for a 4X pattern) */
+  featureCount?: number;
+  /** Datum features of size referenced at MMB, in datum precedence order */
+  datumFeatures?: GaugeDatumInput[];
+  /** Gauge-maker tolerance on element size and location */
+  gaugeTolerance: GaugeAllowance;
+  /** Wear allowance on element size (default: none) */
+  wearAllowance?: GaugeAllowance;
+  /** Name printed on the spec sheet */
+  name?: string;
+}
+
+/**
+ * One gauge element (pin or hole) simulating a feature or datum boundary.
+ *
+ * Gauge and wear tolerances are applied inside the part tolerance, so a worn
+ * gauge at its limit still rejects every bad part: a gauge pin is made above
+ * the boundary and wears down to it, a gauge hole is made below it and wears
+ * up to it.
+ */
+export interface GaugeElement {
+  /** Element label ("Feature", "Datum B") */
+  label: string;
+  /** Gauge pin for an internal feature, gauge hole for an external one */
+  elementType: "pin" | "hole";
+  /** Boundary the element simulates */
+  boundaryType: "virtual-condition" | "MMB";
+  /** Boundary size */
+  boundary: number;
+  /** Gauge-maker size tolerance */
+  gaugeTolerance: number;
+  /** Wear allowance */
+  wearAllowance: number;
+  /** Smallest size the element may be made */
+  minSize: number;
+  /** Largest size the element may be made */
+  maxSize: number;
+  /** Worn-out size at which the element must be replaced */
+  wearLimit: number;
+  /** Part tolerance the allowances are taken from */
+  partTolerance: number;
+  /** Percentage of the part tolerance taken by gauge and wear tolerance */
+  toleranceShare: number;
+  /** Number of identical elements on the gauge */
+  quantity: number;
+}
+
+/**
+ * Functional gauge design results.
+ */
+export interface GaugeDesignResult extends BaseCalculatorResult {
+  /** Name printed on the spec sheet */
+  name?: string;
+  /** Stated position tolerance */
+  statedTolerance: number;
+  /** Size limits of the gauged feature */
+  sizeLimits: SizeLimits;
+  /** Virtual condition the feature gauge elements simulate */
+  virtualCondition: number;
+  /** Gauge elements: the feature elements first, then datum elements */
+  elements: GaugeElement[];
+  /** Positional tolerance for locating the feature elements on the gauge (diametral) */
+  locationTolerance: number;
+  /** Largest share of part tolerance taken by any element (%) */
+  maxToleranceShare: number;
+}
+
+// ============================================================================
+// FASTENER CALCULATOR TYPES
+// ============================================================================
+
+/**
+ * Fastener case (ASME Y14.5-2018 Appendix B).
+ * - floating: the fastener passes through clearance holes in both parts
+ * - fixed: the fastener is held in one part (threaded or press-fit hole)
+ */
+export type FastenerCase = "floating" | "fixed";
+
+/**
+ * Input for fastener position tolerance calculations.
+ * Part 1 always has clearance holes; part 2 has clearance holes (floating)
+ * or the threaded/press-fit holes (fixed).
+ */
+export interface FastenerInput extends BaseCalculatorInput {
+  /** Floating or fixed fastener case */
+  fastenerCase: FastenerCase;
+  /** Fastener maximum (MMC) diameter, F */
+  fastenerDiameter: number;
+  /** Clearance hole MMC diameter in part 1, H */
+  holeDiameter: number;
+  /** Clearance hole MMC diameter in part 2 for the floating case (default: holeDiameter) */
+  secondHoleDiameter?: number;
+  /** Fixed case: share of H - F given to the clearance part, 0-1 (default 0.5) */
+  clearanceShare?: number;
+  /** Fixed case: maximum thickness of the clearance part, P (projection height) */
+  matingThickness?: number;
+  /**
+   * Fixed case: whether part 2 uses a projected tolerance zone (default
+   * true). Without one its tolerance is reduced for fastener tilt.
+   */
+  projectedZone?: boolean;
+  /** Fixed case without projected zone: minimum thread or press-fit engagement depth, D */
+  engagementLength?: number;
+  /** Plus tolerance on clearance hole size for the generated frames (default 0) */
+  holeSizeTolerance?: number;
+  /** Number of fasteners in the pattern */
+  fastenerCount?: number;
+  /** Datum letters for the generated frames, primary first (default A, B, C) */
+  datums?: string[];
+}
+
+/**
+ * Position tolerance derived for one of the two parts.
+ */
+export interface FastenerPartResult {
+  /** Part label */
+  label: "Part 1" | "Part 2";
+  /** Clearance hole or threaded/press-fit hole */
+  role: "clearance" | "fixed";
+  /** Hole MMC diameter (fastener diameter for the fixed part) */
+  holeDiameter: number;
+  /** Position tolerance at MMC (diametral) */
+  positionTolerance: number;
+  /** Projected zone height, for the fixed part with a projected zone */
+  projectedZoneHeight?: number;
+}
+
+/**
+ * Fastener calculation results.
+ */
+export interface FastenerResult extends BaseCalculatorResult {
+  /** Fastener case */
+  fastenerCase: FastenerCase;
+  /** Fastener MMC diameter */
+  fastenerDiameter: number;
+  /** Tolerance per part (floating) or total shared by both parts (fixed) */
+  availableTolerance: number;
+  /** Tolerances for part 1 and part 2 */
+  parts: [FastenerPartResult, FastenerPartResult];
+  /** Fixed case without projected zone: divisor 1 + 2P/D applied to part 2 */
+  projectionCorrection?: number;
+}
+
+// ============================================================================
+// PATTERN POSITION CALCULATOR TYPES
+// ============================================================================
+
+/**
+ * Best-fit freedom of a pattern within a segment.
+ * - none: zones are fixed to the datum reference frame (PLTZF)
+ * - translation: pattern may translate relative to the datums
+ * - translation-rotation: pattern may also rotate about the datum axis (FRTZF
+ *   referencing only a primary datum)
+ */
+export type PatternBestFit = "none" | "translation" | "translation-rotation";
+
+/**
+ * One segment of a pattern position frame.
+ */
+export interface PatternSegmentInput {
+  /** Stated position tolerance for this segment */
+  tolerance: number;
+  /** Material condition modifier on the segment tolerance */
+  materialCondition: MaterialConditionSymbol;
+  /** Freedom the pattern has relative to the segment's datums */
+  bestFit: PatternBestFit;
+  /** Segment label for reports (default: PLTZF for the first segment, FRTZF after) */
+  label?: string;
+}
+
+/**
+ * Measured data for one feature of the pattern.
+ */
+export interface PatternFeatureMeasurement {
+  /** Feature label (default: 1-based index) */
+  id?: string;
+  /** True (basic) position from drawing */
+  truePosition: TruePosition;
+  /** Measured feature data from inspection */
+  measured: MeasuredPosition;
+}
+
+/**
+ * Input for pattern position calculations.
+ */
+export interface PatternPositionInput extends BaseCalculatorInput {
+  /** Feature type (determines internal/external) */
+  featureType: FeatureType;
+  /** Size dimension shared by all features of the pattern */
+  sizeDimension: SizeDimensionInput;
+  /** Whether tolerance zones are diametral (cylindrical) */
+  diametralZone: boolean;
+  /** Segments in frame order (upper segment first) */
+  segments: PatternSegmentInput[];
+  /** Measured features of the pattern */
+  features: PatternFeatureMeasurement[];
+  /** Expected number of features (e.g. 4 for a 4X pattern) */
+  count?: number;
+}
+
+/**
+ * Per-feature evaluation within one segment.
+ */
+export interface PatternFeatureResult {
+  /** Feature label */
+  id: string;
+  /** Actual measured size */
+  actualSize: number;
+  /** Bonus tolerance from size departure */
+  bonusTolerance: number;
+  /** Total allowable tolerance (stated + bonus) */
+  totalAllowableTolerance: number;
+  /** Deviation in X after best fit */
+  deviationX: number;
+  /** Deviation in Y after best fit */
+  deviationY: number;
+  /** Actual position tolerance consumed after best fit (diametral) */
+  actualPositionTolerance: number;
+  /** Percentage of tolerance consumed */
+  toleranceConsumed: number;
+  /** Whether actual size is within size limits */
+  sizeConformance: boolean;
   /** Whether position is within total allowable tolerance */
   positionConformance: boolean;
 }
 
+/**
+ * Best-fit transformation applied to the measured pattern.
+ */
+export interface PatternTransform {
+  /** Translation in X */
+  dx: number;
+  /** Translation in Y */
+  dy: number;
+  /** Rotation about the pattern centroid (degrees, counter-clockwise) */
+  rotation: number;
+}
+
+/**
+ * Evaluation of one segment of the pattern frame.
+ */
+export interface PatternSegmentResult {
+  /** Segment label (PLTZF, FRTZF, ...) */
+  label: string;
+  /** Stated segment tolerance */
+  statedTolerance: number;
+  /** Material condition applied */
+  materialCondition: MaterialConditionSymbol;
+  /** Best-fit freedom used */
+  bestFit: PatternBestFit;
+  /** Best-fit transformation found (zero when bestFit is none) */
+  transform: PatternTransform;
+  /** Per-feature results */
+  features: PatternFeatureResult[];
+  /** Largest tolerance consumption across the pattern */
+  maxToleranceConsumed: number;
+  /** Whether every feature conforms to this segment */
+  conformance: boolean;
+}
+
+/**
+ * Pattern position calculation results.
+ */
+export interface PatternPositionResult extends BaseCalculatorResult {
+  /** Number of features evaluated */
+  featureCount: number;
+  /** Calculated size limits */
+  sizeLimits: SizeLimits;
+  /** Per-segment results in frame order */
+  segments: PatternSegmentResult[];
+  /** Whether every feature size is within size limits */
+  sizeConformance: boolean;
+}
+
 // ============================================================================
 // FLATNESS CALCULATOR TYPES
 // ============================================================================
@@ -186,6 +591,17 @@ export interface SurfacePoint {
   z: number;
 }
 
+/**
+ * Reference plane used to evaluate a flatness point cloud.
+ * - minimum-zone: the two closest parallel planes containing every point, as
+ *   Y14.5 defines the flatness zone
+ * - least-squares: planes parallel to the least-squares plane; never narrower
+ *   than minimum zone, so it can reject conforming parts
+ * - three-point: planes parallel to the plane through three chosen points,
+ *   e.g. the datum targets the surface is set up on
+ */
+export type FlatnessFitMethod = "minimum-zone" | "least-squares" | "three-point";
+
 /**
  * Input for flatness calculations.
  */
@@ -196,6 +612,34 @@ export interface FlatnessInput extends BaseCalculatorInput {
   measuredPoints: SurfacePoint[];
   /** Optional: pre-calculated total indicator reading */
   totalIndicatorReading?: number;
+  /** Reference plane for point clouds (default: minimum-zone) */
+  fitMethod?: FlatnessFitMethod;
+  /** Indices into measuredPoints defining the three-point plane */
+  referencePoints?: [number, number, number];
+}
+
+/**
+ * Measured point lying on one of the two planes bounding the zone.
+ */
+export interface FlatnessContactPoint {
+  /** Index into measuredPoints */
+  index: number;
+  /** Plane the point touches: upper (+ normal side) or lower */
+  side: "upper" | "lower";
+  /** Signed deviation from the reference plane */
+  deviation: number;
+}
+
+/**
+ * Zone width obtained with one fitting method, for comparison.
+ */
+export interface FlatnessMethodComparison {
+  /** Fitting method */
+  method: FlatnessFitMethod;
+  /** Zone width with that method */
+  zoneWidth: number;
+  /** Zone width in excess of the minimum-zone width */
+  excessOverMinimumZone: number;
 }
 
 /**
@@ -216,6 +660,167 @@ export interface FlatnessResult extends BaseCalculatorResult {
   toleranceConsumed: number;
   /** Number of points analyzed */
   pointCount: number;
+  /** Fitting method used (absent when a total indicator reading was supplied) */
+  fitMethod?: FlatnessFitMethod;
+  /** Unit normal of the reference plane */
+  planeNormal?: SurfacePoint;
+  /** Points defining the upper and lower planes of the zone */
+  contactPoints: FlatnessContactPoint[];
+  /** Zone width with every applicable fitting method */
+  methodComparison: FlatnessMethodComparison[];
+}
+
+// ============================================================================
+// STRAIGHTNESS CALCULATOR TYPES
+// ============================================================================
+
+/**
+ * Point on a measured line element, in the plane of measurement.
+ */
+export interface LinePoint {
+  /** Position along the line */
+  x: number;
+  /** Height across the line */
+  y: number;
+}
+
+/**
+ * Reference line used to evaluate a line element.
+ * - minimum-zone: the two closest parallel lines containing every point
+ * - least-squares: lines parallel to the least-squares line
+ */
+export type LineFitMethod = "minimum-zone" | "least-squares";
+
+/**
+ * Input for straightness calculations of a line element.
+ */
+export interface StraightnessInput extends BaseCalculatorInput {
+  /** Stated straightness tolerance */
+  tolerance: number;
+  /** Measured points along the line element */
+  measuredPoints: LinePoint[];
+  /** Reference line (default: minimum-zone) */
+  fitMethod?: LineFitMethod;
+}
+
+/**
+ * Straightness calculation results.
+ */
+export interface StraightnessResult extends BaseCalculatorResult {
+  /** Stated straightness tolerance */
+  statedTolerance: number;
+  /** Zone width between the two parallel lines */
+  measuredStraightness: number;
+  /** Fitting method used */
+  fitMethod: LineFitMethod;
+  /** Fitted reference line y = slope · x + intercept */
+  line: { slope: number; intercept: number };
+  /** Highest point deviation from the reference line */
+  maxDeviation: number;
+  /** Lowest point deviation from the reference line */
+  minDeviation: number;
+  /** Percentage of tolerance consumed */
+  toleranceConsumed: number;
+  /** Number of points analyzed */
+  pointCount: number;
+}
+
+// ============================================================================
+// CIRCULARITY AND CYLINDRICITY CALCULATOR TYPES
+// ============================================================================
+
+/**
+ * Reference circle or cylinder used to evaluate a round feature.
+ * - minimum-zone: the two concentric boundaries closest together (MZC)
+ * - least-squares: reference minimizing the squared radial deviations (LSC)
+ * - maximum-inscribed: largest boundary inside the points (MIC), for holes
+ * - minimum-circumscribed: smallest boundary around the points (MCC), for shafts
+ */
+export type RoundnessFitMethod = "minimum-zone" | "least-squares" | "maximum-inscribed" | "minimum-circumscribed";
+
+/**
+ * Measured point on a circular cross-section.
+ */
+export interface CirclePoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Input for circularity calculations of one cross-section.
+ */
+export interface CircularityInput extends BaseCalculatorInput {
+  /** Stated circularity tolerance (radial zone width) */
+  tolerance: number;
+  /** Measured points around the section */
+  measuredPoints: CirclePoint[];
+  /** Reference circle (default: minimum-zone) */
+  fitMethod?: RoundnessFitMethod;
+}
+
+/**
+ * Circularity calculation results.
+ */
+export interface CircularityResult extends BaseCalculatorResult {
+  /** Stated circularity tolerance */
+  statedTolerance: number;
+  /** Radial distance between the concentric zone boundaries */
+  measuredCircularity: number;
+  /** Fitting method used */
+  fitMethod: RoundnessFitMethod;
+  /** Center of the reference circle */
+  center: CirclePoint;
+  /** Radius of the reference circle */
+  radius: number;
+  /** Smallest point radius about the center */
+  innerRadius: number;
+  /** Largest point radius about the center */
+  outerRadius: number;
+  /** Percentage of tolerance consumed */
+  toleranceConsumed: number;
+  /** Number of points analyzed */
+  pointCount: number;
+}
+
+/**
+ * Input for cylindricity calculations from several cross-sections.
+ * The axis is expected to run roughly along Z.
+ */
+export interface CylindricityInput extends BaseCalculatorInput {
+  /** Stated cylindricity tolerance (radial zone width) */
+  tolerance: number;
+  /** Measured surface points, taken on at least two sections along Z */
+  measuredPoints: SurfacePoint[];
+  /** Reference cylinder (default: minimum-zone) */
+  fitMethod?: RoundnessFitMethod;
+}
+
+/**
+ * Cylindricity calculation results.
+ */
+export interface CylindricityResult extends BaseCalculatorResult {
+  /** Stated cylindricity tolerance */
+  statedTolerance: number;
+  /** Radial distance between the coaxial zone boundaries */
+  measuredCylindricity: number;
+  /** Fitting method used */
+  fitMethod: RoundnessFitMethod;
+  /** Point on the reference axis at the lowest section */
+  axisPoint: SurfacePoint;
+  /** Unit direction of the reference axis */
+  axisDirection: SurfacePoint;
+  /** Radius of the reference cylinder */
+  radius: number;
+  /** Smallest point radius about the axis */
+  innerRadius: number;
+  /** Largest point radius about the axis */
+  outerRadius: number;
+  /** Percentage of tolerance consumed */
+  toleranceConsumed: number;
+  /** Number of points analyzed */
+  pointCount: number;
+  /** Number of distinct sections along the axis */
+  sectionCount: number;
 }
 
 // ============================================================================
@@ -266,6 +871,217 @@ export interface PerpendicularityResult extends BaseCalculatorResult {
   toleranceConsumed: number;
 }
 
+// ============================================================================
+// PARALLELISM AND ANGULARITY CALCULATOR TYPES
+// ============================================================================
+
+/**
+ * Point measured in the datum frame: x along the datum, y normal to it.
+ * For an axis the points are axis centers at stations along its length, and
+ * z is the offset out of the measurement plane (used by diametral zones).
+ */
+export interface OrientationPoint {
+  x: number;
+  y: number;
+  z?: number;
+}
+
+/**
+ * Source of the measured orientation deviation.
+ * - points: spread of measured points across the zone direction
+ * - indicator: full indicator movement over the length
+ * - linear / angular: deviation reported directly
+ */
+export type OrientationMeasurement = "points" | "indicator" | "linear" | "angular";
+
+/**
+ * Input shared by the parallelism and angularity calculators.
+ * Surfaces (surface, plane, edge) are planar zones at RFS; features of size
+ * (hole, slot, pin, boss) control their axis and may apply MMC/LMC.
+ */
+export interface OrientationInput extends BaseCalculatorInput {
+  /** Stated orientation tolerance */
+  tolerance: number;
+  /** Material condition modifier (features of size only) */
+  materialCondition?: MaterialConditionSymbol;
+  /** Feature type */
+  featureType: FeatureType;
+  /** Size dimension (required for MMC/LMC) */
+  sizeDimension?: SizeDimensionInput;
+  /** Actual measured size (required for MMC/LMC) */
+  actualSize?: number;
+  /** Whether an axis zone is cylindrical (⌀ tolerance) */
+  diametralZone?: boolean;
+  /** Measured points in the datum frame */
+  measuredPoints?: OrientationPoint[];
+  /** Indicator readings taken along the feature, relative to the datum */
+  indicatorReadings?: number[];
+  /** Measured linear deviation over the measurement length */
+  linearDeviation?: number;
+  /** Measured angular deviation from the basic orientation (degrees) */
+  angularDeviation?: number;
+  /** Length over which the deviation is measured */
+  measurementLength?: number;
+}
+
+/**
+ * Input for parallelism calculations.
+ */
+export type ParallelismInput = OrientationInput;
+
+/**
+ * Input for angularity calculations.
+ */
+export interface AngularityInput extends OrientationInput {
+  /** Basic angle between the feature and the datum (degrees) */
+  basicAngle: number;
+  /** Measured angle between the feature and the datum (degrees) */
+  measuredAngle?: number;
+}
+
+/**
+ * Result shared by the parallelism and angularity calculators.
+ */
+export interface OrientationResult extends BaseCalculatorResult {
+  /** Stated orientation tolerance */
+  statedTolerance: number;
+  /** Material condition applied */
+  materialCondition: MaterialConditionSymbol;
+  /** Whether the zone controls a surface or a feature axis */
+  controlledElement: "surface" | "axis";
+  /** How the deviation was measured */
+  measurementMethod: OrientationMeasurement;
+  /** Bonus tolerance (0 for RFS) */
+  bonusTolerance: number;
+  /** Total allowable tolerance */
+  totalAllowableTolerance: number;
+  /** Measured deviation (zone width or diameter) */
+  measuredDeviation: number;
+  /** Virtual condition (for MMC/LMC on FOS) */
+  virtualCondition?: number;
+  /** Size limits (if FOS) */
+  sizeLimits?: SizeLimits;
+  /** Percentage of tolerance consumed */
+  toleranceConsumed: number;
+}
+
+/**
+ * Parallelism calculation results.
+ */
+export type ParallelismResult = OrientationResult;
+
+/**
+ * Angularity calculation results.
+ */
+export interface AngularityResult extends OrientationResult {
+  /** Basic angle the zone is oriented at (degrees) */
+  basicAngle: number;
+}
+
+// ============================================================================
+// RUNOUT CALCULATOR TYPES
+// ============================================================================
+
+/**
+ * Indicator readings taken at one section while the part rotates about the
+ * datum axis.
+ */
+export interface RunoutSection {
+  /** Section label (default: S1, S2, ...) */
+  id?: string;
+  /** Axial position of the section along the datum axis */
+  position?: number;
+  /** Indicator readings over one full revolution */
+  readings: number[];
+}
+
+/**
+ * Input for circular runout calculations.
+ * Each section is evaluated on its own; the indicator may be re-zeroed
+ * between sections.
+ */
+export interface RunoutInput extends BaseCalculatorInput {
+  /** Stated runout tolerance (full indicator reading) */
+  tolerance: number;
+  /**
+   * Datum features establishing the axis of rotation: one datum (A) or two
+   * coaxial datum features forming a common axis (A-B)
+   */
+  datumAxis: string[];
+  /** Sections measured along the feature */
+  sections: RunoutSection[];
+}
+
+/**
+ * Input for total runout calculations.
+ * The sections sweep the whole surface with a single indicator zero, so
+ * readings from different sections are compared with each other.
+ */
+export interface TotalRunoutInput extends BaseCalculatorInput {
+  /** Stated total runout tolerance (full indicator reading) */
+  tolerance: number;
+  /** Datum features establishing the axis of rotation (A or A-B) */
+  datumAxis: string[];
+  /** Sections covering the surface, in sweep order */
+  sections: RunoutSection[];
+}
+
+/**
+ * Full indicator reading of one section.
+ */
+export interface RunoutSectionResult {
+  /** Section label */
+  id: string;
+  /** Axial position of the section */
+  position?: number;
+  /** Highest reading */
+  maxReading: number;
+  /** Lowest reading */
+  minReading: number;
+  /** Full indicator reading (max - min) */
+  fir: number;
+  /** Whether the section FIR is within the stated tolerance */
+  conformance: boolean;
+}
+
+/**
+ * Circular runout calculation results.
+ */
+export interface RunoutResult extends BaseCalculatorResult {
+  /** Stated runout tolerance */
+  statedTolerance: number;
+  /** Datum axis label (A or A-B) */
+  datumAxis: string;
+  /** Per-section results */
+  sections: RunoutSectionResult[];
+  /** Largest section FIR */
+  maxFir: number;
+  /** Section with the largest FIR */
+  worstSection: string;
+  /** Percentage of tolerance consumed by the worst section */
+  toleranceConsumed: number;
+}
+
+/**
+ * Total runout calculation results.
+ */
+export interface TotalRunoutResult extends BaseCalculatorResult {
+  /** Stated total runout tolerance */
+  statedTolerance: number;
+  /** Datum axis label (A or A-B) */
+  datumAxis: string;
+  /** Per-section results (FIR within each section) */
+  sections: RunoutSectionResult[];
+  /** Largest FIR within a single section */
+  maxSectionFir: number;
+  /** Full indicator reading over the whole surface */
+  totalFir: number;
+  /** Percentage of tolerance consumed by the total FIR */
+  toleranceConsumed: number;
+  /** Number of readings analyzed */
+  readingCount: number;
+}
+
 // ============================================================================
 // PROFILE CALCULATOR TYPES
 // ============================================================================
@@ -285,8 +1101,96 @@ export interface ProfilePoint {
   deviation: number;
 }
 
+/**
+ * Measured coordinate on a profiled feature, or a vertex of a nominal profile.
+ */
+export interface ProfileCoordinate {
+  x: number;
+  y: number;
+  /** Height, used by sampled surfaces (default 0) */
+  z?: number;
+}
+
+/**
+ * Element of a nominal profile made of lines and arcs (in the XY plane).
+ */
+export type NominalProfileSegment =
+  | {
+      type: "line";
+      start: ProfileCoordinate;
+      end: ProfileCoordinate;
+    }
+  | {
+      type: "arc";
+      center: ProfileCoordinate;
+      radius: number;
+      /** Start angle (degrees, from +X) */
+      startAngle: number;
+      /** End angle (degrees, from +X) */
+      endAngle: number;
+      /** Direction of travel from start to end (default: counter-clockwise) */
+      clockwise?: boolean;
+    };
+
+/**
+ * Point of a sampled CAD curve or surface with its outward normal.
+ */
+export interface NominalProfileSample {
+  point: ProfileCoordinate;
+  /** Direction pointing away from the material (the + side) */
+  normal: ProfileCoordinate;
+}
+
+/**
+ * Nominal (true) profile the measured points are compared with.
+ *
+ * Polylines and line/arc segments describe a profile of a line in the XY
+ * plane; the material lies on the left of the direction of travel unless
+ * materialSide says otherwise (a counter-clockwise outer contour). Sampled
+ * curves or surfaces carry their own outward normals and may be 3D.
+ */
+export type NominalProfile =
+  | {
+      type: "polyline";
+      vertices: ProfileCoordinate[];
+      /** Join the last vertex back to the first */
+      closed?: boolean;
+      materialSide?: "left" | "right";
+    }
+  | {
+      type: "segments";
+      segments: NominalProfileSegment[];
+      materialSide?: "left" | "right";
+    }
+  | {
+      type: "sampled";
+      samples: NominalProfileSample[];
+    };
+
+/**
+ * Best-fit alignment applied to raw points of a form-only profile: rotation
+ * about the point centroid, then translation.
+ */
+export interface ProfileAlignment {
+  /** Translation in X */
+  dx: number;
+  /** Translation in Y */
+  dy: number;
+  /** Translation in Z */
+  dz: number;
+  /** Rotation about X (degrees) */
+  rx: number;
+  /** Rotation about Y (degrees) */
+  ry: number;
+  /** Rotation about Z (degrees, counter-clockwise) */
+  rz: number;
+}
+
 /**
  * Input for profile calculations.
+ *
+ * Supply either pre-computed deviations (measuredPoints) or raw coordinates
+ * (rawPoints) with the nominal profile they are compared with.
  */
 export interface ProfileInput extends BaseCalculatorInput {
   /** Total profile tolerance zone width */
@@ -298,9 +1202,18 @@ export interface ProfileInput extends BaseCalculatorInput {
   /** Material condition modifier (rarely used for profile) */
   materialCondition?: MaterialConditionSymbol;
   /** Measured profile points with deviations */
-  measuredPoints: ProfilePoint[];
+  measuredPoints?: ProfilePoint[];
+  /** Raw measured coordinates, evaluated against nominalProfile */
+  rawPoints?: ProfileCoordinate[];
+  /** Nominal profile for raw coordinates */
+  nominalProfile?: NominalProfile;
   /** Whether profile controls form only (no datums) */
   formOnly: boolean;
+  /**
+   * Best-fit raw points to the nominal before evaluating; only allowed for
+   * form-only profiles (default: formOnly)
+   */
+  bestFit?: boolean;
 }
 
 /**
@@ -327,6 +1240,10 @@ export interface ProfileResult extends BaseCalculatorResult {
   pointCount: number;
   /** Points that exceed tolerance (indices) */
   nonConformingPoints: number[];
+  /** Deviations computed from raw points (position = distance along the nominal) */
+  evaluatedPoints?: ProfilePoint[];
+  /** Best-fit alignment applied to raw points */
+  alignment?: ProfileAlignment;
 }
 
 // ============================================================================
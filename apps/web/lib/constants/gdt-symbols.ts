@@ -5,7 +5,7 @@
  * following ASME Y14.5-2018 standard conventions.
  */
 
-import type { Characteristic, MaterialConditionSymbol, FeatureType, FrameModifier } from "@/lib/fcf/schema";
+import type { Characteristic, MaterialConditionSymbol, FeatureType, FrameModifier, IsoModifier } from "@/lib/fcf/schema";
 
 // ============================================================================
 // UNICODE SYMBOLS
@@ -215,6 +215,19 @@ export const FRAME_MODIFIER_SYMBOLS: Record<FrameModifier, string> = {
   UNEQUALLY_DISPOSED: "Ⓤ",
 };
 
+// ============================================================================
+// ISO GPS MODIFIER LABELS
+// ============================================================================
+
+export const ISO_MODIFIER_LABELS: Record<IsoModifier, string> = {
+  CZ: "Combined Zone",
+  SZ: "Separate Zones",
+  UZ: "Offset Zone",
+  ACS: "Any Cross-Section",
+  LE: "Line Element",
+  NC: "Not Convex",
+};
+
 // ============================================================================
 // SVG PATHS FOR CHARACTERISTIC ICONS
 // ============================================================================
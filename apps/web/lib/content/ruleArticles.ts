@@ -0,0 +1,118 @@
+/**
+ * Rule Support Articles
+ *
+ * One support article per validation code, generated from the rule catalog so
+ * the references, rationale and examples shown in the app and on the support
+ * site never drift apart. Articles are written to content/support/rules by
+ * `pnpm generate:rule-articles`; the unit tests fail when they are stale.
+ *
+ * Client-safe: no filesystem access (see ./support for reading articles).
+ */
+
+import { errorCodes, type ErrorCode } from "@/lib/rules/errorCodes";
+import { FEATURE_TYPE_LABELS } from "@/lib/constants/gdt-symbols";
+import { STANDARD_LABELS } from "@/lib/fcf/standards";
+import type { Rule, RuleExample, StandardReference } from "@/lib/rules/validateFcf";
+
+/** Directory under content/support holding the generated articles */
+export const RULE_ARTICLES_DIR = "rules";
+
+export function ruleArticleSlug(code: ErrorCode): string {
+  return code.toLowerCase();
+}
+
+export function ruleArticleHref(code: ErrorCode): string {
+  return `/support/${RULE_ARTICLES_DIR}/${ruleArticleSlug(code)}`;
+}
+
+/**
+ * Cite a reference as "ASME Y14.5-2018 §10.4.1 Projected Tolerance Zone, Fig. 10-21".
+ */
+export function formatStandardReference(reference: StandardReference): string {
+  const section = reference.section ? ` §${reference.section}` : "";
+  const figure = reference.figure ? `, Fig. ${reference.figure}` : "";
+  return `${reference.document}${section} ${reference.title}${figure}`;
+}
+
+// Errors first, then warnings, then ISO checks, each in numeric order
+const codePrefixOrder: Record<string, number> = { E: 0, W: 1, I: 2 };
+
+function articleOrder(code: ErrorCode): number {
+  return (codePrefixOrder[code[0]] ?? 3) * 100 + parseInt(code.slice(1), 10);
+}
+
+function renderExample(heading: string, example: RuleExample): string[] {
+  const details = [
+    example.featureType && `Feature: ${FEATURE_TYPE_LABELS[example.featureType]}`,
+    example.standard && `Standard: ${STANDARD_LABELS[example.standard]}`,
+  ].filter(Boolean);
+  return [
+    `### ${heading}`,
+    "",
+    "```text",
+    example.frame,
+    "```",
+    "",
+    ...(example.fields ? ["With these JSON fields:", "", "```json", JSON.stringify(example.fields, null, 2), "```", ""] : []),
+    details.length > 0 ? `${example.note}. ${details.join(", ")}.` : `${example.note}.`,
+    "",
+  ];
+}
+
+/**
+ * Render the MDX support article for a rule.
+ */
+export function renderRuleArticle(rule: Rule): string {
+  const title = `${rule.code}: ${rule.description}`;
+  const standards = (rule.standards ?? (Object.keys(STANDARD_LABELS) as (keyof typeof STANDARD_LABELS)[])).map(
+    (standard) => STANDARD_LABELS[standard]
+  );
+
+  const lines = [
+    "---",
+    `title: ${JSON.stringify(title)}`,
+    `description: ${JSON.stringify(errorCodes[rule.code])}`,
+    `category: "rules"`,
+    `order: ${articleOrder(rule.code)}`,
+    `code: "${rule.code}"`,
+    `severity: "${rule.severity}"`,
+    "---",
+    "",
+    "{/* Generated from the rule catalog in lib/rules/validateFcf.ts. Run `pnpm generate:rule-articles` after editing a rule. */}",
+    "",
+    `# ${title}`,
+    "",
+    `**Message:** ${errorCodes[rule.code]}`,
+    "",
+    `**Default severity:** ${rule.severity}. **Checked for:** ${standards.join(", ")}.`,
+    "",
+    "## Why",
+    "",
+    rule.rationale,
+    "",
+    "## Standard References",
+    "",
+    ...(rule.references.length > 0
+      ? rule.references.map((reference) => `- ${formatStandardReference(reference)}`)
+      : ["This check is based on drafting practice rather than a clause of a standard."]),
+    "",
+  ];
+
+  if (rule.examples) {
+    lines.push(
+      "## Examples",
+      "",
+      ...renderExample("Acceptable", rule.examples.good),
+      ...renderExample("Reported", rule.examples.bad)
+    );
+  }
+
+  lines.push(
+    "## Changing This Rule",
+    "",
+    `A rule profile can disable ${rule.code} or change its severity for a project or for your whole account. See **Settings → Validation → Rule Profiles**.`,
+    ""
+  );
+
+  return lines.join("\n");
+}
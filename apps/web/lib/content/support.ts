@@ -1,6 +1,7 @@
 import fs from "fs";
 import path from "path";
 import matter from "gray-matter";
+import { RULE_ARTICLES_DIR } from "./ruleArticles";
 
 const SUPPORT_CONTENT_DIR = path.join(process.cwd(), "content/support");
 
@@ -96,3 +97,72 @@ export function getAdjacentArticles(currentSlug: string): {
     next: currentIndex < articles.length - 1 ? articles[currentIndex + 1] : null,
   };
 }
+
+// ============================================================================
+// RULE ARTICLES
+// ============================================================================
+
+const RULE_CONTENT_DIR = path.join(SUPPORT_CONTENT_DIR, RULE_ARTICLES_DIR);
+
+export interface RuleArticleMeta extends SupportArticleMeta {
+  code: string;
+  severity: string;
+}
+
+export interface RuleArticle extends RuleArticleMeta {
+  content: string;
+}
+
+function readRuleArticle(slug: string): RuleArticle | null {
+  const filePath = path.join(RULE_CONTENT_DIR, `${slug}.mdx`);
+
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  const fileContent = fs.readFileSync(filePath, "utf-8");
+  const { data, content } = matter(fileContent);
+
+  return {
+    slug,
+    title: data.title || slug,
+    description: data.description || "",
+    lastUpdated: data.lastUpdated || "",
+    category: data.category || "rules",
+    order: data.order || 999,
+    code: data.code || slug.toUpperCase(),
+    severity: data.severity || "error",
+    content,
+  };
+}
+
+/**
+ * Get all validation rule article slugs (generated from the rule catalog)
+ */
+export function getRuleArticleSlugs(): string[] {
+  if (!fs.existsSync(RULE_CONTENT_DIR)) {
+    return [];
+  }
+  return fs
+    .readdirSync(RULE_CONTENT_DIR)
+    .filter((file) => file.endsWith(".mdx"))
+    .map((file) => file.replace(/\.mdx$/, ""));
+}
+
+/**
+ * Get metadata for all rule articles, errors first (for the rule reference index)
+ */
+export function getAllRuleArticles(): RuleArticleMeta[] {
+  return getRuleArticleSlugs()
+    .map((slug) => readRuleArticle(slug))
+    .filter((article): article is RuleArticle => article !== null)
+    .map(({ content: _content, ...meta }) => meta)
+    .sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Get a single rule article by slug (lowercase error code)
+ */
+export function getRuleArticle(slug: string): RuleArticle | null {
+  return readRuleArticle(slug);
+}
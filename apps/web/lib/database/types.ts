@@ -9,6 +9,7 @@
  */
 
 import { FcfJson, Characteristic, Unit } from "@/lib/fcf/schema";
+import type { DatumFeature } from "@/lib/fcf/datums";
 
 // ============================================================================
 // ENUMS (matching SQL CHECK constraints)
@@ -18,7 +19,16 @@ export type FileRole = "image" | "pdf" | "step" | "csv" | "export_png" | "export
 export type UploadStatus = "stored" | "failed" | "deleted";
 export type SourceInputType = "image" | "builder" | "json";
 export type Confidence = "high" | "medium" | "low";
-export type Calculator = "position_mmc" | "flatness" | "perpendicularity" | "profile";
+export type Calculator =
+  | "position_mmc"
+  | "flatness"
+  | "straightness"
+  | "circularity"
+  | "cylindricity"
+  | "perpendicularity"
+  | "runout"
+  | "total_runout"
+  | "profile";
 export type RunType = "initial" | "retry" | "manual_override";
 export type MeasurementType = "trial" | "final";
 
@@ -45,6 +55,8 @@ export interface Project extends Timestamps, SoftDelete {
   name: string;
   description?: string | null;
   tags: string[];
+  rule_profile_id?: string | null; // Validation rule profile (falls back to the owner's default)
+  datum_features?: DatumFeature[]; // Datum feature catalog referenced by FcfJson.datums
 }
 
 export interface ProjectInsert {
@@ -57,6 +69,8 @@ export interface ProjectUpdate {
   name?: string;
   description?: string | null;
   tags?: string[];
+  rule_profile_id?: string | null;
+  datum_features?: DatumFeature[];
 }
 
 // ============================================================================
@@ -327,7 +341,17 @@ export interface MeasurementListParams extends ListParams {
 // ============================================================================
 
 export type StackupPositiveDirection = "left-to-right" | "right-to-left" | "bottom-to-top" | "top-to-bottom";
-export type StackupAnalysisMethod = "worst-case" | "rss" | "six-sigma";
+export type StackupAnalysisMethod = "worst-case" | "rss" | "six-sigma" | "monte-carlo";
+
+export interface StackupMonteCarloJson {
+  sampleCount?: number;
+  seed?: number;
+}
+
+export interface StackupVectorLoopJson {
+  closure: "projection" | "distance";
+  closureAngle?: number;
+}
 
 export interface StackupAcceptanceCriteriaJson {
   minimum?: number;
@@ -343,7 +367,23 @@ export interface StackupDimensionJson {
   toleranceMinus: number;
   sign: "positive" | "negative";
   sensitivityCoefficient: number;
+  angle?: number;
   processCapability?: number;
+  processCapabilityK?: number;
+  distribution?: "normal" | "uniform" | "triangular" | "lognormal";
+  meanOffset?: number;
+  skewness?: number;
+  fcfLink?: {
+    fcfRecordId: string;
+    contributor: "geometric" | "bonus" | "datumShift";
+    datumId?: string;
+    fcfUpdatedAt?: string;
+  };
+  allocation?: {
+    minTolerance?: number;
+    maxTolerance?: number;
+    costWeight?: number;
+  };
   sourceDrawing?: string;
   sourceRevision?: string;
 }
@@ -358,7 +398,11 @@ export interface StackupAnalysisRow extends Timestamps, SoftDelete {
   positive_direction: StackupPositiveDirection;
   dimensions: StackupDimensionJson[];
   analysis_method: StackupAnalysisMethod;
+  monte_carlo?: StackupMonteCarloJson | null;
+  vector_loop?: StackupVectorLoopJson | null;
   unit: Unit;
+  version: number;
+  previous_version_id?: string | null;
   created_by: string;
 }
 
@@ -371,7 +415,11 @@ export interface StackupAnalysisInsert {
   positive_direction: StackupPositiveDirection;
   dimensions: StackupDimensionJson[];
   analysis_method: StackupAnalysisMethod;
+  monte_carlo?: StackupMonteCarloJson | null;
+  vector_loop?: StackupVectorLoopJson | null;
   unit?: Unit;
+  version?: number;
+  previous_version_id?: string | null;
 }
 
 export interface StackupAnalysisUpdate {
@@ -382,6 +430,8 @@ export interface StackupAnalysisUpdate {
   positive_direction?: StackupPositiveDirection;
   dimensions?: StackupDimensionJson[];
   analysis_method?: StackupAnalysisMethod;
+  monte_carlo?: StackupMonteCarloJson | null;
+  vector_loop?: StackupVectorLoopJson | null;
   unit?: Unit;
 }
 
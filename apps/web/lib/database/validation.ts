@@ -7,6 +7,7 @@
 
 import { z } from "zod";
 import { fcfJsonSchema } from "@/lib/fcf/schema";
+import { datumCatalogSchema } from "@/lib/fcf/datums";
 
 // ============================================================================
 // COMMON SCHEMAS
@@ -34,7 +35,9 @@ export const projectInsertSchema = z.object({
 export const projectUpdateSchema = z.object({
   name: z.string().min(1).max(255).trim().optional(),
   description: z.string().max(2000).trim().nullable().optional(),
-  tags: z.array(z.string().min(1).max(50)).max(20).optional()
+  tags: z.array(z.string().min(1).max(50)).max(20).optional(),
+  rule_profile_id: z.string().uuid().nullable().optional(),
+  datum_features: datumCatalogSchema.optional()
 });
 
 export const projectListParamsSchema = paginationSchema.extend({
@@ -168,7 +171,12 @@ export const interpretationRunInsertSchema = z.object({
 export const calculatorSchema = z.enum([
   "position_mmc",
   "flatness",
+  "straightness",
+  "circularity",
+  "cylindricity",
   "perpendicularity",
+  "runout",
+  "total_runout",
   "profile"
 ]);
 
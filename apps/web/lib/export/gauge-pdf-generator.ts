@@ -0,0 +1,183 @@
+/**
+ * Server-side PDF Generator for Functional Gauge Spec Sheets
+ *
+ * Generates a one-page spec sheet listing each gauge element with its
+ * boundary, manufacturing size range and wear limit.
+ */
+
+import { jsPDF } from "jspdf";
+import type { GaugeDesignResult, GaugeElement } from "@/lib/calc/types";
+import { convertValue, displayDecimals, formatDimension, UNIT_LABELS } from "@/lib/util/units";
+import type { PdfGeneratorOptions } from "./pdf-generator";
+
+// Constants
+const BOUNDARY_LABELS: Record<GaugeElement["boundaryType"], string> = {
+  "virtual-condition": "Virtual condition",
+  MMB: "MMB",
+};
+
+type SizeFormatter = (value: number) => string;
+
+const ELEMENT_COLUMNS: { header: string; width: number; value: (element: GaugeElement, size: SizeFormatter) => string }[] = [
+  { header: "Element", width: 26, value: (e) => e.label },
+  { header: "Type", width: 14, value: (e) => (e.elementType === "pin" ? "Pin" : "Hole") },
+  { header: "Qty", width: 10, value: (e) => String(e.quantity) },
+  { header: "Boundary", width: 30, value: (e, size) => `Ø${size(e.boundary)} ${BOUNDARY_LABELS[e.boundaryType]}` },
+  { header: "Make size", width: 36, value: (e, size) => `Ø${size(e.minSize)} - ${size(e.maxSize)}` },
+  { header: "Wear limit", width: 22, value: (e, size) => `Ø${size(e.wearLimit)}` },
+  { header: "Share", width: 14, value: (e) => `${e.toleranceShare.toFixed(1)}%` },
+];
+
+/**
+ * Generate PDF buffer for a functional gauge spec sheet
+ */
+export async function generateGaugeSpecPdf(
+  design: GaugeDesignResult,
+  options: PdfGeneratorOptions = {}
+): Promise<Buffer> {
+  const {
+    includeMetadata = true,
+    pageSize = "a4",
+    orientation = "portrait",
+    displayUnit = design.unit,
+    dualDisplay,
+  } = options;
+
+  const doc = new jsPDF({
+    orientation,
+    unit: "mm",
+    format: pageSize,
+  });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 20;
+  const unit = design.unit;
+  // Gauge sizes carry one more place than the part dimensions
+  const decimals = options.decimals ?? displayDecimals(displayUnit) + 1;
+  const size: SizeFormatter = (value) => {
+    const converted = convertValue(value, unit, displayUnit, decimals);
+    return converted.value.toFixed(converted.decimals);
+  };
+  const dim = (value: number) => formatDimension(value, unit, { decimals, displayUnit, dualDisplay });
+  let yPos = margin;
+
+  // Header
+  doc.setFontSize(18);
+  doc.setFont("helvetica", "bold");
+  doc.text("Functional Gauge Specification", margin, yPos);
+  yPos += 10;
+
+  // Subtitle
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+  doc.setTextColor(100, 100, 100);
+  doc.text(`Generated by DatumPilot • ${new Date().toLocaleDateString()}`, margin, yPos);
+  yPos += 15;
+
+  if (design.name) {
+    doc.setFontSize(14);
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(0, 0, 0);
+    doc.text(design.name, margin, yPos);
+    yPos += 10;
+  }
+
+  const addRow = (label: string, value: string) => {
+    doc.setFont("helvetica", "bold");
+    doc.text(`${label}:`, margin, yPos);
+    doc.setFont("helvetica", "normal");
+    doc.text(value, margin + 50, yPos);
+    yPos += 6;
+  };
+
+  // Part requirements
+  if (includeMetadata) {
+    doc.setTextColor(0, 0, 0);
+    doc.setFontSize(12);
+    doc.setFont("helvetica", "bold");
+    doc.text("Part Requirements", margin, yPos);
+    yPos += 8;
+
+    doc.setFontSize(10);
+    addRow("Position tolerance", `Ø${dim(design.statedTolerance)} at MMC`);
+    addRow(
+      "Feature size",
+      `${size(design.sizeLimits.lowerLimit)} - ${dim(design.sizeLimits.upperLimit)} (MMC ${size(design.sizeLimits.mmc)})`
+    );
+    addRow("Virtual condition", `Ø${dim(design.virtualCondition)}`);
+    yPos += 6;
+  }
+
+  // Gauge elements table
+  doc.setTextColor(0, 0, 0);
+  doc.setFontSize(12);
+  doc.setFont("helvetica", "bold");
+  doc.text("Gauge Elements", margin, yPos);
+  yPos += 8;
+
+  doc.setFontSize(9);
+  let xPos = margin;
+  ELEMENT_COLUMNS.forEach((column) => {
+    doc.text(column.header, xPos, yPos);
+    xPos += column.width;
+  });
+  yPos += 2;
+  doc.setDrawColor(51, 65, 85); // #334155
+  doc.line(margin, yPos, pageWidth - margin, yPos);
+  yPos += 5;
+
+  doc.setFont("courier", "normal");
+  design.elements.forEach((element) => {
+    xPos = margin;
+    ELEMENT_COLUMNS.forEach((column) => {
+      doc.text(column.value(element, size), xPos, yPos);
+      xPos += column.width;
+    });
+    yPos += 6;
+  });
+  yPos += 6;
+
+  // Gauge tolerances
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "bold");
+  doc.text("Gauge Tolerances", margin, yPos);
+  yPos += 8;
+
+  addRow("Element location", `Ø${dim(design.locationTolerance)} to true position`);
+  design.elements.forEach((element) => {
+    addRow(
+      element.label,
+      `gauge ${size(element.gaugeTolerance)} + wear ${size(element.wearAllowance)} of part tolerance ${size(element.partTolerance)} ${UNIT_LABELS[displayUnit]}`
+    );
+  });
+  yPos += 4;
+
+  // Notes
+  doc.setFont("helvetica", "normal");
+  doc.setTextColor(100, 100, 100);
+  const notes = [
+    "Gauge and wear tolerances are applied inside the part tolerance.",
+    "Pins are made oversize and wear down to the wear limit; holes are made undersize and wear up to it.",
+  ];
+  if (design.status === "warning") {
+    notes.push(`Gauge tolerances take ${design.maxToleranceShare.toFixed(1)}% of the part tolerance.`);
+  }
+  notes.forEach((note) => {
+    doc.text(note, margin, yPos);
+    yPos += 5;
+  });
+
+  // Footer
+  doc.setFontSize(8);
+  doc.setTextColor(150, 150, 150);
+  doc.text(
+    "DatumPilot • Functional Gauge Designer",
+    pageWidth / 2,
+    pageHeight - 10,
+    { align: "center" }
+  );
+
+  const arrayBuffer = doc.output("arraybuffer");
+  return Buffer.from(arrayBuffer);
+}
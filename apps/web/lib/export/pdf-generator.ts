@@ -6,7 +6,9 @@
 
 import { jsPDF } from "jspdf";
 import type { FcfJson, MaterialConditionSymbol, Characteristic } from "@/lib/fcf/schema";
-import { generateFcfSvg } from "./svg-generator";
+import { STANDARD_LABELS } from "@/lib/fcf/standards";
+import { displayDecimals, formatDimension, type DisplayPrecision } from "@/lib/util/units";
+import { generateFcfSvg, getFrameLayout, type FrameLayout, type FrameRow } from "./svg-generator";
 
 // Constants
 const CHARACTERISTIC_LABELS: Record<Characteristic, string> = {
@@ -30,12 +32,43 @@ const MATERIAL_CONDITION_LABELS: Record<MaterialConditionSymbol, string> = {
   RFS: "Regardless of Feature Size",
 };
 
-export interface PdfGeneratorOptions {
+const FRAME_KIND_LABELS: Record<Exclude<FrameLayout["kind"], "single">, string> = {
+  composite: "Composite",
+  multipleSingleSegments: "Multiple Single-Segment",
+};
+
+export interface PdfGeneratorOptions extends DisplayPrecision {
   includeMetadata?: boolean;
   pageSize?: "a4" | "letter";
   orientation?: "portrait" | "landscape";
 }
 
+/**
+ * Format the tolerance and datum portion of a frame row as text
+ */
+function formatRowText(row: FrameRow): string {
+  let text = "";
+  if (row.tolerance?.value !== undefined) {
+    text += ` ${row.tolerance.diameter ? "⌀" : ""}${row.tolerance.value.toFixed(3)}`;
+    if (row.zoneModifiers && row.zoneModifiers.length > 0) {
+      text += ` ${row.zoneModifiers.join(" ")}`;
+    }
+    if (row.tolerance.materialCondition && row.tolerance.materialCondition !== "RFS") {
+      text += ` (${row.tolerance.materialCondition})`;
+    }
+  }
+  if (row.datums.length > 0) {
+    text += ` | ${row.datums.map((d) => {
+      let txt = d.id;
+      if (d.materialCondition && d.materialCondition !== "RFS") {
+        txt += `(${d.materialCondition})`;
+      }
+      return txt;
+    }).join(" ")}`;
+  }
+  return text;
+}
+
 /**
  * Generate PDF buffer for an FCF
  */
@@ -47,6 +80,8 @@ export async function generateFcfPdf(
     includeMetadata = true,
     pageSize = "a4",
     orientation = "portrait",
+    displayUnit,
+    dualDisplay,
   } = options;
 
   // Create PDF document
@@ -88,40 +123,37 @@ export async function generateFcfPdf(
 
   // Create a simple rectangular representation in PDF
   // Note: Full SVG embedding requires additional libraries
+  const layout = getFrameLayout(fcf);
+  const rowHeight = 10;
   const boxWidth = Math.min(pageWidth - margin * 2, 150);
-  const boxHeight = 25;
+  const boxHeight = Math.max(25, layout.rows.length * rowHeight + 10);
 
   // Draw FCF box representation
   doc.setDrawColor(51, 65, 85); // #334155
   doc.setFillColor(26, 35, 50); // #1A2332
   doc.roundedRect(margin, yPos, boxWidth, boxHeight, 2, 2, "FD");
 
-  // Add text representation of FCF
+  // Add text representation of FCF, one line per frame row
   doc.setFontSize(12);
   doc.setFont("courier", "bold");
   doc.setTextColor(248, 250, 252); // #F8FAFC
 
-  let fcfText = "";
-  if (fcf.characteristic) {
-    fcfText += `[${CHARACTERISTIC_LABELS[fcf.characteristic]}]`;
-  }
-  if (fcf.tolerance?.value !== undefined) {
-    fcfText += ` ${fcf.tolerance.diameter ? "⌀" : ""}${fcf.tolerance.value.toFixed(3)}`;
-    if (fcf.tolerance.materialCondition && fcf.tolerance.materialCondition !== "RFS") {
-      fcfText += ` (${fcf.tolerance.materialCondition})`;
-    }
-  }
-  if (fcf.datums && fcf.datums.length > 0) {
-    fcfText += ` | ${fcf.datums.map((d) => {
-      let txt = d.id;
-      if (d.materialCondition && d.materialCondition !== "RFS") {
-        txt += `(${d.materialCondition})`;
-      }
-      return txt;
-    }).join(" ")}`;
-  }
+  const label = fcf.characteristic ? `[${CHARACTERISTIC_LABELS[fcf.characteristic]}]` : "";
+  const labelWidth = doc.getTextWidth(label);
+  const textTop = yPos + (boxHeight - layout.rows.length * rowHeight) / 2;
+
+  layout.rows.forEach((row, index) => {
+    const rowY = textTop + index * rowHeight;
+    // Composite rows share the characteristic label; multiple single segments repeat it
+    const rowLabel = index === 0 || layout.kind !== "composite" ? label : " ".repeat(label.length);
+    const adjacent = index === 0 && layout.adjacentIndications ? `  ${layout.adjacentIndications.join(" ")}` : "";
+    doc.text(`${rowLabel}${formatRowText(row)}${adjacent}`, margin + 5, rowY + rowHeight / 2 + 1.5);
 
-  doc.text(fcfText, margin + 5, yPos + boxHeight / 2 + 3);
+    if (index > 0) {
+      const dividerStart = layout.kind === "composite" ? margin + 5 + labelWidth : margin;
+      doc.line(dividerStart, rowY, margin + boxWidth, rowY);
+    }
+  });
   yPos += boxHeight + 15;
 
   // Metadata section
@@ -155,7 +187,12 @@ export async function generateFcfPdf(
 
     // Tolerance
     if (fcf.tolerance?.value !== undefined) {
-      let tolText = `${fcf.tolerance.value.toFixed(3)} ${fcf.sourceUnit || "mm"}`;
+      const toleranceUnit = fcf.tolerance.unit ?? fcf.sourceUnit ?? "mm";
+      let tolText = formatDimension(fcf.tolerance.value, toleranceUnit, {
+        decimals: options.decimals ?? displayDecimals(displayUnit ?? toleranceUnit),
+        displayUnit,
+        dualDisplay,
+      });
       if (fcf.tolerance.diameter) {
         tolText = `⌀${tolText}`;
       }
@@ -184,11 +221,28 @@ export async function generateFcfPdf(
       });
     }
 
+    // Composite / multiple single-segment rows
+    if (layout.kind !== "single") {
+      yPos += 4;
+      addRow("Frame Type", FRAME_KIND_LABELS[layout.kind]);
+      doc.setFont("helvetica", "bold");
+      doc.text("Segments:", margin, yPos);
+      yPos += 6;
+
+      layout.rows.forEach((row, index) => {
+        doc.setFont("helvetica", "normal");
+        doc.text(`${index + 1}.${formatRowText(row)}`, margin + 10, yPos);
+        yPos += 5;
+      });
+    }
+
     // Units
     if (fcf.sourceUnit) {
       yPos += 4;
       addRow("Units", fcf.sourceUnit.toUpperCase());
     }
+
+    addRow("Standard", STANDARD_LABELS[fcf.standard ?? "ASME_Y14_5_2018"]);
   }
 
   // Footer
@@ -5,7 +5,15 @@
  * This mirrors the client-side FcfPreview rendering logic for consistent output.
  */
 
-import type { FcfJson, MaterialConditionSymbol, Characteristic } from "@/lib/fcf/schema";
+import type {
+  FcfJson,
+  MaterialConditionSymbol,
+  Characteristic,
+  CompositeFrame,
+  DatumReference,
+  IsoModifier,
+  ToleranceZone,
+} from "@/lib/fcf/schema";
 
 // ASME Y14.5-2018 Feature Control Frame dimensions (in mm, scaled)
 const FCF = {
@@ -58,6 +66,9 @@ const CHARACTERISTIC_COLORS: Record<Characteristic, string> = {
   other: "#6B7280",
 };
 
+// ISO 1101 tolerance-section order: combined/separate zone, offset, then toleranced feature indications
+const ISO_ZONE_MODIFIER_ORDER: IsoModifier[] = ["CZ", "SZ", "UZ", "LE", "NC"];
+
 export interface SvgGeneratorOptions {
   scale?: number;
   backgroundColor?: string;
@@ -73,32 +84,102 @@ function getMCSymbol(mc: MaterialConditionSymbol | undefined): string {
 }
 
 /**
- * Calculate the width needed for the tolerance cell
+ * A single row of a feature control frame: one tolerance cell followed by its datum cells.
  */
-function getToleranceWidth(fcf: FcfJson): number {
-  if (!fcf.tolerance?.value) return FCF.toleranceMinWidth;
-  const valueStr = fcf.tolerance.value.toFixed(3);
-  const hasDiameter = fcf.tolerance.diameter;
-  const hasMC = fcf.tolerance.materialCondition && fcf.tolerance.materialCondition !== "RFS";
-  const charCount = valueStr.length + (hasDiameter ? 1 : 0) + (hasMC ? 1 : 0);
-  return Math.max(FCF.toleranceMinWidth, charCount * 10 + FCF.padding * 2);
+export interface FrameRow {
+  tolerance: ToleranceZone;
+  datums: DatumReference[];
+  /** ISO indications drawn between the value and the material condition (e.g., "CZ", "UZ+0.100") */
+  zoneModifiers?: string[];
+}
+
+/**
+ * Row layout of a feature control frame.
+ * - single: one row with its own characteristic symbol
+ * - composite: stacked rows sharing one characteristic symbol cell
+ * - multipleSingleSegments: stacked rows, each with its own characteristic symbol cell
+ */
+export interface FrameLayout {
+  kind: "single" | CompositeFrame["type"];
+  rows: FrameRow[];
+  /** ISO indications drawn beside the frame (e.g., "ACS") */
+  adjacentIndications?: string[];
 }
 
 /**
- * Calculate total frame width
+ * ISO tolerance-section indications for the frame, in ISO 1101 order.
+ * ASME frames never carry these (I001 rejects them).
  */
-function calculateFrameWidth(fcf: FcfJson): number {
-  let width = FCF.symbolWidth; // Characteristic symbol
-  width += getToleranceWidth(fcf); // Tolerance value
-
-  // Datum references
-  const datums = fcf.datums || [];
-  datums.forEach((datum) => {
-    const hasMC = datum.materialCondition && datum.materialCondition !== "RFS";
-    width += hasMC ? FCF.datumWidthWithMC : FCF.datumWidth;
+export function getIsoZoneModifiers(fcf: Partial<FcfJson>): string[] {
+  if (fcf.standard !== "ISO_1101") return [];
+  const modifiers = fcf.isoModifiers ?? [];
+  return ISO_ZONE_MODIFIER_ORDER.filter((m) => modifiers.includes(m)).map((m) => {
+    const offset = fcf.tolerance?.zoneOffset;
+    if (m !== "UZ" || offset === undefined) return m;
+    return `UZ${offset >= 0 ? "+" : "-"}${Math.abs(offset).toFixed(3)}`;
   });
+}
+
+/**
+ * Resolve the rows to draw for an FCF.
+ * Composite segments replace the top-level tolerance/datums when present.
+ * For ISO frames, frame-level ISO indications are drawn on the first row.
+ */
+export function getFrameLayout(fcf: FcfJson): FrameLayout {
+  const isIso = fcf.standard === "ISO_1101";
+  const zoneModifiers = getIsoZoneModifiers(fcf);
+  const adjacentIndications = isIso && fcf.isoModifiers?.includes("ACS") ? ["ACS"] : [];
+
+  const rows: FrameRow[] =
+    fcf.composite && fcf.composite.segments.length > 0
+      ? fcf.composite.segments.map((segment) => ({
+          tolerance: segment.tolerance,
+          datums: segment.datums ?? [],
+        }))
+      : [{ tolerance: fcf.tolerance, datums: fcf.datums ?? [] }];
+
+  if (zoneModifiers.length > 0) {
+    rows[0] = { ...rows[0], zoneModifiers };
+  }
+
+  return {
+    kind: fcf.composite && fcf.composite.segments.length > 0 ? fcf.composite.type : "single",
+    rows,
+    ...(adjacentIndications.length > 0 && { adjacentIndications }),
+  };
+}
+
+/**
+ * Calculate the width needed for a tolerance cell
+ */
+function getToleranceWidth(row: FrameRow): number {
+  const { tolerance } = row;
+  if (!tolerance?.value) return FCF.toleranceMinWidth;
+  const valueStr = tolerance.value.toFixed(3);
+  const hasDiameter = tolerance.diameter;
+  const hasMC = tolerance.materialCondition && tolerance.materialCondition !== "RFS";
+  const modifierChars = (row.zoneModifiers ?? []).reduce((sum, m) => sum + m.length + 1, 0);
+  const charCount = valueStr.length + (hasDiameter ? 1 : 0) + (hasMC ? 1 : 0) + modifierChars;
+  return Math.max(FCF.toleranceMinWidth, charCount * 10 + FCF.padding * 2);
+}
+
+/**
+ * Calculate the width of a datum cell
+ */
+function getDatumWidth(datum: DatumReference): number {
+  const hasMC = datum.materialCondition && datum.materialCondition !== "RFS";
+  return hasMC ? FCF.datumWidthWithMC : FCF.datumWidth;
+}
 
-  return width;
+/**
+ * Calculate the width of a row given the shared tolerance column width
+ */
+function calculateRowWidth(row: FrameRow, toleranceWidth: number): number {
+  return (
+    FCF.symbolWidth +
+    toleranceWidth +
+    row.datums.reduce((sum, datum) => sum + getDatumWidth(datum), 0)
+  );
 }
 
 /**
@@ -114,85 +195,65 @@ function escapeXml(str: string): string {
 }
 
 /**
- * Generate SVG string for an FCF
+ * Render the characteristic symbol cell
  */
-export function generateFcfSvg(fcf: FcfJson, options: SvgGeneratorOptions = {}): string {
-  const { scale = 1.5, backgroundColor = "transparent", includeMetadata = false } = options;
-
-  const frameWidth = calculateFrameWidth(fcf);
-  const frameHeight = FCF.cellHeight;
-
-  // SVG viewBox dimensions with padding
-  const viewBoxPadding = 20;
-  const viewBoxWidth = frameWidth + viewBoxPadding * 2;
-  const viewBoxHeight = frameHeight + viewBoxPadding * 2;
-
-  // Final SVG dimensions
-  const svgWidth = viewBoxWidth * scale;
-  const svgHeight = viewBoxHeight * scale;
-
-  // Get characteristic color
-  const charColor = fcf.characteristic
-    ? CHARACTERISTIC_COLORS[fcf.characteristic]
-    : "#6B7280";
+function renderSymbolCell(symbol: string, color: string, y: number, height: number): string {
+  return `
+      <g transform="translate(0, ${y})">
+        <rect x="0" y="0" width="${FCF.symbolWidth}" height="${height}" fill="transparent" stroke="#334155" stroke-width="1"/>
+        <text x="${FCF.symbolWidth / 2}" y="${height / 2}" text-anchor="middle" dominant-baseline="central" fill="${color}" font-size="${FCF.fontSize + 4}" font-family="${FCF.fontFamily}" font-weight="bold">${escapeXml(symbol)}</text>
+      </g>
+    `;
+}
 
-  // Build cells
+/**
+ * Render the tolerance and datum cells of a row, starting after the symbol column
+ */
+function renderRowCells(row: FrameRow, toleranceWidth: number, y: number): string[] {
   const cells: string[] = [];
-  let xOffset = 0;
+  let xOffset = FCF.symbolWidth;
 
-  // Cell 1: Characteristic Symbol
-  if (fcf.characteristic) {
-    const symbol = CHARACTERISTIC_SYMBOLS[fcf.characteristic] || "?";
-    cells.push(`
-      <g transform="translate(${xOffset}, 0)">
-        <rect x="0" y="0" width="${FCF.symbolWidth}" height="${FCF.cellHeight}" fill="transparent" stroke="#334155" stroke-width="1"/>
-        <text x="${FCF.symbolWidth / 2}" y="${FCF.cellHeight / 2}" text-anchor="middle" dominant-baseline="central" fill="${charColor}" font-size="${FCF.fontSize + 4}" font-family="${FCF.fontFamily}" font-weight="bold">${escapeXml(symbol)}</text>
-      </g>
-    `);
-    xOffset += FCF.symbolWidth;
-  }
-
-  // Cell 2: Tolerance Value
-  if (fcf.tolerance?.value !== undefined) {
-    const toleranceWidth = getToleranceWidth(fcf);
-    const valueStr = fcf.tolerance.value.toFixed(3);
-    const hasDiameter = fcf.tolerance.diameter;
-    const mcSymbol = getMCSymbol(fcf.tolerance.materialCondition);
+  // Tolerance Value
+  if (row.tolerance?.value !== undefined) {
+    const valueStr = row.tolerance.value.toFixed(3);
+    const hasDiameter = row.tolerance.diameter;
+    const mcSymbol = getMCSymbol(row.tolerance.materialCondition);
 
     let toleranceContent = "";
     if (hasDiameter) {
       toleranceContent += `<tspan fill="#00D4AA">⌀</tspan>`;
     }
     toleranceContent += `<tspan>${valueStr}</tspan>`;
+    (row.zoneModifiers ?? []).forEach((modifier) => {
+      toleranceContent += `<tspan fill="#00D4AA" font-size="${FCF.fontSize - 2}"> ${escapeXml(modifier)}</tspan>`;
+    });
     if (mcSymbol) {
       toleranceContent += `<tspan fill="#F59E0B" font-size="${FCF.fontSize - 2}"> ${escapeXml(mcSymbol)}</tspan>`;
     }
 
     cells.push(`
-      <g transform="translate(${xOffset}, 0)">
+      <g transform="translate(${xOffset}, ${y})">
         <rect x="0" y="0" width="${toleranceWidth}" height="${FCF.cellHeight}" fill="transparent" stroke="#334155" stroke-width="1"/>
         <text x="${toleranceWidth / 2}" y="${FCF.cellHeight / 2}" text-anchor="middle" dominant-baseline="central" fill="#F8FAFC" font-size="${FCF.fontSize}" font-family="${FCF.fontFamily}" font-weight="600">${toleranceContent}</text>
       </g>
     `);
-    xOffset += toleranceWidth;
   }
+  xOffset += toleranceWidth;
 
-  // Cells 3+: Datum References
-  const datums = fcf.datums || [];
-  datums.forEach((datum, index) => {
+  // Datum References
+  row.datums.forEach((datum) => {
     const mcSymbol = getMCSymbol(datum.materialCondition);
-    const hasMC = mcSymbol !== "";
-    const cellWidth = hasMC ? FCF.datumWidthWithMC : FCF.datumWidth;
+    const cellWidth = getDatumWidth(datum);
 
     let datumContent = `<tspan>${escapeXml(datum.id)}</tspan>`;
     if (mcSymbol) {
       datumContent += `<tspan fill="#F59E0B" font-size="${FCF.fontSize}" dx="3">${escapeXml(mcSymbol)}</tspan>`;
     }
 
-    const textX = hasMC ? cellWidth / 2 - 6 : cellWidth / 2;
+    const textX = mcSymbol ? cellWidth / 2 - 6 : cellWidth / 2;
 
     cells.push(`
-      <g transform="translate(${xOffset}, 0)">
+      <g transform="translate(${xOffset}, ${y})">
         <rect x="0" y="0" width="${cellWidth}" height="${FCF.cellHeight}" fill="transparent" stroke="#334155" stroke-width="1"/>
         <text x="${textX}" y="${FCF.cellHeight / 2}" text-anchor="middle" dominant-baseline="central" fill="#00D4AA" font-size="${FCF.fontSize}" font-family="${FCF.fontFamily}" font-weight="bold">${datumContent}</text>
       </g>
@@ -200,6 +261,74 @@ export function generateFcfSvg(fcf: FcfJson, options: SvgGeneratorOptions = {}):
     xOffset += cellWidth;
   });
 
+  return cells;
+}
+
+/**
+ * Generate SVG string for an FCF.
+ * Composite frames share one characteristic cell across stacked rows;
+ * multiple single-segment frames repeat the characteristic cell on every row.
+ */
+export function generateFcfSvg(fcf: FcfJson, options: SvgGeneratorOptions = {}): string {
+  const { scale = 1.5, backgroundColor = "transparent", includeMetadata = false } = options;
+
+  const layout = getFrameLayout(fcf);
+
+  // Tolerance column is aligned across rows so datum cells line up
+  const toleranceWidth = Math.max(...layout.rows.map((row) => getToleranceWidth(row)));
+  const rowWidths = layout.rows.map((row) => calculateRowWidth(row, toleranceWidth));
+  const adjacentText = (layout.adjacentIndications ?? []).join(" ");
+  const adjacentWidth = adjacentText ? adjacentText.length * 10 + FCF.padding * 2 : 0;
+  const frameWidth = Math.max(...rowWidths) + adjacentWidth;
+  const frameHeight = FCF.cellHeight * layout.rows.length;
+
+  // SVG viewBox dimensions with padding
+  const viewBoxPadding = 20;
+  const viewBoxWidth = frameWidth + viewBoxPadding * 2;
+  const viewBoxHeight = frameHeight + viewBoxPadding * 2;
+
+  // Final SVG dimensions
+  const svgWidth = viewBoxWidth * scale;
+  const svgHeight = viewBoxHeight * scale;
+
+  // Get characteristic color
+  const charColor = fcf.characteristic
+    ? CHARACTERISTIC_COLORS[fcf.characteristic]
+    : "#6B7280";
+  const symbol = fcf.characteristic ? CHARACTERISTIC_SYMBOLS[fcf.characteristic] || "?" : "";
+
+  // Row borders (rows may differ in width when datum counts differ)
+  const borders = layout.rows.map(
+    (_, index) =>
+      `<rect x="0" y="${index * FCF.cellHeight}" width="${rowWidths[index]}" height="${FCF.cellHeight}" fill="#1A2332" stroke="#334155" stroke-width="${FCF.strokeWidth}" rx="2"/>`
+  );
+
+  // Build cells
+  const cells: string[] = [];
+
+  // Characteristic Symbol: one spanning cell for composite, one per row otherwise
+  if (fcf.characteristic) {
+    if (layout.kind === "composite") {
+      cells.push(renderSymbolCell(symbol, charColor, 0, frameHeight));
+    } else {
+      layout.rows.forEach((_, index) => {
+        cells.push(renderSymbolCell(symbol, charColor, index * FCF.cellHeight, FCF.cellHeight));
+      });
+    }
+  }
+
+  // Tolerance and datum cells per row
+  layout.rows.forEach((row, index) => {
+    cells.push(...renderRowCells(row, toleranceWidth, index * FCF.cellHeight));
+  });
+
+  // ISO indications placed beside the first row (e.g., ACS)
+  if (adjacentText) {
+    cells.push(
+      `<text x="${rowWidths[0] + FCF.padding * 2}" y="${FCF.cellHeight / 2}" dominant-baseline="central" fill="#F8FAFC" font-size="${FCF.fontSize - 2}" font-family="${FCF.fontFamily}">${escapeXml(adjacentText)}</text>`
+    );
+  }
+
   // Build the SVG
   let metadata = "";
   if (includeMetadata) {
@@ -226,8 +355,8 @@ export function generateFcfSvg(fcf: FcfJson, options: SvgGeneratorOptions = {}):
   ${metadata}
   ${bgRect}
   <g transform="translate(${viewBoxPadding}, ${viewBoxPadding})">
-    <!-- Main frame border -->
-    <rect x="0" y="0" width="${frameWidth}" height="${frameHeight}" fill="#1A2332" stroke="#334155" stroke-width="${FCF.strokeWidth}" rx="2"/>
+    <!-- Frame borders -->
+    ${borders.join("\n")}
     <!-- Cells -->
     ${cells.join("\n")}
   </g>
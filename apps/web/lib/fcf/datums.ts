@@ -0,0 +1,344 @@
+import { z } from "zod";
+
+import { DatumReference, MaterialConditionSymbol, SizeDimension } from "./schema";
+
+// ============================================================================
+// DATUM FEATURE MODEL
+// ============================================================================
+
+/**
+ * Geometry of a datum feature, which determines its simulator and the degrees
+ * of freedom it can constrain.
+ * - planar: flat face (datum plane)
+ * - cylindrical: hole or shaft (datum axis)
+ * - width: slot or tab between opposed faces (datum center plane)
+ * - spherical: ball or socket (datum center point)
+ * - conical: cone (datum axis and point)
+ * - pattern: pattern of features of size used as one datum (e.g., 4X holes)
+ * - irregular: complex or profiled surface (datum established by the true profile)
+ */
+export type DatumFeatureType = "planar" | "cylindrical" | "width" | "spherical" | "conical" | "pattern" | "irregular";
+
+/**
+ * Degrees of freedom of a rigid part: translations x, y, z and rotations u, v, w
+ * about x, y, z (ASME Y14.5 notation). The primary datum defines z.
+ */
+export type DegreeOfFreedom = "x" | "y" | "z" | "u" | "v" | "w";
+
+export type DatumTargetKind = "point" | "line" | "area";
+
+export type DatumTarget = {
+  id: string; // Target label (e.g., "A1").
+  kind: DatumTargetKind;
+  size?: number; // Diameter of a target area, in the project's unit.
+  movable?: boolean; // Movable datum target (simulator translates along its axis).
+  note?: string;
+};
+
+/**
+ * Entry of a project's datum feature catalog. FcfJson.datums reference entries by letter.
+ */
+export type DatumFeature = {
+  id: string; // Datum letter (e.g., "A").
+  type: DatumFeatureType;
+  featureId?: string; // Feature carrying the datum feature symbol (matches FcfJson.featureId).
+  description?: string; // e.g., "Bottom mounting face".
+  size?: SizeDimension; // Size of a datum feature of size; sets the MMB/LMB simulator.
+  targets?: DatumTarget[]; // Datum targets when the datum is established by targets rather than the full feature.
+  simulator?: string; // Overrides the default simulator description.
+  constrains?: DegreeOfFreedom[]; // Degrees of freedom constrained in the drawing's DRF, when stated explicitly.
+};
+
+export const DEGREES_OF_FREEDOM: DegreeOfFreedom[] = ["x", "y", "z", "u", "v", "w"];
+
+export const DATUM_FEATURE_TYPE_LABELS: Record<DatumFeatureType, string> = {
+  planar: "Planar face",
+  cylindrical: "Cylinder (axis)",
+  width: "Width (center plane)",
+  spherical: "Sphere (center point)",
+  conical: "Cone",
+  pattern: "Feature pattern",
+  irregular: "Irregular surface",
+};
+
+/** Datum feature types that are features of size and can be referenced at MMB or LMB */
+const featureOfSizeDatumTypes: DatumFeatureType[] = ["cylindrical", "width", "spherical", "pattern"];
+
+// ============================================================================
+// SCHEMAS
+// ============================================================================
+
+const degreeOfFreedomSchema = z.enum(["x", "y", "z", "u", "v", "w"]);
+
+export const datumTargetSchema = z.object({
+  id: z.string().min(1),
+  kind: z.enum(["point", "line", "area"]),
+  size: z.number().positive().optional(),
+  movable: z.boolean().optional(),
+  note: z.string().optional(),
+});
+
+export const datumFeatureSchema = z.object({
+  id: z
+    .string()
+    .trim()
+    .regex(/^[A-Z]{1,2}$/, "Datum letters are one or two capital letters"),
+  type: z.enum(["planar", "cylindrical", "width", "spherical", "conical", "pattern", "irregular"]),
+  featureId: z.string().optional(),
+  description: z.string().max(200).optional(),
+  size: z
+    .object({
+      nominal: z.number(),
+      tolerancePlus: z.number().optional(),
+      toleranceMinus: z.number().optional(),
+      unit: z.enum(["mm", "inch"]).optional(),
+      note: z.string().optional(),
+      envelope: z.boolean().optional(),
+    })
+    .optional(),
+  targets: datumTargetSchema.array().optional(),
+  simulator: z.string().max(200).optional(),
+  constrains: degreeOfFreedomSchema.array().optional(),
+});
+
+/** A catalog identifies each datum letter once */
+export const datumCatalogSchema = datumFeatureSchema
+  .array()
+  .refine((features) => new Set(features.map((f) => f.id)).size === features.length, {
+    message: "Each datum letter can only appear once in the catalog",
+  });
+
+// ============================================================================
+// CATALOG LOOKUP
+// ============================================================================
+
+/**
+ * Split a datum reference into its letters (common datums such as "A-B" reference both A and B).
+ */
+export function datumReferenceLetters(id: string): string[] {
+  return id
+    .split("-")
+    .map((letter) => letter.trim().toUpperCase())
+    .filter((letter) => letter.length > 0);
+}
+
+export function findDatumFeature(catalog: DatumFeature[] | undefined, letter: string): DatumFeature | undefined {
+  return (catalog ?? []).find((feature) => feature.id === letter.trim().toUpperCase());
+}
+
+/**
+ * Check if a datum feature is a feature of size (required for MMB/LMB references).
+ */
+export function isDatumFeatureOfSize(feature: DatumFeature): boolean {
+  return featureOfSizeDatumTypes.includes(feature.type);
+}
+
+// ============================================================================
+// DATUM REFERENCE FRAME ANALYSIS
+// ============================================================================
+
+export type DatumPrecedence = "primary" | "secondary" | "tertiary";
+
+const precedenceLabels: DatumPrecedence[] = ["primary", "secondary", "tertiary"];
+
+/**
+ * What one datum reference contributes to the datum reference frame.
+ */
+export type DatumConstraint = {
+  /** Reference as written in the frame (e.g., "A" or "A-B") */
+  id: string;
+  /** Precedence slot; references beyond the tertiary have none */
+  precedence?: DatumPrecedence;
+  materialCondition?: MaterialConditionSymbol;
+  /** Catalog entry of the (first) datum letter; absent when the letter is not catalogued */
+  feature?: DatumFeature;
+  /** Degrees of freedom this reference removes, given the datums before it */
+  constrains: DegreeOfFreedom[];
+  simulator: string;
+};
+
+export type DatumFrameAnalysis = {
+  datums: DatumConstraint[];
+  constrained: DegreeOfFreedom[];
+  unconstrained: DegreeOfFreedom[];
+  /** Referenced letters without a catalog entry; their contribution is unknown */
+  missing: string[];
+};
+
+const rotationAbout: Record<"x" | "y" | "z", DegreeOfFreedom> = { x: "u", y: "v", z: "w" };
+
+/**
+ * Rotations a planar feature with the given normal removes (those about the axes in its plane).
+ */
+function rotationsPerpendicularTo(axis: "x" | "y" | "z"): DegreeOfFreedom[] {
+  return (["x", "y", "z"] as const).filter((a) => a !== axis).map((a) => rotationAbout[a]);
+}
+
+/**
+ * Degrees of freedom a datum feature type removes from those still free.
+ *
+ * Assumes the conventional arrangement of a datum reference frame: the primary
+ * datum defines z, later planar features are perpendicular to the datums before
+ * them, and later axes are parallel to z. A feature of size that can no longer
+ * locate the part clocks it about z instead. State `constrains` in the catalog
+ * when a drawing differs.
+ */
+function inferConstraint(type: DatumFeatureType, free: Set<DegreeOfFreedom>): DegreeOfFreedom[] {
+  let own: DegreeOfFreedom[];
+  switch (type) {
+    case "planar":
+    case "width": {
+      // Normal along the first axis the part can still translate along
+      const normal = (["z", "x", "y"] as const).find((axis) => free.has(axis)) ?? "x";
+      own = [normal, ...rotationsPerpendicularTo(normal)];
+      break;
+    }
+    case "cylindrical":
+      own = ["x", "y", "u", "v"];
+      break;
+    case "spherical":
+      own = ["x", "y", "z"];
+      break;
+    case "conical":
+      own = ["x", "y", "z", "u", "v"];
+      break;
+    case "pattern":
+    case "irregular":
+      own = DEGREES_OF_FREEDOM;
+      break;
+  }
+
+  const removed = own.filter((dof) => free.has(dof));
+  if (removed.length === 0 && type === "cylindrical" && free.has("w")) {
+    return ["w"];
+  }
+  return removed;
+}
+
+/**
+ * Describe the datum feature simulator for a datum reference.
+ */
+export function describeSimulator(feature: DatumFeature, materialCondition?: MaterialConditionSymbol): string {
+  if (feature.simulator) return feature.simulator;
+
+  const boundary =
+    materialCondition === "MMC" ? "maximum material boundary" : materialCondition === "LMC" ? "least material boundary" : undefined;
+
+  let simulator: string;
+  switch (feature.type) {
+    case "planar":
+      simulator = "Plane contacting the high points of the face";
+      break;
+    case "cylindrical":
+      simulator = boundary
+        ? `Fixed-size cylinder at the ${boundary}`
+        : "Cylinder expanding (hole) or contracting (shaft) to full contact";
+      break;
+    case "width":
+      simulator = boundary
+        ? `Two parallel planes fixed at the ${boundary}`
+        : "Two parallel planes expanding or contracting to full contact";
+      break;
+    case "spherical":
+      simulator = boundary ? `Fixed-size sphere at the ${boundary}` : "Sphere expanding or contracting to full contact";
+      break;
+    case "conical":
+      simulator = "Cone of the basic angle contacting the surface";
+      break;
+    case "pattern":
+      simulator = boundary
+        ? `Gauge elements at true position, each fixed at the ${boundary}`
+        : "Simulators at true position, each expanding or contracting to contact its feature";
+      break;
+    case "irregular":
+      simulator = "True profile contacting the surface";
+      break;
+  }
+
+  const targets = feature.targets ?? [];
+  if (targets.length > 0) {
+    const movable = targets.filter((t) => t.movable).length;
+    simulator = `Datum target simulators at ${targets.map((t) => t.id).join(", ")}${movable > 0 ? ` (${movable} movable)` : ""}`;
+  }
+  return simulator;
+}
+
+/**
+ * Work out which degrees of freedom each datum reference constrains, in order of precedence.
+ */
+export function analyzeDatumReferenceFrame(
+  datums: DatumReference[] | undefined,
+  catalog: DatumFeature[] | undefined
+): DatumFrameAnalysis {
+  const free = new Set<DegreeOfFreedom>(DEGREES_OF_FREEDOM);
+  const missing: string[] = [];
+
+  const constraints = (datums ?? []).map((datum, index): DatumConstraint => {
+    const letters = datumReferenceLetters(datum.id);
+    letters.filter((letter) => !findDatumFeature(catalog, letter)).forEach((letter) => missing.push(letter));
+    // A common datum (A-B) acts as one feature of the same type
+    const feature = letters.map((letter) => findDatumFeature(catalog, letter)).find((f) => f !== undefined);
+
+    const constrains = feature
+      ? feature.constrains
+        ? feature.constrains.filter((dof) => free.has(dof))
+        : inferConstraint(feature.type, free)
+      : [];
+    constrains.forEach((dof) => free.delete(dof));
+
+    return {
+      id: datum.id,
+      ...(index < precedenceLabels.length && { precedence: precedenceLabels[index] }),
+      ...(datum.materialCondition && { materialCondition: datum.materialCondition }),
+      ...(feature && { feature }),
+      constrains,
+      simulator: feature ? describeSimulator(feature, datum.materialCondition) : "Not in the datum catalog",
+    };
+  });
+
+  return {
+    datums: constraints,
+    constrained: DEGREES_OF_FREEDOM.filter((dof) => !free.has(dof)),
+    unconstrained: DEGREES_OF_FREEDOM.filter((dof) => free.has(dof)),
+    missing: [...new Set(missing)],
+  };
+}
+
+const degreeOfFreedomLabels: Record<DegreeOfFreedom, string> = {
+  x: "translation along X",
+  y: "translation along Y",
+  z: "translation along Z",
+  u: "rotation about X",
+  v: "rotation about Y",
+  w: "rotation about Z",
+};
+
+export function describeDegreesOfFreedom(dofs: DegreeOfFreedom[]): string {
+  return dofs.map((dof) => `${dof} (${degreeOfFreedomLabels[dof]})`).join(", ");
+}
+
+/**
+ * Plain-language explanation of a datum reference frame, one line per datum plus a summary.
+ */
+export function explainDatumReferenceFrame(analysis: DatumFrameAnalysis): string[] {
+  const lines = analysis.datums.map((datum) => {
+    const label = `${datum.precedence ? `${datum.precedence[0].toUpperCase()}${datum.precedence.slice(1)}` : "Additional"} datum ${datum.id}`;
+    if (!datum.feature) {
+      return `${label}: not in the datum catalog, so its constraint cannot be determined.`;
+    }
+    const kind = DATUM_FEATURE_TYPE_LABELS[datum.feature.type].toLowerCase();
+    if (datum.constrains.length === 0) {
+      return `${label} (${kind}) constrains no further degrees of freedom.`;
+    }
+    return `${label} (${kind}) constrains ${describeDegreesOfFreedom(datum.constrains)}.`;
+  });
+
+  if (analysis.datums.length === 0) {
+    lines.push("No datums are referenced; the tolerance zone is free to translate and rotate.");
+  } else if (analysis.unconstrained.length === 0) {
+    lines.push("All six degrees of freedom are constrained.");
+  } else {
+    lines.push(`Free: ${describeDegreesOfFreedom(analysis.unconstrained)}.`);
+  }
+  return lines;
+}
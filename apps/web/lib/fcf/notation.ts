@@ -0,0 +1,620 @@
+import { GDT_SYMBOLS } from "@/lib/constants/gdt-symbols";
+import type {
+  Characteristic,
+  CompositeSegment,
+  DatumReference,
+  FcfJson,
+  FeatureType,
+  FrameModifier,
+  GeometricStandard,
+  IsoModifier,
+  MaterialConditionSymbol,
+  ToleranceZone,
+  Unit,
+} from "./schema";
+
+/**
+ * Compact text notation for feature control frames.
+ *
+ * Unicode:  4X ⊕|⌀0.2Ⓜ|A|BⓂ|CⓂ
+ * ASCII:    4X POS DIA .008 (M) A B(M) C
+ *
+ * Cells may be separated by "|" or whitespace. Each additional line is another
+ * frame row: a row starting with "|" (empty symbol cell) is a composite lower
+ * segment; a row repeating the symbol is a multiple single-segment frame.
+ */
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+/**
+ * Parse failure with the offending position in the source text.
+ */
+export class NotationParseError extends Error {
+  constructor(
+    message: string,
+    /** Zero-based offset into the source text */
+    public readonly position: number,
+    /** 1-based line of the offset */
+    public readonly line: number,
+    /** 1-based column of the offset */
+    public readonly column: number
+  ) {
+    super(message);
+    this.name = "NotationParseError";
+  }
+}
+
+export type NotationParseResult =
+  | { ok: true; fcf: FcfJson }
+  | { ok: false; error: NotationParseError };
+
+export interface NotationParseOptions {
+  /** Source unit; defaults to inch when values use the leading-dot inch style (.008), else mm */
+  sourceUnit?: Unit;
+  /** Feature type to attach (text notation does not carry it) */
+  featureType?: FeatureType;
+  /** Standard; defaults to ISO 1101 when ISO indications are present, else ASME */
+  standard?: GeometricStandard;
+}
+
+export type NotationStyle = "unicode" | "ascii";
+
+// ============================================================================
+// VOCABULARY
+// ============================================================================
+
+const CHARACTERISTIC_SYMBOL_MAP: Record<string, Characteristic> = {
+  "⊕": "position",
+  "⌖": "position",
+  "⏥": "flatness",
+  "⎯": "straightness",
+  "—": "straightness",
+  "○": "circularity",
+  "◯": "circularity",
+  "⌭": "cylindricity",
+  "⊥": "perpendicularity",
+  "∥": "parallelism",
+  "∠": "angularity",
+  "⌓": "profile",
+  "⌒": "profile",
+  "↗": "runout",
+  "⌰": "totalRunout",
+};
+
+const CHARACTERISTIC_KEYWORDS: Record<string, Characteristic> = {
+  POS: "position",
+  POSITION: "position",
+  TP: "position",
+  FLAT: "flatness",
+  FLATNESS: "flatness",
+  STR: "straightness",
+  STRAIGHTNESS: "straightness",
+  CIRC: "circularity",
+  CIRCULARITY: "circularity",
+  ROUND: "circularity",
+  ROUNDNESS: "circularity",
+  CYL: "cylindricity",
+  CYLINDRICITY: "cylindricity",
+  PERP: "perpendicularity",
+  PERPENDICULARITY: "perpendicularity",
+  PAR: "parallelism",
+  PARALLELISM: "parallelism",
+  ANG: "angularity",
+  ANGULARITY: "angularity",
+  PROF: "profile",
+  PROFILE: "profile",
+  SP: "profile",
+  LP: "profile",
+  RO: "runout",
+  CR: "runout",
+  RUNOUT: "runout",
+  TR: "totalRunout",
+  TRO: "totalRunout",
+  OTHER: "other",
+};
+
+const ASCII_CHARACTERISTICS: Record<Characteristic, string> = {
+  position: "POS",
+  flatness: "FLAT",
+  straightness: "STR",
+  circularity: "CIRC",
+  cylindricity: "CYL",
+  perpendicularity: "PERP",
+  parallelism: "PAR",
+  angularity: "ANG",
+  profile: "PROF",
+  runout: "RO",
+  totalRunout: "TR",
+  other: "OTHER",
+};
+
+const UNICODE_CHARACTERISTICS: Record<Characteristic, string> = {
+  position: GDT_SYMBOLS.position,
+  flatness: GDT_SYMBOLS.flatness,
+  straightness: GDT_SYMBOLS.straightness,
+  circularity: GDT_SYMBOLS.circularity,
+  cylindricity: GDT_SYMBOLS.cylindricity,
+  perpendicularity: GDT_SYMBOLS.perpendicularity,
+  parallelism: GDT_SYMBOLS.parallelism,
+  angularity: GDT_SYMBOLS.angularity,
+  profile: GDT_SYMBOLS.profile,
+  runout: GDT_SYMBOLS.runout,
+  totalRunout: GDT_SYMBOLS.totalRunout,
+  other: ASCII_CHARACTERISTICS.other,
+};
+
+const DIAMETER_SYMBOLS = ["⌀", "Ø", "∅"];
+
+/** Material condition spellings: circled symbol, bracketed letter, keyword */
+const MATERIAL_CONDITION_TOKENS: Record<string, MaterialConditionSymbol> = {
+  "Ⓜ": "MMC",
+  "(M)": "MMC",
+  MMC: "MMC",
+  "Ⓛ": "LMC",
+  "(L)": "LMC",
+  LMC: "LMC",
+  "Ⓢ": "RFS",
+  "(S)": "RFS",
+  RFS: "RFS",
+};
+
+const FRAME_MODIFIER_TOKENS: Record<string, FrameModifier> = {
+  "Ⓟ": "PROJECTED_TOLERANCE_ZONE",
+  "(P)": "PROJECTED_TOLERANCE_ZONE",
+  "Ⓕ": "FREE_STATE",
+  "(F)": "FREE_STATE",
+  "Ⓣ": "TANGENT_PLANE",
+  "(T)": "TANGENT_PLANE",
+  "Ⓤ": "UNEQUALLY_DISPOSED",
+  "(U)": "UNEQUALLY_DISPOSED",
+};
+
+const FRAME_MODIFIER_SYMBOLS: Record<FrameModifier, { unicode: string; ascii: string }> = {
+  PROJECTED_TOLERANCE_ZONE: { unicode: GDT_SYMBOLS.projectedTolerance, ascii: "(P)" },
+  FREE_STATE: { unicode: GDT_SYMBOLS.freeState, ascii: "(F)" },
+  TANGENT_PLANE: { unicode: GDT_SYMBOLS.tangentPlane, ascii: "(T)" },
+  UNEQUALLY_DISPOSED: { unicode: GDT_SYMBOLS.unequallyDisposed, ascii: "(U)" },
+};
+
+const ISO_MODIFIER_WORDS: IsoModifier[] = ["CZ", "SZ", "UZ", "ACS", "LE", "NC"];
+
+/** Serialization order of ISO indications in the tolerance cell */
+const ISO_MODIFIER_ORDER: IsoModifier[] = ["CZ", "SZ", "UZ", "LE", "NC", "ACS"];
+
+const SYMBOL_CHARACTERS = new Set([
+  ...Object.keys(CHARACTERISTIC_SYMBOL_MAP),
+  ...DIAMETER_SYMBOLS,
+  "Ⓜ",
+  "Ⓛ",
+  "Ⓢ",
+  "Ⓟ",
+  "Ⓕ",
+  "Ⓣ",
+  "Ⓤ",
+  "Ⓔ",
+]);
+
+const DATUM_PATTERN = /^[A-Z](?:-[A-Z])*$/;
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+type TokenKind = "sep" | "count" | "number" | "word" | "paren" | "symbol";
+
+type Token = {
+  kind: TokenKind;
+  text: string;
+  /** Offset of the first character in the source text */
+  start: number;
+};
+
+const NUMBER_PATTERN = /^[+-]?(?:\d+(?:\.\d*)?|\.\d+)/;
+const COUNT_PATTERN = /^(\d+)\s?[X×](?![A-Za-z])/;
+const WORD_PATTERN = /^[A-Za-z][A-Za-z0-9]*(?:-[A-Za-z][A-Za-z0-9]*)*/;
+const PAREN_PATTERN = /^\([A-Za-z]\)/;
+
+/**
+ * Create a parse error at an offset, resolving line and column.
+ */
+function errorAt(source: string, position: number, message: string): NotationParseError {
+  const before = source.slice(0, position);
+  const line = before.split("\n").length;
+  const column = position - before.lastIndexOf("\n");
+  return new NotationParseError(message, position, line, column);
+}
+
+/**
+ * Split one line into tokens. Offsets are relative to the full source.
+ */
+function tokenizeLine(source: string, lineStart: number, lineEnd: number): Token[] {
+  const tokens: Token[] = [];
+  let pos = lineStart;
+
+  while (pos < lineEnd) {
+    const char = source[pos];
+    const rest = source.slice(pos, lineEnd);
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+    if (char === "|") {
+      tokens.push({ kind: "sep", text: char, start: pos });
+      pos++;
+      continue;
+    }
+    if (SYMBOL_CHARACTERS.has(char)) {
+      tokens.push({ kind: "symbol", text: char, start: pos });
+      pos++;
+      continue;
+    }
+
+    const count = COUNT_PATTERN.exec(rest);
+    if (count) {
+      tokens.push({ kind: "count", text: count[1], start: pos });
+      pos += count[0].length;
+      continue;
+    }
+    const match = NUMBER_PATTERN.exec(rest) ?? PAREN_PATTERN.exec(rest) ?? WORD_PATTERN.exec(rest);
+    if (!match) {
+      throw errorAt(source, pos, `Unexpected character "${char}"`);
+    }
+    const kind: TokenKind = NUMBER_PATTERN.test(rest) ? "number" : char === "(" ? "paren" : "word";
+    tokens.push({ kind, text: kind === "number" ? match[0] : match[0].toUpperCase(), start: pos });
+    pos += match[0].length;
+  }
+
+  return tokens;
+}
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+type ParsedRow = {
+  characteristic?: Characteristic;
+  /** Offset of the row's first token, for error reporting */
+  start: number;
+  count?: number;
+  segment: CompositeSegment;
+  isoModifiers: IsoModifier[];
+  projectedHeight?: number;
+  /** Tolerance values written in the leading-dot inch style (.008) */
+  inchStyle: boolean;
+};
+
+/**
+ * Cursor over a row's tokens that skips cell separators.
+ */
+class RowCursor {
+  private index = 0;
+
+  constructor(
+    private readonly source: string,
+    private readonly tokens: Token[],
+    private readonly lineEnd: number
+  ) {}
+
+  peek(): Token | undefined {
+    while (this.tokens[this.index]?.kind === "sep") this.index++;
+    return this.tokens[this.index];
+  }
+
+  next(): Token | undefined {
+    const token = this.peek();
+    if (token) this.index++;
+    return token;
+  }
+
+  error(message: string, token = this.peek()): NotationParseError {
+    return errorAt(this.source, token ? token.start : this.lineEnd, message);
+  }
+}
+
+function parseCharacteristic(cursor: RowCursor): Characteristic | undefined {
+  const token = cursor.peek();
+  if (!token) return undefined;
+
+  if (token.kind === "symbol" && CHARACTERISTIC_SYMBOL_MAP[token.text]) {
+    cursor.next();
+    // "↗↗" is total runout
+    if (token.text === "↗" && cursor.peek()?.text === "↗") {
+      cursor.next();
+      return "totalRunout";
+    }
+    return CHARACTERISTIC_SYMBOL_MAP[token.text];
+  }
+  if (token.kind === "word") {
+    if (token.text === "TOTAL") {
+      cursor.next();
+      const runout = cursor.next();
+      if (runout?.text !== "RUNOUT") throw cursor.error('Expected "RUNOUT" after "TOTAL"', runout);
+      return "totalRunout";
+    }
+    if (CHARACTERISTIC_KEYWORDS[token.text]) {
+      cursor.next();
+      return CHARACTERISTIC_KEYWORDS[token.text];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parse an optional signed or unsigned number following a modifier (e.g., Ⓟ15, UZ+0.1).
+ */
+function parseOptionalNumber(cursor: RowCursor): number | undefined {
+  const token = cursor.peek();
+  if (token?.kind !== "number") return undefined;
+  cursor.next();
+  return Number(token.text);
+}
+
+function parseRow(source: string, tokens: Token[], lineEnd: number, isFirstRow: boolean): ParsedRow {
+  const cursor = new RowCursor(source, tokens, lineEnd);
+  const row: ParsedRow = {
+    start: tokens[0].start,
+    segment: { tolerance: { value: 0 } },
+    isoModifiers: [],
+    inchStyle: false,
+  };
+
+  // Pattern prefix (first row only)
+  if (cursor.peek()?.kind === "count") {
+    const token = cursor.next()!;
+    if (!isFirstRow) throw cursor.error("Pattern count is only allowed on the first row", token);
+    row.count = Number(token.text);
+  }
+
+  row.characteristic = parseCharacteristic(cursor);
+  if (isFirstRow && !row.characteristic) {
+    throw cursor.error("Expected a geometric characteristic symbol or keyword (e.g., ⊕ or POS)");
+  }
+
+  // Tolerance cell: zone shape, value, modifiers
+  const tolerance: ToleranceZone = { value: 0 };
+  let token = cursor.peek();
+  if (token?.kind === "word" && (token.text === "S" || token.text === "SDIA")) {
+    cursor.next();
+    if (token.text === "S") {
+      const diameter = cursor.next();
+      if (!diameter || !DIAMETER_SYMBOLS.includes(diameter.text)) {
+        throw cursor.error("Expected ⌀ after S for a spherical zone", diameter);
+      }
+    }
+    tolerance.zoneShape = "spherical";
+  } else if (token && (DIAMETER_SYMBOLS.includes(token.text) || token.text === "DIA")) {
+    cursor.next();
+    tolerance.diameter = true;
+  }
+
+  token = cursor.next();
+  if (token?.kind !== "number") {
+    throw cursor.error("Expected a tolerance value", token);
+  }
+  tolerance.value = Number(token.text);
+  row.inchStyle = token.text.startsWith(".");
+
+  const modifiers: FrameModifier[] = [];
+  for (token = cursor.peek(); token; token = cursor.peek()) {
+    if (MATERIAL_CONDITION_TOKENS[token.text]) {
+      cursor.next();
+      tolerance.materialCondition = MATERIAL_CONDITION_TOKENS[token.text];
+    } else if (FRAME_MODIFIER_TOKENS[token.text]) {
+      cursor.next();
+      const modifier = FRAME_MODIFIER_TOKENS[token.text];
+      modifiers.push(modifier);
+      const amount = parseOptionalNumber(cursor);
+      if (amount !== undefined && modifier === "PROJECTED_TOLERANCE_ZONE") row.projectedHeight = amount;
+      else if (amount !== undefined && modifier === "UNEQUALLY_DISPOSED") tolerance.outsideAmount = amount;
+      else if (amount !== undefined) throw cursor.error(`Unexpected value after ${token.text}`);
+    } else if (token.kind === "word" && ISO_MODIFIER_WORDS.includes(token.text as IsoModifier)) {
+      cursor.next();
+      const modifier = token.text as IsoModifier;
+      row.isoModifiers.push(modifier);
+      if (modifier === "UZ") {
+        const offset = parseOptionalNumber(cursor);
+        if (offset === undefined) throw cursor.error("Expected a signed offset after UZ (e.g., UZ+0.1)");
+        tolerance.zoneOffset = offset;
+      }
+    } else {
+      break;
+    }
+  }
+
+  // Datum cells: letter(s) with optional material condition
+  const datums: DatumReference[] = [];
+  for (token = cursor.next(); token; token = cursor.next()) {
+    if (token.kind === "word" && DATUM_PATTERN.test(token.text)) {
+      datums.push({ id: token.text });
+    } else if (MATERIAL_CONDITION_TOKENS[token.text] && datums.length > 0) {
+      datums[datums.length - 1].materialCondition = MATERIAL_CONDITION_TOKENS[token.text];
+    } else {
+      throw cursor.error(
+        datums.length === 0 && token.kind !== "word"
+          ? `Unexpected "${token.text}" after the tolerance value`
+          : `Expected a datum letter, found "${token.text}"`,
+        token
+      );
+    }
+  }
+
+  row.segment = {
+    tolerance,
+    ...(datums.length > 0 && { datums }),
+    ...(modifiers.length > 0 && { modifiers }),
+  };
+  return row;
+}
+
+/**
+ * Parse compact text notation into an FcfJson. Throws NotationParseError on invalid input.
+ */
+export function parseNotation(text: string, options: NotationParseOptions = {}): FcfJson {
+  const rows: ParsedRow[] = [];
+  let lineStart = 0;
+  for (const line of text.split("\n")) {
+    const lineEnd = lineStart + line.length;
+    const tokens = tokenizeLine(text, lineStart, lineEnd);
+    if (tokens.length > 0) rows.push(parseRow(text, tokens, lineEnd, rows.length === 0));
+    lineStart = lineEnd + 1;
+  }
+
+  if (rows.length === 0) {
+    throw errorAt(text, 0, "Expected a feature control frame");
+  }
+
+  const [first, ...lower] = rows;
+  const characteristic = first.characteristic!;
+  lower.forEach((row) => {
+    if (row.characteristic && row.characteristic !== characteristic) {
+      throw errorAt(text, row.start, "All rows of a frame must use the same characteristic");
+    }
+  });
+
+  const isoModifiers = rows.flatMap((row) => row.isoModifiers);
+  // Lower rows keep their modifiers on their segment
+  const modifiers = first.segment.modifiers ?? [];
+  const projectedHeight = rows.find((row) => row.projectedHeight !== undefined)?.projectedHeight;
+  const sourceUnit = options.sourceUnit ?? (rows.some((row) => row.inchStyle) ? "inch" : "mm");
+  const standard = options.standard ?? (isoModifiers.length > 0 ? "ISO_1101" : undefined);
+
+  const fcf: FcfJson = {
+    characteristic,
+    ...(options.featureType && { featureType: options.featureType }),
+    sourceUnit,
+    ...(standard && { standard }),
+    source: { inputType: "text" },
+    tolerance: first.segment.tolerance,
+    ...(first.segment.datums && { datums: first.segment.datums }),
+    ...(modifiers.length > 0 && { modifiers }),
+    ...(isoModifiers.length > 0 && { isoModifiers: [...new Set(isoModifiers)] }),
+    ...(first.count !== undefined && { pattern: { count: first.count } }),
+    ...(projectedHeight !== undefined && { projectedZone: { height: projectedHeight } }),
+  };
+
+  if (lower.length > 0) {
+    // A lower row that repeats the symbol is a separate single-segment frame
+    const isComposite = lower.every((row) => !row.characteristic);
+    if (!isComposite && lower.some((row) => !row.characteristic)) {
+      throw errorAt(text, lower.find((row) => !row.characteristic)!.start, "Mixes composite and single-segment rows");
+    }
+    fcf.composite = {
+      type: isComposite ? "composite" : "multipleSingleSegments",
+      segments: rows.map((row) => row.segment),
+    };
+  }
+
+  return fcf;
+}
+
+/**
+ * Parse without throwing, for live input.
+ */
+export function tryParseNotation(text: string, options?: NotationParseOptions): NotationParseResult {
+  try {
+    return { ok: true, fcf: parseNotation(text, options) };
+  } catch (error) {
+    if (error instanceof NotationParseError) return { ok: false, error };
+    throw error;
+  }
+}
+
+// ============================================================================
+// SERIALIZER
+// ============================================================================
+
+function formatValue(value: number, unit: Unit, style: NotationStyle): string {
+  const text = String(value);
+  // US inch drawings omit the leading zero (.008)
+  return style === "ascii" && unit === "inch" ? text.replace(/^(-?)0\./, "$1.") : text;
+}
+
+function formatMaterialCondition(mc: MaterialConditionSymbol | undefined, style: NotationStyle): string {
+  if (!mc) return "";
+  const unicode: Record<MaterialConditionSymbol, string> = {
+    MMC: GDT_SYMBOLS.mmc,
+    LMC: GDT_SYMBOLS.lmc,
+    RFS: GDT_SYMBOLS.rfs,
+  };
+  return style === "unicode" ? unicode[mc] : `(${mc[0]})`;
+}
+
+function formatToleranceCell(
+  fcf: FcfJson,
+  segment: CompositeSegment,
+  isFirstRow: boolean,
+  style: NotationStyle
+): string {
+  const { tolerance } = segment;
+  const unit = tolerance.unit ?? fcf.sourceUnit;
+  const parts: string[] = [];
+
+  let zone = "";
+  if (tolerance.zoneShape === "spherical") zone = style === "unicode" ? `S${GDT_SYMBOLS.diameter}` : "SDIA ";
+  else if (tolerance.diameter) zone = style === "unicode" ? GDT_SYMBOLS.diameter : "DIA ";
+  parts.push(`${zone}${formatValue(tolerance.value, unit, style)}`);
+
+  // ISO indications are frame-level; they are written on the first row
+  if (isFirstRow) {
+    ISO_MODIFIER_ORDER.filter((m) => fcf.isoModifiers?.includes(m)).forEach((m) => {
+      const offset = tolerance.zoneOffset;
+      parts.push(m === "UZ" && offset !== undefined ? `UZ${offset >= 0 ? "+" : ""}${offset}` : m);
+    });
+  }
+
+  // Frame-level modifiers are written on the first row
+  const rowModifiers = [...new Set([...(isFirstRow ? fcf.modifiers ?? [] : []), ...(segment.modifiers ?? [])])];
+  const mc = formatMaterialCondition(tolerance.materialCondition, style);
+  const modifiers = rowModifiers.map((modifier) => {
+    const symbol = FRAME_MODIFIER_SYMBOLS[modifier][style];
+    if (modifier === "PROJECTED_TOLERANCE_ZONE" && fcf.projectedZone) {
+      return `${symbol}${style === "ascii" ? " " : ""}${fcf.projectedZone.height}`;
+    }
+    if (modifier === "UNEQUALLY_DISPOSED" && tolerance.outsideAmount !== undefined) {
+      return `${symbol}${style === "ascii" ? " " : ""}${formatValue(tolerance.outsideAmount, unit, style)}`;
+    }
+    return symbol;
+  });
+
+  if (style === "unicode") {
+    return [parts.join(" "), mc, ...modifiers].join("");
+  }
+  return [...parts, mc, ...modifiers].filter(Boolean).join(" ");
+}
+
+function formatDatum(datum: DatumReference, style: NotationStyle): string {
+  return `${datum.id}${formatMaterialCondition(datum.materialCondition, style)}`;
+}
+
+/**
+ * Serialize an FcfJson to compact text notation (one line per frame row).
+ */
+export function serializeNotation(fcf: FcfJson, style: NotationStyle = "unicode"): string {
+  const symbol = (style === "unicode" ? UNICODE_CHARACTERISTICS : ASCII_CHARACTERISTICS)[fcf.characteristic];
+
+  const segments: CompositeSegment[] =
+    fcf.composite && fcf.composite.segments.length > 0
+      ? fcf.composite.segments
+      : [{ tolerance: fcf.tolerance, datums: fcf.datums }];
+
+  const count = fcf.pattern?.count ?? Number(/^\s*(\d+)\s*X/i.exec(fcf.pattern?.note ?? "")?.[1] ?? NaN);
+  const prefix = Number.isFinite(count) ? `${count}X ` : "";
+
+  return segments
+    .map((segment, index) => {
+      const isFirstRow = index === 0;
+      const cells = [
+        formatToleranceCell(fcf, segment, isFirstRow, style),
+        ...(segment.datums ?? []).map((d) => formatDatum(d, style)),
+      ];
+      // Composite lower rows share the symbol cell, written as an empty leading cell
+      const rowSymbol = !isFirstRow && fcf.composite?.type === "composite" ? "" : symbol;
+      const row =
+        style === "unicode" ? [rowSymbol, ...cells].join("|") : `${rowSymbol ? `${rowSymbol} ` : "| "}${cells.join(" ")}`;
+      return isFirstRow ? `${prefix}${row}` : row;
+    })
+    .join("\n");
+}
@@ -28,6 +28,14 @@ export type FrameModifier =
   | "TANGENT_PLANE"
   | "UNEQUALLY_DISPOSED";
 export type GeometricStandard = "ASME_Y14_5_2018" | "ISO_1101";
+// ISO GPS tolerance-section indications (ISO 1101 / ISO 5458); not valid in ASME Y14.5 frames.
+export type IsoModifier =
+  | "CZ" // Combined zone: one zone pattern for all toleranced features.
+  | "SZ" // Separate zones: each toleranced feature has an independent zone.
+  | "UZ" // Specified offset zone; offset stored in ToleranceZone.zoneOffset.
+  | "ACS" // Any cross-section.
+  | "LE" // Line element.
+  | "NC"; // Not convex.
 
 export type DatumReference = {
   id: string; // Letter ID from the drawing (e.g., "A", "B", "C").
@@ -40,6 +48,8 @@ export type ToleranceZone = {
   diameter?: boolean; // True when zone is cylindrical (e.g., position of a hole).
   materialCondition?: MaterialConditionSymbol; // M/L/R applied to the tolerance itself.
   zoneShape?: "cylindrical" | "spherical" | "twoParallelPlanes" | "twoParallelLines";
+  outsideAmount?: number; // Portion of the zone outside the true profile when UNEQUALLY_DISPOSED is used.
+  zoneOffset?: number; // ISO UZ offset of the zone mid-surface from the true profile (+ toward material-free side).
 };
 
 export type PatternSpec = {
@@ -53,6 +63,7 @@ export type SizeDimension = {
   toleranceMinus?: number; // Minus tolerance on size.
   unit?: Unit;
   note?: string;
+  envelope?: boolean; // ISO Ⓔ envelope requirement (ASME Rule #1 applies by default).
 };
 
 export type ProjectedZone = {
@@ -77,7 +88,7 @@ export type CompositeFrame =
     };
 
 export type SourceInfo = {
-  inputType: "builder" | "json"; // How this FCF was captured.
+  inputType: "builder" | "json" | "text"; // How this FCF was captured (text = compact notation).
   fileUrl?: string; // Optional reference to the source file.
   uploadId?: string; // Optional link to uploads table/storage metadata.
   notes?: string;
@@ -91,12 +102,15 @@ export type FcfJson = {
   characteristic: Characteristic; // Geometric characteristic symbol.
   featureType?: FeatureType; // Helps drive rule checks (e.g., datum eligibility, modifiers).
   name?: string; // Human-friendly label (unique per project in persistence layer).
+  featureId?: string; // Identifies the toleranced feature when several frames control it (e.g., "HOLE-1").
+  datumFeature?: string; // Datum feature symbol attached to the toleranced feature (e.g., "B").
   sourceUnit: Unit; // Source drawing unit; downstream conversions derive from this.
   standard?: GeometricStandard; // Defaults to ASME Y14.5-2018 if omitted.
   source: SourceInfo; // Capture path/context for traceability.
   tolerance: ToleranceZone; // Core tolerance block.
   datums?: DatumReference[]; // Primary/secondary/tertiary datum references (ordered).
   modifiers?: FrameModifier[]; // Frame-level modifiers (projected zone, free state, etc.).
+  isoModifiers?: IsoModifier[]; // ISO-only indications (CZ, SZ, UZ, ACS, LE, NC); requires standard ISO_1101.
   pattern?: PatternSpec; // Pattern context if applicable.
   sizeDimension?: SizeDimension; // Feature-of-size info (enables MMC/LMC rules).
   projectedZone?: ProjectedZone; // Projection height when required for fasteners.
@@ -128,8 +142,9 @@ export const frameModifierSchema = z.enum([
   "UNEQUALLY_DISPOSED"
 ]);
 const geometricStandardSchema = z.enum(["ASME_Y14_5_2018", "ISO_1101"]);
+export const isoModifierSchema = z.enum(["CZ", "SZ", "UZ", "ACS", "LE", "NC"]);
 const zoneShapeSchema = z.enum(["cylindrical", "spherical", "twoParallelPlanes", "twoParallelLines"]);
-const sourceInputTypeSchema = z.enum(["builder", "json"]);
+const sourceInputTypeSchema = z.enum(["builder", "json", "text"]);
 
 const datumReferenceSchema = z.object({
   id: z.string().min(1),
@@ -141,7 +156,9 @@ const toleranceZoneSchema = z.object({
   unit: unitSchema.optional(),
   diameter: z.boolean().optional(),
   materialCondition: materialConditionSchema.optional(),
-  zoneShape: zoneShapeSchema.optional()
+  zoneShape: zoneShapeSchema.optional(),
+  outsideAmount: z.number().optional(),
+  zoneOffset: z.number().optional()
 });
 
 const patternSpecSchema = z.object({
@@ -154,7 +171,8 @@ const sizeDimensionSchema = z.object({
   tolerancePlus: z.number().optional(),
   toleranceMinus: z.number().optional(),
   unit: unitSchema.optional(),
-  note: z.string().optional()
+  note: z.string().optional(),
+  envelope: z.boolean().optional()
 });
 
 const projectedZoneSchema = z.object({
@@ -190,12 +208,15 @@ export const fcfJsonSchema: z.ZodType<FcfJson> = z.object({
   characteristic: characteristicSchema,
   featureType: featureTypeSchema.optional(),
   name: z.string().optional(),
+  featureId: z.string().optional(),
+  datumFeature: z.string().optional(),
   sourceUnit: unitSchema,
   standard: geometricStandardSchema.optional(),
   source: sourceInfoSchema,
   tolerance: toleranceZoneSchema,
   datums: datumReferenceSchema.array().optional(),
   modifiers: frameModifierSchema.array().optional(),
+  isoModifiers: isoModifierSchema.array().optional(),
   pattern: patternSpecSchema.optional(),
   sizeDimension: sizeDimensionSchema.optional(),
   projectedZone: projectedZoneSchema.optional(),
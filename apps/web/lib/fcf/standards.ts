@@ -0,0 +1,292 @@
+import { FcfJson, GeometricStandard, IsoModifier } from "./schema";
+
+// ============================================================================
+// TRANSLATION MODEL
+// ============================================================================
+
+export const STANDARD_LABELS: Record<GeometricStandard, string> = {
+  ASME_Y14_5_2018: "ASME Y14.5-2018",
+  ISO_1101: "ISO 1101:2017",
+};
+
+/**
+ * One entry of an ASME ↔ ISO translation report.
+ * - converted: notation rewritten with the same meaning
+ * - meaningChange: the frame reads differently under the target standard's defaults
+ * - review: no direct equivalent; the designer must confirm intent
+ */
+export type TranslationNote = {
+  kind: "converted" | "meaningChange" | "review";
+  /** Short heading (e.g., "Rule #1 / independency principle") */
+  topic: string;
+  /** JSON path to the affected field, in validation issue style */
+  path?: string;
+  detail: string;
+};
+
+export type StandardTranslation<T extends Partial<FcfJson> = FcfJson> = {
+  from: GeometricStandard;
+  to: GeometricStandard;
+  /** Frame rewritten for the target standard */
+  fcf: T;
+  notes: TranslationNote[];
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** ASME drawing notes that carry ISO tolerance-section indications */
+const ISO_MODIFIER_NOTES: Partial<Record<IsoModifier, string>> = {
+  SZ: "SEP REQT",
+  LE: "EACH ELEMENT",
+  ACS: "ANY CROSS SECTION",
+};
+
+/**
+ * ISO UZ offset (zone mid-surface from true profile) for an ASME Ⓤ outside amount.
+ */
+export function zoneOffsetFromOutsideAmount(value: number, outsideAmount: number): number {
+  return roundZoneValue(outsideAmount - value / 2);
+}
+
+/**
+ * ASME Ⓤ outside amount for an ISO UZ offset.
+ */
+export function outsideAmountFromZoneOffset(value: number, zoneOffset: number): number {
+  return roundZoneValue(value / 2 + zoneOffset);
+}
+
+/** Strip floating point noise from zone arithmetic (e.g., 0.3 - 0.25) */
+function roundZoneValue(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/** Rule #1 and Ⓔ only concern features of size */
+function isSizeFeature(fcf: Partial<FcfJson>): boolean {
+  return fcf.sizeDimension !== undefined && !["surface", "plane", "edge"].includes(fcf.featureType ?? "");
+}
+
+function isPattern(fcf: Partial<FcfJson>): boolean {
+  return (fcf.pattern?.count ?? 0) > 1;
+}
+
+function withIsoModifier(fcf: Partial<FcfJson>, modifier: IsoModifier): IsoModifier[] {
+  return [...(fcf.isoModifiers ?? []).filter((m) => m !== modifier), modifier];
+}
+
+// ============================================================================
+// ASME → ISO
+// ============================================================================
+
+function asmeToIso<T extends Partial<FcfJson>>(source: T): { fcf: T; notes: TranslationNote[] } {
+  const fcf = structuredClone(source);
+  const notes: TranslationNote[] = [];
+
+  // Rule #1 is the ASME default; ISO 8015 defaults to independency
+  if (fcf.sizeDimension && isSizeFeature(fcf) && !fcf.sizeDimension.envelope) {
+    fcf.sizeDimension.envelope = true;
+    notes.push({
+      kind: "meaningChange",
+      topic: "Rule #1 / independency principle",
+      path: "sizeDimension.envelope",
+      detail:
+        "ASME Rule #1 limits form to the MMC envelope by default; ISO 8015 applies the independency principle, so size alone no longer controls form. Ⓔ was added to keep the envelope requirement.",
+    });
+  }
+
+  if (fcf.tolerance?.materialCondition === "RFS") {
+    delete fcf.tolerance.materialCondition;
+    notes.push({
+      kind: "converted",
+      topic: "Regardless of feature size",
+      path: "tolerance.materialCondition",
+      detail: "ISO 1101 has no RFS symbol; a tolerance without Ⓜ or Ⓛ already applies regardless of size.",
+    });
+  }
+  fcf.datums?.forEach((datum, i) => {
+    if (datum.materialCondition === "RFS") {
+      delete datum.materialCondition;
+      notes.push({
+        kind: "converted",
+        topic: "Regardless of material boundary",
+        path: `datums[${i}].materialCondition`,
+        detail: `Datum ${datum.id} is referenced regardless of size by default in ISO 5459; RFS was removed.`,
+      });
+    } else if (datum.materialCondition === "MMC" || datum.materialCondition === "LMC") {
+      notes.push({
+        kind: "review",
+        topic: "Datum MMB vs. MMR",
+        path: `datums[${i}].materialCondition`,
+        detail: `ASME sizes the datum ${datum.id} simulator at its maximum material boundary (MMB) from the datum feature's own controls; ISO 2692 uses the MMVS of the datum feature. Confirm the simulator size.`,
+      });
+    }
+  });
+
+  if (fcf.tolerance && fcf.modifiers?.includes("UNEQUALLY_DISPOSED")) {
+    fcf.modifiers = fcf.modifiers.filter((m) => m !== "UNEQUALLY_DISPOSED");
+    const { value, outsideAmount } = fcf.tolerance;
+    if (outsideAmount !== undefined) {
+      delete fcf.tolerance.outsideAmount;
+      fcf.tolerance.zoneOffset = zoneOffsetFromOutsideAmount(value, outsideAmount);
+      fcf.isoModifiers = withIsoModifier(fcf, "UZ");
+      notes.push({
+        kind: "converted",
+        topic: "Unequally disposed profile",
+        path: "tolerance.zoneOffset",
+        detail: `Ⓤ ${outsideAmount} (amount outside the true profile) becomes UZ${fcf.tolerance.zoneOffset >= 0 ? "+" : ""}${fcf.tolerance.zoneOffset} (offset of the zone mid-surface).`,
+      });
+    } else {
+      notes.push({
+        kind: "review",
+        topic: "Unequally disposed profile",
+        path: "tolerance.zoneOffset",
+        detail: "Ⓤ has no outside amount; state the UZ offset of the zone mid-surface.",
+      });
+    }
+  }
+
+  if (fcf.composite?.type === "composite") {
+    fcf.composite = { type: "multipleSingleSegments", segments: fcf.composite.segments };
+    notes.push({
+      kind: "meaningChange",
+      topic: "Composite frame",
+      path: "composite.type",
+      detail:
+        "ISO 1101 has no composite frame. The segments are now stacked single frames, so the lower frame also locates the pattern to its datums; add CZ and an orientation-only constraint to the lower frame to keep the ASME meaning.",
+    });
+  } else if (fcf.characteristic === "position" && isPattern(fcf) && !fcf.isoModifiers?.includes("CZ")) {
+    fcf.isoModifiers = withIsoModifier(fcf, "CZ");
+    notes.push({
+      kind: "converted",
+      topic: "Simultaneous requirement",
+      path: "isoModifiers",
+      detail:
+        "ASME treats a pattern located by basic dimensions as one simultaneous requirement; ISO 5458 defaults to independent zones, so CZ was added.",
+    });
+  }
+
+  return { fcf, notes };
+}
+
+// ============================================================================
+// ISO → ASME
+// ============================================================================
+
+function isoToAsme<T extends Partial<FcfJson>>(source: T): { fcf: T; notes: TranslationNote[] } {
+  const fcf = structuredClone(source);
+  const notes: TranslationNote[] = [];
+  const drawingNotes = [...(fcf.notes ?? [])];
+
+  if (fcf.sizeDimension?.envelope) {
+    delete fcf.sizeDimension.envelope;
+    notes.push({
+      kind: "converted",
+      topic: "Rule #1 / independency principle",
+      path: "sizeDimension.envelope",
+      detail: "Ⓔ was removed; ASME Rule #1 applies the envelope requirement by default.",
+    });
+  } else if (isSizeFeature(fcf)) {
+    drawingNotes.push("PERFECT FORM AT MMC NOT REQD");
+    notes.push({
+      kind: "meaningChange",
+      topic: "Rule #1 / independency principle",
+      path: "notes",
+      detail:
+        "Under ISO 8015 size did not control form; ASME Rule #1 would now limit form to the MMC envelope. A note was added to keep the independency principle.",
+    });
+  }
+
+  if (fcf.tolerance?.zoneOffset !== undefined) {
+    const { value, zoneOffset } = fcf.tolerance;
+    delete fcf.tolerance.zoneOffset;
+    fcf.tolerance.outsideAmount = outsideAmountFromZoneOffset(value, zoneOffset);
+    fcf.modifiers = [...(fcf.modifiers ?? []).filter((m) => m !== "UNEQUALLY_DISPOSED"), "UNEQUALLY_DISPOSED"];
+    notes.push({
+      kind: "converted",
+      topic: "Offset profile zone",
+      path: "tolerance.outsideAmount",
+      detail: `UZ${zoneOffset >= 0 ? "+" : ""}${zoneOffset} (offset of the zone mid-surface) becomes Ⓤ ${fcf.tolerance.outsideAmount} (amount outside the true profile).`,
+    });
+  }
+
+  (fcf.isoModifiers ?? []).forEach((modifier) => {
+    if (modifier === "UZ") return;
+    if (modifier === "CZ") {
+      notes.push(
+        fcf.characteristic === "position"
+          ? {
+              kind: "converted",
+              topic: "Combined zone",
+              path: "isoModifiers",
+              detail: "CZ was removed; a pattern located by basic dimensions is a simultaneous requirement by default in ASME.",
+            }
+          : {
+              kind: "review",
+              topic: "Combined zone",
+              path: "isoModifiers",
+              detail: "CZ was removed; confirm the features are related by basic dimensions or add a CONTINUOUS FEATURE note.",
+            }
+      );
+      return;
+    }
+    if (modifier === "NC") {
+      notes.push({
+        kind: "review",
+        topic: "Not convex",
+        path: "isoModifiers",
+        detail: "ASME Y14.5 has no equivalent of NC; NC was removed.",
+      });
+      return;
+    }
+    const note = ISO_MODIFIER_NOTES[modifier];
+    if (note) drawingNotes.push(note);
+    notes.push({
+      kind: modifier === "ACS" ? "review" : "converted",
+      topic: modifier,
+      path: "notes",
+      detail: `${modifier} has no frame symbol in ASME Y14.5; the note "${note}" was added.`,
+    });
+  });
+  delete fcf.isoModifiers;
+
+  fcf.datums?.forEach((datum, i) => {
+    if (datum.materialCondition === "MMC" || datum.materialCondition === "LMC") {
+      notes.push({
+        kind: "review",
+        topic: "Datum MMR vs. MMB",
+        path: `datums[${i}].materialCondition`,
+        detail: `ISO 2692 sizes the datum ${datum.id} simulator at its MMVS; ASME uses the maximum material boundary (MMB) from the datum feature's own controls. Confirm the simulator size.`,
+      });
+    }
+  });
+
+  if (drawingNotes.length > 0) fcf.notes = drawingNotes;
+  return { fcf, notes };
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Switch a frame to another standard and report what changes meaning.
+ * The source frame is not modified.
+ */
+export function translateStandard<T extends Partial<FcfJson>>(
+  fcf: T,
+  target: GeometricStandard
+): StandardTranslation<T> {
+  const from = fcf.standard ?? "ASME_Y14_5_2018";
+  if (from === target) {
+    return { from, to: target, fcf: structuredClone(fcf), notes: [] };
+  }
+
+  const translated = target === "ISO_1101" ? asmeToIso(fcf) : isoToAsme(fcf);
+  return {
+    from,
+    to: target,
+    fcf: { ...translated.fcf, standard: target },
+    notes: translated.notes,
+  };
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { getDefaultRuleProfile, getProjectRuleProfile } from "@/lib/rules/profileActions";
+import { profileFromSettings, resolveRuleProfile, type RuleProfile } from "@/lib/rules/ruleProfiles";
+import { useValidationSettings } from "@/lib/settings/context";
+
+/**
+ * Rule profile that governs validation on a page: the project's profile or
+ * the account default when stored, else the user's validation settings.
+ */
+export function useRuleProfile(projectId?: string) {
+  const { strictMode, warnOnImplicitRfs, maxDatumReferences } = useValidationSettings();
+  const settingsProfile = useMemo(
+    () => profileFromSettings({ strictMode, warnOnImplicitRfs, maxDatumReferences }),
+    [strictMode, warnOnImplicitRfs, maxDatumReferences]
+  );
+
+  const [storedProfile, setStoredProfile] = useState<RuleProfile | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // getProjectRuleProfile already falls back to the account default
+    const load = projectId ? getProjectRuleProfile(projectId) : getDefaultRuleProfile();
+    load
+      .then((profile) => {
+        if (!cancelled) setStoredProfile(profile);
+      })
+      .catch((error) => {
+        console.error("Failed to load rule profile:", error);
+        if (!cancelled) setStoredProfile(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, version]);
+
+  const reload = useCallback(() => setVersion((v) => v + 1), []);
+
+  return {
+    profile: resolveRuleProfile(storedProfile, null, settingsProfile),
+    /** Whether a stored profile applies rather than the user's settings */
+    stored: storedProfile !== null,
+    reload,
+  };
+}
@@ -6,6 +6,7 @@
  *   E021-E030: Composite and segment configuration
  *   E031-E040: Tolerance zone and value constraints
  *   E041-E050: Feature type constraints
+ *   I001-I010: ISO GPS (ISO 1101 / ISO 5458 / ISO 8015) notation
  *   W001-W010: Warnings (non-blocking but noteworthy)
  */
 export const errorCodes = {
@@ -22,10 +23,8 @@ export const errorCodes = {
   E010: "FREE_STATE modifier only applies to non-rigid parts",
 
   // === Datum Reference Requirements (E011-E020) ===
-  E011: "Position requires at least one datum reference",
-  E012: "Perpendicularity requires at least one datum reference",
-  E013: "Parallelism requires at least one datum reference",
-  E014: "Angularity requires at least one datum reference",
+  // E011-E014 (missing datum for position, perpendicularity, parallelism, angularity) were retired:
+  // E006 reports a missing datum for every characteristic that needs one. The numbers are not reused.
   E015: "Runout requires a datum axis reference",
   E016: "Reserved (Concentricity removed from ASME Y14.5-2018)",
   E017: "Duplicate datum letter in reference frame",
@@ -50,6 +49,14 @@ export const errorCodes = {
   E042: "Plane features cannot use material condition modifiers",
   E043: "Edge features have limited GD&T applicability",
 
+  // === ISO GPS Notation (I001-I010) ===
+  I001: "ISO-only indication used in an ASME Y14.5 frame",
+  I002: "Combined zone (CZ) and separate zones (SZ) cannot both be specified",
+  I003: "Offset zone (UZ) requires a profile tolerance with a stated offset",
+  I004: "ASME-only notation is not defined in ISO 1101",
+  I005: "CZ/SZ apply to multiple toleranced features",
+  I006: "Envelope requirement (Ⓔ) only applies to a feature of size",
+
   // === Warnings (W001-W010) ===
   W001: "RFS is implicit per ASME Y14.5-2018; explicit RFS is redundant",
   W002: "Position without secondary datum may allow unwanted rotation",
@@ -59,3 +66,26 @@ export const errorCodes = {
 } as const;
 
 export type ErrorCode = keyof typeof errorCodes;
+
+/**
+ * Project-level (cross-FCF) error codes emitted by validateProject.
+ *   P001-P010: Datum reference frame consistency across the drawing
+ *   P011-P020: Feature and pattern consistency across frames
+ */
+export const projectErrorCodes = {
+  // === Datum Consistency (P001-P010) ===
+  P001: "Datum referenced but not established by any datum feature on the drawing",
+  P002: "Datum letters I, O and Q are not permitted",
+  P003: "Datum letter established by more than one feature",
+
+  // === Feature & Pattern Consistency (P011-P020) ===
+  P011: "Feature toleranced more than once with conflicting material conditions",
+  P012: "Pattern count disagrees between frames controlling the same pattern"
+} as const;
+
+export type ProjectErrorCode = keyof typeof projectErrorCodes;
+
+/**
+ * Codes kept in the catalog for numbering stability but intentionally not emitted by any rule.
+ */
+export const reservedErrorCodes: readonly ErrorCode[] = ["E016"];
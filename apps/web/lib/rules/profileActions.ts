@@ -0,0 +1,296 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import { getUserSettings } from "@/lib/settings/actions";
+import {
+  type RuleProfile,
+  type RuleProfileRow,
+  profileFromSettings,
+  profileToRow,
+  resolveRuleProfile,
+  rowToProfile,
+  ruleProfileSchema,
+} from "./ruleProfiles";
+
+/**
+ * List the current user's rule profiles and which one is the account default.
+ */
+export async function getRuleProfiles(): Promise<{ profiles: RuleProfile[]; defaultProfileId: string | null }> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { profiles: [], defaultProfileId: null };
+  }
+
+  const { data, error } = await supabase
+    .from("rule_profiles")
+    .select("*")
+    .eq("user_id", user.id)
+    .is("deleted_at", null)
+    .order("name");
+
+  if (error) {
+    console.error("Failed to fetch rule profiles:", error);
+    return { profiles: [], defaultProfileId: null };
+  }
+
+  const rows = data as RuleProfileRow[];
+  return {
+    profiles: rows.map(rowToProfile),
+    defaultProfileId: rows.find((row) => row.is_default)?.id ?? null,
+  };
+}
+
+/**
+ * Get the current user's account default profile, or null when none is set.
+ */
+export async function getDefaultRuleProfile(): Promise<RuleProfile | null> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("rule_profiles")
+    .select("*")
+    .eq("user_id", user.id)
+    .eq("is_default", true)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to fetch default rule profile:", error);
+    return null;
+  }
+
+  return data ? rowToProfile(data as RuleProfileRow) : null;
+}
+
+/**
+ * Get the ID of the profile attached to a project, or null when the project
+ * uses the account default.
+ */
+export async function getProjectRuleProfileId(projectId: string): Promise<string | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("projects")
+    .select("rule_profile_id")
+    .eq("id", projectId)
+    .is("deleted_at", null)
+    .single();
+
+  if (error) {
+    console.error("Failed to fetch project rule profile:", error);
+    return null;
+  }
+
+  return data.rule_profile_id;
+}
+
+/**
+ * Get the stored profile that governs a project: the project's own profile,
+ * else the owner's default. Returns null when neither exists, in which case the
+ * caller falls back to the user's validation settings.
+ */
+export async function getProjectRuleProfile(projectId: string): Promise<RuleProfile | null> {
+  const supabase = await createClient();
+
+  const { data: project, error: projectError } = await supabase
+    .from("projects")
+    .select("user_id, rule_profile_id")
+    .eq("id", projectId)
+    .is("deleted_at", null)
+    .single();
+
+  if (projectError) {
+    console.error("Failed to fetch project rule profile:", projectError);
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("rule_profiles")
+    .select("*")
+    .eq("user_id", project.user_id)
+    .is("deleted_at", null)
+    .or(project.rule_profile_id ? `id.eq.${project.rule_profile_id},is_default.eq.true` : "is_default.eq.true");
+
+  if (error) {
+    console.error("Failed to fetch rule profiles:", error);
+    return null;
+  }
+
+  const rows = data as RuleProfileRow[];
+  const row = rows.find((r) => r.id === project.rule_profile_id) ?? rows.find((r) => r.is_default);
+  return row ? rowToProfile(row) : null;
+}
+
+/**
+ * Get the profile that governs validation for the current user: the project's
+ * stored profile or the account default, else the user's validation settings.
+ * Server-side counterpart of useRuleProfile.
+ */
+export async function getEffectiveRuleProfile(projectId?: string): Promise<RuleProfile> {
+  const [stored, settings] = await Promise.all([
+    projectId ? getProjectRuleProfile(projectId) : getDefaultRuleProfile(),
+    getUserSettings(),
+  ]);
+  return resolveRuleProfile(stored, null, profileFromSettings(settings));
+}
+
+/**
+ * Create or update a rule profile.
+ */
+export async function saveRuleProfile(
+  profile: RuleProfile
+): Promise<{ success: boolean; error?: string; profile?: RuleProfile }> {
+  const parsed = ruleProfileSchema.safeParse(profile);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message ?? "Invalid rule profile" };
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const row = profileToRow(parsed.data as RuleProfile);
+  const query = parsed.data.id
+    ? supabase.from("rule_profiles").update(row).eq("id", parsed.data.id).eq("user_id", user.id)
+    : supabase.from("rule_profiles").insert({ user_id: user.id, ...row });
+
+  const { data, error } = await query.select().single();
+
+  if (error) {
+    console.error("Failed to save rule profile:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/app/settings");
+  return { success: true, profile: rowToProfile(data as RuleProfileRow) };
+}
+
+/**
+ * Soft delete a rule profile. Projects using it fall back to the account default.
+ */
+export async function deleteRuleProfile(profileId: string): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  // Detach from projects first so they resolve to the default profile
+  const { error: detachError } = await supabase
+    .from("projects")
+    .update({ rule_profile_id: null })
+    .eq("rule_profile_id", profileId)
+    .eq("user_id", user.id);
+
+  if (detachError) {
+    console.error("Failed to detach rule profile from projects:", detachError);
+    return { success: false, error: detachError.message };
+  }
+
+  const { error } = await supabase
+    .from("rule_profiles")
+    .update({ deleted_at: new Date().toISOString(), is_default: false })
+    .eq("id", profileId)
+    .eq("user_id", user.id);
+
+  if (error) {
+    console.error("Failed to delete rule profile:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/app/settings");
+  return { success: true };
+}
+
+/**
+ * Make a profile the account default, or clear the default with null.
+ */
+export async function setDefaultRuleProfile(profileId: string | null): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  // Clear first: the partial unique index allows one default per owner
+  const { error: clearError } = await supabase
+    .from("rule_profiles")
+    .update({ is_default: false })
+    .eq("user_id", user.id)
+    .eq("is_default", true);
+
+  if (clearError) {
+    console.error("Failed to clear default rule profile:", clearError);
+    return { success: false, error: clearError.message };
+  }
+
+  if (profileId) {
+    const { error } = await supabase
+      .from("rule_profiles")
+      .update({ is_default: true })
+      .eq("id", profileId)
+      .eq("user_id", user.id);
+
+    if (error) {
+      console.error("Failed to set default rule profile:", error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  revalidatePath("/app/settings");
+  return { success: true };
+}
+
+/**
+ * Attach a profile to a project, or detach with null.
+ */
+export async function setProjectRuleProfile(
+  projectId: string,
+  profileId: string | null
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const { error } = await supabase
+    .from("projects")
+    .update({ rule_profile_id: profileId })
+    .eq("id", projectId)
+    .eq("user_id", user.id);
+
+  if (error) {
+    console.error("Failed to attach rule profile:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath(`/app/projects/${projectId}`);
+  return { success: true };
+}
@@ -0,0 +1,213 @@
+/**
+ * Rule Profiles
+ *
+ * Named sets of rule overrides applied by validateFcf: enable/disable a code,
+ * override its severity and tune rule thresholds. A profile is attached to a
+ * project or used as the account (team) default.
+ *
+ * Shared between client and server code; persistence lives in ./profileActions.
+ */
+
+import { z } from "zod";
+import type { Unit } from "@/lib/fcf/schema";
+import type { UserSettings } from "@/lib/settings/types";
+import { errorCodes, type ErrorCode } from "./errorCodes";
+import type { Severity } from "./validateFcf";
+
+// ============================================================================
+// PROFILE MODEL
+// ============================================================================
+
+/**
+ * Per-code override. Omitted fields keep the rule's default behaviour.
+ */
+export type RuleOverride = {
+  /** false skips the rule entirely */
+  enabled?: boolean;
+  /** Replaces the severity of every issue the rule reports */
+  severity?: Severity;
+};
+
+/**
+ * Tunable limits used by individual rules.
+ */
+export type RuleThresholds = {
+  /** W005: tolerance values above these limits are reported as unusually large */
+  largeTolerance: Record<Unit, number>;
+  /** E019: datum references allowed before the frame is reported */
+  maxDatumReferences: number;
+};
+
+export type RuleProfile = {
+  /** Database ID; omitted for built-in and settings-derived profiles */
+  id?: string;
+  name: string;
+  description?: string;
+  overrides: Partial<Record<ErrorCode, RuleOverride>>;
+  thresholds: Partial<RuleThresholds>;
+  /** Report every warning as an error */
+  strict: boolean;
+};
+
+/**
+ * Profile summary attached to validation results so reviewers can tell
+ * which profile produced them.
+ */
+export type AppliedRuleProfile = {
+  id?: string;
+  name: string;
+  /** Number of codes disabled or with a changed severity */
+  overrideCount: number;
+  strict: boolean;
+};
+
+export const DEFAULT_RULE_THRESHOLDS: RuleThresholds = {
+  largeTolerance: { mm: 5, inch: 0.2 },
+  maxDatumReferences: 3,
+};
+
+export const DEFAULT_RULE_PROFILE: RuleProfile = {
+  name: "Standard",
+  description: "Rule catalog defaults",
+  overrides: {},
+  thresholds: {},
+  strict: false,
+};
+
+// ============================================================================
+// SCHEMAS
+// ============================================================================
+
+const errorCodeSchema = z.enum(Object.keys(errorCodes) as [ErrorCode, ...ErrorCode[]]);
+
+export const ruleOverrideSchema = z.object({
+  enabled: z.boolean().optional(),
+  severity: z.enum(["error", "warning"]).optional(),
+});
+
+export const ruleThresholdsSchema = z.object({
+  largeTolerance: z
+    .object({
+      mm: z.number().positive(),
+      inch: z.number().positive(),
+    })
+    .optional(),
+  maxDatumReferences: z.number().int().min(1).max(6).optional(),
+});
+
+export const ruleProfileSchema = z.object({
+  id: z.string().uuid().optional(),
+  name: z.string().trim().min(1, "Profile name is required").max(80),
+  description: z.string().max(500).optional(),
+  overrides: z.record(errorCodeSchema, ruleOverrideSchema),
+  thresholds: ruleThresholdsSchema,
+  strict: z.boolean(),
+});
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+/**
+ * Profile equivalent of the user's validation settings, used when neither the
+ * project nor the account has a stored profile.
+ */
+export function profileFromSettings(
+  settings: Pick<UserSettings, "strictMode" | "warnOnImplicitRfs" | "maxDatumReferences">
+): RuleProfile {
+  return {
+    name: "My settings",
+    overrides: settings.warnOnImplicitRfs ? {} : { W001: { enabled: false } },
+    thresholds:
+      settings.maxDatumReferences !== DEFAULT_RULE_THRESHOLDS.maxDatumReferences
+        ? { maxDatumReferences: settings.maxDatumReferences }
+        : {},
+    strict: settings.strictMode,
+  };
+}
+
+/**
+ * Pick the profile that governs a frame: project profile, then the account
+ * default, then the user's settings.
+ */
+export function resolveRuleProfile(
+  projectProfile: RuleProfile | null | undefined,
+  accountDefault: RuleProfile | null | undefined,
+  settingsProfile: RuleProfile = DEFAULT_RULE_PROFILE
+): RuleProfile {
+  return projectProfile ?? accountDefault ?? settingsProfile;
+}
+
+export function resolveThresholds(profile: RuleProfile | undefined): RuleThresholds {
+  return {
+    largeTolerance: profile?.thresholds.largeTolerance ?? DEFAULT_RULE_THRESHOLDS.largeTolerance,
+    maxDatumReferences: profile?.thresholds.maxDatumReferences ?? DEFAULT_RULE_THRESHOLDS.maxDatumReferences,
+  };
+}
+
+export function isRuleEnabled(profile: RuleProfile | undefined, code: ErrorCode): boolean {
+  return profile?.overrides[code]?.enabled !== false;
+}
+
+/**
+ * Severity an issue is reported with under the profile.
+ */
+export function effectiveSeverity(profile: RuleProfile | undefined, code: ErrorCode, severity: Severity): Severity {
+  if (!profile) return severity;
+  const overridden = profile.overrides[code]?.severity ?? severity;
+  return profile.strict ? "error" : overridden;
+}
+
+export function summarizeProfile(profile: RuleProfile): AppliedRuleProfile {
+  const overrideCount = Object.values(profile.overrides).filter(
+    (override) => override && (override.enabled === false || override.severity !== undefined)
+  ).length;
+  return {
+    ...(profile.id && { id: profile.id }),
+    name: profile.name,
+    overrideCount,
+    strict: profile.strict,
+  };
+}
+
+// ============================================================================
+// DATABASE MAPPING
+// ============================================================================
+
+// Database row shape (snake_case)
+export interface RuleProfileRow {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  overrides: Partial<Record<ErrorCode, RuleOverride>>;
+  thresholds: Partial<RuleThresholds>;
+  strict: boolean;
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+export function rowToProfile(row: RuleProfileRow): RuleProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    ...(row.description && { description: row.description }),
+    overrides: row.overrides ?? {},
+    thresholds: row.thresholds ?? {},
+    strict: row.strict,
+  };
+}
+
+export function profileToRow(
+  profile: RuleProfile
+): Pick<RuleProfileRow, "name" | "description" | "overrides" | "thresholds" | "strict"> {
+  return {
+    name: profile.name,
+    description: profile.description ?? null,
+    overrides: profile.overrides,
+    thresholds: profile.thresholds,
+    strict: profile.strict,
+  };
+}
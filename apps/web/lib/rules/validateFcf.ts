@@ -3,9 +3,29 @@ import {
   FeatureType,
   MaterialConditionSymbol,
   Characteristic,
+  FrameModifier,
+  GeometricStandard,
+  Unit,
   frameModifierSchema
 } from "@/lib/fcf/schema";
+import { outsideAmountFromZoneOffset, zoneOffsetFromOutsideAmount } from "@/lib/fcf/standards";
+import {
+  DATUM_FEATURE_TYPE_LABELS,
+  DatumFeature,
+  datumReferenceLetters,
+  findDatumFeature,
+  isDatumFeatureOfSize
+} from "@/lib/fcf/datums";
 import { errorCodes, ErrorCode } from "./errorCodes";
+import {
+  AppliedRuleProfile,
+  RuleProfile,
+  RuleThresholds,
+  effectiveSeverity,
+  isRuleEnabled,
+  resolveThresholds,
+  summarizeProfile
+} from "./ruleProfiles";
 
 // ============================================================================
 // VALIDATION MODEL
@@ -13,6 +33,72 @@ import { errorCodes, ErrorCode } from "./errorCodes";
 
 export type Severity = "error" | "warning";
 
+/**
+ * JSON-patch style operation against FcfJson (RFC 6902 subset).
+ * Paths are JSON Pointers (e.g., "/datums/0/materialCondition").
+ */
+export type FixOperation =
+  | { op: "add"; path: string; value: unknown }
+  | { op: "replace"; path: string; value: unknown }
+  | { op: "remove"; path: string };
+
+/**
+ * Machine-applicable fix for a validation issue.
+ */
+export type ValidationFix = {
+  /** Short label for the fix action (e.g., "Remove MMC") */
+  description: string;
+  /** Operations applied in order */
+  operations: FixOperation[];
+};
+
+/**
+ * Standards documents cited by rule references.
+ */
+export type StandardDocument =
+  | "ASME Y14.5-2018"
+  | "ISO 1101:2017"
+  | "ISO 1660:2017"
+  | "ISO 2692:2021"
+  | "ISO 5458:2018"
+  | "ISO 5459:2011"
+  | "ISO 8015:2011"
+  | "ISO 10579:2010"
+  | "ISO 14405-1:2016";
+
+/**
+ * Where a standard states the requirement a rule enforces.
+ */
+export type StandardReference = {
+  document: StandardDocument;
+  /** Section or paragraph number (omitted when the whole document applies) */
+  section?: string;
+  /** Section title, or the document title when no section is given */
+  title: string;
+  /** Figure illustrating the requirement */
+  figure?: string;
+};
+
+/**
+ * Example frame in compact text notation (lib/fcf/notation).
+ */
+export type RuleExample = {
+  frame: string;
+  /** Feature type the frame is applied to (not carried by the notation) */
+  featureType?: FeatureType;
+  /** Standard the frame is read under when the notation does not imply it */
+  standard?: GeometricStandard;
+  /** JSON fields the notation cannot express, set over the parsed frame */
+  fields?: Partial<Record<keyof FcfJson, unknown>>;
+  /** Why the frame is or is not acceptable */
+  note: string;
+};
+
+export type RuleExamples = {
+  good: RuleExample;
+  bad: RuleExample;
+};
+
 /**
  * Structured validation issue with full traceability.
  */
@@ -30,7 +116,13 @@ export type ValidationIssue = {
     characteristic?: Characteristic;
     featureType?: FeatureType;
     suggestion?: string;
+    /** Provenance of the rule that reported the issue */
+    references?: StandardReference[];
+    rationale?: string;
+    examples?: RuleExamples;
   };
+  /** Optional machine-applicable fix */
+  fix?: ValidationFix;
 };
 
 /**
@@ -49,6 +141,8 @@ export type ValidationResult = {
     errorCount: number;
     warningCount: number;
   };
+  /** Rule profile the result was produced under (omitted for catalog defaults) */
+  profile?: AppliedRuleProfile;
 };
 
 // ============================================================================
@@ -66,6 +160,16 @@ export type RuleCategory =
   | "feature-type"
   | "modifier-compatibility";
 
+/**
+ * Inputs a rule may need beyond the frame itself.
+ */
+export type RuleContext = {
+  /** Limits from the rule profile (catalog defaults when no profile applies) */
+  thresholds: RuleThresholds;
+  /** Project datum feature catalog the frame's datum letters refer to */
+  datumCatalog?: DatumFeature[];
+};
+
 /**
  * A validation rule is a pure function with metadata.
  */
@@ -78,16 +182,31 @@ export type Rule = {
   description: string;
   /** Default severity */
   severity: Severity;
+  /** Standards whose rule set includes this rule (all standards when omitted) */
+  standards?: GeometricStandard[];
+  /** Paragraphs of the standards that state the requirement (empty for practice-based checks) */
+  references: StandardReference[];
+  /** Why the standard imposes the requirement, for reviewers and support articles */
+  rationale: string;
+  /** Acceptable and unacceptable frames illustrating the rule */
+  examples?: RuleExamples;
   /** Quick guard: returns true if rule is applicable to this FCF */
-  applies: (fcf: FcfJson) => boolean;
+  applies: (fcf: FcfJson, context: RuleContext) => boolean;
   /** Evaluation: returns zero or more issues */
-  evaluate: (fcf: FcfJson) => ValidationIssue[];
+  evaluate: (fcf: FcfJson, context: RuleContext) => ValidationIssue[];
 };
 
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
 
+/** Standard assumed when FcfJson.standard is omitted */
+export const defaultStandard: GeometricStandard = "ASME_Y14_5_2018";
+
+/** Rule sets restricted to a single standard */
+const asmeOnly: GeometricStandard[] = ["ASME_Y14_5_2018"];
+const isoOnly: GeometricStandard[] = ["ISO_1101"];
+
 /** Features of size that can use material condition modifiers */
 const featureOfSizeTypes: FeatureType[] = ["hole", "slot", "pin", "boss"];
 
@@ -103,6 +222,86 @@ const locationCharacteristics: Characteristic[] = ["position"];
 /** Runout tolerances requiring datum axis reference */
 const runoutCharacteristics: Characteristic[] = ["runout", "totalRunout"];
 
+/** Feature types that can never be spherical features */
+const nonSphericalFeatureTypes: FeatureType[] = ["slot", "plane", "edge"];
+
+/** Characteristics that cannot be meaningfully applied to an edge (line element) */
+const edgeIncompatibleCharacteristics: Characteristic[] = [
+  "flatness",
+  "circularity",
+  "cylindricity",
+  "runout",
+  "totalRunout"
+];
+
+// ----------------------------------------------------------------------------
+// Standard references
+// ----------------------------------------------------------------------------
+
+const asme = (section: string, title: string, figure?: string): StandardReference => ({
+  document: "ASME Y14.5-2018",
+  section,
+  title,
+  ...(figure && { figure })
+});
+
+const asmeFundamentalRules = asme("4.1", "Fundamental Rules");
+const asmeModifierApplicability = asme(
+  "5.8",
+  "Applicability of Modifiers on Geometric Tolerance Values and Datum Feature References"
+);
+const asmeSymbolConstruction = asme("6.3", "Symbol Construction");
+const asmeFreeStateSymbol = asme("6.3.20", "Free State Symbol");
+const asmeDegreesOfFreedom = asme("7.4", "Constraining Degrees of Freedom of a Part", "7-1");
+const asmeDatumPrecedence = asme("7.10", "Datum Reference Frame Identification");
+const asmeDatumFeaturesOfSize = asme("7.11", "Datum Features of Size at MMB and LMB");
+const asmeSpecifyingForm = asme("8.3", "Specifying Form Tolerances");
+const asmeFlatness = asme("8.4.2", "Flatness", "8-8");
+const asmeSpecifyingOrientation = asme("9.3", "Specifying Orientation Tolerances");
+const asmePositionalTolerancing = asme("10.2", "Positional Tolerancing");
+const asmeZeroToleranceAtMmc = asme("10.3.4", "Zero Positional Tolerance at MMC");
+const asmeProjectedZone = asme("10.4.1", "Projected Tolerance Zone", "10-21");
+const asmeSphericalZone = asme("10.4.3", "Spherical Tolerance Zone");
+const asmeCompositePosition = asme("10.5.1", "Composite Positional Tolerancing", "10-33");
+const asmeMultipleSingleSegments = asme("10.5.2", "Multiple Single-Segment Positional Tolerancing", "10-42");
+const asmeProfile = asme("11.2", "Profile");
+const asmeUnequallyDisposed = asme("11.3.1.2", "Unequally Disposed Profile", "11-4");
+const asmeCompositeProfile = asme("11.6", "Composite Profile Tolerancing");
+const asmeRunout = asme("12.2", "Runout");
+const asmeRunoutDatumAxis = asme("12.3", "Runout Tolerance Applications", "12-1");
+const iso1101: StandardReference = { document: "ISO 1101:2017", title: "Geometrical tolerancing" };
+const iso1660: StandardReference = { document: "ISO 1660:2017", title: "Profile tolerancing" };
+const iso2692: StandardReference = {
+  document: "ISO 2692:2021",
+  title: "Maximum material requirement (MMR), least material requirement (LMR) and reciprocity requirement (RPR)"
+};
+const iso5458: StandardReference = { document: "ISO 5458:2018", title: "Pattern and combined geometrical specification" };
+const iso5459: StandardReference = { document: "ISO 5459:2011", title: "Datums and datum systems" };
+const iso8015Independency: StandardReference = { document: "ISO 8015:2011", section: "5.5", title: "Independency principle" };
+const iso10579: StandardReference = { document: "ISO 10579:2010", title: "Non-rigid parts" };
+const iso14405: StandardReference = { document: "ISO 14405-1:2016", title: "Linear sizes" };
+
+/** Notes that document the restrained/non-rigid condition for FREE_STATE */
+const restraintNotePattern = /non-?rigid|restrain|free state/i;
+
+/**
+ * Check if the frame or any composite segment uses a modifier.
+ */
+function usesModifier(fcf: FcfJson, modifier: FrameModifier): boolean {
+  return (
+    (fcf.modifiers ?? []).includes(modifier) ||
+    (fcf.composite?.segments ?? []).some((seg) => (seg.modifiers ?? []).includes(modifier))
+  );
+}
+
+/**
+ * Check if a rule belongs to the frame's rule set and applies to it.
+ */
+function ruleApplies(rule: Rule, fcf: FcfJson, context: RuleContext): boolean {
+  const standard = fcf.standard ?? defaultStandard;
+  return (!rule.standards || rule.standards.includes(standard)) && rule.applies(fcf, context);
+}
+
 /**
  * Check if FCF uses material condition anywhere (tolerance or datums).
  */
@@ -140,17 +339,26 @@ function issue(
   code: ErrorCode,
   path: string,
   severity: Severity,
-  context?: ValidationIssue["context"]
+  context?: ValidationIssue["context"],
+  fix?: ValidationFix
 ): ValidationIssue {
   return {
     code,
     message: errorCodes[code],
     path,
     severity,
-    ...(context && { context })
+    ...(context && { context }),
+    ...(fix && { fix })
   };
 }
 
+/**
+ * Create a fix that removes a single field.
+ */
+function removeFix(description: string, path: string): ValidationFix {
+  return { description, operations: [{ op: "remove", path }] };
+}
+
 // ============================================================================
 // RULE CATALOG
 // ============================================================================
@@ -168,20 +376,41 @@ const rules: Rule[] = [
     category: "material-condition",
     description: "Form tolerances (flatness, etc.) cannot use MMC/LMC modifiers",
     severity: "error",
+    references: [asmeFlatness, asmeModifierApplicability, iso2692],
+    rationale:
+      "Form tolerances on a surface control surface elements, which have no size, so there is no material boundary for Ⓜ or Ⓛ to modify and the zone always applies regardless of feature size. Straightness or flatness of a derived median line or plane is the exception; DatumPilot does not model derived form controls, so disable E001 in a rule profile for drawings that rely on it.",
+    examples: {
+      good: { frame: "⏥|0.05", featureType: "surface", note: "Flatness of a surface applies regardless of size" },
+      bad: { frame: "⏥|0.05Ⓜ", featureType: "surface", note: "A surface has no size for Ⓜ to act on" }
+    },
     applies: (fcf) => formCharacteristics.includes(fcf.characteristic),
     evaluate: (fcf) => {
       const issues: ValidationIssue[] = [];
       if (usesMMCOrLMC(fcf.tolerance.materialCondition)) {
         issues.push(
-          issue("E001", "tolerance.materialCondition", "error", {
-            characteristic: fcf.characteristic,
-            suggestion: "Remove material condition modifier; form tolerances apply RFS"
-          })
+          issue(
+            "E001",
+            "tolerance.materialCondition",
+            "error",
+            {
+              characteristic: fcf.characteristic,
+              suggestion: "Remove material condition modifier; form tolerances apply RFS"
+            },
+            removeFix(`Remove ${fcf.tolerance.materialCondition}`, "/tolerance/materialCondition")
+          )
         );
       }
       (fcf.datums ?? []).forEach((d, i) => {
         if (usesMMCOrLMC(d.materialCondition)) {
-          issues.push(issue("E001", `datums[${i}].materialCondition`, "error"));
+          issues.push(
+            issue(
+              "E001",
+              `datums[${i}].materialCondition`,
+              "error",
+              undefined,
+              removeFix(`Remove ${d.materialCondition} from datum ${d.id}`, `/datums/${i}/materialCondition`)
+            )
+          );
         }
       });
       return issues;
@@ -192,16 +421,29 @@ const rules: Rule[] = [
     category: "material-condition",
     description: "Material condition (MMC/LMC) requires a feature of size",
     severity: "error",
+    references: [asmeModifierApplicability, iso2692],
+    rationale:
+      "Ⓜ and Ⓛ tie the tolerance to the actual size of a feature of size. A surface, plane or edge has no actual mating size, so there is no departure from MMC to produce bonus tolerance.",
+    examples: {
+      good: { frame: "⊕|⌀0.2Ⓜ|A|B|C", featureType: "hole", note: "A hole is a feature of size" },
+      bad: { frame: "⌓|0.5Ⓜ|A|B", featureType: "surface", note: "A profiled surface has no size" }
+    },
     applies: (fcf) => usesMaterialCondition(fcf),
     evaluate: (fcf) => {
       if (isFeatureOfSize(fcf.featureType)) return [];
       const issues: ValidationIssue[] = [];
       if (usesMMCOrLMC(fcf.tolerance.materialCondition)) {
         issues.push(
-          issue("E007", "tolerance.materialCondition", "error", {
-            featureType: fcf.featureType,
-            suggestion: "Set featureType to hole, slot, pin, or boss for MMC/LMC"
-          })
+          issue(
+            "E007",
+            "tolerance.materialCondition",
+            "error",
+            {
+              featureType: fcf.featureType,
+              suggestion: "Set featureType to hole, slot, pin, or boss for MMC/LMC"
+            },
+            removeFix(`Remove ${fcf.tolerance.materialCondition}`, "/tolerance/materialCondition")
+          )
         );
       }
       return issues;
@@ -212,24 +454,47 @@ const rules: Rule[] = [
     category: "material-condition",
     description: "Material condition on datum requires datum feature of size",
     severity: "error",
+    references: [asmeDatumFeaturesOfSize, asmeModifierApplicability, iso5459, iso2692],
+    rationale:
+      "A datum referenced at MMB or LMB sizes its datum feature simulator from the datum feature's own size and geometric controls, which only exist when the datum feature is a feature of size. The datum is checked against the project's datum catalog; a letter that is not catalogued is reported as a warning to confirm against the drawing.",
+    examples: {
+      good: { frame: "⊕|⌀0.2Ⓜ|A|B|C", featureType: "hole", note: "Datums referenced regardless of material boundary" },
+      bad: { frame: "⊕|⌀0.2Ⓜ|A|BⓂ", featureType: "hole", note: "Datum B at MMB must be a feature of size" }
+    },
     applies: (fcf) => (fcf.datums ?? []).some((d) => usesMMCOrLMC(d.materialCondition)),
-    evaluate: (fcf) => {
-      // This rule flags when datum has MC but we can't verify datum is FOS
-      // In practice, the drawing would need to confirm datum is a feature of size
+    evaluate: (fcf, { datumCatalog }) => {
       const issues: ValidationIssue[] = [];
       (fcf.datums ?? []).forEach((d, i) => {
-        if (usesMMCOrLMC(d.materialCondition)) {
-          // Warning: we can't fully verify datum is FOS without external data
-          // This is informational - actual validation depends on datum definition
+        if (!usesMMCOrLMC(d.materialCondition)) return;
+        const path = `datums[${i}].materialCondition`;
+        const features = datumReferenceLetters(d.id).map((letter) => findDatumFeature(datumCatalog, letter));
+
+        // Without a catalog entry the frame alone cannot show what the datum feature is
+        if (features.some((feature) => feature === undefined)) {
           issues.push(
-            issue("E003", `datums[${i}].materialCondition`, "warning" as Severity, {
-              suggestion: `Verify datum ${d.id} is a feature of size to use ${d.materialCondition}`
+            issue("E003", path, "warning", {
+              suggestion: `Add datum ${d.id} to the project's datum catalog, or verify it is a feature of size to use ${d.materialCondition}`
             })
           );
+          return;
+        }
+
+        const notOfSize = features.find((feature) => feature && !isDatumFeatureOfSize(feature));
+        if (notOfSize) {
+          issues.push(
+            issue(
+              "E003",
+              path,
+              "error",
+              {
+                suggestion: `Datum ${notOfSize.id} is a ${DATUM_FEATURE_TYPE_LABELS[notOfSize.type].toLowerCase()}, not a feature of size; reference it without a material boundary modifier`
+              },
+              removeFix(`Reference datum ${d.id} regardless of material boundary`, `/datums/${i}/materialCondition`)
+            )
+          );
         }
       });
-      // Downgrade to warning since we can't fully validate
-      return issues.map((i) => ({ ...i, severity: "warning" as Severity }));
+      return issues;
     }
   },
 
@@ -241,14 +506,27 @@ const rules: Rule[] = [
     category: "datum-requirements",
     description: "Form tolerances cannot reference datums",
     severity: "error",
+    references: [asmeSpecifyingForm, iso1101],
+    rationale:
+      "A form tolerance compares a feature with a perfect counterpart of itself. It has no orientation or location relationship to anything else, so a datum reference has nothing to control.",
+    examples: {
+      good: { frame: "⏥|0.05", featureType: "surface", note: "Form is controlled without datums" },
+      bad: { frame: "⏥|0.05|A", featureType: "surface", note: "Flatness cannot be related to datum A; use parallelism" }
+    },
     applies: (fcf) => formCharacteristics.includes(fcf.characteristic),
     evaluate: (fcf) =>
       fcf.datums && fcf.datums.length > 0
         ? [
-            issue("E002", "datums", "error", {
-              characteristic: fcf.characteristic,
-              suggestion: "Remove datum references; form tolerances are datum-independent"
-            })
+            issue(
+              "E002",
+              "datums",
+              "error",
+              {
+                characteristic: fcf.characteristic,
+                suggestion: "Remove datum references; form tolerances are datum-independent"
+              },
+              removeFix("Remove datum references", "/datums")
+            )
           ]
         : []
   },
@@ -257,6 +535,13 @@ const rules: Rule[] = [
     category: "datum-requirements",
     description: "Orientation/location/runout tolerances require datum reference",
     severity: "error",
+    references: [asmeSpecifyingOrientation, asmePositionalTolerancing, asmeRunout, iso1101],
+    rationale:
+      "Orientation, location and runout zones are oriented or located from a datum reference frame, and runout is measured about a datum axis. Without datums these tolerances have no reference to be measured from.",
+    examples: {
+      good: { frame: "⊥|0.1|A", featureType: "plane", note: "Perpendicular to datum A" },
+      bad: { frame: "⊥|0.1", featureType: "plane", note: "Perpendicular to nothing" }
+    },
     applies: (fcf) =>
       orientationCharacteristics.includes(fcf.characteristic) ||
       locationCharacteristics.includes(fcf.characteristic) ||
@@ -278,6 +563,13 @@ const rules: Rule[] = [
     category: "datum-requirements",
     description: "Datum reference frame cannot have duplicate datum letters",
     severity: "error",
+    references: [asmeDatumPrecedence, iso5459],
+    rationale:
+      "Each datum letter constrains degrees of freedom once, in order of precedence. Repeating a letter adds no constraint and leaves the intended precedence ambiguous.",
+    examples: {
+      good: { frame: "⊕|⌀0.2Ⓜ|A|B|C", featureType: "hole", note: "Three distinct datums" },
+      bad: { frame: "⊕|⌀0.2Ⓜ|A|B|A", featureType: "hole", note: "A is referenced twice" }
+    },
     applies: (fcf) => (fcf.datums ?? []).length > 1,
     evaluate: (fcf) => {
       const datums = fcf.datums ?? [];
@@ -290,9 +582,15 @@ const rules: Rule[] = [
         seen.add(d.id);
       });
       return duplicates.map((i) =>
-        issue("E017", `datums[${i}]`, "error", {
-          suggestion: `Datum ${datums[i].id} appears multiple times; each datum should be unique`
-        })
+        issue(
+          "E017",
+          `datums[${i}]`,
+          "error",
+          {
+            suggestion: `Datum ${datums[i].id} appears multiple times; each datum should be unique`
+          },
+          removeFix(`Remove duplicate datum ${datums[i].id}`, `/datums/${i}`)
+        )
       );
     }
   },
@@ -301,13 +599,113 @@ const rules: Rule[] = [
     category: "datum-requirements",
     description: "Standard datum reference frame limited to 3 datums",
     severity: "warning",
-    applies: (fcf) => (fcf.datums ?? []).length > 3,
-    evaluate: (fcf) => [
+    references: [asmeDegreesOfFreedom, asmeDatumPrecedence, iso5459],
+    rationale:
+      "Primary, secondary and tertiary datums are enough to constrain all six degrees of freedom of a rigid part. Further references usually signal a misunderstanding of datum precedence. The limit can be changed in a rule profile.",
+    examples: {
+      good: { frame: "⊕|⌀0.2Ⓜ|A|B|C", featureType: "hole", note: "Primary, secondary and tertiary datums" },
+      bad: { frame: "⊕|⌀0.2Ⓜ|A|B|C|D", featureType: "hole", note: "Datum D has no degrees of freedom left to constrain" }
+    },
+    applies: (fcf, { thresholds }) => (fcf.datums ?? []).length > thresholds.maxDatumReferences,
+    evaluate: (fcf, { thresholds }) => [
       issue("E019", "datums", "warning", {
-        suggestion: "Consider if all datum references are necessary; typically max 3 (primary, secondary, tertiary)"
+        suggestion:
+          thresholds.maxDatumReferences === 3
+            ? "Consider if all datum references are necessary; typically max 3 (primary, secondary, tertiary)"
+            : `Consider if all datum references are necessary; the rule profile allows at most ${thresholds.maxDatumReferences}`
       })
     ]
   },
+  {
+    code: "E015",
+    category: "datum-requirements",
+    description: "Runout datums must establish a datum axis",
+    severity: "error",
+    references: [asmeRunoutDatumAxis, iso1101],
+    rationale:
+      "Runout is measured while the part rotates about a datum axis established by one datum feature, two coaxial features (A-B) or a face and a diameter. The simulator contacts the datum features, so the axis is established regardless of material boundary.",
+    examples: {
+      good: { frame: "↗|0.05|A", featureType: "pin", note: "Rotated about datum axis A" },
+      bad: { frame: "↗|0.05|AⓂ", featureType: "pin", note: "The datum axis cannot float at MMB" }
+    },
+    applies: (fcf) => runoutCharacteristics.includes(fcf.characteristic) && (fcf.datums ?? []).length > 0,
+    evaluate: (fcf) => {
+      const datums = fcf.datums ?? [];
+      const issues: ValidationIssue[] = [];
+      // Axis comes from one datum feature, two coaxial features, or a face plus a diameter
+      if (datums.length > 2) {
+        issues.push(
+          issue("E015", "datums", "error", {
+            characteristic: fcf.characteristic,
+            suggestion: "Runout datum axis is established by one or two datum features (e.g., A, A-B, or A|B)"
+          })
+        );
+      }
+      datums.forEach((d, i) => {
+        if (usesMMCOrLMC(d.materialCondition)) {
+          issues.push(
+            issue(
+              "E015",
+              `datums[${i}].materialCondition`,
+              "error",
+              {
+                characteristic: fcf.characteristic,
+                suggestion: `Remove ${d.materialCondition} from datum ${d.id}; the runout datum axis is established RMB`
+              },
+              removeFix(`Remove ${d.materialCondition} from datum ${d.id}`, `/datums/${i}/materialCondition`)
+            )
+          );
+        }
+      });
+      return issues;
+    }
+  },
+  {
+    code: "E018",
+    category: "datum-requirements",
+    description: "Lower composite segments must repeat upper datums in the same order",
+    severity: "error",
+    references: [asmeCompositePosition],
+    rationale:
+      "The lower segment of a composite frame refines orientation to the datums of the upper segment. Its datums must repeat the upper datums in the same order of precedence, or they describe a different datum reference frame.",
+    examples: {
+      good: { frame: "4X ⊕|⌀0.5Ⓜ|A|B|C\n|⌀0.1Ⓜ|A|B", featureType: "hole", note: "Lower datums repeat A then B" },
+      bad: { frame: "4X ⊕|⌀0.5Ⓜ|A|B|C\n|⌀0.1Ⓜ|B|A", featureType: "hole", note: "Lower datums reverse the precedence" }
+    },
+    applies: (fcf) =>
+      fcf.composite !== undefined &&
+      fcf.composite.type === "composite" &&
+      fcf.composite.segments.length >= 2,
+    evaluate: (fcf) => {
+      if (!fcf.composite) return [];
+      const segments = fcf.composite.segments;
+      const upper = segments[0].datums ?? [];
+      const issues: ValidationIssue[] = [];
+      for (let i = 1; i < segments.length; i++) {
+        // Primary datum is covered by E022; extra datums are covered by E023
+        (segments[i].datums ?? []).forEach((d, j) => {
+          if (j === 0 || j >= upper.length) return;
+          if (d.id !== upper[j].id) {
+            issues.push(
+              issue(
+                "E018",
+                `composite.segments[${i}].datums[${j}]`,
+                "error",
+                {
+                  suggestion: `Datum ${d.id} is out of order; position ${j + 1} must reference ${upper[j].id} as in the upper segment`
+                },
+                {
+                  description: `Use datum ${upper[j].id}`,
+                  operations: [{ op: "replace", path: `/composite/segments/${i}/datums/${j}/id`, value: upper[j].id }]
+                }
+              )
+            );
+          }
+        });
+      }
+      return issues;
+    }
+  },
 
   // ---------------------------------------------------------------------------
   // CATEGORY: Composite & Segment Configuration
@@ -317,14 +715,27 @@ const rules: Rule[] = [
     category: "composite-configuration",
     description: "Composite frames only valid for position characteristic",
     severity: "error",
+    references: [asmeCompositePosition, asmeCompositeProfile],
+    rationale:
+      "A composite frame lets a lower segment refine the relationship between features without relocating them. DatumPilot models composite position; Y14.5 also defines composite profile, which is not yet supported, so use stacked single-segment frames for other characteristics.",
+    examples: {
+      good: { frame: "4X ⊕|⌀0.5Ⓜ|A|B|C\n|⌀0.1Ⓜ|A", featureType: "hole", note: "Composite position of a pattern" },
+      bad: { frame: "⊥|0.2|A\n|0.1|A", featureType: "plane", note: "Composite perpendicularity is not defined" }
+    },
     applies: (fcf) => fcf.composite !== undefined,
     evaluate: (fcf) =>
       fcf.characteristic !== "position"
         ? [
-            issue("E009", "composite", "error", {
-              characteristic: fcf.characteristic,
-              suggestion: "Composite tolerancing is specific to position; use single frame for other characteristics"
-            })
+            issue(
+              "E009",
+              "composite",
+              "error",
+              {
+                characteristic: fcf.characteristic,
+                suggestion: "Composite tolerancing is specific to position; use single frame for other characteristics"
+              },
+              removeFix("Use a single-segment frame", "/composite")
+            )
           ]
         : []
   },
@@ -333,6 +744,28 @@ const rules: Rule[] = [
     category: "composite-configuration",
     description: "Composite configuration requires at least 2 segments",
     severity: "error",
+    references: [asmeCompositePosition, asmeMultipleSingleSegments],
+    rationale:
+      "A composite or multiple single-segment frame states two requirements on the same feature. With only one segment it is an ordinary frame and should be written as one.",
+    examples: {
+      good: { frame: "4X ⊕|⌀0.5Ⓜ|A|B|C\n|⌀0.1Ⓜ|A", featureType: "hole", note: "Locating and relating segments" },
+      bad: {
+        frame: "4X ⊕|⌀0.5Ⓜ|A|B|C",
+        featureType: "hole",
+        fields: {
+          composite: {
+            type: "composite",
+            segments: [
+              {
+                tolerance: { value: 0.5, diameter: true, materialCondition: "MMC" },
+                datums: [{ id: "A" }, { id: "B" }, { id: "C" }]
+              }
+            ]
+          }
+        },
+        note: "A composite structure holding only the upper segment"
+      }
+    },
     applies: (fcf) => fcf.composite !== undefined,
     evaluate: (fcf) =>
       fcf.composite && fcf.composite.segments.length < 2
@@ -348,6 +781,13 @@ const rules: Rule[] = [
     category: "composite-configuration",
     description: "Lower composite segment tolerance must be tighter than upper",
     severity: "error",
+    references: [asmeCompositePosition],
+    rationale:
+      "The lower segment's zones float within the zones of the upper segment, so the lower tolerance must be smaller to refine anything.",
+    examples: {
+      good: { frame: "4X ⊕|⌀0.5Ⓜ|A|B|C\n|⌀0.1Ⓜ|A", featureType: "hole", note: "Tighter feature-relating tolerance" },
+      bad: { frame: "4X ⊕|⌀0.1Ⓜ|A|B|C\n|⌀0.5Ⓜ|A", featureType: "hole", note: "The lower zone is larger than the pattern-locating zone" }
+    },
     applies: (fcf) => fcf.composite !== undefined && fcf.composite.segments.length >= 2,
     evaluate: (fcf) => {
       if (!fcf.composite || fcf.composite.segments.length < 2) return [];
@@ -371,6 +811,13 @@ const rules: Rule[] = [
     category: "composite-configuration",
     description: "Composite segments must share the primary datum",
     severity: "error",
+    references: [asmeCompositePosition],
+    rationale:
+      "The feature-relating zone framework is oriented to the same primary datum as the pattern-locating framework. A different primary datum makes the two segments unrelated requirements.",
+    examples: {
+      good: { frame: "4X ⊕|⌀0.5Ⓜ|A|B|C\n|⌀0.1Ⓜ|A", featureType: "hole", note: "Both segments use primary datum A" },
+      bad: { frame: "4X ⊕|⌀0.5Ⓜ|A|B|C\n|⌀0.1Ⓜ|B", featureType: "hole", note: "The lower segment switches to primary datum B" }
+    },
     applies: (fcf) =>
       fcf.composite !== undefined &&
       fcf.composite.type === "composite" &&
@@ -386,9 +833,18 @@ const rules: Rule[] = [
         const segPrimary = segments[i].datums?.[0]?.id;
         if (segPrimary && segPrimary !== firstPrimary) {
           issues.push(
-            issue("E022", `composite.segments[${i}].datums[0]`, "error", {
-              suggestion: `Primary datum must be ${firstPrimary} to match upper segment`
-            })
+            issue(
+              "E022",
+              `composite.segments[${i}].datums[0]`,
+              "error",
+              {
+                suggestion: `Primary datum must be ${firstPrimary} to match upper segment`
+              },
+              {
+                description: `Use ${firstPrimary} as primary datum`,
+                operations: [{ op: "replace", path: `/composite/segments/${i}/datums/0/id`, value: firstPrimary }]
+              }
+            )
           );
         }
       }
@@ -400,6 +856,13 @@ const rules: Rule[] = [
     category: "composite-configuration",
     description: "Lower composite segment cannot have more datums than upper",
     severity: "error",
+    references: [asmeCompositePosition],
+    rationale:
+      "Lower segments refine the upper segment, so they reference a subset of its datums. A datum that only appears in the lower segment would constrain the pattern more tightly than the segment that locates it.",
+    examples: {
+      good: { frame: "4X ⊕|⌀0.5Ⓜ|A|B|C\n|⌀0.1Ⓜ|A|B", featureType: "hole", note: "Lower datums are a subset" },
+      bad: { frame: "4X ⊕|⌀0.5Ⓜ|A|B\n|⌀0.1Ⓜ|A|B|C", featureType: "hole", note: "Datum C only appears in the lower segment" }
+    },
     applies: (fcf) => fcf.composite !== undefined && fcf.composite.segments.length >= 2,
     evaluate: (fcf) => {
       if (!fcf.composite || fcf.composite.segments.length < 2) return [];
@@ -409,9 +872,67 @@ const rules: Rule[] = [
         const lowerCount = fcf.composite.segments[i].datums?.length ?? 0;
         if (lowerCount > upperCount) {
           issues.push(
-            issue("E023", `composite.segments[${i}].datums`, "error", {
-              suggestion: `Lower segment has ${lowerCount} datums but upper has ${upperCount}; lower cannot exceed upper`
-            })
+            issue(
+              "E023",
+              `composite.segments[${i}].datums`,
+              "error",
+              {
+                suggestion: `Lower segment has ${lowerCount} datums but upper has ${upperCount}; lower cannot exceed upper`
+              },
+              {
+                description: `Keep first ${upperCount} datum${upperCount === 1 ? "" : "s"}`,
+                // Remove the extra datums one by one so fixes to the kept ones still apply
+                operations: Array.from({ length: lowerCount - upperCount }, (_, k) => ({
+                  op: "remove" as const,
+                  path: `/composite/segments/${i}/datums/${upperCount + k}`
+                }))
+              }
+            )
+          );
+        }
+      }
+      return issues;
+    }
+  },
+  {
+    code: "E024",
+    category: "composite-configuration",
+    description: "Multiple single segments must share a consistent primary datum",
+    severity: "error",
+    references: [asmeMultipleSingleSegments],
+    rationale:
+      "Stacked single-segment frames are independent requirements. Sharing the primary datum keeps them in the same orientation so the tighter segment reads as a refinement.",
+    examples: {
+      good: { frame: "4X ⊕|⌀0.5Ⓜ|A|B|C\n⊕|⌀0.1Ⓜ|A|B", featureType: "hole", note: "Both frames use primary datum A" },
+      bad: { frame: "4X ⊕|⌀0.5Ⓜ|A|B|C\n⊕|⌀0.1Ⓜ|B|C", featureType: "hole", note: "The second frame uses primary datum B" }
+    },
+    applies: (fcf) =>
+      fcf.composite !== undefined &&
+      fcf.composite.type === "multipleSingleSegments" &&
+      fcf.composite.segments.length >= 2,
+    evaluate: (fcf) => {
+      if (!fcf.composite) return [];
+      const segments = fcf.composite.segments;
+      const firstPrimary = segments[0].datums?.[0]?.id;
+      if (!firstPrimary) return [];
+
+      const issues: ValidationIssue[] = [];
+      for (let i = 1; i < segments.length; i++) {
+        const segPrimary = segments[i].datums?.[0]?.id;
+        if (segPrimary && segPrimary !== firstPrimary) {
+          issues.push(
+            issue(
+              "E024",
+              `composite.segments[${i}].datums[0]`,
+              "error",
+              {
+                suggestion: `Primary datum must be ${firstPrimary} to match the first segment`
+              },
+              {
+                description: `Use ${firstPrimary} as primary datum`,
+                operations: [{ op: "replace", path: `/composite/segments/${i}/datums/0/id`, value: firstPrimary }]
+              }
+            )
           );
         }
       }
@@ -427,6 +948,13 @@ const rules: Rule[] = [
     category: "tolerance-zone",
     description: "Tolerance value must be non-negative (zero allowed with MMC for bonus tolerance)",
     severity: "error",
+    references: [asmeZeroToleranceAtMmc, iso1101],
+    rationale:
+      "A tolerance is the size of a zone and cannot be negative. Zero is allowed at MMC or LMC, where the whole tolerance comes from the feature's departure from its material condition.",
+    examples: {
+      good: { frame: "⊕|⌀0Ⓜ|A|B|C", featureType: "hole", note: "Zero at MMC takes all tolerance from the hole's size" },
+      bad: { frame: "⊕|⌀-0.2Ⓜ|A|B|C", featureType: "hole", note: "A negative zone" }
+    },
     applies: () => true,
     evaluate: (fcf) => {
       const issues: ValidationIssue[] = [];
@@ -452,6 +980,13 @@ const rules: Rule[] = [
     category: "tolerance-zone",
     description: "Projected zone height must be positive",
     severity: "error",
+    references: [asmeProjectedZone, iso1101],
+    rationale:
+      "A projected zone extends the tolerance zone beyond the part by the stated height so the zone covers the mating fastener. A zero or negative height projects nothing.",
+    examples: {
+      good: { frame: "⊕|⌀0.2ⓂⓅ15|A|B|C", featureType: "hole", note: "Zone projected 15 mm above the hole" },
+      bad: { frame: "⊕|⌀0.2ⓂⓅ0|A|B|C", featureType: "hole", note: "No projection height" }
+    },
     applies: (fcf) => fcf.projectedZone !== undefined,
     evaluate: (fcf) =>
       fcf.projectedZone && fcf.projectedZone.height <= 0
@@ -467,13 +1002,36 @@ const rules: Rule[] = [
     category: "tolerance-zone",
     description: "Projected zone requires PROJECTED_TOLERANCE_ZONE modifier",
     severity: "error",
+    references: [asmeSymbolConstruction, asmeProjectedZone],
+    rationale:
+      "The projection height applies only when the frame shows Ⓟ. Without the symbol the zone stays within the feature and the height is ignored.",
+    examples: {
+      good: { frame: "⊕|⌀0.2ⓂⓅ15|A|B|C", featureType: "hole", note: "Ⓟ shows the 15 mm projection" },
+      bad: {
+        frame: "⊕|⌀0.2Ⓜ|A|B|C",
+        featureType: "hole",
+        fields: { projectedZone: { height: 15 } },
+        note: "A projection height on a frame without Ⓟ"
+      }
+    },
     applies: (fcf) => fcf.projectedZone !== undefined,
     evaluate: (fcf) =>
-      !(fcf.modifiers ?? []).includes("PROJECTED_TOLERANCE_ZONE")
+      !usesModifier(fcf, "PROJECTED_TOLERANCE_ZONE")
         ? [
-            issue("E008", "modifiers", "error", {
-              suggestion: "Add PROJECTED_TOLERANCE_ZONE to modifiers when using projectedZone"
-            })
+            issue(
+              "E008",
+              "modifiers",
+              "error",
+              {
+                suggestion: "Add PROJECTED_TOLERANCE_ZONE to modifiers when using projectedZone"
+              },
+              {
+                description: "Add projected zone modifier",
+                operations: [
+                  { op: "replace", path: "/modifiers", value: [...(fcf.modifiers ?? []), "PROJECTED_TOLERANCE_ZONE"] }
+                ]
+              }
+            )
           ]
         : []
   },
@@ -482,6 +1040,13 @@ const rules: Rule[] = [
     category: "tolerance-zone",
     description: "Cylindrical zone only valid for axis/center features",
     severity: "error",
+    references: [asmeSymbolConstruction, asmePositionalTolerancing, iso1101],
+    rationale:
+      "⌀ before the tolerance makes the zone a cylinder around a derived axis. Surfaces, planes and edges have no axis, so their zones are bounded by parallel planes or lines.",
+    examples: {
+      good: { frame: "⊥|0.1|A", featureType: "plane", note: "Two parallel planes" },
+      bad: { frame: "⊥|⌀0.1|A", featureType: "plane", note: "A plane has no axis to contain in a cylinder" }
+    },
     applies: (fcf) => fcf.tolerance.diameter === true || fcf.tolerance.zoneShape === "cylindrical",
     evaluate: (fcf) => {
       // Cylindrical zone is valid for holes, pins, bosses (axis features)
@@ -489,9 +1054,54 @@ const rules: Rule[] = [
       const invalidForCylindrical: FeatureType[] = ["surface", "plane", "edge"];
       if (fcf.featureType && invalidForCylindrical.includes(fcf.featureType)) {
         return [
-          issue("E032", "tolerance.diameter", "error", {
+          issue(
+            "E032",
+            "tolerance.diameter",
+            "error",
+            {
+              featureType: fcf.featureType,
+              suggestion: `${fcf.featureType} cannot use cylindrical tolerance zone; use planar zone`
+            },
+            {
+              description: "Use planar zone",
+              operations: [
+                { op: "remove", path: "/tolerance/diameter" },
+                { op: "replace", path: "/tolerance/zoneShape", value: "twoParallelPlanes" }
+              ]
+            }
+          )
+        ];
+      }
+      return [];
+    }
+  },
+  {
+    code: "E033",
+    category: "tolerance-zone",
+    description: "Spherical zone only valid for position of spherical features",
+    severity: "error",
+    references: [asmeSymbolConstruction, asmeSphericalZone],
+    rationale:
+      "S⌀ denotes a spherical zone around a center point, which only the position of a spherical feature has.",
+    examples: {
+      good: { frame: "⊕|S⌀0.3|A|B|C", featureType: "boss", note: "Position of a spherical boss" },
+      bad: { frame: "⊕|S⌀0.3|A|B|C", featureType: "slot", note: "A slot has no center point" }
+    },
+    applies: (fcf) => fcf.tolerance.zoneShape === "spherical",
+    evaluate: (fcf) => {
+      if (fcf.characteristic !== "position") {
+        return [
+          issue("E033", "tolerance.zoneShape", "error", {
+            characteristic: fcf.characteristic,
+            suggestion: "Spherical zones apply to position only; use a cylindrical or planar zone"
+          })
+        ];
+      }
+      if (fcf.featureType && nonSphericalFeatureTypes.includes(fcf.featureType)) {
+        return [
+          issue("E033", "tolerance.zoneShape", "error", {
             featureType: fcf.featureType,
-            suggestion: `${fcf.featureType} cannot use cylindrical tolerance zone; use planar zone`
+            suggestion: `A ${fcf.featureType} is not a spherical feature; use a cylindrical or planar zone`
           })
         ];
       }
@@ -507,13 +1117,26 @@ const rules: Rule[] = [
     category: "feature-type",
     description: "Surface features cannot use cylindrical tolerance zone",
     severity: "error",
+    references: [asmeSymbolConstruction, iso1101],
+    rationale:
+      "A surface is an integral feature with no axis; a cylindrical zone cannot contain it.",
+    examples: {
+      good: { frame: "⌓|0.5|A|B", featureType: "surface", note: "Uniform zone about the true profile" },
+      bad: { frame: "⌓|⌀0.5|A|B", featureType: "surface", note: "Cylindrical zone on a surface" }
+    },
     applies: (fcf) => fcf.featureType === "surface",
     evaluate: (fcf) =>
       fcf.tolerance.diameter === true
         ? [
-            issue("E041", "tolerance.diameter", "error", {
-              suggestion: "Remove diameter modifier; surfaces use planar zones"
-            })
+            issue(
+              "E041",
+              "tolerance.diameter",
+              "error",
+              {
+                suggestion: "Remove diameter modifier; surfaces use planar zones"
+              },
+              removeFix("Remove diameter symbol", "/tolerance/diameter")
+            )
           ]
         : []
   },
@@ -522,12 +1145,49 @@ const rules: Rule[] = [
     category: "feature-type",
     description: "Plane features cannot use material condition modifiers",
     severity: "error",
+    references: [asmeModifierApplicability, iso2692],
+    rationale:
+      "A plane has no size, so Ⓜ or Ⓛ has no boundary to refer to and cannot produce bonus tolerance.",
+    examples: {
+      good: { frame: "⊥|0.1|A", featureType: "plane", note: "Applies regardless of size" },
+      bad: { frame: "⊥|0.1Ⓜ|A", featureType: "plane", note: "Ⓜ on a plane" }
+    },
     applies: (fcf) => fcf.featureType === "plane",
     evaluate: (fcf) =>
       usesMMCOrLMC(fcf.tolerance.materialCondition)
         ? [
-            issue("E042", "tolerance.materialCondition", "error", {
-              suggestion: "Remove material condition; planes are not features of size"
+            issue(
+              "E042",
+              "tolerance.materialCondition",
+              "error",
+              {
+                suggestion: "Remove material condition; planes are not features of size"
+              },
+              removeFix(`Remove ${fcf.tolerance.materialCondition}`, "/tolerance/materialCondition")
+            )
+          ]
+        : []
+  },
+  {
+    code: "E043",
+    category: "feature-type",
+    description: "Edge features only support line-element controls",
+    severity: "error",
+    references: [asmeSpecifyingForm, asmeProfile, iso1101],
+    rationale:
+      "An edge is a line element. Controls that need an area or a derived axis, such as flatness or cylindricity, have no meaning on it.",
+    examples: {
+      good: { frame: "⎯|0.05", featureType: "edge", note: "Straightness of a line element" },
+      bad: { frame: "⏥|0.05", featureType: "edge", note: "An edge has no area to be flat" }
+    },
+    applies: (fcf) => fcf.featureType === "edge",
+    evaluate: (fcf) =>
+      edgeIncompatibleCharacteristics.includes(fcf.characteristic)
+        ? [
+            issue("E043", "characteristic", "error", {
+              characteristic: fcf.characteristic,
+              featureType: fcf.featureType,
+              suggestion: "Edges are line elements; use straightness, profile of a line, or an orientation control"
             })
           ]
         : []
@@ -541,6 +1201,18 @@ const rules: Rule[] = [
     category: "modifier-compatibility",
     description: "Frame modifiers must be recognized",
     severity: "error",
+    references: [asmeSymbolConstruction],
+    rationale:
+      "Only modifiers defined by the standard can be interpreted. Unknown modifiers usually come from imported or hand-edited JSON.",
+    examples: {
+      good: { frame: "⊕|⌀0.2ⓂⓅ15|A|B|C", featureType: "hole", note: "Ⓟ is a standard modifier" },
+      bad: {
+        frame: "⊕|⌀0.2Ⓜ|A|B|C",
+        featureType: "hole",
+        fields: { modifiers: ["PROJECTED"] },
+        note: "PROJECTED is not a modifier name; use PROJECTED_TOLERANCE_ZONE"
+      }
+    },
     applies: (fcf) => (fcf.modifiers ?? []).length > 0,
     evaluate: (fcf) => {
       const parse = frameModifierSchema.array().safeParse(fcf.modifiers);
@@ -554,6 +1226,408 @@ const rules: Rule[] = [
     }
   },
 
+  {
+    code: "E010",
+    category: "modifier-compatibility",
+    description: "FREE_STATE applies only to non-rigid parts",
+    severity: "error",
+    references: [asmeFreeStateSymbol, iso10579],
+    rationale:
+      "Ⓕ states that a tolerance applies with the part unrestrained. It only has meaning for non-rigid parts whose other requirements are checked restrained, and the drawing must state that restraint in a note.",
+    examples: {
+      good: {
+        frame: "⏥|0.5Ⓕ",
+        featureType: "surface",
+        fields: { notes: ["Unless noted Ⓕ, inspect restrained against datum A with 20 N per clamp"] },
+        note: "The drawing states the restrained condition"
+      },
+      bad: { frame: "⏥|0.5Ⓕ", featureType: "surface", note: "Free state with no restraint note" }
+    },
+    applies: (fcf) => usesModifier(fcf, "FREE_STATE"),
+    evaluate: (fcf) => {
+      // Rigidity cannot be verified from the frame alone; require the restraint note instead
+      if ((fcf.notes ?? []).some((note) => restraintNotePattern.test(note))) return [];
+      return [
+        issue("E010", "modifiers", "error", {
+          characteristic: fcf.characteristic,
+          suggestion:
+            "Confirm the part is non-rigid and add a note describing the restrained condition; otherwise remove FREE_STATE"
+        })
+      ];
+    }
+  },
+  {
+    code: "E035",
+    category: "modifier-compatibility",
+    description: "UNEQUALLY_DISPOSED requires a profile zone with a non-symmetric split",
+    severity: "error",
+    standards: asmeOnly,
+    references: [asmeUnequallyDisposed, iso1660],
+    rationale:
+      "Ⓤ states how much of a profile zone lies outside the true profile. It only applies to profile tolerances, and the outside amount must be stated for the zone to be defined.",
+    examples: {
+      good: { frame: "⌓|0.5Ⓤ0.2|A|B", featureType: "surface", note: "0.2 of the 0.5 zone lies outside the true profile" },
+      bad: { frame: "⊕|⌀0.5Ⓤ0.2|A|B|C", featureType: "hole", note: "Ⓤ is only defined for profile" }
+    },
+    applies: (fcf) => (fcf.modifiers ?? []).includes("UNEQUALLY_DISPOSED"),
+    evaluate: (fcf) => {
+      if (fcf.characteristic !== "profile") {
+        return [
+          issue("E035", "modifiers", "error", {
+            characteristic: fcf.characteristic,
+            suggestion: "UNEQUALLY_DISPOSED only applies to profile tolerances"
+          })
+        ];
+      }
+      const { value, outsideAmount } = fcf.tolerance;
+      if (outsideAmount === undefined) {
+        return [
+          issue("E035", "tolerance.outsideAmount", "error", {
+            suggestion: "Specify the amount of the zone that lies outside the true profile"
+          })
+        ];
+      }
+      if (outsideAmount < 0 || outsideAmount > value) {
+        return [
+          issue("E035", "tolerance.outsideAmount", "error", {
+            suggestion: `Outside amount must be between 0 and the total tolerance (${value})`
+          })
+        ];
+      }
+      if (outsideAmount * 2 === value) {
+        return [
+          issue(
+            "E035",
+            "tolerance.outsideAmount",
+            "error",
+            {
+              suggestion: "Zone is equally disposed; remove UNEQUALLY_DISPOSED and use a bilateral profile"
+            },
+            {
+              description: "Use bilateral profile",
+              operations: [
+                {
+                  op: "replace",
+                  path: "/modifiers",
+                  value: (fcf.modifiers ?? []).filter((m) => m !== "UNEQUALLY_DISPOSED")
+                },
+                { op: "remove", path: "/tolerance/outsideAmount" }
+              ]
+            }
+          )
+        ];
+      }
+      return [];
+    }
+  },
+
+  // ---------------------------------------------------------------------------
+  // CATEGORY: ISO GPS Notation (ISO 1101 / ISO 5458 / ISO 8015)
+  // ---------------------------------------------------------------------------
+  {
+    code: "I001",
+    category: "modifier-compatibility",
+    description: "ISO-only indications are not defined in ASME Y14.5",
+    severity: "error",
+    standards: asmeOnly,
+    references: [iso1101, iso5458, iso14405],
+    rationale:
+      "CZ, SZ, UZ, ACS, LE, NC and Ⓔ are ISO GPS indications. Y14.5 either has no symbol for them or states the requirement in a note, so an ASME drawing carrying them cannot be interpreted under Y14.5.",
+    examples: {
+      good: { frame: "4X ⊕|⌀0.2|A|B|C", featureType: "hole", standard: "ASME_Y14_5_2018", note: "ASME patterns are simultaneous by default" },
+      bad: { frame: "4X ⊕|⌀0.2 CZ|A|B|C", featureType: "hole", standard: "ASME_Y14_5_2018", note: "CZ is not an ASME symbol" }
+    },
+    applies: (fcf) =>
+      (fcf.isoModifiers ?? []).length > 0 ||
+      fcf.sizeDimension?.envelope === true ||
+      fcf.tolerance.zoneOffset !== undefined,
+    evaluate: (fcf) => {
+      const issues: ValidationIssue[] = [];
+      const isoModifiers = fcf.isoModifiers ?? [];
+      if (isoModifiers.length > 0) {
+        issues.push(
+          issue(
+            "I001",
+            "isoModifiers",
+            "error",
+            {
+              suggestion: `${isoModifiers.join(", ")} are ISO GPS indications; set the standard to ISO 1101 or remove them`
+            },
+            removeFix("Remove ISO indications", "/isoModifiers")
+          )
+        );
+      }
+      if (fcf.sizeDimension?.envelope) {
+        issues.push(
+          issue(
+            "I001",
+            "sizeDimension.envelope",
+            "error",
+            {
+              suggestion: "Rule #1 already applies the envelope principle in ASME Y14.5; remove the Ⓔ symbol"
+            },
+            removeFix("Remove envelope", "/sizeDimension/envelope")
+          )
+        );
+      }
+      const { value, zoneOffset } = fcf.tolerance;
+      if (zoneOffset !== undefined) {
+        // ASME states the outside portion of the zone; ISO states the offset of the zone mid-surface
+        issues.push(
+          issue(
+            "I001",
+            "tolerance.zoneOffset",
+            "error",
+            {
+              characteristic: fcf.characteristic,
+              suggestion: "Use UNEQUALLY_DISPOSED with an outside amount for an offset profile zone in ASME Y14.5"
+            },
+            {
+              description: "Convert to Ⓤ",
+              operations: [
+                { op: "remove", path: "/tolerance/zoneOffset" },
+                { op: "add", path: "/tolerance/outsideAmount", value: outsideAmountFromZoneOffset(value, zoneOffset) },
+                {
+                  op: "replace",
+                  path: "/modifiers",
+                  value: [...(fcf.modifiers ?? []).filter((m) => m !== "UNEQUALLY_DISPOSED"), "UNEQUALLY_DISPOSED"]
+                }
+              ]
+            }
+          )
+        );
+      }
+      return issues;
+    }
+  },
+  {
+    code: "I002",
+    category: "modifier-compatibility",
+    description: "CZ and SZ are mutually exclusive",
+    severity: "error",
+    standards: isoOnly,
+    references: [iso5458],
+    rationale:
+      "CZ combines the zones of a pattern into one requirement; SZ keeps them independent. Both on one frame contradict each other.",
+    examples: {
+      good: { frame: "4X ⊕|⌀0.2 CZ|A|B|C", featureType: "hole", note: "Combined zone" },
+      bad: { frame: "4X ⊕|⌀0.2 CZ SZ|A|B|C", featureType: "hole", note: "Combined and separate at once" }
+    },
+    applies: (fcf) => (fcf.isoModifiers ?? []).includes("CZ") && (fcf.isoModifiers ?? []).includes("SZ"),
+    evaluate: () => [
+      issue("I002", "isoModifiers", "error", {
+        suggestion: "Use CZ to lock the features in one zone pattern, or SZ for independent zones, not both"
+      })
+    ]
+  },
+  {
+    code: "I003",
+    category: "tolerance-zone",
+    description: "UZ requires a profile tolerance and an offset value",
+    severity: "error",
+    standards: isoOnly,
+    references: [iso1660, iso1101],
+    rationale:
+      "UZ shifts a profile zone off the true profile by a signed offset. It is defined only for line and surface profile, and without the offset the zone's location is unknown.",
+    examples: {
+      good: { frame: "⌓|0.4 UZ+0.1|A|B", featureType: "surface", note: "Zone offset 0.1 outside the true profile" },
+      bad: { frame: "⊕|⌀0.4 UZ+0.1|A|B|C", featureType: "hole", note: "UZ on a position tolerance" }
+    },
+    applies: (fcf) => (fcf.isoModifiers ?? []).includes("UZ") || fcf.tolerance.zoneOffset !== undefined,
+    evaluate: (fcf) => {
+      if (fcf.characteristic !== "profile") {
+        return [
+          issue("I003", "isoModifiers", "error", {
+            characteristic: fcf.characteristic,
+            suggestion: "The UZ offset zone only applies to profile tolerances"
+          })
+        ];
+      }
+      if (fcf.tolerance.zoneOffset === undefined) {
+        return [
+          issue("I003", "tolerance.zoneOffset", "error", {
+            suggestion: "State the offset of the zone from the true profile (e.g., UZ+0.1)"
+          })
+        ];
+      }
+      if (!(fcf.isoModifiers ?? []).includes("UZ")) {
+        return [
+          issue(
+            "I003",
+            "isoModifiers",
+            "error",
+            {
+              suggestion: "An offset value is only indicated together with UZ"
+            },
+            {
+              description: "Add UZ",
+              operations: [{ op: "replace", path: "/isoModifiers", value: [...(fcf.isoModifiers ?? []), "UZ"] }]
+            }
+          )
+        ];
+      }
+      return [];
+    }
+  },
+  {
+    code: "I004",
+    category: "modifier-compatibility",
+    description: "ASME-only notation must be translated for ISO 1101",
+    severity: "error",
+    standards: isoOnly,
+    references: [iso1101, iso1660, iso2692],
+    rationale:
+      "Ⓤ, explicit Ⓢ and composite frames are Y14.5 notation that ISO 1101 does not define. Use UZ for offset profile zones, omit Ⓢ because ISO tolerances apply regardless of size by default, and stack single-segment frames.",
+    examples: {
+      good: { frame: "⌓|0.4 UZ+0.1|A|B", featureType: "surface", note: "ISO offset zone" },
+      bad: { frame: "⌓|0.4Ⓤ0.3|A|B", featureType: "surface", standard: "ISO_1101", note: "Ⓤ is ASME notation" }
+    },
+    applies: (fcf) =>
+      usesModifier(fcf, "UNEQUALLY_DISPOSED") ||
+      fcf.tolerance.materialCondition === "RFS" ||
+      (fcf.datums ?? []).some((d) => d.materialCondition === "RFS") ||
+      fcf.composite?.type === "composite",
+    evaluate: (fcf) => {
+      const issues: ValidationIssue[] = [];
+      if (usesModifier(fcf, "UNEQUALLY_DISPOSED")) {
+        const { value, outsideAmount } = fcf.tolerance;
+        issues.push(
+          issue(
+            "I004",
+            "modifiers",
+            "error",
+            {
+              characteristic: fcf.characteristic,
+              suggestion: "ISO 1101 indicates an offset profile zone with UZ and the offset of the zone mid-surface"
+            },
+            outsideAmount !== undefined
+              ? {
+                  description: "Convert Ⓤ to UZ",
+                  operations: [
+                    {
+                      op: "replace",
+                      path: "/modifiers",
+                      value: (fcf.modifiers ?? []).filter((m) => m !== "UNEQUALLY_DISPOSED")
+                    },
+                    { op: "remove", path: "/tolerance/outsideAmount" },
+                    { op: "add", path: "/tolerance/zoneOffset", value: zoneOffsetFromOutsideAmount(value, outsideAmount) },
+                    {
+                      op: "replace",
+                      path: "/isoModifiers",
+                      value: [...(fcf.isoModifiers ?? []).filter((m) => m !== "UZ"), "UZ"]
+                    }
+                  ]
+                }
+              : undefined
+          )
+        );
+      }
+      if (fcf.tolerance.materialCondition === "RFS") {
+        issues.push(
+          issue(
+            "I004",
+            "tolerance.materialCondition",
+            "error",
+            {
+              suggestion: "ISO 1101 has no RFS symbol; requirements apply regardless of size unless Ⓜ or Ⓛ is stated"
+            },
+            removeFix("Remove RFS", "/tolerance/materialCondition")
+          )
+        );
+      }
+      (fcf.datums ?? []).forEach((datum, i) => {
+        if (datum.materialCondition === "RFS") {
+          issues.push(
+            issue(
+              "I004",
+              `datums[${i}].materialCondition`,
+              "error",
+              {
+                suggestion: `Datum ${datum.id} is referenced regardless of size by default in ISO 5459; remove RFS`
+              },
+              removeFix("Remove RFS", `/datums/${i}/materialCondition`)
+            )
+          );
+        }
+      });
+      if (fcf.composite?.type === "composite") {
+        issues.push(
+          issue("I004", "composite.type", "error", {
+            characteristic: fcf.characteristic,
+            suggestion:
+              "ISO 1101 has no composite frame; use stacked frames with CZ on the lower frame and orientation-only datums"
+          })
+        );
+      }
+      return issues;
+    }
+  },
+  {
+    code: "I005",
+    category: "modifier-compatibility",
+    description: "CZ/SZ are indicated on patterns of features",
+    severity: "warning",
+    standards: isoOnly,
+    references: [iso5458],
+    rationale:
+      "CZ and SZ state how the zones of several toleranced features relate. On a single feature there is nothing to combine or separate.",
+    examples: {
+      good: { frame: "4X ⊕|⌀0.2 CZ|A|B|C", featureType: "hole", note: "Four holes in one combined zone" },
+      bad: { frame: "⊕|⌀0.2 CZ|A|B|C", featureType: "hole", note: "One hole cannot form a combined zone" }
+    },
+    applies: (fcf) => (fcf.isoModifiers ?? []).some((m) => m === "CZ" || m === "SZ"),
+    evaluate: (fcf) =>
+      (fcf.pattern?.count ?? 0) > 1 || fcf.pattern?.note
+        ? []
+        : [
+            issue("I005", "pattern", "warning", {
+              suggestion: "CZ and SZ only have meaning for several toleranced features; add the pattern (e.g., 4X)"
+            })
+          ]
+  },
+  {
+    code: "I006",
+    category: "feature-type",
+    description: "Envelope requirement needs a feature of size",
+    severity: "error",
+    standards: isoOnly,
+    references: [iso14405, iso8015Independency],
+    rationale:
+      "Ⓔ applies the envelope requirement to a linear size, overriding the ISO independency principle for that feature. Planes, surfaces and edges have no size for the envelope to bound.",
+    examples: {
+      good: {
+        frame: "⌭|0.02",
+        featureType: "pin",
+        standard: "ISO_1101",
+        fields: { sizeDimension: { nominal: 20, tolerancePlus: 0, toleranceMinus: 0.02, envelope: true } },
+        note: "Ⓔ on the size of a pin"
+      },
+      bad: {
+        frame: "⏥|0.02",
+        featureType: "plane",
+        standard: "ISO_1101",
+        fields: { sizeDimension: { nominal: 20, tolerancePlus: 0, toleranceMinus: 0.02, envelope: true } },
+        note: "A plane has no size for Ⓔ to bound"
+      }
+    },
+    applies: (fcf) => fcf.sizeDimension?.envelope === true && fcf.featureType !== undefined,
+    evaluate: (fcf) =>
+      isFeatureOfSize(fcf.featureType)
+        ? []
+        : [
+            issue(
+              "I006",
+              "sizeDimension.envelope",
+              "error",
+              {
+                featureType: fcf.featureType,
+                suggestion: "Ⓔ applies to cylinders and opposed parallel surfaces; remove it from this feature"
+              },
+              removeFix("Remove envelope", "/sizeDimension/envelope")
+            )
+          ]
+  },
+
   // ---------------------------------------------------------------------------
   // WARNINGS (Non-blocking but informative)
   // ---------------------------------------------------------------------------
@@ -562,11 +1636,25 @@ const rules: Rule[] = [
     category: "material-condition",
     description: "RFS is implicit in ASME Y14.5-2018",
     severity: "warning",
+    standards: asmeOnly,
+    references: [asmeFundamentalRules, asmeModifierApplicability],
+    rationale:
+      "Y14.5-2018 applies tolerances regardless of feature size and datums regardless of material boundary by default (Rule #2) and no longer shows Ⓢ in a frame, so an explicit RFS adds nothing.",
+    examples: {
+      good: { frame: "⊕|⌀0.2|A|B|C", featureType: "hole", note: "RFS by default" },
+      bad: { frame: "⊕|⌀0.2Ⓢ|A|B|C", featureType: "hole", note: "Redundant Ⓢ" }
+    },
     applies: (fcf) => fcf.tolerance.materialCondition === "RFS",
     evaluate: (fcf) => [
-      issue("W001", "tolerance.materialCondition", "warning", {
-        suggestion: "RFS is the default; explicit RFS notation is redundant per ASME Y14.5-2018"
-      })
+      issue(
+        "W001",
+        "tolerance.materialCondition",
+        "warning",
+        {
+          suggestion: "RFS is the default; explicit RFS notation is redundant per ASME Y14.5-2018"
+        },
+        removeFix("Remove explicit RFS", "/tolerance/materialCondition")
+      )
     ]
   },
   {
@@ -574,6 +1662,13 @@ const rules: Rule[] = [
     category: "datum-requirements",
     description: "Position with only primary datum may allow rotation",
     severity: "warning",
+    references: [asmeDegreesOfFreedom, asmePositionalTolerancing],
+    rationale:
+      "With only a primary datum, a position tolerance leaves rotation about the primary datum unconstrained unless the pattern itself clocks the part. A secondary datum makes the orientation intent explicit.",
+    examples: {
+      good: { frame: "⊕|⌀0.2Ⓜ|A|B", featureType: "hole", note: "Secondary datum B constrains rotation" },
+      bad: { frame: "⊕|⌀0.2Ⓜ|A", featureType: "hole", note: "Free to rotate about A" }
+    },
     applies: (fcf) =>
       fcf.characteristic === "position" && fcf.datums?.length === 1 && !fcf.composite,
     evaluate: (fcf) => [
@@ -587,6 +1682,13 @@ const rules: Rule[] = [
     category: "composite-configuration",
     description: "Composite position typically applies to patterns",
     severity: "warning",
+    references: [asmeCompositePosition],
+    rationale:
+      "Composite position relates the features of a pattern to each other more tightly than to the datums. On a single feature the lower segment only refines orientation, which an orientation frame states more plainly.",
+    examples: {
+      good: { frame: "4X ⊕|⌀0.5Ⓜ|A|B|C\n|⌀0.1Ⓜ|A", featureType: "hole", note: "Composite position of a four-hole pattern" },
+      bad: { frame: "⊕|⌀0.5Ⓜ|A|B|C\n|⌀0.1Ⓜ|A", featureType: "hole", note: "Composite position of a single hole" }
+    },
     applies: (fcf) => fcf.composite !== undefined && !fcf.pattern,
     evaluate: (fcf) => [
       issue("W003", "pattern", "warning", {
@@ -599,12 +1701,57 @@ const rules: Rule[] = [
     category: "datum-requirements",
     description: "Profile without datums controls form only",
     severity: "warning",
+    references: [asmeProfile, iso1660],
+    rationale:
+      "A profile tolerance without datums controls form, and size for closed profiles, but not orientation or location. Add datums if the surface must also be located.",
+    examples: {
+      good: { frame: "⌓|0.5|A|B|C", featureType: "surface", note: "Form, orientation and location" },
+      bad: { frame: "⌓|0.5", featureType: "surface", note: "Form only" }
+    },
     applies: (fcf) => fcf.characteristic === "profile" && (!fcf.datums || fcf.datums.length === 0),
     evaluate: (fcf) => [
       issue("W004", "datums", "warning", {
         suggestion: "Profile without datums controls form only; add datums to control orientation/location"
       })
     ]
+  },
+  {
+    code: "W005",
+    category: "tolerance-zone",
+    description: "Tolerance value is unusually large",
+    severity: "warning",
+    references: [],
+    rationale:
+      "Not a requirement of the standard: tolerance values far above typical practice usually mean an inch value entered as millimetres or a misplaced decimal point. The limit is a heuristic and can be tuned in a rule profile.",
+    examples: {
+      good: { frame: "⊕|⌀0.2Ⓜ|A|B|C", featureType: "hole", note: "Typical position tolerance" },
+      bad: { frame: "⊕|⌀8|A|B|C", featureType: "hole", note: "8 mm is unusually large for a position tolerance" }
+    },
+    applies: () => true,
+    evaluate: (fcf, { thresholds }) => {
+      const issues: ValidationIssue[] = [];
+      const check = (value: number, unit: Unit, path: string) => {
+        const limit = thresholds.largeTolerance[unit];
+        if (value > limit) {
+          issues.push(
+            issue("W005", path, "warning", {
+              suggestion: `Tolerance ${value} ${unit} exceeds typical GD&T practice (${limit} ${unit}); verify the value and unit`
+            })
+          );
+        } else if (fcf.sizeDimension && fcf.sizeDimension.nominal > 0 && value >= fcf.sizeDimension.nominal) {
+          issues.push(
+            issue("W005", path, "warning", {
+              suggestion: `Tolerance ${value} is not smaller than the feature size (${fcf.sizeDimension.nominal}); verify the value`
+            })
+          );
+        }
+      };
+      check(fcf.tolerance.value, fcf.tolerance.unit ?? fcf.sourceUnit, "tolerance.value");
+      fcf.composite?.segments.forEach((seg, i) => {
+        check(seg.tolerance.value, seg.tolerance.unit ?? fcf.sourceUnit, `composite.segments[${i}].tolerance.value`);
+      });
+      return issues;
+    }
   }
 ];
 
@@ -612,12 +1759,51 @@ const rules: Rule[] = [
 // VALIDATION ENGINE
 // ============================================================================
 
+/**
+ * Attach the reporting rule's references, rationale and examples to an issue.
+ */
+function withProvenance(i: ValidationIssue, rule: Rule): ValidationIssue {
+  return {
+    ...i,
+    context: {
+      ...i.context,
+      references: rule.references,
+      rationale: rule.rationale,
+      ...(rule.examples && { examples: rule.examples })
+    }
+  };
+}
+
+/**
+ * Run the enabled rules of a rule set and report issues at the profile's severities.
+ */
+function evaluateRules(
+  ruleSet: readonly Rule[],
+  fcf: FcfJson,
+  profile?: RuleProfile,
+  datumCatalog?: DatumFeature[]
+): ValidationIssue[] {
+  const context: RuleContext = { thresholds: resolveThresholds(profile), ...(datumCatalog && { datumCatalog }) };
+  return ruleSet
+    .filter((rule) => isRuleEnabled(profile, rule.code))
+    .flatMap((rule) =>
+      ruleApplies(rule, fcf, context) ? rule.evaluate(fcf, context).map((i) => withProvenance(i, rule)) : []
+    )
+    .map((i) => {
+      const severity = effectiveSeverity(profile, i.code, i.severity);
+      return severity === i.severity ? i : { ...i, severity };
+    });
+}
+
 /**
  * Deterministic validation: executes rule catalog and returns structured results.
+ * Only rules in the rule set of the frame's standard (default ASME Y14.5-2018) are run.
+ * A rule profile can disable rules, override severities and tune thresholds; the
+ * project's datum catalog lets datum rules check what each datum letter refers to.
  * This does not re-check Zod schema shape but enforces GD&T-specific constraints.
  */
-export function validateFcf(fcf: FcfJson): ValidationResult {
-  const issues = rules.flatMap((rule) => (rule.applies(fcf) ? rule.evaluate(fcf) : []));
+export function validateFcf(fcf: FcfJson, profile?: RuleProfile, datumCatalog?: DatumFeature[]): ValidationResult {
+  const issues = evaluateRules(rules, fcf, profile, datumCatalog);
 
   const errors = issues.filter((i) => i.severity === "error");
   const warnings = issues.filter((i) => i.severity === "warning");
@@ -630,7 +1816,8 @@ export function validateFcf(fcf: FcfJson): ValidationResult {
     summary: {
       errorCount: errors.length,
       warningCount: warnings.length
-    }
+    },
+    ...(profile && { profile: summarizeProfile(profile) })
   };
 }
 
@@ -644,10 +1831,90 @@ export function validateFcfStrict(fcf: FcfJson): boolean {
 /**
  * Get issues filtered by category.
  */
-export function validateByCategory(fcf: FcfJson, category: RuleCategory): ValidationIssue[] {
-  return rules
-    .filter((rule) => rule.category === category)
-    .flatMap((rule) => (rule.applies(fcf) ? rule.evaluate(fcf) : []));
+export function validateByCategory(
+  fcf: FcfJson,
+  category: RuleCategory,
+  profile?: RuleProfile,
+  datumCatalog?: DatumFeature[]
+): ValidationIssue[] {
+  return evaluateRules(
+    rules.filter((rule) => rule.category === category),
+    fcf,
+    profile,
+    datumCatalog
+  );
+}
+
+// ============================================================================
+// AUTOFIX
+// ============================================================================
+
+/**
+ * Split a JSON Pointer into unescaped reference tokens.
+ */
+function parsePointer(path: string): string[] {
+  return path
+    .split("/")
+    .slice(1)
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+/**
+ * Apply a single operation in place. Operations whose parent no longer exists are skipped.
+ */
+function applyFixOperation(target: Record<string, unknown>, operation: FixOperation): void {
+  const tokens = parsePointer(operation.path);
+  const key = tokens.pop();
+  if (key === undefined) return;
+
+  let parent: unknown = target;
+  for (const token of tokens) {
+    if (parent === null || typeof parent !== "object") return;
+    parent = (parent as Record<string, unknown>)[token];
+  }
+  if (parent === null || typeof parent !== "object") return;
+
+  if (Array.isArray(parent)) {
+    const index = key === "-" ? parent.length : Number(key);
+    if (!Number.isInteger(index)) return;
+    if (operation.op === "remove") parent.splice(index, 1);
+    else if (operation.op === "add") parent.splice(index, 0, operation.value);
+    else parent[index] = operation.value;
+    return;
+  }
+
+  const record = parent as Record<string, unknown>;
+  if (operation.op === "remove") delete record[key];
+  else record[key] = operation.value;
+}
+
+/**
+ * Apply the fixes attached to the given issues and return a new FCF.
+ * Identical operations are applied once; removals run last, deepest index first,
+ * so array indices captured at validation time stay valid.
+ * Callers should re-validate the result, as fixes may surface new issues.
+ */
+export function applyFixes<T extends Partial<FcfJson>>(fcf: T, issues: ValidationIssue[]): T {
+  const seen = new Set<string>();
+  const operations = issues
+    .flatMap((i) => i.fix?.operations ?? [])
+    .filter((operation) => {
+      const key = JSON.stringify(operation);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+  const updates = operations.filter((operation) => operation.op !== "remove");
+  const removals = operations
+    .filter((operation) => operation.op === "remove")
+    .sort((a, b) => b.path.localeCompare(a.path, undefined, { numeric: true }));
+
+  const next = structuredClone(fcf) as T;
+  [...updates, ...removals].forEach((operation) =>
+    applyFixOperation(next as Record<string, unknown>, operation)
+  );
+  return next;
 }
 
 // ============================================================================
@@ -675,6 +1942,13 @@ export function getRulesByCategory(category: RuleCategory): readonly Rule[] {
   return rules.filter((r) => r.category === category);
 }
 
+/**
+ * Get the rule set applied to frames of a given standard.
+ */
+export function getRulesForStandard(standard: GeometricStandard): readonly Rule[] {
+  return rules.filter((r) => !r.standards || r.standards.includes(standard));
+}
+
 // ============================================================================
 // EXPORTS FOR TESTING
 // ============================================================================
@@ -0,0 +1,327 @@
+import { FcfJson, DatumReference } from "@/lib/fcf/schema";
+import { DatumFeature, datumReferenceLetters as datumLetters } from "@/lib/fcf/datums";
+import { projectErrorCodes, ProjectErrorCode } from "./errorCodes";
+import { validateFcf, Severity, ValidationResult } from "./validateFcf";
+import { AppliedRuleProfile, RuleProfile, summarizeProfile } from "./ruleProfiles";
+
+// ============================================================================
+// VALIDATION MODEL
+// ============================================================================
+
+/**
+ * Drawing-level issue spanning one or more FCFs.
+ */
+export type ProjectValidationIssue = {
+  /** Error/warning code from projectErrorCodes catalog */
+  code: ProjectErrorCode;
+  /** Human-readable message */
+  message: string;
+  /** Severity level */
+  severity: Severity;
+  /** Indices (into the validated FCF list) of the frames involved */
+  fcfIndices: number[];
+  /** Optional context for AI/UI to provide guidance */
+  context?: {
+    datumId?: string;
+    featureId?: string;
+    suggestion?: string;
+  };
+};
+
+/**
+ * Result of project validation: cross-FCF issues plus per-frame results.
+ */
+export type ProjectValidationResult = {
+  /** True if no project-level or frame-level errors */
+  valid: boolean;
+  /** Cross-FCF issues */
+  issues: ProjectValidationIssue[];
+  errors: ProjectValidationIssue[];
+  warnings: ProjectValidationIssue[];
+  /** validateFcf result for each frame, in input order */
+  frameResults: ValidationResult[];
+  /** Summary counts */
+  summary: {
+    frameCount: number;
+    framesWithErrors: number;
+    errorCount: number;
+    warningCount: number;
+  };
+  /** Rule profile the frames were validated under (omitted for catalog defaults) */
+  profile?: AppliedRuleProfile;
+};
+
+/**
+ * Additional drawing context not carried by the frames themselves.
+ */
+export type ProjectValidationOptions = {
+  /** Datum letters established by datum feature symbols without their own FCF */
+  datumFeatures?: string[];
+  /** Project datum feature catalog; catalogued letters count as established */
+  datumCatalog?: DatumFeature[];
+  /** Rule profile applied to every frame */
+  profile?: RuleProfile;
+};
+
+// ============================================================================
+// RULE DEFINITION
+// ============================================================================
+
+/**
+ * A project rule inspects the full set of frames on a drawing.
+ */
+export type ProjectRule = {
+  /** Unique rule ID matching project error code */
+  code: ProjectErrorCode;
+  /** Human-readable description */
+  description: string;
+  /** Default severity */
+  severity: Severity;
+  /** Evaluation: returns zero or more issues */
+  evaluate: (fcfs: FcfJson[], options: ProjectValidationOptions) => ProjectValidationIssue[];
+};
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/** Letters Y14.5 excludes from datum identification */
+const illegalDatumLetters = ["I", "O", "Q"];
+
+/**
+ * All datum references in a frame, including composite segments.
+ */
+function allDatumReferences(fcf: FcfJson): DatumReference[] {
+  return [...(fcf.datums ?? []), ...(fcf.composite?.segments ?? []).flatMap((seg) => seg.datums ?? [])];
+}
+
+/**
+ * Group frame indices by a key, skipping frames without one.
+ */
+function groupBy(fcfs: FcfJson[], key: (fcf: FcfJson) => string | undefined): Map<string, number[]> {
+  const groups = new Map<string, number[]>();
+  fcfs.forEach((fcf, index) => {
+    const value = key(fcf);
+    if (!value) return;
+    groups.set(value, [...(groups.get(value) ?? []), index]);
+  });
+  return groups;
+}
+
+/**
+ * Pattern count stated in a pattern note (e.g., "4X EQ SP" → 4).
+ */
+function noteCount(note: string | undefined): number | undefined {
+  const match = note ? /^\s*(\d+)\s*X\b/i.exec(note) : null;
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Create a project validation issue helper.
+ */
+function issue(
+  code: ProjectErrorCode,
+  severity: Severity,
+  fcfIndices: number[],
+  context?: ProjectValidationIssue["context"]
+): ProjectValidationIssue {
+  return {
+    code,
+    message: projectErrorCodes[code],
+    severity,
+    fcfIndices,
+    ...(context && { context })
+  };
+}
+
+// ============================================================================
+// RULE CATALOG
+// ============================================================================
+
+const projectRules: ProjectRule[] = [
+  // ---------------------------------------------------------------------------
+  // CATEGORY: Datum Consistency
+  // ---------------------------------------------------------------------------
+  {
+    code: "P001",
+    description: "Every referenced datum letter must be established on the drawing",
+    severity: "warning",
+    evaluate: (fcfs, options) => {
+      const established = new Set([
+        ...(options.datumFeatures ?? []).flatMap(datumLetters),
+        ...(options.datumCatalog ?? []).map((feature) => feature.id),
+        ...fcfs.flatMap((fcf) => (fcf.datumFeature ? datumLetters(fcf.datumFeature) : []))
+      ]);
+      const referencedBy = new Map<string, number[]>();
+      fcfs.forEach((fcf, index) => {
+        const letters = new Set(allDatumReferences(fcf).flatMap((d) => datumLetters(d.id)));
+        letters.forEach((letter) => {
+          referencedBy.set(letter, [...(referencedBy.get(letter) ?? []), index]);
+        });
+      });
+
+      return [...referencedBy.entries()]
+        .filter(([letter]) => !established.has(letter))
+        .map(([letter, indices]) =>
+          issue("P001", "warning", indices, {
+            datumId: letter,
+            suggestion: `Add a datum feature symbol or datum catalog entry for ${letter}, or correct the datum reference`
+          })
+        );
+    }
+  },
+  {
+    code: "P002",
+    description: "Datum letters I, O and Q are not permitted",
+    severity: "error",
+    evaluate: (fcfs) => {
+      const usedBy = new Map<string, number[]>();
+      fcfs.forEach((fcf, index) => {
+        const letters = new Set([
+          ...allDatumReferences(fcf).flatMap((d) => datumLetters(d.id)),
+          ...(fcf.datumFeature ? datumLetters(fcf.datumFeature) : [])
+        ]);
+        letters.forEach((letter) => {
+          if (illegalDatumLetters.includes(letter)) {
+            usedBy.set(letter, [...(usedBy.get(letter) ?? []), index]);
+          }
+        });
+      });
+
+      return [...usedBy.entries()].map(([letter, indices]) =>
+        issue("P002", "error", indices, {
+          datumId: letter,
+          suggestion: `Datum ${letter} can be confused with a numeral; use another letter`
+        })
+      );
+    }
+  },
+  {
+    code: "P003",
+    description: "A datum letter identifies exactly one datum feature",
+    severity: "error",
+    evaluate: (fcfs) => {
+      const issues: ProjectValidationIssue[] = [];
+      groupBy(fcfs, (fcf) => fcf.datumFeature?.trim().toUpperCase()).forEach((indices, letter) => {
+        // Several frames may control the same datum feature; only distinct features conflict
+        const features = new Set(indices.map((i) => fcfs[i].featureId).filter((id) => id !== undefined));
+        if (features.size > 1) {
+          issues.push(
+            issue("P003", "error", indices, {
+              datumId: letter,
+              suggestion: `Datum ${letter} is attached to ${[...features].join(", ")}; assign a unique letter to each datum feature`
+            })
+          );
+        }
+      });
+      return issues;
+    }
+  },
+
+  // ---------------------------------------------------------------------------
+  // CATEGORY: Feature & Pattern Consistency
+  // ---------------------------------------------------------------------------
+  {
+    code: "P011",
+    description: "Frames with the same characteristic on one feature must agree on material condition",
+    severity: "error",
+    evaluate: (fcfs) => {
+      const issues: ProjectValidationIssue[] = [];
+      groupBy(fcfs, (fcf) => fcf.featureId && `${fcf.featureId}::${fcf.characteristic}`).forEach((indices) => {
+        if (indices.length < 2) return;
+        // RFS is implicit when no modifier is stated
+        const conditions = new Set(indices.map((i) => fcfs[i].tolerance.materialCondition ?? "RFS"));
+        if (conditions.size > 1) {
+          const { featureId, characteristic } = fcfs[indices[0]];
+          issues.push(
+            issue("P011", "error", indices, {
+              featureId,
+              suggestion: `${characteristic} of ${featureId} is specified at ${[...conditions].join(" and ")}; keep one material condition or combine into a composite frame`
+            })
+          );
+        }
+      });
+      return issues;
+    }
+  },
+  {
+    code: "P012",
+    description: "Pattern counts must agree for frames controlling the same pattern",
+    severity: "error",
+    evaluate: (fcfs) => {
+      const issues: ProjectValidationIssue[] = [];
+
+      // Count vs. note within a single frame (e.g., count 4 with "6X" note)
+      fcfs.forEach((fcf, index) => {
+        const stated = noteCount(fcf.pattern?.note);
+        if (fcf.pattern?.count !== undefined && stated !== undefined && stated !== fcf.pattern.count) {
+          issues.push(
+            issue("P012", "error", [index], {
+              featureId: fcf.featureId,
+              suggestion: `Pattern count ${fcf.pattern.count} does not match note "${fcf.pattern.note}"`
+            })
+          );
+        }
+      });
+
+      // Count across frames on the same feature pattern
+      groupBy(fcfs, (fcf) => fcf.featureId).forEach((indices, featureId) => {
+        const counts = new Set(
+          indices
+            .map((i) => fcfs[i].pattern?.count ?? noteCount(fcfs[i].pattern?.note))
+            .filter((count): count is number => count !== undefined)
+        );
+        if (counts.size > 1) {
+          issues.push(
+            issue("P012", "error", indices, {
+              featureId,
+              suggestion: `Frames on ${featureId} state ${[...counts].map((c) => `${c}X`).join(" and ")}; use one pattern count`
+            })
+          );
+        }
+      });
+      return issues;
+    }
+  }
+];
+
+// ============================================================================
+// VALIDATION ENGINE
+// ============================================================================
+
+/**
+ * Drawing-level validation: runs validateFcf on every frame, then cross-FCF rules.
+ */
+export function validateProject(
+  fcfs: FcfJson[],
+  options: ProjectValidationOptions = {}
+): ProjectValidationResult {
+  const frameResults = fcfs.map((fcf) => validateFcf(fcf, options.profile, options.datumCatalog));
+  const issues = projectRules.flatMap((rule) => rule.evaluate(fcfs, options));
+
+  const errors = issues.filter((i) => i.severity === "error");
+  const warnings = issues.filter((i) => i.severity === "warning");
+  const framesWithErrors = frameResults.filter((r) => !r.valid).length;
+
+  return {
+    valid: errors.length === 0 && framesWithErrors === 0,
+    issues,
+    errors,
+    warnings,
+    frameResults,
+    summary: {
+      frameCount: fcfs.length,
+      framesWithErrors,
+      errorCount: errors.length,
+      warningCount: warnings.length
+    },
+    ...(options.profile && { profile: summarizeProfile(options.profile) })
+  };
+}
+
+/**
+ * Get all project rules (for introspection/testing).
+ */
+export function getProjectRules(): readonly ProjectRule[] {
+  return projectRules;
+}
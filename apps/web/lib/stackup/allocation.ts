@@ -0,0 +1,335 @@
+import { displayDecimals, MM_PER_INCH } from "@/lib/util/units";
+import {
+  calculateStackup,
+  getBilateralTolerance,
+  getStandardDeviation,
+  resolveVectorLoop,
+} from "./calculator";
+import {
+  DEFAULT_MONTE_CARLO_SAMPLES,
+  type AllocationStrategy,
+  type StackupAnalysis,
+  type StackupDimension,
+  type StackupResult,
+} from "./schema";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Proposed change to one dimension's tolerance.
+ */
+export interface AllocationChange {
+  dimensionId: string;
+  /** Bilateral (±) tolerance before allocation */
+  currentTolerance: number;
+  /** Bilateral (±) tolerance proposed */
+  proposedTolerance: number;
+  /** Relative change (0.25 = 25% looser); undefined from a zero tolerance */
+  relativeChange?: number;
+  /** Why the tolerance did not follow the strategy */
+  limitedBy?: "minimum" | "maximum" | "fixed";
+}
+
+/**
+ * Tolerances proposed by an allocation strategy.
+ */
+export interface ToleranceAllocation {
+  strategy: AllocationStrategy;
+  /** Dimensions with the proposed tolerances */
+  dimensions: StackupDimension[];
+  /** Stack-up result with the proposed tolerances */
+  result: StackupResult;
+  changes: AllocationChange[];
+  /**
+   * Whether the proposal meets the acceptance criteria. When no allocation
+   * can, every adjustable tolerance is proposed at its minimum.
+   */
+  feasible: boolean;
+}
+
+export interface AllocationOptions {
+  /** Decimal places tolerances are rounded to (default: display precision of the unit) */
+  decimals?: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Bisection steps on the allocation scale (relative precision ~1e-15)
+const BISECTION_ITERATIONS = 50;
+
+// Limit on doubling the scale while the stack still passes
+const MAX_SCALE_DOUBLINGS = 30;
+
+// Monte Carlo samples per evaluation while searching; the proposal is then
+// confirmed with the analysis's own sample count
+const SEARCH_SAMPLE_COUNT = 5000;
+
+// Back-off when the confirming run fails: 1%, 2%, 4%, ... of the scale
+const CONFIRM_BACKOFF = 0.01;
+const MAX_CONFIRM_STEPS = 8;
+
+// ============================================================================
+// ALLOCATION
+// ============================================================================
+
+/**
+ * Propose tolerances that use the acceptance criteria as fully as possible:
+ * loosened when the stack passes with margin, tightened when it fails.
+ *
+ * Each strategy fixes the ratio between tolerances and a common scale is
+ * searched with calculateStackup, so the analysis method, asymmetric
+ * tolerances and vector loops are all honoured:
+ * - proportional: tolerances keep their current ratios
+ * - equal-precision: same ISO tolerance grade, t ∝ 0.45∛D + 0.001D (D in mm)
+ * - cost-minimization: minimizes Σ costWeight / t; t ∝ √(w/S) for worst
+ *   case and ∛(w/S²) for the statistical methods
+ *
+ * Tolerances are clamped to each dimension's min/max tolerance. Dimensions
+ * linked to an FCF, with zero sensitivity or (equal precision) zero nominal
+ * are left unchanged. Plus and minus tolerances scale together, so
+ * unilateral and unequal tolerances keep their shape.
+ *
+ * Monte Carlo stacks are searched on a smaller run from the same seed and
+ * the proposal is confirmed with the full sample count, backing off until
+ * that run passes too.
+ */
+export function allocateTolerances(
+  analysis: StackupAnalysis,
+  strategy: AllocationStrategy,
+  options: AllocationOptions = {}
+): ToleranceAllocation {
+  const { dimensions } = analysis;
+  const decimals = options.decimals ?? displayDecimals(analysis.unit);
+
+  const weights = getAllocationWeights(analysis, strategy);
+  const fixed = weights.map((weight, i) => weight <= 0 || !!dimensions[i].fcfLink);
+
+  const tolerancesAt = (scale: number) =>
+    dimensions.map((dim, i) =>
+      fixed[i] ? getBilateralTolerance(dim) : clampTolerance(dim, weights[i] * scale)
+    );
+
+  // Each step of the search reruns the stack-up, so Monte Carlo searches on a
+  // smaller run from the same seed
+  const sampleCount = analysis.monteCarlo?.sampleCount ?? DEFAULT_MONTE_CARLO_SAMPLES;
+  const sampled = analysis.analysisMethod === "monte-carlo" && sampleCount > SEARCH_SAMPLE_COUNT;
+  const searchAnalysis: StackupAnalysis = sampled
+    ? { ...analysis, monteCarlo: { ...analysis.monteCarlo, sampleCount: SEARCH_SAMPLE_COUNT } }
+    : analysis;
+
+  const evaluate = (tolerances: number[]) =>
+    calculateStackup({
+      ...searchAnalysis,
+      dimensions: dimensions.map((dim, i) => withTolerance(dim, tolerances[i])),
+    });
+
+  const searched = findLargestPassingScale(
+    (s) => evaluate(tolerancesAt(s)).passesAcceptanceCriteria,
+    (s) =>
+      dimensions.every(
+        (dim, i) =>
+          fixed[i] ||
+          (dim.allocation?.maxTolerance !== undefined &&
+            weights[i] * s >= dim.allocation.maxTolerance)
+      )
+  );
+
+  // Round to the nearest step, or down when that leaves the criteria
+  const proposeAt = (scale: number | undefined) => {
+    const exact = tolerancesAt(scale ?? 0);
+    const roundAll = (round: (value: number) => number) =>
+      dimensions.map((dim, i) =>
+        fixed[i] ? dim : roundTolerance(withTolerance(dim, exact[i]), dim, decimals, round)
+      );
+
+    let proposed = roundAll(Math.round);
+    let result = calculateStackup({ ...analysis, dimensions: proposed });
+    if (scale !== undefined && !result.passesAcceptanceCriteria) {
+      proposed = roundAll(Math.floor);
+      result = calculateStackup({ ...analysis, dimensions: proposed });
+    }
+    return { proposed, result };
+  };
+
+  let scale = searched;
+  let { proposed, result } = proposeAt(scale);
+
+  // The full run can land just outside a limit the smaller run met
+  for (
+    let step = 0;
+    sampled && scale !== undefined && !result.passesAcceptanceCriteria && step < MAX_CONFIRM_STEPS;
+    step++
+  ) {
+    scale *= 1 - CONFIRM_BACKOFF * 2 ** step;
+    ({ proposed, result } = proposeAt(scale));
+  }
+
+  const changes = dimensions.map((dim, i): AllocationChange => {
+    const currentTolerance = getBilateralTolerance(dim);
+    const proposedTolerance = getBilateralTolerance(proposed[i]);
+    const unclamped = weights[i] * (scale ?? 0);
+    const { minTolerance, maxTolerance } = dim.allocation ?? {};
+
+    let limitedBy: AllocationChange["limitedBy"];
+    if (fixed[i]) limitedBy = "fixed";
+    else if (minTolerance !== undefined && unclamped <= minTolerance) limitedBy = "minimum";
+    else if (maxTolerance !== undefined && unclamped >= maxTolerance) limitedBy = "maximum";
+
+    return {
+      dimensionId: dim.id,
+      currentTolerance,
+      proposedTolerance,
+      ...(currentTolerance > 0 && { relativeChange: proposedTolerance / currentTolerance - 1 }),
+      ...(limitedBy && { limitedBy }),
+    };
+  });
+
+  return {
+    strategy,
+    dimensions: proposed,
+    result,
+    changes,
+    feasible: result.passesAcceptanceCriteria,
+  };
+}
+
+/**
+ * Relative tolerance of each dimension under a strategy, scaled so the
+ * adjustable tolerances keep their current total at scale 1. Zero means
+ * the dimension is not adjusted.
+ */
+export function getAllocationWeights(
+  analysis: StackupAnalysis,
+  strategy: AllocationStrategy
+): number[] {
+  const dimensions = analysis.vectorLoop
+    ? resolveVectorLoop(analysis.dimensions, analysis.vectorLoop)
+    : analysis.dimensions;
+
+  const weights = dimensions.map((dim) => {
+    const sensitivity = Math.abs(dim.sensitivityCoefficient);
+    if (sensitivity === 0) return 0;
+
+    switch (strategy) {
+      case "proportional":
+        return getBilateralTolerance(dim);
+
+      case "equal-precision": {
+        const size = Math.abs(dim.nominal) * (analysis.unit === "inch" ? MM_PER_INCH : 1);
+        return size > 0 ? 0.45 * Math.cbrt(size) + 0.001 * size : 0;
+      }
+
+      case "cost-minimization": {
+        const cost = dim.allocation?.costWeight ?? 1;
+        if (analysis.analysisMethod === "worst-case") {
+          return Math.sqrt(cost / sensitivity);
+        }
+        // Statistical methods: σ per unit tolerance from the distribution and Cp
+        const tolerance = getBilateralTolerance(dim);
+        const sigmaRatio =
+          analysis.analysisMethod === "rss" || tolerance <= 0
+            ? 1
+            : getStandardDeviation(dim) / tolerance;
+        return Math.cbrt(cost / (sensitivity * sigmaRatio) ** 2);
+      }
+    }
+  });
+
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const currentTotal = dimensions.reduce(
+    (sum, dim, i) => (weights[i] > 0 ? sum + getBilateralTolerance(dim) : sum),
+    0
+  );
+  const normalization = total > 0 && currentTotal > 0 ? currentTotal / total : 1;
+  return weights.map((w) => w * normalization);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Largest scale at which the stack passes: doubled until it fails (or every
+ * tolerance is at its maximum), then bisected. Undefined when even the
+ * tightest allocation fails.
+ */
+function findLargestPassingScale(
+  passes: (scale: number) => boolean,
+  maxedOut: (scale: number) => boolean
+): number | undefined {
+  if (!passes(0)) return undefined;
+
+  let low = 0;
+  let high = 1;
+  for (let doublings = 0; passes(high); doublings++) {
+    if (maxedOut(high) || doublings >= MAX_SCALE_DOUBLINGS) return high;
+    low = high;
+    high *= 2;
+  }
+
+  for (let i = 0; i < BISECTION_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    if (passes(mid)) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+function clampTolerance(dim: StackupDimension, tolerance: number): number {
+  const { minTolerance = 0, maxTolerance = Infinity } = dim.allocation ?? {};
+  return Math.min(Math.max(tolerance, minTolerance), maxTolerance);
+}
+
+/**
+ * Dimension with a new bilateral tolerance. Plus and minus scale together;
+ * a dimension without tolerance becomes symmetric.
+ */
+function withTolerance(dim: StackupDimension, tolerance: number): StackupDimension {
+  const current = getBilateralTolerance(dim);
+  if (current <= 0) {
+    return { ...dim, tolerancePlus: tolerance, toleranceMinus: tolerance };
+  }
+  const ratio = tolerance / current;
+  return {
+    ...dim,
+    tolerancePlus: dim.tolerancePlus * ratio,
+    toleranceMinus: dim.toleranceMinus * ratio,
+  };
+}
+
+/**
+ * Round plus and minus tolerances to the given decimals, but not below the
+ * dimension's minimum tolerance.
+ */
+function roundTolerance(
+  dim: StackupDimension,
+  original: StackupDimension,
+  decimals: number,
+  round: (value: number) => number
+): StackupDimension {
+  const factor = Math.pow(10, decimals);
+  const rounded = {
+    ...dim,
+    tolerancePlus: round(dim.tolerancePlus * factor) / factor,
+    toleranceMinus: round(dim.toleranceMinus * factor) / factor,
+  };
+
+  const minTolerance = original.allocation?.minTolerance;
+  if (minTolerance !== undefined && getBilateralTolerance(rounded) < minTolerance) {
+    // Allow for floating point noise just above a representable value
+    const ceil = (value: number) => Math.ceil(value * factor - 1e-6) / factor;
+    return {
+      ...dim,
+      tolerancePlus: ceil(dim.tolerancePlus),
+      toleranceMinus: ceil(dim.toleranceMinus),
+    };
+  }
+  return rounded;
+}
@@ -5,11 +5,31 @@ import type {
   DimensionContribution,
   AcceptanceCriteria,
   AnalysisMethod,
+  MonteCarloSettings,
+  MonteCarloResult,
+  HistogramBin,
+  VectorLoop,
 } from "./schema";
+import { DEFAULT_MONTE_CARLO_SAMPLES, DEFAULT_MONTE_CARLO_SEED } from "./schema";
 
 // Default process capability if not specified (typical manufacturing capability)
 const DEFAULT_CP = 1.33;
 
+// Monte Carlo treats each tolerance as ±3σ unless a Cp is given
+const MONTE_CARLO_DEFAULT_CP = 1;
+
+// Number of equal-width histogram bins for simulated results
+const HISTOGRAM_BINS = 40;
+
+// Lognormal skewness when a dimension does not give one
+const DEFAULT_SKEWNESS = 1;
+
+// Reported percentiles: ±1σ, ±2σ and ±3σ equivalents and the median
+const REPORTED_PERCENTILES = [0.135, 2.275, 15.866, 50, 84.134, 97.725, 99.865];
+
+// Derived loop sensitivities are rounded to drop finite-difference noise
+const SENSITIVITY_DECIMALS = 9;
+
 // ============================================================================
 // MAIN CALCULATION FUNCTION
 // ============================================================================
@@ -19,11 +39,26 @@ const DEFAULT_CP = 1.33;
  * Pure function with no side effects.
  *
  * Handles asymmetric tolerances correctly by calculating the mean shift
- * from the drawing nominal to the center of each tolerance zone.
+ * from the drawing nominal to the center of each tolerance zone. The Six
+ * Sigma method also applies each dimension's process mean offset and
+ * distribution. A 2D vector loop is first reduced to signs and
+ * sensitivities (see resolveVectorLoop).
  */
 export function calculateStackup(analysis: StackupAnalysis): StackupResult {
+  if (analysis.vectorLoop) {
+    return calculateStackup({
+      ...analysis,
+      dimensions: resolveVectorLoop(analysis.dimensions, analysis.vectorLoop),
+      vectorLoop: undefined,
+    });
+  }
+
   const { dimensions, analysisMethod, acceptanceCriteria } = analysis;
 
+  if (analysisMethod === "monte-carlo") {
+    return calculateMonteCarloStackup(analysis);
+  }
+
   // 1. Calculate nominal result (sum of signed drawing nominals)
   const nominalResult = calculateNominal(dimensions);
 
@@ -31,8 +66,10 @@ export function calculateStackup(analysis: StackupAnalysis): StackupResult {
   // e.g., 50 +0.025/-0 is centered at 50.0125, not 50.0
   const meanShift = calculateMeanShift(dimensions);
 
-  // 3. The "centered nominal" accounts for asymmetric tolerances
-  const centeredNominal = nominalResult + meanShift;
+  // 3. The "centered nominal" accounts for asymmetric tolerances, and for
+  // Six Sigma the process mean offsets (e.g. tool wear)
+  const meanOffset = analysisMethod === "six-sigma" ? calculateMeanOffset(dimensions) : 0;
+  const centeredNominal = nominalResult + meanShift + meanOffset;
 
   // 4. Calculate total tolerance based on method
   const totalTolerance = calculateTotalTolerance(dimensions, analysisMethod);
@@ -51,6 +88,14 @@ export function calculateStackup(analysis: StackupAnalysis): StackupResult {
     acceptanceCriteria
   );
 
+  // 8. Predict capability of the closing dimension (Six Sigma only)
+  const standardDeviation =
+    analysisMethod === "six-sigma" ? calculateClosingStandardDeviation(dimensions) : undefined;
+  const predictedCpk =
+    standardDeviation !== undefined
+      ? calculatePredictedCpk(centeredNominal, standardDeviation, acceptanceCriteria)
+      : undefined;
+
   return {
     nominalResult, // Return drawing nominal for display
     totalTolerance,
@@ -61,6 +106,8 @@ export function calculateStackup(analysis: StackupAnalysis): StackupResult {
     marginToMaximum,
     contributions,
     method: analysisMethod,
+    ...(standardDeviation !== undefined && { standardDeviation }),
+    ...(predictedCpk !== undefined && { predictedCpk }),
   };
 }
 
@@ -106,6 +153,97 @@ export function calculateMeanShift(dimensions: StackupDimension[]): number {
   }, 0);
 }
 
+/**
+ * Calculate the shift of the closing dimension caused by process means
+ * that sit off the center of their tolerance zones.
+ *
+ * Formula: offset = Σ(sign × meanOffset_i × S_i)
+ */
+export function calculateMeanOffset(dimensions: StackupDimension[]): number {
+  return dimensions.reduce((sum, dim) => {
+    const signMultiplier = dim.sign === "positive" ? 1 : -1;
+    const sensitivity = dim.sensitivityCoefficient ?? 1;
+    return sum + signMultiplier * (dim.meanOffset ?? 0) * sensitivity;
+  }, 0);
+}
+
+// ============================================================================
+// DISTRIBUTIONS & CAPABILITY
+// ============================================================================
+
+/**
+ * Standard deviation of a single dimension.
+ *
+ * Cpk (with the mean offset) or Cp sets σ whatever the distribution shape:
+ *   σ = (t - |offset|) / (3 × Cpk)  or  σ = t / (3 × Cp)
+ * Without either, uniform and triangular dimensions span the whole
+ * tolerance zone (σ = t/√3 and t/√6); normal and lognormal dimensions use
+ * the default Cp.
+ */
+export function getStandardDeviation(
+  dim: StackupDimension,
+  defaultCp: number = DEFAULT_CP
+): number {
+  const bilateralTol = getBilateralTolerance(dim);
+
+  if (dim.processCapabilityK !== undefined) {
+    const halfWidth = Math.max(bilateralTol - Math.abs(dim.meanOffset ?? 0), 0);
+    return halfWidth / (3 * dim.processCapabilityK);
+  }
+
+  if (dim.processCapability !== undefined) {
+    return bilateralTol / (3 * dim.processCapability);
+  }
+
+  switch (dim.distribution ?? "normal") {
+    case "uniform":
+      return bilateralTol / Math.sqrt(3);
+    case "triangular":
+      return bilateralTol / Math.sqrt(6);
+    default:
+      return bilateralTol / (3 * defaultCp);
+  }
+}
+
+/**
+ * Standard deviation of the closing dimension.
+ * σ = √(Σ(σ_i × S_i)²)
+ */
+export function calculateClosingStandardDeviation(
+  dimensions: StackupDimension[],
+  defaultCp: number = DEFAULT_CP
+): number {
+  const sumOfVariances = dimensions.reduce((sum, dim) => {
+    const sensitivity = dim.sensitivityCoefficient ?? 1;
+    return sum + Math.pow(getStandardDeviation(dim, defaultCp) * sensitivity, 2);
+  }, 0);
+
+  return Math.sqrt(sumOfVariances);
+}
+
+/**
+ * Predicted Cpk of the closing dimension against the acceptance criteria.
+ * Cpk = min(USL - μ, μ - LSL) / 3σ, using whichever limits are defined.
+ * Undefined when there is no variation.
+ */
+export function calculatePredictedCpk(
+  mean: number,
+  standardDeviation: number,
+  criteria: Partial<AcceptanceCriteria>
+): number | undefined {
+  if (standardDeviation <= 0) return undefined;
+
+  const indices: number[] = [];
+  if (criteria.minimum !== undefined) {
+    indices.push((mean - criteria.minimum) / (3 * standardDeviation));
+  }
+  if (criteria.maximum !== undefined) {
+    indices.push((criteria.maximum - mean) / (3 * standardDeviation));
+  }
+
+  return indices.length > 0 ? Math.min(...indices) : undefined;
+}
+
 // ============================================================================
 // TOLERANCE CALCULATIONS BY METHOD
 // ============================================================================
@@ -124,6 +262,8 @@ export function calculateTotalTolerance(
       return calculateRSS(dimensions);
     case "six-sigma":
       return calculateSixSigma(dimensions);
+    case "monte-carlo":
+      return getSimulatedTolerance(simulateStackup(dimensions));
   }
 }
 
@@ -160,26 +300,332 @@ export function calculateRSS(dimensions: StackupDimension[]): number {
 
 /**
  * Six Sigma Method
- * σ_i = t_i / (3 × Cp_i)
- * T_6σ = 3 × √(Σσ_i²)
+ * σ_i = t_i / (3 × Cp_i), or from Cpk and distribution (see getStandardDeviation)
+ * T_6σ = 3 × √(Σ(σ_i × S_i)²)
  *
  * Uses actual process capability for more realistic prediction.
  */
 export function calculateSixSigma(dimensions: StackupDimension[]): number {
-  const sumOfVariances = dimensions.reduce((sum, dim) => {
-    const bilateralTol = getBilateralTolerance(dim);
+  // Total tolerance at 3σ level
+  return 3 * calculateClosingStandardDeviation(dimensions);
+}
+
+// ============================================================================
+// MONTE CARLO SIMULATION
+// ============================================================================
+
+/**
+ * Monte Carlo stack-up: limits come from the simulated distribution rather
+ * than a closed form, so the 0.135% and 99.865% percentiles stand in for
+ * the ±3σ limits of the statistical methods.
+ */
+function calculateMonteCarloStackup(analysis: StackupAnalysis): StackupResult {
+  const { dimensions, acceptanceCriteria } = analysis;
+
+  const monteCarlo = simulateStackup(dimensions, analysis.monteCarlo, acceptanceCriteria);
+  const minimumValue = getPercentile(monteCarlo, 0.135);
+  const maximumValue = getPercentile(monteCarlo, 99.865);
+
+  const { passes, marginToMinimum, marginToMaximum } = checkAcceptance(
+    minimumValue,
+    maximumValue,
+    acceptanceCriteria
+  );
+  const predictedCpk = calculatePredictedCpk(
+    monteCarlo.mean,
+    monteCarlo.standardDeviation,
+    acceptanceCriteria
+  );
+
+  return {
+    nominalResult: calculateNominal(dimensions),
+    totalTolerance: getSimulatedTolerance(monteCarlo),
+    maximumValue,
+    minimumValue,
+    passesAcceptanceCriteria: passes,
+    marginToMinimum,
+    marginToMaximum,
+    contributions: calculateContributions(dimensions, "monte-carlo"),
+    method: "monte-carlo",
+    standardDeviation: monteCarlo.standardDeviation,
+    ...(predictedCpk !== undefined && { predictedCpk }),
+    monteCarlo,
+  };
+}
+
+/**
+ * Simulate assemblies by sampling every dimension at random.
+ *
+ * Each dimension is drawn from its distribution around the center of its
+ * tolerance zone plus its mean offset, with σ from getStandardDeviation
+ * (Cp defaults to 1, so a normal tolerance is ±3σ). The sampler is seeded,
+ * so the same seed and sample count always produce the same result.
+ */
+export function simulateStackup(
+  dimensions: StackupDimension[],
+  settings: MonteCarloSettings = {},
+  criteria: Partial<AcceptanceCriteria> = {}
+): MonteCarloResult {
+  const seed = settings.seed ?? DEFAULT_MONTE_CARLO_SEED;
+  // Unvalidated input (e.g. while editing) still needs one sample
+  const sampleCount = Math.max(Math.floor(settings.sampleCount ?? DEFAULT_MONTE_CARLO_SAMPLES), 1);
+  const random = createRandom(seed);
+
+  // Result = mean + Σ(scale_i × d_i) with d_i zero mean, unit variance
+  const mean =
+    calculateNominal(dimensions) + calculateMeanShift(dimensions) + calculateMeanOffset(dimensions);
+  const contributors = dimensions.map((dim) => {
+    const signMultiplier = dim.sign === "positive" ? 1 : -1;
     const sensitivity = dim.sensitivityCoefficient ?? 1;
-    const cp = dim.processCapability ?? DEFAULT_CP;
+    return {
+      scale: signMultiplier * sensitivity * getStandardDeviation(dim, MONTE_CARLO_DEFAULT_CP),
+      nextDeviate: createDeviateSampler(dim, random),
+    };
+  });
 
-    // Standard deviation for this dimension
-    // σ = t / (3 × Cp) where t is the bilateral tolerance
-    const sigma = (bilateralTol * sensitivity) / (3 * cp);
+  const samples = new Float64Array(sampleCount);
+  let below = 0;
+  let above = 0;
+  let sum = 0;
 
-    return sum + Math.pow(sigma, 2);
-  }, 0);
+  for (let i = 0; i < sampleCount; i++) {
+    let value = mean;
+    for (const { scale, nextDeviate } of contributors) {
+      value += scale * nextDeviate();
+    }
+    samples[i] = value;
+    sum += value;
 
-  // Total tolerance at 3σ level
-  return 3 * Math.sqrt(sumOfVariances);
+    if (criteria.minimum !== undefined && value < criteria.minimum) below++;
+    if (criteria.maximum !== undefined && value > criteria.maximum) above++;
+  }
+
+  samples.sort();
+
+  const sampleMean = sum / sampleCount;
+  const sumOfSquares = samples.reduce((total, value) => total + Math.pow(value - sampleMean, 2), 0);
+  const toPpm = (count: number) => (count / sampleCount) * 1e6;
+
+  return {
+    seed,
+    sampleCount,
+    mean: sampleMean,
+    standardDeviation: Math.sqrt(sumOfSquares / sampleCount),
+    histogram: buildHistogram(samples),
+    percentiles: REPORTED_PERCENTILES.map((percentile) => ({
+      percentile,
+      value: interpolatePercentile(samples, percentile),
+    })),
+    ppmBelowMinimum: toPpm(below),
+    ppmAboveMaximum: toPpm(above),
+    ppmOutside: toPpm(below + above),
+  };
+}
+
+/**
+ * Look up one of the reported percentiles of a simulation.
+ */
+function getPercentile(result: MonteCarloResult, percentile: number): number {
+  return result.percentiles.find((p) => p.percentile === percentile)?.value ?? result.mean;
+}
+
+/**
+ * Half the spread between the 0.135% and 99.865% percentiles.
+ */
+function getSimulatedTolerance(result: MonteCarloResult): number {
+  return (getPercentile(result, 99.865) - getPercentile(result, 0.135)) / 2;
+}
+
+/**
+ * Value at a cumulative percentage of sorted samples, interpolating
+ * between neighbouring samples.
+ */
+function interpolatePercentile(sorted: Float64Array, percentile: number): number {
+  const position = (percentile / 100) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.min(lower + 1, sorted.length - 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Count sorted samples into equal-width bins from the smallest to the
+ * largest sample.
+ */
+function buildHistogram(sorted: Float64Array): HistogramBin[] {
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+
+  // All samples equal (e.g. zero tolerances): a single bin
+  if (max === min) {
+    return [{ start: min, end: max, count: sorted.length }];
+  }
+
+  const width = (max - min) / HISTOGRAM_BINS;
+  const bins: HistogramBin[] = Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({
+    start: min + i * width,
+    end: i === HISTOGRAM_BINS - 1 ? max : min + (i + 1) * width,
+    count: 0,
+  }));
+
+  for (const value of sorted) {
+    const index = Math.min(Math.floor((value - min) / width), HISTOGRAM_BINS - 1);
+    bins[index].count++;
+  }
+
+  return bins;
+}
+
+/**
+ * Zero-mean, unit-variance sampler for a dimension's distribution.
+ */
+function createDeviateSampler(dim: StackupDimension, random: SeededRandom): () => number {
+  switch (dim.distribution ?? "normal") {
+    case "uniform":
+      return () => Math.sqrt(3) * (2 * random.uniform() - 1);
+    case "triangular":
+      // Sum of two uniforms: symmetric triangle on [-√6, √6]
+      return () => Math.sqrt(6) * (random.uniform() + random.uniform() - 1);
+    case "lognormal":
+      return createLognormalSampler(dim.skewness ?? DEFAULT_SKEWNESS, random);
+    default:
+      return random.normal;
+  }
+}
+
+/**
+ * Standardized lognormal sampler with the given skewness γ.
+ * Solves (ω + 2)√(ω - 1) = |γ| for ω = exp(s²), then standardizes
+ * exp(s × z). Negative skewness mirrors the tail.
+ */
+function createLognormalSampler(skewness: number, random: SeededRandom): () => number {
+  if (skewness === 0) return random.normal;
+
+  const gamma = Math.abs(skewness);
+  const b = (2 + gamma * gamma + gamma * Math.sqrt(gamma * gamma + 4)) / 2;
+  const omega = Math.cbrt(b) + 1 / Math.cbrt(b) - 1;
+  const s = Math.sqrt(Math.log(omega));
+  const mean = Math.sqrt(omega);
+  const sd = Math.sqrt(omega * (omega - 1));
+  const direction = Math.sign(skewness);
+
+  return () => (direction * (Math.exp(s * random.normal()) - mean)) / sd;
+}
+
+interface SeededRandom {
+  /** Uniform on [0, 1) */
+  uniform: () => number;
+  /** Standard normal */
+  normal: () => number;
+}
+
+/**
+ * Seeded uniform and standard normal sources (mulberry32 generator,
+ * Box-Muller transform).
+ */
+function createRandom(seed: number): SeededRandom {
+  let state = seed >>> 0;
+  let spare: number | undefined;
+
+  const nextUniform = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const nextNormal = () => {
+    if (spare !== undefined) {
+      const value = spare;
+      spare = undefined;
+      return value;
+    }
+
+    // 1 - u keeps the logarithm finite
+    const radius = Math.sqrt(-2 * Math.log(1 - nextUniform()));
+    const angle = 2 * Math.PI * nextUniform();
+    spare = radius * Math.sin(angle);
+    return radius * Math.cos(angle);
+  };
+
+  return { uniform: nextUniform, normal: nextNormal };
+}
+
+// ============================================================================
+// VECTOR LOOPS
+// ============================================================================
+
+/**
+ * Closing dimension of a 2D vector loop for the given contributor lengths.
+ * Each length runs along its dimension's angle from the end of the previous
+ * one; the closure is measured from the start of the loop to its open end.
+ */
+export function calculateLoopClosure(
+  lengths: number[],
+  angles: number[],
+  loop: VectorLoop
+): number {
+  let x = 0;
+  let y = 0;
+  lengths.forEach((length, index) => {
+    const radians = toRadians(angles[index] ?? 0);
+    x += length * Math.cos(radians);
+    y += length * Math.sin(radians);
+  });
+
+  if (loop.closure === "distance") {
+    return Math.hypot(x, y);
+  }
+  const closureRadians = toRadians(loop.closureAngle ?? 0);
+  return x * Math.cos(closureRadians) + y * Math.sin(closureRadians);
+}
+
+/**
+ * Sensitivity of the closing dimension to each contributor length, by
+ * central differences around the nominal loop.
+ *
+ * The closure scales linearly with the lengths, so Σ(sensitivity × nominal)
+ * reproduces the geometric nominal and the linear methods stay consistent.
+ */
+export function deriveLoopSensitivities(
+  dimensions: StackupDimension[],
+  loop: VectorLoop
+): number[] {
+  const lengths = dimensions.map((dim) => dim.nominal);
+  const angles = dimensions.map((dim) => dim.angle ?? 0);
+
+  return dimensions.map((dim, index) => {
+    const step = Math.max(Math.abs(dim.nominal), 1) * 1e-6;
+    const perturbed = (delta: number) =>
+      calculateLoopClosure(
+        lengths.map((length, i) => (i === index ? length + delta : length)),
+        angles,
+        loop
+      );
+    const sensitivity = (perturbed(step) - perturbed(-step)) / (2 * step);
+    // Normalize -0 from perpendicular contributors
+    return roundTo(sensitivity, SENSITIVITY_DECIMALS) || 0;
+  });
+}
+
+/**
+ * Reduce a vector loop to a 1D chain: each dimension's sign and sensitivity
+ * coefficient are replaced by those derived from the loop geometry.
+ */
+export function resolveVectorLoop(
+  dimensions: StackupDimension[],
+  loop: VectorLoop
+): StackupDimension[] {
+  const sensitivities = deriveLoopSensitivities(dimensions, loop);
+  return dimensions.map((dim, index) => ({
+    ...dim,
+    sign: sensitivities[index] < 0 ? "negative" : "positive",
+    sensitivityCoefficient: Math.abs(sensitivities[index]),
+  }));
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
 }
 
 // ============================================================================
@@ -199,7 +645,7 @@ export function calculateContributions(
     return calculateWorstCaseContributions(dimensions);
   }
 
-  // For RSS and Six Sigma, contribution is based on variance
+  // For RSS, Six Sigma and Monte Carlo, contribution is based on variance
   return calculateVarianceContributions(dimensions, method);
 }
 
@@ -226,17 +672,17 @@ function calculateWorstCaseContributions(
 
 function calculateVarianceContributions(
   dimensions: StackupDimension[],
-  method: "rss" | "six-sigma"
+  method: "rss" | "six-sigma" | "monte-carlo"
 ): DimensionContribution[] {
   const variances = dimensions.map((dim) => {
     const bilateralTol = getBilateralTolerance(dim);
     const sensitivity = dim.sensitivityCoefficient ?? 1;
 
     let variance: number;
-    if (method === "six-sigma") {
-      const cp = dim.processCapability ?? DEFAULT_CP;
-      const sigma = (bilateralTol * sensitivity) / (3 * cp);
-      variance = Math.pow(sigma, 2);
+    if (method === "six-sigma" || method === "monte-carlo") {
+      // Distribution- and capability-aware σ
+      const defaultCp = method === "six-sigma" ? DEFAULT_CP : MONTE_CARLO_DEFAULT_CP;
+      variance = Math.pow(getStandardDeviation(dim, defaultCp) * sensitivity, 2);
     } else {
       variance = Math.pow(bilateralTol * sensitivity, 2);
     }
@@ -310,6 +756,10 @@ export function validateStackupInput(
 ): StackupValidationResult {
   const errors: string[] = [];
   const warnings: string[] = [];
+  const { vectorLoop } = analysis;
+  const dimensions = vectorLoop
+    ? resolveVectorLoop(analysis.dimensions, vectorLoop)
+    : analysis.dimensions;
 
   // Minimum dimensions
   if (analysis.dimensions.length < 2) {
@@ -317,7 +767,7 @@ export function validateStackupInput(
   }
 
   // Check for valid tolerances
-  analysis.dimensions.forEach((dim, index) => {
+  dimensions.forEach((dim, index) => {
     if (dim.tolerancePlus < 0 || dim.toleranceMinus < 0) {
       errors.push(
         `Dimension ${index + 1} "${dim.name}": Tolerances must be non-negative`
@@ -337,7 +787,7 @@ export function validateStackupInput(
     }
 
     if (
-      analysis.analysisMethod === "six-sigma" &&
+      (analysis.analysisMethod === "six-sigma" || analysis.analysisMethod === "monte-carlo") &&
       dim.processCapability !== undefined
     ) {
       if (dim.processCapability < 1.0) {
@@ -346,13 +796,64 @@ export function validateStackupInput(
         );
       }
     }
+
+    if (dim.processCapabilityK !== undefined) {
+      if (dim.processCapability !== undefined && dim.processCapabilityK > dim.processCapability) {
+        warnings.push(
+          `Dimension ${index + 1} "${dim.name}": Cpk cannot exceed Cp; Cpk is used`
+        );
+      }
+      if (dim.processCapabilityK < 1.0) {
+        warnings.push(
+          `Dimension ${index + 1} "${dim.name}": Cpk < 1.0 indicates incapable process`
+        );
+      }
+    }
+
+    if (
+      dim.meanOffset !== undefined &&
+      dim.meanOffset !== 0 &&
+      Math.abs(dim.meanOffset) >= getBilateralTolerance(dim)
+    ) {
+      errors.push(
+        `Dimension ${index + 1} "${dim.name}": Mean offset must lie inside the tolerance zone`
+      );
+    }
+
+    if (dim.skewness !== undefined && dim.distribution !== "lognormal") {
+      warnings.push(
+        `Dimension ${index + 1} "${dim.name}": Skewness only applies to lognormal distributions`
+      );
+    }
   });
 
-  // Sign convention check (optional but helpful)
-  const hasPositive = analysis.dimensions.some((d) => d.sign === "positive");
-  const hasNegative = analysis.dimensions.some((d) => d.sign === "negative");
+  if (analysis.analysisMethod === "monte-carlo") {
+    const sampleCount = analysis.monteCarlo?.sampleCount ?? DEFAULT_MONTE_CARLO_SAMPLES;
+    if (!Number.isInteger(sampleCount) || sampleCount < 1000 || sampleCount > 1000000) {
+      errors.push("Monte Carlo sample count must be a whole number from 1,000 to 1,000,000");
+    } else if (sampleCount < 10000) {
+      warnings.push(
+        `Monte Carlo with ${sampleCount} samples resolves PPM only to ${Math.round(1e6 / sampleCount)} PPM`
+      );
+    }
+  }
+
+  if (vectorLoop?.closure === "distance") {
+    const nominalDistance = calculateLoopClosure(
+      analysis.dimensions.map((d) => d.nominal),
+      analysis.dimensions.map((d) => d.angle ?? 0),
+      vectorLoop
+    );
+    if (nominalDistance < 1e-9) {
+      errors.push("Vector loop closes on itself; a distance closure needs a nonzero nominal gap");
+    }
+  }
+
+  // Sign convention check (optional but helpful); vector loops derive signs
+  const hasPositive = dimensions.some((d) => d.sign === "positive");
+  const hasNegative = dimensions.some((d) => d.sign === "negative");
 
-  if (!hasPositive || !hasNegative) {
+  if (!vectorLoop && (!hasPositive || !hasNegative)) {
     warnings.push("All dimensions have same sign. Verify sign convention is correct.");
   }
 
@@ -403,6 +904,7 @@ export function compareAllMethods(
     "worst-case": calculateStackup({ ...analysis, analysisMethod: "worst-case" }),
     rss: calculateStackup({ ...analysis, analysisMethod: "rss" }),
     "six-sigma": calculateStackup({ ...analysis, analysisMethod: "six-sigma" }),
+    "monte-carlo": calculateStackup({ ...analysis, analysisMethod: "monte-carlo" }),
   };
 }
 
@@ -0,0 +1,217 @@
+import type { FcfJson, Unit } from "@/lib/fcf/schema";
+import { findDatumFeature, isDatumFeatureOfSize, type DatumFeature } from "@/lib/fcf/datums";
+import { convertValue } from "@/lib/util/units";
+import type { FcfLink, StackupDimension, StackupSign, StackupUnit } from "./schema";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * FCF record as seen by a stack-up.
+ */
+export interface LinkedFcfRecord {
+  id: string;
+  name: string;
+  fcf: FcfJson;
+  /** Record version (updated_at) */
+  updatedAt?: string;
+}
+
+/**
+ * FCF records and datum catalog a stack-up can link to (one project).
+ */
+export interface FcfLinkSource {
+  records: LinkedFcfRecord[];
+  datumCatalog?: DatumFeature[];
+}
+
+/**
+ * Tolerance derived from an FCF for one contributor.
+ */
+export interface FcfContribution {
+  tolerancePlus: number;
+  toleranceMinus: number;
+}
+
+/**
+ * Outcome of re-deriving linked dimensions from the current FCF records.
+ */
+export interface FcfRefreshResult {
+  dimensions: StackupDimension[];
+  /** Dimensions whose tolerances changed with their FCF */
+  updated: string[];
+  /** Dimensions whose FCF record or contributor no longer exists */
+  missing: string[];
+}
+
+// ============================================================================
+// DERIVATION
+// ============================================================================
+
+/**
+ * Convert an FCF tolerance into the stack-up unit, rounded inward.
+ */
+function toStackupUnit(value: number, from: Unit, to: StackupUnit): number {
+  return convertValue(value, from, to, undefined, "inward").value;
+}
+
+/**
+ * Total size tolerance of a feature of size, or 0 when not toleranced.
+ */
+function sizeTolerance(size: { tolerancePlus?: number; toleranceMinus?: number } | undefined): number {
+  return (size?.tolerancePlus ?? 0) + (size?.toleranceMinus ?? 0);
+}
+
+/**
+ * Derive the tolerance of one FCF contributor in the stack-up unit.
+ *
+ * - geometric: a zone of width T (or diameter T) allows ±T/2 radially. An
+ *   unequally disposed profile with U outside the true profile gives +U/-(T - U).
+ * - bonus: a tolerance at MMC/LMC grows as the feature departs from that
+ *   size, so the feature moves by up to ±(size tolerance)/2 more.
+ * - datumShift: a datum feature of size referenced at MMB/LMB can shift by
+ *   up to ±(datum size tolerance)/2 on its simulator.
+ *
+ * Returns undefined when the FCF does not (or no longer does) provide the
+ * contributor.
+ */
+export function deriveFcfContribution(
+  link: Pick<FcfLink, "contributor" | "datumId">,
+  fcf: FcfJson,
+  unit: StackupUnit,
+  datumCatalog?: DatumFeature[]
+): FcfContribution | undefined {
+  switch (link.contributor) {
+    case "geometric": {
+      if (fcf.characteristic === "other") return undefined;
+
+      const zone = toStackupUnit(fcf.tolerance.value, fcf.tolerance.unit ?? fcf.sourceUnit, unit);
+      const outside = fcf.tolerance.outsideAmount;
+      if (fcf.modifiers?.includes("UNEQUALLY_DISPOSED") && outside !== undefined) {
+        const outsideValue = toStackupUnit(outside, fcf.tolerance.unit ?? fcf.sourceUnit, unit);
+        return { tolerancePlus: outsideValue, toleranceMinus: zone - outsideValue };
+      }
+      return { tolerancePlus: zone / 2, toleranceMinus: zone / 2 };
+    }
+
+    case "bonus": {
+      const condition = fcf.tolerance.materialCondition;
+      const size = fcf.sizeDimension;
+      if ((condition !== "MMC" && condition !== "LMC") || sizeTolerance(size) <= 0) return undefined;
+
+      const bonus = toStackupUnit(sizeTolerance(size), size?.unit ?? fcf.sourceUnit, unit);
+      return { tolerancePlus: bonus / 2, toleranceMinus: bonus / 2 };
+    }
+
+    case "datumShift": {
+      const reference = fcf.datums?.find((datum) => datum.id === link.datumId);
+      const condition = reference?.materialCondition;
+      if (!reference || (condition !== "MMC" && condition !== "LMC")) return undefined;
+
+      const feature = findDatumFeature(datumCatalog, reference.id);
+      if (!feature || !isDatumFeatureOfSize(feature) || sizeTolerance(feature.size) <= 0) return undefined;
+
+      const shift = toStackupUnit(sizeTolerance(feature.size), feature.size?.unit ?? fcf.sourceUnit, unit);
+      return { tolerancePlus: shift / 2, toleranceMinus: shift / 2 };
+    }
+  }
+}
+
+/**
+ * Contributor name shown in the dimension table.
+ */
+function contributorName(record: LinkedFcfRecord, link: Pick<FcfLink, "contributor" | "datumId">): string {
+  switch (link.contributor) {
+    case "geometric":
+      return record.name;
+    case "bonus":
+      return `${record.name} bonus`;
+    case "datumShift":
+      return `${record.name} datum ${link.datumId} shift`;
+  }
+}
+
+/**
+ * Create stack-up dimensions for everything an FCF contributes: the
+ * geometric tolerance, bonus tolerance at MMC/LMC and a datum shift for
+ * every datum feature of size referenced at MMB/LMB.
+ */
+export function deriveFcfContributors(
+  record: LinkedFcfRecord,
+  options: { unit: StackupUnit; sign?: StackupSign; datumCatalog?: DatumFeature[] }
+): StackupDimension[] {
+  const links: Pick<FcfLink, "contributor" | "datumId">[] = [
+    { contributor: "geometric" },
+    { contributor: "bonus" },
+    ...(record.fcf.datums ?? []).map((datum) => ({ contributor: "datumShift" as const, datumId: datum.id })),
+  ];
+
+  return links.flatMap((link) => {
+    const contribution = deriveFcfContribution(link, record.fcf, options.unit, options.datumCatalog);
+    if (!contribution) return [];
+
+    return [
+      {
+        id: crypto.randomUUID(),
+        name: contributorName(record, link),
+        nominal: 0,
+        ...contribution,
+        sign: options.sign ?? "positive",
+        sensitivityCoefficient: 1,
+        fcfLink: {
+          fcfRecordId: record.id,
+          ...link,
+          ...(record.updatedAt && { fcfUpdatedAt: record.updatedAt }),
+        },
+      },
+    ];
+  });
+}
+
+// ============================================================================
+// RE-DERIVATION
+// ============================================================================
+
+/**
+ * Re-derive the tolerances of linked dimensions from the current FCF
+ * records, so a stack-up follows edits to the FCFs it references.
+ * Unlinked dimensions and names are left alone; dimensions whose FCF or
+ * contributor disappeared keep their last values and are reported.
+ */
+export function refreshFcfContributors(
+  dimensions: StackupDimension[],
+  source: FcfLinkSource,
+  unit: StackupUnit
+): FcfRefreshResult {
+  const updated: string[] = [];
+  const missing: string[] = [];
+
+  const refreshed = dimensions.map((dim) => {
+    if (!dim.fcfLink) return dim;
+
+    const record = source.records.find((r) => r.id === dim.fcfLink?.fcfRecordId);
+    const contribution = record
+      ? deriveFcfContribution(dim.fcfLink, record.fcf, unit, source.datumCatalog)
+      : undefined;
+
+    if (!record || !contribution) {
+      missing.push(dim.id);
+      return dim;
+    }
+
+    const changed =
+      contribution.tolerancePlus !== dim.tolerancePlus ||
+      contribution.toleranceMinus !== dim.toleranceMinus;
+    if (!changed && record.updatedAt === dim.fcfLink.fcfUpdatedAt) return dim;
+
+    if (changed) updated.push(dim.id);
+    return {
+      ...dim,
+      ...contribution,
+      fcfLink: { ...dim.fcfLink, fcfUpdatedAt: record.updatedAt },
+    };
+  });
+
+  return { dimensions: refreshed, updated, missing };
+}
@@ -5,11 +5,20 @@ export {
   StackupAnalysisSchema,
   StackupResultSchema,
   DimensionContributionSchema,
+  FcfLinkSchema,
+  VectorLoopSchema,
+  AllocationConstraintSchema,
+  MonteCarloSettingsSchema,
+  MonteCarloResultSchema,
+  HistogramBinSchema,
+  PercentileSchema,
   parseStackupAnalysis,
   parseStackupDimension,
   isStackupAnalysis,
   isStackupDimension,
   DEFAULT_PROCESS_CAPABILITY,
+  DEFAULT_MONTE_CARLO_SAMPLES,
+  DEFAULT_MONTE_CARLO_SEED,
   stackupConstraintNotes,
 } from "./schema";
 
@@ -18,11 +27,22 @@ export type {
   PositiveDirection,
   AnalysisMethod,
   StackupUnit,
+  DimensionDistribution,
+  FcfContributor,
+  FcfLink,
+  LoopClosure,
+  VectorLoop,
+  AllocationStrategy,
+  AllocationConstraint,
   StackupDimension,
   AcceptanceCriteria,
   StackupAnalysis,
   StackupResult,
   DimensionContribution,
+  MonteCarloSettings,
+  MonteCarloResult,
+  HistogramBin,
+  Percentile,
   CreateStackupInput,
   UpdateStackupInput,
 } from "./schema";
@@ -32,10 +52,18 @@ export {
   calculateStackup,
   calculateNominal,
   calculateMeanShift,
+  calculateMeanOffset,
+  getStandardDeviation,
+  calculateClosingStandardDeviation,
+  calculatePredictedCpk,
   calculateTotalTolerance,
   calculateWorstCase,
   calculateRSS,
   calculateSixSigma,
+  simulateStackup,
+  calculateLoopClosure,
+  deriveLoopSensitivities,
+  resolveVectorLoop,
   calculateContributions,
   checkAcceptance,
   validateStackupInput,
@@ -47,3 +75,26 @@ export {
 } from "./calculator";
 
 export type { StackupValidationResult } from "./calculator";
+
+// FCF link exports
+export {
+  deriveFcfContribution,
+  deriveFcfContributors,
+  refreshFcfContributors,
+} from "./fcf";
+
+export type {
+  LinkedFcfRecord,
+  FcfLinkSource,
+  FcfContribution,
+  FcfRefreshResult,
+} from "./fcf";
+
+// Tolerance allocation exports
+export { allocateTolerances, getAllocationWeights } from "./allocation";
+
+export type {
+  AllocationChange,
+  ToleranceAllocation,
+  AllocationOptions,
+} from "./allocation";
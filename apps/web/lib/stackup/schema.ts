@@ -6,8 +6,12 @@ import { z } from "zod";
 
 export type StackupSign = "positive" | "negative";
 export type PositiveDirection = "left-to-right" | "right-to-left" | "bottom-to-top" | "top-to-bottom";
-export type AnalysisMethod = "worst-case" | "rss" | "six-sigma";
+export type AnalysisMethod = "worst-case" | "rss" | "six-sigma" | "monte-carlo";
 export type StackupUnit = "mm" | "inch";
+export type DimensionDistribution = "normal" | "uniform" | "triangular" | "lognormal";
+export type FcfContributor = "geometric" | "bonus" | "datumShift";
+export type LoopClosure = "projection" | "distance";
+export type AllocationStrategy = "proportional" | "equal-precision" | "cost-minimization";
 
 // ============================================================================
 // ZOD SCHEMAS
@@ -20,8 +24,52 @@ const positiveDirectionSchema = z.enum([
   "bottom-to-top",
   "top-to-bottom",
 ]);
-const analysisMethodSchema = z.enum(["worst-case", "rss", "six-sigma"]);
+const analysisMethodSchema = z.enum(["worst-case", "rss", "six-sigma", "monte-carlo"]);
 const stackupUnitSchema = z.enum(["mm", "inch"]);
+const dimensionDistributionSchema = z.enum(["normal", "uniform", "triangular", "lognormal"]);
+const fcfContributorSchema = z.enum(["geometric", "bonus", "datumShift"]);
+
+/**
+ * Link from a stack-up dimension to the FCF record its tolerance is derived from.
+ * - geometric: the FCF tolerance zone as an equal-bilateral radial value (±T/2)
+ * - bonus: departure of the feature from MMC/LMC size (±size tolerance / 2)
+ * - datumShift: departure of a datum feature from MMB/LMB (±size tolerance / 2)
+ */
+export const FcfLinkSchema = z.object({
+  fcfRecordId: z.string().min(1),
+  contributor: fcfContributorSchema,
+  /** Datum letter for datum shift contributors */
+  datumId: z.string().max(10).optional(),
+  /** FCF record version (updated_at) the tolerances were derived from */
+  fcfUpdatedAt: z.string().optional(),
+});
+
+/**
+ * 2D vector-loop definition. Each dimension is a vector of length `nominal`
+ * along its `angle`; the closing dimension is measured from the start of the
+ * loop to its open end:
+ * - projection: the end point projected onto `closureAngle` (e.g. a gap)
+ * - distance: straight-line distance between start and end
+ * Signs and sensitivity coefficients are derived from the geometry.
+ */
+export const VectorLoopSchema = z.object({
+  closure: z.enum(["projection", "distance"]),
+  /** Measurement direction of a projection closure, degrees counterclockwise from +X (default: 0) */
+  closureAngle: z.number().optional(),
+});
+
+/**
+ * Cost and capability constraints used when allocating tolerances.
+ * Limits are bilateral (±) tolerances in the analysis unit.
+ */
+export const AllocationConstraintSchema = z.object({
+  /** Tightest tolerance the process can hold */
+  minTolerance: z.number().nonnegative().optional(),
+  /** Loosest tolerance the design allows */
+  maxTolerance: z.number().nonnegative().optional(),
+  /** Relative cost of tightening this tolerance (default: 1) */
+  costWeight: z.number().positive().optional(),
+});
 
 /**
  * Individual dimension in the tolerance stack.
@@ -45,8 +93,28 @@ export const StackupDimensionSchema = z.object({
   sign: stackupSignSchema,
   /** Sensitivity coefficient for non-1:1 relationships (default: 1) */
   sensitivityCoefficient: z.number().default(1),
+  /** Direction in a 2D vector loop, degrees counterclockwise from +X (default: 0) */
+  angle: z.number().optional(),
   /** Process capability (Cp) for Six Sigma method */
   processCapability: z.number().positive().optional(),
+  /**
+   * Process capability index (Cpk). Together with the mean offset it sets
+   * the spread: σ = (t - |offset|) / (3 × Cpk). Takes precedence over Cp.
+   */
+  processCapabilityK: z.number().positive().optional(),
+  /** Shape of the manufacturing distribution (default: normal) */
+  distribution: dimensionDistributionSchema.optional(),
+  /**
+   * Process mean relative to the center of the tolerance zone, in the
+   * analysis unit (e.g. +0.01 for a diameter growing with tool wear)
+   */
+  meanOffset: z.number().optional(),
+  /** Skewness of a lognormal distribution (default: 1; negative skews toward the minus limit) */
+  skewness: z.number().optional(),
+  /** FCF record this dimension is derived from; tolerances follow the FCF */
+  fcfLink: FcfLinkSchema.optional(),
+  /** Constraints for tolerance allocation */
+  allocation: AllocationConstraintSchema.optional(),
   /** Source drawing reference */
   sourceDrawing: z.string().max(100).optional(),
   /** Drawing revision */
@@ -68,6 +136,17 @@ export const AcceptanceCriteriaSchema = z
     message: "At least one acceptance limit required",
   });
 
+/**
+ * Sampler settings for the Monte Carlo method.
+ * The same seed and sample count always reproduce the same result.
+ */
+export const MonteCarloSettingsSchema = z.object({
+  /** Number of simulated assemblies (default: 50,000) */
+  sampleCount: z.number().int().min(1000).max(1000000).optional(),
+  /** Seed for the pseudo-random sampler (default: 1) */
+  seed: z.number().int().nonnegative().max(4294967295).optional(),
+});
+
 /**
  * Complete stack-up analysis definition.
  * Contains all dimensions and configuration for calculating tolerance accumulation.
@@ -87,8 +166,16 @@ export const StackupAnalysisSchema = z.object({
   dimensions: z.array(StackupDimensionSchema).min(2).max(50),
   /** Statistical method for tolerance calculation */
   analysisMethod: analysisMethodSchema,
+  /** 2D vector-loop mode; sign and sensitivity are then derived per dimension */
+  vectorLoop: VectorLoopSchema.optional(),
+  /** Sampler settings, used by the Monte Carlo method */
+  monteCarlo: MonteCarloSettingsSchema.optional(),
   /** Unit system for all dimensions */
   unit: stackupUnitSchema,
+  /** Version number within the analysis history (default: 1) */
+  version: z.number().int().positive().optional(),
+  /** Analysis this version was created from (e.g. an accepted allocation) */
+  previousVersionId: z.string().uuid().optional(),
   createdBy: z.string().uuid(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
@@ -109,6 +196,49 @@ export const DimensionContributionSchema = z.object({
   varianceContribution: z.number().nonnegative(),
 });
 
+/**
+ * One bar of the simulated result histogram.
+ */
+export const HistogramBinSchema = z.object({
+  /** Lower edge of the bin (inclusive) */
+  start: z.number(),
+  /** Upper edge of the bin (exclusive, except for the last bin) */
+  end: z.number(),
+  /** Number of samples in the bin */
+  count: z.number().int().nonnegative(),
+});
+
+/**
+ * Simulated result value at a given cumulative percentage.
+ */
+export const PercentileSchema = z.object({
+  /** Cumulative percentage, e.g. 99.865 for the +3σ equivalent */
+  percentile: z.number().min(0).max(100),
+  value: z.number(),
+});
+
+/**
+ * Distribution details of a Monte Carlo calculation.
+ */
+export const MonteCarloResultSchema = z.object({
+  /** Seed the sampler was started with */
+  seed: z.number().int().nonnegative(),
+  sampleCount: z.number().int().positive(),
+  /** Mean of the simulated results */
+  mean: z.number(),
+  /** Standard deviation of the simulated results */
+  standardDeviation: z.number().nonnegative(),
+  /** Equal-width bins spanning the simulated results */
+  histogram: z.array(HistogramBinSchema),
+  percentiles: z.array(PercentileSchema),
+  /** Estimated parts per million below the acceptance minimum */
+  ppmBelowMinimum: z.number().nonnegative(),
+  /** Estimated parts per million above the acceptance maximum */
+  ppmAboveMaximum: z.number().nonnegative(),
+  /** Estimated parts per million outside the acceptance criteria */
+  ppmOutside: z.number().nonnegative(),
+});
+
 /**
  * Complete result of a stack-up calculation.
  * Generated on-demand, not persisted.
@@ -132,6 +262,12 @@ export const StackupResultSchema = z.object({
   contributions: z.array(DimensionContributionSchema),
   /** Method used for this calculation */
   method: analysisMethodSchema,
+  /** Standard deviation of the closing dimension (Six Sigma and Monte Carlo) */
+  standardDeviation: z.number().nonnegative().optional(),
+  /** Predicted Cpk of the closing dimension against the acceptance criteria */
+  predictedCpk: z.number().optional(),
+  /** Simulated distribution (Monte Carlo method only) */
+  monteCarlo: MonteCarloResultSchema.optional(),
 });
 
 // ============================================================================
@@ -143,6 +279,13 @@ export type AcceptanceCriteria = z.infer<typeof AcceptanceCriteriaSchema>;
 export type StackupAnalysis = z.infer<typeof StackupAnalysisSchema>;
 export type DimensionContribution = z.infer<typeof DimensionContributionSchema>;
 export type StackupResult = z.infer<typeof StackupResultSchema>;
+export type FcfLink = z.infer<typeof FcfLinkSchema>;
+export type VectorLoop = z.infer<typeof VectorLoopSchema>;
+export type AllocationConstraint = z.infer<typeof AllocationConstraintSchema>;
+export type MonteCarloSettings = z.infer<typeof MonteCarloSettingsSchema>;
+export type HistogramBin = z.infer<typeof HistogramBinSchema>;
+export type Percentile = z.infer<typeof PercentileSchema>;
+export type MonteCarloResult = z.infer<typeof MonteCarloResultSchema>;
 
 /** Input type for creating a new stack-up (omits server-generated fields) */
 export type CreateStackupInput = Omit<
@@ -150,9 +293,12 @@ export type CreateStackupInput = Omit<
   "id" | "createdBy" | "createdAt" | "updatedAt"
 >;
 
-/** Input type for updating an existing stack-up */
+/** Input type for updating an existing stack-up (versions are immutable lineage) */
 export type UpdateStackupInput = Partial<
-  Omit<StackupAnalysis, "id" | "projectId" | "createdBy" | "createdAt">
+  Omit<
+    StackupAnalysis,
+    "id" | "projectId" | "createdBy" | "createdAt" | "version" | "previousVersionId"
+  >
 >;
 
 // ============================================================================
@@ -195,6 +341,12 @@ export function isStackupDimension(raw: unknown): raw is StackupDimension {
  */
 export const DEFAULT_PROCESS_CAPABILITY = 1.33;
 
+/**
+ * Default Monte Carlo sample count and seed.
+ */
+export const DEFAULT_MONTE_CARLO_SAMPLES = 50000;
+export const DEFAULT_MONTE_CARLO_SEED = 1;
+
 // ============================================================================
 // VALIDATION NOTES
 // ============================================================================
@@ -205,7 +357,12 @@ export const DEFAULT_PROCESS_CAPABILITY = 1.33;
  * - Tolerances stored as positive values; bilateral = equal plus/minus
  * - Unilateral tolerances: one value is 0
  * - Six Sigma requires processCapability per dimension (defaults to 1.33)
+ * - Monte Carlo samples each dimension from its distribution and is
+ *   reproducible from its seed
+ * - Cpk and mean offset describe off-center processes; Cp/Cpk set the
+ *   standard deviation whatever the distribution shape
  * - Verification: Sum of (sign × nominal × sensitivity) = nominal closing dimension
+ *   (also for vector loops: the closure scales linearly with the lengths)
  */
 export const stackupConstraintNotes: string[] = [
   "Positive sign means increasing this dimension increases the closing gap/result.",
@@ -216,4 +373,9 @@ export const stackupConstraintNotes: string[] = [
   "Six Sigma method uses Cp (process capability) per dimension; defaults to 1.33 if not specified.",
   "RSS method assumes normal distribution and calculates root-sum-square of tolerances.",
   "Worst-case adds all tolerances directly (most conservative).",
+  "Monte Carlo simulates assemblies from a seeded sampler; limits are the 0.135% and 99.865% percentiles.",
+  "In a 2D vector loop each dimension has a direction angle; signs and sensitivities are derived numerically from the closure.",
+  "Dimensions linked to an FCF record take their tolerance from the FCF and are re-derived when it changes.",
+  "Each dimension may be normal, uniform, triangular or lognormal, with a mean offset from the tolerance zone center and a Cpk.",
+  "Tolerance allocation keeps FCF-linked dimensions fixed and respects each dimension's min/max tolerance; an accepted allocation becomes a new version.",
 ];
@@ -1,3 +1,7 @@
-export function formatNumber(value: number, decimals = 2) {
-  return value.toFixed(decimals);
+import type { Unit } from "@/lib/fcf/schema";
+import { UNIT_LABELS } from "./units";
+
+export function formatNumber(value: number, decimals = 2, unit?: Unit) {
+  const text = value.toFixed(decimals);
+  return unit ? `${text} ${UNIT_LABELS[unit]}` : text;
 }
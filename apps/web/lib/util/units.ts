@@ -1,3 +1,437 @@
-export function toDisplayUnit(value: number, unit: "mm" | "inch") {
-  return { value, unit };
+/**
+ * Unit conversion and display precision.
+ *
+ * Every dimensional value carries its unit (FcfJson.sourceUnit, calculator
+ * and stack-up `unit`); conversions between mm and inch go through this
+ * module rather than being done inline.
+ *
+ * Rounding rules:
+ * - The factor is exact: 1 inch = 25.4 mm
+ * - A converted value is shown with comparable precision: mm → inch adds one
+ *   decimal place, inch → mm drops one, with at least 2 places in mm and 3
+ *   in inch
+ * - Places are added until the rounded value equals the exact converted
+ *   value, up to 6; inch → mm always gets there (0.001 in → 0.0254 mm)
+ * - A value that still differs from the exact conversion, or a fixed
+ *   precision that cannot hold it, is flagged as having lost precision.
+ *   Tolerances are then rounded inward (toward zero) so a converted zone is
+ *   never looser than the drawing
+ * - Values already in the target unit are left untouched
+ */
+
+import type { FcfJson, ToleranceZone, Unit } from "@/lib/fcf/schema";
+import type { PositionInput } from "@/lib/calc/types";
+import type { UserSettings } from "@/lib/settings/types";
+import type { StackupAnalysis } from "@/lib/stackup/schema";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MM_PER_INCH = 25.4;
+
+export const UNIT_LABELS: Record<Unit, string> = {
+  mm: "mm",
+  inch: "in",
+};
+
+/** Fewest decimal places a converted value is rounded to */
+const MIN_DECIMALS: Record<Unit, number> = { mm: 2, inch: 3 };
+
+/** Most decimal places added to keep a converted value exact */
+const MAX_DECIMALS: Record<Unit, number> = { mm: 6, inch: 6 };
+
+/** Display decimal places when the user has no preference */
+const DEFAULT_DISPLAY_DECIMALS: Record<Unit, number> = { mm: 3, inch: 4 };
+
+/** Decimal places beyond which source values are treated as float noise */
+const MAX_SOURCE_DECIMALS = 6;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * How a converted value is rounded when it cannot be kept exact:
+ * to the nearest step, or toward zero for tolerances.
+ */
+export type Rounding = "nearest" | "inward";
+
+/**
+ * Display options taken from the user's settings.
+ */
+export interface DisplayPrecision {
+  /** Decimal places (UserSettings.decimals; default: by the rules above) */
+  decimals?: number;
+  /** Also show the value in the other unit (UserSettings.dualDisplay) */
+  dualDisplay?: boolean;
+  /** Unit to display in (default: the value's own unit) */
+  displayUnit?: Unit;
+}
+
+/**
+ * A value converted to another unit and rounded.
+ */
+export interface ConvertedValue {
+  value: number;
+  /** Decimal places the value was rounded to */
+  decimals: number;
+  /** Whether the rounded value differs from the exact converted value */
+  precisionLost: boolean;
+}
+
+/**
+ * Record of one value changed by a conversion.
+ */
+export interface ConversionNote {
+  /** Path of the value in the converted object (e.g., "tolerance.value") */
+  path: string;
+  original: number;
+  converted: number;
+  precisionLost: boolean;
+}
+
+/**
+ * Result of converting a whole object between units.
+ */
+export interface UnitConversion<T> {
+  value: T;
+  from: Unit;
+  to: Unit;
+  notes: ConversionNote[];
+}
+
+// ============================================================================
+// VALUE CONVERSION
+// ============================================================================
+
+function round(value: number, decimals: number, rounding: Rounding = "nearest"): number {
+  const factor = Math.pow(10, decimals);
+  if (rounding === "inward") {
+    // Allow for floating point noise just short of a representable value
+    return Math.trunc(value * factor + Math.sign(value) * 1e-6) / factor;
+  }
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Whether a rounded value equals the exact value up to floating point noise.
+ */
+function isExact(rounded: number, exact: number): boolean {
+  return Math.abs(rounded - exact) <= 1e-9 * Math.max(1, Math.abs(exact));
+}
+
+/**
+ * Convert a value between units without rounding.
+ */
+export function convertUnit(value: number, from: Unit, to: Unit): number {
+  if (from === to) return value;
+  return from === "mm" ? value / MM_PER_INCH : value * MM_PER_INCH;
+}
+
+/**
+ * Number of decimal places a value is stated to.
+ */
+export function decimalsOf(value: number): number {
+  const text = Number(value.toFixed(MAX_SOURCE_DECIMALS)).toString();
+  const dot = text.indexOf(".");
+  return dot === -1 ? 0 : text.length - dot - 1;
+}
+
+/**
+ * Convert a value between units, rounding by the rules above or to a fixed
+ * number of decimal places. Tolerances are converted with "inward" rounding.
+ */
+export function convertValue(
+  value: number,
+  from: Unit,
+  to: Unit,
+  decimals?: number,
+  rounding: Rounding = "nearest"
+): ConvertedValue {
+  if (from === to) {
+    return decimals === undefined
+      ? { value, decimals: decimalsOf(value), precisionLost: false }
+      : { value: round(value, decimals), decimals, precisionLost: false };
+  }
+
+  const raw = convertUnit(value, from, to);
+  let places = decimals ?? Math.max(MIN_DECIMALS[to], decimalsOf(value) + (to === "inch" ? 1 : -1));
+  if (decimals === undefined) {
+    const limit = Math.max(MAX_DECIMALS[to], places);
+    while (places < limit && !isExact(round(raw, places), raw)) places++;
+  }
+
+  const nearest = round(raw, places);
+  const precisionLost = !isExact(nearest, raw);
+  return {
+    value: precisionLost ? round(raw, places, rounding) : nearest,
+    decimals: places,
+    precisionLost,
+  };
+}
+
+/**
+ * Value in the display unit.
+ */
+export function toDisplayUnit(value: number, unit: Unit, displayUnit: Unit = unit, decimals?: number) {
+  const converted = convertValue(value, unit, displayUnit, decimals);
+  return { value: converted.value, unit: displayUnit, precisionLost: converted.precisionLost };
+}
+
+/**
+ * Decimal places to display values in a unit: the user's setting applies to
+ * their preferred unit, with one more place in inch or one fewer in mm when
+ * the values are in the other unit.
+ */
+export function displayDecimals(unit: Unit, settings?: Pick<UserSettings, "unit"> & { decimals: number }): number {
+  if (!settings) return DEFAULT_DISPLAY_DECIMALS[unit];
+  if (settings.unit === unit) return settings.decimals;
+  return Math.max(0, settings.decimals + (unit === "inch" ? 1 : -1));
+}
+
+/**
+ * Format a dimension with its unit label, honouring the display unit,
+ * decimal places and dual (mm and inch) display settings.
+ */
+export function formatDimension(value: number, unit: Unit, options: DisplayPrecision = {}): string {
+  const displayUnit = options.displayUnit ?? unit;
+  const primary = convertValue(value, unit, displayUnit, options.decimals);
+  const text = `${primary.value.toFixed(primary.decimals)} ${UNIT_LABELS[displayUnit]}`;
+
+  if (!options.dualDisplay) return text;
+
+  const otherUnit: Unit = displayUnit === "mm" ? "inch" : "mm";
+  const secondaryDecimals =
+    options.decimals === undefined ? undefined : displayDecimals(otherUnit, { unit: displayUnit, decimals: options.decimals });
+  const secondary = convertValue(value, unit, otherUnit, secondaryDecimals);
+  return `${text} [${secondary.value.toFixed(secondary.decimals)} ${UNIT_LABELS[otherUnit]}]`;
+}
+
+// ============================================================================
+// OBJECT CONVERSION
+// ============================================================================
+
+/**
+ * Converter collecting a note for each value it changes.
+ */
+function createConverter(to: Unit, decimals?: number) {
+  const notes: ConversionNote[] = [];
+
+  const convert = (value: number, from: Unit, path: string, rounding?: Rounding): number => {
+    // Frames being edited may have blank fields
+    if (from === to || !Number.isFinite(value)) return value;
+    const converted = convertValue(value, from, to, decimals, rounding);
+    notes.push({ path, original: value, converted: converted.value, precisionLost: converted.precisionLost });
+    return converted.value;
+  };
+
+  return { convert, notes };
+}
+
+type Convert = ReturnType<typeof createConverter>["convert"];
+
+function convertTolerance(tolerance: ToleranceZone, from: Unit, convert: Convert, path: string): ToleranceZone {
+  const { unit: _unit, ...rest } = tolerance;
+  const unit = tolerance.unit ?? from;
+  const value = convert(tolerance.value, unit, `${path}.value`, "inward");
+  // Rounded inward too and kept within the zone, so Ⓤ stays a valid frame
+  const outsideAmount =
+    tolerance.outsideAmount !== undefined
+      ? Math.min(convert(tolerance.outsideAmount, unit, `${path}.outsideAmount`, "inward"), value)
+      : undefined;
+  return {
+    ...rest,
+    value,
+    ...(outsideAmount !== undefined && { outsideAmount }),
+    ...(tolerance.zoneOffset !== undefined && {
+      zoneOffset: convert(tolerance.zoneOffset, unit, `${path}.zoneOffset`),
+    }),
+  };
+}
+
+/**
+ * Convert every dimensional value of a feature control frame, including
+ * values with their own unit override, and set its source unit. Frames
+ * still being built only need a unit and tolerance.
+ */
+export function convertFcf<T extends Partial<FcfJson> & Pick<FcfJson, "sourceUnit" | "tolerance">>(
+  fcf: T,
+  to: Unit,
+  decimals?: number
+): UnitConversion<T> {
+  const from = fcf.sourceUnit;
+  const { convert, notes } = createConverter(to, decimals);
+  const value: T = {
+    ...fcf,
+    sourceUnit: to,
+    tolerance: convertTolerance(fcf.tolerance, from, convert, "tolerance"),
+  };
+
+  if (fcf.sizeDimension) {
+    const { unit: _unit, ...size } = fcf.sizeDimension;
+    const unit = fcf.sizeDimension.unit ?? from;
+    value.sizeDimension = {
+      ...size,
+      nominal: convert(size.nominal, unit, "sizeDimension.nominal"),
+      ...(size.tolerancePlus !== undefined && {
+        tolerancePlus: convert(size.tolerancePlus, unit, "sizeDimension.tolerancePlus", "inward"),
+      }),
+      ...(size.toleranceMinus !== undefined && {
+        toleranceMinus: convert(size.toleranceMinus, unit, "sizeDimension.toleranceMinus", "inward"),
+      }),
+    };
+  }
+
+  if (fcf.projectedZone) {
+    value.projectedZone = {
+      height: convert(fcf.projectedZone.height, fcf.projectedZone.unit ?? from, "projectedZone.height"),
+    };
+  }
+
+  if (fcf.composite) {
+    value.composite = {
+      ...fcf.composite,
+      segments: fcf.composite.segments.map((segment, i) => ({
+        ...segment,
+        tolerance: convertTolerance(segment.tolerance, from, convert, `composite.segments[${i}].tolerance`),
+      })),
+    };
+  }
+
+  return { value, from, to, notes };
+}
+
+/**
+ * Convert every dimensional value of a position calculation input.
+ */
+export function convertPositionInput(input: PositionInput, to: Unit, decimals?: number): UnitConversion<PositionInput> {
+  const from = input.unit;
+  const { convert, notes } = createConverter(to, decimals);
+  const length = (value: number, path: string) => convert(value, from, path);
+  const tolerance = (value: number, path: string) => convert(value, from, path, "inward");
+
+  const { measured, truePosition } = input;
+  const value: PositionInput = {
+    ...input,
+    unit: to,
+    geometricTolerance: tolerance(input.geometricTolerance, "geometricTolerance"),
+    sizeDimension: {
+      ...input.sizeDimension,
+      nominal: length(input.sizeDimension.nominal, "sizeDimension.nominal"),
+      tolerancePlus: tolerance(input.sizeDimension.tolerancePlus, "sizeDimension.tolerancePlus"),
+      toleranceMinus: tolerance(input.sizeDimension.toleranceMinus, "sizeDimension.toleranceMinus"),
+    },
+    truePosition: {
+      basicX: length(truePosition.basicX, "truePosition.basicX"),
+      basicY: length(truePosition.basicY, "truePosition.basicY"),
+      ...(truePosition.basicZ !== undefined && { basicZ: length(truePosition.basicZ, "truePosition.basicZ") }),
+    },
+    measured: {
+      ...measured,
+      actualX: length(measured.actualX, "measured.actualX"),
+      actualY: length(measured.actualY, "measured.actualY"),
+      ...(measured.actualZ !== undefined && { actualZ: length(measured.actualZ, "measured.actualZ") }),
+      actualSize: length(measured.actualSize, "measured.actualSize"),
+      ...(measured.axisPoints && {
+        axisPoints: measured.axisPoints.map((point, i) => ({
+          x: length(point.x, `measured.axisPoints[${i}].x`),
+          y: length(point.y, `measured.axisPoints[${i}].y`),
+          z: length(point.z, `measured.axisPoints[${i}].z`),
+        })),
+      }),
+    },
+    ...(input.featureLength !== undefined && { featureLength: length(input.featureLength, "featureLength") }),
+  };
+
+  if (input.datumFeatures) {
+    value.datumFeatures = input.datumFeatures.map((datum, i) => {
+      const path = `datumFeatures[${i}]`;
+      return {
+        ...datum,
+        sizeDimension: {
+          ...datum.sizeDimension,
+          nominal: length(datum.sizeDimension.nominal, `${path}.sizeDimension.nominal`),
+          tolerancePlus: tolerance(datum.sizeDimension.tolerancePlus, `${path}.sizeDimension.tolerancePlus`),
+          toleranceMinus: tolerance(datum.sizeDimension.toleranceMinus, `${path}.sizeDimension.toleranceMinus`),
+        },
+        ...(datum.materialBoundary !== undefined && {
+          materialBoundary: length(datum.materialBoundary, `${path}.materialBoundary`),
+        }),
+        actualSize: length(datum.actualSize, `${path}.actualSize`),
+      };
+    });
+  }
+
+  if (input.projectedZone) {
+    value.projectedZone = {
+      height: convert(input.projectedZone.height, input.projectedZone.unit ?? from, "projectedZone.height"),
+    };
+  }
+
+  return { value, from, to, notes };
+}
+
+/**
+ * Convert every dimension and acceptance limit of a stack-up analysis.
+ * Sensitivity coefficients, process capability and skewness are unitless;
+ * mean offsets are converted with the dimensions. Analyses still being
+ * created only need a unit, dimensions and acceptance criteria.
+ */
+export function convertStackupAnalysis<
+  T extends Pick<StackupAnalysis, "unit" | "acceptanceCriteria" | "dimensions">,
+>(analysis: T, to: Unit, decimals?: number): UnitConversion<T> {
+  const from = analysis.unit;
+  const { convert, notes } = createConverter(to, decimals);
+  const { minimum, maximum } = analysis.acceptanceCriteria;
+
+  const value: T = {
+    ...analysis,
+    unit: to,
+    acceptanceCriteria: {
+      ...(minimum !== undefined && { minimum: convert(minimum, from, "acceptanceCriteria.minimum") }),
+      ...(maximum !== undefined && { maximum: convert(maximum, from, "acceptanceCriteria.maximum") }),
+    },
+    dimensions: analysis.dimensions.map((dimension, i) => ({
+      ...dimension,
+      nominal: convert(dimension.nominal, from, `dimensions[${i}].nominal`),
+      tolerancePlus: convert(dimension.tolerancePlus, from, `dimensions[${i}].tolerancePlus`, "inward"),
+      toleranceMinus: convert(dimension.toleranceMinus, from, `dimensions[${i}].toleranceMinus`, "inward"),
+      ...(dimension.meanOffset !== undefined && {
+        meanOffset: convert(dimension.meanOffset, from, `dimensions[${i}].meanOffset`),
+      }),
+      ...(dimension.allocation && {
+        allocation: {
+          ...dimension.allocation,
+          ...(dimension.allocation.minTolerance !== undefined && {
+            minTolerance: convert(dimension.allocation.minTolerance, from, `dimensions[${i}].allocation.minTolerance`),
+          }),
+          ...(dimension.allocation.maxTolerance !== undefined && {
+            maxTolerance: convert(dimension.allocation.maxTolerance, from, `dimensions[${i}].allocation.maxTolerance`),
+          }),
+        },
+      }),
+    })),
+  };
+
+  return { value, from, to, notes };
+}
+
+/**
+ * Human-readable record of a conversion, for conversion_notes columns and
+ * warnings. Only values whose precision was lost are listed individually.
+ */
+export function formatConversionNotes(conversion: UnitConversion<unknown>): string {
+  if (conversion.from === conversion.to || conversion.notes.length === 0) return "";
+
+  const lost = conversion.notes.filter((note) => note.precisionLost);
+  const lines = [
+    `Converted ${conversion.notes.length} value(s) from ${conversion.from} to ${conversion.to} (1 in = ${MM_PER_INCH} mm).`,
+  ];
+  lost.forEach((note) => {
+    lines.push(
+      `Precision lost: ${note.path} ${note.original} ${UNIT_LABELS[conversion.from]} → ${note.converted} ${UNIT_LABELS[conversion.to]}.`
+    );
+  });
+  return lines.join(" ");
 }
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  DatumFeature,
+  analyzeDatumReferenceFrame,
+  datumCatalogSchema,
+  describeSimulator,
+  explainDatumReferenceFrame
+} from "@/lib/fcf/datums";
+
+const plane = (id: string): DatumFeature => ({ id, type: "planar" });
+const bore = (id: string): DatumFeature => ({ id, type: "cylindrical", size: { nominal: 10 } });
+
+describe("analyzeDatumReferenceFrame", () => {
+  it("constrains 3-2-1 for three planar datums", () => {
+    const analysis = analyzeDatumReferenceFrame([{ id: "A" }, { id: "B" }, { id: "C" }], [plane("A"), plane("B"), plane("C")]);
+    expect(analysis.datums.map((d) => d.constrains)).toEqual([["z", "u", "v"], ["x", "w"], ["y"]]);
+    expect(analysis.unconstrained).toEqual([]);
+    expect(analysis.datums.map((d) => d.precedence)).toEqual(["primary", "secondary", "tertiary"]);
+  });
+
+  it("lets a hole after a face locate and a slot clock the part", () => {
+    const slot: DatumFeature = { id: "C", type: "width" };
+    const analysis = analyzeDatumReferenceFrame([{ id: "A" }, { id: "B" }, { id: "C" }], [plane("A"), bore("B"), slot]);
+    expect(analysis.datums.map((d) => d.constrains)).toEqual([["z", "u", "v"], ["x", "y"], ["w"]]);
+  });
+
+  it("clocks with a second hole", () => {
+    const analysis = analyzeDatumReferenceFrame([{ id: "A" }, { id: "B" }, { id: "C" }], [plane("A"), bore("B"), bore("C")]);
+    expect(analysis.datums[2].constrains).toEqual(["w"]);
+  });
+
+  it("leaves rotation free for a shaft and shoulder", () => {
+    const analysis = analyzeDatumReferenceFrame([{ id: "A" }, { id: "B" }], [bore("A"), plane("B")]);
+    expect(analysis.datums.map((d) => d.constrains)).toEqual([["x", "y", "u", "v"], ["z"]]);
+    expect(analysis.unconstrained).toEqual(["w"]);
+  });
+
+  it("treats a common datum as one feature", () => {
+    const analysis = analyzeDatumReferenceFrame([{ id: "A-B" }], [bore("A"), bore("B")]);
+    expect(analysis.datums).toHaveLength(1);
+    expect(analysis.datums[0].constrains).toEqual(["x", "y", "u", "v"]);
+  });
+
+  it("uses degrees of freedom stated in the catalog", () => {
+    const analysis = analyzeDatumReferenceFrame(
+      [{ id: "A" }, { id: "B" }],
+      [plane("A"), { id: "B", type: "irregular", constrains: ["x", "y", "z"] }]
+    );
+    expect(analysis.datums[1].constrains).toEqual(["x", "y"]);
+  });
+
+  it("reports letters missing from the catalog", () => {
+    const analysis = analyzeDatumReferenceFrame([{ id: "A" }, { id: "B" }], [plane("A")]);
+    expect(analysis.missing).toEqual(["B"]);
+    expect(analysis.datums[1].constrains).toEqual([]);
+    expect(explainDatumReferenceFrame(analysis)[1]).toMatch(/not in the datum catalog/);
+  });
+});
+
+describe("explainDatumReferenceFrame", () => {
+  it("names each datum and the remaining freedom", () => {
+    const lines = explainDatumReferenceFrame(analyzeDatumReferenceFrame([{ id: "A" }], [plane("A")]));
+    expect(lines[0]).toBe(
+      "Primary datum A (planar face) constrains z (translation along Z), u (rotation about X), v (rotation about Y)."
+    );
+    expect(lines[1]).toMatch(/^Free: x \(translation along X\)/);
+  });
+});
+
+describe("describeSimulator", () => {
+  it("sizes a feature-of-size simulator from the material boundary", () => {
+    expect(describeSimulator(bore("B"), "MMC")).toBe("Fixed-size cylinder at the maximum material boundary");
+    expect(describeSimulator(bore("B"))).toMatch(/expanding/);
+  });
+
+  it("describes datum targets", () => {
+    const targeted: DatumFeature = {
+      id: "A",
+      type: "planar",
+      targets: [
+        { id: "A1", kind: "point" },
+        { id: "A2", kind: "point" },
+        { id: "A3", kind: "point", movable: true }
+      ]
+    };
+    expect(describeSimulator(targeted)).toBe("Datum target simulators at A1, A2, A3 (1 movable)");
+  });
+});
+
+describe("datumCatalogSchema", () => {
+  it("rejects duplicate datum letters", () => {
+    expect(datumCatalogSchema.safeParse([plane("A"), plane("A")]).success).toBe(false);
+    expect(datumCatalogSchema.safeParse([plane("A"), bore("B")]).success).toBe(true);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+
+import { calculateFastener, createFastenerFcfs } from "@/lib/calc/fastener";
+import { FastenerInput } from "@/lib/calc/types";
+import { validateFcf } from "@/lib/rules/validateFcf";
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+/** M10 screws through Ø11 clearance holes, 4X */
+const floatingInput: FastenerInput = {
+  unit: "mm",
+  fastenerCase: "floating",
+  fastenerDiameter: 10,
+  holeDiameter: 11,
+  holeSizeTolerance: 0.2,
+  fastenerCount: 4
+};
+
+/** M10 screws through a 12 mm cover into tapped holes */
+const fixedInput: FastenerInput = {
+  ...floatingInput,
+  fastenerCase: "fixed",
+  matingThickness: 12
+};
+
+// ============================================================================
+// FLOATING FASTENER TESTS
+// ============================================================================
+
+describe("calculateFastener floating case", () => {
+  it("gives each part T = H - F", () => {
+    const response = calculateFastener(floatingInput);
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.parts.map((p) => p.positionTolerance)).toEqual([1, 1]);
+      expect(response.result.parts.every((p) => p.role === "clearance")).toBe(true);
+      expect(response.result.summary).toContain("Floating");
+    }
+  });
+
+  it("uses the second part's own clearance hole", () => {
+    const response = calculateFastener({ ...floatingInput, secondHoleDiameter: 10.5 });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.parts[1].positionTolerance).toBeCloseTo(0.5, 4);
+    }
+  });
+
+  it("rejects a hole that does not clear the fastener", () => {
+    const response = calculateFastener({ ...floatingInput, holeDiameter: 10 });
+    expect(response.success).toBe(false);
+    if (!response.success) {
+      expect(response.errors[0].code).toBe("HOLE_NOT_CLEAR");
+    }
+  });
+});
+
+// ============================================================================
+// FIXED FASTENER TESTS
+// ============================================================================
+
+describe("calculateFastener fixed case", () => {
+  it("splits H - F equally with a projected zone on the fixed part", () => {
+    const response = calculateFastener(fixedInput);
+    expect(response.success).toBe(true);
+    if (response.success) {
+      const [clearance, fixed] = response.result.parts;
+      expect(clearance.positionTolerance).toBeCloseTo(0.5, 4);
+      expect(fixed.positionTolerance).toBeCloseTo(0.5, 4);
+      expect(fixed.role).toBe("fixed");
+      expect(fixed.projectedZoneHeight).toBe(12);
+      expect(response.result.projectionCorrection).toBeUndefined();
+    }
+  });
+
+  it("splits unequally between the parts", () => {
+    const response = calculateFastener({ ...fixedInput, clearanceShare: 0.7 });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.parts[0].positionTolerance).toBeCloseTo(0.7, 4);
+      expect(response.result.parts[1].positionTolerance).toBeCloseTo(0.3, 4);
+    }
+  });
+
+  it("reduces the fixed part's tolerance without a projected zone", () => {
+    const response = calculateFastener({ ...fixedInput, projectedZone: false, engagementLength: 10 });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      // 1 + 2(12)/10 = 3.4
+      expect(response.result.projectionCorrection).toBeCloseTo(3.4, 4);
+      expect(response.result.parts[1].positionTolerance).toBeCloseTo(0.5 / 3.4, 4);
+      expect(response.result.parts[1].projectedZoneHeight).toBeUndefined();
+    }
+  });
+
+  it("requires the engagement depth without a projected zone", () => {
+    const response = calculateFastener({ ...fixedInput, projectedZone: false });
+    expect(response.success).toBe(false);
+    if (!response.success) {
+      expect(response.errors[0].code).toBe("MISSING_ENGAGEMENT_LENGTH");
+    }
+  });
+
+  it("rejects blank inputs instead of returning NaN tolerances", () => {
+    const response = calculateFastener({
+      ...fixedInput,
+      holeDiameter: undefined as unknown as number,
+      matingThickness: Number.NaN
+    });
+    expect(response.success).toBe(false);
+    if (!response.success) {
+      expect(response.errors.map((error) => error.field)).toEqual(["holeDiameter", "matingThickness"]);
+    }
+  });
+
+  it("states that the parts share H - F", () => {
+    const response = calculateFastener(fixedInput);
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.summary).toContain("T1 + T2 = H - F");
+    }
+  });
+
+  it("rejects a split outside 0-1", () => {
+    const response = calculateFastener({ ...fixedInput, clearanceShare: 1.2 });
+    expect(response.success).toBe(false);
+    if (!response.success) {
+      expect(response.errors[0].code).toBe("INVALID_SPLIT");
+    }
+  });
+});
+
+// ============================================================================
+// FEATURE CONTROL FRAME TESTS
+// ============================================================================
+
+describe("createFastenerFcfs", () => {
+  it("creates valid position frames for both parts", () => {
+    const response = calculateFastener(fixedInput);
+    expect(response.success).toBe(true);
+    if (response.success) {
+      const [clearance, fixed] = createFastenerFcfs(fixedInput, response.result);
+      expect(clearance.tolerance).toEqual({ value: 0.5, diameter: true, materialCondition: "MMC" });
+      expect(clearance.sizeDimension).toMatchObject({ nominal: 11, tolerancePlus: 0.2, toleranceMinus: 0 });
+      expect(clearance.pattern?.count).toBe(4);
+      expect(clearance.projectedZone).toBeUndefined();
+      expect(fixed.modifiers).toEqual(["PROJECTED_TOLERANCE_ZONE"]);
+      expect(fixed.projectedZone).toEqual({ height: 12 });
+      expect(validateFcf(clearance).valid).toBe(true);
+      expect(validateFcf(fixed).valid).toBe(true);
+    }
+  });
+
+  it("uses the given datums", () => {
+    const response = calculateFastener(floatingInput);
+    expect(response.success).toBe(true);
+    if (response.success) {
+      const frames = createFastenerFcfs({ ...floatingInput, datums: ["D", "E"] }, response.result);
+      expect(frames[1].datums).toEqual([{ id: "D" }, { id: "E" }]);
+      expect(frames.every((frame) => validateFcf(frame).valid)).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+
+import { calculateFlatness } from "@/lib/calc/flatness";
+import { minimaxFit } from "@/lib/calc/optimize";
+import { FlatnessInput, SurfacePoint } from "@/lib/calc/types";
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+/**
+ * Surface flat along Y with heights [0, 0, 0, 0, 0.01] at X = 0..40.
+ * Minimum zone tilts the planes to touch X = 0, 30 and 40 (width 0.0075);
+ * least squares leaves a zone of 0.008, a false reject at ⏥ 0.0078.
+ */
+const stepPoints: SurfacePoint[] = [0, 1].flatMap((y) =>
+  [0, 0, 0, 0, 0.01].map((z, i) => ({ x: i * 10, y, z }))
+);
+
+const stepInput: FlatnessInput = {
+  unit: "mm",
+  tolerance: 0.0078,
+  measuredPoints: stepPoints
+};
+
+/**
+ * Deterministic pseudo-random surface on a tilted 6 × 6 grid.
+ */
+function scatteredSurface(): SurfacePoint[] {
+  let seed = 7;
+  const next = () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647 - 0.5;
+  };
+  return Array.from({ length: 36 }, (_, i) => {
+    const x = (i % 6) * 20;
+    const y = Math.floor(i / 6) * 15;
+    return { x, y, z: 5 + 0.002 * x - 0.001 * y + 0.02 * next() };
+  });
+}
+
+// ============================================================================
+// MINIMAX FIT TESTS
+// ============================================================================
+
+describe("minimaxFit", () => {
+  it("finds the Chebyshev line through a step", () => {
+    const fit = minimaxFit(
+      [0, 1, 2, 3, 4].map((x) => [x, 1]),
+      [0, 0, 0, 0, 1]
+    );
+    expect(fit.converged).toBe(true);
+    expect(fit.deviation).toBeCloseTo(0.375, 10);
+    expect(fit.coefficients[0]).toBeCloseTo(0.25, 10);
+    expect(fit.coefficients[1]).toBeCloseTo(-0.375, 10);
+  });
+
+  it("reproduces exact data with zero deviation", () => {
+    const fit = minimaxFit(
+      [0, 1, 2, 3].map((x) => [x, 1]),
+      [1, 3, 5, 7]
+    );
+    expect(fit.deviation).toBeCloseTo(0, 10);
+    expect(fit.coefficients[0]).toBeCloseTo(2, 10);
+  });
+});
+
+// ============================================================================
+// FLATNESS TESTS
+// ============================================================================
+
+describe("calculateFlatness", () => {
+  it("uses the minimum zone by default", () => {
+    const response = calculateFlatness(stepInput);
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.fitMethod).toBe("minimum-zone");
+      expect(response.result.measuredFlatness).toBeCloseTo(0.0075, 4);
+      expect(response.result.status).toBe("pass");
+      expect(response.result.summary).toContain("minimum zone");
+    }
+  });
+
+  it("rejects the same surface with a least-squares fit", () => {
+    const response = calculateFlatness({ ...stepInput, fitMethod: "least-squares" });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.measuredFlatness).toBeCloseTo(0.008, 4);
+      expect(response.result.status).toBe("fail");
+    }
+  });
+
+  it("reports the contact points defining the minimum zone", () => {
+    const response = calculateFlatness(stepInput);
+    expect(response.success).toBe(true);
+    if (response.success) {
+      const upper = response.result.contactPoints.filter((c) => c.side === "upper").map((c) => c.index);
+      const lower = response.result.contactPoints.filter((c) => c.side === "lower").map((c) => c.index);
+      // X = 0 and X = 40 touch the upper plane, X = 30 the lower, on both rows
+      expect(upper.sort((a, b) => a - b)).toEqual([0, 4, 5, 9]);
+      expect(lower.sort((a, b) => a - b)).toEqual([3, 8]);
+    }
+  });
+
+  it("evaluates a three-point plane through the reference points", () => {
+    const response = calculateFlatness({ ...stepInput, fitMethod: "three-point", referencePoints: [0, 1, 5] });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.measuredFlatness).toBeCloseTo(0.01, 4);
+      expect(response.result.planeNormal).toEqual({ x: 0, y: 0, z: 1 });
+    }
+  });
+
+  it("compares every applicable method against minimum zone", () => {
+    const response = calculateFlatness({ ...stepInput, referencePoints: [0, 1, 5] });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.methodComparison).toEqual([
+        { method: "minimum-zone", zoneWidth: 0.0075, excessOverMinimumZone: 0 },
+        { method: "least-squares", zoneWidth: 0.008, excessOverMinimumZone: 0.0005 },
+        { method: "three-point", zoneWidth: 0.01, excessOverMinimumZone: 0.0025 }
+      ]);
+    }
+  });
+
+  it("never reports a minimum zone wider than least squares", () => {
+    const measuredPoints = scatteredSurface();
+    const minimumZone = calculateFlatness({ unit: "mm", tolerance: 0.05, measuredPoints, precision: 6 });
+    const leastSquares = calculateFlatness({
+      unit: "mm",
+      tolerance: 0.05,
+      measuredPoints,
+      precision: 6,
+      fitMethod: "least-squares"
+    });
+    expect(minimumZone.success && leastSquares.success).toBe(true);
+    if (minimumZone.success && leastSquares.success) {
+      expect(minimumZone.result.measuredFlatness).toBeLessThanOrEqual(leastSquares.result.measuredFlatness);
+      expect(minimumZone.result.measuredFlatness).toBeGreaterThan(0);
+      // A minimum zone in 3D is defined by at least four contact points
+      expect(minimumZone.result.contactPoints.length).toBeGreaterThanOrEqual(4);
+      expect(minimumZone.result.planeNormal!.x).toBeCloseTo(-0.002, 3);
+    }
+  });
+
+  it("skips fitting when a total indicator reading is supplied", () => {
+    const response = calculateFlatness({ unit: "mm", tolerance: 0.05, measuredPoints: [], totalIndicatorReading: 0.03 });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.fitMethod).toBeUndefined();
+      expect(response.result.contactPoints).toEqual([]);
+      expect(response.result.methodComparison).toEqual([]);
+    }
+  });
+
+  it("requires reference points for the three-point method", () => {
+    const response = calculateFlatness({ ...stepInput, fitMethod: "three-point" });
+    expect(response.success).toBe(false);
+    if (!response.success) {
+      expect(response.errors[0].code).toBe("MISSING_REFERENCE_POINTS");
+    }
+  });
+
+  it("rejects collinear reference points", () => {
+    const response = calculateFlatness({ ...stepInput, fitMethod: "three-point", referencePoints: [0, 1, 2] });
+    expect(response.success).toBe(false);
+    if (!response.success) {
+      expect(response.errors[0].code).toBe("COLLINEAR_REFERENCE_POINTS");
+    }
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+
+import { designGauge } from "@/lib/calc/gauge";
+import { GaugeDesignInput } from "@/lib/calc/types";
+import { generateGaugeSpecPdf } from "@/lib/export/gauge-pdf-generator";
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+/**
+ * 4X Ø10 +0.1/-0 holes, Ø0.2 at MMC to A, B at MMB:
+ * - Virtual condition 9.8, part tolerance 0.1 + 0.2 = 0.3
+ * - Datum B: Ø20 +0.05/-0 bore, MMB 20
+ */
+const holePatternGauge: GaugeDesignInput = {
+  unit: "mm",
+  name: "Cover plate bolt holes",
+  geometricTolerance: 0.2,
+  materialCondition: "MMC",
+  featureType: "hole",
+  featureCount: 4,
+  sizeDimension: { nominal: 10, tolerancePlus: 0.1, toleranceMinus: 0, featureType: "hole" },
+  datumFeatures: [
+    {
+      id: "B",
+      materialCondition: "MMC",
+      sizeDimension: { nominal: 20, tolerancePlus: 0.05, toleranceMinus: 0, featureType: "hole" }
+    }
+  ],
+  gaugeTolerance: { type: "percentage", value: 5 },
+  wearAllowance: { type: "percentage", value: 5 }
+};
+
+// ============================================================================
+// GAUGE DESIGN TESTS
+// ============================================================================
+
+describe("designGauge", () => {
+  it("sizes gauge pins for holes at virtual condition with allowances inside the part tolerance", () => {
+    const response = designGauge(holePatternGauge);
+    expect(response.success).toBe(true);
+    if (response.success) {
+      const [feature] = response.result.elements;
+      expect(response.result.virtualCondition).toBeCloseTo(9.8, 4);
+      expect(feature.elementType).toBe("pin");
+      expect(feature.quantity).toBe(4);
+      expect(feature.partTolerance).toBeCloseTo(0.3, 4);
+      expect(feature.gaugeTolerance).toBeCloseTo(0.015, 4);
+      expect(feature.minSize).toBeCloseTo(9.815, 4);
+      expect(feature.maxSize).toBeCloseTo(9.83, 4);
+      expect(feature.wearLimit).toBeCloseTo(9.8, 4);
+      expect(feature.toleranceShare).toBeCloseTo(10, 1);
+      expect(response.result.locationTolerance).toBeCloseTo(0.01, 4);
+      expect(response.result.status).toBe("pass");
+    }
+  });
+
+  it("sizes datum feature elements at MMB", () => {
+    const response = designGauge(holePatternGauge);
+    expect(response.success).toBe(true);
+    if (response.success) {
+      const datum = response.result.elements[1];
+      expect(datum.label).toBe("Datum B");
+      expect(datum.boundaryType).toBe("MMB");
+      expect(datum.boundary).toBeCloseTo(20, 4);
+      expect(datum.minSize).toBeCloseTo(20.0025, 4);
+      expect(datum.maxSize).toBeCloseTo(20.005, 4);
+    }
+  });
+
+  it("sizes gauge holes for pins with absolute allowances", () => {
+    const response = designGauge({
+      unit: "mm",
+      geometricTolerance: 0.15,
+      materialCondition: "MMC",
+      featureType: "pin",
+      sizeDimension: { nominal: 8, tolerancePlus: 0, toleranceMinus: 0.1, featureType: "pin" },
+      gaugeTolerance: { type: "absolute", value: 0.005 },
+      wearAllowance: { type: "absolute", value: 0.005 }
+    });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      const [feature] = response.result.elements;
+      expect(feature.elementType).toBe("hole");
+      expect(feature.boundary).toBeCloseTo(8.15, 4);
+      expect(feature.minSize).toBeCloseTo(8.14, 4);
+      expect(feature.maxSize).toBeCloseTo(8.145, 4);
+      expect(feature.wearLimit).toBeCloseTo(8.15, 4);
+      expect(feature.toleranceShare).toBeCloseTo(4, 1);
+    }
+  });
+
+  it("warns when the gauge takes more than 10% of the part tolerance", () => {
+    const response = designGauge({ ...holePatternGauge, gaugeTolerance: { type: "absolute", value: 0.01 } });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.elements[1].toleranceShare).toBeCloseTo(25, 1);
+      expect(response.result.status).toBe("warning");
+      expect(response.result.summary).toContain("WARNING");
+    }
+  });
+
+  it("rejects tolerances not at MMC", () => {
+    const response = designGauge({ ...holePatternGauge, materialCondition: "RFS" });
+    expect(response.success).toBe(false);
+    if (!response.success) {
+      expect(response.errors[0].code).toBe("INVALID_MATERIAL_CONDITION");
+    }
+  });
+
+  it("rejects datum features not referenced at MMB", () => {
+    const response = designGauge({
+      ...holePatternGauge,
+      datumFeatures: [{ ...holePatternGauge.datumFeatures![0], materialCondition: "RFS" }]
+    });
+    expect(response.success).toBe(false);
+    if (!response.success) {
+      expect(response.errors[0].code).toBe("UNSUPPORTED_DATUM_MODIFIER");
+    }
+  });
+
+  it("rejects datum features without size tolerance", () => {
+    const datum = holePatternGauge.datumFeatures![0];
+    const response = designGauge({
+      ...holePatternGauge,
+      datumFeatures: [{ ...datum, sizeDimension: { ...datum.sizeDimension, tolerancePlus: 0 } }]
+    });
+    expect(response.success).toBe(false);
+    if (!response.success) {
+      expect(response.errors[0]).toMatchObject({
+        code: "INVALID_PART_TOLERANCE",
+        field: "datumFeatures[0].sizeDimension"
+      });
+    }
+  });
+});
+
+// ============================================================================
+// SPEC SHEET TESTS
+// ============================================================================
+
+describe("generateGaugeSpecPdf", () => {
+  it("renders a PDF spec sheet", async () => {
+    const response = designGauge(holePatternGauge);
+    expect(response.success).toBe(true);
+    if (response.success) {
+      const pdf = await generateGaugeSpecPdf(response.result);
+      expect(pdf.subarray(0, 5).toString()).toBe("%PDF-");
+    }
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+
+import { exampleFcfs, FcfJson } from "@/lib/fcf/schema";
+import { NotationParseError, parseNotation, serializeNotation, tryParseNotation } from "@/lib/fcf/notation";
+
+function parseError(text: string): NotationParseError {
+  const result = tryParseNotation(text);
+  if (result.ok) throw new Error(`Expected "${text}" to fail`);
+  return result.error;
+}
+
+describe("parseNotation", () => {
+  it("parses Unicode symbol notation", () => {
+    const fcf = parseNotation("⊕|⌀0.2Ⓜ|A|BⓂ|CⓂ");
+    expect(fcf.characteristic).toBe("position");
+    expect(fcf.sourceUnit).toBe("mm");
+    expect(fcf.source.inputType).toBe("text");
+    expect(fcf.tolerance).toEqual({ value: 0.2, diameter: true, materialCondition: "MMC" });
+    expect(fcf.datums).toEqual([{ id: "A" }, { id: "B", materialCondition: "MMC" }, { id: "C", materialCondition: "MMC" }]);
+  });
+
+  it("parses ASCII keyword notation and infers inch from leading-dot values", () => {
+    const fcf = parseNotation("POS DIA .008 (M) A B(M) C");
+    expect(fcf.sourceUnit).toBe("inch");
+    expect(fcf.tolerance).toEqual({ value: 0.008, diameter: true, materialCondition: "MMC" });
+    expect(fcf.datums?.map((d) => d.id)).toEqual(["A", "B", "C"]);
+    expect(fcf.datums?.[1].materialCondition).toBe("MMC");
+  });
+
+  it("accepts lower-case keywords and mixed separators", () => {
+    const fcf = parseNotation("perp | 0.05 | a");
+    expect(fcf.characteristic).toBe("perpendicularity");
+    expect(fcf.datums).toEqual([{ id: "A" }]);
+  });
+
+  it("parses pattern prefixes and projected zone heights", () => {
+    const fcf = parseNotation("4X ⊕|⌀0.3ⓂⓅ15|A|B|C");
+    expect(fcf.pattern).toEqual({ count: 4 });
+    expect(fcf.modifiers).toEqual(["PROJECTED_TOLERANCE_ZONE"]);
+    expect(fcf.projectedZone).toEqual({ height: 15 });
+  });
+
+  it("parses composite rows", () => {
+    const fcf = parseNotation("2X ⊕|0.25|A|B|C\n|0.1|A|B");
+    expect(fcf.composite?.type).toBe("composite");
+    expect(fcf.composite?.segments.map((s) => s.tolerance.value)).toEqual([0.25, 0.1]);
+    expect(fcf.composite?.segments[1].datums?.map((d) => d.id)).toEqual(["A", "B"]);
+    expect(fcf.tolerance.value).toBe(0.25);
+  });
+
+  it("keeps lower-row modifiers on their segment", () => {
+    const fcf = parseNotation("⌓|0.5|A|B|C\n⌓|0.2Ⓕ|A");
+    expect(fcf.modifiers).toBeUndefined();
+    expect(fcf.composite?.segments[0].modifiers).toBeUndefined();
+    expect(fcf.composite?.segments[1].modifiers).toEqual(["FREE_STATE"]);
+    expect(serializeNotation(fcf)).toBe("⌓|0.5|A|B|C\n⌓|0.2Ⓕ|A");
+  });
+
+  it("parses multiple single segments when the symbol repeats", () => {
+    const fcf = parseNotation("POS DIA 0.5 (M) A B C\nPOS DIA 0.2 (M) A B");
+    expect(fcf.composite?.type).toBe("multipleSingleSegments");
+  });
+
+  it("parses ISO indications and selects the ISO standard", () => {
+    const fcf = parseNotation("⌓|0.4 UZ-0.1|A|B");
+    expect(fcf.standard).toBe("ISO_1101");
+    expect(fcf.isoModifiers).toEqual(["UZ"]);
+    expect(fcf.tolerance.zoneOffset).toBe(-0.1);
+  });
+
+  it("parses total runout, common datums and spherical zones", () => {
+    expect(parseNotation("↗↗|0.05|A-B").datums).toEqual([{ id: "A-B" }]);
+    expect(parseNotation("TOTAL RUNOUT 0.05 A-B").characteristic).toBe("totalRunout");
+    expect(parseNotation("POS SDIA 0.3 A B C").tolerance.zoneShape).toBe("spherical");
+  });
+
+  describe("errors", () => {
+    it("reports a missing characteristic at its position", () => {
+      const error = parseError("  0.2|A");
+      expect(error.position).toBe(2);
+      expect(error.column).toBe(3);
+      expect(error.message).toMatch(/characteristic/);
+    });
+
+    it("reports a missing tolerance value", () => {
+      const error = parseError("⊕|⌀|A");
+      expect(error.position).toBe(4);
+      expect(error.message).toMatch(/tolerance value/);
+    });
+
+    it("reports unexpected characters", () => {
+      expect(parseError("POS 0.2 A # B").position).toBe(10);
+    });
+
+    it("reports the line and column of errors in lower rows", () => {
+      const error = parseError("⊕|0.25|A|B\n|0.1|A|1");
+      expect(error.line).toBe(2);
+      expect(error.column).toBe(8);
+    });
+
+    it("rejects rows with a different characteristic", () => {
+      expect(parseError("⊕|0.2|A\n⊥|0.1|A").line).toBe(2);
+    });
+
+    it("rejects empty input", () => {
+      expect(parseError("   ").message).toMatch(/Expected a feature control frame/);
+    });
+  });
+});
+
+describe("serializeNotation", () => {
+  it("writes Unicode notation", () => {
+    const fcf = parseNotation("⊕|⌀0.2Ⓜ|A|BⓂ|CⓂ");
+    expect(serializeNotation(fcf)).toBe("⊕|⌀0.2Ⓜ|A|BⓂ|CⓂ");
+  });
+
+  it("writes ASCII notation with inch values", () => {
+    const fcf = parseNotation("POS DIA .008 (M) A B(M) C");
+    expect(serializeNotation(fcf, "ascii")).toBe("POS DIA .008 (M) A B(M) C");
+  });
+
+  it("writes pattern prefixes, projected heights and composite rows", () => {
+    expect(serializeNotation(exampleFcfs.positionHole)).toBe("4X ⊕|⌀0.2ⓂⓅ15|A|BⓂ|CⓂ");
+    expect(serializeNotation(exampleFcfs.compositePositionSlots)).toBe("2X ⊕|0.25|A|B|C\n|0.1|A|B");
+  });
+
+  it("round-trips every example frame in both styles", () => {
+    Object.values(exampleFcfs).forEach((fcf: FcfJson) => {
+      (["unicode", "ascii"] as const).forEach((style) => {
+        const text = serializeNotation(fcf, style);
+        const reparsed = parseNotation(text, { sourceUnit: fcf.sourceUnit });
+        expect(serializeNotation(reparsed, style)).toBe(text);
+        expect(reparsed.tolerance.value).toBe(fcf.tolerance.value);
+        expect(reparsed.datums ?? []).toEqual(fcf.datums ?? []);
+      });
+    });
+  });
+
+  it("writes ISO indications with the UZ offset", () => {
+    const fcf = parseNotation("⌓|0.4 UZ-0.1|A|B");
+    expect(serializeNotation(fcf)).toBe("⌓|0.4 UZ-0.1|A|B");
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, expect, it } from "vitest";
+
+import { calculateAngularity } from "@/lib/calc/angularity";
+import { calculateParallelism } from "@/lib/calc/parallelism";
+import { AngularityInput, ParallelismInput, SizeDimensionInput } from "@/lib/calc/types";
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+/** Ø10 +0.1/-0 hole */
+const holeSize: SizeDimensionInput = { nominal: 10, tolerancePlus: 0.1, toleranceMinus: 0, featureType: "hole" };
+
+/** Top surface 0.02 parallel to A, measured 20 mm above the datum */
+const surfaceInput: ParallelismInput = {
+  unit: "mm",
+  tolerance: 0.02,
+  featureType: "surface",
+  measuredPoints: [
+    { x: 0, y: 20.004 },
+    { x: 25, y: 20.011 },
+    { x: 50, y: 20.016 },
+    { x: 75, y: 20.009 }
+  ]
+};
+
+// ============================================================================
+// PARALLELISM TESTS
+// ============================================================================
+
+describe("calculateParallelism", () => {
+  it("measures the spread of surface heights above the datum", () => {
+    const response = calculateParallelism(surfaceInput);
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.measuredDeviation).toBeCloseTo(0.012, 4);
+      expect(response.result.controlledElement).toBe("surface");
+      expect(response.result.measurementMethod).toBe("points");
+      expect(response.result.status).toBe("pass");
+    }
+  });
+
+  it("uses the full indicator movement of indicator readings", () => {
+    const response = calculateParallelism({
+      unit: "mm",
+      tolerance: 0.02,
+      featureType: "surface",
+      indicatorReadings: [0.003, -0.012, 0.011, 0.004]
+    });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.measuredDeviation).toBeCloseTo(0.023, 4);
+      expect(response.result.measurementMethod).toBe("indicator");
+      expect(response.result.status).toBe("fail");
+    }
+  });
+
+  it("adds bonus tolerance for an axis at MMC", () => {
+    const response = calculateParallelism({
+      unit: "mm",
+      tolerance: 0.05,
+      materialCondition: "MMC",
+      featureType: "hole",
+      sizeDimension: holeSize,
+      actualSize: 10.04,
+      diametralZone: true,
+      linearDeviation: 0.08
+    });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.bonusTolerance).toBeCloseTo(0.04, 4);
+      expect(response.result.totalAllowableTolerance).toBeCloseTo(0.09, 4);
+      expect(response.result.virtualCondition).toBeCloseTo(9.95, 4);
+      expect(response.result.controlledElement).toBe("axis");
+      expect(response.result.summary).toContain("bonus from MMC");
+    }
+  });
+
+  it("measures a cylindrical axis zone from axis points", () => {
+    const response = calculateParallelism({
+      unit: "mm",
+      tolerance: 0.05,
+      featureType: "hole",
+      diametralZone: true,
+      // Axis offsets across (y) and out of (z) the measurement plane
+      measuredPoints: [
+        { x: 0, y: 15.01, z: 0 },
+        { x: 20, y: 14.99, z: 0 },
+        { x: 40, y: 15, z: 0.01 },
+        { x: 60, y: 15, z: -0.01 }
+      ]
+    });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.measuredDeviation).toBeCloseTo(0.02, 4);
+    }
+  });
+
+  it("rejects MMC on a surface", () => {
+    const response = calculateParallelism({ ...surfaceInput, materialCondition: "MMC", actualSize: 1 });
+    expect(response.success).toBe(false);
+    if (!response.success) {
+      expect(response.errors.map((e) => e.code)).toContain("INVALID_MATERIAL_CONDITION");
+    }
+  });
+
+  it("requires a measurement", () => {
+    const response = calculateParallelism({ unit: "mm", tolerance: 0.02, featureType: "surface" });
+    expect(response.success).toBe(false);
+    if (!response.success) {
+      expect(response.errors[0].code).toBe("NO_MEASUREMENTS");
+    }
+  });
+});
+
+// ============================================================================
+// ANGULARITY TESTS
+// ============================================================================
+
+/** 30° chamfer face measured along the datum */
+const chamferInput: AngularityInput = {
+  unit: "mm",
+  tolerance: 0.05,
+  featureType: "surface",
+  basicAngle: 30,
+  measuredPoints: [0, 10, 20, 30].map((x) => ({
+    x,
+    y: x * Math.tan(Math.PI / 6) + (x === 20 ? 0.03 / Math.cos(Math.PI / 6) : 0)
+  }))
+};
+
+describe("calculateAngularity", () => {
+  it("measures the zone across the basic angle", () => {
+    const response = calculateAngularity(chamferInput);
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.measuredDeviation).toBeCloseTo(0.03, 4);
+      expect(response.result.basicAngle).toBe(30);
+      expect(response.result.status).toBe("pass");
+    }
+  });
+
+  it("converts a measured angle over the measurement length", () => {
+    const response = calculateAngularity({
+      unit: "mm",
+      tolerance: 0.05,
+      featureType: "surface",
+      basicAngle: 30,
+      measuredAngle: 30.1,
+      measurementLength: 25
+    });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      // 25 × tan(0.1°)
+      expect(response.result.measuredDeviation).toBeCloseTo(0.0436, 4);
+      expect(response.result.measurementMethod).toBe("angular");
+    }
+  });
+
+  it("requires a measurement length for a measured angle", () => {
+    const response = calculateAngularity({
+      unit: "mm",
+      tolerance: 0.05,
+      featureType: "surface",
+      basicAngle: 30,
+      measuredAngle: 30.1
+    });
+    expect(response.success).toBe(false);
+    if (!response.success) {
+      expect(response.errors[0].code).toBe("MISSING_MEASUREMENT_LENGTH");
+    }
+  });
+
+  it("rejects a basic angle outside 0° to 180°", () => {
+    const response = calculateAngularity({ ...chamferInput, basicAngle: 200 });
+    expect(response.success).toBe(false);
+    if (!response.success) {
+      expect(response.errors[0].code).toBe("INVALID_BASIC_ANGLE");
+    }
+  });
+});
@@ -0,0 +1,298 @@
+import { describe, expect, it } from "vitest";
+
+import { calculatePatternPosition, patternSegmentsFromFcf } from "@/lib/calc/pattern";
+import { minimize } from "@/lib/calc/optimize";
+import { PatternFeatureMeasurement, PatternPositionInput } from "@/lib/calc/types";
+import { exampleFcfs } from "@/lib/fcf/schema";
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+const corners = [
+  { basicX: 30, basicY: 30 },
+  { basicX: 70, basicY: 30 },
+  { basicX: 70, basicY: 70 },
+  { basicX: 30, basicY: 70 }
+];
+
+/**
+ * Measure the 4X pattern after moving it by (dx, dy) and rotating it by
+ * `degrees` about its center (50, 50).
+ */
+function measurePattern(dx: number, dy: number, degrees = 0, actualSize = 8): PatternFeatureMeasurement[] {
+  const angle = (degrees * Math.PI) / 180;
+  return corners.map((truePosition, i) => {
+    const rx = truePosition.basicX - 50;
+    const ry = truePosition.basicY - 50;
+    return {
+      id: `H${i + 1}`,
+      truePosition,
+      measured: {
+        actualX: 50 + rx * Math.cos(angle) - ry * Math.sin(angle) + dx,
+        actualY: 50 + rx * Math.sin(angle) + ry * Math.cos(angle) + dy,
+        actualSize
+      }
+    };
+  });
+}
+
+/**
+ * 4X Ø8 +0.1/-0 holes, composite position Ø0.5 Ⓜ |A|B|C over Ø0.1 Ⓜ |A.
+ */
+const compositeInput: PatternPositionInput = {
+  unit: "mm",
+  featureType: "hole",
+  sizeDimension: { nominal: 8, tolerancePlus: 0.1, toleranceMinus: 0, featureType: "hole" },
+  diametralZone: true,
+  count: 4,
+  segments: [
+    { tolerance: 0.5, materialCondition: "MMC", bestFit: "none" },
+    { tolerance: 0.1, materialCondition: "MMC", bestFit: "translation-rotation" }
+  ],
+  features: measurePattern(0.1, 0.05)
+};
+
+// ============================================================================
+// OPTIMIZER TESTS
+// ============================================================================
+
+describe("minimize", () => {
+  it("finds the minimum of a smooth bowl", () => {
+    const { point, value } = minimize(([x, y]) => (x - 1) ** 2 + 3 * (y + 2) ** 2, [0, 0]);
+    expect(point[0]).toBeCloseTo(1, 4);
+    expect(point[1]).toBeCloseTo(-2, 4);
+    expect(value).toBeCloseTo(0, 8);
+  });
+
+  it("finds the minimax of a non-smooth objective", () => {
+    const { point, value } = minimize(([x]) => Math.max(Math.abs(x - 1), Math.abs(x + 3)), [5], { step: 1 });
+    expect(point[0]).toBeCloseTo(-1, 4);
+    expect(value).toBeCloseTo(2, 4);
+  });
+});
+
+// ============================================================================
+// PATTERN POSITION TESTS
+// ============================================================================
+
+describe("calculatePatternPosition", () => {
+  it("evaluates the PLTZF at true position", () => {
+    const response = calculatePatternPosition(compositeInput);
+    expect(response.success).toBe(true);
+    if (response.success) {
+      const pltzf = response.result.segments[0];
+      expect(pltzf.label).toBe("PLTZF");
+      expect(pltzf.transform).toEqual({ dx: 0, dy: 0, rotation: 0 });
+      // 2 × sqrt(0.1² + 0.05²)
+      pltzf.features.forEach((f) => expect(f.actualPositionTolerance).toBeCloseTo(0.2236, 4));
+      expect(pltzf.conformance).toBe(true);
+    }
+  });
+
+  it("lets the FRTZF translate the pattern to best fit", () => {
+    const response = calculatePatternPosition(compositeInput);
+    expect(response.success).toBe(true);
+    if (response.success) {
+      const frtzf = response.result.segments[1];
+      expect(frtzf.label).toBe("FRTZF");
+      expect(frtzf.transform.dx).toBeCloseTo(-0.1, 4);
+      expect(frtzf.transform.dy).toBeCloseTo(-0.05, 4);
+      expect(frtzf.maxToleranceConsumed).toBeLessThan(1);
+      expect(frtzf.conformance).toBe(true);
+      expect(response.result.status).toBe("pass");
+    }
+  });
+
+  it("fails the FRTZF when the same shift is held fixed", () => {
+    const response = calculatePatternPosition({
+      ...compositeInput,
+      segments: [compositeInput.segments[0], { ...compositeInput.segments[1], bestFit: "none" }]
+    });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.segments[1].conformance).toBe(false);
+      expect(response.result.status).toBe("fail");
+      expect(response.result.summary).toContain("out of tolerance: H1, H2, H3, H4");
+    }
+  });
+
+  it("only removes rotation when the segment allows it", () => {
+    // 0.1° about the pattern center moves each corner 0.049 (Ø0.099)
+    const rotated = { ...compositeInput, features: measurePattern(0, 0, 0.1) };
+    const translationOnly = calculatePatternPosition({
+      ...rotated,
+      segments: [{ tolerance: 0.05, materialCondition: "RFS", bestFit: "translation" }]
+    });
+    const withRotation = calculatePatternPosition({
+      ...rotated,
+      segments: [{ tolerance: 0.05, materialCondition: "RFS", bestFit: "translation-rotation" }]
+    });
+    expect(translationOnly.success && translationOnly.result.segments[0].conformance).toBe(false);
+    expect(withRotation.success && withRotation.result.segments[0].conformance).toBe(true);
+    if (withRotation.success) {
+      expect(withRotation.result.segments[0].transform.rotation).toBeCloseTo(-0.1, 3);
+    }
+  });
+
+  it("minimizes the worst feature rather than the average", () => {
+    // Least squares would split 0.1 over four features; minimax centers the zone on H1's excursion
+    const features = measurePattern(0, 0);
+    features[0].measured.actualX += 0.1;
+    const response = calculatePatternPosition({
+      ...compositeInput,
+      features,
+      segments: [{ tolerance: 0.1, materialCondition: "RFS", bestFit: "translation" }]
+    });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      const segment = response.result.segments[0];
+      expect(Math.max(...segment.features.map((f) => f.actualPositionTolerance))).toBeCloseTo(0.1, 3);
+      expect(segment.conformance).toBe(true);
+    }
+  });
+
+  it("gives each feature its own bonus tolerance", () => {
+    const features = measurePattern(0.1, 0);
+    features[1].measured.actualSize = 8.08;
+    const response = calculatePatternPosition({ ...compositeInput, features });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      const pltzf = response.result.segments[0];
+      expect(pltzf.features[0].bonusTolerance).toBe(0);
+      expect(pltzf.features[1].bonusTolerance).toBeCloseTo(0.08, 4);
+      expect(pltzf.features[1].totalAllowableTolerance).toBeCloseTo(0.58, 4);
+    }
+  });
+
+  it("rejects a pattern whose count does not match the measurements", () => {
+    const response = calculatePatternPosition({ ...compositeInput, count: 6 });
+    expect(response.success).toBe(false);
+    if (!response.success) {
+      expect(response.errors[0].code).toBe("PATTERN_COUNT_MISMATCH");
+    }
+  });
+
+  it("flags feature sizes outside limits", () => {
+    const response = calculatePatternPosition({ ...compositeInput, features: measurePattern(0, 0, 0, 8.2) });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.sizeConformance).toBe(false);
+      expect(response.result.status).toBe("fail");
+    }
+  });
+});
+
+describe("patternSegmentsFromFcf", () => {
+  const fcf = exampleFcfs.compositePositionSlots;
+
+  it("fixes the PLTZF and frees the FRTZF to translate", () => {
+    const segments = patternSegmentsFromFcf(fcf);
+    expect(segments.map((s) => [s.label, s.tolerance, s.bestFit])).toEqual([
+      ["PLTZF", 0.25, "none"],
+      ["FRTZF", 0.1, "translation"]
+    ]);
+  });
+
+  it("frees rotation when the FRTZF datums do not clock the pattern", () => {
+    const segments = patternSegmentsFromFcf(fcf, [
+      { id: "A", type: "planar" },
+      { id: "B", type: "cylindrical" },
+      { id: "C", type: "width" }
+    ]);
+    expect(segments[1].bestFit).toBe("translation-rotation");
+  });
+
+  it("labels every lower segment of a composite frame as an FRTZF", () => {
+    const segments = patternSegmentsFromFcf({
+      ...fcf,
+      tolerance: { value: 0.25, materialCondition: "MMC" },
+      composite: {
+        type: "composite",
+        segments: [
+          { tolerance: { value: 0.25 }, datums: [{ id: "A" }, { id: "B" }, { id: "C" }] },
+          { tolerance: { value: 0.1 }, datums: [{ id: "A" }, { id: "B" }] },
+          { tolerance: { value: 0.05, materialCondition: "RFS" }, datums: [{ id: "A" }] }
+        ]
+      }
+    });
+    expect(segments).toEqual([
+      { tolerance: 0.25, materialCondition: "MMC", bestFit: "none", label: "PLTZF" },
+      { tolerance: 0.1, materialCondition: "MMC", bestFit: "translation", label: "FRTZF" },
+      { tolerance: 0.05, materialCondition: "RFS", bestFit: "translation-rotation", label: "FRTZF 2" }
+    ]);
+  });
+
+  it("takes segment zones stated in their own unit into the frame's unit", () => {
+    const segments = patternSegmentsFromFcf({
+      ...fcf,
+      composite: {
+        type: "composite",
+        segments: [
+          { tolerance: { value: 0.25 }, datums: [{ id: "A" }, { id: "B" }, { id: "C" }] },
+          { tolerance: { value: 0.004, unit: "inch" }, datums: [{ id: "A" }, { id: "B" }] }
+        ]
+      }
+    });
+    expect(segments[1].tolerance).toBeCloseTo(0.1016, 10);
+  });
+
+  it("only frees what each single segment's datums leave open", () => {
+    const single = {
+      ...fcf,
+      composite: {
+        type: "multipleSingleSegments" as const,
+        segments: [
+          { tolerance: { value: 0.25 }, datums: [{ id: "A" }, { id: "B" }, { id: "C" }] },
+          { tolerance: { value: 0.1 }, datums: [{ id: "A" }, { id: "B" }] },
+          { tolerance: { value: 0.05 }, datums: [{ id: "A" }] }
+        ]
+      }
+    };
+    expect(patternSegmentsFromFcf(single).map((s) => [s.label, s.bestFit])).toEqual([
+      ["SEGMENT 1", "none"],
+      ["SEGMENT 2", "none"],
+      ["SEGMENT 3", "translation-rotation"]
+    ]);
+
+    // A cylindrical secondary locates the pattern but leaves it free to rotate;
+    // unlike an FRTZF, a single segment keeps that location
+    const catalogued = patternSegmentsFromFcf(single, [
+      { id: "A", type: "planar" },
+      { id: "B", type: "cylindrical" },
+      { id: "C", type: "width" }
+    ]);
+    expect(catalogued.map((s) => s.bestFit)).toEqual(["none", "none", "translation-rotation"]);
+  });
+
+  it("evaluates measurements against the derived segments", () => {
+    const response = calculatePatternPosition({
+      ...compositeInput,
+      segments: patternSegmentsFromFcf({
+        ...fcf,
+        featureType: "hole",
+        tolerance: { value: 0.5, diameter: true, materialCondition: "MMC" },
+        composite: {
+          type: "multipleSingleSegments",
+          segments: [
+            { tolerance: { value: 0.5 }, datums: [{ id: "A" }, { id: "B" }, { id: "C" }] },
+            { tolerance: { value: 0.1 }, datums: [{ id: "A" }] }
+          ]
+        }
+      })
+    });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.segments.map((s) => [s.label, s.conformance])).toEqual([
+        ["SEGMENT 1", true],
+        ["SEGMENT 2", true]
+      ]);
+      expect(response.result.status).toBe("pass");
+    }
+  });
+
+  it("treats a single-segment frame as a PLTZF", () => {
+    const segments = patternSegmentsFromFcf({ ...fcf, composite: undefined });
+    expect(segments).toEqual([{ tolerance: 0.25, materialCondition: "RFS", bestFit: "none", label: "PLTZF" }]);
+  });
+});
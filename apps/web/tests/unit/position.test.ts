@@ -7,12 +7,13 @@ import {
   calculateVirtualCondition,
   calculateResultantCondition,
   calculatePositionDeviation,
+  calculateDatumShift,
   calculatePositionAtMmc,
   quickPositionMmc,
   quickPositionLmc,
   quickPositionRfs
 } from "@/lib/calc/position";
-import { PositionInput, SizeDimensionInput, SizeLimits } from "@/lib/calc/types";
+import { DatumFeatureOfSizeInput, PositionInput, SizeDimensionInput, SizeLimits } from "@/lib/calc/types";
 
 // ============================================================================
 // TEST FIXTURES
@@ -602,6 +603,214 @@ describe("calculatePosition", () => {
   });
 });
 
+// ============================================================================
+// DATUM SHIFT TESTS
+// ============================================================================
+
+/**
+ * Datum B: Ø20 +0.05/-0 bore referenced at MMB (MMB = 20.0), measured at 20.05.
+ */
+const datumBoreAtMmb: DatumFeatureOfSizeInput = {
+  id: "B",
+  materialCondition: "MMC",
+  sizeDimension: { nominal: 20, tolerancePlus: 0.05, toleranceMinus: 0, featureType: "hole" },
+  actualSize: 20.05
+};
+
+describe("calculateDatumShift", () => {
+  it("calculates shift for an internal datum feature at MMB", () => {
+    const shift = calculateDatumShift(datumBoreAtMmb, true);
+    expect(shift.materialBoundary).toBe(20);
+    expect(shift.shift).toBeCloseTo(0.05, 4);
+    expect(shift.sizeConformance).toBe(true);
+  });
+
+  it("calculates shift for an external datum feature at MMB", () => {
+    const shaft: DatumFeatureOfSizeInput = {
+      id: "B",
+      materialCondition: "MMC",
+      sizeDimension: { nominal: 20, tolerancePlus: 0, toleranceMinus: 0.05, featureType: "pin" },
+      actualSize: 19.97
+    };
+    expect(calculateDatumShift(shaft, true).shift).toBeCloseTo(0.03, 4);
+  });
+
+  it("measures shift from a stated virtual-condition boundary", () => {
+    const shift = calculateDatumShift({ ...datumBoreAtMmb, materialBoundary: 19.98 }, true);
+    expect(shift.shift).toBeCloseTo(0.07, 4);
+  });
+
+  it("calculates shift for an internal datum feature at LMB", () => {
+    const shift = calculateDatumShift({ ...datumBoreAtMmb, materialCondition: "LMC", actualSize: 20.01 }, true);
+    expect(shift.materialBoundary).toBe(20.05);
+    expect(shift.shift).toBeCloseTo(0.04, 4);
+  });
+
+  it("has no shift when the datum is referenced RMB", () => {
+    const shift = calculateDatumShift({ ...datumBoreAtMmb, materialCondition: "RFS" }, true);
+    expect(shift.shift).toBe(0);
+    expect(shift.appliedToZone).toBe(false);
+  });
+});
+
+describe("calculatePosition with datum features of size", () => {
+  // 2 × sqrt(0.12² + 0.09²) = Ø0.30 against Ø0.25 stated + bonus
+  const offsetHole: PositionInput = {
+    ...holeAtMmcInput,
+    measured: { actualX: 50.12, actualY: 25.09, actualSize: 10.05 }
+  };
+
+  it("fails without datum shift", () => {
+    const response = calculatePosition(offsetHole);
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.datumShift).toEqual([]);
+      expect(response.result.allowableWithDatumShift).toBe(response.result.totalAllowableTolerance);
+      expect(response.result.status).toBe("fail");
+    }
+  });
+
+  it("reports datum shift separately from bonus and passes with it", () => {
+    const response = calculatePosition({ ...offsetHole, datumFeatures: [datumBoreAtMmb] });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.bonusTolerance).toBeCloseTo(0.05, 4);
+      expect(response.result.totalAllowableTolerance).toBeCloseTo(0.25, 4);
+      expect(response.result.datumShiftTolerance).toBeCloseTo(0.05, 4);
+      expect(response.result.allowableWithDatumShift).toBeCloseTo(0.3, 4);
+      expect(response.result.status).toBe("pass");
+      expect(response.result.summary).toContain("Datum shift: 0.0500 (datum B)");
+    }
+  });
+
+  it("only adds the shift of the first datum feature of size", () => {
+    const slot: DatumFeatureOfSizeInput = {
+      id: "C",
+      materialCondition: "MMC",
+      sizeDimension: { nominal: 6, tolerancePlus: 0.1, toleranceMinus: 0, featureType: "slot" },
+      actualSize: 6.08
+    };
+    const response = calculatePosition({ ...offsetHole, datumFeatures: [datumBoreAtMmb, slot] });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.datumShift.map((d) => d.appliedToZone)).toEqual([true, false]);
+      expect(response.result.datumShift[1].shift).toBeCloseTo(0.08, 4);
+      expect(response.result.datumShiftTolerance).toBeCloseTo(0.05, 4);
+    }
+  });
+
+  it("rejects a datum at MMB that is not a feature of size", () => {
+    const response = calculatePosition({
+      ...offsetHole,
+      datumFeatures: [{ ...datumBoreAtMmb, sizeDimension: { ...datumBoreAtMmb.sizeDimension, featureType: "surface" } }]
+    });
+    expect(response.success).toBe(false);
+    if (!response.success) {
+      expect(response.errors.some((e) => e.code === "INVALID_DATUM_FEATURE_TYPE")).toBe(true);
+    }
+  });
+});
+
+// ============================================================================
+// AXIS AND PROJECTED ZONE TESTS
+// ============================================================================
+
+/**
+ * Ø0.05 RFS tapped hole, 12 deep, axis leaning 0.002 per mm in X:
+ * x = 50.014 at the surface (z = 0) and 49.99 at the bottom (z = -12)
+ */
+const tiltedAxisHole: PositionInput = {
+  ...holeAtMmcInput,
+  geometricTolerance: 0.05,
+  materialCondition: "RFS",
+  featureLength: 12,
+  measured: {
+    actualX: 50,
+    actualY: 25,
+    actualSize: 10.05,
+    axisPoints: [
+      { x: 50.01, y: 25, z: -2 },
+      { x: 50.0, y: 25, z: -7 },
+      { x: 49.99, y: 25, z: -12 }
+    ]
+  }
+};
+
+describe("calculatePosition with measured axis points", () => {
+  it("evaluates the axis at both ends of the feature", () => {
+    const response = calculatePosition(tiltedAxisHole);
+    expect(response.success).toBe(true);
+    if (response.success) {
+      const [top, bottom] = response.result.axisEnds!;
+      expect(top.z).toBe(0);
+      expect(top.actualPositionTolerance).toBeCloseTo(0.028, 4);
+      expect(bottom.z).toBe(-12);
+      expect(bottom.actualPositionTolerance).toBeCloseTo(0.02, 4);
+      expect(response.result.governingEnd).toBe("top");
+      expect(response.result.deviationX).toBeCloseTo(0.014, 4);
+      expect(response.result.actualPositionTolerance).toBeCloseTo(0.028, 4);
+      expect(response.result.status).toBe("pass");
+    }
+  });
+
+  it("extrapolates the axis through a projected zone", () => {
+    const response = calculatePosition({ ...tiltedAxisHole, projectedZone: { height: 15 } });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      const [top, bottom] = response.result.axisEnds!;
+      expect(top.z).toBe(15);
+      expect(top.actualPositionTolerance).toBeCloseTo(0.088, 4);
+      expect(bottom.z).toBe(0);
+      expect(response.result.governingEnd).toBe("top");
+      expect(response.result.projectedZoneHeight).toBe(15);
+      expect(response.result.status).toBe("fail");
+      expect(response.result.summary).toContain("projected zone");
+    }
+  });
+
+  it("takes a projected zone height stated in its own unit", () => {
+    const response = calculatePosition({ ...tiltedAxisHole, projectedZone: { height: 1, unit: "inch" } });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.axisEnds![0].z).toBeCloseTo(25.4, 10);
+      expect(response.result.projectedZoneHeight).toBeCloseTo(25.4, 10);
+    }
+  });
+
+  it("uses the measured span when no feature length is given", () => {
+    const response = calculatePosition({ ...tiltedAxisHole, featureLength: undefined });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.axisEnds!.map((end) => end.z)).toEqual([-2, -12]);
+    }
+  });
+
+  it("requires axis points for a projected zone", () => {
+    const response = calculatePosition({ ...holeAtMmcInput, projectedZone: { height: 15 } });
+    expect(response.success).toBe(false);
+    if (!response.success) {
+      expect(response.errors.some((e) => e.code === "MISSING_AXIS_POINTS")).toBe(true);
+    }
+  });
+
+  it("rejects axis points taken at a single depth", () => {
+    const response = calculatePosition({
+      ...tiltedAxisHole,
+      measured: {
+        ...tiltedAxisHole.measured,
+        axisPoints: [
+          { x: 50.01, y: 25, z: -5 },
+          { x: 50.0, y: 25, z: -5 }
+        ]
+      }
+    });
+    expect(response.success).toBe(false);
+    if (!response.success) {
+      expect(response.errors[0].code).toBe("INVALID_AXIS_POINTS");
+    }
+  });
+});
+
 // ============================================================================
 // QUICK FUNCTION TESTS
 // ============================================================================
@@ -0,0 +1,207 @@
+import { describe, expect, it } from "vitest";
+
+import { calculateProfile } from "@/lib/calc/profile";
+import { NominalProfile, ProfileInput } from "@/lib/calc/types";
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+/** 40 x 20 rectangle traversed counter-clockwise (material inside) */
+const rectangle: NominalProfile = {
+  type: "polyline",
+  closed: true,
+  vertices: [
+    { x: 0, y: 0 },
+    { x: 40, y: 0 },
+    { x: 40, y: 20 },
+    { x: 0, y: 20 }
+  ]
+};
+
+/** Rounded end of a tongue: lower flank, R10 arc, upper flank (material inside) */
+const slotEnd: NominalProfile = {
+  type: "segments",
+  segments: [
+    { type: "line", start: { x: -20, y: -10 }, end: { x: 0, y: -10 } },
+    { type: "arc", center: { x: 0, y: 0 }, radius: 10, startAngle: -90, endAngle: 90 },
+    { type: "line", start: { x: 0, y: 10 }, end: { x: -20, y: 10 } }
+  ]
+};
+
+const baseInput: Omit<ProfileInput, "formOnly"> = {
+  unit: "mm",
+  tolerance: 0.1,
+  zoneType: "bilateral"
+};
+
+// ============================================================================
+// REPORTED DEVIATION TESTS
+// ============================================================================
+
+describe("calculateProfile with reported deviations", () => {
+  it("checks deviations against a bilateral zone", () => {
+    const response = calculateProfile({
+      ...baseInput,
+      formOnly: false,
+      measuredPoints: [
+        { position: 0, deviation: 0.03 },
+        { position: 1, deviation: -0.06 }
+      ]
+    });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.maxDeviationOutside).toBeCloseTo(0.03, 4);
+      expect(response.result.nonConformingPoints).toEqual([1]);
+      expect(response.result.evaluatedPoints).toBeUndefined();
+    }
+  });
+});
+
+// ============================================================================
+// RAW POINT TESTS
+// ============================================================================
+
+describe("calculateProfile with raw points", () => {
+  it("computes signed normal deviations from a polyline", () => {
+    const response = calculateProfile({
+      ...baseInput,
+      formOnly: false,
+      nominalProfile: rectangle,
+      rawPoints: [
+        { x: 10, y: -0.02 },
+        { x: 40.03, y: 10 },
+        { x: 20, y: 19.96 },
+        { x: -0.01, y: 5 }
+      ]
+    });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      const deviations = response.result.evaluatedPoints!.map((p) => p.deviation);
+      expect(deviations[0]).toBeCloseTo(0.02, 4);
+      expect(deviations[1]).toBeCloseTo(0.03, 4);
+      expect(deviations[2]).toBeCloseTo(-0.04, 4);
+      expect(deviations[3]).toBeCloseTo(0.01, 4);
+      expect(response.result.evaluatedPoints![1].position).toBeCloseTo(50, 4);
+      expect(response.result.alignment).toBeUndefined();
+      expect(response.result.status).toBe("pass");
+    }
+  });
+
+  it("flips the sign when the material is on the right", () => {
+    const response = calculateProfile({
+      ...baseInput,
+      formOnly: false,
+      nominalProfile: { ...rectangle, materialSide: "right" } as NominalProfile,
+      rawPoints: [{ x: 10, y: -0.02 }]
+    });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.evaluatedPoints![0].deviation).toBeCloseTo(-0.02, 4);
+    }
+  });
+
+  it("measures arcs radially", () => {
+    const angle = (30 * Math.PI) / 180;
+    const response = calculateProfile({
+      ...baseInput,
+      formOnly: false,
+      nominalProfile: slotEnd,
+      rawPoints: [
+        { x: 10.04 * Math.cos(angle), y: 10.04 * Math.sin(angle) },
+        { x: -10, y: 9.97 }
+      ]
+    });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      const [onArc, onFlank] = response.result.evaluatedPoints!;
+      expect(onArc.deviation).toBeCloseTo(0.04, 4);
+      expect(onArc.position).toBeCloseTo(20 + 10 * (120 * Math.PI) / 180, 3);
+      expect(onFlank.deviation).toBeCloseTo(-0.03, 4);
+    }
+  });
+
+  it("uses the normals of a sampled surface", () => {
+    const samples = [0, 10, 20, 30].flatMap((x) =>
+      [0, 10, 20].map((y) => ({ point: { x, y, z: 5 }, normal: { x: 0, y: 0, z: 1 } }))
+    );
+    const response = calculateProfile({
+      ...baseInput,
+      formOnly: false,
+      nominalProfile: { type: "sampled", samples },
+      rawPoints: [
+        { x: 0.2, y: 10.1, z: 5.03 },
+        { x: 29.8, y: 0.3, z: 4.92 }
+      ]
+    });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.evaluatedPoints!.map((p) => p.deviation)).toEqual([0.03, -0.08]);
+      expect(response.result.status).toBe("fail");
+    }
+  });
+
+  it("best fits a form-only profile that is displaced and rotated", () => {
+    const angle = (0.5 * Math.PI) / 180;
+    const rotate = (x: number, y: number) => ({
+      x: 20 + (x - 20) * Math.cos(angle) - (y - 10) * Math.sin(angle) + 0.3,
+      y: 10 + (x - 20) * Math.sin(angle) + (y - 10) * Math.cos(angle) - 0.2
+    });
+    const rawPoints = [
+      rotate(10, 0.01),
+      rotate(30, -0.01),
+      rotate(40.02, 5),
+      rotate(39.99, 15),
+      rotate(30, 20.01),
+      rotate(10, 19.98),
+      rotate(0.01, 15),
+      rotate(-0.01, 5)
+    ];
+
+    const located = calculateProfile({ ...baseInput, formOnly: false, nominalProfile: rectangle, rawPoints });
+    const floated = calculateProfile({ ...baseInput, formOnly: true, nominalProfile: rectangle, rawPoints });
+    expect(located.success && floated.success).toBe(true);
+    if (located.success && floated.success) {
+      expect(located.result.status).toBe("fail");
+      expect(floated.result.status).toBe("pass");
+      expect(floated.result.alignment!.rz).toBeCloseTo(-0.5, 1);
+      expect(Math.max(floated.result.maxDeviationOutside, floated.result.maxDeviationInside)).toBeLessThan(0.025);
+      expect(floated.result.summary).toContain("best fit");
+    }
+  });
+
+  it("requires a nominal profile for raw points", () => {
+    const response = calculateProfile({ ...baseInput, formOnly: true, rawPoints: [{ x: 0, y: 0 }] });
+    expect(response.success).toBe(false);
+    if (!response.success) {
+      expect(response.errors[0].code).toBe("MISSING_NOMINAL_PROFILE");
+    }
+  });
+
+  it("rejects best fit of a profile located by datums", () => {
+    const response = calculateProfile({
+      ...baseInput,
+      formOnly: false,
+      bestFit: true,
+      nominalProfile: rectangle,
+      rawPoints: [{ x: 10, y: 0 }]
+    });
+    expect(response.success).toBe(false);
+    if (!response.success) {
+      expect(response.errors.some((e) => e.code === "INVALID_BEST_FIT")).toBe(true);
+    }
+  });
+
+  it("rejects a degenerate nominal profile", () => {
+    const response = calculateProfile({
+      ...baseInput,
+      formOnly: false,
+      nominalProfile: { type: "polyline", vertices: [{ x: 0, y: 0 }] },
+      rawPoints: [{ x: 10, y: 0 }]
+    });
+    expect(response.success).toBe(false);
+    if (!response.success) {
+      expect(response.errors[0].code).toBe("INVALID_NOMINAL_PROFILE");
+    }
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+
+import { calculateCircularity } from "@/lib/calc/circularity";
+import { calculateCylindricity } from "@/lib/calc/cylindricity";
+import { CirclePoint, RoundnessFitMethod, SurfacePoint } from "@/lib/calc/types";
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+/**
+ * Section of radius 10 about (cx, cy) with radial form error `form(θ)`.
+ */
+function section(cx: number, cy: number, form: (theta: number) => number, count = 72): CirclePoint[] {
+  return Array.from({ length: count }, (_, i) => {
+    const theta = (2 * Math.PI * i) / count;
+    const r = 10 + form(theta);
+    return { x: cx + r * Math.cos(theta), y: cy + r * Math.sin(theta) };
+  });
+}
+
+/** Oval plus three lobes: the fitting methods disagree on the center */
+const lobed = section(2, -1, (theta) => 0.004 * Math.cos(2 * theta) + 0.003 * Math.cos(3 * theta + 0.4));
+
+const methods: RoundnessFitMethod[] = ["minimum-zone", "least-squares", "maximum-inscribed", "minimum-circumscribed"];
+
+function circularity(fitMethod: RoundnessFitMethod, measuredPoints = lobed) {
+  const response = calculateCircularity({ unit: "mm", tolerance: 0.02, measuredPoints, fitMethod, precision: 6 });
+  if (!response.success) throw new Error(response.errors[0].message);
+  return response.result;
+}
+
+// ============================================================================
+// CIRCULARITY TESTS
+// ============================================================================
+
+describe("calculateCircularity", () => {
+  it("recovers a perfect circle with every method", () => {
+    const perfect = section(5, -3, () => 0);
+    methods.forEach((method) => {
+      const result = circularity(method, perfect);
+      expect(result.measuredCircularity).toBeCloseTo(0, 6);
+      expect(result.center.x).toBeCloseTo(5, 5);
+      expect(result.center.y).toBeCloseTo(-3, 5);
+      expect(result.radius).toBeCloseTo(10, 5);
+    });
+  });
+
+  it("never reports another method narrower than minimum zone", () => {
+    const minimumZone = circularity("minimum-zone").measuredCircularity;
+    methods.forEach((method) => {
+      expect(circularity(method).measuredCircularity).toBeGreaterThanOrEqual(minimumZone - 1e-6);
+    });
+  });
+
+  it("inscribes and circumscribes the section", () => {
+    const leastSquares = circularity("least-squares");
+    const inscribed = circularity("maximum-inscribed");
+    const circumscribed = circularity("minimum-circumscribed");
+    expect(inscribed.radius).toBe(inscribed.innerRadius);
+    expect(inscribed.radius).toBeGreaterThanOrEqual(leastSquares.innerRadius);
+    expect(circumscribed.radius).toBe(circumscribed.outerRadius);
+    expect(circumscribed.radius).toBeLessThanOrEqual(leastSquares.outerRadius);
+  });
+
+  it("uses the minimum zone by default", () => {
+    const response = calculateCircularity({ unit: "mm", tolerance: 0.005, measuredPoints: lobed });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.fitMethod).toBe("minimum-zone");
+      expect(response.result.status).toBe("fail");
+      expect(response.result.summary).toContain("minimum zone");
+    }
+  });
+
+  it("requires at least four points", () => {
+    const response = calculateCircularity({ unit: "mm", tolerance: 0.01, measuredPoints: lobed.slice(0, 3) });
+    expect(response.success).toBe(false);
+    if (!response.success) {
+      expect(response.errors[0].code).toBe("INSUFFICIENT_POINTS");
+    }
+  });
+});
+
+// ============================================================================
+// CYLINDRICITY TESTS
+// ============================================================================
+
+/**
+ * Sections at Z = 0, 20, 40 of a cylinder whose axis passes through (1, 2, 0)
+ * and leans 0.05 in X per 40, with per-section radial error.
+ */
+function cylinder(form: (theta: number, z: number) => number): SurfacePoint[] {
+  return [0, 20, 40].flatMap((z) =>
+    section(1 + (0.05 * z) / 40, 2, (theta) => form(theta, z), 24).map((p) => ({ ...p, z }))
+  );
+}
+
+describe("calculateCylindricity", () => {
+  it("recovers a perfect tilted cylinder", () => {
+    const response = calculateCylindricity({
+      unit: "mm",
+      tolerance: 0.01,
+      measuredPoints: cylinder(() => 0),
+      precision: 6
+    });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      const result = response.result;
+      // Sections are horizontal, so a tilted axis sees slightly elliptical
+      // sections: (10 / cos θ - 10) ≈ 8e-6 across the zone
+      expect(result.measuredCylindricity).toBeLessThan(1e-5);
+      expect(result.axisPoint.x).toBeCloseTo(1, 4);
+      expect(result.axisPoint.y).toBeCloseTo(2, 4);
+      expect(result.axisDirection.x).toBeCloseTo(0.05 / 40, 5);
+      expect(result.sectionCount).toBe(3);
+    }
+  });
+
+  it("measures a barrel-shaped cylinder", () => {
+    const response = calculateCylindricity({
+      unit: "mm",
+      tolerance: 0.01,
+      measuredPoints: cylinder((_, z) => (z === 20 ? 0.008 : 0))
+    });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.measuredCylindricity).toBeCloseTo(0.008, 4);
+      expect(response.result.status).toBe("pass");
+    }
+  });
+
+  it("needs points on more than one section", () => {
+    const response = calculateCylindricity({
+      unit: "mm",
+      tolerance: 0.01,
+      measuredPoints: lobed.map((p) => ({ ...p, z: 0 }))
+    });
+    expect(response.success).toBe(false);
+    if (!response.success) {
+      expect(response.errors[0].code).toBe("INSUFFICIENT_SECTIONS");
+    }
+  });
+});
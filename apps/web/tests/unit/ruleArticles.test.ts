@@ -0,0 +1,47 @@
+import fs from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+
+import { getRules } from "@/lib/rules/validateFcf";
+import { RULE_ARTICLES_DIR, renderRuleArticle, ruleArticleHref, ruleArticleSlug } from "@/lib/content/ruleArticles";
+
+const articlesDir = path.resolve(__dirname, "../../content/support", RULE_ARTICLES_DIR);
+
+describe("rule support articles", () => {
+  it("links each code to its article", () => {
+    expect(ruleArticleSlug("E001")).toBe("e001");
+    expect(ruleArticleHref("W005")).toBe("/support/rules/w005");
+  });
+
+  it("renders references, rationale and examples", () => {
+    const rule = getRules().find((r) => r.code === "E002")!;
+    const article = renderRuleArticle(rule);
+    expect(article).toMatch(/^---\ntitle: "E002: /);
+    expect(article).toContain("ASME Y14.5-2018 §8.3 Specifying Form Tolerances");
+    expect(article).toContain(rule.rationale);
+    expect(article).toContain("⏥|0.05|A");
+  });
+
+  it("cites figures and the JSON fields of examples", () => {
+    const article = renderRuleArticle(getRules().find((r) => r.code === "E008")!);
+    expect(article).toContain("ASME Y14.5-2018 §10.4.1 Projected Tolerance Zone, Fig. 10-21");
+    expect(article).toContain('"projectedZone"');
+  });
+
+  it("says when a check has no standard reference", () => {
+    const rule = getRules().find((r) => r.code === "W005")!;
+    expect(renderRuleArticle(rule)).toContain("based on drafting practice");
+  });
+
+  // Regenerate with `pnpm generate:rule-articles` when these fail
+  it.each(getRules().map((rule) => [rule.code, rule] as const))("%s article is up to date", (_code, rule) => {
+    const file = path.join(articlesDir, `${ruleArticleSlug(rule.code)}.mdx`);
+    expect(fs.existsSync(file) ? fs.readFileSync(file, "utf-8") : null).toBe(renderRuleArticle(rule));
+  });
+
+  it("has no articles for codes outside the catalog", () => {
+    const expected = getRules().map((rule) => `${ruleArticleSlug(rule.code)}.mdx`);
+    const files = fs.readdirSync(articlesDir).filter((file) => file.endsWith(".mdx"));
+    expect(files.filter((file) => !expected.includes(file))).toEqual([]);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+
+import { calculateRunout, calculateTotalRunout } from "@/lib/calc/runout";
+import { RunoutInput, TotalRunoutInput } from "@/lib/calc/types";
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+/** Three sections of a shaft journal, 0.03 circular runout to A-B */
+const runoutInput: RunoutInput = {
+  unit: "mm",
+  tolerance: 0.03,
+  datumAxis: ["A", "B"],
+  sections: [
+    { position: 5, readings: [0.0, 0.008, 0.014, 0.006, -0.004, -0.006] },
+    { position: 15, readings: [0.002, 0.012, 0.021, 0.01, -0.002, -0.005] },
+    { position: 25, readings: [0.0, 0.004, 0.009, 0.003, -0.001, -0.002] }
+  ]
+};
+
+/** Same surface swept for total runout; the third section sits higher (taper) */
+const totalRunoutInput: TotalRunoutInput = {
+  unit: "mm",
+  tolerance: 0.03,
+  datumAxis: ["A"],
+  sections: [
+    { id: "near", readings: [0.0, 0.008, 0.012, 0.004] },
+    { id: "mid", readings: [0.006, 0.015, 0.018, 0.01] },
+    { id: "far", readings: [0.014, 0.022, 0.026, 0.018] }
+  ]
+};
+
+// ============================================================================
+// CIRCULAR RUNOUT TESTS
+// ============================================================================
+
+describe("calculateRunout", () => {
+  it("reports the FIR of each section and the worst section", () => {
+    const response = calculateRunout(runoutInput);
+    expect(response.success).toBe(true);
+    if (response.success) {
+      const { result } = response;
+      expect(result.sections.map((s) => s.id)).toEqual(["S1", "S2", "S3"]);
+      expect(result.sections[0].fir).toBeCloseTo(0.02, 4);
+      expect(result.sections[1].fir).toBeCloseTo(0.026, 4);
+      expect(result.sections[1].maxReading).toBeCloseTo(0.021, 4);
+      expect(result.sections[1].minReading).toBeCloseTo(-0.005, 4);
+      expect(result.maxFir).toBeCloseTo(0.026, 4);
+      expect(result.worstSection).toBe("S2");
+      expect(result.datumAxis).toBe("A-B");
+      expect(result.status).toBe("pass");
+      expect(result.summary).toContain("PASS");
+    }
+  });
+
+  it("fails when any section exceeds the tolerance", () => {
+    const response = calculateRunout({ ...runoutInput, tolerance: 0.022 });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.sections.map((s) => s.conformance)).toEqual([true, false, true]);
+      expect(response.result.status).toBe("fail");
+      expect(response.result.summary).toContain("S2");
+    }
+  });
+
+  it("rejects sections with a single reading", () => {
+    const response = calculateRunout({ ...runoutInput, sections: [{ readings: [0.01] }] });
+    expect(response.success).toBe(false);
+    if (!response.success) {
+      expect(response.errors.some((e) => e.code === "INSUFFICIENT_READINGS")).toBe(true);
+    }
+  });
+
+  it("rejects a datum axis of more than two features", () => {
+    const response = calculateRunout({ ...runoutInput, datumAxis: ["A", "B", "C"] });
+    expect(response.success).toBe(false);
+    if (!response.success) {
+      expect(response.errors.some((e) => e.code === "INVALID_DATUM_AXIS")).toBe(true);
+    }
+  });
+
+  it("rejects a common axis built from the same datum twice", () => {
+    const response = calculateRunout({ ...runoutInput, datumAxis: ["A", "A"] });
+    expect(response.success).toBe(false);
+  });
+});
+
+// ============================================================================
+// TOTAL RUNOUT TESTS
+// ============================================================================
+
+describe("calculateTotalRunout", () => {
+  it("takes the FIR across all sections with one indicator zero", () => {
+    const response = calculateTotalRunout(totalRunoutInput);
+    expect(response.success).toBe(true);
+    if (response.success) {
+      const { result } = response;
+      expect(result.totalFir).toBeCloseTo(0.026, 4);
+      expect(result.maxSectionFir).toBeCloseTo(0.012, 4);
+      expect(result.readingCount).toBe(12);
+      expect(result.sections.map((s) => s.id)).toEqual(["near", "mid", "far"]);
+      expect(result.datumAxis).toBe("A");
+      expect(result.status).toBe("pass");
+    }
+  });
+
+  it("fails on taper even when every section is within tolerance", () => {
+    const response = calculateTotalRunout({ ...totalRunoutInput, tolerance: 0.02 });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.sections.every((s) => s.conformance)).toBe(true);
+      expect(response.result.status).toBe("fail");
+      expect(response.result.toleranceConsumed).toBeCloseTo(130, 1);
+    }
+  });
+
+  it("rejects a non-positive tolerance", () => {
+    const response = calculateTotalRunout({ ...totalRunoutInput, tolerance: 0 });
+    expect(response.success).toBe(false);
+    if (!response.success) {
+      expect(response.errors[0].code).toBe("INVALID_TOLERANCE");
+    }
+  });
+});
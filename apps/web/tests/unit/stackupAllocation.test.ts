@@ -0,0 +1,245 @@
+import { describe, it, expect } from "vitest";
+
+import { allocateTolerances, getAllocationWeights } from "@/lib/stackup/allocation";
+import type { StackupAnalysis, StackupDimension } from "@/lib/stackup/schema";
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+function createDimension(overrides: Partial<StackupDimension> = {}): StackupDimension {
+  return {
+    id: crypto.randomUUID(),
+    name: "Test Dimension",
+    nominal: 10,
+    tolerancePlus: 0.1,
+    toleranceMinus: 0.1,
+    sign: "positive",
+    sensitivityCoefficient: 1,
+    ...overrides,
+  };
+}
+
+/** Housing 50 ±0.1 minus part 49 ±0.1: a 1.0 ±0.2 gap (worst case) */
+function createAnalysis(overrides: Partial<StackupAnalysis> = {}): StackupAnalysis {
+  return {
+    id: crypto.randomUUID(),
+    projectId: crypto.randomUUID(),
+    name: "Gap",
+    measurementObjective: "Gap",
+    acceptanceCriteria: { minimum: 0.9, maximum: 1.1 },
+    positiveDirection: "left-to-right",
+    dimensions: [
+      createDimension({ name: "Housing", nominal: 50 }),
+      createDimension({ name: "Part", nominal: 49, sign: "negative" }),
+    ],
+    analysisMethod: "worst-case",
+    unit: "mm",
+    createdBy: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+function proposedTolerances(analysis: StackupAnalysis, strategy: Parameters<typeof allocateTolerances>[1]) {
+  return allocateTolerances(analysis, strategy).changes.map((c) => c.proposedTolerance);
+}
+
+// ============================================================================
+// STRATEGY TESTS
+// ============================================================================
+
+describe("allocateTolerances (proportional)", () => {
+  it("tightens a failing stack to the acceptance limits", () => {
+    const allocation = allocateTolerances(createAnalysis(), "proportional");
+
+    expect(allocation.feasible).toBe(true);
+    expect(allocation.changes.map((c) => c.proposedTolerance)).toEqual([0.05, 0.05]);
+    expect(allocation.changes[0].relativeChange).toBeCloseTo(-0.5, 10);
+    expect(allocation.result.maximumValue).toBeCloseTo(1.1, 10);
+  });
+
+  it("opens up a stack that passes with margin", () => {
+    const analysis = createAnalysis({ acceptanceCriteria: { minimum: 0.6, maximum: 1.4 } });
+    expect(proposedTolerances(analysis, "proportional")).toEqual([0.2, 0.2]);
+  });
+
+  it("keeps the shape of unilateral tolerances", () => {
+    const analysis = createAnalysis({
+      dimensions: [
+        createDimension({ nominal: 50, tolerancePlus: 0.2, toleranceMinus: 0 }),
+        createDimension({ nominal: 49, sign: "negative" }),
+      ],
+      acceptanceCriteria: { maximum: 1.15 },
+    });
+    const allocation = allocateTolerances(analysis, "proportional");
+    const [housing, part] = allocation.dimensions;
+    expect(allocation.feasible).toBe(true);
+    expect(housing.toleranceMinus).toBe(0);
+    expect(housing.tolerancePlus).toBeCloseTo(2 * part.tolerancePlus, 2);
+    expect(housing.tolerancePlus).toBeCloseTo(0.1, 2);
+  });
+
+  it("searches the simulated limits of a Monte Carlo stack", () => {
+    const analysis = createAnalysis({
+      analysisMethod: "monte-carlo",
+      monteCarlo: { sampleCount: 5000, seed: 7 },
+    });
+    const allocation = allocateTolerances(analysis, "proportional");
+    expect(allocation.feasible).toBe(true);
+    expect(allocation.result.maximumValue).toBeLessThanOrEqual(1.1);
+    // Simulated ±3σ of two ±t normals is ≈ t√2, looser than worst case
+    expect(allocation.changes[0].proposedTolerance).toBeGreaterThan(0.06);
+  });
+
+  it("confirms a reduced-sample search with the full sample count", () => {
+    const analysis = createAnalysis({
+      analysisMethod: "monte-carlo",
+      monteCarlo: { sampleCount: 50000, seed: 7 },
+    });
+    const allocation = allocateTolerances(analysis, "proportional");
+    expect(allocation.result.monteCarlo?.sampleCount).toBe(50000);
+    expect(allocation.feasible).toBe(true);
+    expect(allocation.result.maximumValue).toBeLessThanOrEqual(1.1);
+    expect(allocation.changes[0].proposedTolerance).toBeGreaterThan(0.06);
+  });
+
+  it("rounds to the requested decimals without leaving the criteria", () => {
+    const analysis = createAnalysis({ acceptanceCriteria: { minimum: 0.9, maximum: 1.0999 } });
+    const allocation = allocateTolerances(analysis, "proportional", { decimals: 2 });
+    expect(allocation.changes.map((c) => c.proposedTolerance)).toEqual([0.04, 0.04]);
+    expect(allocation.feasible).toBe(true);
+  });
+});
+
+describe("allocateTolerances (equal-precision)", () => {
+  it("gives larger sizes more tolerance", () => {
+    const analysis = createAnalysis({
+      dimensions: [
+        createDimension({ nominal: 80 }),
+        createDimension({ nominal: 10 }),
+        createDimension({ nominal: 89, sign: "negative" }),
+      ],
+    });
+    const weights = getAllocationWeights(analysis, "equal-precision");
+    const grade = (d: number) => 0.45 * Math.cbrt(d) + 0.001 * d;
+    expect(weights[0] / weights[1]).toBeCloseTo(grade(80) / grade(10), 10);
+    expect(allocateTolerances(analysis, "equal-precision").feasible).toBe(true);
+  });
+
+  it("sizes inch dimensions in millimetres", () => {
+    const inch = getAllocationWeights(
+      createAnalysis({
+        unit: "inch",
+        dimensions: [createDimension({ nominal: 1 }), createDimension({ nominal: 4 })],
+      }),
+      "equal-precision"
+    );
+    const mm = getAllocationWeights(
+      createAnalysis({
+        dimensions: [createDimension({ nominal: 25.4 }), createDimension({ nominal: 101.6 })],
+      }),
+      "equal-precision"
+    );
+    expect(inch[0] / inch[1]).toBeCloseTo(mm[0] / mm[1], 10);
+  });
+});
+
+describe("allocateTolerances (cost-minimization)", () => {
+  const costly = (analysisMethod: StackupAnalysis["analysisMethod"]) =>
+    createAnalysis({
+      analysisMethod,
+      dimensions: [
+        createDimension({ nominal: 50 }),
+        createDimension({ nominal: 49, sign: "negative", allocation: { costWeight: 4 } }),
+      ],
+    });
+
+  it("loosens costly tolerances, √(w/S) for worst case", () => {
+    const [cheap, expensive] = getAllocationWeights(costly("worst-case"), "cost-minimization");
+    expect(expensive / cheap).toBeCloseTo(2, 10);
+  });
+
+  it("uses ∛(w/S²) for statistical methods", () => {
+    const [cheap, expensive] = getAllocationWeights(costly("rss"), "cost-minimization");
+    expect(expensive / cheap).toBeCloseTo(Math.cbrt(4), 10);
+    expect(allocateTolerances(costly("rss"), "cost-minimization").feasible).toBe(true);
+  });
+});
+
+// ============================================================================
+// CONSTRAINT TESTS
+// ============================================================================
+
+describe("allocateTolerances constraints", () => {
+  it("respects minimum and maximum tolerances", () => {
+    const analysis = createAnalysis({
+      dimensions: [
+        createDimension({ nominal: 50, allocation: { minTolerance: 0.08 } }),
+        createDimension({ nominal: 49, sign: "negative" }),
+      ],
+    });
+    const allocation = allocateTolerances(analysis, "proportional");
+    expect(allocation.changes.map((c) => c.proposedTolerance)).toEqual([0.08, 0.02]);
+    expect(allocation.changes[0].limitedBy).toBe("minimum");
+
+    const loose = createAnalysis({
+      acceptanceCriteria: { minimum: 0, maximum: 2 },
+      dimensions: [
+        createDimension({ nominal: 50, allocation: { maxTolerance: 0.3 } }),
+        createDimension({ nominal: 49, sign: "negative" }),
+      ],
+    });
+    const opened = allocateTolerances(loose, "proportional");
+    expect(opened.changes[0]).toMatchObject({ proposedTolerance: 0.3, limitedBy: "maximum" });
+    expect(opened.changes[1].proposedTolerance).toBe(0.7);
+  });
+
+  it("reports infeasible stacks at their minimum tolerances", () => {
+    const analysis = createAnalysis({
+      dimensions: [
+        createDimension({ nominal: 50, allocation: { minTolerance: 0.08 } }),
+        createDimension({ nominal: 49, sign: "negative", allocation: { minTolerance: 0.04 } }),
+      ],
+    });
+    const allocation = allocateTolerances(analysis, "cost-minimization");
+    expect(allocation.feasible).toBe(false);
+    expect(allocation.changes.map((c) => c.proposedTolerance)).toEqual([0.08, 0.04]);
+  });
+
+  it("leaves FCF-linked and zero-sensitivity dimensions alone", () => {
+    const linked = createDimension({
+      nominal: 0,
+      tolerancePlus: 0.025,
+      toleranceMinus: 0.025,
+      fcfLink: { fcfRecordId: "fcf-001", contributor: "geometric" },
+    });
+    const ignored = createDimension({ sensitivityCoefficient: 0 });
+    const analysis = createAnalysis({
+      dimensions: [...createAnalysis().dimensions, linked, ignored],
+    });
+
+    const allocation = allocateTolerances(analysis, "proportional");
+    expect(allocation.dimensions[2]).toEqual(linked);
+    expect(allocation.dimensions[3]).toEqual(ignored);
+    expect(allocation.changes.slice(2).map((c) => c.limitedBy)).toEqual(["fixed", "fixed"]);
+    expect(allocation.changes[0].proposedTolerance).toBeCloseTo(0.037, 10);
+  });
+
+  it("uses sensitivities derived from a vector loop", () => {
+    const analysis = createAnalysis({
+      acceptanceCriteria: { minimum: 2.9, maximum: 3.1 },
+      vectorLoop: { closure: "projection" },
+      dimensions: [
+        createDimension({ nominal: 40, angle: 0 }),
+        createDimension({ nominal: 30, angle: 120 }),
+        createDimension({ nominal: 22, angle: 180 }),
+      ],
+    });
+    const allocation = allocateTolerances(analysis, "proportional");
+    // 0.1 × (1 + 0.5 + 1) at the limit
+    expect(allocation.changes.map((c) => c.proposedTolerance)).toEqual([0.04, 0.04, 0.04]);
+    expect(allocation.feasible).toBe(true);
+  });
+});
@@ -4,9 +4,16 @@ import {
   calculateStackup,
   calculateNominal,
   calculateMeanShift,
+  calculateMeanOffset,
+  getStandardDeviation,
+  calculatePredictedCpk,
   calculateWorstCase,
   calculateRSS,
   calculateSixSigma,
+  simulateStackup,
+  calculateLoopClosure,
+  deriveLoopSensitivities,
+  resolveVectorLoop,
   calculateContributions,
   checkAcceptance,
   validateStackupInput,
@@ -460,6 +467,305 @@ describe("calculateSixSigma", () => {
   });
 });
 
+// ============================================================================
+// DISTRIBUTION & CAPABILITY TESTS
+// ============================================================================
+
+describe("getStandardDeviation", () => {
+  it("uses Cp for normal dimensions", () => {
+    expect(getStandardDeviation(createDimension({ tolerancePlus: 0.3, toleranceMinus: 0.3, processCapability: 1 }))).toBeCloseTo(0.1, 10);
+    expect(getStandardDeviation(createDimension({ tolerancePlus: 0.399, toleranceMinus: 0.399 }))).toBeCloseTo(0.1, 5);
+  });
+
+  it("spans the tolerance zone for uniform and triangular dimensions", () => {
+    expect(getStandardDeviation(createDimension({ tolerancePlus: 0.3, toleranceMinus: 0.3, distribution: "uniform" }))).toBeCloseTo(0.3 / Math.sqrt(3), 10);
+    expect(getStandardDeviation(createDimension({ tolerancePlus: 0.3, toleranceMinus: 0.3, distribution: "triangular" }))).toBeCloseTo(0.3 / Math.sqrt(6), 10);
+  });
+
+  it("derives σ from Cpk and the mean offset", () => {
+    // σ = (0.3 - 0.06) / (3 × 1.2) = 0.0667
+    const dim = createDimension({ tolerancePlus: 0.3, toleranceMinus: 0.3, meanOffset: 0.06, processCapabilityK: 1.2, processCapability: 2 });
+    expect(getStandardDeviation(dim)).toBeCloseTo(0.24 / 3.6, 10);
+  });
+});
+
+describe("calculateMeanOffset", () => {
+  it("applies sign and sensitivity", () => {
+    const dims = [
+      createDimension({ meanOffset: 0.02 }),
+      createDimension({ meanOffset: 0.01, sign: "negative", sensitivityCoefficient: 2 }),
+    ];
+    expect(calculateMeanOffset(dims)).toBeCloseTo(0, 10);
+    expect(calculateMeanOffset([createDimension()])).toBe(0);
+  });
+});
+
+describe("calculatePredictedCpk", () => {
+  it("uses the nearer limit", () => {
+    // min(10.3 - 10, 10 - 9.9) / (3 × 0.05) = 0.1 / 0.15
+    expect(calculatePredictedCpk(10, 0.05, { minimum: 9.9, maximum: 10.3 })).toBeCloseTo(0.6667, 4);
+    expect(calculatePredictedCpk(10, 0.05, { maximum: 10.3 })).toBeCloseTo(2, 10);
+  });
+
+  it("is undefined without variation", () => {
+    expect(calculatePredictedCpk(10, 0, { minimum: 9 })).toBeUndefined();
+  });
+});
+
+describe("calculateStackup with distributions", () => {
+  const dims = [
+    createDimension({ nominal: 20, tolerancePlus: 0.1, toleranceMinus: 0.1, processCapability: 1 }),
+    createDimension({ nominal: 19.5, tolerancePlus: 0.1, toleranceMinus: 0.1, sign: "negative", processCapability: 1 }),
+  ];
+
+  it("widens Six Sigma for uniform dimensions", () => {
+    const uniform = dims.map((dim) => ({ ...dim, processCapability: undefined, distribution: "uniform" as const }));
+    expect(calculateSixSigma(uniform)).toBeCloseTo(3 * Math.sqrt(2 * Math.pow(0.1 / Math.sqrt(3), 2)), 10);
+    expect(calculateSixSigma(uniform)).toBeGreaterThan(calculateSixSigma(dims));
+  });
+
+  it("shifts the Six Sigma result by the mean offsets only", () => {
+    const offset = [{ ...dims[0], meanOffset: 0.03 }, dims[1]];
+    const sixSigma = calculateStackup(createAnalysis({ dimensions: offset, analysisMethod: "six-sigma" }));
+    const worstCase = calculateStackup(createAnalysis({ dimensions: offset, analysisMethod: "worst-case" }));
+
+    expect((sixSigma.maximumValue + sixSigma.minimumValue) / 2).toBeCloseTo(0.53, 10);
+    expect((worstCase.maximumValue + worstCase.minimumValue) / 2).toBeCloseTo(0.5, 10);
+  });
+
+  it("predicts the closing dimension Cpk", () => {
+    // σ = √2 × 0.0333 = 0.0471, mean 0.5, limits 0.3 to 0.8 → Cpk = 0.2 / 0.1414
+    const result = calculateStackup(
+      createAnalysis({ dimensions: dims, analysisMethod: "six-sigma", acceptanceCriteria: { minimum: 0.3, maximum: 0.8 } })
+    );
+    expect(result.standardDeviation).toBeCloseTo(Math.sqrt(2) / 30, 10);
+    expect(result.predictedCpk).toBeCloseTo(0.2 / (Math.sqrt(2) / 10), 6);
+    expect(calculateStackup(createAnalysis({ dimensions: dims, analysisMethod: "rss" })).predictedCpk).toBeUndefined();
+  });
+
+  it("weights contributions by distribution", () => {
+    const mixed = [dims[0], { ...dims[1], processCapability: undefined, distribution: "uniform" as const }];
+    const contributions = calculateContributions(mixed, "six-sigma");
+    expect(contributions[1].percentContribution).toBeGreaterThan(contributions[0].percentContribution);
+    expect(contributions[0].percentContribution + contributions[1].percentContribution).toBeCloseTo(100, 10);
+  });
+
+  it("rejects a mean offset outside the tolerance zone", () => {
+    const result = validateStackupInput(
+      createAnalysis({ dimensions: [{ ...dims[0], meanOffset: 0.1 }, dims[1]] })
+    );
+    expect(result.valid).toBe(false);
+  });
+});
+
+// ============================================================================
+// MONTE CARLO METHOD TESTS
+// ============================================================================
+
+describe("simulateStackup", () => {
+  const dims = [
+    createDimension({ nominal: 20, tolerancePlus: 0.3, toleranceMinus: 0.3 }),
+    createDimension({ nominal: 10, tolerancePlus: 0.4, toleranceMinus: 0.4, sign: "negative" }),
+  ];
+
+  it("is reproducible from its seed", () => {
+    const first = simulateStackup(dims, { sampleCount: 5000, seed: 7 });
+    const second = simulateStackup(dims, { sampleCount: 5000, seed: 7 });
+    const other = simulateStackup(dims, { sampleCount: 5000, seed: 8 });
+
+    expect(second).toEqual(first);
+    expect(other.mean).not.toBe(first.mean);
+    expect(first.seed).toBe(7);
+    expect(first.sampleCount).toBe(5000);
+  });
+
+  it("matches the RSS distribution", () => {
+    // σ = √(0.1² + 0.1333²) ≈ 0.1667, so ±3σ = RSS = 0.5
+    const result = simulateStackup(dims, { sampleCount: 100000 });
+
+    expect(result.mean).toBeCloseTo(10, 2);
+    expect(result.standardDeviation).toBeCloseTo(calculateRSS(dims) / 3, 2);
+    const median = result.percentiles.find((p) => p.percentile === 50);
+    expect(median?.value).toBeCloseTo(10, 2);
+  });
+
+  it("bins every sample into the histogram", () => {
+    const result = simulateStackup(dims, { sampleCount: 10000 });
+    const total = result.histogram.reduce((sum, bin) => sum + bin.count, 0);
+
+    expect(total).toBe(10000);
+    expect(result.histogram[0].start).toBeLessThan(result.histogram[result.histogram.length - 1].end);
+  });
+
+  it("estimates PPM outside the acceptance criteria", () => {
+    // Limits at ±2σ leave about 2.28% on each side
+    const sigma = calculateRSS(dims) / 3;
+    const result = simulateStackup(
+      dims,
+      { sampleCount: 100000 },
+      { minimum: 10 - 2 * sigma, maximum: 10 + 2 * sigma }
+    );
+
+    expect(result.ppmBelowMinimum).toBeGreaterThan(20000);
+    expect(result.ppmBelowMinimum).toBeLessThan(25500);
+    expect(result.ppmOutside).toBeCloseTo(result.ppmBelowMinimum + result.ppmAboveMaximum, 6);
+  });
+
+  it("centers on the tolerance zone for asymmetric tolerances", () => {
+    const result = simulateStackup(
+      [createDimension({ nominal: 50, tolerancePlus: 0.025, toleranceMinus: 0 })],
+      { sampleCount: 20000 }
+    );
+    expect(result.mean).toBeCloseTo(50.0125, 3);
+  });
+
+  it("handles zero tolerances with a single bin", () => {
+    const result = simulateStackup(
+      [createDimension({ tolerancePlus: 0, toleranceMinus: 0 })],
+      { sampleCount: 1000 },
+      { minimum: 9 }
+    );
+    expect(result.histogram).toEqual([{ start: 10, end: 10, count: 1000 }]);
+    expect(result.ppmOutside).toBe(0);
+  });
+});
+
+describe("simulateStackup distributions", () => {
+  it("keeps uniform samples inside the tolerance zone", () => {
+    const result = simulateStackup(
+      [createDimension({ nominal: 10, tolerancePlus: 0.1, toleranceMinus: 0.1, distribution: "uniform" })],
+      { sampleCount: 20000 }
+    );
+    expect(result.histogram[0].start).toBeGreaterThanOrEqual(9.9);
+    expect(result.histogram[result.histogram.length - 1].end).toBeLessThanOrEqual(10.1);
+    expect(result.standardDeviation).toBeCloseTo(0.1 / Math.sqrt(3), 3);
+  });
+
+  it("skews lognormal samples while keeping the mean", () => {
+    const skewed = (skewness: number) =>
+      simulateStackup(
+        [createDimension({ nominal: 10, tolerancePlus: 0.3, toleranceMinus: 0.3, distribution: "lognormal", skewness })],
+        { sampleCount: 50000 }
+      );
+    const median = (result: ReturnType<typeof simulateStackup>) =>
+      result.percentiles.find((p) => p.percentile === 50)!.value;
+
+    const positive = skewed(1);
+    const negative = skewed(-1);
+    expect(positive.mean).toBeCloseTo(10, 2);
+    expect(positive.standardDeviation).toBeCloseTo(0.1, 2);
+    expect(median(positive)).toBeLessThan(positive.mean);
+    expect(median(negative)).toBeGreaterThan(negative.mean);
+  });
+
+  it("applies mean offsets", () => {
+    const result = simulateStackup(
+      [createDimension({ nominal: 10, tolerancePlus: 0.1, toleranceMinus: 0.1, meanOffset: -0.02 })],
+      { sampleCount: 20000 }
+    );
+    expect(result.mean).toBeCloseTo(9.98, 3);
+  });
+});
+
+describe("calculateStackup (monte-carlo)", () => {
+  it("takes limits from the simulated percentiles", () => {
+    const analysis = createAnalysis({
+      analysisMethod: "monte-carlo",
+      monteCarlo: { sampleCount: 50000, seed: 3 },
+    });
+    const result = calculateStackup(analysis);
+
+    expect(result.method).toBe("monte-carlo");
+    expect(result.monteCarlo?.seed).toBe(3);
+    expect(result.minimumValue).toBe(
+      result.monteCarlo?.percentiles.find((p) => p.percentile === 0.135)?.value
+    );
+    expect(result.totalTolerance).toBeCloseTo(calculateRSS(analysis.dimensions), 1);
+    expect(result.contributions.reduce((sum, c) => sum + c.percentContribution, 0)).toBeCloseTo(100, 10);
+  });
+
+  it("fails when the simulated limits exceed the criteria", () => {
+    const result = calculateStackup(
+      createAnalysis({
+        analysisMethod: "monte-carlo",
+        acceptanceCriteria: { minimum: 0 },
+        monteCarlo: { sampleCount: 10000 },
+      })
+    );
+
+    expect(result.passesAcceptanceCriteria).toBe(false);
+    expect(result.marginToMinimum).toBeLessThan(0);
+    expect(result.monteCarlo?.ppmBelowMinimum).toBeGreaterThan(0);
+  });
+
+  it("only attaches the simulation to Monte Carlo results", () => {
+    expect(calculateStackup(createAnalysis({ analysisMethod: "rss" })).monteCarlo).toBeUndefined();
+  });
+});
+
+// ============================================================================
+// VECTOR LOOP TESTS
+// ============================================================================
+
+describe("vector loops", () => {
+  // Hinge → base edge → angled latch arm → back to the stop face
+  const latchArm = [
+    createDimension({ name: "Base", nominal: 40, tolerancePlus: 0.05, toleranceMinus: 0.05, angle: 0 }),
+    createDimension({ name: "Arm", nominal: 30, angle: 120 }),
+    createDimension({ name: "Stop", nominal: 22, tolerancePlus: 0.08, toleranceMinus: 0.08, angle: 180 }),
+  ];
+  const rightTriangle = [
+    createDimension({ nominal: 3, angle: 0 }),
+    createDimension({ nominal: 4, angle: 90 }),
+  ];
+
+  it("measures projection and distance closures", () => {
+    expect(
+      calculateLoopClosure([40, 30, 22], [0, 120, 180], { closure: "projection" })
+    ).toBeCloseTo(3, 10);
+    expect(
+      calculateLoopClosure([40, 30, 22], [0, 120, 180], { closure: "projection", closureAngle: 90 })
+    ).toBeCloseTo(15 * Math.sqrt(3), 10);
+    expect(calculateLoopClosure([3, 4], [0, 90], { closure: "distance" })).toBeCloseTo(5, 10);
+  });
+
+  it("derives signed sensitivities numerically", () => {
+    expect(deriveLoopSensitivities(latchArm, { closure: "projection" })).toEqual([1, -0.5, -1]);
+    expect(deriveLoopSensitivities(rightTriangle, { closure: "distance" })).toEqual([0.6, 0.8]);
+    expect(deriveLoopSensitivities(rightTriangle, { closure: "projection" })).toEqual([1, 0]);
+  });
+
+  it("reduces the loop to signs and sensitivity coefficients", () => {
+    const resolved = resolveVectorLoop(latchArm, { closure: "projection" });
+    expect(resolved.map((d) => d.sign)).toEqual(["positive", "negative", "negative"]);
+    expect(resolved.map((d) => d.sensitivityCoefficient)).toEqual([1, 0.5, 1]);
+  });
+
+  it("reproduces the geometric nominal for nonlinear closures", () => {
+    const result = calculateStackup(
+      createAnalysis({ dimensions: rightTriangle, vectorLoop: { closure: "distance" } })
+    );
+    expect(result.nominalResult).toBeCloseTo(5, 6);
+    expect(result.totalTolerance).toBeCloseTo(0.6 * 0.1 + 0.8 * 0.1, 6);
+  });
+
+  it("applies derived sensitivities in every method", () => {
+    const analysis = createAnalysis({
+      dimensions: latchArm,
+      vectorLoop: { closure: "projection", closureAngle: 0 },
+      acceptanceCriteria: { minimum: 2.5, maximum: 3.5 },
+    });
+
+    const worstCase = calculateStackup(analysis);
+    expect(worstCase.nominalResult).toBeCloseTo(3, 10);
+    expect(worstCase.totalTolerance).toBeCloseTo(0.05 + 0.05 + 0.08, 10);
+
+    const rss = calculateStackup({ ...analysis, analysisMethod: "rss" });
+    expect(rss.totalTolerance).toBeCloseTo(Math.sqrt(0.05 ** 2 + 0.05 ** 2 + 0.08 ** 2), 10);
+    expect(rss.contributions.map((c) => c.dimensionId)).toEqual(latchArm.map((d) => d.id));
+  });
+});
+
 // ============================================================================
 // CONTRIBUTION ANALYSIS TESTS
 // ============================================================================
@@ -625,6 +931,19 @@ describe("validateStackupInput", () => {
     expect(result.valid).toBe(false);
   });
 
+  it("checks the Monte Carlo sample count", () => {
+    const coarse = validateStackupInput(
+      createAnalysis({ analysisMethod: "monte-carlo", monteCarlo: { sampleCount: 2000 } })
+    );
+    expect(coarse.valid).toBe(true);
+    expect(coarse.warnings).toContain("Monte Carlo with 2000 samples resolves PPM only to 500 PPM");
+
+    const tooFew = validateStackupInput(
+      createAnalysis({ analysisMethod: "monte-carlo", monteCarlo: { sampleCount: 10 } })
+    );
+    expect(tooFew.valid).toBe(false);
+  });
+
   it("warns on zero tolerance", () => {
     const analysis = createAnalysis({
       dimensions: [
@@ -658,6 +977,27 @@ describe("validateStackupInput", () => {
     expect(result.warnings.some((w) => w.includes("same sign"))).toBe(true);
   });
 
+  it("checks vector loops on their derived signs", () => {
+    const dimensions = [
+      createDimension({ sign: "positive", angle: 0 }),
+      createDimension({ sign: "positive", angle: 90 }),
+    ];
+    const projection = validateStackupInput(
+      createAnalysis({ dimensions, vectorLoop: { closure: "projection" } })
+    );
+    expect(projection.warnings.some((w) => w.includes("same sign"))).toBe(false);
+    expect(projection.warnings.some((w) => w.includes("Zero sensitivity"))).toBe(true);
+
+    const closed = validateStackupInput(
+      createAnalysis({
+        dimensions: [createDimension({ angle: 0 }), createDimension({ angle: 180 })],
+        vectorLoop: { closure: "distance" },
+      })
+    );
+    expect(closed.valid).toBe(false);
+    expect(closed.errors[0]).toContain("closes on itself");
+  });
+
   it("warns on low Cp for six-sigma", () => {
     const analysis = createAnalysis({
       analysisMethod: "six-sigma",
@@ -773,13 +1113,14 @@ describe("calculateStackup (integration)", () => {
 });
 
 describe("compareAllMethods", () => {
-  it("returns results for all three methods", () => {
+  it("returns results for all methods", () => {
     const analysis = createAnalysis();
     const results = compareAllMethods(analysis);
 
     expect(results).toHaveProperty("worst-case");
     expect(results).toHaveProperty("rss");
     expect(results).toHaveProperty("six-sigma");
+    expect(results).toHaveProperty("monte-carlo");
   });
 
   it("worst-case >= RSS >= six-sigma (with high Cp)", () => {
@@ -0,0 +1,173 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  deriveFcfContribution,
+  deriveFcfContributors,
+  refreshFcfContributors,
+  type LinkedFcfRecord,
+  type FcfLinkSource,
+} from "@/lib/stackup/fcf";
+import { calculateStackup } from "@/lib/stackup/calculator";
+import { StackupDimensionSchema, type StackupAnalysis } from "@/lib/stackup/schema";
+import type { DatumFeature } from "@/lib/fcf/datums";
+import type { FcfJson } from "@/lib/fcf/schema";
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+const holePosition: LinkedFcfRecord = {
+  id: "fcf-001",
+  name: "Bore Position",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  fcf: {
+    characteristic: "position",
+    featureType: "hole",
+    sourceUnit: "mm",
+    source: { inputType: "builder" },
+    tolerance: { value: 0.05, diameter: true, materialCondition: "MMC" },
+    datums: [{ id: "A" }, { id: "B", materialCondition: "MMC" }],
+    sizeDimension: { nominal: 50, tolerancePlus: 0.025, toleranceMinus: 0 },
+  },
+};
+
+const datumCatalog: DatumFeature[] = [
+  { id: "A", type: "planar" },
+  { id: "B", type: "cylindrical", size: { nominal: 20, tolerancePlus: 0.021, toleranceMinus: 0 } },
+];
+
+const source: FcfLinkSource = { records: [holePosition], datumCatalog };
+
+function withFcf(fcf: Partial<FcfJson>): LinkedFcfRecord {
+  return { ...holePosition, fcf: { ...holePosition.fcf, ...fcf } };
+}
+
+// ============================================================================
+// DERIVATION TESTS
+// ============================================================================
+
+describe("deriveFcfContribution", () => {
+  it("converts a diametral position zone to ±T/2", () => {
+    expect(deriveFcfContribution({ contributor: "geometric" }, holePosition.fcf, "mm")).toEqual({
+      tolerancePlus: 0.025,
+      toleranceMinus: 0.025,
+    });
+  });
+
+  it("keeps the disposition of an unequally disposed profile", () => {
+    const profile = withFcf({
+      characteristic: "profile",
+      tolerance: { value: 0.1, outsideAmount: 0.03 },
+      modifiers: ["UNEQUALLY_DISPOSED"],
+    }).fcf;
+    const contribution = deriveFcfContribution({ contributor: "geometric" }, profile, "mm");
+    expect(contribution?.tolerancePlus).toBeCloseTo(0.03, 10);
+    expect(contribution?.toleranceMinus).toBeCloseTo(0.07, 10);
+  });
+
+  it("models bonus only at MMC or LMC", () => {
+    expect(deriveFcfContribution({ contributor: "bonus" }, holePosition.fcf, "mm")).toEqual({
+      tolerancePlus: 0.0125,
+      toleranceMinus: 0.0125,
+    });
+    const rfs = withFcf({ tolerance: { value: 0.05, diameter: true } }).fcf;
+    expect(deriveFcfContribution({ contributor: "bonus" }, rfs, "mm")).toBeUndefined();
+  });
+
+  it("models datum shift for datum features of size at MMB", () => {
+    expect(
+      deriveFcfContribution({ contributor: "datumShift", datumId: "B" }, holePosition.fcf, "mm", datumCatalog)
+    ).toEqual({ tolerancePlus: 0.0105, toleranceMinus: 0.0105 });
+    expect(
+      deriveFcfContribution({ contributor: "datumShift", datumId: "A" }, holePosition.fcf, "mm", datumCatalog)
+    ).toBeUndefined();
+    expect(
+      deriveFcfContribution({ contributor: "datumShift", datumId: "B" }, holePosition.fcf, "mm")
+    ).toBeUndefined();
+  });
+
+  it("converts into the stack-up unit", () => {
+    const contribution = deriveFcfContribution(
+      { contributor: "geometric" },
+      withFcf({ tolerance: { value: 0.254, diameter: true } }).fcf,
+      "inch"
+    );
+    expect(contribution?.tolerancePlus).toBeCloseTo(0.005, 10);
+  });
+});
+
+describe("deriveFcfContributors", () => {
+  it("creates linked geometric, bonus and datum shift dimensions", () => {
+    const dims = deriveFcfContributors(holePosition, { unit: "mm", sign: "negative", datumCatalog });
+
+    expect(dims.map((d) => d.name)).toEqual([
+      "Bore Position",
+      "Bore Position bonus",
+      "Bore Position datum B shift",
+    ]);
+    expect(dims.every((d) => d.nominal === 0 && d.sign === "negative")).toBe(true);
+    expect(dims[2].fcfLink).toEqual({
+      fcfRecordId: "fcf-001",
+      contributor: "datumShift",
+      datumId: "B",
+      fcfUpdatedAt: "2024-01-01T00:00:00.000Z",
+    });
+    expect(dims.every((d) => StackupDimensionSchema.safeParse(d).success)).toBe(true);
+  });
+
+  it("skips FCFs that cannot contribute", () => {
+    expect(
+      deriveFcfContributors(withFcf({ characteristic: "other", tolerance: { value: 0.1 } }), { unit: "mm" })
+    ).toHaveLength(0);
+  });
+
+  it("feeds the stack-up calculation", () => {
+    const analysis = {
+      dimensions: [
+        { id: "d1", name: "Gap", nominal: 1, tolerancePlus: 0.1, toleranceMinus: 0.1, sign: "positive", sensitivityCoefficient: 1 },
+        ...deriveFcfContributors(holePosition, { unit: "mm", sign: "negative", datumCatalog }),
+      ],
+      analysisMethod: "worst-case",
+      acceptanceCriteria: { minimum: 0 },
+    } as unknown as StackupAnalysis;
+
+    expect(calculateStackup(analysis).totalTolerance).toBeCloseTo(0.1 + 0.025 + 0.0125 + 0.0105, 10);
+  });
+});
+
+// ============================================================================
+// RE-DERIVATION TESTS
+// ============================================================================
+
+describe("refreshFcfContributors", () => {
+  const dims = deriveFcfContributors(holePosition, { unit: "mm", datumCatalog });
+
+  it("leaves dimensions alone while the FCF is unchanged", () => {
+    const refresh = refreshFcfContributors(dims, source, "mm");
+    expect(refresh.dimensions).toEqual(dims);
+    expect(refresh.updated).toEqual([]);
+    expect(refresh.missing).toEqual([]);
+  });
+
+  it("re-derives tolerances when the FCF changes", () => {
+    const changed = {
+      ...withFcf({ tolerance: { value: 0.08, diameter: true, materialCondition: "MMC" } }),
+      updatedAt: "2024-02-01T00:00:00.000Z",
+    };
+    const renamed = dims.map((d, i) => (i === 0 ? { ...d, name: "Custom name" } : d));
+    const refresh = refreshFcfContributors(renamed, { records: [changed], datumCatalog }, "mm");
+
+    expect(refresh.updated).toEqual([dims[0].id]);
+    expect(refresh.dimensions[0]).toMatchObject({ name: "Custom name", tolerancePlus: 0.04, toleranceMinus: 0.04 });
+    expect(refresh.dimensions[1].fcfLink?.fcfUpdatedAt).toBe("2024-02-01T00:00:00.000Z");
+  });
+
+  it("reports links whose FCF or contributor is gone", () => {
+    const rfs = withFcf({ tolerance: { value: 0.05, diameter: true }, datums: [{ id: "A" }, { id: "B" }] });
+    const refresh = refreshFcfContributors(dims, { records: [rfs], datumCatalog }, "mm");
+    expect(refresh.missing).toEqual([dims[1].id, dims[2].id]);
+    expect(refresh.dimensions[1]).toEqual(dims[1]);
+
+    expect(refreshFcfContributors(dims, { records: [] }, "mm").missing).toHaveLength(3);
+  });
+});
@@ -227,7 +227,7 @@ describe("StackupAnalysisSchema", () => {
   });
 
   it("validates all analysis methods", () => {
-    const methods = ["worst-case", "rss", "six-sigma"] as const;
+    const methods = ["worst-case", "rss", "six-sigma", "monte-carlo"] as const;
     for (const method of methods) {
       const analysis = createValidAnalysis();
       analysis.analysisMethod = method;
@@ -263,11 +263,48 @@ describe("StackupAnalysisSchema", () => {
   it("rejects invalid analysis method", () => {
     const analysis = createValidAnalysis();
     (analysis as unknown as { analysisMethod: string }).analysisMethod =
-      "monte-carlo";
+      "min-max";
     const result = StackupAnalysisSchema.safeParse(analysis);
     expect(result.success).toBe(false);
   });
 
+  it("validates Monte Carlo sampler settings", () => {
+    const analysis = createValidAnalysis();
+    analysis.analysisMethod = "monte-carlo";
+    analysis.monteCarlo = { sampleCount: 20000, seed: 42 };
+    expect(StackupAnalysisSchema.safeParse(analysis).success).toBe(true);
+
+    analysis.monteCarlo = { sampleCount: 10 };
+    expect(StackupAnalysisSchema.safeParse(analysis).success).toBe(false);
+
+    analysis.monteCarlo = { seed: 1.5 };
+    expect(StackupAnalysisSchema.safeParse(analysis).success).toBe(false);
+  });
+
+  it("validates allocation constraints and versions", () => {
+    const analysis = createValidAnalysis();
+    const [first, second] = analysis.dimensions;
+    analysis.dimensions = [
+      { ...first, allocation: { minTolerance: 0.01, maxTolerance: 0.1, costWeight: 2 } },
+      second,
+    ];
+    analysis.version = 2;
+    expect(StackupAnalysisSchema.safeParse(analysis).success).toBe(true);
+
+    analysis.dimensions = [{ ...first, allocation: { costWeight: 0 } }, second];
+    expect(StackupAnalysisSchema.safeParse(analysis).success).toBe(false);
+  });
+
+  it("validates vector loop closures", () => {
+    const analysis = createValidAnalysis();
+    analysis.vectorLoop = { closure: "projection", closureAngle: 90 };
+    analysis.dimensions = analysis.dimensions.map((dim, i) => ({ ...dim, angle: i * 45 }));
+    expect(StackupAnalysisSchema.safeParse(analysis).success).toBe(true);
+
+    (analysis.vectorLoop as { closure: string }).closure = "angle";
+    expect(StackupAnalysisSchema.safeParse(analysis).success).toBe(false);
+  });
+
   it("rejects empty measurement objective", () => {
     const analysis = createValidAnalysis();
     analysis.measurementObjective = "";
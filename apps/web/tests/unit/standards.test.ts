@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+
+import { exampleFcfs, FcfJson } from "@/lib/fcf/schema";
+import { translateStandard } from "@/lib/fcf/standards";
+import { validateFcf } from "@/lib/rules/validateFcf";
+
+const pinSize: FcfJson = {
+  characteristic: "perpendicularity",
+  featureType: "pin",
+  sourceUnit: "mm",
+  source: { inputType: "builder" },
+  tolerance: { value: 0.05, diameter: true, materialCondition: "RFS" },
+  datums: [{ id: "A" }],
+  sizeDimension: { nominal: 12, tolerancePlus: 0, toleranceMinus: 0.1 }
+};
+
+const unequalProfile: FcfJson = {
+  characteristic: "profile",
+  featureType: "surface",
+  sourceUnit: "mm",
+  source: { inputType: "builder" },
+  tolerance: { value: 0.4, outsideAmount: 0.3 },
+  modifiers: ["UNEQUALLY_DISPOSED"],
+  datums: [{ id: "A" }, { id: "B" }]
+};
+
+const topics = (notes: { topic: string }[]) => notes.map((n) => n.topic);
+
+describe("translateStandard", () => {
+  it("returns an unchanged copy when the standard does not change", () => {
+    const result = translateStandard(pinSize, "ASME_Y14_5_2018");
+    expect(result.notes).toEqual([]);
+    expect(result.fcf).toEqual(pinSize);
+    expect(result.fcf).not.toBe(pinSize);
+  });
+
+  describe("ASME → ISO", () => {
+    it("reports Rule #1 vs. independency and adds the envelope", () => {
+      const result = translateStandard(pinSize, "ISO_1101");
+      const rule1 = result.notes.find((n) => n.topic === "Rule #1 / independency principle");
+      expect(rule1?.kind).toBe("meaningChange");
+      expect(result.fcf.sizeDimension?.envelope).toBe(true);
+      expect(result.fcf.standard).toBe("ISO_1101");
+    });
+
+    it("removes explicit RFS", () => {
+      const result = translateStandard(pinSize, "ISO_1101");
+      expect(result.fcf.tolerance.materialCondition).toBeUndefined();
+      expect(topics(result.notes)).toContain("Regardless of feature size");
+    });
+
+    it("converts Ⓤ to a UZ offset", () => {
+      const result = translateStandard(unequalProfile, "ISO_1101");
+      expect(result.fcf.tolerance).toEqual({ value: 0.4, zoneOffset: 0.1 });
+      expect(result.fcf.modifiers).toEqual([]);
+      expect(result.fcf.isoModifiers).toEqual(["UZ"]);
+    });
+
+    it("adds CZ to keep a pattern's simultaneous requirement", () => {
+      const result = translateStandard(exampleFcfs.positionHole, "ISO_1101");
+      expect(result.fcf.isoModifiers).toEqual(["CZ"]);
+      expect(topics(result.notes)).toContain("Datum MMB vs. MMR");
+    });
+
+    it("flags composite frames as a meaning change", () => {
+      const result = translateStandard(exampleFcfs.compositePositionSlots, "ISO_1101");
+      expect(result.fcf.composite?.type).toBe("multipleSingleSegments");
+      expect(result.notes.find((n) => n.topic === "Composite frame")?.kind).toBe("meaningChange");
+    });
+
+    it("produces frames that pass the ISO rule set", () => {
+      expect(validateFcf(translateStandard(pinSize, "ISO_1101").fcf).valid).toBe(true);
+      expect(validateFcf(translateStandard(unequalProfile, "ISO_1101").fcf).valid).toBe(true);
+    });
+  });
+
+  describe("ISO → ASME", () => {
+    it("drops the envelope since Rule #1 applies", () => {
+      const iso = translateStandard(pinSize, "ISO_1101").fcf;
+      const result = translateStandard(iso, "ASME_Y14_5_2018");
+      expect(result.fcf.sizeDimension?.envelope).toBeUndefined();
+      expect(result.notes.find((n) => n.topic === "Rule #1 / independency principle")?.kind).toBe("converted");
+    });
+
+    it("keeps independency with a note when no envelope was stated", () => {
+      const result = translateStandard({ ...pinSize, standard: "ISO_1101", tolerance: { value: 0.05 } }, "ASME_Y14_5_2018");
+      expect(result.fcf.notes).toContain("PERFECT FORM AT MMC NOT REQD");
+      expect(result.notes[0].kind).toBe("meaningChange");
+    });
+
+    it("round-trips an offset profile zone", () => {
+      const iso = translateStandard(unequalProfile, "ISO_1101").fcf;
+      const result = translateStandard(iso, "ASME_Y14_5_2018");
+      expect(result.fcf.tolerance).toEqual(unequalProfile.tolerance);
+      expect(result.fcf.modifiers).toEqual(["UNEQUALLY_DISPOSED"]);
+      expect(result.fcf.isoModifiers).toBeUndefined();
+    });
+
+    it("moves SZ and LE into drawing notes", () => {
+      const iso: FcfJson = {
+        ...exampleFcfs.positionHole,
+        standard: "ISO_1101",
+        isoModifiers: ["SZ", "LE"]
+      };
+      const result = translateStandard(iso, "ASME_Y14_5_2018");
+      expect(result.fcf.notes).toEqual(expect.arrayContaining(["SEP REQT", "EACH ELEMENT"]));
+      expect(validateFcf(result.fcf).issues.some((i) => i.code === "I001")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+
+import { calculateStraightness } from "@/lib/calc/straightness";
+import { LinePoint, StraightnessInput } from "@/lib/calc/types";
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+/**
+ * Line element with heights [0, 0, 0, 0, 0.01] at X = 0..40 on a 2° ramp.
+ * The minimum zone touches X = 0, 30 and 40 (width 0.0075); least squares
+ * leaves 0.008.
+ */
+const ramp = (2 * Math.PI) / 180;
+const stepPoints: LinePoint[] = [0, 0, 0, 0, 0.01].map((h, i) => ({
+  x: i * 10 * Math.cos(ramp) - h * Math.sin(ramp),
+  y: 3 + i * 10 * Math.sin(ramp) + h * Math.cos(ramp)
+}));
+
+const stepInput: StraightnessInput = {
+  unit: "mm",
+  tolerance: 0.0078,
+  measuredPoints: stepPoints
+};
+
+// ============================================================================
+// STRAIGHTNESS TESTS
+// ============================================================================
+
+describe("calculateStraightness", () => {
+  it("uses the minimum zone by default", () => {
+    const response = calculateStraightness(stepInput);
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.fitMethod).toBe("minimum-zone");
+      expect(response.result.measuredStraightness).toBeCloseTo(0.0075, 4);
+      expect(response.result.status).toBe("pass");
+      expect(response.result.line.slope).toBeCloseTo(Math.tan(ramp), 3);
+    }
+  });
+
+  it("rejects the same line element with a least-squares line", () => {
+    const response = calculateStraightness({ ...stepInput, fitMethod: "least-squares" });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.measuredStraightness).toBeCloseTo(0.008, 4);
+      expect(response.result.status).toBe("fail");
+      expect(response.result.summary).toContain("least squares");
+    }
+  });
+
+  it("reports zero for collinear points", () => {
+    const response = calculateStraightness({
+      unit: "mm",
+      tolerance: 0.01,
+      measuredPoints: [0, 1, 2, 3].map((x) => ({ x, y: 2 * x + 1 }))
+    });
+    expect(response.success).toBe(true);
+    if (response.success) {
+      expect(response.result.measuredStraightness).toBe(0);
+      expect(response.result.line).toEqual({ slope: 2, intercept: 1 });
+    }
+  });
+
+  it("requires at least two points", () => {
+    const response = calculateStraightness({ unit: "mm", tolerance: 0.01, measuredPoints: [{ x: 0, y: 0 }] });
+    expect(response.success).toBe(false);
+    if (!response.success) {
+      expect(response.errors[0].code).toBe("INSUFFICIENT_POINTS");
+    }
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+
+import { exampleFcfs, FcfJson } from "@/lib/fcf/schema";
+import { generateFcfSvg, getFrameLayout } from "@/lib/export/svg-generator";
+
+const countOccurrences = (haystack: string, needle: string) => haystack.split(needle).length - 1;
+
+const multipleSingleSegments: FcfJson = {
+  characteristic: "position",
+  featureType: "hole",
+  sourceUnit: "mm",
+  source: { inputType: "builder" },
+  tolerance: { value: 0.5, diameter: true, materialCondition: "MMC" },
+  datums: [{ id: "A" }, { id: "B" }, { id: "C" }],
+  pattern: { count: 4 },
+  composite: {
+    type: "multipleSingleSegments",
+    segments: [
+      {
+        tolerance: { value: 0.5, diameter: true, materialCondition: "MMC" },
+        datums: [{ id: "A" }, { id: "B" }, { id: "C" }]
+      },
+      {
+        tolerance: { value: 0.2, diameter: true, materialCondition: "MMC" },
+        datums: [{ id: "A" }, { id: "B" }]
+      }
+    ]
+  }
+};
+
+describe("getFrameLayout", () => {
+  it("returns a single row for a non-composite frame", () => {
+    const layout = getFrameLayout(exampleFcfs.positionHole);
+    expect(layout.kind).toBe("single");
+    expect(layout.rows).toHaveLength(1);
+    expect(layout.rows[0].datums.map((d) => d.id)).toEqual(["A", "B", "C"]);
+  });
+
+  it("returns one row per composite segment", () => {
+    const layout = getFrameLayout(exampleFcfs.compositePositionSlots);
+    expect(layout.kind).toBe("composite");
+    expect(layout.rows.map((r) => r.tolerance.value)).toEqual([0.25, 0.1]);
+    expect(layout.rows[1].datums.map((d) => d.id)).toEqual(["A", "B"]);
+  });
+});
+
+describe("generateFcfSvg", () => {
+  it("draws one characteristic cell for a single-row frame", () => {
+    const svg = generateFcfSvg(exampleFcfs.positionHole);
+    expect(countOccurrences(svg, "⊕")).toBe(1);
+    expect(svg).toContain("0.200");
+  });
+
+  it("shares one characteristic cell across composite rows", () => {
+    const svg = generateFcfSvg(exampleFcfs.compositePositionSlots);
+    expect(countOccurrences(svg, "⊕")).toBe(1);
+    expect(svg).toContain("0.250");
+    expect(svg).toContain("0.100");
+    // Symbol cell spans both rows
+    expect(svg).toContain('width="32" height="64"');
+  });
+
+  it("repeats the characteristic cell for multiple single segments", () => {
+    const svg = generateFcfSvg(multipleSingleSegments);
+    expect(countOccurrences(svg, "⊕")).toBe(2);
+    expect(svg).toContain("0.500");
+    expect(svg).toContain("0.200");
+  });
+
+  it("grows the viewBox height with the number of rows", () => {
+    const single = generateFcfSvg(exampleFcfs.positionHole, { scale: 1 });
+    const composite = generateFcfSvg(exampleFcfs.compositePositionSlots, { scale: 1 });
+    const height = (svg: string) => Number(/viewBox="0 0 [\d.]+ ([\d.]+)"/.exec(svg)?.[1]);
+    expect(height(composite) - height(single)).toBe(32);
+  });
+});
+
+describe("ISO rendering", () => {
+  const isoPattern: FcfJson = { ...exampleFcfs.positionHole, standard: "ISO_1101", isoModifiers: ["ACS", "CZ"] };
+
+  it("draws ISO zone indications on the first row and ACS beside the frame", () => {
+    const layout = getFrameLayout(isoPattern);
+    expect(layout.rows[0].zoneModifiers).toEqual(["CZ"]);
+    expect(layout.adjacentIndications).toEqual(["ACS"]);
+    const svg = generateFcfSvg(isoPattern);
+    expect(svg).toContain(" CZ</tspan>");
+    expect(svg).toContain(">ACS</text>");
+  });
+
+  it("formats the UZ offset with its sign", () => {
+    const profile: FcfJson = {
+      ...exampleFcfs.profileSurface,
+      standard: "ISO_1101",
+      isoModifiers: ["UZ"],
+      tolerance: { value: 0.4, zoneOffset: -0.1 }
+    };
+    expect(getFrameLayout(profile).rows[0].zoneModifiers).toEqual(["UZ-0.100"]);
+  });
+
+  it("ignores ISO indications on ASME frames", () => {
+    const layout = getFrameLayout({ ...isoPattern, standard: "ASME_Y14_5_2018" });
+    expect(layout.rows[0].zoneModifiers).toBeUndefined();
+    expect(layout.adjacentIndications).toBeUndefined();
+  });
+});
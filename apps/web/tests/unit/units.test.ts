@@ -0,0 +1,262 @@
+import { describe, expect, it } from "vitest";
+
+import type { PositionInput } from "@/lib/calc/types";
+import type { FcfJson } from "@/lib/fcf/schema";
+import type { StackupAnalysis } from "@/lib/stackup";
+import {
+  convertFcf,
+  convertPositionInput,
+  convertStackupAnalysis,
+  convertValue,
+  decimalsOf,
+  displayDecimals,
+  formatConversionNotes,
+  formatDimension,
+  toDisplayUnit
+} from "@/lib/util/units";
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+const positionFcf: FcfJson = {
+  characteristic: "position",
+  featureType: "hole",
+  sourceUnit: "mm",
+  source: { inputType: "builder" },
+  tolerance: { value: 0.25, diameter: true, materialCondition: "MMC" },
+  datums: [{ id: "A" }, { id: "B" }],
+  modifiers: ["PROJECTED_TOLERANCE_ZONE"],
+  projectedZone: { height: 12.7 },
+  sizeDimension: { nominal: 10, tolerancePlus: 0.1, toleranceMinus: 0 }
+};
+
+const positionInput: PositionInput = {
+  unit: "inch",
+  geometricTolerance: 0.01,
+  materialCondition: "MMC",
+  featureType: "hole",
+  sizeDimension: { nominal: 0.5, tolerancePlus: 0.005, toleranceMinus: 0, featureType: "hole" },
+  truePosition: { basicX: 1, basicY: 2 },
+  measured: { actualX: 1.002, actualY: 1.999, actualSize: 0.503 },
+  diametralZone: true,
+  datumFeatures: [
+    {
+      id: "B",
+      materialCondition: "MMC",
+      sizeDimension: { nominal: 1, tolerancePlus: 0.002, toleranceMinus: 0, featureType: "hole" },
+      actualSize: 1.001
+    }
+  ]
+};
+
+// ============================================================================
+// VALUE CONVERSION TESTS
+// ============================================================================
+
+describe("convertValue", () => {
+  it("rounds mm to inch with one more decimal place, at least three", () => {
+    expect(convertValue(12.7, "mm", "inch")).toEqual({ value: 0.5, decimals: 3, precisionLost: false });
+    expect(convertValue(0.254, "mm", "inch")).toEqual({ value: 0.01, decimals: 4, precisionLost: false });
+  });
+
+  it("drops a decimal place converting inch to mm when that is exact", () => {
+    expect(convertValue(0.5, "inch", "mm")).toEqual({ value: 12.7, decimals: 2, precisionLost: false });
+  });
+
+  it("keeps the exact value of inch tolerances in mm", () => {
+    expect(convertValue(0.001, "inch", "mm")).toEqual({ value: 0.0254, decimals: 4, precisionLost: false });
+    expect(convertValue(0.005, "inch", "mm")).toEqual({ value: 0.127, decimals: 3, precisionLost: false });
+    expect(convertValue(0.01, "inch", "mm")).toEqual({ value: 0.254, decimals: 3, precisionLost: false });
+    expect(convertValue(0.125, "inch", "mm")).toEqual({ value: 3.175, decimals: 3, precisionLost: false });
+  });
+
+  it("flags values that cannot be kept exact", () => {
+    expect(convertValue(0.05, "mm", "inch")).toEqual({ value: 0.001969, decimals: 6, precisionLost: true });
+    expect(convertValue(0.25, "mm", "inch")).toEqual({ value: 0.009843, decimals: 6, precisionLost: true });
+  });
+
+  it("rounds tolerances inward when they cannot be kept exact", () => {
+    expect(convertValue(0.05, "mm", "inch", undefined, "inward").value).toBe(0.001968);
+    expect(convertValue(0.05, "mm", "inch", 3, "inward").value).toBe(0.001);
+    expect(convertValue(0.001, "inch", "mm", undefined, "inward").value).toBe(0.0254);
+  });
+
+  it("flags values a fixed precision cannot hold", () => {
+    expect(convertValue(0.01, "mm", "inch", 3)).toEqual({ value: 0, decimals: 3, precisionLost: true });
+  });
+
+  it("leaves values already in the target unit untouched", () => {
+    expect(convertValue(0.123456, "mm", "mm")).toEqual({ value: 0.123456, decimals: 6, precisionLost: false });
+  });
+
+  it("ignores floating point noise when counting decimals", () => {
+    expect(decimalsOf(0.1 + 0.2)).toBe(1);
+    expect(decimalsOf(10)).toBe(0);
+  });
+});
+
+// ============================================================================
+// DISPLAY TESTS
+// ============================================================================
+
+describe("display helpers", () => {
+  it("converts to the display unit", () => {
+    expect(toDisplayUnit(1, "inch", "mm")).toEqual({ value: 25.4, unit: "mm", precisionLost: false });
+    expect(toDisplayUnit(1, "inch")).toEqual({ value: 1, unit: "inch", precisionLost: false });
+  });
+
+  it("formats with decimals and dual display", () => {
+    expect(formatDimension(0.25, "mm", { decimals: 3 })).toBe("0.250 mm");
+    expect(formatDimension(0.25, "mm", { decimals: 3, dualDisplay: true })).toBe("0.250 mm [0.0098 in]");
+    expect(formatDimension(0.001, "inch", { dualDisplay: true })).toBe("0.001 in [0.0254 mm]");
+    expect(formatDimension(0.25, "mm", { displayUnit: "inch", decimals: 4 })).toBe("0.0098 in");
+  });
+
+  it("adjusts the user's decimals for the other unit", () => {
+    expect(displayDecimals("mm")).toBe(3);
+    expect(displayDecimals("inch")).toBe(4);
+    expect(displayDecimals("mm", { unit: "mm", decimals: 2 })).toBe(2);
+    expect(displayDecimals("inch", { unit: "mm", decimals: 2 })).toBe(3);
+    expect(displayDecimals("mm", { unit: "inch", decimals: 4 })).toBe(3);
+  });
+});
+
+// ============================================================================
+// OBJECT CONVERSION TESTS
+// ============================================================================
+
+describe("convertFcf", () => {
+  it("converts every dimension of a frame and records notes", () => {
+    const conversion = convertFcf(positionFcf, "inch");
+    expect(conversion.value.sourceUnit).toBe("inch");
+    expect(conversion.value.tolerance).toEqual({ value: 0.009842, diameter: true, materialCondition: "MMC" });
+    expect(conversion.value.sizeDimension).toEqual({ nominal: 0.393701, tolerancePlus: 0.003937, toleranceMinus: 0 });
+    expect(conversion.value.projectedZone).toEqual({ height: 0.5 });
+    expect(conversion.value.datums).toEqual(positionFcf.datums);
+    expect(conversion.notes.find((note) => note.path === "tolerance.value")?.precisionLost).toBe(true);
+    expect(conversion.notes.map((note) => note.path)).toEqual([
+      "tolerance.value",
+      "sizeDimension.nominal",
+      "sizeDimension.tolerancePlus",
+      "sizeDimension.toleranceMinus",
+      "projectedZone.height"
+    ]);
+  });
+
+  it("converts values with their own unit override", () => {
+    const conversion = convertFcf(
+      { ...positionFcf, sourceUnit: "inch", tolerance: { value: 0.254, unit: "mm" } },
+      "inch"
+    );
+    expect(conversion.value.tolerance).toEqual({ value: 0.01 });
+    expect(conversion.notes).toHaveLength(1);
+  });
+
+  it("keeps an unequally disposed outside amount within the converted zone", () => {
+    const conversion = convertFcf(
+      {
+        ...positionFcf,
+        characteristic: "profile",
+        sourceUnit: "inch",
+        modifiers: ["UNEQUALLY_DISPOSED"],
+        tolerance: { value: 0.0035, outsideAmount: 0.0035 }
+      },
+      "mm",
+      2
+    );
+    expect(conversion.value.tolerance).toEqual({ value: 0.08, outsideAmount: 0.08 });
+  });
+
+  it("converts composite segments", () => {
+    const conversion = convertFcf(
+      {
+        ...positionFcf,
+        composite: {
+          type: "composite",
+          segments: [{ tolerance: { value: 0.508 } }, { tolerance: { value: 0.1 } }]
+        }
+      },
+      "inch"
+    );
+    expect(conversion.value.composite!.segments.map((segment) => segment.tolerance.value)).toEqual([0.02, 0.003937]);
+  });
+});
+
+describe("convertPositionInput", () => {
+  it("converts coordinates, sizes and datum features", () => {
+    const { value } = convertPositionInput(positionInput, "mm");
+    expect(value.unit).toBe("mm");
+    expect(value.geometricTolerance).toBe(0.254);
+    expect(value.sizeDimension.tolerancePlus).toBe(0.127);
+    expect(value.truePosition).toEqual({ basicX: 25.4, basicY: 50.8 });
+    expect(value.measured.actualX).toBe(25.4508);
+    expect(value.measured.actualSize).toBe(12.7762);
+    expect(value.datumFeatures![0].actualSize).toBe(25.4254);
+    expect(value.materialCondition).toBe("MMC");
+  });
+});
+
+describe("convertStackupAnalysis", () => {
+  it("converts dimensions and acceptance limits but not coefficients", () => {
+    const analysis = {
+      unit: "mm",
+      acceptanceCriteria: { minimum: 0.1 },
+      dimensions: [
+        { nominal: 25, tolerancePlus: 0.1, toleranceMinus: 0.05, sign: "positive", sensitivityCoefficient: 1 },
+        { nominal: 24.8, tolerancePlus: 0.05, toleranceMinus: 0.05, sign: "negative", sensitivityCoefficient: 0.5 }
+      ]
+    } as unknown as StackupAnalysis;
+
+    const { value, notes } = convertStackupAnalysis(analysis, "inch");
+    expect(value.unit).toBe("inch");
+    expect(value.acceptanceCriteria).toEqual({ minimum: 0.003937 });
+    expect(value.dimensions[0].tolerancePlus).toBe(0.003937);
+    expect(value.dimensions[0].nominal).toBeCloseTo(0.984, 3);
+    expect(value.dimensions[1].sensitivityCoefficient).toBe(0.5);
+    expect(notes).toHaveLength(7);
+  });
+
+  it("converts mean offsets with the dimensions", () => {
+    const analysis = {
+      unit: "inch",
+      acceptanceCriteria: { maximum: 0.01 },
+      dimensions: [{ nominal: 1, tolerancePlus: 0.002, toleranceMinus: 0.002, meanOffset: 0.001, skewness: 1 }]
+    } as unknown as StackupAnalysis;
+
+    const { value } = convertStackupAnalysis(analysis, "mm");
+    expect(value.dimensions[0].meanOffset).toBe(0.0254);
+    expect(value.dimensions[0].skewness).toBe(1);
+  });
+
+  it("converts allocation limits but not cost weights", () => {
+    const analysis = {
+      unit: "inch",
+      acceptanceCriteria: { maximum: 0.01 },
+      dimensions: [
+        {
+          nominal: 1,
+          tolerancePlus: 0.002,
+          toleranceMinus: 0.002,
+          allocation: { minTolerance: 0.001, maxTolerance: 0.004, costWeight: 2 }
+        }
+      ]
+    } as unknown as StackupAnalysis;
+
+    const { value } = convertStackupAnalysis(analysis, "mm");
+    expect(value.dimensions[0].allocation).toEqual({ minTolerance: 0.0254, maxTolerance: 0.1016, costWeight: 2 });
+  });
+});
+
+describe("formatConversionNotes", () => {
+  it("summarizes the conversion and lists lost precision", () => {
+    const conversion = convertFcf({ ...positionFcf, tolerance: { value: 0.0127 } }, "inch", 3);
+    const text = formatConversionNotes(conversion);
+    expect(text).toContain("from mm to inch");
+    expect(text).toContain("Precision lost: tolerance.value 0.0127 mm");
+  });
+
+  it("is empty when nothing was converted", () => {
+    expect(formatConversionNotes(convertFcf(positionFcf, "mm"))).toBe("");
+  });
+});
@@ -7,9 +7,16 @@ import {
   validateByCategory,
   getRules,
   getRulesByCategory,
+  getRulesForStandard,
+  applyFixes,
   ValidationResult,
-  ValidationIssue
+  ValidationIssue,
+  RuleExample
 } from "@/lib/rules/validateFcf";
+import { errorCodes, ErrorCode, reservedErrorCodes } from "@/lib/rules/errorCodes";
+import { parseNotation } from "@/lib/fcf/notation";
+import { DatumFeature } from "@/lib/fcf/datums";
+import { RuleProfile, profileFromSettings, resolveRuleProfile, DEFAULT_RULE_PROFILE } from "@/lib/rules/ruleProfiles";
 
 // ============================================================================
 // TEST FIXTURES
@@ -675,6 +682,269 @@ describe("validateFcf", () => {
     });
   });
 
+  // --------------------------------------------------------------------------
+  // E010: FREE_STATE requires a non-rigid part
+  // --------------------------------------------------------------------------
+  describe("E010: Free state modifier", () => {
+    const freeStateFlatness: FcfJson = { ...validFlatness, modifiers: ["FREE_STATE"] };
+
+    it("rejects FREE_STATE without a restraint note", () => {
+      const result = validateFcf(freeStateFlatness);
+      expect(hasError(result, "E010")).toBe(true);
+      expect(result.valid).toBe(false);
+    });
+
+    it("accepts FREE_STATE when the restrained condition is documented", () => {
+      const result = validateFcf({
+        ...freeStateFlatness,
+        notes: ["Non-rigid part: restrain datum A with 20 bolts torqued to 5 Nm"]
+      });
+      expect(hasError(result, "E010")).toBe(false);
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // E015: Runout datum axis
+  // --------------------------------------------------------------------------
+  describe("E015: Runout datum axis", () => {
+    const validRunout: FcfJson = {
+      characteristic: "runout",
+      featureType: "surface",
+      sourceUnit: "mm",
+      source: { inputType: "builder" },
+      tolerance: { value: 0.05 },
+      datums: [{ id: "A" }, { id: "B" }]
+    };
+
+    it("accepts runout to a two-datum axis", () => {
+      expect(hasError(validateFcf(validRunout), "E015")).toBe(false);
+    });
+
+    it("rejects runout datums at MMB", () => {
+      const result = validateFcf({ ...validRunout, datums: [{ id: "A", materialCondition: "MMC" }] });
+      expect(getIssue(result, "E015")?.path).toBe("datums[0].materialCondition");
+    });
+
+    it("rejects three datums for runout", () => {
+      const result = validateFcf({ ...validRunout, datums: [{ id: "A" }, { id: "B" }, { id: "C" }] });
+      expect(hasError(result, "E015")).toBe(true);
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // E018: Composite datum order
+  // --------------------------------------------------------------------------
+  describe("E018: Composite datum order", () => {
+    it("rejects a lower segment that reorders the upper datums", () => {
+      const fcf: FcfJson = {
+        ...validCompositePosition,
+        composite: {
+          type: "composite",
+          segments: [
+            { tolerance: { value: 0.25 }, datums: [{ id: "A" }, { id: "B" }, { id: "C" }] },
+            { tolerance: { value: 0.1 }, datums: [{ id: "A" }, { id: "C" }] }
+          ]
+        }
+      };
+      const result = validateFcf(fcf);
+      expect(getIssue(result, "E018")?.path).toBe("composite.segments[1].datums[1]");
+    });
+
+    it("accepts a lower segment that drops trailing datums", () => {
+      expect(hasError(validateFcf(validCompositePosition), "E018")).toBe(false);
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // E024: Multiple single segments primary datum
+  // --------------------------------------------------------------------------
+  describe("E024: Multiple single segment primary datum", () => {
+    it("rejects segments with different primary datums", () => {
+      const fcf: FcfJson = {
+        ...validCompositePosition,
+        composite: {
+          type: "multipleSingleSegments",
+          segments: [
+            { tolerance: { value: 0.25 }, datums: [{ id: "A" }, { id: "B" }, { id: "C" }] },
+            { tolerance: { value: 0.1 }, datums: [{ id: "D" }] }
+          ]
+        }
+      };
+      expect(hasError(validateFcf(fcf), "E024")).toBe(true);
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // E033: Spherical zone
+  // --------------------------------------------------------------------------
+  describe("E033: Spherical zone restriction", () => {
+    it("rejects spherical zone on a non-position characteristic", () => {
+      const fcf: FcfJson = { ...validPerpendicularity, tolerance: { value: 0.1, zoneShape: "spherical" } };
+      expect(hasError(validateFcf(fcf), "E033")).toBe(true);
+    });
+
+    it("rejects spherical zone on a slot", () => {
+      const fcf: FcfJson = {
+        ...validCompositePosition,
+        composite: undefined,
+        tolerance: { value: 0.1, zoneShape: "spherical" }
+      };
+      expect(hasError(validateFcf(fcf), "E033")).toBe(true);
+    });
+
+    it("accepts spherical position of a boss", () => {
+      const fcf: FcfJson = {
+        ...validPositionHole,
+        featureType: "boss",
+        tolerance: { value: 0.2, zoneShape: "spherical" }
+      };
+      expect(hasError(validateFcf(fcf), "E033")).toBe(false);
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // E035: Unequally disposed profile
+  // --------------------------------------------------------------------------
+  describe("E035: Unequally disposed profile", () => {
+    const unequalProfile: FcfJson = {
+      ...validProfile,
+      modifiers: ["UNEQUALLY_DISPOSED"],
+      tolerance: { value: 0.4, outsideAmount: 0.1 }
+    };
+
+    it("accepts a non-symmetric split", () => {
+      expect(hasError(validateFcf(unequalProfile), "E035")).toBe(false);
+    });
+
+    it("rejects a symmetric split", () => {
+      const result = validateFcf({ ...unequalProfile, tolerance: { value: 0.4, outsideAmount: 0.2 } });
+      expect(getIssue(result, "E035")?.path).toBe("tolerance.outsideAmount");
+    });
+
+    it("rejects a missing outside amount", () => {
+      const result = validateFcf({ ...unequalProfile, tolerance: { value: 0.4 } });
+      expect(hasError(result, "E035")).toBe(true);
+    });
+
+    it("rejects UNEQUALLY_DISPOSED on non-profile characteristics", () => {
+      const result = validateFcf({ ...validPerpendicularity, modifiers: ["UNEQUALLY_DISPOSED"] });
+      expect(getIssue(result, "E035")?.path).toBe("modifiers");
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // E043: Edge features
+  // --------------------------------------------------------------------------
+  describe("E043: Edge feature restriction", () => {
+    it("rejects flatness of an edge", () => {
+      const result = validateFcf({ ...validFlatness, featureType: "edge" });
+      expect(hasError(result, "E043")).toBe(true);
+    });
+
+    it("accepts straightness of an edge", () => {
+      const result = validateFcf({ ...validFlatness, characteristic: "straightness", featureType: "edge" });
+      expect(hasError(result, "E043")).toBe(false);
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // ISO GPS rule set
+  // --------------------------------------------------------------------------
+  describe("ISO 1101 rule set", () => {
+    const isoPattern: FcfJson = {
+      ...validPositionHole,
+      standard: "ISO_1101",
+      isoModifiers: ["CZ"],
+      pattern: { count: 4 }
+    };
+    const isoProfile: FcfJson = {
+      ...validProfile,
+      standard: "ISO_1101",
+      isoModifiers: ["UZ"],
+      tolerance: { value: 0.4, zoneOffset: -0.1 }
+    };
+
+    it("accepts a valid ISO frame", () => {
+      expect(validateFcf(isoPattern).valid).toBe(true);
+      expect(validateFcf(isoProfile).valid).toBe(true);
+    });
+
+    it("only runs ASME-specific rules on ASME frames", () => {
+      const rfs: FcfJson = { ...validPerpendicularity, tolerance: { value: 0.1, materialCondition: "RFS" } };
+      expect(hasWarning(validateFcf(rfs), "W001")).toBe(true);
+      expect(hasWarning(validateFcf({ ...rfs, standard: "ISO_1101" }), "W001")).toBe(false);
+    });
+
+    it("rejects ISO indications on ASME frames (I001)", () => {
+      const result = validateFcf({ ...isoPattern, standard: "ASME_Y14_5_2018" });
+      expect(getIssue(result, "I001")?.path).toBe("isoModifiers");
+      expect(hasError(validateFcf({ ...isoPattern, standard: undefined }), "I001")).toBe(true);
+    });
+
+    it("offers a Ⓤ conversion for a UZ offset on an ASME frame (I001)", () => {
+      const asme: FcfJson = { ...isoProfile, standard: "ASME_Y14_5_2018", isoModifiers: undefined };
+      const fixed = applyFixes(asme, validateFcf(asme).issues);
+      expect(fixed.tolerance).toEqual({ value: 0.4, outsideAmount: 0.1 });
+      expect(fixed.modifiers).toEqual(["UNEQUALLY_DISPOSED"]);
+    });
+
+    it("rejects CZ with SZ (I002)", () => {
+      const result = validateFcf({ ...isoPattern, isoModifiers: ["CZ", "SZ"] });
+      expect(hasError(result, "I002")).toBe(true);
+    });
+
+    it("requires an offset and a profile for UZ (I003)", () => {
+      expect(hasError(validateFcf({ ...isoProfile, tolerance: { value: 0.4 } }), "I003")).toBe(true);
+      const onPosition = validateFcf({ ...isoPattern, isoModifiers: ["UZ"] });
+      expect(getIssue(onPosition, "I003")?.path).toBe("isoModifiers");
+    });
+
+    it("converts ASME-only notation in ISO frames (I004)", () => {
+      const asmeNotation: FcfJson = {
+        ...validProfile,
+        standard: "ISO_1101",
+        modifiers: ["UNEQUALLY_DISPOSED"],
+        tolerance: { value: 0.4, outsideAmount: 0.3 },
+        datums: [{ id: "A", materialCondition: "RFS" }, { id: "B" }]
+      };
+      const result = validateFcf(asmeNotation);
+      expect(result.errors.filter((i) => i.code === "I004").map((i) => i.path)).toEqual([
+        "modifiers",
+        "datums[0].materialCondition"
+      ]);
+      const fixed = applyFixes(asmeNotation, result.issues);
+      expect(fixed.tolerance).toEqual({ value: 0.4, zoneOffset: 0.1 });
+      expect(fixed.isoModifiers).toEqual(["UZ"]);
+      expect(validateFcf(fixed).valid).toBe(true);
+    });
+
+    it("rejects composite frames in ISO (I004)", () => {
+      const result = validateFcf({ ...validCompositePosition, standard: "ISO_1101" });
+      expect(getIssue(result, "I004")?.path).toBe("composite.type");
+    });
+
+    it("warns about CZ/SZ without a pattern (I005)", () => {
+      expect(hasWarning(validateFcf({ ...isoPattern, pattern: undefined }), "I005")).toBe(true);
+    });
+
+    it("rejects the envelope requirement on a non-size feature (I006)", () => {
+      const result = validateFcf({
+        ...validFlatness,
+        standard: "ISO_1101",
+        sizeDimension: { nominal: 20, envelope: true }
+      });
+      expect(hasError(result, "I006")).toBe(true);
+    });
+
+    it("returns the rule set per standard", () => {
+      const asmeCodes = getRulesForStandard("ASME_Y14_5_2018").map((r) => r.code);
+      const isoCodes = getRulesForStandard("ISO_1101").map((r) => r.code);
+      expect(asmeCodes).toContain("W001");
+      expect(isoCodes).not.toContain("W001");
+      expect(isoCodes).toContain("I002");
+    });
+  });
+
   // --------------------------------------------------------------------------
   // Warnings
   // --------------------------------------------------------------------------
@@ -716,6 +986,17 @@ describe("validateFcf", () => {
       const result = validateFcf(fcf);
       expect(hasWarning(result, "W004")).toBe(true);
     });
+
+    it("warns about large tolerance values (W005)", () => {
+      const result = validateFcf({ ...validPositionHole, tolerance: { value: 8, diameter: true } });
+      expect(hasWarning(result, "W005")).toBe(true);
+      expect(hasWarning(validateFcf(validPositionHole), "W005")).toBe(false);
+    });
+
+    it("applies the W005 limit in the tolerance unit", () => {
+      const result = validateFcf({ ...validPositionHole, sourceUnit: "inch", tolerance: { value: 0.5 } });
+      expect(hasWarning(result, "W005")).toBe(true);
+    });
   });
 
   // --------------------------------------------------------------------------
@@ -793,6 +1074,14 @@ describe("validateFcf", () => {
       expect(rules.length).toBeGreaterThan(10);
     });
 
+    it("has a rule behind every catalogued code", () => {
+      const ruleCodes = new Set(getRules().map((r) => r.code));
+      const missing = (Object.keys(errorCodes) as ErrorCode[]).filter(
+        (code) => !ruleCodes.has(code) && !reservedErrorCodes.includes(code)
+      );
+      expect(missing).toEqual([]);
+    });
+
     it("getRulesByCategory filters rules", () => {
       const datumRules = getRulesByCategory("datum-requirements");
       expect(datumRules.every((r) => r.category === "datum-requirements")).toBe(true);
@@ -854,10 +1143,245 @@ describe("validateFcf", () => {
   });
 });
 
+// ============================================================================
+// AUTOFIX
+// ============================================================================
+
+describe("applyFixes", () => {
+  it("removes MMC from flatness (E001)", () => {
+    const fcf: FcfJson = { ...validFlatness, tolerance: { value: 0.05, materialCondition: "MMC" } };
+    const result = validateFcf(fcf);
+    const e001 = getIssue(result, "E001");
+    expect(e001?.fix?.operations).toEqual([{ op: "remove", path: "/tolerance/materialCondition" }]);
+
+    const fixed = applyFixes(fcf, result.issues);
+    expect(fixed.tolerance.materialCondition).toBeUndefined();
+    expect(validateFcf(fixed).valid).toBe(true);
+  });
+
+  it("removes redundant RFS (W001)", () => {
+    const fcf: FcfJson = { ...validPositionHole, tolerance: { value: 0.2, diameter: true, materialCondition: "RFS" } };
+    const fixed = applyFixes(fcf, validateFcf(fcf).issues);
+    expect(hasWarning(validateFcf(fixed), "W001")).toBe(false);
+    expect(fixed.tolerance.diameter).toBe(true);
+  });
+
+  it("does not mutate the input FCF", () => {
+    const fcf: FcfJson = { ...validFlatness, datums: [{ id: "A" }] };
+    applyFixes(fcf, validateFcf(fcf).issues);
+    expect(fcf.datums).toEqual([{ id: "A" }]);
+  });
+
+  it("removes several array entries without index drift", () => {
+    const fcf: FcfJson = {
+      ...validPositionHole,
+      datums: [{ id: "A" }, { id: "B" }, { id: "A" }, { id: "B" }]
+    };
+    const result = validateFcf(fcf);
+    expect(result.issues.filter((i) => i.code === "E017")).toHaveLength(2);
+    const fixed = applyFixes(fcf, result.issues);
+    expect(fixed.datums?.map((d) => d.id)).toEqual(["A", "B"]);
+  });
+
+  it("adds the projected zone modifier (E008)", () => {
+    const fcf: FcfJson = { ...validPositionHole, projectedZone: { height: 15 } };
+    const fixed = applyFixes(fcf, validateFcf(fcf).issues);
+    expect(fixed.modifiers).toEqual(["PROJECTED_TOLERANCE_ZONE"]);
+    expect(hasError(validateFcf(fixed), "E008")).toBe(false);
+  });
+
+  it("keeps datum order fixes when trimming extra lower datums (E018, E023)", () => {
+    const fcf: FcfJson = {
+      ...validPositionHole,
+      pattern: { count: 4 },
+      composite: {
+        type: "composite",
+        segments: [
+          { tolerance: { value: 0.5, diameter: true }, datums: [{ id: "A" }, { id: "B" }] },
+          { tolerance: { value: 0.1, diameter: true }, datums: [{ id: "A" }, { id: "C" }, { id: "B" }, { id: "D" }] }
+        ]
+      }
+    };
+    const result = validateFcf(fcf);
+    expect(hasError(result, "E018")).toBe(true);
+    expect(hasError(result, "E023")).toBe(true);
+
+    const fixed = applyFixes(fcf, result.issues);
+    expect(fixed.composite?.segments[1].datums?.map((d) => d.id)).toEqual(["A", "B"]);
+    expect(hasError(validateFcf(fixed), "E018")).toBe(false);
+    expect(hasError(validateFcf(fixed), "E023")).toBe(false);
+  });
+
+  it("ignores issues without fixes", () => {
+    const fcf: FcfJson = { ...validPositionHole, datums: [] };
+    const fixed = applyFixes(fcf, validateFcf(fcf).issues);
+    expect(fixed).toEqual(fcf);
+  });
+});
+
+// ============================================================================
+// RULE PROFILES
+// ============================================================================
+
+describe("rule profiles", () => {
+  const profile = (overrides: Partial<RuleProfile>): RuleProfile => ({
+    name: "Test profile",
+    overrides: {},
+    thresholds: {},
+    strict: false,
+    ...overrides
+  });
+
+  const largeTolerance: FcfJson = { ...validFlatness, tolerance: { value: 3 } };
+  const explicitRfs: FcfJson = {
+    ...validPositionHole,
+    tolerance: { value: 0.2, diameter: true, materialCondition: "RFS" }
+  };
+
+  it("omits the profile summary without a profile", () => {
+    expect(validateFcf(validPositionHole).profile).toBeUndefined();
+  });
+
+  it("reports the applied profile on the result", () => {
+    const result = validateFcf(validPositionHole, profile({ id: "p-1", overrides: { W002: { enabled: false } } }));
+    expect(result.profile).toEqual({ id: "p-1", name: "Test profile", overrideCount: 1, strict: false });
+  });
+
+  it("skips disabled rules", () => {
+    expect(validateFcf(explicitRfs).warnings.some((i) => i.code === "W001")).toBe(true);
+    const result = validateFcf(explicitRfs, profile({ overrides: { W001: { enabled: false } } }));
+    expect(result.issues.some((i) => i.code === "W001")).toBe(false);
+  });
+
+  it("overrides severity per code", () => {
+    const result = validateFcf(explicitRfs, profile({ overrides: { W001: { severity: "error" } } }));
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((i) => i.code)).toEqual(["W001"]);
+  });
+
+  it("reports every warning as an error in strict profiles", () => {
+    const result = validateFcf(explicitRfs, profile({ strict: true }));
+    expect(result.warnings).toHaveLength(0);
+    expect(result.errors.some((i) => i.code === "W001")).toBe(true);
+  });
+
+  it("tunes the W005 large tolerance limit", () => {
+    expect(validateFcf(largeTolerance).warnings.some((i) => i.code === "W005")).toBe(false);
+    const result = validateFcf(largeTolerance, profile({ thresholds: { largeTolerance: { mm: 1, inch: 0.04 } } }));
+    const w005 = result.warnings.find((i) => i.code === "W005");
+    expect(w005?.context?.suggestion).toContain("(1 mm)");
+  });
+
+  it("tunes the E019 datum limit", () => {
+    const fourDatums: FcfJson = { ...validPositionHole, datums: [{ id: "A" }, { id: "B" }, { id: "C" }, { id: "D" }] };
+    expect(validateFcf(fourDatums).warnings.some((i) => i.code === "E019")).toBe(true);
+    const result = validateFcf(fourDatums, profile({ thresholds: { maxDatumReferences: 4 } }));
+    expect(result.issues.some((i) => i.code === "E019")).toBe(false);
+  });
+
+  it("applies the profile in validateByCategory", () => {
+    const issues = validateByCategory(explicitRfs, "material-condition", profile({ strict: true }));
+    expect(issues.find((i) => i.code === "W001")?.severity).toBe("error");
+  });
+
+  it("derives a profile from user validation settings", () => {
+    const fromSettings = profileFromSettings({ strictMode: true, warnOnImplicitRfs: false, maxDatumReferences: 4 });
+    expect(fromSettings.strict).toBe(true);
+    expect(fromSettings.overrides.W001).toEqual({ enabled: false });
+    expect(fromSettings.thresholds.maxDatumReferences).toBe(4);
+  });
+
+  it("resolves project profile before the account default", () => {
+    const project = profile({ name: "Project" });
+    const account = profile({ name: "Account" });
+    expect(resolveRuleProfile(project, account).name).toBe("Project");
+    expect(resolveRuleProfile(null, account).name).toBe("Account");
+    expect(resolveRuleProfile(null, null)).toBe(DEFAULT_RULE_PROFILE);
+  });
+});
+
 // ============================================================================
 // INTEGRATION SCENARIOS
 // ============================================================================
 
+describe("rule provenance", () => {
+  it("gives every rule a rationale and cites the standard for every code", () => {
+    getRules().forEach((rule) => {
+      expect(rule.rationale.length).toBeGreaterThan(0);
+      // W005 is a practice heuristic, not a requirement of a standard
+      if (rule.code !== "W005") expect(rule.references.length).toBeGreaterThan(0);
+    });
+  });
+
+  it("attaches references, rationale and examples to reported issues", () => {
+    const fcf = parseNotation("⏥|0.05|A", { featureType: "surface" });
+    const e002 = validateFcf(fcf).issues.find((i) => i.code === "E002");
+    const rule = getRules().find((r) => r.code === "E002")!;
+    expect(e002?.context?.references).toEqual(rule.references);
+    expect(e002?.context?.rationale).toBe(rule.rationale);
+    expect(e002?.context?.examples).toEqual(rule.examples);
+  });
+
+  it("keeps provenance when a rule profile overrides the severity", () => {
+    const profile: RuleProfile = { ...DEFAULT_RULE_PROFILE, strict: true };
+    const fcf = parseNotation("⌓|0.5", { featureType: "surface" });
+    const w004 = validateFcf(fcf, profile).issues.find((i) => i.code === "W004");
+    expect(w004?.severity).toBe("error");
+    expect(w004?.context?.rationale).toBeDefined();
+  });
+
+  describe("examples", () => {
+    const examples = getRules().flatMap((rule) => (rule.examples ? [{ code: rule.code, ...rule.examples }] : []));
+
+    const exampleFcf = (example: RuleExample) =>
+      ({
+        ...parseNotation(example.frame, { featureType: example.featureType, standard: example.standard }),
+        ...example.fields
+      }) as FcfJson;
+
+    it.each(examples)("$code: the good example passes the rule", ({ code, good }) => {
+      expect(validateFcf(exampleFcf(good)).issues.map((i) => i.code)).not.toContain(code);
+    });
+
+    it.each(examples)("$code: the bad example is reported", ({ code, bad }) => {
+      expect(validateFcf(exampleFcf(bad)).issues.map((i) => i.code)).toContain(code);
+    });
+  });
+});
+
+describe("datum catalog", () => {
+  const catalog: DatumFeature[] = [
+    { id: "A", type: "planar" },
+    { id: "B", type: "cylindrical", size: { nominal: 12, tolerancePlus: 0.02, toleranceMinus: 0 } },
+    { id: "C", type: "planar" }
+  ];
+  const atMmb = (id: string): FcfJson => ({
+    ...validPositionHole,
+    datums: [{ id: "A" }, { id, materialCondition: "MMC" }]
+  });
+
+  it("accepts MMB on a catalogued datum feature of size", () => {
+    expect(validateFcf(atMmb("B"), undefined, catalog).issues.some((i) => i.code === "E003")).toBe(false);
+  });
+
+  it("rejects MMB on a catalogued planar datum feature", () => {
+    const e003 = validateFcf(atMmb("C"), undefined, catalog).issues.find((i) => i.code === "E003");
+    expect(e003?.severity).toBe("error");
+    expect(e003?.path).toBe("datums[1].materialCondition");
+    expect(applyFixes(atMmb("C"), [e003!]).datums?.[1]).toEqual({ id: "C" });
+  });
+
+  it("warns when the datum letter is not catalogued", () => {
+    const e003 = validateFcf(atMmb("D"), undefined, catalog).issues.find((i) => i.code === "E003");
+    expect(e003?.severity).toBe("warning");
+  });
+
+  it("checks every letter of a common datum", () => {
+    const result = validateFcf(atMmb("B-C"), undefined, catalog);
+    expect(result.errors.some((i) => i.code === "E003")).toBe(true);
+  });
+});
+
 describe("Integration scenarios", () => {
   it("validates complex real-world position FCF", () => {
     const fcf: FcfJson = {
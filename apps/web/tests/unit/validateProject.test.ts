@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest";
+
+import { FcfJson } from "@/lib/fcf/schema";
+import { projectErrorCodes, ProjectErrorCode } from "@/lib/rules/errorCodes";
+import { getProjectRules, validateProject, ProjectValidationResult } from "@/lib/rules/validateProject";
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+const datumA: FcfJson = {
+  characteristic: "flatness",
+  featureType: "surface",
+  featureId: "BASE",
+  datumFeature: "A",
+  sourceUnit: "mm",
+  source: { inputType: "builder" },
+  tolerance: { value: 0.05 }
+};
+
+const datumB: FcfJson = {
+  characteristic: "perpendicularity",
+  featureType: "plane",
+  featureId: "SIDE",
+  datumFeature: "B",
+  sourceUnit: "mm",
+  source: { inputType: "builder" },
+  tolerance: { value: 0.1 },
+  datums: [{ id: "A" }]
+};
+
+const holePattern: FcfJson = {
+  characteristic: "position",
+  featureType: "hole",
+  featureId: "4X-HOLES",
+  sourceUnit: "mm",
+  source: { inputType: "builder" },
+  tolerance: { value: 0.2, diameter: true, materialCondition: "MMC" },
+  datums: [{ id: "A" }, { id: "B" }],
+  pattern: { count: 4, note: "4X" },
+  sizeDimension: { nominal: 8, tolerancePlus: 0.1, toleranceMinus: 0 }
+};
+
+function hasIssue(result: ProjectValidationResult, code: ProjectErrorCode): boolean {
+  return result.issues.some((i) => i.code === code);
+}
+
+// ============================================================================
+// TEST SUITES
+// ============================================================================
+
+describe("validateProject", () => {
+  it("accepts a consistent drawing", () => {
+    const result = validateProject([datumA, datumB, holePattern]);
+    expect(result.issues).toHaveLength(0);
+    expect(result.valid).toBe(true);
+    expect(result.frameResults).toHaveLength(3);
+    expect(result.summary.frameCount).toBe(3);
+  });
+
+  it("includes frame-level errors in overall validity", () => {
+    const result = validateProject([datumA, { ...datumB, datums: [] }]);
+    expect(result.valid).toBe(false);
+    expect(result.summary.framesWithErrors).toBe(1);
+  });
+
+  describe("P001: Unestablished datum", () => {
+    it("flags a datum letter that no feature establishes", () => {
+      const result = validateProject([datumA, datumB, { ...holePattern, datums: [{ id: "A" }, { id: "B" }, { id: "C" }] }]);
+      const p001 = result.issues.find((i) => i.code === "P001");
+      expect(p001?.context?.datumId).toBe("C");
+      expect(p001?.fcfIndices).toEqual([2]);
+    });
+
+    it("accepts datums established through options", () => {
+      const result = validateProject([holePattern], { datumFeatures: ["A", "B"] });
+      expect(hasIssue(result, "P001")).toBe(false);
+    });
+
+    it("accepts datums in the datum catalog", () => {
+      const result = validateProject([holePattern], {
+        datumCatalog: [
+          { id: "A", type: "planar" },
+          { id: "B", type: "planar" }
+        ]
+      });
+      expect(hasIssue(result, "P001")).toBe(false);
+    });
+
+    it("checks each letter of a common datum", () => {
+      const runout: FcfJson = {
+        characteristic: "runout",
+        featureType: "surface",
+        sourceUnit: "mm",
+        source: { inputType: "builder" },
+        tolerance: { value: 0.05 },
+        datums: [{ id: "A-D" }]
+      };
+      const result = validateProject([datumA, runout]);
+      expect(result.issues.find((i) => i.code === "P001")?.context?.datumId).toBe("D");
+    });
+  });
+
+  it("validates frames against the datum catalog", () => {
+    const result = validateProject([{ ...holePattern, datums: [{ id: "A" }, { id: "B", materialCondition: "MMC" }] }], {
+      datumCatalog: [
+        { id: "A", type: "planar" },
+        { id: "B", type: "planar" }
+      ]
+    });
+    expect(result.frameResults[0].errors.some((i) => i.code === "E003")).toBe(true);
+  });
+
+  describe("P002: Illegal datum letters", () => {
+    it("rejects I, O and Q", () => {
+      const result = validateProject([{ ...datumA, datumFeature: "O" }, { ...datumB, datums: [{ id: "O" }] }]);
+      const p002 = result.errors.find((i) => i.code === "P002");
+      expect(p002?.context?.datumId).toBe("O");
+      expect(p002?.fcfIndices).toEqual([0, 1]);
+    });
+  });
+
+  describe("P003: Datum letter reused", () => {
+    it("rejects one letter on two features", () => {
+      const result = validateProject([datumA, { ...datumB, datumFeature: "A" }]);
+      expect(hasIssue(result, "P003")).toBe(true);
+    });
+
+    it("accepts several frames on the same datum feature", () => {
+      const result = validateProject([datumA, { ...datumA, characteristic: "straightness" }]);
+      expect(hasIssue(result, "P003")).toBe(false);
+    });
+  });
+
+  describe("P011: Conflicting material conditions", () => {
+    it("rejects MMC and LMC position on the same feature", () => {
+      const lmc: FcfJson = { ...holePattern, tolerance: { ...holePattern.tolerance, materialCondition: "LMC" } };
+      const result = validateProject([datumA, datumB, holePattern, lmc]);
+      const p011 = result.errors.find((i) => i.code === "P011");
+      expect(p011?.fcfIndices).toEqual([2, 3]);
+      expect(p011?.context?.featureId).toBe("4X-HOLES");
+    });
+
+    it("accepts different characteristics on the same feature", () => {
+      const perp: FcfJson = { ...holePattern, characteristic: "perpendicularity", tolerance: { value: 0.05, diameter: true } };
+      const result = validateProject([datumA, datumB, holePattern, perp]);
+      expect(hasIssue(result, "P011")).toBe(false);
+    });
+  });
+
+  describe("P012: Pattern count mismatch", () => {
+    it("rejects frames on the same pattern with different counts", () => {
+      const perp: FcfJson = {
+        ...holePattern,
+        characteristic: "perpendicularity",
+        pattern: { count: 6 }
+      };
+      const result = validateProject([datumA, datumB, holePattern, perp]);
+      expect(hasIssue(result, "P012")).toBe(true);
+    });
+
+    it("rejects a count that disagrees with the pattern note", () => {
+      const result = validateProject([datumA, datumB, { ...holePattern, pattern: { count: 4, note: "6X EQ SP" } }]);
+      expect(result.issues.find((i) => i.code === "P012")?.fcfIndices).toEqual([2]);
+    });
+  });
+
+  it("has a rule behind every project code", () => {
+    const ruleCodes = new Set(getProjectRules().map((r) => r.code));
+    expect(Object.keys(projectErrorCodes).filter((code) => !ruleCodes.has(code as ProjectErrorCode))).toEqual([]);
+  });
+});
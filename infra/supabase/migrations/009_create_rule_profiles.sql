@@ -0,0 +1,54 @@
+-- Migration: 009_create_rule_profiles
+-- Description: Named validation rule profiles (per-code enable/severity overrides and thresholds)
+-- attached to a project or used as the account-wide (team) default
+
+-- Rule profiles
+create table public.rule_profiles (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  description text,
+  overrides jsonb not null default '{}'::jsonb,
+  thresholds jsonb not null default '{}'::jsonb,
+  strict boolean not null default false,
+  is_default boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  deleted_at timestamptz,
+
+  -- Unique name per owner (case-insensitive, soft-delete aware)
+  constraint rule_profiles_name_unique unique nulls not distinct (user_id, lower(name), deleted_at)
+);
+
+comment on table public.rule_profiles is
+  'Named validation rule profiles applied by validateFcf';
+comment on column public.rule_profiles.overrides is
+  'JSONB keyed by error code (e.g. "W005") with optional "enabled" and "severity" (error | warning)';
+comment on column public.rule_profiles.thresholds is
+  'JSONB with optional "largeTolerance" ({mm, inch}, W005 limit) and "maxDatumReferences" (E019 limit)';
+comment on column public.rule_profiles.strict is
+  'Report every warning as an error';
+comment on column public.rule_profiles.is_default is
+  'Account-wide default applied to projects without their own profile';
+
+-- At most one default profile per owner
+create unique index rule_profiles_one_default_idx
+  on public.rule_profiles (user_id)
+  where is_default and deleted_at is null;
+create index rule_profiles_user_id_idx on public.rule_profiles (user_id);
+
+create trigger rule_profiles_touch_updated_at
+  before update on public.rule_profiles
+  for each row execute function public.touch_updated_at();
+
+-- Row Level Security
+alter table public.rule_profiles enable row level security;
+create policy rule_profiles_owner_all on public.rule_profiles
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- Project attachment
+alter table public.projects
+  add column if not exists rule_profile_id uuid references public.rule_profiles(id) on delete set null;
+
+comment on column public.projects.rule_profile_id is
+  'Rule profile for frames in this project; falls back to the owner''s default profile';
@@ -0,0 +1,11 @@
+-- Migration: 010_add_project_datum_catalog
+-- Description: Project-level datum feature catalog referenced by the datum letters in FCF JSON
+
+alter table public.projects
+  add column if not exists datum_features jsonb not null default '[]'::jsonb;
+
+alter table public.projects
+  add constraint projects_datum_features_is_array check (jsonb_typeof(datum_features) = 'array');
+
+comment on column public.projects.datum_features is
+  'Datum feature catalog: array of {id, type, featureId?, description?, size?, targets?, simulator?, constrains?} keyed by datum letter';
@@ -0,0 +1,18 @@
+-- Migration: 011_add_form_calculators
+-- Description: Allow measurements from the straightness, circularity and cylindricity calculators
+
+alter table public.measurements
+  drop constraint if exists measurements_calculator_check;
+
+alter table public.measurements
+  add constraint measurements_calculator_check check (
+    calculator in (
+      'position_mmc',
+      'flatness',
+      'straightness',
+      'circularity',
+      'cylindricity',
+      'perpendicularity',
+      'profile'
+    )
+  );
@@ -0,0 +1,20 @@
+-- Migration: 012_add_runout_calculators
+-- Description: Allow measurements from the circular and total runout calculators
+
+alter table public.measurements
+  drop constraint if exists measurements_calculator_check;
+
+alter table public.measurements
+  add constraint measurements_calculator_check check (
+    calculator in (
+      'position_mmc',
+      'flatness',
+      'straightness',
+      'circularity',
+      'cylindricity',
+      'perpendicularity',
+      'runout',
+      'total_runout',
+      'profile'
+    )
+  );
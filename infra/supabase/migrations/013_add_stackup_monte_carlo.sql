@@ -0,0 +1,16 @@
+-- Migration: 013_add_stackup_monte_carlo
+-- Description: Allow the Monte Carlo stack-up method and store its sampler settings
+
+alter table public.stackup_analyses
+  drop constraint if exists stackup_analyses_analysis_method_check;
+
+alter table public.stackup_analyses
+  add constraint stackup_analyses_analysis_method_check check (
+    analysis_method in ('worst-case', 'rss', 'six-sigma', 'monte-carlo')
+  );
+
+alter table public.stackup_analyses
+  add column if not exists monte_carlo jsonb;
+
+comment on column public.stackup_analyses.monte_carlo is
+  'JSONB with optional "sampleCount" and "seed" for reproducible Monte Carlo analyses';
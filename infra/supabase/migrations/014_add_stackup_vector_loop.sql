@@ -0,0 +1,8 @@
+-- Migration: 014_add_stackup_vector_loop
+-- Description: Store the closure definition of 2D vector-loop stack-ups
+
+alter table public.stackup_analyses
+  add column if not exists vector_loop jsonb;
+
+comment on column public.stackup_analyses.vector_loop is
+  'JSONB with "closure" (projection or distance) and optional "closureAngle" in degrees; dimension angles live in dimensions';
@@ -0,0 +1,21 @@
+-- Migration: 015_add_stackup_versions
+-- Description: Keep stack-up versions (e.g. accepted tolerance allocations) side by side
+
+alter table public.stackup_analyses
+  add column if not exists version integer not null default 1 check (version > 0),
+  add column if not exists previous_version_id uuid references public.stackup_analyses(id) on delete set null;
+
+comment on column public.stackup_analyses.version is
+  'Version number within the analysis history; versions share the analysis name';
+comment on column public.stackup_analyses.previous_version_id is
+  'Analysis this version was created from, e.g. by accepting a tolerance allocation';
+
+-- Versions share a name, so the name is unique per version
+alter table public.stackup_analyses
+  drop constraint if exists stackup_analyses_name_unique;
+
+alter table public.stackup_analyses
+  add constraint stackup_analyses_name_unique unique nulls not distinct (project_id, lower(name), version, deleted_at);
+
+create index if not exists stackup_analyses_previous_version_id_idx
+  on public.stackup_analyses (previous_version_id);
@@ -0,0 +1,35 @@
+/**
+ * Writes one support article per validation rule to
+ * apps/web/content/support/rules, and removes articles for codes no longer in
+ * the catalog. Run with `pnpm generate:rule-articles` after editing a rule;
+ * the unit tests fail while the committed articles are stale.
+ */
+
+import fs from "fs";
+import path from "path";
+
+import { getRules } from "@/lib/rules/validateFcf";
+import { RULE_ARTICLES_DIR, renderRuleArticle, ruleArticleSlug } from "@/lib/content/ruleArticles";
+
+const articlesDir = path.resolve(__dirname, "../apps/web/content/support", RULE_ARTICLES_DIR);
+
+fs.mkdirSync(articlesDir, { recursive: true });
+
+const written = new Set<string>();
+let changed = 0;
+for (const rule of getRules()) {
+  const file = `${ruleArticleSlug(rule.code)}.mdx`;
+  const filePath = path.join(articlesDir, file);
+  const article = renderRuleArticle(rule);
+  written.add(file);
+  if (fs.existsSync(filePath) && fs.readFileSync(filePath, "utf-8") === article) continue;
+  fs.writeFileSync(filePath, article);
+  changed++;
+}
+
+const stale = fs.readdirSync(articlesDir).filter((file) => file.endsWith(".mdx") && !written.has(file));
+for (const file of stale) {
+  fs.unlinkSync(path.join(articlesDir, file));
+}
+
+console.log(`Rule articles: ${written.size} total, ${changed} updated, ${stale.length} removed`);